@@ -0,0 +1,104 @@
+/**
+ * In-memory stand-in for config/database in tests. Each statement is answered by the first handler
+ * whose pattern matches it (whitespace collapsed, and passed to the handler for any interval or
+ * other literal it needs), and is a round trip, so concurrent requests
+ * interleave between statements. A handler can take a named lock for its transaction, as a locking
+ * read does, and other transactions wait for it until that one ends. Writes are not rolled back.
+ */
+
+type Handler = (params: any[], connection: FakeConnection | null, statement: string) => any;
+
+export class FakeConnection {
+  constructor(private readonly db: FakeDatabase) {}
+
+  async execute(sql: string, params: any[] = []): Promise<[any]> {
+    return [await this.db.run(sql, params, this)];
+  }
+
+  /**
+   * Hold a lock until the transaction ends, waiting for another transaction that holds it
+   */
+  async lock(key: string): Promise<void> {
+    await this.db.acquire(key, this);
+  }
+}
+
+export class FakeDatabase {
+  readonly statements: string[] = [];
+  private handlers: Array<{ pattern: RegExp; handle: Handler }> = [];
+  private locks: Map<string, FakeConnection> = new Map();
+  private waiters: Array<() => void> = [];
+
+  on(pattern: RegExp, handle: Handler): this {
+    this.handlers.push({ pattern, handle });
+    return this;
+  }
+
+  async run(sql: string, params: any[], connection: FakeConnection | null): Promise<any> {
+    const statement = sql.replace(/\s+/g, ' ').trim();
+    this.statements.push(statement);
+
+    const handler = this.handlers.find(({ pattern }) => pattern.test(statement));
+    if (!handler) {
+      throw new Error(`Unexpected statement: ${statement}`);
+    }
+
+    await Promise.resolve();
+    return handler.handle(params, connection, statement);
+  }
+
+  async acquire(key: string, connection: FakeConnection): Promise<void> {
+    while (this.locks.has(key) && this.locks.get(key) !== connection) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.locks.set(key, connection);
+  }
+
+  isLocked(key: string): boolean {
+    return this.locks.has(key);
+  }
+
+  executeQuery = async (sql: string, params: any[] = []): Promise<any> => {
+    return this.run(sql, params, null);
+  };
+
+  withTransaction = async <T>(work: (connection: any) => Promise<T>): Promise<T> => {
+    const connection = new FakeConnection(this);
+    try {
+      return await work(connection);
+    } finally {
+      this.release(connection);
+    }
+  };
+
+  executeTransaction = async (queries: Array<{ query: string; params: any[] }>): Promise<any[]> => {
+    return this.withTransaction(async (connection: FakeConnection) => {
+      const results = [];
+      for (const { query, params } of queries) {
+        const [result] = await connection.execute(query, params);
+        results.push(result);
+      }
+      return results;
+    });
+  };
+
+  private release(connection: FakeConnection): void {
+    for (const [key, holder] of this.locks) {
+      if (holder === connection) {
+        this.locks.delete(key);
+      }
+    }
+    for (const wake of this.waiters.splice(0)) {
+      wake();
+    }
+  }
+}
+
+/**
+ * The config/database module, answered by whichever fake `current` returns
+ */
+export const fakeDatabaseModule = (current: () => FakeDatabase) => ({
+  executeQuery: (sql: string, params?: any[]) => current().executeQuery(sql, params),
+  withTransaction: <T>(work: (connection: any) => Promise<T>) => current().withTransaction(work),
+  executeTransaction: (queries: Array<{ query: string; params: any[] }>) => current().executeTransaction(queries)
+});
@@ -0,0 +1,43 @@
+/**
+ * Serve one router on an ephemeral port for route tests, with the JSON body parser and error
+ * handler the app uses. Authentication is left to the test, usually by mocking middleware/auth.
+ */
+
+import express, { Router } from 'express';
+import { AddressInfo } from 'net';
+import { errorHandler } from '../middleware/errorHandler';
+
+export interface RouteResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface RouteServer {
+  request: (method: string, path: string, body?: any, headers?: Record<string, string>) => Promise<RouteResponse>;
+  close: () => Promise<void>;
+}
+
+export async function serveRouter(mount: string, router: Router): Promise<RouteServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(mount, router);
+  app.use(errorHandler);
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${mount}`;
+
+  return {
+    request: async (method, path, body, headers = {}) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const text = await response.text();
+      return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+    },
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
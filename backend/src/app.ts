@@ -1,6 +1,7 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 // Casino backend server
 import cors from 'cors';
 import helmet from 'helmet';
@@ -15,13 +16,22 @@ import { gameRoutes } from './routes/game';
 import { betRoutes } from './routes/bet';
 import { leaderboardRoutes } from './routes/leaderboard';
 import { adminRoutes } from './routes/admin';
+import { fairRoutes } from './routes/fair';
+import { blackjackRoutes } from './routes/blackjack';
+import { crashRoutes } from './routes/crash';
+import { autobetRoutes } from './routes/autobet';
+import { responsibleGamblingRoutes } from './routes/responsibleGambling';
+import { tournamentRoutes } from './routes/tournaments';
 import bonusRoutes from './routes/bonus';
 import creditsRoutes from './routes/credits';
 import pokerRoutes from './routes/poker';
 import { initializeSocket } from './socket/socketHandler';
 import { DatabaseCleanupService } from './services/databaseCleanup';
+import { DataExportService } from './services/dataExportService';
+import { LeaderLease } from './services/leaderLease';
 import { connectDatabase } from './config/database';
-import { connectRedis } from './config/redis';
+import { connectRedis, getRedisClient } from './config/redis';
+import { TokenService } from './services/tokenService';
 
 dotenv.config();
 
@@ -47,6 +57,7 @@ app.use(helmet());
 app.use(cors({
   origin: process.env.FRONTEND_URL || "http://localhost:3000",
   methods: ["GET", "POST", "PUT", "DELETE"],
+  exposedHeaders: ["Content-Disposition"], // Download names for data exports
   credentials: true
 }));
 app.use(morgan('combined'));
@@ -72,9 +83,15 @@ app.use('/api/games', gameRoutes);
 app.use('/api/bet', betRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/fair', fairRoutes);
+app.use('/api/blackjack', blackjackRoutes);
+app.use('/api/crash', crashRoutes);
+app.use('/api/autobet', autobetRoutes);
+app.use('/api/responsible-gambling', responsibleGamblingRoutes);
 app.use('/api/bonus', bonusRoutes);
 app.use('/api/credits', creditsRoutes);
 app.use('/api/poker', pokerRoutes);
+app.use('/api/tournaments', tournamentRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -82,14 +99,35 @@ app.use(errorHandler);
 // Initialize connections
 async function startServer() {
   try {
+    // Fails in production when JWT_SECRET is missing
+    TokenService.jwtSecret();
+
     await connectDatabase();
     await connectRedis();
+
+    // Rooms and broadcasts span every backend instance
+    const pubClient = getRedisClient().duplicate();
+    const subClient = pubClient.duplicate();
+    for (const client of [pubClient, subClient]) {
+      client.on('error', (err) => console.error('Redis adapter error:', err));
+    }
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    io.adapter(createAdapter(pubClient, subClient));
+
+    // One instance runs the background loops; the others hand it the work kept in its memory
+    LeaderLease.initialize(io);
     
     // Initialize WebSocket handlers
     initializeSocket(io);
     
     // Initialize database cleanup service
     DatabaseCleanupService.initialize();
+
+    // Build queued data exports in the background
+    DataExportService.initialize();
+
+    // Campaign once every loop has registered for election
+    LeaderLease.start();
     
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
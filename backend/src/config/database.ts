@@ -1,18 +1,22 @@
 import mysql from 'mysql2/promise';
 
-let connection: mysql.Connection;
+// A pool rather than one shared connection, so concurrent transactions cannot interleave
+let pool: mysql.Pool;
 
 export const connectDatabase = async (): Promise<void> => {
   try {
-    connection = await mysql.createConnection({
+    pool = mysql.createPool({
       host: process.env.DB_HOST || 'localhost',
       port: parseInt(process.env.DB_PORT || '3306'),
       user: process.env.DB_USER || 'casino_user',
       password: process.env.DB_PASSWORD || 'casino_pass',
       database: process.env.DB_NAME || 'casino_db',
-      timezone: '+00:00'
+      timezone: '+00:00',
+      connectionLimit: parseInt(process.env.DB_POOL_SIZE || '10')
     });
 
+    await pool.query('SELECT 1');
+
     console.log('✅ Database connected successfully');
   } catch (error) {
     console.error('❌ Database connection failed:', error);
@@ -20,11 +24,11 @@ export const connectDatabase = async (): Promise<void> => {
   }
 };
 
-export const getConnection = (): mysql.Connection => {
-  if (!connection) {
+export const getConnection = (): mysql.Pool => {
+  if (!pool) {
     throw new Error('Database not connected');
   }
-  return connection;
+  return pool;
 };
 
 export const executeQuery = async (
@@ -32,7 +36,7 @@ export const executeQuery = async (
   params: any[] = []
 ): Promise<any> => {
   try {
-    const [results] = await connection.execute(query, params);
+    const [results] = await pool.execute(query, params);
     return results;
   } catch (error) {
     console.error('Query execution error:', error);
@@ -43,19 +47,34 @@ export const executeQuery = async (
 export const executeTransaction = async (
   queries: Array<{ query: string; params: any[] }>
 ): Promise<any[]> => {
-  await connection.beginTransaction();
-  
-  try {
+  return withTransaction(async (connection) => {
     const results = [];
     for (const { query, params } of queries) {
       const [result] = await connection.execute(query, params);
       results.push(result);
     }
-    
-    await connection.commit();
     return results;
+  });
+};
+
+/**
+ * Run work on one pooled connection inside a transaction; needed when later
+ * statements depend on earlier results, e.g. after SELECT ... FOR UPDATE
+ */
+export const withTransaction = async <T>(
+  work: (connection: mysql.PoolConnection) => Promise<T>
+): Promise<T> => {
+  const connection = await pool.getConnection();
+  await connection.beginTransaction();
+
+  try {
+    const result = await work(connection);
+    await connection.commit();
+    return result;
   } catch (error) {
     await connection.rollback();
     throw error;
+  } finally {
+    connection.release();
   }
 };
\ No newline at end of file
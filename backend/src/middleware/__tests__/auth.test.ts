@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { hasRole, roleError } from '../auth';
+
+describe('roleError', () => {
+  it('lets each role do what the roles below it can', () => {
+    expect(hasRole('superadmin', 'admin')).toBe(true);
+    expect(hasRole('support', 'admin')).toBe(false);
+    // Tokens from before roles existed count as player
+    expect(hasRole(undefined, 'player')).toBe(true);
+    expect(hasRole(undefined, 'support')).toBe(false);
+  });
+
+  it('refuses a role below the one required', () => {
+    expect(roleError({ role: 'support', mfa: true }, 'admin')).toBe('Admin access required');
+    expect(roleError(undefined, 'support')).toBe('Support access required');
+  });
+
+  it('keeps admin access locked until the session was opened with 2FA', () => {
+    const message = 'Sign in with two-factor authentication to use admin access';
+
+    expect(roleError({ role: 'admin', mfa: false }, 'admin')).toBe(message);
+    expect(roleError({ role: 'superadmin', mfa: false }, 'support')).toBe(message);
+    expect(roleError({ role: 'admin', mfa: true }, 'admin')).toBeNull();
+  });
+
+  it('does not ask staff below admin, or anyone acting as a player, for 2FA', () => {
+    expect(roleError({ role: 'support', mfa: false }, 'support')).toBeNull();
+    expect(roleError({ role: 'admin', mfa: false }, 'player')).toBeNull();
+  });
+});
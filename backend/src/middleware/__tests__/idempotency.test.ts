@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import express, { NextFunction, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { AuthenticatedRequest } from '../auth';
+import { errorHandler } from '../errorHandler';
+import { idempotency } from '../idempotency';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+interface KeyRow {
+  user_id: number;
+  idempotency_key: string;
+  request_hash: string;
+  status: 'processing' | 'completed';
+  response_status: number | null;
+  response_body: string | null;
+  created_at: number; // Seconds on the test clock
+}
+
+// Lets a test hold a request inside its handler
+function gate(): { wait: () => Promise<void>; open: () => void } {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => { open = resolve; });
+  return { wait: () => opened, open };
+}
+
+describe('idempotency middleware', () => {
+  let keys: KeyRow[];
+  let now: number;
+  let handle: jest.Mock<(body: any) => Promise<any>>;
+  let server: Server;
+  let baseUrl: string;
+
+  const find = (userId: number, key: string) =>
+    keys.find(row => row.user_id === userId && row.idempotency_key === key);
+
+  const post = async (key: string, body: any = { amount: 10 }) => {
+    const response = await fetch(`${baseUrl}/api/bet/place`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, replayed: response.headers.get('Idempotent-Replayed'), body: await response.json() as any };
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+      req.user = { id: 7, username: 'player', email: 'player@example.com', role: 'player' } as any;
+      next();
+    });
+    app.post('/api/bet/place', idempotency, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        res.json({ success: true, data: await handle(req.body) });
+      } catch (error) {
+        next(error);
+      }
+    });
+    app.use(errorHandler);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    keys = [];
+    now = 1000;
+    handle = jest.fn(async () => ({ betId: handle.mock.calls.length }));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    mockDb
+      .on(/^INSERT IGNORE INTO idempotency_keys/, ([userId, key, , , requestHash]) => {
+        if (find(userId, key)) return { affectedRows: 0 };
+        keys.push({
+          user_id: userId, idempotency_key: key, request_hash: requestHash, status: 'processing',
+          response_status: null, response_body: null, created_at: now
+        });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE idempotency_keys SET created_at = NOW\(\) .* INTERVAL 60 SECOND$/, ([userId, key, requestHash]) => {
+        const row = find(userId, key);
+        if (!row || row.request_hash !== requestHash || row.status !== 'processing' || row.created_at >= now - 60) {
+          return { affectedRows: 0 };
+        }
+        row.created_at = now;
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT \* FROM idempotency_keys WHERE user_id = \? AND idempotency_key = \?$/, ([userId, key]) => {
+        const row = find(userId, key);
+        return row ? [{ ...row }] : [];
+      })
+      .on(/^UPDATE idempotency_keys SET status = 'completed'/, ([status, body, userId, key]) => {
+        Object.assign(find(userId, key)!, { status: 'completed', response_status: status, response_body: body });
+        return { affectedRows: 1 };
+      })
+      .on(/^DELETE FROM idempotency_keys .* AND status = 'processing'$/, ([userId, key]) => {
+        const row = find(userId, key);
+        if (row?.status !== 'processing') return { affectedRows: 0 };
+        keys.splice(keys.indexOf(row), 1);
+        return { affectedRows: 1 };
+      });
+  });
+
+  it('replays the stored response of a completed key without running the request again', async () => {
+    const first = await post('key-1');
+    const retry = await post('key-1');
+
+    expect(first).toEqual({ status: 200, replayed: null, body: { success: true, data: { betId: 1 } } });
+    expect(retry).toEqual({ status: 200, replayed: 'true', body: first.body });
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a duplicate that arrives while the first is still processing', async () => {
+    const held = gate();
+    handle.mockImplementationOnce(async () => {
+      await held.wait();
+      return { betId: 1 };
+    });
+
+    const first = post('key-1');
+    while (handle.mock.calls.length === 0) await new Promise(resolve => setImmediate(resolve));
+
+    const duplicate = await post('key-1');
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.message).toBe('A request with this Idempotency-Key is still being processed');
+
+    held.open();
+    expect((await first).status).toBe(200);
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await post('key-1', { amount: 10 });
+    const reused = await post('key-1', { amount: 20 });
+
+    expect(reused.status).toBe(422);
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the key of a request whose handler threw, so a retry runs', async () => {
+    handle.mockRejectedValueOnce(new Error('Database down'));
+
+    const failed = await post('key-1');
+    expect(failed.status).toBe(500);
+    expect(keys).toHaveLength(0);
+
+    const retry = await post('key-1');
+    expect(retry).toEqual({ status: 200, replayed: null, body: { success: true, data: { betId: 2 } } });
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('takes over a key left processing once its lease runs out', async () => {
+    // The first request's process hangs, as one that died would, holding the key
+    const held = gate();
+    handle.mockImplementationOnce(async () => {
+      await held.wait();
+      return { betId: 1 };
+    });
+    const stuck = post('key-1');
+    while (handle.mock.calls.length === 0) await new Promise(resolve => setImmediate(resolve));
+
+    now += 30;
+    expect((await post('key-1')).status).toBe(409);
+
+    now += 31;
+    const takeover = await post('key-1');
+    expect(takeover).toEqual({ status: 200, replayed: null, body: { success: true, data: { betId: 2 } } });
+    expect(handle).toHaveBeenCalledTimes(2);
+
+    held.open();
+    await stuck;
+    expect((await post('key-1')).replayed).toBe('true');
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+});
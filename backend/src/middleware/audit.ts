@@ -0,0 +1,33 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { AuditService } from '../services/auditService';
+
+/**
+ * Record a privileged request in the audit log once its response has been sent, together
+ * with the status it ended with. Must come after authenticateToken and requireRole.
+ */
+export const audit = (action: string) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  res.on('finish', () => {
+    if (!req.user) {
+      return;
+    }
+
+    AuditService.record({
+      userId: req.user.id,
+      username: req.user.username,
+      role: req.user.role,
+      action,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      params: { params: req.params, query: req.query, body: req.body },
+      statusCode: res.statusCode,
+      ipAddress: req.ip
+    });
+  });
+
+  next();
+};
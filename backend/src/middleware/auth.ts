@@ -1,19 +1,52 @@
-import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
+import { TokenService, TokenError } from '../services/tokenService';
+
+export type UserRole = 'player' | 'support' | 'admin' | 'superadmin';
+
+// Each role can do everything the roles before it can
+export const USER_ROLES: UserRole[] = ['player', 'support', 'admin', 'superadmin'];
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: number;
     username: string;
     email: string;
+    role: UserRole;
+    sid: string; // Session the access token belongs to
+    mfa: boolean; // Session was opened with a second factor
   };
 }
 
-export const authenticateToken = (
+/**
+ * Whether a role is at least the required one. Unknown roles (e.g. tokens issued
+ * before roles existed) count as player.
+ */
+export const hasRole = (role: string | undefined, required: UserRole): boolean => {
+  const level = USER_ROLES.indexOf(role as UserRole);
+  return Math.max(level, 0) >= USER_ROLES.indexOf(required);
+};
+
+// Accounts at or above this role must sign in with 2FA before using any staff access
+export const TWO_FACTOR_REQUIRED_ROLE: UserRole = 'admin';
+
+/**
+ * Why a user may not act with the required role, or null if they may
+ */
+export const roleError = (user: { role?: string; mfa?: boolean } | undefined, required: UserRole): string | null => {
+  if (!user || !hasRole(user.role, required)) {
+    return `${required.charAt(0).toUpperCase() + required.slice(1)} access required`;
+  }
+  if (required !== 'player' && hasRole(user.role, TWO_FACTOR_REQUIRED_ROLE) && !user.mfa) {
+    return 'Sign in with two-factor authentication to use admin access';
+  }
+  return null;
+};
+
+export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -26,13 +59,44 @@ export const authenticateToken = (
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
-    req.user = decoded;
-    next();
+    req.user = await TokenService.verifyAccessToken(token);
   } catch (error) {
+    if (error instanceof TokenError) {
+      // 401 tells the client to refresh its access token and retry
+      res.status(401).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Token verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify session'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Only let users with at least the given role through. Must come after authenticateToken.
+ */
+export const requireRole = (required: UserRole) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const error = roleError(req.user, required);
+  if (error) {
     res.status(403).json({
       success: false,
-      message: 'Invalid or expired token'
+      message: error
     });
+    return;
   }
-};
\ No newline at end of file
+
+  next();
+};
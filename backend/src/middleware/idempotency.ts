@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { executeQuery } from '../config/database';
+
+// A key still processing after this long belongs to a request whose process died; a retry may take it over
+const PROCESSING_LEASE_SECONDS = 60;
+
+/**
+ * Honour an `Idempotency-Key` header on money-moving requests. The first request with a key
+ * runs normally and its response is stored; a retry with the same key gets that stored
+ * response back instead of running again. Must come after authenticateToken.
+ */
+export const idempotency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header('Idempotency-Key');
+  if (!key) {
+    next();
+    return;
+  }
+
+  if (key.length > 255) {
+    res.status(400).json({
+      success: false,
+      message: 'Idempotency-Key must be at most 255 characters'
+    });
+    return;
+  }
+
+  const userId = req.user?.id;
+  const path = req.baseUrl + req.path;
+  const requestHash = crypto
+    .createHash('sha256')
+    .update(`${req.method} ${path} ${JSON.stringify(req.body || {})}`)
+    .digest('hex');
+
+  let stored: any = null;
+  try {
+    const inserted = await executeQuery(
+      `INSERT IGNORE INTO idempotency_keys (user_id, idempotency_key, request_method, request_path, request_hash)
+       VALUES (?, ?, ?, ?, ?)`,
+      [userId, key, req.method, path, requestHash]
+    );
+
+    const reclaimed = inserted.affectedRows === 0
+      ? await executeQuery(
+          `UPDATE idempotency_keys SET created_at = NOW()
+           WHERE user_id = ? AND idempotency_key = ? AND request_hash = ? AND status = 'processing'
+             AND created_at < NOW() - INTERVAL ${PROCESSING_LEASE_SECONDS} SECOND`,
+          [userId, key, requestHash]
+        )
+      : null;
+
+    if (reclaimed && reclaimed.affectedRows === 0) {
+      const rows = await executeQuery(
+        'SELECT * FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ?',
+        [userId, key]
+      );
+      stored = rows[0];
+    }
+  } catch (error) {
+    console.error('Idempotency key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process request'
+    });
+    return;
+  }
+
+  if (stored) {
+    if (stored.request_hash !== requestHash) {
+      res.status(422).json({
+        success: false,
+        message: 'Idempotency-Key was already used for a different request'
+      });
+      return;
+    }
+
+    if (stored.status === 'processing') {
+      res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed'
+      });
+      return;
+    }
+
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(stored.response_status).json(
+      typeof stored.response_body === 'string' ? JSON.parse(stored.response_body) : stored.response_body
+    );
+    return;
+  }
+
+  const release = () => executeQuery(
+    `DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND status = 'processing'`,
+    [userId, key]
+  );
+
+  // Store the response before it goes out, so a client that saw it can always replay it
+  let responded = false;
+  const send = res.json.bind(res);
+  res.json = (body: any): Response => {
+    responded = true;
+
+    const store = res.statusCode >= 500
+      // Server errors roll back, so free the key for a retry
+      ? release()
+      : executeQuery(
+          `UPDATE idempotency_keys
+           SET status = 'completed', response_status = ?, response_body = ?, completed_at = NOW()
+           WHERE user_id = ? AND idempotency_key = ?`,
+          [res.statusCode, JSON.stringify(body), userId, key]
+        );
+
+    store
+      .catch(error => console.error('Idempotency key store error:', error))
+      .then(() => send(body));
+
+    return res;
+  };
+
+  // A handler that threw is answered by the error handler without res.json; free its key too
+  res.on('finish', () => {
+    if (!responded) {
+      release().catch(error => console.error('Idempotency key release error:', error));
+    }
+  });
+
+  next();
+};
@@ -0,0 +1,133 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcrypt';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { RouteServer, serveRouter } from '../../__tests__/routeServer';
+import { AccountService } from '../../services/accountService';
+import { ResponsibleGamblingService } from '../../services/responsibleGamblingService';
+import { TokenService } from '../../services/tokenService';
+import { TwoFactorError, TwoFactorService } from '../../services/twoFactorService';
+import { authRoutes } from '../auth';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const TOKENS = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900, sessionId: 'session-1' };
+
+describe('auth routes', () => {
+  let server: RouteServer;
+  let passwordHash: string;
+  let user: any;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    passwordHash = await bcrypt.hash('correct horse', 4);
+    server = await serveRouter('/api/auth', authRoutes);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    user = {
+      id: 7, username: 'player', email: 'player@example.com', password_hash: passwordHash,
+      role: 'player', balance: '100.00', last_login: new Date(), created_at: new Date()
+    };
+
+    jest.spyOn(ResponsibleGamblingService, 'getActiveExclusion').mockResolvedValue(null);
+    jest.spyOn(ResponsibleGamblingService, 'sessionLimitMinutes').mockResolvedValue(null);
+    jest.spyOn(TokenService, 'createSession').mockResolvedValue(TOKENS as any);
+
+    mockDb
+      .on(/FROM users WHERE username = \? AND is_active = TRUE$/, ([username]) => (username === user.username ? [{ ...user }] : []))
+      .on(/FROM users WHERE id = \? AND is_active = TRUE$/, ([id]) => (id === user.id ? [{ ...user }] : []))
+      .on(/^UPDATE users SET last_login = \? WHERE id = \?$/, () => ({ affectedRows: 1 }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('two-factor login', () => {
+    const login = (password = 'correct horse') => server.request('POST', '/login', { username: 'player', password });
+
+    it('opens a session straight away for an account without 2FA', async () => {
+      jest.spyOn(TwoFactorService, 'isEnabled').mockResolvedValue(false);
+
+      const response = await login();
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ ...TOKENS, twoFactorSetupRequired: false });
+      expect(TokenService.createSession).toHaveBeenCalledWith(expect.objectContaining({ id: 7 }), expect.anything(), false, null);
+    });
+
+    it('answers the password step with a challenge, not a session, when 2FA is on', async () => {
+      jest.spyOn(TwoFactorService, 'isEnabled').mockResolvedValue(true);
+
+      const response = await login();
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+      expect(TokenService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('opens a session marked as 2FA once the challenge comes back with a valid code', async () => {
+      jest.spyOn(TwoFactorService, 'isEnabled').mockResolvedValue(true);
+      const verify = jest.spyOn(TwoFactorService, 'verify').mockResolvedValue(undefined);
+      const { body: { data: { challengeToken } } } = await login();
+
+      const response = await server.request('POST', '/login/2fa', { challengeToken, code: '123456' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject(TOKENS);
+      expect(verify).toHaveBeenCalledWith(7, '123456');
+      expect(TokenService.createSession).toHaveBeenCalledWith(expect.objectContaining({ id: 7 }), expect.anything(), true, null);
+    });
+
+    it('opens no session for an invalid code or a forged challenge', async () => {
+      jest.spyOn(TwoFactorService, 'isEnabled').mockResolvedValue(true);
+      jest.spyOn(TwoFactorService, 'verify').mockRejectedValue(new TwoFactorError('Invalid verification code'));
+      const { body: { data: { challengeToken } } } = await login();
+
+      const wrongCode = await server.request('POST', '/login/2fa', { challengeToken, code: '000000' });
+      const forged = await server.request('POST', '/login/2fa', { challengeToken: 'not-a-token', code: '123456' });
+
+      expect(wrongCode.status).toBe(400);
+      expect(forged.status).toBe(401);
+      expect(TokenService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('tells an admin who signed in without 2FA to set it up', async () => {
+      user.role = 'admin';
+      jest.spyOn(TwoFactorService, 'isEnabled').mockResolvedValue(false);
+
+      const response = await login();
+
+      expect(response.body.data.twoFactorSetupRequired).toBe(true);
+    });
+  });
+
+  describe('password reset', () => {
+    it('answers the same whether or not the address has an account', async () => {
+      const request = jest.spyOn(AccountService, 'requestPasswordReset');
+      mockDb.on(/FROM users WHERE email = \? AND is_active = TRUE$/, () => []);
+
+      const unknown = await server.request('POST', '/forgot-password', { email: 'nobody@example.com' });
+      request.mockRejectedValueOnce(new Error('SMTP unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const failed = await server.request('POST', '/forgot-password', { email: 'player@example.com' });
+
+      expect(unknown.status).toBe(200);
+      expect(failed.status).toBe(200);
+      expect(failed.body).toEqual(unknown.body);
+    });
+
+    it('refuses a forged reset link', async () => {
+      const response = await server.request('POST', '/reset-password', { token: 'not-a-token', password: 'battery staple' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('This reset link is invalid or has expired');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcrypt';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { RouteServer, serveRouter } from '../../__tests__/routeServer';
+import { Clock, GamblingTables, gamblingTables } from '../../services/__tests__/gamblingTables';
+import { TokenService } from '../../services/tokenService';
+import { responsibleGamblingRoutes } from '../responsibleGambling';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+jest.mock('../../middleware/auth', () => {
+  const actual: any = jest.requireActual('../../middleware/auth');
+  return {
+    ...actual,
+    authenticateToken: (req: any, _res: any, next: () => void) => {
+      req.user = { id: 7, username: 'player', email: 'player@example.com', role: 'player', sid: 'session-1' };
+      next();
+    }
+  };
+});
+
+const USER = 7;
+const DAY = 24 * 3600 * 1000;
+
+describe('responsible gambling routes', () => {
+  let server: RouteServer;
+  let clock: Clock;
+  let tables: GamblingTables;
+
+  beforeAll(async () => {
+    server = await serveRouter('/api/responsible-gambling', responsibleGamblingRoutes);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    clock = { now: Date.now() };
+    tables = gamblingTables(mockDb, clock);
+
+    jest.spyOn(TokenService, 'listSessions').mockResolvedValue([]);
+    jest.spyOn(TokenService, 'limitSessionDuration').mockResolvedValue([]);
+    jest.spyOn(TokenService, 'revokeAllSessions').mockResolvedValue(undefined as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('limits', () => {
+    const setLimit = (type: string, period: string, amount: number | null) =>
+      server.request('PUT', '/limits', { type, period, amount });
+
+    it('lowers a limit at once and shows the headroom left', async () => {
+      await setLimit('wager', 'day', 100);
+      tables.transactions.push({ user_id: USER, type: 'bet', amount: -30, created_at: clock.now });
+
+      const lowered = await setLimit('wager', 'day', 50);
+      const listed = await server.request('GET', '/limits');
+
+      expect(lowered.status).toBe(200);
+      expect(lowered.body.message).toBe('Limit updated');
+      expect(listed.body.data.limits).toEqual([
+        { type: 'wager', period: 'day', amount: 50, used: 30, remaining: 20, pending: null }
+      ]);
+    });
+
+    it('schedules a raise for after the cooling-off and keeps the current limit meanwhile', async () => {
+      await setLimit('deposit', 'week', 100);
+
+      const raised = await setLimit('deposit', 'week', 300);
+
+      expect(raised.status).toBe(200);
+      expect(raised.body.message).toBe('Raising or removing a limit takes effect after a 24-hour cooling-off period');
+      expect(raised.body.data).toMatchObject({ amount: 100, pending: { amount: 300 } });
+      expect(tables.limits[0].pending_effective_at!.getTime()).toBe(clock.now + DAY);
+    });
+
+    it('refuses a limit on the wrong period', async () => {
+      const response = await setLimit('session', 'day', 60);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Session limits use the session period');
+      expect(tables.limits).toHaveLength(0);
+    });
+
+    it('refuses an amount that is not positive', async () => {
+      const response = await setLimit('loss', 'month', 0);
+
+      expect(response.status).toBe(400);
+      expect(tables.limits).toHaveLength(0);
+    });
+  });
+
+  describe('exclusion', () => {
+    let passwordHash: string;
+
+    beforeAll(async () => {
+      passwordHash = await bcrypt.hash('correct horse', 4);
+    });
+
+    beforeEach(() => {
+      mockDb.on(/^SELECT password_hash FROM users WHERE id = \?$/, () => [{ password_hash: passwordHash }]);
+    });
+
+    it('starts a break and signs the user out everywhere', async () => {
+      const response = await server.request('POST', '/exclusion', { type: 'cool_off', duration: '7d', password: 'correct horse' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toMatch(/^This account is taking a break until /);
+      expect(response.body.data).toMatchObject({ type: 'cool_off', endsAt: new Date(clock.now + 7 * DAY).toISOString() });
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(USER);
+
+      const current = await server.request('GET', '/exclusion');
+      expect(current.body.data).toEqual(response.body.data);
+    });
+
+    it('needs the account password', async () => {
+      const response = await server.request('POST', '/exclusion', { type: 'self_exclusion', duration: 'permanent', password: 'guess' });
+
+      expect(response.status).toBe(403);
+      expect(tables.exclusions).toHaveLength(0);
+      expect(TokenService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('refuses a duration the break type does not offer', async () => {
+      const response = await server.request('POST', '/exclusion', { type: 'cool_off', duration: 'permanent', password: 'correct horse' });
+
+      expect(response.status).toBe(400);
+      expect(tables.exclusions).toHaveLength(0);
+    });
+  });
+});
@@ -1,11 +1,75 @@
 import { Router, Response } from 'express';
-import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import Joi from 'joi';
+import { AuthenticatedRequest, authenticateToken, requireRole, USER_ROLES } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 import { executeQuery } from '../config/database';
+import { LedgerService } from '../services/ledgerService';
+import { AuditService } from '../services/auditService';
+import { PokerHandReplayService } from '../services/pokerHandReplay';
+import { PokerEngineError } from '../services/pokerTableEngine';
+import { TournamentService } from '../services/tournamentService';
+import { PokerRakeService } from '../services/pokerRakeService';
 
 const router = Router();
 
+const scheduleTournamentSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100).required(),
+  buyIn: Joi.number().min(0).max(100000).precision(2).required(),
+  entryFee: Joi.number().min(0).max(10000).precision(2).default(0),
+  startingChips: Joi.number().integer().min(100).max(1000000).required(),
+  maxPlayers: Joi.number().integer().min(2).max(1000).required(),
+  minPlayers: Joi.number().integer().min(2).max(Joi.ref('maxPlayers')).default(2),
+  tableSize: Joi.number().integer().min(2).max(8).default(8),
+  startsAt: Joi.date().greater('now').required(),
+  lateRegistrationLevels: Joi.number().integer().min(0).max(50).default(0),
+  blindStructure: Joi.array().min(1).items(Joi.object({
+    smallBlind: Joi.number().integer().min(1).required(),
+    bigBlind: Joi.number().integer().min(Joi.ref('smallBlind')).required(),
+    minutes: Joi.number().integer().min(1).max(120).required()
+  })).required(),
+  prizeStructure: Joi.array().min(1).items(Joi.number().positive().max(100)).required()
+    .custom((places: number[], helpers) =>
+      Math.abs(places.reduce((sum, percent) => sum + percent, 0) - 100) < 0.001 ? places : helpers.message({ custom: 'prizeStructure must add up to 100' })
+    )
+});
+
+// Tournament tables always post blinds for players sitting out, so they can be blinded away
+const actionClockSchema = Joi.object({
+  actionTimeSeconds: Joi.number().integer().min(5).max(300),
+  timeBankSeconds: Joi.number().integer().min(0).max(600),
+  timeBankRefillSeconds: Joi.number().integer().min(0).max(600),
+  sitOutAfterTimeouts: Joi.number().integer().min(1).max(10),
+  sitOutBlinds: Joi.string().valid('post', 'skip'),
+  sitOutRemoveMinutes: Joi.number().integer().min(1).max(1440)
+}).min(1);
+
+const rakeSchema = Joi.object({
+  percentage: Joi.number().min(0).max(0.1).precision(4).required(),
+  maxRake: Joi.number().min(0).max(100).precision(2).required(),
+  caps: Joi.array().max(8).items(Joi.object({
+    minPlayers: Joi.number().integer().min(2).max(8).required(),
+    cap: Joi.number().min(0).max(100).precision(2).required()
+  })).unique('minPlayers').default([]),
+  noFlopNoDrop: Joi.boolean().default(true)
+});
+
+const rakeReportSchema = Joi.object({
+  from: Joi.date(),
+  to: Joi.date(),
+  tableId: Joi.number().integer().positive()
+});
+
+const ACTION_CLOCK_COLUMNS: Record<string, string> = {
+  actionTimeSeconds: 'action_time_seconds',
+  timeBankSeconds: 'time_bank_seconds',
+  timeBankRefillSeconds: 'time_bank_refill_seconds',
+  sitOutAfterTimeouts: 'sit_out_after_timeouts',
+  sitOutBlinds: 'sit_out_blinds',
+  sitOutRemoveMinutes: 'sit_out_remove_minutes'
+};
+
 // Get casino statistics
-router.get('/stats', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/stats', authenticateToken, requireRole('support'), audit('admin.stats.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     // Total bets and wins
     const betStats = await executeQuery(`
@@ -63,8 +127,31 @@ router.get('/stats', authenticateToken, async (req: AuthenticatedRequest, res: R
   }
 });
 
+// Compare stored balances with the double-entry ledger
+router.get('/reconciliation', authenticateToken, requireRole('admin'), audit('admin.reconciliation.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const report = await LedgerService.reconcile();
+
+    res.json({
+      success: true,
+      data: {
+        ...report,
+        balanced: report.discrepancies.length === 0 &&
+          report.unbalancedJournals.length === 0 &&
+          report.pokerEscrow.every((table: any) => table.difference === 0)
+      }
+    });
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run reconciliation'
+    });
+  }
+});
+
 // Update game house edge
-router.put('/games/:gameId/house-edge', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.put('/games/:gameId/house-edge', authenticateToken, requireRole('admin'), audit('admin.house_edge.update'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { gameId } = req.params;
     const { houseEdge } = req.body;
@@ -96,7 +183,7 @@ router.put('/games/:gameId/house-edge', authenticateToken, async (req: Authentic
 });
 
 // Get transaction history
-router.get('/transactions', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/transactions', authenticateToken, requireRole('support'), audit('admin.transactions.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const limit = parseInt(req.query?.limit as string) || 50;
     const offset = parseInt(req.query?.offset as string) || 0;
@@ -152,4 +239,289 @@ router.get('/transactions', authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
+// Change a user's role
+router.put('/users/:userId/role', authenticateToken, requireRole('superadmin'), audit('admin.user_role.update'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { role } = req.body;
+
+    if (!USER_ROLES.includes(role)) {
+      res.status(400).json({
+        success: false,
+        message: `Role must be one of: ${USER_ROLES.join(', ')}`
+      });
+      return;
+    }
+
+    if (userId === req.user?.id) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role'
+      });
+      return;
+    }
+
+    const result = await executeQuery(
+      'UPDATE users SET role = ? WHERE id = ?',
+      [role, userId]
+    );
+
+    if (result.affectedRows === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Role updated; it applies when the user\'s access token next refreshes',
+      data: { userId, role }
+    });
+  } catch (error) {
+    console.error('Update user role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update user role'
+    });
+  }
+});
+
+// Replay a poker hand from its event log and diff it against what was persisted
+router.get('/poker/hands/:handId/replay', authenticateToken, requireRole('admin'), audit('admin.poker_replay.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const handId = parseInt(req.params.handId);
+    if (!Number.isInteger(handId) || handId <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid hand ID'
+      });
+      return;
+    }
+
+    const replay = await PokerHandReplayService.replayHand(handId);
+
+    res.json({
+      success: true,
+      data: replay
+    });
+  } catch (error) {
+    if (error instanceof PokerEngineError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Poker hand replay error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to replay poker hand'
+    });
+  }
+});
+
+// Set a poker table's action clock, time bank and sit-out rules; they apply from the next turn
+router.put('/poker/tables/:tableId/clock', authenticateToken, requireRole('admin'), audit('admin.poker_clock.update'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = actionClockSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const tableId = parseInt(req.params.tableId);
+    const tables = await executeQuery('SELECT tournament_id FROM poker_tables WHERE id = ?', [tableId]);
+    if (tables.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Table not found'
+      });
+      return;
+    }
+    if (tables[0].tournament_id !== null && value.sitOutBlinds === 'skip') {
+      res.status(400).json({
+        success: false,
+        message: 'Tournament tables always post blinds for players sitting out'
+      });
+      return;
+    }
+
+    const fields = Object.keys(value);
+    await executeQuery(
+      `UPDATE poker_tables SET ${fields.map(field => `${ACTION_CLOCK_COLUMNS[field]} = ?`).join(', ')} WHERE id = ?`,
+      [...fields.map(field => value[field]), tableId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Action clock updated'
+    });
+  } catch (error) {
+    console.error('Update action clock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update action clock'
+    });
+  }
+});
+
+// Set a cash table's rake: percentage, flat cap, caps by players dealt in and no-flop-no-drop; applies from the next hand
+router.put('/poker/tables/:tableId/rake', authenticateToken, requireRole('admin'), audit('admin.poker_rake.update'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = rakeSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const tableId = parseInt(req.params.tableId);
+    const tables = await executeQuery('SELECT tournament_id FROM poker_tables WHERE id = ?', [tableId]);
+    if (tables.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Table not found'
+      });
+      return;
+    }
+    if (tables[0].tournament_id !== null) {
+      res.status(400).json({
+        success: false,
+        message: 'Tournament tables take no rake'
+      });
+      return;
+    }
+
+    await executeQuery(
+      'UPDATE poker_tables SET rake_percentage = ?, max_rake = ?, rake_caps = ?, no_flop_no_drop = ? WHERE id = ?',
+      [value.percentage, value.maxRake, value.caps.length > 0 ? JSON.stringify(value.caps) : null, value.noFlopNoDrop, tableId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Rake updated'
+    });
+  } catch (error) {
+    console.error('Update rake error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update rake'
+    });
+  }
+});
+
+// Rake collected per cash table and day
+router.get('/poker/rake', authenticateToken, requireRole('admin'), audit('admin.poker_rake.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = rakeReportSchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const days = await PokerRakeService.tableReport(value);
+
+    res.json({
+      success: true,
+      data: {
+        days,
+        totalRake: Math.round(days.reduce((sum, day) => sum + day.rake, 0) * 100) / 100
+      }
+    });
+  } catch (error) {
+    console.error('Rake report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch rake report'
+    });
+  }
+});
+
+// Rake paid per player, split by what each put into the raked pots; the basis for rakeback
+router.get('/poker/rake/players', authenticateToken, requireRole('admin'), audit('admin.poker_rake.view'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = rakeReportSchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: await PokerRakeService.playerReport(value)
+    });
+  } catch (error) {
+    console.error('Player rake report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch player rake report'
+    });
+  }
+});
+
+// Schedule a multi-table tournament
+router.post('/tournaments', authenticateToken, requireRole('admin'), audit('admin.tournament.create'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = scheduleTournamentSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const tournamentId = await TournamentService.schedule(value);
+
+    res.status(201).json({
+      success: true,
+      message: 'Tournament scheduled',
+      data: await TournamentService.get(req.user?.id, tournamentId)
+    });
+  } catch (error) {
+    console.error('Schedule tournament error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to schedule tournament'
+    });
+  }
+});
+
+// Get the audit log of privileged actions
+router.get('/audit-log', authenticateToken, requireRole('admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query?.limit as string) || 50, 200);
+    const offset = parseInt(req.query?.offset as string) || 0;
+    const userId = parseInt(req.query?.userId as string) || undefined;
+    const action = req.query?.action as string | undefined;
+
+    const entries = await AuditService.list({ userId, action, limit, offset });
+
+    res.json({
+      success: true,
+      data: entries
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch audit log'
+    });
+  }
+});
+
 export { router as adminRoutes };
\ No newline at end of file
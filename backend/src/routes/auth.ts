@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import Joi from 'joi';
-import { executeQuery } from '../config/database';
+import { executeQuery, withTransaction } from '../config/database';
+import { WalletService } from '../services/walletService';
+import { TokenService, TokenError, SessionMeta } from '../services/tokenService';
+import { TwoFactorService, TwoFactorError } from '../services/twoFactorService';
+import { AccountService, AccountError } from '../services/accountService';
+import { ResponsibleGamblingService } from '../services/responsibleGamblingService';
+import { AuthenticatedRequest, authenticateToken, hasRole, TWO_FACTOR_REQUIRED_ROLE } from '../middleware/auth';
 
 const router = Router();
 
@@ -18,6 +23,176 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string().max(20).required()
+});
+
+const twoFactorCodeSchema = Joi.object({
+  code: Joi.string().max(20).required()
+});
+
+const emailTokenSchema = Joi.object({
+  token: Joi.string().max(1000).required()
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().max(1000).required(),
+  password: Joi.string().min(6).required()
+});
+
+const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required(),
+  newPassword: Joi.string().min(6).required()
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().max(200).required()
+});
+
+const sessionMeta = (req: Request): SessionMeta => ({
+  userAgent: req.get('user-agent')?.slice(0, 255) || null,
+  ipAddress: req.ip || null
+});
+
+// Drop the live sockets of signed-out sessions
+const disconnectSockets = (req: Request, room: string): void => {
+  (req as any).io?.in(room).disconnectSockets(true);
+};
+
+/**
+ * Refuse sign-in during a cool-off or self-exclusion; returns whether it did
+ */
+const refuseExcluded = async (res: Response, userId: number): Promise<boolean> => {
+  const exclusion = await ResponsibleGamblingService.getActiveExclusion(userId);
+  if (!exclusion) {
+    return false;
+  }
+
+  res.status(403).json({
+    success: false,
+    message: ResponsibleGamblingService.exclusionMessage(exclusion),
+    data: { exclusion }
+  });
+  return true;
+};
+
+/**
+ * Second half of a successful sign-in: daily bonus, session and response
+ */
+const completeLogin = async (req: Request, res: Response, user: any, mfa: boolean): Promise<void> => {
+  // Check for daily login bonus
+  let loginBonus = null;
+  const now = new Date();
+  const lastLogin = user.last_login ? new Date(user.last_login) : null;
+  const today = now.toDateString();
+  const lastLoginDay = lastLogin ? lastLogin.toDateString() : null;
+
+  // Award daily login bonus if it's a new day
+  if (!lastLogin || lastLoginDay !== today) {
+    const dailyBonusAmount = 50.00; // $50 daily login bonus
+
+    const newBalance = await withTransaction(async (connection) => {
+      // Only the login that moves last_login on from the value we read gets the bonus
+      const [claim]: any = await connection.execute(
+        'UPDATE users SET last_login = ? WHERE id = ? AND last_login <=> ?',
+        [now, user.id, user.last_login]
+      );
+      if (claim.affectedRows === 0) {
+        return null;
+      }
+
+      const { balance } = await WalletService.apply(connection, user.id, [
+        { type: 'bonus', amount: dailyBonusAmount, description: 'Daily login bonus' }
+      ]);
+      return balance;
+    });
+
+    if (newBalance !== null) {
+      loginBonus = {
+        type: 'daily',
+        amount: dailyBonusAmount,
+        message: `Daily login bonus of $${dailyBonusAmount.toFixed(2)} added to your account!`
+      };
+
+      user.balance = newBalance; // Update for response
+    }
+  } else {
+    // Just update last login time
+    await executeQuery(
+      'UPDATE users SET last_login = ? WHERE id = ?',
+      [now, user.id]
+    );
+  }
+
+  // Open a session: short-lived access token plus rotating refresh token, ending at the
+  // player's session time limit if they set one
+  const tokens = await TokenService.createSession(
+    { id: user.id, username: user.username, email: user.email, role: user.role },
+    sessionMeta(req),
+    mfa,
+    await ResponsibleGamblingService.sessionLimitMinutes(user.id)
+  );
+
+  const responseMessage = loginBonus 
+    ? `🎉 Welcome back! ${loginBonus.message}` 
+    : 'Welcome back to Gamble Fun Casino!';
+
+  res.json({
+    success: true,
+    message: responseMessage,
+    data: {
+      ...tokens,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        balance: parseFloat(user.balance)
+      },
+      bonus: loginBonus,
+      // Admin access stays locked until the account signs in with 2FA
+      twoFactorSetupRequired: !mfa && hasRole(user.role, TWO_FACTOR_REQUIRED_ROLE)
+    }
+  });
+};
+
+const handleTwoFactorError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof TwoFactorError) {
+    res.status(error.status).json({
+      success: false,
+      message: error.message
+    });
+    return;
+  }
+
+  console.error('Two-factor error:', error);
+  res.status(500).json({
+    success: false,
+    message: fallback
+  });
+};
+
+const handleAccountError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof AccountError) {
+    res.status(error.status).json({
+      success: false,
+      message: error.message
+    });
+    return;
+  }
+
+  console.error('Account error:', error);
+  res.status(500).json({
+    success: false,
+    message: fallback
+  });
+};
+
 // Register endpoint
 router.post('/register', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -49,40 +224,43 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
     // Hash password
     const passwordHash = await bcrypt.hash(password, 10);
 
-    // Create user with welcome bonus
+    // Create user and credit the welcome bonus through the wallet so it reaches the ledger
     const welcomeBonus = 500.00; // $500 welcome bonus
-    const result = await executeQuery(
-      'INSERT INTO users (username, email, password_hash, balance) VALUES (?, ?, ?, ?)',
-      [username, email, passwordHash, welcomeBonus]
-    );
+    const result = await withTransaction(async (connection) => {
+      const [inserted]: any = await connection.execute(
+        'INSERT INTO users (username, email, password_hash, balance) VALUES (?, ?, ?, 0)',
+        [username, email, passwordHash]
+      );
 
-    // Record the welcome bonus transaction
-    await executeQuery(
-      'INSERT INTO transactions (user_id, type, amount, balance_before, balance_after, description) VALUES (?, ?, ?, ?, ?, ?)',
-      [result.insertId, 'bonus', welcomeBonus, 0, welcomeBonus, 'Welcome bonus for new account']
-    );
+      await WalletService.apply(connection, inserted.insertId, [
+        { type: 'bonus', amount: welcomeBonus, description: 'Welcome bonus for new account' }
+      ]);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: result.insertId, 
-        username, 
-        email 
-      },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
+      return inserted;
+    });
+
+    // The account works right away; the link only confirms the address
+    AccountService.sendVerificationEmail({ id: result.insertId, username, email })
+      .catch(error => console.error('Verification email error:', error));
+
+    // Open a session: short-lived access token plus rotating refresh token
+    const tokens = await TokenService.createSession(
+      { id: result.insertId, username, email, role: 'player' },
+      sessionMeta(req)
     );
 
     res.status(201).json({
       success: true,
       message: `🎉 Welcome to Gamble Fun Casino! You've received a $${welcomeBonus.toFixed(2)} welcome bonus!`,
       data: {
-        token,
+        ...tokens,
         user: {
           id: result.insertId,
           username,
           email,
-          balance: welcomeBonus
+          role: 'player',
+          balance: welcomeBonus,
+          emailVerified: false
         },
         bonus: {
           type: 'welcome',
@@ -116,7 +294,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
 
     // Find user
     const users = await executeQuery(
-      'SELECT id, username, email, password_hash, balance, last_login, created_at FROM users WHERE username = ? AND is_active = TRUE',
+      'SELECT id, username, email, password_hash, role, balance, last_login, created_at FROM users WHERE username = ? AND is_active = TRUE',
       [username]
     );
 
@@ -140,80 +318,468 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check for daily login bonus
-    let loginBonus = null;
-    const now = new Date();
-    const lastLogin = user.last_login ? new Date(user.last_login) : null;
-    const today = now.toDateString();
-    const lastLoginDay = lastLogin ? lastLogin.toDateString() : null;
+    if (await refuseExcluded(res, user.id)) {
+      return;
+    }
 
-    // Award daily login bonus if it's a new day
-    if (!lastLogin || lastLoginDay !== today) {
-      const dailyBonusAmount = 50.00; // $50 daily login bonus
-      const currentBalance = parseFloat(user.balance);
-      const newBalance = currentBalance + dailyBonusAmount;
+    // Accounts with 2FA get a challenge instead of a session
+    if (await TwoFactorService.isEnabled(user.id)) {
+      res.json({
+        success: true,
+        message: 'Enter the code from your authenticator app',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: TwoFactorService.createChallenge(user.id)
+        }
+      });
+      return;
+    }
 
-      // Update balance and last login
-      await executeQuery(
-        'UPDATE users SET balance = ?, last_login = ? WHERE id = ?',
-        [newBalance, now, user.id]
-      );
+    await completeLogin(req, res, user, false);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Login failed'
+    });
+  }
+});
 
-      // Record the daily bonus transaction
-      await executeQuery(
-        'INSERT INTO transactions (user_id, type, amount, balance_before, balance_after, description) VALUES (?, ?, ?, ?, ?, ?)',
-        [user.id, 'bonus', dailyBonusAmount, currentBalance, newBalance, 'Daily login bonus']
-      );
+// Second login step for accounts with 2FA: trade the challenge and a code for a session
+router.post('/login/2fa', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = twoFactorLoginSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
 
-      loginBonus = {
-        type: 'daily',
-        amount: dailyBonusAmount,
-        message: `Daily login bonus of $${dailyBonusAmount.toFixed(2)} added to your account!`
-      };
+    const userId = TwoFactorService.verifyChallenge(value.challengeToken);
+    const users = await executeQuery(
+      'SELECT id, username, email, role, balance, last_login, created_at FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+    if (users.length === 0) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid credentials'
+      });
+      return;
+    }
 
-      user.balance = newBalance; // Update for response
-    } else {
-      // Just update last login time
-      await executeQuery(
-        'UPDATE users SET last_login = ? WHERE id = ?',
-        [now, user.id]
-      );
+    if (await refuseExcluded(res, userId)) {
+      return;
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        username: user.username, 
-        email: user.email 
-      },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '24h' }
-    );
+    await TwoFactorService.verify(userId, value.code);
+    await completeLogin(req, res, users[0], true);
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Login failed');
+  }
+});
 
-    const responseMessage = loginBonus 
-      ? `🎉 Welcome back! ${loginBonus.message}` 
-      : 'Welcome back to Gamble Fun Casino!';
+// Two-factor status for the signed-in user
+router.get('/2fa', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const status = await TwoFactorService.getStatus(req.user?.id);
 
     res.json({
       success: true,
-      message: responseMessage,
       data: {
-        token,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          balance: parseFloat(user.balance)
-        },
-        bonus: loginBonus
+        ...status,
+        required: hasRole(req.user?.role, TWO_FACTOR_REQUIRED_ROLE)
       }
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Get 2FA status error:', error);
     res.status(500).json({
       success: false,
-      message: 'Login failed'
+      message: 'Failed to fetch two-factor status'
+    });
+  }
+});
+
+// Start enrollment: a new secret and otpauth URI for the authenticator app
+router.post('/2fa/setup', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const setup = await TwoFactorService.beginEnrollment(req.user?.id, req.user?.username);
+
+    res.json({
+      success: true,
+      data: setup
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Failed to start two-factor setup');
+  }
+});
+
+// Confirm enrollment with the first code; returns the one-time recovery codes
+router.post('/2fa/confirm', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user?.id, value.code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+  }
+});
+
+// Turn 2FA off; not allowed for roles that require it
+router.post('/2fa/disable', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    if (hasRole(req.user?.role, TWO_FACTOR_REQUIRED_ROLE)) {
+      res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication is required for your role'
+      });
+      return;
+    }
+
+    await TwoFactorService.disable(req.user?.id, value.code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+  }
+});
+
+// Replace the recovery codes
+router.post('/2fa/recovery-codes', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user?.id, value.code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+  }
+});
+
+// Confirm an email address from the link in the verification email
+router.post('/verify-email', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = emailTokenSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    await AccountService.verifyEmail(value.token);
+
+    res.json({
+      success: true,
+      message: 'Email address verified'
+    });
+  } catch (error) {
+    handleAccountError(res, error, 'Failed to verify email');
+  }
+});
+
+// Send the verification email again
+router.post('/verify-email/resend', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const users = await executeQuery(
+      'SELECT id, username, email, email_verified_at FROM users WHERE id = ? AND is_active = TRUE',
+      [req.user?.id]
+    );
+    if (users.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    if (users[0].email_verified_at) {
+      res.status(409).json({
+        success: false,
+        message: 'Email address is already verified'
+      });
+      return;
+    }
+
+    if (!(await AccountService.sendVerificationEmail(users[0]))) {
+      res.status(429).json({
+        success: false,
+        message: 'A verification email was just sent; wait a minute before asking again'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Verification email sent to ${users[0].email}`
+    });
+  } catch (error) {
+    handleAccountError(res, error, 'Failed to send verification email');
+  }
+});
+
+// Email a password reset link; the answer is the same whether or not the address is known
+router.post('/forgot-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = forgotPasswordSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    try {
+      await AccountService.requestPasswordReset(value.email);
+    } catch (sendError) {
+      // Failing loudly here would tell the caller the address has an account
+      console.error('Password reset email error:', sendError);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account uses that email, a reset link is on its way'
+    });
+  } catch (error) {
+    handleAccountError(res, error, 'Failed to request password reset');
+  }
+});
+
+// Choose a new password from a reset link; every session is signed out
+router.post('/reset-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const userId = await AccountService.resetPassword(value.token, value.password);
+    disconnectSockets(req, `user_${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Password reset. Sign in with your new password.'
+    });
+  } catch (error) {
+    handleAccountError(res, error, 'Failed to reset password');
+  }
+});
+
+// Change the password of the signed-in user; other devices are signed out
+router.post('/change-password', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = changePasswordSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const revoked = await AccountService.changePassword(
+      req.user?.id,
+      value.currentPassword,
+      value.newPassword,
+      req.user?.sid
+    );
+    revoked.forEach(sessionId => disconnectSockets(req, `session_${sessionId}`));
+
+    res.json({
+      success: true,
+      message: 'Password changed',
+      data: { signedOutSessions: revoked.length }
+    });
+  } catch (error) {
+    handleAccountError(res, error, 'Failed to change password');
+  }
+});
+
+// Exchange a refresh token for a new access token; the refresh token rotates on every use
+router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = refreshSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const result = await TokenService.refresh(value.refreshToken, sessionMeta(req));
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof TokenError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh session'
+    });
+  }
+});
+
+// Sign out the session behind a refresh token; works even once the access token has expired
+router.post('/logout', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = refreshSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const session = await TokenService.sessionForRefreshToken(value.refreshToken);
+    if (session) {
+      await TokenService.revokeSession(session.userId, session.sessionId);
+      disconnectSockets(req, `session_${session.sessionId}`);
+    }
+
+    // Signing out an already-ended session is not an error
+    res.json({
+      success: true,
+      message: 'Signed out'
+    });
+  } catch (error) {
+    if (error instanceof TokenError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out'
+    });
+  }
+});
+
+// Sign out every device, including this one
+router.post('/logout-all', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const revoked = await TokenService.revokeAllSessions(userId);
+    disconnectSockets(req, `user_${userId}`);
+
+    res.json({
+      success: true,
+      message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`,
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out all devices'
+    });
+  }
+});
+
+// List the user's active sessions
+router.get('/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await TokenService.listSessions(req.user?.id);
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session,
+        current: session.id === req.user?.sid
+      }))
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch sessions'
+    });
+  }
+});
+
+// Sign out one of the user's sessions
+router.delete('/sessions/:sessionId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const revoked = await TokenService.revokeSession(req.user?.id, sessionId);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+      return;
+    }
+
+    disconnectSockets(req, `session_${sessionId}`);
+    res.json({
+      success: true,
+      message: 'Session signed out'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session'
     });
   }
 });
@@ -0,0 +1,119 @@
+import { Router, Response } from 'express';
+import Joi from 'joi';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { AutoBetService, AutoBetError } from '../services/autoBetService';
+
+const router = Router();
+
+const adjustmentSchema = Joi.object({
+  action: Joi.string().valid('reset', 'increase').required(),
+  percent: Joi.number().min(0).max(1000).default(0)
+});
+
+const startSchema = Joi.object({
+  gameType: Joi.string().valid('dice', 'crash').required(),
+  baseBet: Joi.number().positive().precision(2).required(),
+  target: Joi.when('gameType', {
+    is: 'dice',
+    then: Joi.number().integer().min(2).max(98).required(),
+    otherwise: Joi.forbidden()
+  }),
+  isOver: Joi.when('gameType', {
+    is: 'dice',
+    then: Joi.boolean().required(),
+    otherwise: Joi.forbidden()
+  }),
+  cashOutAt: Joi.when('gameType', {
+    is: 'crash',
+    then: Joi.number().min(1.01).precision(2).required(),
+    otherwise: Joi.forbidden()
+  }),
+  onWin: adjustmentSchema.default({ action: 'reset', percent: 0 }),
+  onLoss: adjustmentSchema.default({ action: 'reset', percent: 0 }),
+  stopOnProfit: Joi.number().positive().precision(2).allow(null),
+  stopOnLoss: Joi.number().positive().precision(2).allow(null),
+  maxRounds: Joi.number().integer().min(1).max(10000).allow(null)
+});
+
+// Get the running session, or the last one so the client can show how it ended
+router.get('/current', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const session = await AutoBetService.getCurrentSession(req.user?.id);
+
+    res.json({
+      success: true,
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Get auto-bet session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch auto-bet session'
+    });
+  }
+});
+
+// Start an auto-bet session; it keeps running server-side until stopped or a limit is hit
+router.post('/start', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = startSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const session = await AutoBetService.startSession(req.user?.id, value);
+
+    res.json({
+      success: true,
+      message: 'Auto-bet started',
+      data: { session }
+    });
+  } catch (error) {
+    if (error instanceof AutoBetError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Start auto-bet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start auto-bet'
+    });
+  }
+});
+
+// Stop the running session
+router.post('/stop', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const session = await AutoBetService.stopSession(req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Auto-bet stopped',
+      data: { session }
+    });
+  } catch (error) {
+    if (error instanceof AutoBetError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Stop auto-bet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to stop auto-bet'
+    });
+  }
+});
+
+export { router as autobetRoutes };
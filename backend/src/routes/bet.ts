@@ -1,12 +1,15 @@
 import { Router, Response } from 'express';
 import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
-import { executeQuery, executeTransaction } from '../config/database';
+import { idempotency } from '../middleware/idempotency';
+import { executeQuery } from '../config/database';
 import { ProvablyFairEngine } from '../services/gameEngine';
+import { BetService, BetError } from '../services/betService';
+import { WalletError } from '../services/walletService';
 
 const router = Router();
 
 // Place a bet
-router.post('/place', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/place', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user?.id;
     const { gameId, betAmount, gameData } = req.body;
@@ -19,141 +22,7 @@ router.post('/place', authenticateToken, async (req: AuthenticatedRequest, res:
       return;
     }
 
-    // Get user's current balance
-    const users = await executeQuery(
-      'SELECT balance FROM users WHERE id = ? AND is_active = TRUE',
-      [userId]
-    );
-
-    if (users.length === 0) {
-      res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-      return;
-    }
-
-    const currentBalance = parseFloat(users[0].balance);
-    if (currentBalance < betAmount) {
-      res.status(400).json({
-        success: false,
-        message: 'Insufficient balance'
-      });
-      return;
-    }
-
-    // Get game details
-    const games = await executeQuery(
-      'SELECT id, name, type, min_bet, max_bet, house_edge FROM games WHERE id = ? AND is_active = TRUE',
-      [gameId]
-    );
-
-    if (games.length === 0) {
-      res.status(404).json({
-        success: false,
-        message: 'Game not found'
-      });
-      return;
-    }
-
-    const game = games[0];
-    const houseEdge = parseFloat(game.house_edge);
-    if (betAmount < parseFloat(game.min_bet) || betAmount > parseFloat(game.max_bet)) {
-      res.status(400).json({
-        success: false,
-        message: `Bet amount must be between ${game.min_bet} and ${game.max_bet}`
-      });
-      return;
-    }
-
-    // Generate provably fair result
-    const serverSeed = ProvablyFairEngine.generateServerSeed();
-    const clientSeed = ProvablyFairEngine.generateClientSeed();
-    const nonce = Math.floor(Date.now() / 1000); // Use timestamp as nonce
-
-    let gameResult;
-    switch (game.type) {
-      case 'slots':
-        gameResult = ProvablyFairEngine.playSlots(serverSeed, clientSeed, nonce, betAmount, houseEdge);
-        break;
-      case 'dice':
-        const { target = 50, isOver = true } = gameData || {};
-        gameResult = ProvablyFairEngine.playDice(serverSeed, clientSeed, nonce, betAmount, target, isOver);
-        break;
-      case 'crash':
-        const { cashOutAt = 1.5 } = gameData || {};
-        gameResult = ProvablyFairEngine.playCrash(serverSeed, clientSeed, nonce, betAmount, cashOutAt);
-        break;
-      case 'blackjack':
-        gameResult = ProvablyFairEngine.playBlackjack(serverSeed, clientSeed, nonce, betAmount);
-        break;
-      case 'roulette':
-        const { bets = [] } = gameData || {};
-        gameResult = ProvablyFairEngine.playRoulette(serverSeed, clientSeed, nonce, betAmount, bets);
-        break;
-      default:
-        res.status(400).json({
-          success: false,
-          message: 'Unsupported game type'
-        });
-        return;
-    }
-
-    const newBalance = currentBalance - betAmount + gameResult.winAmount;
-
-    // Execute transaction with proper logging
-    const queries = [
-      // Update user balance
-      {
-        query: 'UPDATE users SET balance = ? WHERE id = ?',
-        params: [newBalance, userId]
-      },
-      // Insert bet record
-      {
-        query: `INSERT INTO bets (user_id, game_id, bet_amount, win_amount, multiplier, game_data, 
-                server_seed, client_seed, nonce, result_hash, is_win) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        params: [
-          userId, gameId, betAmount, gameResult.winAmount, gameResult.multiplier,
-          JSON.stringify({ ...gameData, result: gameResult.result }),
-          serverSeed, clientSeed, nonce, gameResult.hash, gameResult.isWin
-        ]
-      },
-      // Log bet transaction
-      {
-        query: `INSERT INTO transactions (user_id, type, amount, balance_before, balance_after, description) 
-                VALUES (?, 'bet', ?, ?, ?, ?)`,
-        params: [
-          userId, -betAmount, currentBalance, currentBalance - betAmount, 
-          `Bet placed on ${game.name} - Amount: $${betAmount}`
-        ]
-      }
-    ];
-
-    if (gameResult.isWin) {
-      queries.push(
-        // Update total won
-        {
-          query: 'UPDATE users SET total_won = total_won + ? WHERE id = ?',
-          params: [gameResult.winAmount, userId]
-        },
-        // Log win transaction
-        {
-          query: `INSERT INTO transactions (user_id, type, amount, balance_before, balance_after, description) 
-                  VALUES (?, 'win', ?, ?, ?, ?)`,
-          params: [
-            userId, gameResult.winAmount, currentBalance - betAmount, newBalance,
-            `Win on ${game.name} - Multiplier: ${gameResult.multiplier}x, Amount: $${gameResult.winAmount}`
-          ]
-        }
-      );
-    } else {
-      queries.push({
-        query: 'UPDATE users SET total_lost = total_lost + ? WHERE id = ?',
-        params: [betAmount, userId]
-      });
-    }
-
-    await executeTransaction(queries);
+    const { gameResult, newBalance, provablyFair } = await BetService.placeBet(userId, gameId, betAmount, gameData);
 
     res.json({
       success: true,
@@ -165,15 +34,18 @@ router.post('/place', authenticateToken, async (req: AuthenticatedRequest, res:
         multiplier: gameResult.multiplier,
         winAmount: gameResult.winAmount,
         newBalance,
-        provablyFair: {
-          serverSeed,
-          clientSeed,
-          nonce,
-          resultHash: gameResult.hash
-        }
+        provablyFair
       }
     });
   } catch (error) {
+    if (error instanceof BetError || error instanceof WalletError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Place bet error:', error);
     res.status(500).json({
       success: false,
@@ -190,9 +62,11 @@ router.get('/history', authenticateToken, async (req: AuthenticatedRequest, res:
     const offset = parseInt(req.query.offset as string) || 0;
 
     const bets = await executeQuery(
-      `SELECT b.*, g.name as game_name, g.type as game_type 
+      `SELECT b.*, g.name as game_name, g.type as game_type,
+              us.server_seed_hash, us.is_active as seed_is_active
        FROM bets b 
        JOIN games g ON b.game_id = g.id 
+       LEFT JOIN user_seeds us ON b.seed_id = us.id
        WHERE b.user_id = ? 
        ORDER BY b.created_at DESC 
        LIMIT ? OFFSET ?`,
@@ -210,10 +84,12 @@ router.get('/history', authenticateToken, async (req: AuthenticatedRequest, res:
         winAmount: parseFloat(bet.win_amount),
         multiplier: parseFloat(bet.multiplier),
         isWin: bet.is_win,
-        gameData: JSON.parse(bet.game_data || '{}'),
+        gameData: typeof bet.game_data === 'string' ? JSON.parse(bet.game_data || '{}') : bet.game_data || {},
         createdAt: bet.created_at,
         provablyFair: {
-          serverSeed: bet.server_seed,
+          // The server seed stays hidden until its pair has been rotated
+          serverSeed: bet.seed_is_active ? null : bet.server_seed,
+          serverSeedHash: bet.server_seed_hash || ProvablyFairEngine.hashServerSeed(bet.server_seed),
           clientSeed: bet.client_seed,
           nonce: bet.nonce,
           resultHash: bet.result_hash
@@ -0,0 +1,114 @@
+import { Router, Response } from 'express';
+import Joi from 'joi';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { BlackjackService } from '../services/blackjackService';
+import { BlackjackError } from '../services/blackjackEngine';
+
+const router = Router();
+
+const startSchema = Joi.object({
+  betAmount: Joi.number().positive().precision(2).required()
+});
+
+const actionSchema = Joi.object({
+  action: Joi.string().valid('hit', 'stand', 'double', 'split', 'insurance', 'decline_insurance', 'surrender').required()
+});
+
+const sendRound = async (res: Response, userId: number, round: any): Promise<void> => {
+  res.json({
+    success: true,
+    data: {
+      round,
+      balance: await BlackjackService.getBalance(userId)
+    }
+  });
+};
+
+// Get the round in progress so a reload can pick up where the player left off
+router.get('/current', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const round = await BlackjackService.getActiveRound(userId);
+
+    res.json({
+      success: true,
+      data: { round }
+    });
+  } catch (error) {
+    console.error('Get blackjack round error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch blackjack round'
+    });
+  }
+});
+
+// Deal a new round
+router.post('/start', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = startSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const round = await BlackjackService.startRound(userId, value.betAmount);
+
+    await sendRound(res, userId, round);
+  } catch (error) {
+    if (error instanceof BlackjackError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Start blackjack round error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start blackjack round'
+    });
+  }
+});
+
+// Hit, stand, double, split, insurance or surrender
+router.post('/:roundId/action', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = actionSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const roundId = parseInt(req.params.roundId);
+    const round = await BlackjackService.applyAction(userId, roundId, value.action);
+
+    await sendRound(res, userId, round);
+  } catch (error) {
+    if (error instanceof BlackjackError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Blackjack action error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to apply blackjack action'
+    });
+  }
+});
+
+export { router as blackjackRoutes };
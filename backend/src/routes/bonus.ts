@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
-import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { AuthenticatedRequest, authenticateToken, requireRole } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { idempotency } from '../middleware/idempotency';
 import { BonusService } from '../services/bonusService';
+import { WalletError } from '../services/walletService';
 
 const router = Router();
 
@@ -81,16 +84,12 @@ router.get('/game/:gameId', authenticateToken, async (req: AuthenticatedRequest,
 
 /**
  * POST /api/bonus/award
- * Award bonus tokens based on gameplay
+ * Award bonus tokens to a player; an admin action, recorded in the audit log
  */
-router.post('/award', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/award', authenticateToken, requireRole('admin'), audit('bonus.award'), idempotency, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
-      res.status(401).json({ success: false, message: 'User not authenticated' });
-      return;
-    }
     const { 
+      userId,
       gameId, 
       transactionType, 
       bonusAmount, 
@@ -100,7 +99,7 @@ router.post('/award', authenticateToken, async (req: AuthenticatedRequest, res:
     } = req.body;
 
     // Validate input
-    if (!gameId || !transactionType || !bonusAmount || bonusAmount <= 0) {
+    if (!userId || !gameId || !transactionType || !bonusAmount || bonusAmount <= 0) {
       return res.status(400).json({
         success: false,
         message: 'Missing required fields'
@@ -137,6 +136,10 @@ router.post('/award', authenticateToken, async (req: AuthenticatedRequest, res:
       });
     }
   } catch (error) {
+    if (error instanceof WalletError) {
+      res.status(error.status).json({ success: false, message: error.message });
+      return;
+    }
     console.error('Error awarding bonus tokens:', error);
     res.status(500).json({
       success: false,
@@ -149,7 +152,7 @@ router.post('/award', authenticateToken, async (req: AuthenticatedRequest, res:
  * POST /api/bonus/spend
  * Spend bonus tokens for game benefits
  */
-router.post('/spend', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/spend', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -0,0 +1,77 @@
+import { Router, Response } from 'express';
+import { CrashService } from '../services/crashService';
+import { getCrashManager } from '../socket/socketHandler';
+
+const router = Router();
+
+// Get the round in progress (live updates arrive over the socket)
+router.get('/current', async (req, res: Response): Promise<void> => {
+  try {
+    const manager = getCrashManager();
+
+    res.json({
+      success: true,
+      data: manager ? await manager.fetchPublicState() : null
+    });
+  } catch (error) {
+    console.error('Get crash round error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch crash round'
+    });
+  }
+});
+
+// Get recent crash points with their revealed seeds
+router.get('/rounds', async (req, res: Response): Promise<void> => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const rounds = await CrashService.getRecentRounds(Math.min(limit, 100));
+
+    res.json({
+      success: true,
+      data: rounds.map((round: any) => ({
+        id: round.id,
+        roundIndex: round.round_index,
+        seedHash: round.seed_hash,
+        seed: round.seed,
+        crashPoint: parseFloat(round.crash_point),
+        crashedAt: round.crashed_at
+      }))
+    });
+  } catch (error) {
+    console.error('Get crash rounds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch crash rounds'
+    });
+  }
+});
+
+// Get a single round with everything needed to check it against the hash chain
+router.get('/rounds/:roundId', async (req, res: Response): Promise<void> => {
+  try {
+    const round = await CrashService.getRound(parseInt(req.params.roundId));
+
+    if (!round) {
+      res.status(404).json({
+        success: false,
+        message: 'Round not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: round
+    });
+  } catch (error) {
+    console.error('Get crash round error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch crash round'
+    });
+  }
+});
+
+export { router as crashRoutes };
@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
 import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
-import { executeQuery, executeTransaction } from '../config/database';
+import { idempotency } from '../middleware/idempotency';
+import { executeQuery } from '../config/database';
+import { WalletService, WalletError } from '../services/walletService';
+import { ResponsibleGamblingService } from '../services/responsibleGamblingService';
 import { RowDataPacket } from 'mysql2';
 
 const router = Router();
@@ -36,7 +39,7 @@ router.get('/packages', (req, res) => {
  * POST /api/credits/purchase
  * Process a credit purchase
  */
-router.post('/purchase', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/purchase', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -96,23 +99,17 @@ router.post('/purchase', authenticateToken, async (req: AuthenticatedRequest, re
       }
     }
 
-    // Get current user balance
-    const [userResult] = await executeQuery(
-      'SELECT balance FROM users WHERE id = ?',
-      [userId]
-    ) as RowDataPacket[];
-
-    if (!userResult || userResult.length === 0) {
-      res.status(404).json({
+    // Make sure the account exists and the deposit fits its limits before charging the card
+    await WalletService.getBalance(userId);
+    const breach = await ResponsibleGamblingService.checkEntry(null, userId, { type: 'deposit', amount: credits });
+    if (breach) {
+      res.status(403).json({
         success: false,
-        message: 'User not found'
+        message: breach
       });
       return;
     }
 
-    const currentBalance = parseFloat(userResult[0].balance);
-    const newBalance = currentBalance + credits;
-
     // Here you would integrate with actual payment processor
     // For demo purposes, we'll simulate successful payment
     const paymentSuccess = await simulatePaymentProcessing(paymentMethod, amount);
@@ -125,44 +122,29 @@ router.post('/purchase', authenticateToken, async (req: AuthenticatedRequest, re
       return;
     }
 
-    // Process the credit purchase in a transaction
-    const queries = [
-      {
-        query: 'UPDATE users SET balance = balance + ? WHERE id = ?',
-        params: [credits, userId]
-      },
-      {
-        query: `INSERT INTO transactions 
-                (user_id, type, amount, balance_before, balance_after, description) 
-                VALUES (?, ?, ?, ?, ?, ?)`,
+    // Credit the balance and record the purchase in one transaction
+    const { balance: newBalance } = await WalletService.transact(
+      userId,
+      [{
+        type: 'deposit',
+        amount: credits,
+        description: `Credit purchase: ${selectedPackage?.name || 'Custom amount'} - ${paymentMethod}`
+      }],
+      [{
+        query: `INSERT INTO credit_purchases 
+                (user_id, package_id, package_name, credits_purchased, amount_paid, payment_method, payment_id)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
         params: [
           userId,
-          'deposit',
+          packageId,
+          selectedPackage?.name || 'Custom Amount',
           credits,
-          currentBalance,
-          newBalance,
-          `Credit purchase: ${selectedPackage?.name || 'Custom amount'} - ${paymentMethod}`
+          amount,
+          paymentMethod,
+          paymentSuccess.transactionId
         ]
-      }
-    ];
-
-    // Add purchase record
-    queries.push({
-      query: `INSERT INTO credit_purchases 
-              (user_id, package_id, package_name, credits_purchased, amount_paid, payment_method, payment_id)
-              VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      params: [
-        userId,
-        packageId,
-        selectedPackage?.name || 'Custom Amount',
-        credits,
-        amount,
-        paymentMethod,
-        paymentSuccess.transactionId
-      ]
-    });
-
-    await executeTransaction(queries);
+      }]
+    );
 
     res.json({
       success: true,
@@ -176,6 +158,14 @@ router.post('/purchase', authenticateToken, async (req: AuthenticatedRequest, re
     });
 
   } catch (error) {
+    if (error instanceof WalletError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Error processing credit purchase:', error);
     res.status(500).json({
       success: false,
@@ -0,0 +1,280 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { executeQuery } from '../config/database';
+import { ProvablyFairEngine } from '../services/gameEngine';
+import { SeedService } from '../services/seedService';
+import { BlackjackService } from '../services/blackjackService';
+import { BlackjackEngine, BlackjackError } from '../services/blackjackEngine';
+
+const router = Router();
+
+const clientSeedSchema = Joi.object({
+  clientSeed: Joi.string().trim().min(1).max(64).pattern(/^[A-Za-z0-9_-]+$/).required()
+});
+
+const verifySchema = Joi.object({
+  serverSeed: Joi.string().hex().length(64).required(),
+  clientSeed: Joi.string().max(64).required(),
+  nonce: Joi.number().integer().min(0).required(),
+  gameType: Joi.string().valid('slots', 'dice', 'crash', 'blackjack', 'roulette').required(),
+  gameData: Joi.object().unknown(true).default({}),
+  betAmount: Joi.number().positive().default(1),
+  betId: Joi.number().integer().positive().optional()
+});
+
+// Checking seeds is public, but comparing against a stored bet is for the player who placed it
+const authenticateForBet = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.body && req.body.betId !== undefined) {
+    authenticateToken(req, res, next);
+    return;
+  }
+  next();
+};
+
+const rotateSchema = Joi.object({
+  clientSeed: Joi.string().trim().min(1).max(64).pattern(/^[A-Za-z0-9_-]+$/).optional()
+});
+
+// Get the active seed pair (server seed is only shown as its hash)
+router.get('/seed', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const seed = await SeedService.getActiveSeed(userId);
+
+    res.json({
+      success: true,
+      data: {
+        serverSeedHash: seed.serverSeedHash,
+        clientSeed: seed.clientSeed,
+        nonce: seed.nonce,
+        createdAt: seed.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Get seed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch seed'
+    });
+  }
+});
+
+// Set a player-chosen client seed on the active pair
+router.post('/seed/client', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = clientSeedSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const seed = await SeedService.setClientSeed(userId, value.clientSeed);
+
+    res.json({
+      success: true,
+      message: 'Client seed updated',
+      data: {
+        serverSeedHash: seed.serverSeedHash,
+        clientSeed: seed.clientSeed,
+        nonce: seed.nonce,
+        createdAt: seed.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Set client seed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update client seed'
+    });
+  }
+});
+
+// Rotate the server seed, revealing the one that was in use
+router.post('/seed/rotate', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = rotateSchema.validate(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+
+    // Revealing the seed mid-round would expose the rest of the shoe
+    const { previous, active } = await SeedService.rotateSeed(
+      userId,
+      value.clientSeed,
+      connection => BlackjackService.assertNoActiveRound(connection, userId)
+    );
+
+    res.json({
+      success: true,
+      message: 'Server seed rotated',
+      data: {
+        previous: {
+          serverSeed: previous.serverSeed,
+          serverSeedHash: previous.serverSeedHash,
+          clientSeed: previous.clientSeed,
+          nonce: previous.nonce,
+          revealedAt: previous.revealedAt
+        },
+        active: {
+          serverSeedHash: active.serverSeedHash,
+          clientSeed: active.clientSeed,
+          nonce: active.nonce,
+          createdAt: active.createdAt
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof BlackjackError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Rotate seed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to rotate seed'
+    });
+  }
+});
+
+// Get previously revealed seed pairs
+router.get('/seeds/revealed', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const seeds = await SeedService.getRevealedSeeds(userId, Math.min(limit, 50));
+
+    res.json({
+      success: true,
+      data: seeds.map(seed => ({
+        serverSeed: seed.serverSeed,
+        serverSeedHash: seed.serverSeedHash,
+        clientSeed: seed.clientSeed,
+        nonce: seed.nonce,
+        createdAt: seed.createdAt,
+        revealedAt: seed.revealedAt
+      }))
+    });
+  } catch (error) {
+    console.error('Get revealed seeds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch revealed seeds'
+    });
+  }
+});
+
+// Re-run a round from its seeds (public) and compare it with what was stored (the bet's owner only)
+router.post('/verify', authenticateForBet, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = verifySchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const { serverSeed, clientSeed, nonce, gameType, betId } = value;
+    let { gameData, betAmount } = value;
+    let storedBet: any = null;
+    let storedResult: any;
+
+    if (betId) {
+      const bets = await executeQuery(
+        `SELECT b.bet_amount, b.game_data, b.result_hash, g.type as game_type
+         FROM bets b
+         JOIN games g ON b.game_id = g.id
+         WHERE b.id = ? AND b.user_id = ?`,
+        [betId, req.user?.id]
+      );
+
+      if (bets.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Bet not found'
+        });
+        return;
+      }
+
+      storedBet = bets[0];
+      if (storedBet.game_type !== gameType) {
+        res.status(400).json({
+          success: false,
+          message: `Bet was placed on ${storedBet.game_type}, not ${gameType}`
+        });
+        return;
+      }
+
+      // The stored game_data also carries the outcome; only its inputs feed the replay
+      const stored = typeof storedBet.game_data === 'string'
+        ? JSON.parse(storedBet.game_data || '{}')
+        : storedBet.game_data || {};
+      const { result, ...inputs } = stored;
+
+      storedResult = result;
+      gameData = inputs;
+      betAmount = parseFloat(storedBet.bet_amount);
+    }
+
+    const games = await executeQuery(
+      'SELECT house_edge FROM games WHERE type = ? ORDER BY id LIMIT 1',
+      [gameType]
+    );
+    const houseEdge = games.length > 0 ? parseFloat(games[0].house_edge) : undefined;
+
+    // Interactive blackjack rounds replay the recorded decisions against the same shoe
+    const gameResult = gameType === 'blackjack' && Array.isArray(gameData.actions)
+      ? BlackjackEngine.replay(serverSeed, clientSeed, nonce, gameData.baseBet || betAmount, gameData.actions)
+      : ProvablyFairEngine.playGame(gameType, serverSeed, clientSeed, nonce, betAmount, gameData, houseEdge);
+
+    res.json({
+      success: true,
+      data: {
+        gameType,
+        serverSeedHash: ProvablyFairEngine.hashServerSeed(serverSeed),
+        clientSeed,
+        nonce,
+        result: gameResult.result,
+        resultHash: gameResult.hash,
+        isWin: gameResult.isWin,
+        multiplier: gameResult.multiplier,
+        winAmount: gameResult.winAmount,
+        storedResultHash: storedBet ? storedBet.result_hash : null,
+        hashMatches: storedBet ? storedBet.result_hash === gameResult.hash : null,
+        resultMatches: storedBet ? JSON.stringify(storedResult) === JSON.stringify(gameResult.result) : null
+      }
+    });
+  } catch (error) {
+    if (error instanceof BlackjackError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Verify bet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify bet'
+    });
+  }
+});
+
+export { router as fairRoutes };
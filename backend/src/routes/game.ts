@@ -2,7 +2,8 @@ import { Router, Response } from 'express';
 import { executeQuery } from '../config/database';
 import AIPlayerManager from '../services/aiPlayerManager';
 import { AIPokerEngine } from '../services/aiPokerEngine';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 
 const router = Router();
 
@@ -74,19 +75,9 @@ router.get('/:id', async (req, res: Response): Promise<void> => {
   }
 });
 
-// AI Management Endpoints (Admin only)
-router.get('/ai/stats', authenticateToken, async (req, res: Response): Promise<void> => {
+// AI Management Endpoints (staff only)
+router.get('/ai/stats', authenticateToken, requireRole('support'), audit('ai.stats.view'), async (req, res: Response): Promise<void> => {
   try {
-    // Only allow admins to view AI stats
-    const user = (req as any).user;
-    if (!user.isAdmin) {
-      res.status(403).json({
-        success: false,
-        message: 'Admin access required'
-      });
-      return;
-    }
-
     const stats = AIPlayerManager.getAIStats();
     const aiPlayers = await AIPokerEngine.getActiveAIPlayers();
 
@@ -114,8 +105,8 @@ router.get('/ai/stats', authenticateToken, async (req, res: Response): Promise<v
   }
 });
 
-// Fill table with AI players (temporary - no auth required for testing)
-router.post('/ai/fill-table/:tableId', async (req, res: Response): Promise<void> => {
+// Fill table with AI players
+router.post('/ai/fill-table/:tableId', authenticateToken, requireRole('admin'), audit('ai.fill_table'), async (req, res: Response): Promise<void> => {
   try {
     const tableId = parseInt(req.params.tableId);
     const { targetPlayers = 6 } = req.body;
@@ -137,17 +128,8 @@ router.post('/ai/fill-table/:tableId', async (req, res: Response): Promise<void>
 });
 
 // Get AI player performance data
-router.get('/ai/performance', authenticateToken, async (req, res: Response): Promise<void> => {
+router.get('/ai/performance', authenticateToken, requireRole('support'), audit('ai.performance.view'), async (req, res: Response): Promise<void> => {
   try {
-    const user = (req as any).user;
-    if (!user.isAdmin) {
-      res.status(403).json({
-        success: false,
-        message: 'Admin access required'
-      });
-      return;
-    }
-
     // Get AI player performance stats
     const performance = await executeQuery(`
       SELECT 
@@ -6,27 +6,16 @@
 import express from 'express';
 import { Request, Response } from 'express';
 import Joi from 'joi';
-import { authenticateToken } from '../middleware/auth';
-import { executeQuery, executeTransaction } from '../config/database';
-import { 
-  createDeck, 
-  shuffleDeck, 
-  evaluateHand, 
-  compareHands,
-  calculateSidePots,
-  getNextActivePlayer,
-  isBettingRoundComplete,
-  getNextBettingRound,
-  dealCommunityCards,
-  calculateMinRaise,
-  validatePlayerAction,
-  Card,
-  Player,
-  PokerGame,
-  HandResult
-} from '../services/pokerEngine';
-import { ProvablyFairEngine } from '../services/gameEngine';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { idempotency } from '../middleware/idempotency';
+import { executeQuery } from '../config/database';
+import { WalletService, WalletError } from '../services/walletService';
+import { LedgerService } from '../services/ledgerService';
+import { PokerEngineError } from '../services/pokerTableEngine';
 import AIPlayerManager from '../services/aiPlayerManager';
+import { PokerHandHistoryService } from '../services/pokerHandHistory';
+import { PokerStatsService } from '../services/pokerStatsService';
 import { getPokerManager } from '../socket/socketHandler';
 
 const router = express.Router();
@@ -54,8 +43,21 @@ const createTableSchema = Joi.object({
   maxBuyIn: Joi.number().positive().required()
 });
 
+const handHistorySchema = Joi.object({
+  format: Joi.string().valid('text', 'json').default('text'),
+  from: Joi.date(),
+  to: Joi.date(),
+  limit: Joi.number().integer().min(1).max(1000).default(200)
+});
+
+const statsSchema = Joi.object({
+  bigBlind: Joi.number().positive().precision(2),
+  from: Joi.date(),
+  to: Joi.date()
+});
+
 /**
- * Get all available poker tables
+ * Get all available cash tables; Sit & Go tables are reached through /api/tournaments
  */
 router.get('/tables', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -66,7 +68,7 @@ router.get('/tables', authenticateToken, async (req: Request, res: Response) =>
         COALESCE(AVG(ps.chips), 0) as avg_chips
       FROM poker_tables pt
       LEFT JOIN poker_seats ps ON pt.id = ps.table_id AND ps.is_active = true
-      WHERE pt.is_active = true
+      WHERE pt.is_active = true AND pt.table_type = 'cash'
       GROUP BY pt.id
       ORDER BY pt.small_blind ASC, pt.big_blind ASC
     `);
@@ -155,6 +157,12 @@ router.get('/table/:tableId', authenticateToken, async (req: Request, res: Respo
       WHERE ps.table_id = ? AND ps.is_active = true
       ORDER BY ps.seat_position ASC
     `, [tableId]);
+
+    // Hole cards are only shown to their owner
+    const userId = (req as any).user.id;
+    players.forEach((p: any) => {
+      if (p.userId !== userId) p.holeCards = null;
+    });
     
     // Get current game if exists
     const gameResult = await executeQuery(
@@ -241,6 +249,12 @@ router.get('/game-state/:tableId', authenticateToken, async (req: Request, res:
       ORDER BY ps.seat_position
     `, [tableId]);
 
+    // Hole cards are only shown to their owner
+    const userId = (req as any).user.id;
+    players.forEach((p: any) => {
+      if (p.user_id !== userId) p.hole_cards = null;
+    });
+
     res.json({
       success: true,
       message: 'Game state retrieved successfully',
@@ -263,7 +277,7 @@ router.get('/game-state/:tableId', authenticateToken, async (req: Request, res:
 /**
  * Join a poker table
  */
-router.post('/join', authenticateToken, async (req: Request, res: Response) => {
+router.post('/join', authenticateToken, idempotency, async (req: Request, res: Response) => {
   try {
     const { error, value } = joinTableSchema.validate(req.body);
     if (error) {
@@ -290,6 +304,14 @@ router.post('/join', authenticateToken, async (req: Request, res: Response) => {
     }
     
     const table = tableResult[0];
+
+    // Tournament tables are seated by the tournament, with tournament chips
+    if (table.table_type !== 'cash') {
+      return res.status(400).json({
+        success: false,
+        message: 'Register for the tournament to play at this table'
+      });
+    }
     
     // Validate buy-in amount
     if (buyIn < table.min_buy_in || buyIn > table.max_buy_in) {
@@ -366,19 +388,20 @@ router.post('/join', authenticateToken, async (req: Request, res: Response) => {
     }
     
     // Join table transaction
-    const queries = [
-      {
-        query: 'UPDATE users SET balance = balance - ? WHERE id = ?',
-        params: [buyIn, userId]
-      },
-      {
+    await WalletService.transact(
+      userId,
+      [{
+        type: 'buy_in',
+        amount: -buyIn,
+        description: `Poker buy-in at table #${tableId} - Amount: $${buyIn}`,
+        counterparty: LedgerService.pokerTable(tableId)
+      }],
+      [{
         query: `INSERT INTO poker_seats (table_id, user_id, seat_position, chips) 
                 VALUES (?, ?, ?, ?)`,
         params: [tableId, userId, finalSeatPosition, buyIn]
-      }
-    ];
-    
-    await executeTransaction(queries);
+      }]
+    );
     
     // Initialize player stats if they don't exist
     await executeQuery(`
@@ -396,6 +419,13 @@ router.post('/join', authenticateToken, async (req: Request, res: Response) => {
     });
     
   } catch (error) {
+    if (error instanceof WalletError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error joining poker table:', error);
     res.status(500).json({
       success: false,
@@ -407,63 +437,48 @@ router.post('/join', authenticateToken, async (req: Request, res: Response) => {
 /**
  * Leave a poker table
  */
-router.post('/leave', authenticateToken, async (req: Request, res: Response) => {
+router.post('/leave', authenticateToken, idempotency, async (req: Request, res: Response) => {
   try {
     const { tableId } = req.body;
     const userId = (req as any).user.id;
     
-    // Get player's seat
-    const seatResult = await executeQuery(
-      'SELECT * FROM poker_seats WHERE table_id = ? AND user_id = ? AND is_active = true',
-      [tableId, userId]
+    // Tournament chips are not cash; the seat is kept until the player busts or wins
+    const tournamentTable = await executeQuery(
+      'SELECT id FROM poker_tables WHERE id = ? AND tournament_id IS NOT NULL',
+      [tableId]
     );
-    
-    if (seatResult.length === 0) {
-      return res.status(404).json({
+    if (tournamentTable.length > 0) {
+      return res.status(400).json({
         success: false,
-        message: 'Player not found at table'
+        message: 'Tournament seats cannot be cashed out'
       });
     }
-    
-    const seat = seatResult[0];
-    
-    // Check if player is in active game
-    const activeGameResult = await executeQuery(`
-      SELECT pg.* FROM poker_games pg
-      JOIN poker_seats ps ON pg.table_id = ps.table_id
-      WHERE ps.user_id = ? AND ps.table_id = ? AND pg.game_state NOT IN ('finished')
-    `, [userId, tableId]);
-    
-    if (activeGameResult.length > 0) {
-      return res.status(400).json({
+
+    // The seat is read and paid out under the table's lock, so no hand can start in between
+    const chipsReturned = await getPokerManager().cashOut(tableId, userId);
+    if (chipsReturned === null) {
+      return res.status(404).json({
         success: false,
-        message: 'Cannot leave table during active game'
+        message: 'Player not found at table'
       });
     }
     
-    // Cash out transaction
-    const queries = [
-      {
-        query: 'UPDATE users SET balance = balance + ? WHERE id = ?',
-        params: [seat.chips, userId]
-      },
-      {
-        query: 'UPDATE poker_seats SET is_active = false, left_at = NOW() WHERE id = ?',
-        params: [seat.id]
-      }
-    ];
-    
-    await executeTransaction(queries);
-    
     res.json({
       success: true,
       message: 'Successfully left poker table',
       data: {
-        chipsReturned: seat.chips
+        chipsReturned
       }
     });
     
   } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error leaving poker table:', error);
     res.status(500).json({
       success: false,
@@ -475,7 +490,7 @@ router.post('/leave', authenticateToken, async (req: Request, res: Response) =>
 /**
  * Start a hand manually (for testing/admin purposes)
  */
-router.post('/start-hand', authenticateToken, async (req: Request, res: Response) => {
+router.post('/start-hand', authenticateToken, requireRole('admin'), audit('poker.start_hand'), async (req: Request, res: Response) => {
   try {
     const { tableId } = req.body;
     
@@ -529,6 +544,13 @@ router.post('/start-hand', authenticateToken, async (req: Request, res: Response
     });
     
   } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error starting poker hand:', error);
     res.status(500).json({
       success: false,
@@ -585,79 +607,29 @@ router.post('/start-game', authenticateToken, async (req: Request, res: Response
       });
     }
     
-    // Create new deck and shuffle it
-    const deck = createDeck();
-    const serverSeed = ProvablyFairEngine.generateServerSeed();
-    const clientSeed = 'poker_game_' + Date.now();
-    const nonce = 1;
-    const shuffledDeck = shuffleDeck(deck, serverSeed, clientSeed, nonce);
-    
-    // Determine dealer position (rotate from last game or start at 0)
-    const lastGameResult = await executeQuery(
-      'SELECT dealer_position FROM poker_games WHERE table_id = ? ORDER BY created_at DESC LIMIT 1',
-      [tableId]
-    );
-    
-    const dealerPosition = lastGameResult.length > 0 
-      ? (lastGameResult[0].dealer_position + 1) % players.length 
-      : 0;
-    
-    const smallBlindPosition = (dealerPosition + 1) % players.length;
-    const bigBlindPosition = (dealerPosition + 2) % players.length;
-    
-    // Create new game
-    const gameResult = await executeQuery(`
-      INSERT INTO poker_games (
-        table_id, dealer_position, small_blind_position, big_blind_position,
-        current_player_position, pot_amount, deck_state, current_bet, min_raise
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      tableId, dealerPosition, smallBlindPosition, bigBlindPosition,
-      bigBlindPosition, 0, JSON.stringify(shuffledDeck), table.big_blind, table.big_blind
-    ]);
-    
-    const gameId = gameResult.insertId;
-    
-    // Update player seats with game reference
-    await executeQuery(
-      'UPDATE poker_seats SET game_id = ? WHERE table_id = ? AND is_active = true',
-      [gameId, tableId]
-    );
-    
-    // Post blinds
-    const smallBlindPlayer = players[smallBlindPosition];
-    const bigBlindPlayer = players[bigBlindPosition];
-    
-    const blindQueries = [
-      {
-        query: 'UPDATE poker_seats SET current_bet = ?, total_bet_this_hand = ?, chips = chips - ? WHERE id = ?',
-        params: [table.small_blind, table.small_blind, table.small_blind, smallBlindPlayer.id]
-      },
-      {
-        query: 'UPDATE poker_seats SET current_bet = ?, total_bet_this_hand = ?, chips = chips - ? WHERE id = ?',
-        params: [table.big_blind, table.big_blind, table.big_blind, bigBlindPlayer.id]
-      },
-      {
-        query: 'UPDATE poker_games SET pot_amount = ?, game_state = ? WHERE id = ?',
-        params: [parseFloat(table.small_blind) + parseFloat(table.big_blind), 'dealing', gameId]
-      }
-    ];
-    
-    await executeTransaction(blindQueries);
+    // Dealing, blinds and the button are handled by the table engine
+    const { gameId, state } = await getPokerManager().startHand(tableId);
     
     res.json({
       success: true,
       message: 'Poker game started successfully',
       data: {
         gameId,
-        dealerPosition,
-        smallBlindPosition,
-        bigBlindPosition,
-        potAmount: parseFloat(table.small_blind) + parseFloat(table.big_blind)
+        dealerPosition: state.dealerPosition,
+        smallBlindPosition: state.smallBlindPosition,
+        bigBlindPosition: state.bigBlindPosition,
+        potAmount: state.pot
       }
     });
     
   } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error starting poker game:', error);
     res.status(500).json({
       success: false,
@@ -695,71 +667,8 @@ router.post('/action', authenticateToken, async (req: Request, res: Response) =>
       });
     }
     
-    const game = gameResult[0];
-    
-    // Get player's seat
-    const seatResult = await executeQuery(
-      'SELECT * FROM poker_seats WHERE game_id = ? AND user_id = ? AND is_active = true',
-      [gameId, userId]
-    );
-    
-    if (seatResult.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Player not in this game'
-      });
-    }
-    
-    const playerSeat = seatResult[0];
-    
-    // Check if it's player's turn
-    if (game.current_player_position !== playerSeat.seat_position) {
-      return res.status(400).json({
-        success: false,
-        message: 'Not your turn'
-      });
-    }
-    
-    // Get all players in game
-    const allPlayers = await executeQuery(
-      'SELECT * FROM poker_seats WHERE game_id = ? AND is_active = true ORDER BY seat_position',
-      [gameId]
-    );
-    
-    // Convert to Player objects for engine
-    const players: Player[] = allPlayers.map((seat: any) => ({
-      userId: seat.user_id,
-      seatPosition: seat.seat_position,
-      chips: parseFloat(seat.chips),
-      holeCards: seat.hole_cards ? (typeof seat.hole_cards === 'string' ? JSON.parse(seat.hole_cards) : seat.hole_cards) : [],
-      currentBet: parseFloat(seat.current_bet),
-      totalBetThisHand: parseFloat(seat.total_bet_this_hand),
-      lastAction: seat.last_action,
-      isActive: seat.is_active,
-      isAllIn: seat.is_all_in,
-      isFolded: seat.last_action === 'fold'
-    }));
-    
-    const currentPlayer = players.find(p => p.userId === userId)!;
-    
-    // Validate action
-    const validation = validatePlayerAction(
-      currentPlayer, 
-      action, 
-      amount, 
-      parseFloat(game.current_bet),
-      parseFloat(game.min_raise)
-    );
-    
-    if (!validation.valid) {
-      return res.status(400).json({
-        success: false,
-        message: validation.error
-      });
-    }
-    
-    // Process action - this will be handled by WebSocket events in real implementation
-    // For now, just acknowledge the action
+    // Same path as socket and AI actions: the engine checks the turn and the amount
+    await getPokerManager().submitAction(gameResult[0].table_id, userId, action, amount);
     
     res.json({
       success: true,
@@ -772,6 +681,13 @@ router.post('/action', authenticateToken, async (req: Request, res: Response) =>
     });
     
   } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error processing poker action:', error);
     res.status(500).json({
       success: false,
@@ -781,48 +697,27 @@ router.post('/action', authenticateToken, async (req: Request, res: Response) =>
 });
 
 /**
- * Get player's poker statistics
+ * Get player's poker statistics, optionally for one stake and/or a date range
  */
 router.get('/stats', authenticateToken, async (req: Request, res: Response) => {
   try {
+    const { error, value } = statsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
     const userId = (req as any).user.id;
-    
-    const statsResult = await executeQuery(`
-      SELECT 
-        pps.*,
-        COUNT(ph.id) as total_hands_history,
-        SUM(CASE WHEN ph.winner_user_id = ? THEN 1 ELSE 0 END) as hands_won_history,
-        MAX(ph.total_pot) as biggest_pot_won
-      FROM poker_player_stats pps
-      LEFT JOIN poker_hands ph ON pps.user_id = ?
-      WHERE pps.user_id = ?
-      GROUP BY pps.user_id
-    `, [userId, userId, userId]);
-    
-    const stats = statsResult.length > 0 ? statsResult[0] : {
-      user_id: userId,
-      hands_played: 0,
-      hands_won: 0,
-      total_winnings: 0,
-      total_losses: 0
-    };
-    
-    // Calculate derived statistics
-    const winRate = stats.hands_played > 0 ? (stats.hands_won / stats.hands_played * 100) : 0;
-    const netProfit = parseFloat(stats.total_winnings) - parseFloat(stats.total_losses);
-    const profitPerHand = stats.hands_played > 0 ? netProfit / stats.hands_played : 0;
-    
+    const stats = await PokerStatsService.getStats(userId, value);
+
     res.json({
       success: true,
       message: 'Poker statistics retrieved successfully',
-      data: {
-        ...stats,
-        win_rate: winRate.toFixed(2),
-        net_profit: netProfit.toFixed(2),
-        profit_per_hand: profitPerHand.toFixed(2)
-      }
+      data: stats
     });
-    
+
   } catch (error) {
     console.error('Error fetching poker statistics:', error);
     res.status(500).json({
@@ -832,6 +727,28 @@ router.get('/stats', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get the HUD stats of the players seated at a table
+ */
+router.get('/table/:tableId/hud', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const tableId = parseInt(req.params.tableId);
+    const hud = await PokerStatsService.getHud(tableId);
+
+    res.json({
+      success: true,
+      data: hud
+    });
+
+  } catch (error) {
+    console.error('Error fetching poker HUD:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch table HUD'
+    });
+  }
+});
+
 /**
  * Get poker leaderboard
  */
@@ -869,10 +786,179 @@ router.get('/leaderboard', authenticateToken, async (req: Request, res: Response
   }
 });
 
+/**
+ * Export your hands as a PokerStars-format hand history file or as JSON, for tracking software
+ */
+router.get('/hands/history', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = handHistorySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+    }
+
+    const userId = (req as any).user.id;
+    const histories = await PokerHandHistoryService.listForUser(userId, value);
+
+    if (value.format === 'json') {
+      return res.json({
+        success: true,
+        data: histories
+      });
+    }
+
+    res.type('text/plain').attachment(`poker-hands-${userId}.txt`).send(PokerHandHistoryService.toText(histories));
+  } catch (error) {
+    console.error('Error exporting poker hand histories:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export hand histories'
+    });
+  }
+});
+
+/**
+ * One hand you played, as a PokerStars-format hand history or as JSON
+ */
+router.get('/hands/:handId/history', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const handId = parseInt(req.params.handId);
+    if (!Number.isInteger(handId) || handId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid hand ID'
+      });
+    }
+
+    const history = await PokerHandHistoryService.getHand((req as any).user.id, handId);
+
+    if (req.query.format === 'json') {
+      return res.json({
+        success: true,
+        data: history
+      });
+    }
+
+    res.type('text/plain').send(PokerHandHistoryService.toText([history]));
+  } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error fetching poker hand history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch hand history'
+    });
+  }
+});
+
+/**
+ * Your latest finished hands, to pick one to replay
+ */
+router.get('/hands', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    res.json({
+      success: true,
+      data: await PokerHandHistoryService.recentHands((req as any).user.id, limit)
+    });
+  } catch (error) {
+    console.error('Error fetching recent poker hands:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch recent hands'
+    });
+  }
+});
+
+/**
+ * Replay a hand you played, with a token for sharing it by link
+ */
+router.get('/hands/:handId/replay', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const handId = parseInt(req.params.handId);
+    if (!Number.isInteger(handId) || handId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid hand ID'
+      });
+    }
+
+    const hand = await PokerHandHistoryService.getHand((req as any).user.id, handId);
+
+    res.json({
+      success: true,
+      data: {
+        hand,
+        frames: PokerHandHistoryService.toReplay(hand),
+        shareToken: PokerHandHistoryService.shareToken(handId)
+      }
+    });
+  } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error replaying poker hand:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load hand replay'
+    });
+  }
+});
+
+/**
+ * Replay a hand shared by link; only cards shown down are visible. No login needed.
+ */
+router.get('/hands/:handId/replay/shared', async (req: Request, res: Response) => {
+  try {
+    const handId = parseInt(req.params.handId);
+    if (!Number.isInteger(handId) || handId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid hand ID'
+      });
+    }
+
+    const hand = await PokerHandHistoryService.getSharedHand(handId, String(req.query.token || ''));
+
+    res.json({
+      success: true,
+      data: {
+        hand,
+        frames: PokerHandHistoryService.toReplay(hand)
+      }
+    });
+  } catch (error) {
+    if (error instanceof PokerEngineError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error replaying shared poker hand:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load hand replay'
+    });
+  }
+});
+
 /**
  * Emergency system reset endpoint - for development/debugging
  */
-router.post('/emergency-reset', authenticateToken, async (req: Request, res: Response) => {
+router.post('/emergency-reset', authenticateToken, requireRole('superadmin'), audit('poker.emergency_reset'), async (req: Request, res: Response) => {
   try {
     // Only allow in development
     if (process.env.NODE_ENV === 'production') {
@@ -884,6 +970,7 @@ router.post('/emergency-reset', authenticateToken, async (req: Request, res: Res
 
     const { DatabaseCleanupService } = await import('../services/databaseCleanup');
     await DatabaseCleanupService.emergencyReset();
+    await getPokerManager()?.resetTables();
 
     res.json({
       success: true,
@@ -928,7 +1015,7 @@ router.get('/health', async (req: Request, res: Response) => {
 /**
  * Debug endpoint to trigger WebSocket table state update
  */
-router.post('/debug/broadcast-table/:tableId', authenticateToken, async (req: Request, res: Response) => {
+router.post('/debug/broadcast-table/:tableId', authenticateToken, requireRole('admin'), audit('poker.debug_broadcast'), async (req: Request, res: Response) => {
   try {
     const tableId = parseInt(req.params.tableId);
     const pokerManager = getPokerManager();
@@ -0,0 +1,234 @@
+import { Router, Response } from 'express';
+import bcrypt from 'bcrypt';
+import Joi from 'joi';
+import { executeQuery } from '../config/database';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { TokenService } from '../services/tokenService';
+import { RealityCheckService } from '../services/realityCheckService';
+import {
+  ResponsibleGamblingService,
+  LimitError,
+  LIMIT_TYPES,
+  LIMIT_PERIODS,
+  EXCLUSION_DURATIONS
+} from '../services/responsibleGamblingService';
+
+const router = Router();
+
+const setLimitSchema = Joi.object({
+  type: Joi.string().valid(...LIMIT_TYPES).required(),
+  period: Joi.string().valid(...LIMIT_PERIODS).required(),
+  // null removes the limit (after the cooling-off period)
+  amount: Joi.number().positive().max(1000000).allow(null).required()
+    .when('type', { is: 'session', then: Joi.number().integer().min(5).max(24 * 60) })
+});
+
+const exclusionSchema = Joi.object({
+  type: Joi.string().valid('cool_off', 'self_exclusion').required(),
+  duration: Joi.string()
+    .when('type', { is: 'cool_off', then: Joi.valid(...Object.keys(EXCLUSION_DURATIONS.cool_off)) })
+    .when('type', { is: 'self_exclusion', then: Joi.valid(...Object.keys(EXCLUSION_DURATIONS.self_exclusion)) })
+    .required(),
+  password: Joi.string().required()
+});
+
+const realityCheckSchema = Joi.object({
+  // null turns reality checks off
+  intervalMinutes: Joi.number().integer().min(10).max(240).allow(null).required()
+});
+
+// Limits with what has been used and what is left
+router.get('/limits', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await TokenService.listSessions(req.user?.id);
+    const currentSession = sessions.find(session => session.id === req.user?.sid) || null;
+
+    res.json({
+      success: true,
+      data: {
+        limits: await ResponsibleGamblingService.getLimits(req.user?.id, currentSession),
+        sessionEndsAt: currentSession?.endsAt || null
+      }
+    });
+  } catch (error) {
+    console.error('Get limits error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch limits'
+    });
+  }
+});
+
+// Set, change or remove a limit; lowering applies now, raising or removing after a cooling-off
+router.put('/limits', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = setLimitSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    const change = await ResponsibleGamblingService.setLimit(req.user?.id, value.type, value.period, value.amount);
+
+    // Sessions already past a lowered session limit end now, sockets included
+    change.endedSessions.forEach(sessionId => {
+      (req as any).io?.in(`session_${sessionId}`).disconnectSockets(true);
+    });
+
+    res.json({
+      success: true,
+      message: change.appliedImmediately
+        ? 'Limit updated'
+        : 'Raising or removing a limit takes effect after a 24-hour cooling-off period',
+      data: change.limit
+    });
+  } catch (error) {
+    if (error instanceof LimitError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Set limit error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update limit'
+    });
+  }
+});
+
+// The cool-off or self-exclusion in force, if any
+router.get('/exclusion', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await ResponsibleGamblingService.getActiveExclusion(req.user?.id)
+    });
+  } catch (error) {
+    console.error('Get exclusion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch exclusion'
+    });
+  }
+});
+
+// Take a break or self-exclude; signs the user out everywhere straight away
+router.post('/exclusion', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = exclusionSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    // Confirm it is really the account holder asking
+    const users = await executeQuery('SELECT password_hash FROM users WHERE id = ?', [req.user?.id]);
+    if (users.length === 0 || !(await bcrypt.compare(value.password, users[0].password_hash))) {
+      res.status(403).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+      return;
+    }
+
+    const exclusion = await ResponsibleGamblingService.startExclusion(req.user?.id, value.type, value.duration);
+    (req as any).io?.in(`user_${req.user?.id}`).disconnectSockets(true);
+
+    res.json({
+      success: true,
+      message: ResponsibleGamblingService.exclusionMessage(exclusion),
+      data: exclusion
+    });
+  } catch (error) {
+    if (error instanceof LimitError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Start exclusion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start exclusion'
+    });
+  }
+});
+
+// Reality check interval and the current play session
+router.get('/reality-check', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        intervalMinutes: await RealityCheckService.getIntervalMinutes(req.user?.id),
+        session: await RealityCheckService.getCurrentSession(req.user?.id)
+      }
+    });
+  } catch (error) {
+    console.error('Get reality check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch reality check settings'
+    });
+  }
+});
+
+router.put('/reality-check', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = realityCheckSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    await RealityCheckService.setIntervalMinutes(req.user?.id, value.intervalMinutes);
+
+    res.json({
+      success: true,
+      message: value.intervalMinutes === null
+        ? 'Reality checks turned off'
+        : `Reality checks every ${value.intervalMinutes} minutes`,
+      data: { intervalMinutes: value.intervalMinutes }
+    });
+  } catch (error) {
+    console.error('Set reality check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update reality check settings'
+    });
+  }
+});
+
+// Acknowledge a pending reality check so betting can continue
+router.post('/reality-check/acknowledge', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const acknowledged = await RealityCheckService.acknowledge(req.user?.id);
+
+    res.json({
+      success: true,
+      message: acknowledged ? 'Reality check acknowledged' : 'No reality check was pending'
+    });
+  } catch (error) {
+    console.error('Acknowledge reality check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to acknowledge reality check'
+    });
+  }
+});
+
+export { router as responsibleGamblingRoutes };
@@ -0,0 +1,103 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { WalletError } from '../services/walletService';
+import { TournamentService, TournamentError } from '../services/tournamentService';
+
+const router = Router();
+
+// Sit & Gos and scheduled tournaments open for registration or in progress
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await TournamentService.list(req.user?.id)
+    });
+  } catch (error) {
+    console.error('Get tournaments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch tournaments'
+    });
+  }
+});
+
+// Tournament lobby: entrants, average stack, current level, payouts, tables and players
+router.get('/:tournamentId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await TournamentService.get(req.user?.id, parseInt(req.params.tournamentId))
+    });
+  } catch (error) {
+    if (error instanceof TournamentError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Get tournament error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch tournament'
+    });
+  }
+});
+
+// Register, paying the buy-in and entry fee; the last place taken starts the tournament
+router.post('/:tournamentId/register', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const result = await TournamentService.register(req.user?.id, parseInt(req.params.tournamentId));
+
+    res.json({
+      success: true,
+      message: result.tableId ? 'Registered; the tournament is starting' : 'Registered for the tournament',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof TournamentError || error instanceof WalletError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Tournament registration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to register for tournament'
+    });
+  }
+});
+
+// Unregister before the start and get the buy-in and entry fee back
+router.post('/:tournamentId/unregister', authenticateToken, idempotency, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const result = await TournamentService.unregister(req.user?.id, parseInt(req.params.tournamentId));
+
+    res.json({
+      success: true,
+      message: 'Unregistered; your buy-in has been refunded',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof TournamentError || error instanceof WalletError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Tournament unregistration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unregister from tournament'
+    });
+  }
+});
+
+export { router as tournamentRoutes };
@@ -1,16 +1,40 @@
 import { Router, Response } from 'express';
+import Joi from 'joi';
 import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
 import { executeQuery } from '../config/database';
+import { DataExportService, ExportError } from '../services/dataExportService';
+import { AccountService, AccountError } from '../services/accountService';
 
 const router = Router();
 
+const closeAccountSchema = Joi.object({
+  password: Joi.string().required(),
+  confirm: Joi.string().valid('CLOSE').required().messages({ 'any.only': 'Type CLOSE to confirm' })
+});
+
+const handleExportError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ExportError) {
+    res.status(error.status).json({
+      success: false,
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallback
+  });
+};
+
 // Get user profile
 router.get('/profile', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user?.id;
     
     const users = await executeQuery(
-      'SELECT id, username, email, balance, total_won, total_lost, created_at FROM users WHERE id = ? AND is_active = TRUE',
+      'SELECT id, username, email, email_verified_at, role, balance, total_won, total_lost, created_at FROM users WHERE id = ? AND is_active = TRUE',
       [userId]
     );
 
@@ -29,6 +53,8 @@ router.get('/profile', authenticateToken, async (req: AuthenticatedRequest, res:
         id: user.id,
         username: user.username,
         email: user.email,
+        emailVerified: !!user.email_verified_at,
+        role: user.role,
         balance: parseFloat(user.balance),
         totalWon: parseFloat(user.total_won),
         totalLost: parseFloat(user.total_lost),
@@ -77,4 +103,81 @@ router.get('/balance', authenticateToken, async (req: AuthenticatedRequest, res:
   }
 });
 
+// Data exports, newest first
+router.get('/data-exports', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await DataExportService.listExports(req.user?.id)
+    });
+  } catch (error) {
+    handleExportError(res, error, 'Failed to fetch data exports');
+  }
+});
+
+// Queue an archive of everything we hold about the user
+router.post('/data-exports', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const dataExport = await DataExportService.requestExport(req.user?.id);
+
+    res.status(202).json({
+      success: true,
+      message: "We're preparing your data. We'll email you when it's ready to download.",
+      data: dataExport
+    });
+  } catch (error) {
+    handleExportError(res, error, 'Failed to request data export');
+  }
+});
+
+router.get('/data-exports/:exportId/download', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { filePath, downloadName } = await DataExportService.getArchive(req.user?.id, parseInt(req.params.exportId));
+
+    res.download(filePath, downloadName, (error) => {
+      if (error && !res.headersSent) {
+        handleExportError(res, error, 'Failed to download data export');
+      }
+    });
+  } catch (error) {
+    handleExportError(res, error, 'Failed to download data export');
+  }
+});
+
+// Close the account: personal data is anonymized, financial records are kept
+router.post('/close', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { error, value } = closeAccountSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    await AccountService.closeAccount(req.user?.id, value.password);
+    (req as any).io?.in(`user_${req.user?.id}`).disconnectSockets(true);
+
+    res.json({
+      success: true,
+      message: 'Your account has been closed'
+    });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Close account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to close account'
+    });
+  }
+});
+
 export { router as userRoutes };
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcrypt';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { AccountError, AccountService } from '../accountService';
+import { DataExportService } from '../dataExportService';
+import { DevMailTransport, MailService } from '../mailService';
+import { TokenService } from '../tokenService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+// Email cooldowns only; expiry is not modelled
+const mockRedis = new Map<string, string>();
+jest.mock('../../config/redis', () => ({
+  getRedisClient: () => ({
+    set: async (key: string, value: string, options: { NX?: boolean }) => {
+      if (options?.NX && mockRedis.has(key)) return null;
+      mockRedis.set(key, value);
+      return 'OK';
+    }
+  })
+}));
+
+const USER = 7;
+const HOUR = 3600 * 1000;
+
+describe('AccountService', () => {
+  let now: number;
+  let user: any;
+  let outbox: DevMailTransport;
+
+  // The token from the link in the last email sent
+  const lastToken = () => {
+    const [, token] = outbox.sent[outbox.sent.length - 1].text.match(/\?token=(\S+)/)!;
+    return decodeURIComponent(token);
+  };
+  const expectInvalid = async (promise: Promise<unknown>, message: string) => {
+    const error: any = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(AccountError);
+    expect(error.message).toBe(message);
+    expect(error.status).toBe(400);
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+  });
+
+  beforeEach(async () => {
+    mockDb = new FakeDatabase();
+    mockRedis.clear();
+    now = Date.UTC(2026, 0, 15, 12);
+    user = {
+      id: USER, username: 'player', email: 'player@example.com',
+      password_hash: await bcrypt.hash('correct horse', 4), email_verified_at: null, is_active: true
+    };
+    outbox = new DevMailTransport();
+    MailService.setTransport(outbox);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(TokenService, 'revokeAllSessions').mockResolvedValue(3);
+    jest.spyOn(TokenService, 'revokeOtherSessions').mockResolvedValue(['session-2']);
+
+    const active = (id: number) => (id === user.id ? [{ ...user }] : []);
+    mockDb
+      .on(/^SELECT id FROM users WHERE id = \? AND email = \? AND is_active = TRUE$/, ([id, email]) =>
+        (email === user.email ? active(id) : []))
+      .on(/^UPDATE users SET email_verified_at = COALESCE/, () => {
+        user.email_verified_at = user.email_verified_at || new Date(now);
+        return { affectedRows: 1 };
+      })
+      .on(/FROM users WHERE email = \? AND is_active = TRUE$/, ([email]) => (email === user.email ? [{ ...user }] : []))
+      .on(/FROM users WHERE id = \? AND is_active = TRUE$/, ([id]) => active(id))
+      .on(/^UPDATE users SET password_hash = \?/, ([hash, id, expected], _connection, statement) => {
+        if (id !== user.id || expected !== user.password_hash) return { affectedRows: 0 };
+        user.password_hash = hash;
+        if (/email_verified_at/.test(statement)) user.email_verified_at = user.email_verified_at || new Date(now);
+        return { affectedRows: 1 };
+      });
+  });
+
+  afterEach(() => {
+    MailService.setTransport(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('email verification', () => {
+    it('verifies the address from the emailed link, and again without complaint', async () => {
+      await expect(AccountService.sendVerificationEmail(user)).resolves.toBe(true);
+
+      expect(outbox.sent).toHaveLength(1);
+      expect(outbox.sent[0]).toMatchObject({ to: 'player@example.com', subject: 'Confirm your email address' });
+      expect(outbox.sent[0].text).toContain('http://localhost:3000/verify-email?token=');
+
+      await AccountService.verifyEmail(lastToken());
+      const verifiedAt = user.email_verified_at;
+      await AccountService.verifyEmail(lastToken());
+
+      expect(verifiedAt).toEqual(new Date(now));
+      expect(user.email_verified_at).toBe(verifiedAt);
+    });
+
+    it('sends at most one email a minute', async () => {
+      await expect(AccountService.sendVerificationEmail(user)).resolves.toBe(true);
+      await expect(AccountService.sendVerificationEmail(user)).resolves.toBe(false);
+
+      expect(outbox.sent).toHaveLength(1);
+    });
+
+    it('refuses a link after 24 hours', async () => {
+      await AccountService.sendVerificationEmail(user);
+
+      now += 24 * HOUR + 1000;
+
+      await expectInvalid(AccountService.verifyEmail(lastToken()), 'This verification link is invalid or has expired');
+      expect(user.email_verified_at).toBeNull();
+    });
+
+    it('refuses a link for an address the account no longer uses', async () => {
+      await AccountService.sendVerificationEmail(user);
+      user.email = 'new@example.com';
+
+      await expectInvalid(AccountService.verifyEmail(lastToken()), 'This verification link is no longer valid');
+      expect(user.email_verified_at).toBeNull();
+    });
+
+    it('refuses a reset link in place of a verification link', async () => {
+      await AccountService.requestPasswordReset(user.email);
+
+      await expectInvalid(AccountService.verifyEmail(lastToken()), 'This link is not valid here');
+    });
+  });
+
+  describe('password reset', () => {
+    it('sets the new password from the link, proves the address and signs out everywhere', async () => {
+      await AccountService.requestPasswordReset('player@example.com');
+      expect(outbox.sent[0]).toMatchObject({ to: 'player@example.com', subject: 'Reset your password' });
+
+      await expect(AccountService.resetPassword(lastToken(), 'battery staple')).resolves.toBe(USER);
+
+      await expect(bcrypt.compare('battery staple', user.password_hash)).resolves.toBe(true);
+      expect(user.email_verified_at).toEqual(new Date(now));
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(USER);
+    });
+
+    it('works once', async () => {
+      await AccountService.requestPasswordReset(user.email);
+      const token = lastToken();
+      await AccountService.resetPassword(token, 'battery staple');
+
+      await expectInvalid(
+        AccountService.resetPassword(token, 'another one'),
+        'This reset link has already been used or is no longer valid'
+      );
+      await expect(bcrypt.compare('battery staple', user.password_hash)).resolves.toBe(true);
+    });
+
+    it('stops working when the password changes some other way', async () => {
+      await AccountService.requestPasswordReset(user.email);
+      const token = lastToken();
+      await AccountService.changePassword(USER, 'correct horse', 'battery staple', 'session-1');
+
+      await expectInvalid(
+        AccountService.resetPassword(token, 'another one'),
+        'This reset link has already been used or is no longer valid'
+      );
+    });
+
+    it('refuses a link after an hour', async () => {
+      await AccountService.requestPasswordReset(user.email);
+
+      now += HOUR + 1000;
+
+      await expectInvalid(AccountService.resetPassword(lastToken(), 'battery staple'), 'This reset link is invalid or has expired');
+      await expect(bcrypt.compare('correct horse', user.password_hash)).resolves.toBe(true);
+      expect(TokenService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('sends nothing for an unknown address, without saying so', async () => {
+      await expect(AccountService.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+
+      expect(outbox.sent).toHaveLength(0);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('keeps the current session, signs out the others and tells the owner', async () => {
+      const revoked = await AccountService.changePassword(USER, 'correct horse', 'battery staple', 'session-1');
+
+      expect(revoked).toEqual(['session-2']);
+      expect(TokenService.revokeOtherSessions).toHaveBeenCalledWith(USER, 'session-1');
+      await expect(bcrypt.compare('battery staple', user.password_hash)).resolves.toBe(true);
+      expect(outbox.sent[0]).toMatchObject({ to: 'player@example.com', subject: 'Your password was changed' });
+    });
+
+    it('needs the current password', async () => {
+      const error: any = await AccountService.changePassword(USER, 'guess', 'battery staple', 'session-1').catch(caught => caught);
+
+      expect(error.status).toBe(403);
+      expect(TokenService.revokeOtherSessions).not.toHaveBeenCalled();
+    });
+
+    it('refuses the same password again', async () => {
+      await expectInvalid(
+        AccountService.changePassword(USER, 'correct horse', 'correct horse', 'session-1'),
+        'New password must be different from the current one'
+      );
+    });
+  });
+
+  describe('closeAccount', () => {
+    let openSeats: number;
+    let deletedFrom: string[];
+
+    beforeEach(() => {
+      openSeats = 0;
+      deletedFrom = [];
+      jest.spyOn(DataExportService, 'discardExports').mockResolvedValue(undefined);
+
+      mockDb
+        .on(/^SELECT id FROM poker_seats/, () => Array(openSeats).fill({ id: 1 }))
+        .on(/^SELECT (tp\.)?id FROM (poker_tournament_players|blackjack_rounds|crash_bets|auto_bet_sessions)/, () => [])
+        .on(/^UPDATE users SET username = CONCAT\('closed_', id\)/, ([hash, id]) => {
+          if (id !== user.id || !user.is_active) return { affectedRows: 0 };
+          Object.assign(user, {
+            username: `closed_${id}`, email: `closed_${id}@closed.invalid`, password_hash: hash,
+            email_verified_at: null, is_active: false, closed_at: new Date(now)
+          });
+          return { affectedRows: 1 };
+        })
+        .on(/^DELETE FROM (\w+) WHERE user_id = \?$/, ([id], _connection, statement) => {
+          deletedFrom.push(statement.split(' ')[2]);
+          return { affectedRows: id === USER ? 1 : 0 };
+        })
+        .on(/^UPDATE admin_audit_log SET username = CONCAT\('closed_', user_id\), ip_address = NULL/, () => ({ affectedRows: 2 }));
+    });
+
+    it('anonymizes the account, deletes its secrets and keeps the financial history', async () => {
+      await AccountService.closeAccount(USER, 'correct horse');
+
+      expect(user).toMatchObject({
+        username: 'closed_7', email: 'closed_7@closed.invalid', email_verified_at: null, is_active: false
+      });
+      await expect(bcrypt.compare('correct horse', user.password_hash)).resolves.toBe(false);
+      expect(deletedFrom.sort()).toEqual(['idempotency_keys', 'user_recovery_codes', 'user_two_factor']);
+      expect(mockDb.statements).toContainEqual(expect.stringMatching(/^UPDATE admin_audit_log/));
+      expect(mockDb.statements.filter(statement =>
+        /^(UPDATE|DELETE FROM) (bets|transactions|bonus_transactions|credit_purchases|crash_bets|poker_\w+)\b/.test(statement)
+      )).toEqual([]);
+
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(USER);
+      expect(DataExportService.discardExports).toHaveBeenCalledWith(USER);
+      expect(outbox.sent).toEqual([expect.objectContaining({ to: 'player@example.com', subject: 'Your account has been closed' })]);
+    });
+
+    it('needs the account password', async () => {
+      const error: any = await AccountService.closeAccount(USER, 'guess').catch(caught => caught);
+
+      expect(error.status).toBe(403);
+      expect(user.is_active).toBe(true);
+      expect(TokenService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('waits until the player has left their tables', async () => {
+      openSeats = 1;
+
+      const error: any = await AccountService.closeAccount(USER, 'correct horse').catch(caught => caught);
+
+      expect(error.status).toBe(409);
+      expect(error.message).toBe('Leave your poker tables before closing your account');
+      expect(user).toMatchObject({ username: 'player', is_active: true });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, expect, it } from '@jest/globals';
+import { BlackjackCard, BlackjackEngine, BlackjackError } from '../blackjackEngine';
+
+// Shoes are dealt player, dealer, player, dealer, then in order of draws
+const shoe = (...ranks: number[]): BlackjackCard[] => ranks.map(rank => ({ rank, suit: 'spades' }));
+
+describe('BlackjackEngine', () => {
+  describe('getHandValue', () => {
+    it('counts an ace as 11 while that does not bust the hand', () => {
+      expect(BlackjackEngine.getHandValue(shoe(1, 6))).toEqual({ total: 17, soft: true });
+      expect(BlackjackEngine.getHandValue(shoe(1, 6, 10))).toEqual({ total: 17, soft: false });
+      expect(BlackjackEngine.getHandValue(shoe(1, 1, 9))).toEqual({ total: 21, soft: true });
+      expect(BlackjackEngine.getHandValue(shoe(13, 12))).toEqual({ total: 20, soft: false });
+    });
+  });
+
+  it('builds the same six-deck shoe from the same seeds', () => {
+    const first = BlackjackEngine.createShoe('a'.repeat(64), 'client', 1);
+
+    expect(first).toHaveLength(312);
+    expect(BlackjackEngine.createShoe('a'.repeat(64), 'client', 1)).toEqual(first);
+    expect(BlackjackEngine.createShoe('a'.repeat(64), 'client', 2)).not.toEqual(first);
+  });
+
+  describe('dealer rules', () => {
+    it('stands on hard 17', () => {
+      const cards = shoe(10, 10, 9, 7, 5);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'stand');
+
+      expect(state.dealerCards).toHaveLength(2);
+      expect(state.playerHands[0].outcome).toBe('win');
+      expect(state.totalPayout).toBe(20);
+    });
+
+    it('hits soft 17', () => {
+      const cards = shoe(10, 6, 9, 1, 2);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'stand');
+
+      expect(BlackjackEngine.getHandValue(state.dealerCards).total).toBe(19);
+      expect(state.playerHands[0].outcome).toBe('push');
+      expect(state.totalPayout).toBe(10);
+    });
+
+    it('does not draw once every hand has busted or surrendered', () => {
+      const cards = shoe(10, 10, 6, 5, 10, 10);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'hit');
+
+      expect(state.phase).toBe('finished');
+      expect(state.dealerCards).toHaveLength(2);
+      expect(state.playerHands[0].outcome).toBe('bust');
+      expect(state.totalPayout).toBe(0);
+    });
+  });
+
+  describe('naturals and insurance', () => {
+    it('pays a player blackjack 3:2 at once', () => {
+      const state = BlackjackEngine.deal(shoe(1, 10, 13, 9), 10);
+
+      expect(state.phase).toBe('finished');
+      expect(state.playerHands[0].outcome).toBe('blackjack');
+      expect(state.totalPayout).toBe(25);
+    });
+
+    it('rounds 3:2 payouts to the cent', () => {
+      expect(BlackjackEngine.deal(shoe(1, 10, 13, 9), 0.05).totalPayout).toBe(0.13);
+    });
+
+    it('pushes a player blackjack against a dealer blackjack', () => {
+      const cards = shoe(1, 1, 13, 10);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'decline_insurance');
+
+      expect(state.playerHands[0].outcome).toBe('push');
+      expect(state.totalPayout).toBe(10);
+    });
+
+    it('offers insurance under an ace and pays it 2:1 on a dealer blackjack', () => {
+      const cards = shoe(10, 1, 9, 13);
+      const dealt = BlackjackEngine.deal(cards, 10);
+
+      expect(dealt.phase).toBe('insurance');
+      expect(BlackjackEngine.getAvailableActions(dealt)).toEqual(['insurance', 'decline_insurance']);
+
+      const state = BlackjackEngine.applyAction(dealt, cards, 'insurance');
+      expect(state.phase).toBe('finished');
+      expect(state.insuranceBet).toBe(5);
+      expect(state.insurancePayout).toBe(15);
+      expect(state.playerHands[0].outcome).toBe('lose');
+      expect(state.totalBet).toBe(15);
+      expect(state.totalPayout).toBe(15);
+    });
+
+    it('loses the insurance when the dealer has no blackjack', () => {
+      const cards = shoe(10, 1, 9, 7);
+      const insured = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'insurance');
+
+      expect(insured.phase).toBe('player');
+
+      const state = BlackjackEngine.applyAction(insured, cards, 'stand');
+      expect(state.insurancePayout).toBe(0);
+      expect(state.playerHands[0].outcome).toBe('win');
+      expect(state.totalBet).toBe(15);
+      expect(state.totalPayout).toBe(20);
+    });
+  });
+
+  describe('double', () => {
+    it('doubles the stake and deals exactly one card', () => {
+      const cards = shoe(5, 10, 6, 7, 10, 4);
+      const dealt = BlackjackEngine.deal(cards, 10);
+
+      expect(BlackjackEngine.getActionCost(dealt, 'double')).toBe(10);
+
+      const state = BlackjackEngine.applyAction(dealt, cards, 'double');
+      expect(state.playerHands[0].cards).toHaveLength(3);
+      expect(state.playerHands[0].bet).toBe(20);
+      expect(state.playerHands[0].outcome).toBe('win');
+      expect(state.totalBet).toBe(20);
+      expect(state.totalPayout).toBe(40);
+    });
+
+    it('is only offered on the first two cards', () => {
+      const cards = shoe(2, 10, 3, 7, 2);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'hit');
+
+      expect(BlackjackEngine.getAvailableActions(state)).toEqual(['hit', 'stand']);
+      expect(() => BlackjackEngine.applyAction(state, cards, 'double')).toThrow(BlackjackError);
+    });
+  });
+
+  describe('split', () => {
+    it('plays each hand in turn with its own stake', () => {
+      const cards = shoe(8, 10, 8, 7, 3, 10, 10);
+      let state = BlackjackEngine.deal(cards, 10);
+
+      state = BlackjackEngine.applyAction(state, cards, 'split');
+      expect(state.playerHands).toHaveLength(2);
+      expect(state.totalBet).toBe(20);
+      expect(state.activeHand).toBe(0);
+
+      // 8 + 3 + 10 is 21 and moves play on to the second hand
+      state = BlackjackEngine.applyAction(state, cards, 'hit');
+      expect(state.activeHand).toBe(1);
+
+      state = BlackjackEngine.applyAction(state, cards, 'stand');
+      expect(state.playerHands.map(hand => hand.outcome)).toEqual(['win', 'win']);
+      expect(state.totalPayout).toBe(40);
+    });
+
+    it('gives split aces one card each, and 21 on a split hand is no blackjack', () => {
+      const cards = shoe(1, 10, 1, 7, 13, 9);
+      const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'split');
+
+      expect(state.phase).toBe('finished');
+      expect(state.playerHands.map(hand => hand.cards.length)).toEqual([2, 2]);
+      expect(state.playerHands.map(hand => hand.outcome)).toEqual(['win', 'win']);
+      expect(state.totalPayout).toBe(40);
+    });
+
+    it('splits tens of different ranks but no more than four hands', () => {
+      const cards = shoe(10, 9, 13, 7, 12, 11, 10, 2, 3, 4);
+      let state = BlackjackEngine.deal(cards, 10);
+
+      state = BlackjackEngine.applyAction(state, cards, 'split');
+      state = BlackjackEngine.applyAction(state, cards, 'split');
+      state = BlackjackEngine.applyAction(state, cards, 'split');
+
+      expect(state.playerHands).toHaveLength(4);
+      expect(BlackjackEngine.getAvailableActions(state)).not.toContain('split');
+      expect(BlackjackEngine.getAvailableActions(state)).not.toContain('surrender');
+    });
+  });
+
+  it('returns half the stake on surrender without the dealer drawing', () => {
+    const cards = shoe(10, 10, 6, 6, 5);
+    const state = BlackjackEngine.applyAction(BlackjackEngine.deal(cards, 10), cards, 'surrender');
+
+    expect(state.playerHands[0].outcome).toBe('surrender');
+    expect(state.dealerCards).toHaveLength(2);
+    expect(state.totalPayout).toBe(5);
+  });
+
+  it('hides the hole card until the round is over', () => {
+    const cards = shoe(10, 10, 6, 7, 10);
+    const dealt = BlackjackEngine.deal(cards, 10);
+
+    expect(BlackjackEngine.getPublicState(dealt).dealerCards).toHaveLength(1);
+    expect(BlackjackEngine.getPublicState(dealt).dealerHiddenCards).toBe(1);
+
+    const finished = BlackjackEngine.applyAction(dealt, cards, 'stand');
+    expect(BlackjackEngine.getPublicState(finished).dealerCards).toHaveLength(2);
+    expect(BlackjackEngine.getPublicState(finished).availableActions).toEqual([]);
+  });
+
+  it('replays a recorded round to the same result', () => {
+    const serverSeed = 'b'.repeat(64);
+    const cards = BlackjackEngine.createShoe(serverSeed, 'client', 4);
+    let state = BlackjackEngine.deal(cards, 10);
+    const actions = [];
+    while (state.phase !== 'finished') {
+      const action = state.phase === 'insurance' ? 'decline_insurance' : 'stand';
+      actions.push(action);
+      state = BlackjackEngine.applyAction(state, cards, action);
+    }
+
+    const replayed = BlackjackEngine.replay(serverSeed, 'client', 4, 10, actions);
+    expect(replayed.result).toEqual(BlackjackEngine.getSummary(state));
+    expect(replayed.winAmount).toBe(state.totalPayout);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { BlackjackService } from '../blackjackService';
+import { BlackjackError } from '../blackjackEngine';
+import { ProvablyFairEngine } from '../gameEngine';
+import { SeedService } from '../seedService';
+import { WalletError, WalletService } from '../walletService';
+import { SeedRow, seedTable } from './seedTable';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+jest.mock('../walletService', () => {
+  const actual: any = jest.requireActual('../walletService');
+  return { ...actual, WalletService: { apply: jest.fn() } };
+});
+
+const USER = 7;
+const apply = WalletService.apply as jest.MockedFunction<typeof WalletService.apply>;
+
+// Lets a test hold a transaction open at a chosen statement
+function gate(): { wait: () => Promise<void>; open: () => void } {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => { open = resolve; });
+  return { wait: () => opened, open };
+}
+
+const ticks = async (count = 20) => {
+  for (let i = 0; i < count; i++) await Promise.resolve();
+};
+
+describe('BlackjackService', () => {
+  let seeds: SeedRow[];
+  let rounds: any[];
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    seeds = seedTable(mockDb);
+    rounds = [];
+
+    let seedCount = 0;
+    jest.spyOn(ProvablyFairEngine, 'generateServerSeed').mockImplementation(() => `server-seed-${++seedCount}`);
+    jest.spyOn(ProvablyFairEngine, 'generateClientSeed').mockReturnValue('client-seed');
+    apply.mockReset();
+
+    mockDb
+      .on(/^SELECT \* FROM blackjack_rounds WHERE user_id = \? AND status = 'active'$/, ([userId]) =>
+        rounds.filter(round => round.user_id === userId && round.status === 'active'))
+      .on(/^SELECT id FROM blackjack_rounds WHERE user_id = \? AND status = 'active' FOR UPDATE$/, ([userId]) =>
+        rounds.filter(round => round.user_id === userId && round.status === 'active'))
+      .on(/^SELECT \* FROM blackjack_rounds WHERE id = \? AND user_id = \?$/, ([id]) =>
+        rounds.filter(round => round.id === id))
+      .on(/^INSERT INTO blackjack_rounds/, ([userId, gameId, seedId, serverSeed, clientSeed, nonce, baseBet, totalBet, state]) => {
+        const id = rounds.length + 1;
+        rounds.push({
+          id, user_id: userId, game_id: gameId, seed_id: seedId, server_seed: serverSeed, client_seed: clientSeed,
+          nonce, base_bet: baseBet, total_bet: totalBet, state, status: 'active', bet_id: null
+        });
+        return { insertId: id };
+      })
+      .on(/FROM games WHERE type = 'blackjack'/, () => [{ id: 3, name: 'Blackjack', min_bet: '1.00', max_bet: '500.00' }])
+      .on(/^SELECT balance FROM users WHERE id = \? AND is_active = TRUE$/, () => [{ balance: '100.00' }]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('seed rotation during a deal', () => {
+    const rotate = (check = (connection: any) => BlackjackService.assertNoActiveRound(connection, USER)) =>
+      SeedService.rotateSeed(USER, undefined, check);
+
+    it('waits for the deal to store its round, then refuses to reveal the shoe', async () => {
+      const stake = gate();
+      apply.mockImplementation(async () => {
+        await stake.wait();
+        return { balance: 90 } as any;
+      });
+
+      const deal = BlackjackService.startRound(USER, 10);
+      while (!mockDb.isLocked(`user_seeds:${USER}`)) await ticks(1);
+
+      let settled = false;
+      const rotation = rotate().finally(() => { settled = true; });
+      await ticks();
+      expect(settled).toBe(false);
+
+      stake.open();
+      const round = await deal;
+
+      await expect(rotation).rejects.toThrow(new BlackjackError('Finish your blackjack round before rotating seeds'));
+      expect(round.status).toBe('active');
+      expect(seeds.filter(seed => seed.is_active).map(seed => seed.id)).toEqual([rounds[0].seed_id]);
+    });
+
+    it('deals from the new pair when the rotation got there first', async () => {
+      apply.mockResolvedValue({ balance: 90 } as any);
+      await SeedService.getActiveSeed(USER);
+
+      const check = gate();
+      const rotation = rotate(async (connection) => {
+        await check.wait();
+        await BlackjackService.assertNoActiveRound(connection, USER);
+      });
+      while (!mockDb.isLocked(`user_seeds:${USER}`)) await ticks(1);
+
+      const deal = BlackjackService.startRound(USER, 10);
+      await ticks();
+      expect(rounds).toHaveLength(0);
+
+      check.open();
+      const { previous, active } = await rotation;
+      const round = await deal;
+
+      expect(rounds[0].seed_id).toBe(active.id);
+      expect(rounds[0].server_seed).not.toBe(previous.serverSeed);
+      expect(round.provablyFair).toEqual({ serverSeedHash: active.serverSeedHash, clientSeed: 'client-seed', nonce: 0 });
+    });
+  });
+
+  describe('stakes the wallet refuses', () => {
+    it('keeps the wallet\'s status, so a limit breach stays a 403', async () => {
+      apply.mockRejectedValue(new WalletError('Your daily loss limit has been reached', 403));
+
+      const error: any = await BlackjackService.startRound(USER, 10).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(BlackjackError);
+      expect(error.message).toBe('Your daily loss limit has been reached');
+      expect(error.status).toBe(403);
+    });
+
+    it('keeps a 400 for a balance that ran short', async () => {
+      apply.mockRejectedValue(new WalletError('Insufficient balance'));
+
+      const error: any = await BlackjackService.startRound(USER, 10).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(BlackjackError);
+      expect(error.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { CrashRoundSeed, CrashService, CrashSettlement } from '../crashService';
+import { WalletService } from '../walletService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+jest.mock('../walletService', () => {
+  const actual: any = jest.requireActual('../walletService');
+  return { ...actual, WalletService: { apply: jest.fn() } };
+});
+
+const apply = WalletService.apply as jest.MockedFunction<typeof WalletService.apply>;
+
+const ROUND: CrashRoundSeed = {
+  id: 11,
+  chainId: 1,
+  roundIndex: 4,
+  seed: 'round-seed',
+  seedHash: 'round-seed-hash',
+  salt: 'chain-salt',
+  crashPoint: 2
+};
+
+const BETS: CrashSettlement[] = [
+  { crashBetId: 1, userId: 5, betAmount: 10, cashedOutAt: 1.5 },
+  { crashBetId: 2, userId: 6, betAmount: 20, cashedOutAt: null }
+];
+
+describe('CrashService.settleRound', () => {
+  let round: { status: string };
+  let bets: Record<number, string>;
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    round = { status: 'running' };
+    bets = { 1: 'active', 2: 'active' };
+    apply.mockReset();
+    apply.mockResolvedValue({ balance: 0 } as any);
+
+    mockDb
+      .on(/FROM games WHERE type = 'crash'/, () => [{ id: 9, name: 'Crash' }])
+      .on(/^UPDATE crash_rounds SET status = 'crashed'/, () => {
+        if (!['betting', 'running'].includes(round.status)) return { affectedRows: 0 };
+        round.status = 'crashed';
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT status FROM crash_rounds WHERE id = \?$/, () => [{ status: round.status }])
+      .on(/^INSERT INTO bets/, () => ({ insertId: 100 }))
+      .on(/^UPDATE crash_bets SET status = \?/, ([status, , , , id]) => {
+        bets[id] = status;
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE users SET total_(won|lost)/, () => ({ affectedRows: 1 }))
+      .on(/^SELECT id, balance FROM users WHERE id IN/, (userIds) => userIds.map((id: number) => ({ id, balance: '50.00' })));
+  });
+
+  it('pays out the round and reports it settled', async () => {
+    const result = await CrashService.settleRound(ROUND, BETS);
+
+    expect(result.settled).toBe(true);
+    expect(result.balances).toEqual(new Map([[5, 50], [6, 50]]));
+    expect(bets).toEqual({ 1: 'cashed_out', 2: 'lost' });
+    expect(apply).toHaveBeenCalledTimes(1);
+    expect(apply.mock.calls[0][2]).toEqual([expect.objectContaining({ type: 'win', amount: 15 })]);
+  });
+
+  it('reports a round cancelled elsewhere as not settled, and pays nothing', async () => {
+    round.status = 'cancelled';
+    bets = { 1: 'refunded', 2: 'refunded' };
+
+    const result = await CrashService.settleRound(ROUND, BETS);
+
+    expect(result.settled).toBe(false);
+    expect(result.balances).toEqual(new Map([[5, 50], [6, 50]]));
+    expect(bets).toEqual({ 1: 'refunded', 2: 'refunded' });
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it('treats a retry of a round it already settled as settled, without paying twice', async () => {
+    await CrashService.settleRound(ROUND, BETS);
+    const retry = await CrashService.settleRound(ROUND, BETS);
+
+    expect(retry.settled).toBe(true);
+    expect(apply).toHaveBeenCalledTimes(1);
+  });
+});
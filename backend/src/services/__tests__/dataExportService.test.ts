@@ -0,0 +1,248 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { DataExportService, ExportError } from '../dataExportService';
+import { LeaderLease } from '../leaderLease';
+import { DevMailTransport, MailService } from '../mailService';
+import { TokenService } from '../tokenService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const USER = 7;
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+interface ExportRow {
+  id: number;
+  user_id: number;
+  status: string;
+  file_name: string | null;
+  file_size: number | null;
+  error: string | null;
+  requested_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+}
+
+// Entries of a zip archive by name, read through its central directory
+function readZip(filePath: string): Record<string, string> {
+  const zip = fs.readFileSync(filePath);
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries: Record<string, string> = {};
+
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const size = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const header = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const start = header + 30 + zip.readUInt16LE(header + 26) + zip.readUInt16LE(header + 28);
+    const data = zip.subarray(start, start + size);
+    entries[name] = (method === 8 ? zlib.inflateRawSync(data) : data).toString('utf8');
+
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+describe('DataExportService', () => {
+  let exportDir: string;
+  let exports: ExportRow[];
+  let outbox: DevMailTransport;
+
+  const row = (id: number) => exports.find(job => job.id === id)!;
+  const files = () => fs.readdirSync(exportDir);
+
+  // The job runs in the background after a request; wait until the queue is empty
+  const jobsDone = async () => {
+    for (let i = 0; i < 200 && exports.some(job => ['pending', 'processing'].includes(job.status)); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  };
+  const requestAndWait = async (userId = USER) => {
+    const requested = await DataExportService.requestExport(userId);
+    await jobsDone();
+    return requested;
+  };
+  const errorOf = (promise: Promise<unknown>) => promise.then(() => null, (caught: any) => caught);
+
+  beforeAll(() => {
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-export-test-'));
+    process.env.DATA_EXPORT_DIR = exportDir;
+  });
+
+  afterAll(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    exports = [];
+    fs.readdirSync(exportDir).forEach(name => fs.rmSync(path.join(exportDir, name)));
+    outbox = new DevMailTransport();
+    MailService.setTransport(outbox);
+    jest.spyOn(LeaderLease, 'isLeader').mockReturnValue(true);
+    jest.spyOn(TokenService, 'listSessions').mockResolvedValue([{ sessionId: 'session-1', userAgent: 'Firefox' }] as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mockDb
+      .on(/^SELECT status, requested_at FROM data_export_requests/, ([userId]) =>
+        exports
+          .filter(job => job.user_id === userId &&
+            (['pending', 'processing'].includes(job.status) || job.requested_at.getTime() > Date.now() - DAY))
+          .slice(-1)
+          .map(job => ({ status: job.status, requested_at: job.requested_at })))
+      .on(/^INSERT INTO data_export_requests/, ([userId]) => {
+        exports.push({
+          id: exports.length + 1, user_id: userId, status: 'pending', file_name: null, file_size: null,
+          error: null, requested_at: new Date(), completed_at: null, expires_at: null
+        });
+        return { insertId: exports.length };
+      })
+      .on(/^SELECT \* FROM data_export_requests WHERE id = \? AND user_id = \?$/, ([id, userId]) =>
+        exports.filter(job => job.id === id && job.user_id === userId).map(job => ({ ...job })))
+      .on(/^SELECT \* FROM data_export_requests WHERE id = \?$/, ([id]) => [{ ...row(id) }])
+      .on(/^SELECT \* FROM data_export_requests WHERE user_id = \?/, ([userId]) =>
+        exports.filter(job => job.user_id === userId).reverse().map(job => ({ ...job })))
+      .on(/^SELECT file_name FROM data_export_requests/, ([userId]) =>
+        exports.filter(job => job.user_id === userId && job.file_name).map(job => ({ file_name: job.file_name })))
+      .on(/^DELETE FROM data_export_requests WHERE user_id = \?$/, ([userId]) => {
+        exports = exports.filter(job => job.user_id !== userId);
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT id, file_name FROM data_export_requests WHERE status = 'completed' AND expires_at <= NOW\(\)$/, () =>
+        exports
+          .filter(job => job.status === 'completed' && job.expires_at!.getTime() <= Date.now())
+          .map(job => ({ id: job.id, file_name: job.file_name })))
+      .on(/^UPDATE data_export_requests SET status = 'expired'/, ([id]) => {
+        Object.assign(row(id), { status: 'expired', file_name: null });
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT id, user_id FROM data_export_requests WHERE status = 'pending'/, () =>
+        exports.filter(job => job.status === 'pending').slice(0, 1).map(job => ({ id: job.id, user_id: job.user_id })))
+      .on(/^UPDATE data_export_requests SET status = 'processing'/, ([id]) => {
+        const job = exports.find(candidate => candidate.id === id && candidate.status === 'pending');
+        if (job) job.status = 'processing';
+        return { affectedRows: job ? 1 : 0 };
+      })
+      .on(/^UPDATE data_export_requests SET status = 'completed'/, ([fileName, fileSize, id], _connection, statement) => {
+        const job = exports.find(candidate => candidate.id === id && candidate.status === 'processing');
+        if (job) {
+          Object.assign(job, {
+            status: 'completed', file_name: fileName, file_size: fileSize, completed_at: new Date(),
+            expires_at: new Date(Date.now() + Number(statement.match(/INTERVAL (\d+) DAY/)![1]) * DAY)
+          });
+        }
+        return { affectedRows: job ? 1 : 0 };
+      })
+      .on(/^UPDATE data_export_requests SET status = 'failed'/, ([error, id]) => {
+        Object.assign(row(id), { status: 'failed', error });
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT username, email FROM users WHERE id = \? AND is_active = TRUE$/, () =>
+        [{ username: 'player', email: 'player@example.com' }])
+      .on(/^SELECT id, username, email, .* FROM users WHERE id = \?$/, ([userId]) =>
+        [{ id: userId, username: 'player', email: 'player@example.com', balance: '100.00' }])
+      .on(/FROM transactions WHERE user_id = \? ORDER BY id$/, () => [
+        { id: 1, type: 'deposit', amount: '50.00', description: 'Card top-up, "welcome" offer', created_at: new Date(Date.UTC(2026, 0, 1)) },
+        { id: 2, type: 'bet', amount: '-5.00', description: null, created_at: new Date(Date.UTC(2026, 0, 2)) }
+      ])
+      .on(/^SELECT /, () => []);
+  });
+
+  afterEach(() => {
+    MailService.setTransport(null);
+    jest.restoreAllMocks();
+  });
+
+  it('builds an archive of data.json and a CSV per section, and emails the player', async () => {
+    const requested = await requestAndWait();
+
+    expect(requested.status).toBe('pending');
+    const [job] = await DataExportService.listExports(USER);
+    expect(job).toMatchObject({ id: requested.id, status: 'completed', error: null });
+    expect(new Date(job.expiresAt!).getTime() - new Date(job.completedAt!).getTime()).toBe(7 * DAY);
+
+    const { filePath, downloadName } = await DataExportService.getArchive(USER, requested.id);
+    expect(downloadName).toBe(`gamblefun-data-${job.completedAt!.slice(0, 10)}.zip`);
+    expect(fs.statSync(filePath).size).toBe(job.fileSize);
+
+    const archive = readZip(filePath);
+    const data = JSON.parse(archive['data.json']);
+    expect(data).toMatchObject({ userId: USER, profile: [{ id: USER, email: 'player@example.com' }], bets: [] });
+    expect(data.signed_in_devices).toEqual([{ sessionId: 'session-1', userAgent: 'Firefox' }]);
+    expect(archive['csv/transactions.csv']).toBe(
+      'id,type,amount,description,created_at\r\n' +
+      '1,deposit,50.00,"Card top-up, ""welcome"" offer",2026-01-01T00:00:00.000Z\r\n' +
+      '2,bet,-5.00,,2026-01-02T00:00:00.000Z\r\n'
+    );
+    expect(archive['csv/bets.csv']).toBe('');
+    expect(Object.keys(archive).filter(name => name.startsWith('csv/'))).toHaveLength(Object.keys(data).length - 2);
+
+    expect(outbox.sent).toEqual([expect.objectContaining({ to: 'player@example.com', subject: 'Your data export is ready' })]);
+  });
+
+  it('keeps one export in the queue at a time and allows one a day', async () => {
+    jest.spyOn(LeaderLease, 'isLeader').mockReturnValue(false);
+    await DataExportService.requestExport(USER);
+
+    const queued = await errorOf(DataExportService.requestExport(USER));
+    expect(queued).toBeInstanceOf(ExportError);
+    expect(queued.status).toBe(409);
+
+    Object.assign(exports[0], { status: 'completed', file_name: 'export.zip', completed_at: new Date(), expires_at: new Date(Date.now() + DAY) });
+    expect((await errorOf(DataExportService.requestExport(USER))).status).toBe(429);
+
+    exports[0].requested_at = new Date(Date.now() - DAY - HOUR);
+    await expect(DataExportService.requestExport(USER)).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('lets a failed export be requested again at once', async () => {
+    jest.spyOn(TokenService, 'listSessions').mockRejectedValue(new Error('Redis unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await requestAndWait();
+
+    expect(exports[0]).toMatchObject({ status: 'failed', error: 'The export could not be generated; please request it again' });
+    expect(files()).toEqual([]);
+    expect(outbox.sent).toHaveLength(0);
+    await expect(DataExportService.requestExport(USER)).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('stops serving an archive once it expires, and deletes it on the next run', async () => {
+    const { id } = await requestAndWait();
+    exports[0].expires_at = new Date(Date.now() - 1000);
+
+    expect((await errorOf(DataExportService.getArchive(USER, id))).status).toBe(410);
+
+    await requestAndWait(8);
+
+    expect(exports[0]).toMatchObject({ status: 'expired', file_name: null });
+    expect(files()).toEqual([exports[1].file_name]);
+  });
+
+  it('serves archives only to their owner, and only when ready', async () => {
+    jest.spyOn(LeaderLease, 'isLeader').mockReturnValue(false);
+    const { id } = await DataExportService.requestExport(USER);
+
+    expect((await errorOf(DataExportService.getArchive(8, id))).status).toBe(404);
+    expect((await errorOf(DataExportService.getArchive(USER, id))).status).toBe(409);
+  });
+
+  it('discards every archive and request of a user', async () => {
+    await requestAndWait();
+    await requestAndWait(8);
+
+    await DataExportService.discardExports(USER);
+
+    expect(exports.map(job => job.user_id)).toEqual([8]);
+    expect(files()).toEqual([exports[0].file_name]);
+  });
+});
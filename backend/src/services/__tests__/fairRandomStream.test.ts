@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { describe, expect, it, jest } from '@jest/globals';
+import { FairRandomStream } from '../gameEngine';
+
+const SERVER_SEED = 'a'.repeat(64);
+
+describe('FairRandomStream', () => {
+  it('reads bytes off HMAC-SHA256(serverSeed, "clientSeed:nonce:round")', () => {
+    const stream = new FairRandomStream(SERVER_SEED, 'client', 7);
+    const round0 = crypto.createHmac('sha256', SERVER_SEED).update('client:7:0').digest();
+    const round1 = crypto.createHmac('sha256', SERVER_SEED).update('client:7:1').digest();
+
+    const bytes = Array.from({ length: 40 }, () => stream.nextByte());
+
+    expect(bytes).toEqual([...round0, ...round1.subarray(0, 8)]);
+  });
+
+  it('is deterministic per seed pair and nonce', () => {
+    const draw = (nonce: number) => {
+      const stream = new FairRandomStream(SERVER_SEED, 'client', nonce);
+      return Array.from({ length: 10 }, () => stream.nextUint32());
+    };
+
+    expect(draw(1)).toEqual(draw(1));
+    expect(draw(1)).not.toEqual(draw(2));
+  });
+
+  it('keeps 32-bit draws unsigned', () => {
+    const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+    jest.spyOn(stream, 'nextByte').mockReturnValue(0xff);
+
+    expect(stream.nextUint32()).toBe(0xffffffff);
+  });
+
+  it('draws floats in [0, 1)', () => {
+    const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+    jest.spyOn(stream, 'nextUint32').mockReturnValue(0xffffffff);
+
+    const value = stream.nextFloat();
+    expect(value).toBeLessThan(1);
+    expect(value).toBeGreaterThan(0.999999);
+  });
+
+  describe('nextInt', () => {
+    it('rejects draws from the incomplete last block instead of folding them onto low values', () => {
+      // 2^32 % 3 = 1, so 0xffffffff is the one value that would bias the result
+      const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+      const draws = jest.spyOn(stream, 'nextUint32')
+        .mockReturnValueOnce(0xffffffff)
+        .mockReturnValueOnce(0xfffffffe);
+
+      expect(stream.nextInt(3)).toBe(0xfffffffe % 3);
+      expect(draws).toHaveBeenCalledTimes(2);
+    });
+
+    it('accepts every draw when the range divides 2^32', () => {
+      const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+      const draws = jest.spyOn(stream, 'nextUint32').mockReturnValue(0xffffffff);
+
+      expect(stream.nextInt(256)).toBe(255);
+      expect(draws).toHaveBeenCalledTimes(1);
+    });
+
+    it('stays within range', () => {
+      const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+      for (let i = 0; i < 1000; i++) {
+        const value = stream.nextInt(37);
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(37);
+      }
+    });
+
+    it.each([0, -1, 1.5, 0x100000001])('refuses a range of %p', max => {
+      const stream = new FairRandomStream(SERVER_SEED, 'client', 0);
+      expect(() => stream.nextInt(max)).toThrow('Invalid range');
+    });
+  });
+
+  it('shuffles into a permutation without touching the input', () => {
+    const cards = Array.from({ length: 52 }, (_, i) => i);
+    const shuffled = new FairRandomStream(SERVER_SEED, 'client', 3).shuffle(cards);
+
+    expect(cards).toEqual(Array.from({ length: 52 }, (_, i) => i));
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(cards);
+    expect(shuffled).not.toEqual(cards);
+    expect(new FairRandomStream(SERVER_SEED, 'client', 3).shuffle(cards)).toEqual(shuffled);
+  });
+});
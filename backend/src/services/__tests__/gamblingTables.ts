@@ -0,0 +1,124 @@
+/**
+ * responsible_gambling_limits, user_exclusions and transactions for service and route tests, on a
+ * FakeDatabase, with NOW() read from a clock the test moves
+ */
+
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+
+export interface Clock {
+  now: number; // ms
+}
+
+export interface LimitRow {
+  user_id: number;
+  limit_type: string;
+  period: string;
+  amount: string | null;
+  pending_amount: string | null;
+  pending_effective_at: Date | null;
+}
+
+export interface TransactionRow {
+  user_id: number;
+  type: string;
+  amount: number;
+  created_at: number; // ms
+}
+
+export interface ExclusionRow {
+  user_id: number;
+  exclusion_type: string;
+  starts_at: Date;
+  ends_at: Date | null;
+}
+
+export interface GamblingTables {
+  limits: LimitRow[];
+  exclusions: ExclusionRow[];
+  transactions: TransactionRow[];
+}
+
+const UNIT_MS: Record<string, number> = {
+  HOUR: 3600 * 1000,
+  DAY: 24 * 3600 * 1000,
+  MONTH: 30 * 24 * 3600 * 1000,
+  YEAR: 365 * 24 * 3600 * 1000
+};
+
+// Length of the first `INTERVAL n UNIT` in a statement
+export function intervalMs(statement: string): number {
+  const [, count, unit] = statement.match(/INTERVAL (\d+) (HOUR|DAY|MONTH|YEAR)/)!;
+  return Number(count) * UNIT_MS[unit];
+}
+
+const ORDER = ['deposit', 'wager', 'loss', 'session', 'day', 'week', 'month'];
+const decimal = (value: number | null) => (value === null ? null : value.toFixed(2));
+
+export function gamblingTables(db: FakeDatabase, clock: Clock): GamblingTables {
+  const limits: LimitRow[] = [];
+  const exclusions: ExclusionRow[] = [];
+  const transactions: TransactionRow[] = [];
+  const find = (userId: number, type: string, period: string) =>
+    limits.find(row => row.user_id === userId && row.limit_type === type && row.period === period);
+
+  db
+    .on(/^UPDATE responsible_gambling_limits SET amount = pending_amount/, ([userId]) => {
+      for (const row of limits) {
+        if (row.user_id === userId && row.pending_effective_at && row.pending_effective_at.getTime() <= clock.now) {
+          Object.assign(row, { amount: row.pending_amount, pending_amount: null, pending_effective_at: null });
+        }
+      }
+      return { affectedRows: 0 };
+    })
+    .on(/^SELECT limit_type, period, amount, pending_amount, pending_effective_at FROM responsible_gambling_limits/, ([userId]) =>
+      limits
+        .filter(row => row.user_id === userId)
+        .sort((a, b) => ORDER.indexOf(a.limit_type) - ORDER.indexOf(b.limit_type) || ORDER.indexOf(a.period) - ORDER.indexOf(b.period))
+        .map(row => ({ ...row })))
+    .on(/^DELETE FROM responsible_gambling_limits/, ([userId, type, period]) => {
+      const row = find(userId, type, period);
+      if (row) limits.splice(limits.indexOf(row), 1);
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(/^INSERT INTO responsible_gambling_limits \(user_id, limit_type, period, amount\) VALUES/, ([userId, type, period, amount]) => {
+      const row = find(userId, type, period);
+      const values = { amount: decimal(amount), pending_amount: null, pending_effective_at: null };
+      if (row) Object.assign(row, values);
+      else limits.push({ user_id: userId, limit_type: type, period, ...values });
+      return { affectedRows: 1 };
+    })
+    .on(/^INSERT INTO responsible_gambling_limits \(user_id, limit_type, period, amount, pending_amount/, ([userId, type, period, amount], _connection, statement) => {
+      const row = find(userId, type, period);
+      const pending = { pending_amount: decimal(amount), pending_effective_at: new Date(clock.now + intervalMs(statement)) };
+      if (row) Object.assign(row, pending);
+      else limits.push({ user_id: userId, limit_type: type, period, amount: null, ...pending });
+      return { affectedRows: 1 };
+    })
+    .on(/^SELECT exclusion_type, starts_at, ends_at FROM user_exclusions/, ([userId]) =>
+      exclusions
+        .filter(row => row.user_id === userId && row.starts_at.getTime() <= clock.now && (!row.ends_at || row.ends_at.getTime() > clock.now))
+        .sort((a, b) => (a.ends_at ? a.ends_at.getTime() : Infinity) - (b.ends_at ? b.ends_at.getTime() : Infinity))
+        .slice(-1)
+        .map(row => ({ ...row })))
+    .on(/^INSERT INTO user_exclusions/, ([userId, type], _connection, statement) => {
+      exclusions.push({
+        user_id: userId,
+        exclusion_type: type,
+        starts_at: new Date(clock.now),
+        ends_at: /DATE_ADD/.test(statement) ? new Date(clock.now + intervalMs(statement)) : null
+      });
+      return { insertId: exclusions.length };
+    })
+    .on(/FROM transactions WHERE user_id = \? AND created_at >= DATE_SUB\(NOW\(\), INTERVAL/, ([userId], _connection, statement) => {
+      const since = clock.now - intervalMs(statement);
+      const window = transactions.filter(row => row.user_id === userId && row.created_at >= since);
+      const sum = (types: string[]) => -window.filter(row => types.includes(row.type)).reduce((total, row) => total + row.amount, 0);
+      return [{
+        deposited: (-sum(['deposit'])).toFixed(2),
+        wagered: sum(['bet', 'buy_in']).toFixed(2),
+        lost: sum(['bet', 'win', 'refund', 'buy_in', 'cash_out']).toFixed(2)
+      }];
+    });
+
+  return { limits, exclusions, transactions };
+}
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { Server } from 'socket.io';
+
+// One Redis for every instance: the lease key, its holder and when it expires
+const mockRedis = {
+  holder: null as string | null,
+  expiresAt: 0,
+  down: false
+};
+
+jest.mock('../../config/redis', () => ({
+  getRedisClient: () => ({
+    set: async (_key: string, token: string, options: { PX: number }) => {
+      if (mockRedis.down) throw new Error('Redis down');
+      if (mockRedis.holder !== null && Date.now() < mockRedis.expiresAt) return null;
+      mockRedis.holder = token;
+      mockRedis.expiresAt = Date.now() + options.PX;
+      return 'OK';
+    },
+    eval: async (_script: string, { arguments: [token, ms] }: { arguments: string[] }) => {
+      if (mockRedis.down) throw new Error('Redis down');
+      if (mockRedis.holder !== token || Date.now() >= mockRedis.expiresAt) return 0;
+      mockRedis.expiresAt = Date.now() + Number(ms);
+      return 1;
+    }
+  })
+}));
+
+type LeaderLeaseModule = typeof import('../leaderLease');
+
+// A backend instance: its own copy of the module, joined to the others through a fake adapter
+interface Instance {
+  lease: LeaderLeaseModule['LeaderLease'];
+  module: LeaderLeaseModule;
+  listeners: Map<string, (...args: any[]) => void>;
+}
+
+let instances: Instance[] = [];
+
+function startInstance(): Instance {
+  let module!: LeaderLeaseModule;
+  jest.isolateModules(() => {
+    module = require('../leaderLease');
+  });
+
+  const listeners = new Map<string, (...args: any[]) => void>();
+  const instance: Instance = { lease: module.LeaderLease, module, listeners };
+  const io = {
+    on: (event: string, listener: (...args: any[]) => void) => listeners.set(event, listener),
+    serverSideEmit: (event: string, ...args: any[]) => {
+      const ack = args.pop();
+      const others = instances.filter(other => other !== instance);
+      Promise.all(others.map(other => new Promise(resolve => other.listeners.get(event)?.(...args, resolve))))
+        .then(replies => ack(null, replies));
+    }
+  } as unknown as Server;
+
+  module.LeaderLease.initialize(io);
+  instances.push(instance);
+  return instance;
+}
+
+// Let the campaign's Redis round trips and the role change tasks settle
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+class TestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TestError';
+  }
+}
+
+describe('LeaderLease', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRedis.holder = null;
+    mockRedis.expiresAt = 0;
+    mockRedis.down = false;
+    instances = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('elects the first instance to campaign and runs its elected tasks once', async () => {
+    const first = startInstance();
+    const second = startInstance();
+    const elected = jest.fn();
+    first.lease.onElected(elected);
+    second.lease.onElected(elected);
+
+    first.lease.start();
+    await settle();
+    second.lease.start();
+    await settle();
+
+    expect(first.lease.isLeader()).toBe(true);
+    expect(second.lease.isLeader()).toBe(false);
+    expect(elected).toHaveBeenCalledTimes(1);
+
+    // Renewals keep the same leader without electing it again
+    for (let i = 0; i < 6; i++) {
+      jest.advanceTimersByTime(5000);
+      await settle();
+    }
+    expect(first.lease.isLeader()).toBe(true);
+    expect(second.lease.isLeader()).toBe(false);
+    expect(elected).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands over once a dead leader\'s lease runs out', async () => {
+    const first = startInstance();
+    first.lease.start();
+    await settle();
+
+    // The leader dies: its token stays in Redis until the lease expires
+    jest.clearAllTimers();
+    instances = [];
+    const second = startInstance();
+    const elected = jest.fn();
+    second.lease.onElected(elected);
+    second.lease.start();
+    await settle();
+    expect(second.lease.isLeader()).toBe(false);
+
+    for (let i = 0; i < 3; i++) {
+      jest.advanceTimersByTime(5000);
+      await settle();
+    }
+    expect(second.lease.isLeader()).toBe(true);
+    expect(elected).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops leading and runs its demoted tasks when it cannot renew', async () => {
+    const leader = startInstance();
+    const demoted = jest.fn();
+    leader.lease.onDemoted(demoted);
+    leader.lease.start();
+    await settle();
+
+    mockRedis.down = true;
+    jest.advanceTimersByTime(10000);
+    await settle();
+    expect(leader.lease.isLeader()).toBe(true);
+    expect(demoted).not.toHaveBeenCalled();
+
+    // Not a moment past the lease
+    jest.advanceTimersByTime(4999);
+    expect(leader.lease.isLeader()).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(leader.lease.isLeader()).toBe(false);
+
+    await settle();
+    expect(demoted).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs its elected tasks again when it wins back a lease that ran out', async () => {
+    const leader = startInstance();
+    const elected = jest.fn();
+    const demoted = jest.fn();
+    leader.lease.onElected(elected);
+    leader.lease.onDemoted(demoted);
+    leader.lease.start();
+    await settle();
+
+    mockRedis.down = true;
+    jest.advanceTimersByTime(15000);
+    await settle();
+    mockRedis.down = false;
+    jest.advanceTimersByTime(5000);
+    await settle();
+
+    expect(leader.lease.isLeader()).toBe(true);
+    expect(demoted).toHaveBeenCalledTimes(1);
+    expect(elected).toHaveBeenCalledTimes(2);
+  });
+
+  describe('call', () => {
+    let leader: Instance;
+    let follower: Instance;
+    const handler = jest.fn(async (value: number) => {
+      if (value < 0) throw new TestError('Negative');
+      if (value === 0) throw new Error('Database down');
+      return value * 2;
+    });
+
+    beforeEach(async () => {
+      handler.mockClear();
+      leader = startInstance();
+      follower = startInstance();
+      for (const instance of [leader, follower]) {
+        instance.lease.handle('double', handler, [TestError]);
+      }
+      leader.lease.start();
+      await settle();
+      follower.lease.start();
+      await settle();
+    });
+
+    it('runs on the leader from either instance', async () => {
+      await expect(leader.lease.call('double', 2)).resolves.toBe(4);
+      await expect(follower.lease.call('double', 3)).resolves.toBe(6);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes the listed errors back to a follower as their own type', async () => {
+      const error = await follower.lease.call('double', -1).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(TestError);
+      expect(error.message).toBe('Negative');
+    });
+
+    it('hides other errors from a follower', async () => {
+      const error = await follower.lease.call('double', 0).catch(caught => caught);
+
+      expect(error).not.toBeInstanceOf(TestError);
+      expect(error.message).toBe('Request failed');
+    });
+
+    it('fails with a LeaderError while no instance is leading', async () => {
+      instances = instances.filter(instance => instance !== leader);
+
+      await expect(follower.lease.call('double', 1)).rejects.toBeInstanceOf(follower.module.LeaderError);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { LeaderLease } from '../leaderLease';
+import { PokerActionClock } from '../pokerActionClock';
+import { PokerEngineError, SeatState, TableEvent } from '../pokerTableEngine';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const TABLE = 5;
+const GAME = 40;
+const SECOND = 1000;
+
+interface Seat {
+  user_id: number;
+  seat_position: number;
+  time_bank_seconds: number | null;
+  consecutive_timeouts: number;
+  is_sitting_out: boolean;
+  sat_out_at: Date | null;
+}
+
+describe('PokerActionClock', () => {
+  const pokerManager = {
+    timeoutPlayer: jest.fn<(tableId: number, userId: number) => Promise<unknown>>(),
+    removeSittingOut: jest.fn<(tableId: number, userId: number) => Promise<boolean>>()
+  };
+
+  let table: {
+    action_time_seconds: number; time_bank_seconds: number; time_bank_refill_seconds: number;
+    sit_out_after_timeouts: number; sit_out_remove_minutes: number; tournament_id: number | null;
+  };
+  let game: { game_state: string; current_player_position: number; last_action_at: Date };
+  let seats: Seat[];
+
+  const seat = (userId: number) => seats.find(row => row.user_id === userId)!;
+  const bank = (row: Seat) => row.time_bank_seconds ?? table.time_bank_seconds;
+  const record = (events: object[]) =>
+    mockDb.withTransaction(connection => PokerActionClock.recordEvents(connection, TABLE, GAME, events as TableEvent[]));
+  const acted = (userId: number, timedOut = false) => ({ type: 'player_acted', userId, action: timedOut ? 'fold' : 'call', timedOut });
+  const dealtIn = (userId: number) => ({ type: 'player_seated', userId });
+  const tick = () => jest.advanceTimersByTimeAsync(SECOND);
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 15, 12), doNotFake: ['nextTick', 'queueMicrotask'] });
+    PokerActionClock.initialize(pokerManager as any);
+  });
+
+  afterAll(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    table = {
+      action_time_seconds: 20, time_bank_seconds: 60, time_bank_refill_seconds: 5,
+      sit_out_after_timeouts: 3, sit_out_remove_minutes: 10, tournament_id: null
+    };
+    game = { game_state: 'flop', current_player_position: 0, last_action_at: new Date(Date.now()) };
+    seats = [1, 2, -3].map((userId, position) => ({
+      user_id: userId, seat_position: position, time_bank_seconds: null, consecutive_timeouts: 0,
+      is_sitting_out: false, sat_out_at: null
+    }));
+    pokerManager.timeoutPlayer.mockReset().mockResolvedValue({});
+    pokerManager.removeSittingOut.mockReset().mockResolvedValue(true);
+    jest.spyOn(LeaderLease, 'isLeader').mockReturnValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mockDb
+      .on(/^UPDATE poker_seats ps JOIN poker_tables pt ON pt\.id = ps\.table_id SET ps\.time_bank_seconds = LEAST/, ([, userId]) => {
+        const row = seat(userId);
+        row.time_bank_seconds = Math.min(bank(row) + table.time_bank_refill_seconds, table.time_bank_seconds);
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE poker_seats ps .* SET ps\.time_bank_seconds = GREATEST/, ([, , userId]) => {
+        const row = seat(userId);
+        const elapsed = Math.floor((Date.now() - game.last_action_at.getTime()) / SECOND);
+        row.time_bank_seconds = Math.max(bank(row) - Math.max(elapsed - table.action_time_seconds, 0), 0);
+        row.consecutive_timeouts = 0;
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE poker_seats SET time_bank_seconds = 0, consecutive_timeouts = consecutive_timeouts \+ 1/, ([, userId]) => {
+        const row = seat(userId);
+        if (row.is_sitting_out) return { affectedRows: 0 };
+        Object.assign(row, { time_bank_seconds: 0, consecutive_timeouts: row.consecutive_timeouts + 1 });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE poker_seats ps JOIN poker_tables pt ON pt\.id = ps\.table_id SET ps\.is_sitting_out = true/, ([, userId]) => {
+        const row = seat(userId);
+        if (row.is_sitting_out || row.consecutive_timeouts < table.sit_out_after_timeouts) return { affectedRows: 0 };
+        Object.assign(row, { is_sitting_out: true, sat_out_at: new Date(Date.now()) });
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT pt\.action_time_seconds, COALESCE/, ([, userId]) =>
+        seats
+          .filter(row => row.user_id === userId)
+          .map(row => ({ action_time_seconds: table.action_time_seconds, time_bank: bank(row), is_sitting_out: row.is_sitting_out })))
+      .on(/^SELECT pg\.table_id, ps\.user_id FROM poker_games pg/, () => {
+        if (!['pre_flop', 'flop', 'turn', 'river'].includes(game.game_state)) return [];
+        const turn = seats.find(row => row.seat_position === game.current_player_position)!;
+        const deadline = game.last_action_at.getTime() + (table.action_time_seconds + bank(turn)) * SECOND;
+        return turn.is_sitting_out || Date.now() >= deadline ? [{ table_id: TABLE, user_id: turn.user_id }] : [];
+      })
+      .on(/^SELECT ps\.table_id, ps\.user_id FROM poker_seats ps/, () =>
+        seats
+          .filter(row => row.is_sitting_out && row.user_id > 0 && table.tournament_id === null &&
+            row.sat_out_at!.getTime() < Date.now() - table.sit_out_remove_minutes * 60 * SECOND)
+          .map(row => ({ table_id: TABLE, user_id: row.user_id })));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordEvents', () => {
+    it('takes only the time beyond the action time out of the bank', async () => {
+      seat(1).consecutive_timeouts = 2;
+      jest.setSystemTime(game.last_action_at.getTime() + 35 * SECOND);
+
+      await record([acted(1)]);
+      expect(seat(1)).toMatchObject({ time_bank_seconds: 45, consecutive_timeouts: 0 });
+
+      game.last_action_at = new Date(Date.now());
+      jest.setSystemTime(Date.now() + 12 * SECOND);
+      await record([acted(1)]);
+      expect(seat(1).time_bank_seconds).toBe(45);
+    });
+
+    it('refills the bank with each hand dealt in, up to the table\'s bank', async () => {
+      seat(1).time_bank_seconds = 10;
+      seat(2).time_bank_seconds = 58;
+
+      await record([dealtIn(1), dealtIn(2)]);
+
+      expect(seat(1).time_bank_seconds).toBe(15);
+      expect(seat(2).time_bank_seconds).toBe(60);
+    });
+
+    it('empties the bank on a timeout and sits the player out after too many in a row', async () => {
+      await record([acted(1, true)]);
+      await record([acted(1, true)]);
+      expect(seat(1)).toMatchObject({ time_bank_seconds: 0, consecutive_timeouts: 2, is_sitting_out: false });
+
+      await record([acted(1, true)]);
+      expect(seat(1)).toMatchObject({ consecutive_timeouts: 3, is_sitting_out: true, sat_out_at: new Date(Date.now()) });
+
+      // Acted for while away, which is not another timeout
+      await record([acted(1, true)]);
+      expect(seat(1).consecutive_timeouts).toBe(3);
+    });
+
+    it('starts the count again after an action in time', async () => {
+      await record([acted(1, true)]);
+      await record([acted(1, true)]);
+      await record([acted(1)]);
+      await record([acted(1, true)]);
+
+      expect(seat(1)).toMatchObject({ consecutive_timeouts: 1, is_sitting_out: false });
+    });
+  });
+
+  describe('clockFor', () => {
+    it('gives the action time and what is left of the bank', async () => {
+      seat(2).time_bank_seconds = 33;
+
+      await expect(PokerActionClock.clockFor(TABLE, { userId: 2, seatPosition: 1 } as SeatState)).resolves.toEqual({
+        userId: 2, seatPosition: 1, actionTime: 20, timeBank: 33, startedAt: Date.now()
+      });
+    });
+
+    it('runs no clock for a player sitting out', async () => {
+      seat(2).is_sitting_out = true;
+
+      await expect(PokerActionClock.clockFor(TABLE, { userId: 2, seatPosition: 1 } as SeatState)).resolves.toBeNull();
+    });
+  });
+
+  describe('tick', () => {
+    it('acts for the player to act once the action time and the bank have both run out', async () => {
+      // Each tick moves the clock on a second; the deadline is 20s of action time plus the 60s bank
+      jest.setSystemTime(game.last_action_at.getTime() + 78 * SECOND);
+
+      await tick();
+      expect(pokerManager.timeoutPlayer).not.toHaveBeenCalled();
+
+      await tick();
+      expect(pokerManager.timeoutPlayer).toHaveBeenCalledWith(TABLE, 1);
+    });
+
+    it('acts at once for a player sitting out, and not between hands', async () => {
+      Object.assign(seat(1), { is_sitting_out: true, sat_out_at: new Date(Date.now()) });
+      game.game_state = 'waiting';
+
+      await tick();
+      expect(pokerManager.timeoutPlayer).not.toHaveBeenCalled();
+
+      game.game_state = 'pre_flop';
+      await tick();
+      expect(pokerManager.timeoutPlayer).toHaveBeenCalledWith(TABLE, 1);
+    });
+
+    it('lets it go when the player acted in the meantime', async () => {
+      seat(1).is_sitting_out = true;
+      seat(1).sat_out_at = new Date(Date.now());
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      pokerManager.timeoutPlayer.mockRejectedValueOnce(new PokerEngineError('Not your turn'));
+      await tick();
+      expect(error).not.toHaveBeenCalled();
+
+      pokerManager.timeoutPlayer.mockRejectedValueOnce(new Error('Deadlock'));
+      await tick();
+      expect(error).toHaveBeenCalledWith('Error timing out player 1 at table 5:', expect.any(Error));
+    });
+
+    it('cashes out a cash-table seat left sitting out too long', async () => {
+      game.game_state = 'waiting';
+      Object.assign(seat(2), { is_sitting_out: true, sat_out_at: new Date(Date.now() - 10 * 60 * SECOND) });
+      Object.assign(seat(-3), { is_sitting_out: true, sat_out_at: new Date(Date.now() - 60 * 60 * SECOND) });
+
+      await tick();
+      expect(pokerManager.removeSittingOut).toHaveBeenCalledTimes(1);
+      expect(pokerManager.removeSittingOut).toHaveBeenCalledWith(TABLE, 2);
+    });
+
+    it('keeps a tournament seat however long it sits out', async () => {
+      game.game_state = 'waiting';
+      table.tournament_id = 9;
+      Object.assign(seat(2), { is_sitting_out: true, sat_out_at: new Date(Date.now() - 60 * 60 * SECOND) });
+
+      await tick();
+      expect(pokerManager.removeSittingOut).not.toHaveBeenCalled();
+    });
+  });
+});
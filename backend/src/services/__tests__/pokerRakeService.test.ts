@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { PokerRakeService, splitRake } from '../pokerRakeService';
+import { TableState } from '../pokerTableEngine';
+
+const cashTable = {
+  tournament_id: null,
+  rake_percentage: '0.0500',
+  max_rake: '5.00',
+  rake_caps: null,
+  no_flop_no_drop: 1
+};
+
+const withBets = (bets: Record<number, number>) => ({
+  seats: Object.entries(bets).map(([userId, totalBetThisHand]) => ({ userId: Number(userId), totalBetThisHand }))
+}) as unknown as TableState;
+
+describe('PokerRakeService', () => {
+  describe('ruleFor', () => {
+    it('uses the table\'s percentage and flat cap', () => {
+      expect(PokerRakeService.ruleFor(cashTable, 6)).toEqual({ percentage: 0.05, cap: 5, noFlopNoDrop: true });
+    });
+
+    it('picks the cap of the largest player count reached', () => {
+      const table = {
+        ...cashTable,
+        rake_caps: JSON.stringify([{ minPlayers: 5, cap: 3 }, { minPlayers: 2, cap: 1 }, { minPlayers: 7, cap: 4 }])
+      };
+
+      expect(PokerRakeService.ruleFor(table, 2)?.cap).toBe(1);
+      expect(PokerRakeService.ruleFor(table, 6)?.cap).toBe(3);
+      expect(PokerRakeService.ruleFor(table, 9)?.cap).toBe(4);
+    });
+
+    it('falls back to the flat cap below the smallest tier', () => {
+      const table = { ...cashTable, rake_caps: [{ minPlayers: 4, cap: 2 }] };
+
+      expect(PokerRakeService.ruleFor(table, 3)?.cap).toBe(5);
+    });
+
+    it('takes no rake at tournament tables or at a zero percentage', () => {
+      expect(PokerRakeService.ruleFor({ ...cashTable, tournament_id: 4 }, 6)).toBeNull();
+      expect(PokerRakeService.ruleFor({ ...cashTable, rake_percentage: '0.0000' }, 6)).toBeNull();
+    });
+  });
+
+  describe('splitRake', () => {
+    it('splits the rake by what each player put in, short of an uncalled bet', () => {
+      // Player 2's last 50 was never called
+      expect(splitRake(withBets({ 1: 20, 2: 100, 3: 50 }), 3)).toEqual([
+        { userId: 2, contributed: 50, rake: 1.25 },
+        { userId: 3, contributed: 50, rake: 1.25 },
+        { userId: 1, contributed: 20, rake: 0.5 }
+      ]);
+    });
+
+    it('gives leftover cents to the biggest contributors', () => {
+      const shares = splitRake(withBets({ 1: 20, 2: 50, 3: 50 }), 1);
+
+      expect(shares.map(share => share.rake)).toEqual([0.42, 0.42, 0.16]);
+      expect(shares.reduce((sum, share) => sum + Math.round(share.rake * 100), 0)).toBe(100);
+    });
+
+    it('leaves out players who put nothing in', () => {
+      expect(splitRake(withBets({ 1: 10, 2: 10, 3: 0 }), 1).map(share => share.userId)).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { HAND_RANKINGS } from '../pokerEngine';
+import { PokerStatsService } from '../pokerStatsService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const ALICE = 1;
+const BOB = 2;
+const BOT = -1; // AI players have negative ids and no stats
+
+const COUNTERS = [
+  'hands_won', 'total_winnings', 'total_losses', 'biggest_pot_won', 'vpip_hands', 'pfr_hands',
+  'aggressive_actions', 'passive_actions', 'showdowns', 'showdowns_won', 'big_blinds_won'
+];
+
+interface HandOptions {
+  bigBlind?: number;
+  tournamentId?: number | null;
+  startedAt?: Date;
+}
+
+// Event log builders; only the fields the stats read
+const seated = (...userIds: number[]) => userIds.map((userId, seatPosition) => ({ type: 'player_seated', userId, seatPosition, chips: 1000 }));
+const blind = (userId: number, amount: number) => ({ type: 'blind_posted', userId, amount });
+const acted = (userId: number, round: string, action: string, amount: number, currentBet: number) =>
+  ({ type: 'player_acted', userId, round, action, amount, currentBet });
+const nextStreet = { type: 'round_advanced' };
+const showdown = (...results: Array<[number, number]>) =>
+  ({ type: 'showdown', results: results.map(([userId, rank]) => ({ userId, hand: { rank } })) });
+const complete = (...winners: Array<[number, number]>) =>
+  ({ type: 'hand_complete', winners: winners.map(([userId, amount]) => ({ userId, amount })) });
+
+describe('PokerStatsService', () => {
+  let hands: Map<number, { options: Required<HandOptions>; events: object[] }>;
+  let handRows: any[];
+  let totals: Map<number, Record<string, number>>;
+
+  const record = (handId: number, events: object[], options: HandOptions = {}) => {
+    hands.set(handId, {
+      options: { bigBlind: 2, tournamentId: null, startedAt: new Date(Date.UTC(2026, 0, 15)), ...options },
+      events
+    });
+    return mockDb.withTransaction(connection => PokerStatsService.recordHand(connection, handId));
+  };
+
+  // Alice limps from the small blind and Bob checks his option; Bob raises Alice's flop bet and she
+  // calls, then folds the turn
+  const limpedPot = (handId: number, options?: HandOptions) => record(handId, [
+    ...seated(ALICE, BOB, BOT),
+    blind(ALICE, 1), blind(BOB, 2),
+    acted(BOT, 'pre_flop', 'fold', 0, 2),
+    acted(ALICE, 'pre_flop', 'call', 1, 2),
+    acted(BOB, 'pre_flop', 'check', 0, 2),
+    nextStreet,
+    acted(ALICE, 'flop', 'bet', 4, 4),
+    acted(BOB, 'flop', 'raise', 12, 12),
+    acted(ALICE, 'flop', 'call', 8, 12),
+    nextStreet,
+    acted(ALICE, 'turn', 'fold', 0, 0),
+    complete([BOB, 28])
+  ], options);
+
+  // Alice moves in over the blinds and Bob calls all-in short; Alice's flush beats Bob's pair
+  const allInPot = (handId: number, options?: HandOptions) => record(handId, [
+    ...seated(ALICE, BOB),
+    blind(ALICE, 1), blind(BOB, 2),
+    acted(ALICE, 'pre_flop', 'all_in', 49, 50),
+    acted(BOB, 'pre_flop', 'all_in', 28, 50),
+    showdown([ALICE, HAND_RANKINGS.FLUSH], [BOB, HAND_RANKINGS.PAIR]),
+    complete([ALICE, 80])
+  ], options);
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    hands = new Map();
+    handRows = [];
+    totals = new Map();
+
+    mockDb
+      .on(/^SELECT h\.table_id, h\.small_blind, h\.big_blind, h\.started_at, pt\.tournament_id FROM poker_hands h/, ([handId]) => {
+        const hand = hands.get(handId);
+        return hand ? [{
+          table_id: 5, small_blind: (hand.options.bigBlind / 2).toFixed(2), big_blind: hand.options.bigBlind.toFixed(2),
+          started_at: hand.options.startedAt, tournament_id: hand.options.tournamentId
+        }] : [];
+      })
+      .on(/^SELECT payload FROM poker_hand_events WHERE hand_id = \? ORDER BY sequence$/, ([handId]) =>
+        hands.get(handId)!.events.map(event => ({ payload: JSON.stringify(event) })))
+      .on(/^INSERT IGNORE INTO poker_hand_player_stats/, params => {
+        const [handId, userId, , , bigBlind, isTournament, vpip, pfr, aggressive, passive, showdowns, showdownsWon,
+          amountWon, netResult, bigBlindsWon, rank, playedAt] = params;
+        if (handRows.some(row => row.hand_id === handId && row.user_id === userId)) return { affectedRows: 0 };
+        handRows.push({
+          hand_id: handId, user_id: userId, big_blind: Number(bigBlind), is_tournament: isTournament, vpip, pfr,
+          aggressive_actions: aggressive, passive_actions: passive, went_to_showdown: showdowns, won_at_showdown: showdownsWon,
+          amount_won: amountWon, net_result: netResult, big_blinds_won: bigBlindsWon, showdown_hand_rank: rank, played_at: playedAt
+        });
+        return { affectedRows: 1 };
+      })
+      .on(/^INSERT IGNORE INTO poker_player_stats \(user_id\) VALUES \(\?\)$/, ([userId]) => {
+        if (!totals.has(userId)) totals.set(userId, { user_id: userId, hands_played: 0 });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE poker_player_stats SET hands_played = hands_played \+ 1/, (params, _connection, statement) => {
+        const row = totals.get(params[params.length - 1])!;
+        row.hands_played++;
+        COUNTERS.forEach((column, index) => {
+          row[column] = column === 'biggest_pot_won'
+            ? Math.max(row[column] || 0, params[index])
+            : (row[column] || 0) + Number(params[index]);
+        });
+        const rankColumn = statement.match(/, (\w+) = \1 \+ 1/)?.[1];
+        if (rankColumn) row[rankColumn] = (row[rankColumn] || 0) + 1;
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT \* FROM poker_player_stats WHERE user_id = \?$/, ([userId]) => (totals.has(userId) ? [{ ...totals.get(userId) }] : []))
+      .on(/FROM poker_hand_player_stats WHERE/, (params, _connection, statement) => {
+        const [userId, ...values] = params;
+        const bigBlind = /big_blind = \?/.test(statement) ? values.shift() : undefined;
+        const from = /played_at >= \?/.test(statement) ? values.shift() : undefined;
+        const to = /played_at < \?/.test(statement) ? values.shift() : undefined;
+        const rows = handRows.filter(row => row.user_id === userId &&
+          (bigBlind === undefined || row.big_blind === bigBlind) &&
+          (from === undefined || row.played_at >= from) &&
+          (to === undefined || row.played_at < to));
+
+        const sum = (value: (row: any) => number) => rows.reduce((total, row) => total + value(row), 0);
+        const ranks = Object.fromEntries([...statement.matchAll(/SUM\(showdown_hand_rank = (\d+)\) AS (\w+)/g)]
+          .map(([, rank, column]) => [column, sum(row => Number(row.showdown_hand_rank === Number(rank)))]));
+        return [{
+          hands_played: rows.length,
+          hands_won: sum(row => Number(row.net_result > 0)),
+          vpip_hands: sum(row => Number(row.vpip)),
+          pfr_hands: sum(row => Number(row.pfr)),
+          aggressive_actions: sum(row => row.aggressive_actions),
+          passive_actions: sum(row => row.passive_actions),
+          showdowns: sum(row => Number(row.went_to_showdown)),
+          showdowns_won: sum(row => Number(row.won_at_showdown)),
+          big_blinds_won: sum(row => row.big_blinds_won),
+          net_result: sum(row => (row.is_tournament ? 0 : row.net_result)),
+          ...ranks
+        }];
+      });
+  });
+
+  describe('recordHand', () => {
+    it('counts a limp as VPIP, a raise after the flop as aggression but not PFR, and a checked option as neither', async () => {
+      await limpedPot(1);
+
+      const alice = await PokerStatsService.getStats(ALICE);
+      const bob = await PokerStatsService.getStats(BOB);
+
+      expect(alice).toMatchObject({ handsPlayed: 1, handsWon: 0, vpip: 1, pfr: 0, aggressionFactor: 0.5, netResult: -14, bbPer100: -700 });
+      expect(bob).toMatchObject({ handsPlayed: 1, handsWon: 1, vpip: 0, pfr: 0, aggressionFactor: 1, netResult: 14, bbPer100: 700 });
+      expect(bob.wentToShowdown).toBe(0);
+      expect(handRows.map(row => row.user_id)).toEqual([ALICE, BOB]);
+    });
+
+    it('tells an all-in raise from an all-in call, and counts shown-down hands by rank', async () => {
+      await allInPot(1);
+
+      const alice = await PokerStatsService.getStats(ALICE);
+      const bob = await PokerStatsService.getStats(BOB);
+
+      expect(alice).toMatchObject({ vpip: 1, pfr: 1, aggressionFactor: 1, wentToShowdown: 1, showdownWinRate: 1, netResult: 30 });
+      expect(bob).toMatchObject({ vpip: 1, pfr: 0, aggressionFactor: 0, wentToShowdown: 1, showdownWinRate: 0, netResult: -30 });
+      expect(alice.handRanks).toMatchObject({ flushes: 1, pairs: 0 });
+      expect(bob.handRanks).toMatchObject({ flushes: 0, pairs: 1 });
+    });
+
+    it('records a hand once however often it is called', async () => {
+      await limpedPot(1);
+      await limpedPot(1);
+
+      await expect(PokerStatsService.getStats(ALICE)).resolves.toMatchObject({ handsPlayed: 1, netResult: -14 });
+    });
+
+    it('records nothing for a hand that never completed', async () => {
+      await record(1, [...seated(ALICE, BOB), blind(ALICE, 1), blind(BOB, 2)]);
+
+      expect(handRows).toEqual([]);
+      await expect(PokerStatsService.getStats(ALICE)).resolves.toMatchObject({ handsPlayed: 0, vpip: 0, bbPer100: 0 });
+    });
+
+    it('keeps tournament chips out of the money result, but not out of bb/100', async () => {
+      await allInPot(1, { tournamentId: 3, bigBlind: 20 });
+
+      await expect(PokerStatsService.getStats(ALICE)).resolves.toMatchObject({ handsPlayed: 1, netResult: 0, bbPer100: 150 });
+    });
+  });
+
+  describe('getStats', () => {
+    beforeEach(async () => {
+      await limpedPot(1, { bigBlind: 2, startedAt: new Date(Date.UTC(2026, 0, 10)) });
+      await allInPot(2, { bigBlind: 2, startedAt: new Date(Date.UTC(2026, 0, 20)) });
+      await allInPot(3, { bigBlind: 10, startedAt: new Date(Date.UTC(2026, 1, 5)) });
+      await limpedPot(4, { bigBlind: 10, tournamentId: 3, startedAt: new Date(Date.UTC(2026, 1, 6)) });
+    });
+
+    it('sums every hand played', async () => {
+      const alice = await PokerStatsService.getStats(ALICE);
+
+      // Hands 1-4 netted -7, +15, +3 and -1.4 big blinds
+      expect(alice).toMatchObject({
+        handsPlayed: 4, handsWon: 2, vpip: 1, pfr: 0.5, aggressionFactor: 1, wentToShowdown: 0.5,
+        showdownWinRate: 1, bbPer100: 240, netResult: 46
+      });
+    });
+
+    it('filters by big blind', async () => {
+      await expect(PokerStatsService.getStats(ALICE, { bigBlind: 10 })).resolves.toMatchObject({
+        handsPlayed: 2, pfr: 0.5, netResult: 30, bbPer100: 80
+      });
+    });
+
+    it('filters by date range, from inclusive and to exclusive', async () => {
+      const january = await PokerStatsService.getStats(BOB, {
+        from: new Date(Date.UTC(2026, 0, 10)),
+        to: new Date(Date.UTC(2026, 0, 20))
+      });
+
+      expect(january).toMatchObject({ handsPlayed: 1, handsWon: 1, netResult: 14, bbPer100: 700 });
+    });
+  });
+
+  describe('getHud', () => {
+    it('gives the seated players their running numbers', async () => {
+      await limpedPot(1);
+      await allInPot(2);
+      mockDb.on(/^SELECT pps\.user_id, pps\.hands_played/, () => [...totals.values()]);
+
+      await expect(PokerStatsService.getHud(5)).resolves.toEqual([
+        { userId: ALICE, hands: 2, vpip: 1, pfr: 0.5, aggressionFactor: 1 },
+        { userId: BOB, hands: 2, vpip: 0.5, pfr: 0, aggressionFactor: 1 }
+      ]);
+    });
+  });
+});
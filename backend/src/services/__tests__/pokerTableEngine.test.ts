@@ -0,0 +1,431 @@
+import { describe, expect, it } from '@jest/globals';
+import { Card } from '../pokerEngine';
+import {
+  PokerEngineError,
+  PlayerActionType,
+  RakeRule,
+  SeatedPlayer,
+  TableEvent,
+  TableState,
+  applyAction,
+  createTableState,
+  getLegalActions,
+  rebuildState,
+  seatToAct
+} from '../pokerTableEngine';
+
+const SUITS: Record<string, Card['suit']> = { s: 'spades', h: 'hearts', d: 'diamonds', c: 'clubs' };
+const RANKS = '23456789TJQKA';
+
+// 'As' is the ace of spades, 'Td' the ten of diamonds
+const card = (name: string): Card => ({
+  rank: RANKS.indexOf(name[0]) + 2,
+  suit: SUITS[name[1]],
+  display: name
+});
+
+const FILLER = ['2c', '3c', '4c', '5c', '6c', '7c', '8c', '9c', 'Tc', 'Jc', 'Qc', 'Kc', 'Ac'].map(card);
+
+/**
+ * Deck that deals each hand its hole cards (hands in dealing order, left of the button first)
+ * and then the board, flop first
+ */
+const stackDeck = (hands: string[][], board: string[]): Card[] => [
+  ...hands.map(hand => card(hand[0])),
+  ...hands.map(hand => card(hand[1])),
+  ...board.map(card),
+  ...FILLER
+];
+
+const BOARD = ['2c', '7d', '9h', '3s', '4c'];
+
+interface Dealt {
+  state: TableState;
+  events: TableEvent[];
+}
+
+const deal = (players: SeatedPlayer[], deck: Card[], smallBlind = 1, bigBlind = 2, rake: RakeRule | null = null): Dealt =>
+  applyAction(createTableState(1, smallBlind, bigBlind), { type: 'start_hand', players, deck, smallBlind, bigBlind, rake });
+
+const play = (dealt: Dealt, userId: number, action: PlayerActionType, amount?: number): Dealt => {
+  const { state, events } = applyAction(dealt.state, { type: 'player_action', userId, action, amount });
+  return { state, events: [...dealt.events, ...events] };
+};
+
+const chipsOf = (state: TableState) => Object.fromEntries(state.seats.map(seat => [seat.userId, seat.chips]));
+const completion = (dealt: Dealt) => dealt.events.find(event => event.type === 'hand_complete') as Extract<TableEvent, { type: 'hand_complete' }>;
+
+// Seats 1-3: seat 1 has the button, 2 the small blind, 3 the big blind, and 1 acts first
+const threeHanded = (chips: [number, number, number], hands: string[][] = [['Kh', 'Kd'], ['Qs', 'Jh'], ['Ah', 'Ad']]) =>
+  deal(
+    [
+      { userId: 1, seatPosition: 1, chips: chips[0] },
+      { userId: 2, seatPosition: 2, chips: chips[1] },
+      { userId: 3, seatPosition: 3, chips: chips[2] }
+    ],
+    stackDeck(hands, BOARD)
+  );
+
+describe('pokerTableEngine', () => {
+  describe('starting a hand', () => {
+    it('posts the blinds and gives the first decision to the left of the big blind', () => {
+      const { state } = threeHanded([100, 100, 100]);
+
+      expect(state.phase).toBe('pre_flop');
+      expect([state.dealerPosition, state.smallBlindPosition, state.bigBlindPosition]).toEqual([1, 2, 3]);
+      expect(chipsOf(state)).toEqual({ 1: 100, 2: 99, 3: 98 });
+      expect(state.pot).toBe(3);
+      expect(seatToAct(state)?.userId).toBe(1);
+      expect(getLegalActions(state, 1)).toEqual({ toCall: 2, canCheck: false, minRaiseTo: 4, maxRaiseTo: 100, canRaise: true });
+      expect(getLegalActions(state, 2)).toBeNull();
+    });
+
+    it('deals hole cards one at a time starting left of the button', () => {
+      const { state } = threeHanded([100, 100, 100]);
+
+      expect(state.seats.find(seat => seat.userId === 2)?.holeCards.map(c => c.display)).toEqual(['Kh', 'Kd']);
+      expect(state.seats.find(seat => seat.userId === 1)?.holeCards.map(c => c.display)).toEqual(['Ah', 'Ad']);
+    });
+
+    it('has the button post the small blind heads-up, act first before the flop and last after it', () => {
+      let dealt = deal(
+        [{ userId: 1, seatPosition: 1, chips: 100 }, { userId: 2, seatPosition: 2, chips: 100 }],
+        stackDeck([['Kh', 'Kd'], ['Ah', 'Ad']], BOARD)
+      );
+
+      expect(dealt.state.smallBlindPosition).toBe(1);
+      expect(dealt.state.bigBlindPosition).toBe(2);
+      expect(seatToAct(dealt.state)?.userId).toBe(1);
+
+      dealt = play(dealt, 1, 'call');
+      dealt = play(dealt, 2, 'check');
+      expect(dealt.state.phase).toBe('flop');
+      expect(seatToAct(dealt.state)?.userId).toBe(2);
+    });
+
+    it('moves the button to the next occupied seat', () => {
+      const { state } = threeHanded([100, 100, 100]);
+      const completed = applyAction(state, { type: 'void_hand' }).state;
+      const next = applyAction(completed, {
+        type: 'start_hand',
+        players: completed.seats.map(seat => ({ userId: seat.userId, seatPosition: seat.seatPosition, chips: seat.chips })),
+        deck: stackDeck([['Kh', 'Kd'], ['Qs', 'Jh'], ['Ah', 'Ad']], BOARD),
+        smallBlind: 1,
+        bigBlind: 2
+      }).state;
+
+      expect([next.dealerPosition, next.smallBlindPosition, next.bigBlindPosition]).toEqual([2, 3, 1]);
+    });
+
+    it('refuses to start without two players with chips', () => {
+      expect(() => deal(
+        [{ userId: 1, seatPosition: 1, chips: 100 }, { userId: 2, seatPosition: 2, chips: 0 }],
+        stackDeck([['Kh', 'Kd'], ['Ah', 'Ad']], BOARD)
+      )).toThrow(PokerEngineError);
+    });
+  });
+
+  describe('betting', () => {
+    it('only lets the player to act act, and only legally', () => {
+      const dealt = threeHanded([100, 100, 100]);
+
+      expect(() => play(dealt, 2, 'call')).toThrow('Not your turn');
+      expect(() => play(dealt, 1, 'check')).toThrow('Cannot check when there is a bet to call');
+      expect(() => play(dealt, 1, 'bet', 10)).toThrow('Cannot bet when there is already a bet');
+      expect(() => play(dealt, 1, 'raise', 3)).toThrow('Raise must be at least 4');
+      expect(() => play(dealt, 1, 'raise', 101)).toThrow('Insufficient chips');
+    });
+
+    it('makes a full raise the new minimum raise', () => {
+      let dealt = threeHanded([100, 100, 100]);
+      dealt = play(dealt, 1, 'raise', 8);
+
+      expect(dealt.state.currentBet).toBe(8);
+      expect(getLegalActions(dealt.state, 2)).toMatchObject({ toCall: 7, minRaiseTo: 14 });
+      expect(() => play(dealt, 2, 'raise', 13)).toThrow('Raise must be at least 14');
+    });
+
+    it('gives the big blind the option when everyone limps', () => {
+      let dealt = threeHanded([100, 100, 100]);
+      dealt = play(dealt, 1, 'call');
+      dealt = play(dealt, 2, 'call');
+
+      expect(dealt.state.phase).toBe('pre_flop');
+      expect(getLegalActions(dealt.state, 3)).toMatchObject({ toCall: 0, canCheck: true });
+
+      dealt = play(dealt, 3, 'check');
+      expect(dealt.state.phase).toBe('flop');
+      expect(dealt.state.communityCards.map(c => c.display)).toEqual(['2c', '7d', '9h']);
+    });
+
+    it('lets a short all-in raise be answered without raising the minimum raise', () => {
+      let dealt = threeHanded([100, 100, 7]);
+      dealt = play(dealt, 1, 'raise', 6);
+      dealt = play(dealt, 2, 'call');
+      dealt = play(dealt, 3, 'all_in');
+
+      expect(dealt.state.currentBet).toBe(7);
+      expect(dealt.state.minRaise).toBe(4);
+      expect(seatToAct(dealt.state)?.userId).toBe(1);
+      expect(getLegalActions(dealt.state, 1)).toMatchObject({ toCall: 1, minRaiseTo: 11, canRaise: false });
+
+      dealt = play(dealt, 1, 'call');
+      dealt = play(dealt, 2, 'call');
+      expect(dealt.state.phase).toBe('flop');
+      expect(dealt.state.pot).toBe(21);
+    });
+
+    it('does not reopen the betting to players who acted before a short all-in', () => {
+      let dealt = threeHanded([100, 100, 7]);
+      dealt = play(dealt, 1, 'raise', 6);
+      dealt = play(dealt, 2, 'call');
+      dealt = play(dealt, 3, 'all_in');
+
+      expect(() => play(dealt, 1, 'raise', 11)).toThrow('A short all-in does not reopen the betting; call or fold');
+      expect(() => play(dealt, 1, 'all_in')).toThrow('A short all-in does not reopen the betting; call or fold');
+
+      dealt = play(dealt, 1, 'call');
+      expect(getLegalActions(dealt.state, 2)).toMatchObject({ toCall: 1, canRaise: false });
+      expect(() => play(dealt, 2, 'raise', 20)).toThrow('A short all-in does not reopen the betting; call or fold');
+    });
+
+    it('still lets players yet to act raise over a short all-in, which reopens the betting', () => {
+      let dealt = threeHanded([100, 7, 100]);
+      dealt = play(dealt, 1, 'raise', 6);
+      dealt = play(dealt, 2, 'all_in');
+
+      expect(dealt.state.currentBet).toBe(7);
+      expect(getLegalActions(dealt.state, 3)).toMatchObject({ toCall: 5, minRaiseTo: 11, canRaise: true });
+
+      dealt = play(dealt, 3, 'raise', 11);
+      expect(getLegalActions(dealt.state, 1)).toMatchObject({ toCall: 5, minRaiseTo: 15, canRaise: true });
+
+      dealt = play(dealt, 1, 'raise', 20);
+      expect(dealt.state.currentBet).toBe(20);
+    });
+
+    it('lets a short all-in call leave the caller out of the rest of the betting', () => {
+      let dealt = threeHanded([100, 100, 5]);
+      dealt = play(dealt, 1, 'raise', 10);
+      dealt = play(dealt, 2, 'call');
+      dealt = play(dealt, 3, 'call');
+
+      const seat = dealt.state.seats.find(s => s.userId === 3)!;
+      expect(seat.isAllIn).toBe(true);
+      expect(seat.totalBetThisHand).toBe(5);
+      expect(dealt.state.phase).toBe('flop');
+      expect(seatToAct(dealt.state)?.userId).toBe(2);
+    });
+  });
+
+  describe('ending a hand', () => {
+    it('awards the pot uncontested once everyone else folds', () => {
+      let dealt = threeHanded([100, 100, 100]);
+      dealt = play(dealt, 1, 'raise', 6);
+      dealt = play(dealt, 2, 'fold');
+      dealt = play(dealt, 3, 'fold');
+
+      const complete = completion(dealt);
+      expect(complete.reason).toBe('fold');
+      expect(complete.winners).toEqual([{ userId: 1, amount: 9 }]);
+      expect(dealt.state.phase).toBe('complete');
+      expect(chipsOf(dealt.state)).toEqual({ 1: 103, 2: 99, 3: 98 });
+    });
+
+    it('splits main and side pots between the players eligible for each', () => {
+      let dealt = threeHanded([20, 100, 100]);
+      dealt = play(dealt, 1, 'all_in');
+      dealt = play(dealt, 2, 'all_in');
+      dealt = play(dealt, 3, 'call');
+
+      const complete = completion(dealt);
+      expect(complete.reason).toBe('showdown');
+      expect(dealt.state.communityCards).toHaveLength(5);
+      expect(complete.pots).toEqual([
+        { amount: 60, eligiblePlayers: [1, 2, 3], winners: [{ userId: 1, amount: 60 }] },
+        { amount: 160, eligiblePlayers: [2, 3], winners: [{ userId: 2, amount: 160 }] }
+      ]);
+      expect(chipsOf(dealt.state)).toEqual({ 1: 60, 2: 160, 3: 0 });
+    });
+
+    it('hands back what a covering all-in put in beyond what was called', () => {
+      let dealt = deal(
+        [{ userId: 1, seatPosition: 1, chips: 100 }, { userId: 2, seatPosition: 2, chips: 20 }],
+        stackDeck([['Kh', 'Kd'], ['Ah', 'Ad']], BOARD)
+      );
+      dealt = play(dealt, 1, 'all_in');
+      dealt = play(dealt, 2, 'call');
+
+      const complete = completion(dealt);
+      expect(complete.pots[1]).toEqual({ amount: 80, eligiblePlayers: [1], winners: [{ userId: 1, amount: 80 }] });
+      expect(chipsOf(dealt.state)).toEqual({ 1: 120, 2: 0 });
+    });
+
+    it('gives the odd cent of a split pot to the winner closest left of the button', () => {
+      let dealt = deal(
+        [
+          { userId: 1, seatPosition: 1, chips: 1 },
+          { userId: 2, seatPosition: 2, chips: 1 },
+          { userId: 3, seatPosition: 3, chips: 1 }
+        ],
+        stackDeck([['2h', '3d'], ['2d', '3h'], ['2s', '3s']], ['Ac', 'Kd', 'Qh', 'Js', 'Tc']),
+        0.01,
+        0.02
+      );
+      dealt = play(dealt, 1, 'call');
+      dealt = play(dealt, 2, 'fold');
+      dealt = play(dealt, 3, 'check');
+      for (let street = 0; street < 3; street++) {
+        dealt = play(dealt, 3, 'check');
+        dealt = play(dealt, 1, 'check');
+      }
+
+      const complete = completion(dealt);
+      expect(complete.pot).toBe(0.05);
+      expect(complete.winners).toEqual([{ userId: 3, amount: 0.03 }, { userId: 1, amount: 0.02 }]);
+    });
+
+    it('checks for a player who times out when checking is free, and folds them otherwise', () => {
+      const dealt = threeHanded([100, 100, 100]);
+      const folded = applyAction(dealt.state, { type: 'timeout', userId: 1 });
+
+      expect(folded.events[0]).toMatchObject({ type: 'player_acted', action: 'fold', timedOut: true });
+
+      let limped = play(dealt, 1, 'call');
+      limped = play(limped, 2, 'call');
+      const checked = applyAction(limped.state, { type: 'timeout', userId: 3 });
+      expect(checked.events[0]).toMatchObject({ type: 'player_acted', action: 'check', timedOut: true });
+    });
+
+    it('gives everyone back what they put in when the hand is voided', () => {
+      let dealt = threeHanded([100, 100, 100]);
+      dealt = play(dealt, 1, 'raise', 6);
+
+      const { state } = applyAction(dealt.state, { type: 'void_hand' });
+      expect(state.phase).toBe('complete');
+      expect(state.pot).toBe(0);
+      expect(chipsOf(state)).toEqual({ 1: 100, 2: 100, 3: 100 });
+    });
+  });
+
+  describe('rake', () => {
+    const RAKE: RakeRule = { percentage: 0.05, cap: 3, noFlopNoDrop: true };
+
+    // Seat 1 has the button and the small blind and acts first before the flop, seat 2 after it
+    const headsUp = (chips: [number, number], rake: RakeRule | null = RAKE) => deal(
+      [{ userId: 1, seatPosition: 1, chips: chips[0] }, { userId: 2, seatPosition: 2, chips: chips[1] }],
+      stackDeck([['Kh', 'Kd'], ['Ah', 'Ad']], BOARD),
+      1,
+      2,
+      rake
+    );
+
+    const toRiver = (dealt: Dealt, bet: number) => {
+      dealt = play(dealt, 1, 'call');
+      dealt = play(dealt, 2, 'check');
+      dealt = play(dealt, 2, 'bet', bet);
+      dealt = play(dealt, 1, 'call');
+      for (let street = 0; street < 2; street++) {
+        dealt = play(dealt, 2, 'check');
+        dealt = play(dealt, 1, 'check');
+      }
+      return dealt;
+    };
+
+    const totalChips = (dealt: Dealt) => dealt.state.seats.reduce((sum, seat) => sum + seat.chips, 0);
+
+    it('takes the percentage of a contested pot, rounded down to the cent', () => {
+      const dealt = toRiver(headsUp([100, 100]), 8.1);
+      const complete = completion(dealt);
+
+      // 20.2 at 5% is 1.01
+      expect(complete.pot).toBe(20.2);
+      expect(complete.rake).toBe(1.01);
+      expect(complete.winners).toEqual([{ userId: 1, amount: 19.19 }]);
+      expect(totalChips(dealt) + complete.rake!).toBeCloseTo(200, 2);
+    });
+
+    it('takes no more than the cap', () => {
+      const complete = completion(toRiver(headsUp([100, 100]), 48));
+
+      expect(complete.pot).toBe(100);
+      expect(complete.rake).toBe(3);
+      expect(complete.pots[0].amount).toBe(97);
+    });
+
+    it('takes nothing from a hand that ends before the flop with no-flop-no-drop', () => {
+      let dealt = headsUp([100, 100]);
+      dealt = play(dealt, 1, 'raise', 6);
+      dealt = play(dealt, 2, 'call');
+      dealt = play(dealt, 2, 'check');
+      dealt = play(dealt, 1, 'bet', 10);
+      dealt = play(dealt, 2, 'fold');
+
+      let folded = headsUp([100, 100]);
+      folded = play(folded, 1, 'raise', 6);
+      folded = play(folded, 2, 'fold');
+
+      // 12 was contested once the flop was dealt
+      expect(completion(dealt).rake).toBe(0.6);
+      expect(completion(folded).rake).toBe(0);
+      expect(completion(folded).winners).toEqual([{ userId: 1, amount: 8 }]);
+    });
+
+    it('rakes only the called part of a hand won uncontested, before the flop without no-flop-no-drop', () => {
+      let dealt = headsUp([100, 100], { ...RAKE, noFlopNoDrop: false });
+      dealt = play(dealt, 1, 'raise', 60);
+      dealt = play(dealt, 2, 'call');
+      dealt = play(dealt, 2, 'bet', 20);
+      dealt = play(dealt, 1, 'fold');
+
+      // 120 was contested; the uncalled 20 goes back untouched
+      const complete = completion(dealt);
+      expect(complete.rake).toBe(3);
+      expect(complete.winners).toEqual([{ userId: 2, amount: 137 }]);
+    });
+
+    it('takes rake from the contested pots only, main pot first', () => {
+      let dealt = headsUp([100, 20]);
+      dealt = play(dealt, 1, 'all_in');
+      dealt = play(dealt, 2, 'call');
+
+      const complete = completion(dealt);
+      expect(complete.rake).toBe(2);
+      expect(complete.pots.map(pot => pot.amount)).toEqual([38, 80]);
+      expect(chipsOf(dealt.state)).toEqual({ 1: 118, 2: 0 });
+    });
+
+    it('takes nothing without a rule', () => {
+      const complete = completion(toRiver(headsUp([100, 100], null), 48));
+
+      expect(complete.rake).toBe(0);
+      expect(complete.pots[0].amount).toBe(100);
+    });
+
+    it('replays to the same raked state', () => {
+      const dealt = toRiver(headsUp([100, 100]), 48);
+
+      expect(rebuildState(1, dealt.events)).toEqual(dealt.state);
+    });
+  });
+
+  it('leaves the input state untouched', () => {
+    const dealt = threeHanded([100, 100, 100]);
+    const before = JSON.stringify(dealt.state);
+    play(dealt, 1, 'raise', 6);
+
+    expect(JSON.stringify(dealt.state)).toBe(before);
+  });
+
+  it('rebuilds the same state from the hand\'s event log', () => {
+    let dealt = threeHanded([20, 100, 100]);
+    dealt = play(dealt, 1, 'all_in');
+    dealt = play(dealt, 2, 'call');
+    dealt = play(dealt, 3, 'call');
+    dealt = play(dealt, 2, 'bet', 10);
+    dealt = play(dealt, 3, 'raise', 30);
+    dealt = play(dealt, 2, 'call');
+
+    expect(rebuildState(1, dealt.events)).toEqual(dealt.state);
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { RealityCheckService } from '../realityCheckService';
+import { ResponsibleGamblingService } from '../responsibleGamblingService';
+import { TokenService } from '../tokenService';
+import { Clock, GamblingTables, gamblingTables } from './gamblingTables';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const USER = 7;
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+describe('ResponsibleGamblingService', () => {
+  let clock: Clock;
+  let tables: GamblingTables;
+
+  const record = (type: string, amount: number, ageMs = 0) =>
+    tables.transactions.push({ user_id: USER, type, amount, created_at: clock.now - ageMs });
+  const check = (type: string, amount: number) =>
+    ResponsibleGamblingService.checkEntry(null, USER, { type, amount });
+  const limit = async (type: string, period: string) =>
+    (await ResponsibleGamblingService.getLimits(USER)).find(l => l.type === type && l.period === period);
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    clock = { now: Date.UTC(2026, 0, 15, 12) };
+    tables = gamblingTables(mockDb, clock);
+
+    jest.spyOn(RealityCheckService, 'isPending').mockResolvedValue(false);
+    jest.spyOn(TokenService, 'limitSessionDuration').mockResolvedValue([]);
+    jest.spyOn(TokenService, 'revokeAllSessions').mockResolvedValue(undefined as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkEntry', () => {
+    it('counts deposits over the daily window only', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'deposit', 'day', 100);
+      record('deposit', 80, 2 * HOUR);
+      record('deposit', 500, 2 * DAY);
+
+      await expect(check('deposit', 20)).resolves.toBeNull();
+      await expect(check('deposit', 30)).resolves.toBe('This would exceed your daily deposit limit of $100.00 ($20.00 left)');
+    });
+
+    it('counts bets and buy-ins against a weekly wager limit', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'wager', 'week', 50);
+      record('bet', -30, 3 * DAY);
+      record('win', 60, 3 * DAY);
+      record('bet', -100, 8 * DAY);
+
+      await expect(check('buy_in', -20)).resolves.toBeNull();
+      record('buy_in', -15);
+      await expect(check('bet', -10)).resolves.toBe('This would exceed your weekly wager limit of $50.00 ($5.00 left)');
+    });
+
+    it('counts stakes net of winnings and refunds against a monthly loss limit', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'loss', 'month', 40);
+      record('bet', -50, 10 * DAY);
+      record('win', 15, 10 * DAY);
+      record('refund', 5, 10 * DAY);
+      record('buy_in', -200, 31 * DAY);
+
+      await expect(check('bet', -10)).resolves.toBeNull();
+      await expect(check('buy_in', -10.01)).resolves.toBe('This would exceed your monthly loss limit of $40.00 ($10.00 left)');
+    });
+
+    it('lets winnings, cash-outs and withdrawals through whatever the limits', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'loss', 'day', 10);
+      record('bet', -10);
+
+      await expect(check('win', 25)).resolves.toBeNull();
+      await expect(check('cash_out', 100)).resolves.toBeNull();
+      await expect(check('withdrawal', -50)).resolves.toBeNull();
+    });
+  });
+
+  describe('exclusions', () => {
+    it('blocks bets, buy-ins and deposits during a cool-off, and lets cash-outs through', async () => {
+      const exclusion = await ResponsibleGamblingService.startExclusion(USER, 'cool_off', '24h');
+      const message = `This account is taking a break until ${new Date(clock.now + DAY).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+      expect(ResponsibleGamblingService.exclusionMessage(exclusion)).toBe(message);
+      await expect(check('bet', -1)).resolves.toBe(message);
+      await expect(check('buy_in', -50)).resolves.toBe(message);
+      await expect(check('deposit', 10)).resolves.toBe(message);
+      await expect(check('cash_out', 50)).resolves.toBeNull();
+
+      clock.now += DAY;
+      await expect(check('bet', -1)).resolves.toBeNull();
+    });
+
+    it('blocks play for good after a permanent self-exclusion', async () => {
+      await ResponsibleGamblingService.startExclusion(USER, 'self_exclusion', 'permanent');
+
+      clock.now += 20 * 365 * DAY;
+      await expect(check('bet', -1)).resolves.toBe('This account is permanently self-excluded');
+      await expect(check('buy_in', -1)).resolves.toBe('This account is permanently self-excluded');
+    });
+
+    it('signs the user out everywhere and is not cut short by a shorter break', async () => {
+      await ResponsibleGamblingService.startExclusion(USER, 'self_exclusion', '6m');
+      const shorter = await ResponsibleGamblingService.startExclusion(USER, 'cool_off', '7d');
+
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(USER);
+      expect(shorter.type).toBe('self_exclusion');
+      clock.now += 8 * DAY;
+      await expect(check('bet', -1)).resolves.toMatch(/^This account is self-excluded until/);
+    });
+
+    it('refuses a duration the type does not offer', async () => {
+      await expect(ResponsibleGamblingService.startExclusion(USER, 'cool_off', 'permanent'))
+        .rejects.toThrow('Choose one of 24h, 7d, 30d');
+      expect(tables.exclusions).toHaveLength(0);
+    });
+
+    it('holds stakes, but not deposits, until a reality check is acknowledged', async () => {
+      jest.spyOn(RealityCheckService, 'isPending').mockResolvedValue(true);
+
+      await expect(check('bet', -1)).resolves.toBe('Please acknowledge your reality check before placing another bet');
+      await expect(check('buy_in', -1)).resolves.toBe('Please acknowledge your reality check before placing another bet');
+      await expect(check('deposit', 10)).resolves.toBeNull();
+    });
+  });
+
+  describe('setLimit', () => {
+    it('applies a lower limit at once', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'wager', 'day', 100);
+      record('bet', -60);
+
+      const change = await ResponsibleGamblingService.setLimit(USER, 'wager', 'day', 50);
+
+      expect(change.appliedImmediately).toBe(true);
+      expect(change.limit).toMatchObject({ amount: 50, used: 60, remaining: 0, pending: null });
+      await expect(check('bet', -1)).resolves.toMatch(/daily wager limit of \$50\.00/);
+    });
+
+    it('holds a higher limit back until the cooling-off has passed', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'wager', 'day', 50);
+      record('bet', -50);
+
+      const change = await ResponsibleGamblingService.setLimit(USER, 'wager', 'day', 200);
+
+      expect(change.appliedImmediately).toBe(false);
+      expect(change.limit).toMatchObject({
+        amount: 50,
+        pending: { amount: 200, effectiveAt: new Date(clock.now + DAY).toISOString() }
+      });
+      await expect(check('bet', -10)).resolves.toMatch(/daily wager limit of \$50\.00/);
+
+      clock.now += DAY - 1;
+      await expect(check('bet', -10)).resolves.not.toBeNull();
+
+      clock.now += 1;
+      await expect(check('bet', -10)).resolves.toBeNull();
+      await expect(limit('wager', 'day')).resolves.toMatchObject({ amount: 200, pending: null });
+    });
+
+    it('holds a removal back too', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'deposit', 'week', 100);
+
+      const change = await ResponsibleGamblingService.setLimit(USER, 'deposit', 'week', null);
+
+      expect(change.appliedImmediately).toBe(false);
+      await expect(check('deposit', 150)).resolves.not.toBeNull();
+
+      clock.now += DAY;
+      await expect(check('deposit', 150)).resolves.toBeNull();
+      await expect(limit('deposit', 'week')).resolves.toBeUndefined();
+    });
+
+    it('drops a pending raise when the limit is lowered again', async () => {
+      await ResponsibleGamblingService.setLimit(USER, 'loss', 'week', 100);
+      await ResponsibleGamblingService.setLimit(USER, 'loss', 'week', 500);
+
+      const change = await ResponsibleGamblingService.setLimit(USER, 'loss', 'week', 80);
+
+      expect(change.appliedImmediately).toBe(true);
+      expect(change.limit).toMatchObject({ amount: 80, pending: null });
+      clock.now += DAY;
+      await expect(limit('loss', 'week')).resolves.toMatchObject({ amount: 80 });
+    });
+
+    it('applies a first limit at once', async () => {
+      const change = await ResponsibleGamblingService.setLimit(USER, 'deposit', 'month', 1000);
+
+      expect(change.appliedImmediately).toBe(true);
+      expect(change.limit).toMatchObject({ amount: 1000, used: 0, remaining: 1000 });
+    });
+  });
+});
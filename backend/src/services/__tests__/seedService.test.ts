@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { SeedService } from '../seedService';
+import { SeedRow, seedTable } from './seedTable';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const USER = 7;
+
+describe('SeedService', () => {
+  let seeds: SeedRow[];
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    seeds = seedTable(mockDb);
+  });
+
+  it('creates a pair on first use and counts nonces on it', async () => {
+    const first = await SeedService.nextRoll(USER);
+    const second = await SeedService.nextRoll(USER);
+
+    expect(seeds).toHaveLength(1);
+    expect([first.nonce, second.nonce]).toEqual([0, 1]);
+    expect(second.seedId).toBe(first.seedId);
+  });
+
+  it('reveals the active pair and carries its client seed and nonce count over', async () => {
+    const roll = await SeedService.nextRoll(USER);
+
+    const { previous, active } = await SeedService.rotateSeed(USER);
+
+    expect(previous.serverSeed).toBe(roll.serverSeed);
+    expect(previous.nonce).toBe(1);
+    expect(active.clientSeed).toBe(roll.clientSeed);
+    expect(active.nonce).toBe(0);
+    expect(active.serverSeedHash).not.toBe(roll.serverSeedHash);
+  });
+
+  it('lets concurrent rotations take turns instead of failing on the unique key', async () => {
+    await SeedService.getActiveSeed(USER);
+
+    const [first, second] = await Promise.all([
+      SeedService.rotateSeed(USER, 'first'),
+      SeedService.rotateSeed(USER, 'second')
+    ]);
+
+    // The second reveals the pair the first committed to
+    expect(second.previous.id).toBe(first.active.id);
+    expect(second.active.clientSeed).toBe('second');
+    expect(seeds.filter(seed => seed.is_active)).toHaveLength(1);
+  });
+
+  it('never rolls on a pair while it is being revealed', async () => {
+    await SeedService.getActiveSeed(USER);
+
+    const [rotation, roll] = await Promise.all([
+      SeedService.rotateSeed(USER),
+      SeedService.nextRoll(USER)
+    ]);
+
+    // The roll waited for the rotation and used the new pair; the revealed pair took no bet
+    expect(roll.seedId).toBe(rotation.active.id);
+    expect(roll.nonce).toBe(0);
+    expect(rotation.previous.nonce).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * user_seeds for service tests, on a FakeDatabase, with its one-active-pair-per-user unique key
+ */
+
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+
+export interface SeedRow {
+  id: number;
+  user_id: number;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  is_active: boolean;
+  revealed_at: Date | null;
+}
+
+export function seedTable(db: FakeDatabase): SeedRow[] {
+  const seeds: SeedRow[] = [];
+  const active = (userId: number) => seeds.filter(seed => seed.user_id === userId && seed.is_active);
+  const insert = (ignore: boolean) => ([userId, serverSeed, serverSeedHash, clientSeed]: any[]) => {
+    if (active(userId).length > 0) {
+      if (ignore) return { affectedRows: 0 };
+      throw Object.assign(new Error('Duplicate entry for key unique_active_seed'), { code: 'ER_DUP_ENTRY' });
+    }
+    const id = seeds.length + 1;
+    seeds.push({
+      id, user_id: userId, server_seed: serverSeed, server_seed_hash: serverSeedHash,
+      client_seed: clientSeed, nonce: 0, is_active: true, revealed_at: null
+    });
+    return { insertId: id, affectedRows: 1 };
+  };
+  const byId = (id: number) => seeds.find(seed => seed.id === id) as SeedRow;
+
+  db
+    .on(/^SELECT \* FROM user_seeds WHERE user_id = \? AND is_active = TRUE$/, ([userId]) => active(userId).map(seed => ({ ...seed })))
+    .on(/^SELECT \* FROM user_seeds WHERE active_user_id = \? FOR UPDATE$/, async ([userId], connection) => {
+      await connection!.lock(`user_seeds:${userId}`);
+      return active(userId).map(seed => ({ ...seed }));
+    })
+    .on(/^SELECT \* FROM user_seeds WHERE id = \?$/, ([id]) => [{ ...byId(id) }])
+    .on(/^INSERT IGNORE INTO user_seeds/, insert(true))
+    .on(/^INSERT INTO user_seeds/, insert(false))
+    .on(/^UPDATE user_seeds SET nonce = nonce \+ 1 WHERE id = \?$/, ([id]) => {
+      byId(id).nonce++;
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE user_seeds SET is_active = FALSE, revealed_at = NOW\(\) WHERE id = \?$/, ([id]) => {
+      Object.assign(byId(id), { is_active: false, revealed_at: new Date() });
+      return { affectedRows: 1 };
+    });
+
+  return seeds;
+}
@@ -0,0 +1,329 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { LeaderLease } from '../leaderLease';
+import { LedgerService } from '../ledgerService';
+import { TournamentError, TournamentService } from '../tournamentService';
+import { WalletEntry, WalletService } from '../walletService';
+import { TournamentRow, TournamentTables, tournamentTables } from './tournamentTables';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const MINUTE = 60 * 1000;
+
+describe('TournamentService', () => {
+  const emitted: Array<{ room: string; event: string; data: any }> = [];
+  const io = {
+    to: (room: string) => ({ emit: (event: string, data: any) => emitted.push({ room, event, data }) }),
+    in: () => ({ socketsJoin: () => undefined, socketsLeave: () => undefined })
+  };
+  const pokerManager = { checkAndStartHand: jest.fn() };
+
+  let db: TournamentTables;
+  let payments: Array<{ userId: number; entries: WalletEntry[] }>;
+
+  const events = (event: string) => emitted.filter(emit => emit.event === event);
+  const entrant = (tournamentId: number, userId: number) =>
+    db.entrants.find(row => row.tournament_id === tournamentId && row.user_id === userId)!;
+  const errorOf = (promise: Promise<unknown>) => promise.then(() => null, (caught: any) => caught);
+
+  // One hand at a table: stacks after it by user, and what each put in
+  const playHand = (tableId: number, stacks: Record<number, number>, putIn: Record<number, number> = {}, bigBlindPosition = 0) => {
+    for (const seat of db.activeSeats(tableId)) {
+      if (seat.user_id in stacks) seat.chips = stacks[seat.user_id];
+    }
+    const state = {
+      bigBlindPosition,
+      seats: db.activeSeats(tableId).map(seat => ({ userId: seat.user_id, totalBetThisHand: putIn[seat.user_id] ?? 0 }))
+    };
+    return TournamentService.recordResults(tableId, state as any);
+  };
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 15, 12), doNotFake: ['nextTick', 'queueMicrotask'] });
+    TournamentService.initialize(io as any, pokerManager as any);
+  });
+
+  afterAll(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    db = tournamentTables(mockDb);
+    payments = [];
+    emitted.length = 0;
+    pokerManager.checkAndStartHand.mockClear();
+
+    jest.spyOn(LeaderLease, 'isLeader').mockReturnValue(true);
+    jest.spyOn(WalletService, 'apply').mockImplementation(async (_connection, userId, entries) => {
+      payments.push({ userId, entries });
+      return { balanceBefore: 100, balance: 100 + entries.reduce((sum, entry) => sum + entry.amount, 0) };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Sit & Go', () => {
+    let sitAndGo: TournamentRow;
+
+    const fill = async () => {
+      for (const userId of [1, 2, 3]) {
+        await TournamentService.register(userId, sitAndGo.id);
+      }
+      return db.tables[0].id;
+    };
+
+    beforeEach(() => {
+      sitAndGo = db.addTournament({ max_players: 3, table_size: 3 });
+    });
+
+    it('takes the buy-in into escrow and the fee for the house, and gives both back on unregistering', async () => {
+      const registered = await TournamentService.register(1, sitAndGo.id);
+
+      expect(registered).toEqual({ balance: 89, tableId: null });
+      expect(payments[0].entries).toEqual([
+        expect.objectContaining({ type: 'buy_in', amount: -10, counterparty: LedgerService.tournament(sitAndGo.id) }),
+        expect.objectContaining({ type: 'buy_in', amount: -1, counterparty: LedgerService.HOUSE })
+      ]);
+      expect(sitAndGo.prize_pool).toBe('10.00');
+
+      await expect(TournamentService.unregister(1, sitAndGo.id)).resolves.toEqual({ balance: 111 });
+
+      expect(payments[1].entries).toEqual([
+        expect.objectContaining({ type: 'refund', amount: 10, counterparty: LedgerService.tournament(sitAndGo.id) }),
+        expect.objectContaining({ type: 'refund', amount: 1, counterparty: LedgerService.HOUSE })
+      ]);
+      expect(sitAndGo.prize_pool).toBe('0.00');
+      expect(db.entrants).toHaveLength(0);
+    });
+
+    it('takes one registration per player', async () => {
+      await TournamentService.register(1, sitAndGo.id);
+
+      const error = await errorOf(TournamentService.register(1, sitAndGo.id));
+
+      expect(error).toBeInstanceOf(TournamentError);
+      expect(error.status).toBe(409);
+      expect(payments).toHaveLength(1);
+    });
+
+    it('starts when the last seat is taken and opens the next one', async () => {
+      await TournamentService.register(1, sitAndGo.id);
+      await TournamentService.register(2, sitAndGo.id);
+      const last = await TournamentService.register(3, sitAndGo.id);
+
+      expect(sitAndGo).toMatchObject({ status: 'running', blind_level: 0, prize_pool: '30.00' });
+      expect(db.tables).toEqual([expect.objectContaining({ id: last.tableId, small_blind: 10, big_blind: 20, tournament_id: sitAndGo.id })]);
+      expect(db.seats.map(seat => seat.seat_position).sort()).toEqual([0, 1, 2]);
+      expect(db.seats.every(seat => seat.chips === 1500 && seat.table_id === last.tableId)).toBe(true);
+      expect(events('tournament:started').map(emit => emit.room).sort()).toEqual(['user_1', 'user_2', 'user_3']);
+      expect(pokerManager.checkAndStartHand).toHaveBeenCalledWith(last.tableId);
+
+      expect(db.tournaments[1]).toMatchObject({ name: sitAndGo.name, status: 'registering', max_players: 3 });
+
+      expect((await errorOf(TournamentService.register(4, sitAndGo.id))).message).toBe('Registration for this tournament is closed');
+      expect((await errorOf(TournamentService.unregister(1, sitAndGo.id))).message).toBe('The tournament has already started');
+    });
+
+    it('raises the blinds when a level has run its time', async () => {
+      const tableId = await fill();
+
+      await jest.advanceTimersByTimeAsync(5 * MINUTE - 5000);
+      expect(sitAndGo.blind_level).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(sitAndGo.blind_level).toBe(1);
+      expect(db.tables[0]).toMatchObject({ small_blind: 20, big_blind: 40 });
+      expect(events('tournament:blinds_up')).toEqual([{
+        room: `poker_table_${tableId}`,
+        event: 'tournament:blinds_up',
+        data: { tournamentId: sitAndGo.id, level: 1, smallBlind: 20, bigBlind: 40, minutes: 5 }
+      }]);
+
+      // The last level lasts until the end
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+      expect(sitAndGo.blind_level).toBe(1);
+    });
+
+    it('places players busting in the same hand by the stacks they started it with', async () => {
+      const tableId = await fill();
+
+      await playHand(tableId, { 1: 0, 2: 0, 3: 4500 }, { 1: 800, 2: 1500, 3: 1500 });
+
+      expect(entrant(sitAndGo.id, 1)).toMatchObject({ position_finished: 3, chips: 0 });
+      expect(entrant(sitAndGo.id, 2)).toMatchObject({ position_finished: 2, chips: 0 });
+      expect(entrant(sitAndGo.id, 3)).toMatchObject({ position_finished: 1 });
+      expect(events('tournament:player_eliminated').map(emit => emit.data)).toEqual([
+        { tournamentId: sitAndGo.id, userId: 1, position: 3 },
+        { tournamentId: sitAndGo.id, userId: 2, position: 2 }
+      ]);
+    });
+
+    it('pays the places from escrow when one player is left, rounding in the winner\'s favour', async () => {
+      sitAndGo.buy_in = '3.33';
+      const tableId = await fill();
+
+      await playHand(tableId, { 1: 0 }, { 1: 1500 });
+      expect(sitAndGo.status).toBe('running');
+      expect(entrant(sitAndGo.id, 1).position_finished).toBe(3);
+
+      payments = [];
+      await playHand(tableId, { 2: 0, 3: 4500 }, { 2: 1500 });
+
+      expect(sitAndGo.status).toBe('finished');
+      expect(payments).toEqual([
+        { userId: 3, entries: [expect.objectContaining({ type: 'win', amount: 6.5, counterparty: LedgerService.tournament(sitAndGo.id) })] },
+        { userId: 2, entries: [expect.objectContaining({ type: 'win', amount: 3.49 })] }
+      ]);
+      expect([1, 2, 3].map(userId => entrant(sitAndGo.id, userId).prize_won)).toEqual([0, 3.49, 6.5]);
+      expect(db.tables[0].is_active).toBe(false);
+      expect(db.seats.some(seat => seat.is_active)).toBe(false);
+      expect(db.statsUpdates).toEqual([{ winnerId: 3, tournamentId: sitAndGo.id }]);
+      expect(events('tournament:finished')[0].data.prizes).toEqual([
+        { userId: 3, position: 1, amount: 6.5, balance: 106.5 },
+        { userId: 2, position: 2, amount: 3.49, balance: 103.49 }
+      ]);
+
+      // Recording the same hand again pays nothing twice
+      await playHand(tableId, { 2: 0, 3: 4500 }, { 2: 1500 });
+      expect(payments).toHaveLength(2);
+    });
+  });
+
+  describe('scheduled tournaments', () => {
+    let major: TournamentRow;
+
+    const registerAll = async (count: number) => {
+      for (let userId = 1; userId <= count; userId++) {
+        await TournamentService.register(userId, major.id);
+      }
+    };
+    const startWith = async (count: number) => {
+      await registerAll(count);
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+      return db.tables.map(table => table.id);
+    };
+    const seated = (tableId: number) => db.activeSeats(tableId).map(seat => seat.user_id).sort((a, b) => a - b);
+
+    beforeEach(() => {
+      major = db.addTournament({
+        name: 'Sunday Major', tournament_type: 'scheduled', max_players: 100, min_players: 3, table_size: 6,
+        starts_at: new Date(Date.now() + 10 * MINUTE), late_registration_levels: 1,
+        prize_structure: JSON.stringify([50, 30, 20])
+      });
+    });
+
+    it('starts at its start time on as few tables as the field fits, as evenly as possible', async () => {
+      await registerAll(15);
+
+      await jest.advanceTimersByTimeAsync(10 * MINUTE - 5000);
+      expect(major.status).toBe('registering');
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(major.status).toBe('running');
+      expect(db.tables.map(table => table.name)).toEqual([1, 2, 3].map(n => `Sunday Major #${major.id} - Table ${n}`));
+      expect(db.tables.map(table => db.activeSeats(table.id).length)).toEqual([5, 5, 5]);
+      expect(events('tournament:started')).toHaveLength(15);
+      expect(db.tournaments).toHaveLength(1);
+    });
+
+    it('is cancelled, and everyone refunded, when too few players registered', async () => {
+      await registerAll(2);
+      payments = [];
+
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+      expect(major.status).toBe('cancelled');
+      expect(db.tables).toHaveLength(0);
+      expect(payments.map(payment => [payment.userId, payment.entries.map(entry => [entry.type, entry.amount])])).toEqual([
+        [1, [['refund', 10], ['refund', 1]]],
+        [2, [['refund', 10], ['refund', 1]]]
+      ]);
+      expect(events('tournament:cancelled').map(emit => emit.room)).toEqual(['user_1', 'user_2']);
+    });
+
+    it('seats a late entry at the shortest table until late registration closes', async () => {
+      const [first, second] = await startWith(7);
+      expect([seated(first).length, seated(second).length]).toEqual([4, 3]);
+
+      const late = await TournamentService.register(8, major.id);
+
+      expect(late.tableId).toBe(second);
+      expect(db.activeSeats(second).find(seat => seat.user_id === 8)).toMatchObject({ seat_position: 3, chips: 1500 });
+      expect(entrant(major.id, 8)).toMatchObject({ table_id: second, seat_position: 3 });
+      expect(major.prize_pool).toBe('80.00');
+
+      await jest.advanceTimersByTimeAsync(5 * MINUTE);
+      expect(major.blind_level).toBe(1);
+
+      const error = await errorOf(TournamentService.register(9, major.id));
+      expect(error.status).toBe(409);
+      expect(error.message).toBe('Registration for this tournament is closed');
+    });
+
+    it('moves the player due the big blind next off a table that is two players longer', async () => {
+      const [first, second] = await startWith(15);
+      const bustAtFirst = seated(first).slice(0, 2);
+      await playHand(first, { [bustAtFirst[0]]: 0, [bustAtFirst[1]]: 0 });
+      expect(events('tournament:table_changed')).toHaveLength(0);
+
+      const mover = db.activeSeats(second).find(seat => seat.seat_position === 3)!.user_id;
+      await playHand(second, {}, {}, 2);
+
+      expect(seated(first)).toHaveLength(4);
+      expect(seated(second)).toHaveLength(4);
+      expect(seated(first)).toContain(mover);
+      expect(events('tournament:table_changed')).toEqual([{
+        room: `user_${mover}`,
+        event: 'tournament:table_changed',
+        data: { tournamentId: major.id, tableId: first, seatPosition: expect.any(Number) }
+      }]);
+      expect(pokerManager.checkAndStartHand).toHaveBeenCalledWith(first);
+    });
+
+    it('breaks a table once the field fits on one fewer, and names the final table', async () => {
+      const [first, second] = await startWith(8);
+      const [shortest, busted, ...moving] = seated(first);
+      await playHand(first, { [shortest]: 0, [busted]: 0, [moving[0]]: 1200, [moving[1]]: 3000 }, { [shortest]: 100, [busted]: 200 });
+
+      expect(db.tables.find(table => table.id === first)!.is_active).toBe(false);
+      expect(db.activeSeats(second)).toHaveLength(6);
+      expect(seated(second)).toEqual(expect.arrayContaining(moving));
+      expect(db.activeSeats(second).find(seat => seat.user_id === moving[1])!.chips).toBe(3000);
+      expect(events('tournament:final_table')).toEqual([{
+        room: `poker_table_${second}`,
+        event: 'tournament:final_table',
+        data: { tournamentId: major.id, tableId: second }
+      }]);
+      expect(entrant(major.id, shortest).position_finished).toBe(8);
+      expect(entrant(major.id, busted).position_finished).toBe(7);
+    });
+
+    it('shows the field, blinds, payouts and tables in the lobby', async () => {
+      const [first] = await startWith(10);
+      const [busted] = seated(first);
+      await playHand(first, { [busted]: 0 });
+      const mine = seated(first)[0];
+
+      const lobby = await TournamentService.get(mine, major.id);
+
+      expect(lobby).toMatchObject({
+        type: 'scheduled', status: 'running', registered: 10, playersLeft: 9, isRegistered: true, tableId: first,
+        prizePool: 100, averageStack: 1667, lateRegistrationOpen: true,
+        currentLevel: { level: 0, smallBlind: 10, bigBlind: 20, minutes: 5 },
+        nextLevel: { level: 1, smallBlind: 20, bigBlind: 40, minutes: 5 },
+        payouts: [{ place: 1, amount: 50 }, { place: 2, amount: 30 }, { place: 3, amount: 20 }]
+      });
+      expect(lobby.tables.map(table => table.players)).toEqual([4, 5]);
+      expect(lobby.players).toHaveLength(10);
+      expect(lobby.players[9]).toMatchObject({ userId: busted, positionFinished: 10 });
+
+      const listed = await TournamentService.list(busted);
+      expect(listed).toEqual([expect.objectContaining({ id: major.id, isRegistered: true, tableId: null })]);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * poker_tournaments, poker_tournament_players, poker_tables and poker_seats for tournament tests,
+ * on a FakeDatabase, with NOW() read from Date.now() and a lock per tournament for FOR UPDATE
+ */
+
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+
+export interface TournamentRow {
+  id: number;
+  name: string;
+  tournament_type: 'sit_n_go' | 'scheduled';
+  buy_in: string;
+  entry_fee: string;
+  starting_chips: number;
+  max_players: number;
+  min_players: number;
+  table_size: number;
+  blind_structure: string;
+  blind_level: number;
+  level_started_at: Date | null;
+  late_registration_levels: number;
+  prize_structure: string;
+  prize_pool: string;
+  status: 'registering' | 'running' | 'finished' | 'cancelled';
+  starts_at: Date | null;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export interface EntrantRow {
+  tournament_id: number;
+  user_id: number;
+  chips: number;
+  table_id: number | null;
+  seat_position: number | null;
+  position_finished: number | null;
+  prize_won: number;
+  eliminated_at: Date | null;
+}
+
+export interface TableRow {
+  id: number;
+  name: string;
+  table_type: string;
+  max_players: number;
+  small_blind: number;
+  big_blind: number;
+  tournament_id: number;
+  is_active: boolean;
+}
+
+export interface SeatRow {
+  table_id: number;
+  user_id: number;
+  seat_position: number;
+  chips: number;
+  is_active: boolean;
+}
+
+export interface TournamentTables {
+  tournaments: TournamentRow[];
+  entrants: EntrantRow[];
+  tables: TableRow[];
+  seats: SeatRow[];
+  statsUpdates: Array<{ winnerId: number; tournamentId: number }>;
+  addTournament(values: Partial<TournamentRow>): TournamentRow;
+  activeSeats(tableId: number): SeatRow[];
+}
+
+const money = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+export function tournamentTables(db: FakeDatabase): TournamentTables {
+  const tournaments: TournamentRow[] = [];
+  const entrants: EntrantRow[] = [];
+  const tables: TableRow[] = [];
+  const seats: SeatRow[] = [];
+  const statsUpdates: Array<{ winnerId: number; tournamentId: number }> = [];
+
+  const tournament = (id: number) => tournaments.find(row => row.id === id)!;
+  const entrant = (tournamentId: number, userId: number) =>
+    entrants.find(row => row.tournament_id === tournamentId && row.user_id === userId);
+  const entrantsOf = (tournamentId: number) => entrants.filter(row => row.tournament_id === tournamentId);
+  const activeTables = (tournamentId: number) => tables.filter(row => row.tournament_id === tournamentId && row.is_active);
+  const activeSeats = (tableId: number) => seats.filter(row => row.table_id === tableId && row.is_active);
+  const update = <T>(row: T | undefined, values: Partial<T>) => {
+    if (row) Object.assign(row, values);
+    return { affectedRows: row ? 1 : 0 };
+  };
+
+  const addTournament = (values: Partial<TournamentRow>): TournamentRow => {
+    const row: TournamentRow = {
+      id: tournaments.length + 1, name: 'Test Sit & Go', tournament_type: 'sit_n_go', buy_in: '10.00',
+      entry_fee: '1.00', starting_chips: 1500, max_players: 6, min_players: 2, table_size: 6,
+      blind_structure: JSON.stringify([{ smallBlind: 10, bigBlind: 20, minutes: 5 }, { smallBlind: 20, bigBlind: 40, minutes: 5 }]),
+      blind_level: 0, level_started_at: null, late_registration_levels: 0, prize_structure: JSON.stringify([65, 35]),
+      prize_pool: '0.00', status: 'registering', starts_at: null, started_at: null, finished_at: null,
+      ...values
+    };
+    tournaments.push(row);
+    return row;
+  };
+
+  // SUMMARY_QUERY, grouped by tournament
+  const summary = (row: TournamentRow, userId: number) => {
+    const field = entrantsOf(row.id);
+    const mine = field.find(player => player.user_id === userId);
+    return {
+      ...row,
+      registered: field.length,
+      players_left: field.filter(player => player.position_finished === null).length,
+      is_registered: mine ? 1 : 0,
+      table_id: mine && mine.position_finished === null ? mine.table_id : null
+    };
+  };
+
+  db
+    .on(/^SELECT \* FROM poker_tournaments WHERE id = \? FOR UPDATE$/, async ([id], connection) => {
+      await connection!.lock(`poker_tournaments:${id}`);
+      return tournaments.filter(row => row.id === id).map(row => ({ ...row }));
+    })
+    .on(/^SELECT t\.\*, .* FROM poker_tournaments t LEFT JOIN poker_tournament_players tp .* WHERE t\.id = \?/, ([userId, , id]) =>
+      tournaments.filter(row => row.id === id).map(row => summary(row, userId)))
+    .on(/^SELECT t\.\*, .* FROM poker_tournaments t LEFT JOIN poker_tournament_players tp .* WHERE t\.status IN/, ([userId]) =>
+      tournaments.filter(row => ['registering', 'running'].includes(row.status)).map(row => summary(row, userId)))
+    .on(/^UPDATE poker_tournaments SET prize_pool = prize_pool ([+-]) \? WHERE id = \?$/, ([amount, id], _connection, statement) => {
+      const row = tournament(id);
+      const sign = statement.includes('prize_pool + ?') ? 1 : -1;
+      return update(row, { prize_pool: money(Number(row.prize_pool) + sign * Number(amount)) });
+    })
+    .on(/^UPDATE poker_tournaments SET status = 'running'/, ([id]) =>
+      update(tournament(id), { status: 'running', started_at: new Date(Date.now()), blind_level: 0, level_started_at: new Date(Date.now()) }))
+    .on(/^INSERT INTO poker_tournaments .* SELECT .* FROM poker_tournaments WHERE id = \?$/, ([id]) => {
+      const { name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players, table_size,
+        blind_structure, prize_structure } = tournament(id);
+      const row = addTournament({
+        name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players, table_size,
+        blind_structure, prize_structure, starts_at: new Date(Date.now())
+      });
+      return { insertId: row.id, affectedRows: 1 };
+    })
+    .on(/^UPDATE poker_tournaments SET status = '(finished|cancelled)', finished_at = NOW\(\) WHERE id = \?$/, ([id], _connection, statement) =>
+      update(tournament(id), { status: statement.includes("'finished'") ? 'finished' : 'cancelled', finished_at: new Date(Date.now()) }))
+    .on(/^SELECT id FROM poker_tournaments WHERE tournament_type = 'scheduled' AND status = 'registering' AND starts_at <= NOW\(\)$/, () =>
+      tournaments
+        .filter(row => row.tournament_type === 'scheduled' && row.status === 'registering' && row.starts_at!.getTime() <= Date.now())
+        .map(row => ({ id: row.id })))
+    .on(/^SELECT id, blind_level, blind_structure, TIMESTAMPDIFF\(SECOND, level_started_at, NOW\(\)\) AS elapsed FROM poker_tournaments WHERE status = 'running'$/, () =>
+      tournaments
+        .filter(row => row.status === 'running')
+        .map(row => ({
+          id: row.id, blind_level: row.blind_level, blind_structure: row.blind_structure,
+          elapsed: Math.floor((Date.now() - row.level_started_at!.getTime()) / 1000)
+        })))
+    .on(/^UPDATE poker_tournaments SET blind_level = \?, level_started_at = NOW\(\) WHERE id = \? AND blind_level = \?$/, ([level, id, current]) => {
+      const row = tournament(id);
+      return update(row.blind_level === current ? row : undefined, { blind_level: level, level_started_at: new Date(Date.now()) });
+    })
+    .on(/^SELECT user_id FROM poker_tournament_players WHERE tournament_id = \?$/, ([id]) =>
+      entrantsOf(id).map(row => ({ user_id: row.user_id })))
+    .on(/^INSERT INTO poker_tournament_players \(tournament_id, user_id, chips\)/, ([id, userId, chips]) => {
+      entrants.push({
+        tournament_id: id, user_id: userId, chips, table_id: null, seat_position: null,
+        position_finished: null, prize_won: 0, eliminated_at: null
+      });
+      return { affectedRows: 1 };
+    })
+    .on(/^DELETE FROM poker_tournament_players WHERE tournament_id = \? AND user_id = \?$/, ([id, userId]) => {
+      const row = entrant(id, userId);
+      if (row) entrants.splice(entrants.indexOf(row), 1);
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(/^SELECT tp\.user_id, tp\.table_id, ps\.chips FROM poker_tournament_players tp/, ([id]) =>
+      entrantsOf(id)
+        .filter(row => row.position_finished === null)
+        .map(row => ({
+          user_id: row.user_id,
+          table_id: row.table_id,
+          chips: activeSeats(row.table_id!).find(seat => seat.user_id === row.user_id)?.chips.toFixed(2) ?? null
+        })))
+    .on(/^UPDATE poker_tournament_players SET chips = 0, position_finished = \?/, ([position, id, userId]) =>
+      update(entrant(id, userId), { chips: 0, position_finished: position, eliminated_at: new Date(Date.now()) }))
+    .on(/^UPDATE poker_tournament_players SET chips = \? WHERE/, ([chips, id, userId]) =>
+      update(entrant(id, userId), { chips: Number(chips) }))
+    .on(/^UPDATE poker_tournament_players SET position_finished = 1 WHERE/, ([id, userId]) =>
+      update(entrant(id, userId), { position_finished: 1 }))
+    .on(/^UPDATE poker_tournament_players SET table_id = \?, seat_position = \?/, ([tableId, position, id, userId]) =>
+      update(entrant(id, userId), { table_id: tableId, seat_position: position }))
+    .on(/^UPDATE poker_tournament_players SET prize_won = \?/, ([amount, id, userId]) =>
+      update(entrant(id, userId), { prize_won: amount }))
+    .on(/^SELECT COUNT\(\*\) AS entrants FROM poker_tournament_players WHERE tournament_id = \?$/, ([id]) =>
+      [{ entrants: entrantsOf(id).length }])
+    .on(/^SELECT user_id, position_finished FROM poker_tournament_players WHERE tournament_id = \? AND position_finished <= \?/, ([id, places]) =>
+      entrantsOf(id)
+        .filter(row => row.position_finished !== null && row.position_finished <= places)
+        .sort((a, b) => a.position_finished! - b.position_finished!)
+        .map(row => ({ user_id: row.user_id, position_finished: row.position_finished })))
+    .on(/^SELECT tp\.user_id, u\.username, tp\.chips/, ([id]) =>
+      entrantsOf(id)
+        .sort((a, b) =>
+          Number(a.position_finished !== null) - Number(b.position_finished !== null) ||
+          (a.position_finished ?? 0) - (b.position_finished ?? 0) || b.chips - a.chips)
+        .map(row => ({ ...row, username: `player${row.user_id}`, chips: row.chips.toFixed(2), prize_won: money(row.prize_won) })))
+    .on(/^INSERT IGNORE INTO poker_player_stats/, () => ({ affectedRows: 1 }))
+    .on(/^UPDATE poker_player_stats SET tournaments_played/, ([winnerId, tournamentId]) => {
+      statsUpdates.push({ winnerId, tournamentId });
+      return { affectedRows: entrantsOf(tournamentId).length };
+    })
+    .on(/^SELECT tournament_id FROM poker_tables WHERE id = \?$/, ([id]) =>
+      tables.filter(row => row.id === id).map(row => ({ tournament_id: row.tournament_id })))
+    .on(/^SELECT COUNT\(\*\) AS tables FROM poker_tables WHERE tournament_id = \?$/, ([id]) =>
+      [{ tables: tables.filter(row => row.tournament_id === id).length }])
+    .on(/^INSERT INTO poker_tables/, ([name, type, maxPlayers, smallBlind, bigBlind, tournamentId]) => {
+      tables.push({
+        id: 100 + tables.length + 1, name, table_type: type, max_players: maxPlayers,
+        small_blind: smallBlind, big_blind: bigBlind, tournament_id: tournamentId, is_active: true
+      });
+      return { insertId: 100 + tables.length };
+    })
+    .on(/^UPDATE poker_tables SET is_active = false WHERE id = \?$/, ([id]) =>
+      update(tables.find(row => row.id === id), { is_active: false }))
+    .on(/^UPDATE poker_tables SET is_active = false WHERE tournament_id = \?$/, ([id]) => {
+      activeTables(id).forEach(row => { row.is_active = false; });
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE poker_tables SET small_blind = \?, big_blind = \? WHERE tournament_id = \? AND is_active = TRUE$/, ([smallBlind, bigBlind, id]) => {
+      activeTables(id).forEach(row => Object.assign(row, { small_blind: smallBlind, big_blind: bigBlind }));
+      return { affectedRows: activeTables(id).length };
+    })
+    .on(/^SELECT id FROM poker_tables WHERE tournament_id = \? AND is_active = TRUE$/, ([id]) =>
+      activeTables(id).map(row => ({ id: row.id })))
+    .on(/^SELECT pt\.id AS table_id, ps\.user_id, ps\.seat_position, ps\.chips FROM poker_tables pt/, ([id]) =>
+      activeTables(id).flatMap(table => {
+        const seated = activeSeats(table.id).sort((a, b) => a.seat_position - b.seat_position);
+        return seated.length === 0
+          ? [{ table_id: table.id, user_id: null, seat_position: null, chips: null }]
+          : seated.map(seat => ({ table_id: table.id, user_id: seat.user_id, seat_position: seat.seat_position, chips: seat.chips.toFixed(2) }));
+      }))
+    .on(/^SELECT pt\.id, pt\.name, COUNT\(ps\.id\) AS players FROM poker_tables pt/, ([id]) =>
+      activeTables(id).map(table => ({ id: table.id, name: table.name, players: activeSeats(table.id).length })))
+    .on(/^INSERT INTO poker_seats \(table_id, user_id, seat_position, chips\)/, ([tableId, userId, position, chips]) => {
+      seats.push({ table_id: tableId, user_id: userId, seat_position: position, chips: Number(chips), is_active: true });
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE poker_seats SET is_active = false, left_at = NOW\(\) WHERE table_id = \? AND user_id = \?/, ([tableId, userId]) =>
+      update(activeSeats(tableId).find(seat => seat.user_id === userId), { is_active: false }))
+    .on(/^UPDATE poker_seats ps JOIN poker_tables pt/, ([id]) => {
+      tables.filter(table => table.tournament_id === id).forEach(table => activeSeats(table.id).forEach(seat => { seat.is_active = false; }));
+      return { affectedRows: 1 };
+    });
+
+  return { tournaments, entrants, tables, seats, statsUpdates, addTournament, activeSeats };
+}
@@ -0,0 +1,212 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { TokenService } from '../tokenService';
+import { TwoFactorError, TwoFactorService } from '../twoFactorService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+// Failure counters only; expiry is not modelled
+const mockRedis = new Map<string, number>();
+jest.mock('../../config/redis', () => ({
+  getRedisClient: () => ({
+    get: async (key: string) => (mockRedis.has(key) ? String(mockRedis.get(key)) : null),
+    del: async (key: string) => mockRedis.delete(key),
+    multi: () => {
+      const chain = {
+        incr: (key: string) => {
+          mockRedis.set(key, (mockRedis.get(key) || 0) + 1);
+          return chain;
+        },
+        expire: () => chain,
+        exec: async () => []
+      };
+      return chain;
+    }
+  })
+}));
+
+const USER = 7;
+const STEP_MS = 30 * 1000;
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", last six digits of each code
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TwoFactorService', () => {
+  let now: number;
+  let settings: any | null;
+  let recoveryCodes: Array<{ code_hash: string; used_at: Date | null }>;
+
+  const codeAt = (secret: string, offsetSteps = 0) =>
+    TwoFactorService.generateCode(secret, Math.floor(now / STEP_MS) + offsetSteps);
+
+  const enable = async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(USER, 'player');
+    const codes = await TwoFactorService.confirmEnrollment(USER, codeAt(secret));
+    now += STEP_MS;
+    return { secret, codes };
+  };
+
+  beforeAll(() => {
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-two-factor-key';
+    process.env.JWT_SECRET = 'test-jwt-secret';
+  });
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    mockRedis.clear();
+    now = Date.UTC(2026, 0, 15, 12);
+    settings = null;
+    recoveryCodes = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    mockDb
+      .on(/^SELECT is_enabled FROM user_two_factor WHERE user_id = \?$/, () => (settings ? [{ is_enabled: settings.is_enabled }] : []))
+      .on(/^SELECT secret_encrypted, is_enabled FROM user_two_factor WHERE user_id = \?$/, () => (settings ? [{ ...settings }] : []))
+      .on(/^SELECT secret_encrypted FROM user_two_factor WHERE user_id = \? AND is_enabled = TRUE$/, () =>
+        (settings?.is_enabled ? [{ secret_encrypted: settings.secret_encrypted }] : []))
+      .on(/^INSERT INTO user_two_factor/, ([, secret]) => {
+        settings = { ...settings, secret_encrypted: secret, is_enabled: settings?.is_enabled ?? false, last_used_step: null };
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE user_two_factor SET is_enabled = TRUE/, ([step]) => {
+        Object.assign(settings, { is_enabled: true, last_used_step: step });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE user_two_factor SET last_used_step = \?/, ([step]) => {
+        if (settings.last_used_step !== null && settings.last_used_step >= step) return { affectedRows: 0 };
+        settings.last_used_step = step;
+        return { affectedRows: 1 };
+      })
+      .on(/^DELETE FROM user_two_factor WHERE user_id = \?$/, () => {
+        settings = null;
+        return { affectedRows: 1 };
+      })
+      .on(/^SELECT COUNT\(\*\) AS remaining FROM user_recovery_codes/, () =>
+        [{ remaining: recoveryCodes.filter(code => !code.used_at).length }])
+      .on(/^DELETE FROM user_recovery_codes WHERE user_id = \?$/, () => {
+        recoveryCodes = [];
+        return { affectedRows: 1 };
+      })
+      .on(/^INSERT INTO user_recovery_codes/, ([, hash]) => {
+        recoveryCodes.push({ code_hash: hash, used_at: null });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE user_recovery_codes SET used_at = NOW\(\)/, ([, hash]) => {
+        const code = recoveryCodes.find(row => row.code_hash === hash && !row.used_at);
+        if (code) code.used_at = new Date(now);
+        return { affectedRows: code ? 1 : 0 };
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('codes', () => {
+    it('matches the RFC 6238 test vectors', () => {
+      expect(TwoFactorService.generateCode(RFC_SECRET, 1)).toBe('287082');
+      expect(TwoFactorService.generateCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(TwoFactorService.generateCode(RFC_SECRET, Math.floor(2000000000 / 30))).toBe('279037');
+    });
+
+    it('accepts the codes either side of the current step for clock skew, and no further', () => {
+      const step = Math.floor(now / STEP_MS);
+
+      for (const drift of [-1, 0, 1]) {
+        expect(TwoFactorService.matchStep(RFC_SECRET, TwoFactorService.generateCode(RFC_SECRET, step + drift), now)).toBe(step + drift);
+      }
+      expect(TwoFactorService.matchStep(RFC_SECRET, TwoFactorService.generateCode(RFC_SECRET, step + 2), now)).toBeNull();
+      expect(TwoFactorService.matchStep(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  describe('enrollment', () => {
+    it('gives an otpauth URI and stays off until confirmed with a code', async () => {
+      const setup = await TwoFactorService.beginEnrollment(USER, 'player');
+
+      expect(setup.otpauthUri).toBe(
+        `otpauth://totp/Gamble%20Fun%20Casino%3Aplayer?secret=${setup.secret}&issuer=Gamble+Fun+Casino&algorithm=SHA1&digits=6&period=30`
+      );
+      expect(settings.secret_encrypted).not.toContain(setup.secret);
+      await expect(TwoFactorService.isEnabled(USER)).resolves.toBe(false);
+
+      await expect(TwoFactorService.confirmEnrollment(USER, '000000')).rejects.toThrow(new TwoFactorError('Invalid verification code'));
+      const codes = await TwoFactorService.confirmEnrollment(USER, codeAt(setup.secret));
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      await expect(TwoFactorService.getStatus(USER)).resolves.toEqual({ enabled: true, recoveryCodesRemaining: 10 });
+    });
+
+    it('refuses to enroll again while enabled', async () => {
+      await enable();
+
+      const error: any = await TwoFactorService.beginEnrollment(USER, 'player').catch(caught => caught);
+      expect(error).toBeInstanceOf(TwoFactorError);
+      expect(error.status).toBe(409);
+    });
+  });
+
+  describe('verify', () => {
+    it('accepts a current code once, so an observed code cannot be replayed', async () => {
+      const { secret } = await enable();
+      const code = codeAt(secret);
+
+      await expect(TwoFactorService.verify(USER, code)).resolves.toBeUndefined();
+      await expect(TwoFactorService.verify(USER, code)).rejects.toThrow('Invalid verification code');
+      // The enrollment code's step is used up as well
+      await expect(TwoFactorService.verify(USER, codeAt(secret, -1))).rejects.toThrow('Invalid verification code');
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { codes } = await enable();
+
+      await expect(TwoFactorService.verify(USER, codes[3].toUpperCase())).resolves.toBeUndefined();
+      await expect(TwoFactorService.verify(USER, codes[3])).rejects.toThrow('Invalid verification code');
+      await expect(TwoFactorService.getStatus(USER)).resolves.toEqual({ enabled: true, recoveryCodesRemaining: 9 });
+    });
+
+    it('locks the second step after five invalid codes, even for a valid one', async () => {
+      const { secret } = await enable();
+
+      for (let i = 0; i < 5; i++) {
+        await expect(TwoFactorService.verify(USER, '000000')).rejects.toThrow('Invalid verification code');
+      }
+      const error: any = await TwoFactorService.verify(USER, codeAt(secret)).catch(caught => caught);
+
+      expect(error.status).toBe(429);
+      expect(settings.last_used_step).toBe(Math.floor(now / STEP_MS) - 1);
+    });
+
+    it('needs a valid code to turn 2FA off', async () => {
+      const { secret } = await enable();
+
+      await expect(TwoFactorService.disable(USER, '000000')).rejects.toThrow('Invalid verification code');
+      await TwoFactorService.disable(USER, codeAt(secret));
+
+      await expect(TwoFactorService.getStatus(USER)).resolves.toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+      expect(recoveryCodes).toHaveLength(0);
+    });
+  });
+
+  describe('login challenge', () => {
+    it('carries the user through to the second step', () => {
+      expect(TwoFactorService.verifyChallenge(TwoFactorService.createChallenge(USER))).toBe(USER);
+    });
+
+    it('refuses a token issued for anything else', () => {
+      const other = jwt.sign({ id: USER, purpose: 'password_reset' }, TokenService.jwtSecret());
+
+      let error: any;
+      try {
+        TwoFactorService.verifyChallenge(other);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(TwoFactorError);
+      expect(error.status).toBe(401);
+    });
+  });
+});
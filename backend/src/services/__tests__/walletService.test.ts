@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeDatabase } from '../../__tests__/fakeDatabase';
+import { LedgerService } from '../ledgerService';
+import { RealityCheckService } from '../realityCheckService';
+import { ResponsibleGamblingService } from '../responsibleGamblingService';
+import { WalletError, WalletService } from '../walletService';
+
+let mockDb: FakeDatabase;
+jest.mock('../../config/database', () => require('../../__tests__/fakeDatabase').fakeDatabaseModule(() => mockDb));
+
+const USER = 7;
+
+describe('WalletService', () => {
+  let balance: number;
+  let transactions: any[];
+  let checkEntry: jest.SpiedFunction<typeof ResponsibleGamblingService.checkEntry>;
+
+  beforeEach(() => {
+    mockDb = new FakeDatabase();
+    balance = 15;
+    transactions = [];
+
+    checkEntry = jest.spyOn(ResponsibleGamblingService, 'checkEntry').mockResolvedValue(null);
+    jest.spyOn(RealityCheckService, 'recordEntry').mockResolvedValue(undefined);
+    jest.spyOn(LedgerService, 'post').mockResolvedValue(1);
+
+    mockDb
+      .on(/^SELECT balance FROM users WHERE id = \? AND is_active = TRUE FOR UPDATE$/, async ([userId], connection) => {
+        await connection!.lock(`users:${userId}`);
+        return [{ balance: balance.toFixed(2) }];
+      })
+      .on(/^INSERT INTO transactions/, ([userId, type, amount, before, after]) => {
+        transactions.push({ userId, type, amount, before, after });
+        return { insertId: transactions.length };
+      })
+      .on(/^UPDATE users SET balance = balance \+ \? WHERE id = \?$/, ([delta]) => {
+        balance = Math.round((balance + delta) * 100) / 100;
+        return { affectedRows: 1 };
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets only one of two concurrent stakes spend the same funds', async () => {
+    const stake = () => WalletService.transact(USER, [{ type: 'bet', amount: -10, description: 'Bet' }]);
+
+    const results = await Promise.allSettled([stake(), stake()]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const refused = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(refused.reason).toEqual(new WalletError('Insufficient balance'));
+    expect(balance).toBe(5);
+    expect(transactions).toEqual([{ userId: USER, type: 'bet', amount: -10, before: 15, after: 5 }]);
+  });
+
+  it('applies several entries against the running balance', async () => {
+    const wallet = await WalletService.transact(USER, [
+      { type: 'bet', amount: -10, description: 'Bet' },
+      { type: 'win', amount: 25.5, description: 'Win' }
+    ]);
+
+    expect(wallet).toEqual({ balanceBefore: 15, balance: 30.5, results: [] });
+    expect(balance).toBe(30.5);
+    expect(transactions.map(entry => [entry.before, entry.after])).toEqual([[15, 5], [5, 30.5]]);
+  });
+
+  it('refuses an entry over a responsible gambling limit with a 403 and changes nothing', async () => {
+    checkEntry.mockResolvedValue('Your daily wager limit has been reached');
+
+    const error: any = await WalletService.transact(USER, [{ type: 'bet', amount: -10, description: 'Bet' }])
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(WalletError);
+    expect(error.status).toBe(403);
+    expect(error.message).toBe('Your daily wager limit has been reached');
+    expect(balance).toBe(15);
+    expect(transactions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Account Service
+ * Email verification, password reset, password change and account closure. Links carry signed, expiring
+ * tokens instead of stored ones: a verification token names the address it verifies, and
+ * a reset token carries a fingerprint of the password hash it was issued for, so it works
+ * only until the password changes. Closing an account anonymizes it rather than deleting it,
+ * so bets, transactions, purchases and poker history stay available for audit.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { executeQuery, withTransaction } from '../config/database';
+import { getRedisClient } from '../config/redis';
+import { MailService } from './mailService';
+import { TokenService } from './tokenService';
+import { DataExportService } from './dataExportService';
+
+export class AccountError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+interface AccountUser {
+  id: number;
+  username: string;
+  email: string;
+}
+
+type EmailPurpose = 'verify_email' | 'reset_password';
+
+const VERIFY_EMAIL_TTL = '24h';
+const RESET_PASSWORD_TTL = '1h';
+const EMAIL_COOLDOWN_SECONDS = 60; // One email of each kind per account per minute
+const BCRYPT_ROUNDS = 10;
+
+const passwordFingerprint = (passwordHash: string) =>
+  crypto.createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+
+const cooldownKey = (purpose: EmailPurpose, userId: number) => `auth:email_cooldown:${purpose}:${userId}`;
+
+const appUrl = (route: string, token: string) =>
+  `${process.env.FRONTEND_URL || 'http://localhost:3000'}${route}?token=${encodeURIComponent(token)}`;
+
+export class AccountService {
+
+  /**
+   * Email a verification link to the user's current address. Returns false when one was
+   * sent less than a minute ago.
+   */
+  static async sendVerificationEmail(user: AccountUser): Promise<boolean> {
+    if (!(await this.claimCooldown('verify_email', user.id))) {
+      return false;
+    }
+
+    const token = this.signToken({ id: user.id, email: user.email }, 'verify_email', VERIFY_EMAIL_TTL);
+    await MailService.send({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: `Hi ${user.username},\n\n` +
+        `Confirm the email address for your Gamble Fun Casino account by opening this link:\n\n` +
+        `${appUrl('/verify-email', token)}\n\n` +
+        `The link is valid for 24 hours. If you did not create an account, ignore this email.`
+    });
+    return true;
+  }
+
+  /**
+   * Mark the address in a verification token as verified. Verifying twice is not an error.
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    const payload = this.verifyToken(token, 'verify_email');
+
+    // A token for an address the account no longer uses is dead
+    const users = await executeQuery(
+      'SELECT id FROM users WHERE id = ? AND email = ? AND is_active = TRUE',
+      [payload.id, payload.email]
+    );
+    if (users.length === 0) {
+      throw new AccountError('This verification link is no longer valid');
+    }
+
+    await executeQuery(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = ?',
+      [payload.id]
+    );
+  }
+
+  /**
+   * Email a reset link if the address belongs to an active account. Never reveals whether it
+   * does, so callers report success either way.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const users = await executeQuery(
+      'SELECT id, username, email, password_hash FROM users WHERE email = ? AND is_active = TRUE',
+      [email]
+    );
+    if (users.length === 0) {
+      return;
+    }
+
+    const user = users[0];
+    if (!(await this.claimCooldown('reset_password', user.id))) {
+      return;
+    }
+
+    const token = this.signToken(
+      { id: user.id, pwd: passwordFingerprint(user.password_hash) },
+      'reset_password',
+      RESET_PASSWORD_TTL
+    );
+    await MailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.username},\n\n` +
+        `Someone asked to reset the password for your Gamble Fun Casino account. ` +
+        `To choose a new password, open this link:\n\n` +
+        `${appUrl('/reset-password', token)}\n\n` +
+        `The link is valid for 1 hour and works once. If you did not ask for this, ignore this email; ` +
+        `your password has not changed.`
+    });
+  }
+
+  /**
+   * Set a new password from a reset link and sign out every session. Returns the user id.
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<number> {
+    const payload = this.verifyToken(token, 'reset_password');
+
+    const users = await executeQuery(
+      'SELECT id, password_hash FROM users WHERE id = ? AND is_active = TRUE',
+      [payload.id]
+    );
+    if (users.length === 0 || passwordFingerprint(users[0].password_hash) !== payload.pwd) {
+      throw new AccountError('This reset link has already been used or is no longer valid');
+    }
+
+    // The link reached the mailbox, which also proves the address
+    const updated = await this.updatePassword(payload.id, users[0].password_hash, newPassword, true);
+    if (!updated) {
+      throw new AccountError('This reset link has already been used or is no longer valid');
+    }
+
+    await TokenService.revokeAllSessions(payload.id);
+    return payload.id;
+  }
+
+  /**
+   * Change the password of a signed-in user. Other sessions are signed out; returns their ids.
+   */
+  static async changePassword(
+    userId: number,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId: string
+  ): Promise<string[]> {
+    const users = await executeQuery(
+      'SELECT id, username, email, password_hash FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+    if (users.length === 0) {
+      throw new AccountError('User not found', 404);
+    }
+
+    const user = users[0];
+    if (!(await bcrypt.compare(currentPassword, user.password_hash))) {
+      throw new AccountError('Current password is incorrect', 403);
+    }
+    if (await bcrypt.compare(newPassword, user.password_hash)) {
+      throw new AccountError('New password must be different from the current one');
+    }
+
+    if (!(await this.updatePassword(userId, user.password_hash, newPassword, false))) {
+      throw new AccountError('Password was changed by another request; try again', 409);
+    }
+
+    const revoked = await TokenService.revokeOtherSessions(userId, currentSessionId);
+
+    // A heads-up to the owner; the change itself already succeeded
+    MailService.send({
+      to: user.email,
+      subject: 'Your password was changed',
+      text: `Hi ${user.username},\n\n` +
+        `The password for your Gamble Fun Casino account was just changed and your other devices ` +
+        `were signed out. If this was not you, reset your password right away.`
+    }).catch(error => console.error('Password change notice error:', error));
+
+    return revoked;
+  }
+
+  /**
+   * Close the user's account for good. Personal details are replaced with placeholders and
+   * 2FA secrets, recovery codes, stored responses and data exports are deleted; the financial
+   * history stays, tied to the anonymous account. Every session is signed out.
+   */
+  static async closeAccount(userId: number, password: string): Promise<void> {
+    const users = await executeQuery(
+      'SELECT id, username, email, password_hash FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+    if (users.length === 0) {
+      throw new AccountError('User not found', 404);
+    }
+
+    const user = users[0];
+    if (!(await bcrypt.compare(password, user.password_hash))) {
+      throw new AccountError('Password is incorrect', 403);
+    }
+
+    const unfinished = await this.unfinishedPlay(userId);
+    if (unfinished) {
+      throw new AccountError(unfinished, 409);
+    }
+
+    // Nobody knows this password, so the account can never be signed in to again
+    const unusableHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), BCRYPT_ROUNDS);
+
+    await withTransaction(async (connection) => {
+      const [closed]: any = await connection.execute(
+        `UPDATE users
+         SET username = CONCAT('closed_', id), email = CONCAT('closed_', id, '@closed.invalid'),
+             password_hash = ?, email_verified_at = NULL, last_login = NULL, reality_check_minutes = NULL,
+             is_active = FALSE, closed_at = NOW()
+         WHERE id = ? AND is_active = TRUE`,
+        [unusableHash, userId]
+      );
+      if (closed.affectedRows === 0) {
+        throw new AccountError('User not found', 404);
+      }
+
+      await connection.execute('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+      await connection.execute('DELETE FROM user_two_factor WHERE user_id = ?', [userId]);
+      await connection.execute('DELETE FROM idempotency_keys WHERE user_id = ?', [userId]);
+      await connection.execute(
+        `UPDATE admin_audit_log SET username = CONCAT('closed_', user_id), ip_address = NULL
+         WHERE user_id = ?`,
+        [userId]
+      );
+    });
+
+    await TokenService.revokeAllSessions(userId);
+    await DataExportService.discardExports(userId);
+
+    // Sent to the address we just removed, as the last thing we do with it
+    MailService.send({
+      to: user.email,
+      subject: 'Your account has been closed',
+      text: `Hi ${user.username},\n\n` +
+        `Your Gamble Fun Casino account has been closed and your personal details removed. ` +
+        `Records of your play and purchases are kept, without your name or email address, ` +
+        `as required for audit.`
+    }).catch(error => console.error('Account closure notice error:', error));
+  }
+
+  /**
+   * Why the account cannot be closed yet, or null when nothing is in play
+   */
+  private static async unfinishedPlay(userId: number): Promise<string | null> {
+    const [seats, tournaments, rounds, crashBets, autoBets] = await Promise.all([
+      executeQuery('SELECT id FROM poker_seats WHERE user_id = ? AND is_active = TRUE LIMIT 1', [userId]),
+      executeQuery(
+        `SELECT tp.id FROM poker_tournament_players tp
+         JOIN poker_tournaments t ON t.id = tp.tournament_id
+         WHERE tp.user_id = ? AND t.status IN ('registering', 'running') LIMIT 1`,
+        [userId]
+      ),
+      executeQuery("SELECT id FROM blackjack_rounds WHERE user_id = ? AND status = 'active' LIMIT 1", [userId]),
+      executeQuery("SELECT id FROM crash_bets WHERE user_id = ? AND status = 'active' LIMIT 1", [userId]),
+      executeQuery("SELECT id FROM auto_bet_sessions WHERE user_id = ? AND status = 'running' LIMIT 1", [userId])
+    ]);
+
+    if (seats.length > 0) return 'Leave your poker tables before closing your account';
+    if (tournaments.length > 0) return 'Unregister from your tournaments, or wait for them to finish, before closing your account';
+    if (rounds.length > 0) return 'Finish your blackjack hand before closing your account';
+    if (crashBets.length > 0) return 'Wait for your crash bet to settle before closing your account';
+    if (autoBets.length > 0) return 'Stop auto-bet before closing your account';
+    return null;
+  }
+
+  /**
+   * Swap the hash only if it is still the one we checked, so two resets cannot both win
+   */
+  private static async updatePassword(
+    userId: number,
+    expectedHash: string,
+    newPassword: string,
+    markEmailVerified: boolean
+  ): Promise<boolean> {
+    const passwordHash = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
+    const result = await executeQuery(
+      `UPDATE users SET password_hash = ?, password_changed_at = NOW()
+       ${markEmailVerified ? ', email_verified_at = COALESCE(email_verified_at, NOW())' : ''}
+       WHERE id = ? AND password_hash = ?`,
+      [passwordHash, userId, expectedHash]
+    );
+    return result.affectedRows > 0;
+  }
+
+  private static async claimCooldown(purpose: EmailPurpose, userId: number): Promise<boolean> {
+    const claimed = await getRedisClient().set(cooldownKey(purpose, userId), '1', {
+      NX: true,
+      EX: EMAIL_COOLDOWN_SECONDS
+    });
+    return claimed === 'OK';
+  }
+
+  private static signToken(claims: Record<string, unknown>, purpose: EmailPurpose, expiresIn: SignOptions['expiresIn']): string {
+    return jwt.sign({ ...claims, purpose }, TokenService.jwtSecret(), { expiresIn });
+  }
+
+  private static verifyToken(token: string, purpose: EmailPurpose): any {
+    let payload: any;
+    try {
+      payload = jwt.verify(token, TokenService.jwtSecret());
+    } catch (error) {
+      throw new AccountError(purpose === 'verify_email'
+        ? 'This verification link is invalid or has expired'
+        : 'This reset link is invalid or has expired');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new AccountError('This link is not valid here');
+    }
+    return payload;
+  }
+}
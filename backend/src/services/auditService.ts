@@ -0,0 +1,86 @@
+/**
+ * Audit Service
+ * Append-only trail of privileged actions taken through admin routes and socket events
+ */
+
+import { executeQuery } from '../config/database';
+
+export interface AuditEntry {
+  userId: number;
+  username: string;
+  role: string;
+  action: string;
+  method?: string | null;
+  path?: string | null;
+  params?: any;
+  statusCode?: number | null;
+  ipAddress?: string | null;
+}
+
+export class AuditService {
+
+  /**
+   * Write one entry. Failures are logged rather than thrown so auditing never breaks the action.
+   */
+  static async record(entry: AuditEntry): Promise<void> {
+    try {
+      await executeQuery(
+        `INSERT INTO admin_audit_log
+         (user_id, username, role, action, method, path, params, status_code, ip_address)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.userId,
+          entry.username,
+          entry.role || 'player',
+          entry.action,
+          entry.method ?? null,
+          entry.path ?? null,
+          entry.params === undefined ? null : JSON.stringify(entry.params),
+          entry.statusCode ?? null,
+          entry.ipAddress ?? null
+        ]
+      );
+    } catch (error) {
+      console.error('Audit log error:', error);
+    }
+  }
+
+  /**
+   * Most recent entries first, optionally filtered by acting user or action
+   */
+  static async list(filters: { userId?: number; action?: string; limit: number; offset: number }): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.userId) {
+      conditions.push('user_id = ?');
+      params.push(filters.userId);
+    }
+    if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await executeQuery(
+      `SELECT * FROM admin_audit_log ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, filters.limit, filters.offset]
+    );
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      userId: row.user_id,
+      username: row.username,
+      role: row.role,
+      action: row.action,
+      method: row.method,
+      path: row.path,
+      params: typeof row.params === 'string' ? JSON.parse(row.params) : row.params,
+      statusCode: row.status_code,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at
+    }));
+  }
+}
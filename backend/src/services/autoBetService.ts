@@ -0,0 +1,433 @@
+/**
+ * Auto-Bet Service
+ * Runs dice and crash strategies server-side so they keep going without the client.
+ * Dice bets go through BetService on a timer; crash bets join every shared round.
+ * Progress is streamed to the player's `user_${userId}` room. Sessions run on the leader instance,
+ * which starts, stops and reports them for the others.
+ */
+
+import { Server } from 'socket.io';
+import { executeQuery } from '../config/database';
+import { BetService, BetError } from './betService';
+import { WalletError } from './walletService';
+import { CrashError } from './crashService';
+import { LeaderLease } from './leaderLease';
+import CrashGameManager from '../socket/crashHandler';
+
+export type AutoBetGameType = 'dice' | 'crash';
+
+export interface AutoBetAdjustment {
+  action: 'reset' | 'increase';
+  percent: number;
+}
+
+export interface AutoBetConfig {
+  gameType: AutoBetGameType;
+  baseBet: number;
+  target?: number;    // Dice
+  isOver?: boolean;   // Dice
+  cashOutAt?: number; // Crash auto cash out
+  onWin: AutoBetAdjustment;
+  onLoss: AutoBetAdjustment;
+  stopOnProfit?: number | null;
+  stopOnLoss?: number | null;
+  maxRounds?: number | null;
+}
+
+export interface AutoBetSession {
+  id: number;
+  userId: number;
+  username: string;
+  config: AutoBetConfig;
+  roundsPlayed: number;
+  totalWagered: number;
+  totalWon: number;
+  currentBet: number;
+  gameId: number | null;       // Dice game row used for BetService
+  pendingRoundId: number | null; // Crash round the session has a bet in
+  timer: NodeJS.Timeout | null;
+}
+
+export class AutoBetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AutoBetError';
+  }
+}
+
+const DICE_INTERVAL_MS = 1000;
+
+export class AutoBetService {
+  private static sessions: Map<number, AutoBetSession> = new Map(); // userId -> session
+  private static io: Server;
+  private static crashManager: CrashGameManager;
+
+  /**
+   * Hook into the crash round loop; the leader resumes the sessions left running by the previous one
+   */
+  static initialize(socketIO: Server, crashManager: CrashGameManager): void {
+    this.io = socketIO;
+    this.crashManager = crashManager;
+
+    crashManager.on('betting', (roundId: number) => this.onCrashBetting(roundId));
+    crashManager.on('settled', (summary: any) => this.onCrashSettled(summary));
+    crashManager.on('cancelled', (roundId: number) => this.onCrashCancelled(roundId));
+
+    LeaderLease.handle('autobet:start', (userId: number, config: AutoBetConfig) => this.start(userId, config), [AutoBetError]);
+    LeaderLease.handle('autobet:stop', (userId: number) => this.stop(userId), [AutoBetError]);
+    LeaderLease.handle('autobet:current', (userId: number) => this.current(userId));
+
+    LeaderLease.onElected(() => this.resume());
+    LeaderLease.onDemoted(() => this.suspend());
+  }
+
+  /**
+   * Start a session; a player can only run one at a time
+   */
+  static async startSession(userId: number, config: AutoBetConfig): Promise<any> {
+    return LeaderLease.call('autobet:start', userId, config);
+  }
+
+  /**
+   * Stop the player's running session. A crash bet already placed still settles with its round.
+   */
+  static async stopSession(userId: number): Promise<any> {
+    return LeaderLease.call('autobet:stop', userId);
+  }
+
+  /**
+   * The running session, or the most recent one so the client can show how it ended
+   */
+  static async getCurrentSession(userId: number): Promise<any | null> {
+    return LeaderLease.call('autobet:current', userId);
+  }
+
+  private static async resume(): Promise<void> {
+    try {
+      const rows = await executeQuery(
+        `SELECT s.*, u.username FROM auto_bet_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.status = 'running'`
+      );
+
+      for (const row of rows) {
+        if (this.sessions.has(row.user_id)) continue; // Started since the election
+        const session = await this.fromRow(row);
+        this.sessions.set(session.userId, session);
+        this.schedule(session);
+      }
+
+      if (rows.length > 0) {
+        console.log(`🔁 Resumed ${rows.length} auto-bet sessions`);
+      }
+    } catch (error) {
+      console.error('Auto-bet resume error:', error);
+    }
+  }
+
+  /**
+   * Let go of the sessions without stopping them, for the next leader to resume
+   */
+  private static suspend(): void {
+    for (const session of this.sessions.values()) {
+      if (session.timer) {
+        clearTimeout(session.timer);
+        session.timer = null;
+      }
+    }
+    this.sessions.clear();
+  }
+
+  private static async start(userId: number, config: AutoBetConfig): Promise<any> {
+    if (this.sessions.has(userId)) {
+      throw new AutoBetError('An auto-bet session is already running');
+    }
+
+    const users = await executeQuery(
+      'SELECT username FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+    if (users.length === 0) {
+      throw new AutoBetError('User not found');
+    }
+
+    const gameId = config.gameType === 'dice' ? await this.getDiceGameId() : null;
+
+    let result;
+    try {
+      result = await executeQuery(
+        `INSERT INTO auto_bet_sessions (user_id, game_type, config, current_bet)
+         VALUES (?, ?, ?, ?)`,
+        [userId, config.gameType, JSON.stringify(config), config.baseBet]
+      );
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new AutoBetError('An auto-bet session is already running');
+      }
+      throw error;
+    }
+
+    const session: AutoBetSession = {
+      id: result.insertId,
+      userId,
+      username: users[0].username,
+      config,
+      roundsPlayed: 0,
+      totalWagered: 0,
+      totalWon: 0,
+      currentBet: config.baseBet,
+      gameId,
+      pendingRoundId: null,
+      timer: null
+    };
+
+    this.sessions.set(userId, session);
+    this.schedule(session);
+
+    return this.toPublicSession(session, 'running');
+  }
+
+  private static async stop(userId: number): Promise<any> {
+    const session = this.sessions.get(userId);
+    if (!session) {
+      throw new AutoBetError('No auto-bet session is running');
+    }
+
+    await this.finish(session, 'stopped', 'Stopped by player');
+    return this.toPublicSession(session, 'stopped', 'Stopped by player');
+  }
+
+  private static async current(userId: number): Promise<any | null> {
+    const session = this.sessions.get(userId);
+    if (session) {
+      return this.toPublicSession(session, 'running');
+    }
+
+    const rows = await executeQuery(
+      `SELECT * FROM auto_bet_sessions WHERE user_id = ?
+       ORDER BY created_at DESC, id DESC LIMIT 1`,
+      [userId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+    return {
+      id: row.id,
+      status: row.status,
+      stopReason: row.stop_reason,
+      config: typeof row.config === 'string' ? JSON.parse(row.config) : row.config,
+      roundsPlayed: row.rounds_played,
+      totalWagered: parseFloat(row.total_wagered),
+      totalWon: parseFloat(row.total_won),
+      profit: Math.round((parseFloat(row.total_won) - parseFloat(row.total_wagered)) * 100) / 100,
+      currentBet: parseFloat(row.current_bet)
+    };
+  }
+
+  private static schedule(session: AutoBetSession): void {
+    // Crash sessions wait for the next betting window instead
+    if (session.config.gameType === 'dice') {
+      session.timer = setTimeout(() => this.playDice(session), DICE_INTERVAL_MS);
+    }
+  }
+
+  private static async playDice(session: AutoBetSession): Promise<void> {
+    session.timer = null;
+    if (this.sessions.get(session.userId) !== session) {
+      return;
+    }
+
+    const betAmount = session.currentBet;
+    try {
+      const { gameResult, newBalance } = await BetService.placeBet(
+        session.userId,
+        session.gameId as number,
+        betAmount,
+        { target: session.config.target, isOver: session.config.isOver }
+      );
+
+      this.io.to(`user_${session.userId}`).emit('balance:update', { balance: newBalance });
+      await this.recordRound(session, betAmount, gameResult.winAmount, gameResult.result);
+    } catch (error) {
+      if (error instanceof BetError || error instanceof WalletError) {
+        await this.finish(session, 'stopped', error.message);
+      } else {
+        console.error('Auto-bet dice error:', error);
+        await this.finish(session, 'stopped', 'Bet failed');
+      }
+      return;
+    }
+
+    if (this.sessions.get(session.userId) === session) {
+      this.schedule(session);
+    }
+  }
+
+  private static async onCrashBetting(roundId: number): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.config.gameType !== 'crash' || session.pendingRoundId !== null) {
+        continue;
+      }
+
+      session.pendingRoundId = roundId;
+      try {
+        await this.crashManager.placeBet(
+          session.userId, session.username, session.currentBet, session.config.cashOutAt as number
+        );
+      } catch (error) {
+        session.pendingRoundId = null;
+        if (error instanceof CrashError) {
+          await this.finish(session, 'stopped', error.message);
+        } else {
+          console.error('Auto-bet crash error:', error);
+          await this.finish(session, 'stopped', 'Bet failed');
+        }
+      }
+    }
+  }
+
+  private static async onCrashSettled(summary: any): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.pendingRoundId !== summary.roundId) {
+        continue;
+      }
+
+      session.pendingRoundId = null;
+      const player = summary.players.find((p: any) => p.userId === session.userId);
+      if (!player) {
+        continue;
+      }
+
+      try {
+        await this.recordRound(session, player.betAmount, player.winAmount, {
+          crashPoint: summary.crashPoint,
+          cashedOutAt: player.cashedOutAt
+        });
+      } catch (error) {
+        console.error('Auto-bet crash progress error:', error);
+      }
+    }
+  }
+
+  /**
+   * A cancelled round's stakes were refunded; it does not count, so bet again next round
+   */
+  private static onCrashCancelled(roundId: number): void {
+    for (const session of this.sessions.values()) {
+      if (session.pendingRoundId === roundId) {
+        session.pendingRoundId = null;
+      }
+    }
+  }
+
+  /**
+   * Apply a finished round: totals, next stake, stop limits, then persist and notify
+   */
+  private static async recordRound(session: AutoBetSession, betAmount: number, winAmount: number, result: any): Promise<void> {
+    const { config } = session;
+    const isWin = winAmount > betAmount;
+
+    session.roundsPlayed++;
+    session.totalWagered = Math.round((session.totalWagered + betAmount) * 100) / 100;
+    session.totalWon = Math.round((session.totalWon + winAmount) * 100) / 100;
+    session.currentBet = this.nextBet(session.currentBet, config.baseBet, isWin ? config.onWin : config.onLoss);
+
+    await executeQuery(
+      `UPDATE auto_bet_sessions
+       SET rounds_played = ?, total_wagered = ?, total_won = ?, current_bet = ?
+       WHERE id = ?`,
+      [session.roundsPlayed, session.totalWagered, session.totalWon, session.currentBet, session.id]
+    );
+
+    this.io.to(`user_${session.userId}`).emit('autobet:progress', {
+      ...this.toPublicSession(session, 'running'),
+      lastRound: { betAmount, winAmount, isWin, result }
+    });
+
+    const profit = session.totalWon - session.totalWagered;
+    if (config.stopOnProfit && profit >= config.stopOnProfit) {
+      await this.finish(session, 'completed', 'Profit target reached');
+    } else if (config.stopOnLoss && -profit >= config.stopOnLoss) {
+      await this.finish(session, 'completed', 'Loss limit reached');
+    } else if (config.maxRounds && session.roundsPlayed >= config.maxRounds) {
+      await this.finish(session, 'completed', 'Maximum rounds played');
+    }
+  }
+
+  static nextBet(currentBet: number, baseBet: number, adjustment: AutoBetAdjustment): number {
+    if (adjustment.action === 'reset') {
+      return baseBet;
+    }
+    return Math.round(currentBet * (1 + adjustment.percent / 100) * 100) / 100;
+  }
+
+  private static async finish(session: AutoBetSession, status: 'stopped' | 'completed', reason: string): Promise<void> {
+    if (this.sessions.get(session.userId) !== session) {
+      return;
+    }
+
+    this.sessions.delete(session.userId);
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = null;
+    }
+
+    try {
+      await executeQuery(
+        `UPDATE auto_bet_sessions SET status = ?, stop_reason = ?, stopped_at = NOW()
+         WHERE id = ?`,
+        [status, reason, session.id]
+      );
+    } catch (error) {
+      console.error('Auto-bet stop persist error:', error);
+    }
+
+    this.io.to(`user_${session.userId}`).emit('autobet:stopped', this.toPublicSession(session, status, reason));
+  }
+
+  private static async getDiceGameId(): Promise<number> {
+    const games = await executeQuery(
+      "SELECT id FROM games WHERE type = 'dice' AND is_active = TRUE ORDER BY id LIMIT 1"
+    );
+    if (games.length === 0) {
+      throw new AutoBetError('Dice is not available');
+    }
+    return games[0].id;
+  }
+
+  private static async fromRow(row: any): Promise<AutoBetSession> {
+    const config: AutoBetConfig = typeof row.config === 'string' ? JSON.parse(row.config) : row.config;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      username: row.username,
+      config,
+      roundsPlayed: row.rounds_played,
+      totalWagered: parseFloat(row.total_wagered),
+      totalWon: parseFloat(row.total_won),
+      currentBet: parseFloat(row.current_bet),
+      gameId: config.gameType === 'dice' ? await this.getDiceGameId() : null,
+      pendingRoundId: null,
+      timer: null
+    };
+  }
+
+  private static toPublicSession(session: AutoBetSession, status: string, stopReason: string | null = null): any {
+    return {
+      id: session.id,
+      status,
+      stopReason,
+      config: session.config,
+      roundsPlayed: session.roundsPlayed,
+      totalWagered: session.totalWagered,
+      totalWon: session.totalWon,
+      profit: Math.round((session.totalWon - session.totalWagered) * 100) / 100,
+      currentBet: session.currentBet
+    };
+  }
+}
+
+export default AutoBetService;
@@ -0,0 +1,116 @@
+/**
+ * Bet Service
+ * Places single-shot provably fair bets; shared by POST /api/bet/place and auto-bet sessions
+ */
+
+import { executeQuery } from '../config/database';
+import { GameResult, ProvablyFairEngine } from './gameEngine';
+import { SeedService } from './seedService';
+import { WalletService, WalletEntry } from './walletService';
+import { ResponsibleGamblingService } from './responsibleGamblingService';
+
+export interface PlacedBet {
+  gameResult: GameResult;
+  newBalance: number;
+  provablyFair: {
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+    resultHash: string;
+  };
+}
+
+export class BetError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BetError';
+  }
+}
+
+export class BetService {
+
+  /**
+   * Settle one bet against the user's seed pair and record it
+   */
+  static async placeBet(userId: number, gameId: number, betAmount: number, gameData: any = {}): Promise<PlacedBet> {
+    // Early check so a bet that cannot be covered does not use up a nonce; the wallet re-checks under lock
+    if (await WalletService.getBalance(userId) < betAmount) {
+      throw new BetError('Insufficient balance');
+    }
+    const breach = await ResponsibleGamblingService.checkEntry(null, userId, { type: 'bet', amount: -betAmount });
+    if (breach) {
+      throw new BetError(breach, 403);
+    }
+
+    // Get game details
+    const games = await executeQuery(
+      'SELECT id, name, type, min_bet, max_bet, house_edge FROM games WHERE id = ? AND is_active = TRUE',
+      [gameId]
+    );
+
+    if (games.length === 0) {
+      throw new BetError('Game not found', 404);
+    }
+
+    const game = games[0];
+    if (game.type === 'blackjack') {
+      throw new BetError('Blackjack rounds are played through /api/blackjack');
+    }
+    if (game.type === 'crash') {
+      throw new BetError('Crash is played in shared rounds over the socket connection');
+    }
+
+    const houseEdge = parseFloat(game.house_edge);
+    if (betAmount < parseFloat(game.min_bet) || betAmount > parseFloat(game.max_bet)) {
+      throw new BetError(`Bet amount must be between ${game.min_bet} and ${game.max_bet}`);
+    }
+
+    // Generate provably fair result from the user's committed seed pair
+    const { seedId, serverSeed, serverSeedHash, clientSeed, nonce } = await SeedService.nextRoll(userId);
+
+    const gameResult = ProvablyFairEngine.playGame(
+      game.type, serverSeed, clientSeed, nonce, betAmount, gameData, houseEdge
+    );
+
+    if (!gameResult) {
+      throw new BetError('Unsupported game type');
+    }
+
+    const entries: WalletEntry[] = [
+      { type: 'bet', amount: -betAmount, description: `Bet placed on ${game.name} - Amount: $${betAmount}` }
+    ];
+    if (gameResult.isWin) {
+      entries.push({
+        type: 'win',
+        amount: gameResult.winAmount,
+        description: `Win on ${game.name} - Multiplier: ${gameResult.multiplier}x, Amount: $${gameResult.winAmount}`
+      });
+    }
+
+    const { balance: newBalance } = await WalletService.transact(userId, entries, [
+      {
+        query: `INSERT INTO bets (user_id, game_id, seed_id, bet_amount, win_amount, multiplier, game_data,
+                server_seed, client_seed, nonce, result_hash, is_win) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [
+          userId, gameId, seedId, betAmount, gameResult.winAmount, gameResult.multiplier,
+          JSON.stringify({ ...gameData, result: gameResult.result }),
+          serverSeed, clientSeed, nonce, gameResult.hash, gameResult.isWin
+        ]
+      },
+      gameResult.isWin
+        ? { query: 'UPDATE users SET total_won = total_won + ? WHERE id = ?', params: [gameResult.winAmount, userId] }
+        : { query: 'UPDATE users SET total_lost = total_lost + ? WHERE id = ?', params: [betAmount, userId] }
+    ]);
+
+    return {
+      gameResult,
+      newBalance,
+      provablyFair: {
+        serverSeedHash,
+        clientSeed,
+        nonce,
+        resultHash: gameResult.hash
+      }
+    };
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Blackjack Engine
+ * Rules for an interactive blackjack round dealt from a provably fair shoe.
+ * No I/O here - persistence and balance movements live in BlackjackService.
+ */
+
+import { ProvablyFairEngine, GameResult } from './gameEngine';
+
+export type BlackjackSuit = 'spades' | 'hearts' | 'diamonds' | 'clubs';
+
+export interface BlackjackCard {
+  rank: number; // 1 = Ace, 11-13 = J/Q/K
+  suit: BlackjackSuit;
+}
+
+export type BlackjackAction =
+  | 'hit'
+  | 'stand'
+  | 'double'
+  | 'split'
+  | 'insurance'
+  | 'decline_insurance'
+  | 'surrender';
+
+export type BlackjackOutcome = 'blackjack' | 'win' | 'push' | 'lose' | 'bust' | 'surrender';
+
+export interface BlackjackHand {
+  cards: BlackjackCard[];
+  bet: number;
+  doubled: boolean;
+  fromSplit: boolean;
+  finished: boolean;
+  outcome: BlackjackOutcome | null;
+  payout: number;
+}
+
+export interface BlackjackState {
+  phase: 'insurance' | 'player' | 'finished';
+  baseBet: number;
+  shoePosition: number;
+  playerHands: BlackjackHand[];
+  activeHand: number;
+  dealerCards: BlackjackCard[];
+  insuranceBet: number;
+  insurancePayout: number;
+  actions: BlackjackAction[];
+  totalBet: number;
+  totalPayout: number;
+}
+
+export class BlackjackError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BlackjackError';
+  }
+}
+
+const SUITS: BlackjackSuit[] = ['spades', 'hearts', 'diamonds', 'clubs'];
+const DECKS_IN_SHOE = 6;
+const MAX_HANDS = 4;
+const DEALER_HITS_SOFT_17 = true;
+const BLACKJACK_MULTIPLIER = 2.5; // 3:2, stake included
+const INSURANCE_MULTIPLIER = 3; // 2:1, stake included
+
+// Halved stakes and 3:2 payouts are rounded to cents
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class BlackjackEngine {
+
+  /**
+   * Build the six-deck shoe for a round; the order is fixed by the seed pair and nonce
+   */
+  static createShoe(serverSeed: string, clientSeed: string, nonce: number): BlackjackCard[] {
+    const orderedShoe: BlackjackCard[] = [];
+    for (let deck = 0; deck < DECKS_IN_SHOE; deck++) {
+      for (const suit of SUITS) {
+        for (let rank = 1; rank <= 13; rank++) {
+          orderedShoe.push({ rank, suit });
+        }
+      }
+    }
+
+    return ProvablyFairEngine.createRandomStream(serverSeed, clientSeed, nonce).shuffle(orderedShoe);
+  }
+
+  /**
+   * Best total for a set of cards; soft when an ace is still counted as 11
+   */
+  static getHandValue(cards: BlackjackCard[]): { total: number; soft: boolean } {
+    let total = 0;
+    let aces = 0;
+
+    for (const card of cards) {
+      if (card.rank === 1) {
+        aces++;
+        total += 11;
+      } else {
+        total += Math.min(card.rank, 10);
+      }
+    }
+
+    while (total > 21 && aces > 0) {
+      total -= 10;
+      aces--;
+    }
+
+    return { total, soft: aces > 0 };
+  }
+
+  static isBlackjack(hand: BlackjackHand): boolean {
+    return !hand.fromSplit && hand.cards.length === 2 && this.getHandValue(hand.cards).total === 21;
+  }
+
+  /**
+   * Deal the opening cards: player, dealer, player, dealer
+   */
+  static deal(shoe: BlackjackCard[], baseBet: number): BlackjackState {
+    const state: BlackjackState = {
+      phase: 'player',
+      baseBet,
+      shoePosition: 0,
+      playerHands: [this.createHand(baseBet, false)],
+      activeHand: 0,
+      dealerCards: [],
+      insuranceBet: 0,
+      insurancePayout: 0,
+      actions: [],
+      totalBet: baseBet,
+      totalPayout: 0
+    };
+
+    state.playerHands[0].cards.push(this.draw(state, shoe));
+    state.dealerCards.push(this.draw(state, shoe));
+    state.playerHands[0].cards.push(this.draw(state, shoe));
+    state.dealerCards.push(this.draw(state, shoe));
+
+    // Insurance has to be decided before the dealer peeks under an ace
+    if (state.dealerCards[0].rank === 1) {
+      state.phase = 'insurance';
+      return state;
+    }
+
+    return this.afterPeek(state);
+  }
+
+  /**
+   * Actions the player may take right now
+   */
+  static getAvailableActions(state: BlackjackState): BlackjackAction[] {
+    if (state.phase === 'insurance') {
+      return ['insurance', 'decline_insurance'];
+    }
+
+    if (state.phase !== 'player') {
+      return [];
+    }
+
+    const hand = state.playerHands[state.activeHand];
+    const actions: BlackjackAction[] = ['hit', 'stand'];
+
+    if (hand.cards.length === 2) {
+      actions.push('double');
+
+      const [first, second] = hand.cards;
+      const isPair = Math.min(first.rank, 10) === Math.min(second.rank, 10);
+      if (isPair && state.playerHands.length < MAX_HANDS) {
+        actions.push('split');
+      }
+
+      if (state.playerHands.length === 1) {
+        actions.push('surrender');
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Extra stake an action moves from the player's balance onto the table
+   */
+  static getActionCost(state: BlackjackState, action: BlackjackAction): number {
+    switch (action) {
+      case 'double':
+      case 'split':
+        return state.playerHands[state.activeHand].bet;
+      case 'insurance':
+        return roundMoney(state.baseBet / 2);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Apply one player decision and run the round forward until the next decision or the end
+   */
+  static applyAction(state: BlackjackState, shoe: BlackjackCard[], action: BlackjackAction): BlackjackState {
+    if (!this.getAvailableActions(state).includes(action)) {
+      throw new BlackjackError(`Action '${action}' is not available`);
+    }
+
+    const next: BlackjackState = JSON.parse(JSON.stringify(state));
+    next.actions.push(action);
+    next.totalBet = roundMoney(next.totalBet + this.getActionCost(state, action));
+
+    if (action === 'insurance' || action === 'decline_insurance') {
+      if (action === 'insurance') {
+        next.insuranceBet = this.getActionCost(state, action);
+      }
+      next.phase = 'player';
+      return this.afterPeek(next);
+    }
+
+    const hand = next.playerHands[next.activeHand];
+
+    switch (action) {
+      case 'hit':
+        hand.cards.push(this.draw(next, shoe));
+        if (this.getHandValue(hand.cards).total >= 21) {
+          hand.finished = true;
+        }
+        break;
+
+      case 'stand':
+        hand.finished = true;
+        break;
+
+      case 'double':
+        hand.bet = roundMoney(hand.bet * 2);
+        hand.doubled = true;
+        hand.cards.push(this.draw(next, shoe));
+        hand.finished = true;
+        break;
+
+      case 'split': {
+        const splitHand = this.createHand(hand.bet, true);
+        splitHand.cards.push(hand.cards.pop() as BlackjackCard);
+        hand.fromSplit = true;
+        next.playerHands.splice(next.activeHand + 1, 0, splitHand);
+
+        hand.cards.push(this.draw(next, shoe));
+        splitHand.cards.push(this.draw(next, shoe));
+
+        // Split aces receive one card each and nothing more
+        if (hand.cards[0].rank === 1) {
+          hand.finished = true;
+          splitHand.finished = true;
+        } else {
+          hand.finished = this.getHandValue(hand.cards).total === 21;
+          splitHand.finished = this.getHandValue(splitHand.cards).total === 21;
+        }
+        break;
+      }
+
+      case 'surrender':
+        hand.outcome = 'surrender';
+        hand.finished = true;
+        break;
+    }
+
+    return this.advance(next, shoe);
+  }
+
+  /**
+   * Replay a recorded round from its seeds - used to verify finished rounds
+   */
+  static replay(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    baseBet: number,
+    actions: BlackjackAction[]
+  ): GameResult {
+    const shoe = this.createShoe(serverSeed, clientSeed, nonce);
+    let state = this.deal(shoe, baseBet);
+
+    for (const action of actions) {
+      state = this.applyAction(state, shoe, action);
+    }
+
+    return this.toGameResult(state, ProvablyFairEngine.generateHash(serverSeed, clientSeed, nonce));
+  }
+
+  /**
+   * Summary of a finished round in the shape stored on the bet
+   */
+  static toGameResult(state: BlackjackState, hash: string): GameResult {
+    return {
+      result: this.getSummary(state),
+      hash,
+      isWin: state.totalPayout > 0,
+      multiplier: state.totalBet > 0 ? roundMoney(state.totalPayout / state.totalBet) : 0,
+      winAmount: state.totalPayout
+    };
+  }
+
+  static getSummary(state: BlackjackState): any {
+    return {
+      playerHands: state.playerHands.map(hand => ({
+        cards: hand.cards,
+        value: this.getHandValue(hand.cards).total,
+        bet: hand.bet,
+        outcome: hand.outcome,
+        payout: hand.payout
+      })),
+      dealerCards: state.dealerCards,
+      dealerValue: this.getHandValue(state.dealerCards).total,
+      insuranceBet: state.insuranceBet,
+      insurancePayout: state.insurancePayout
+    };
+  }
+
+  /**
+   * What the player is allowed to see: the hole card stays hidden until the round ends
+   */
+  static getPublicState(state: BlackjackState): any {
+    const finished = state.phase === 'finished';
+    const dealerCards = finished ? state.dealerCards : state.dealerCards.slice(0, 1);
+
+    return {
+      phase: state.phase,
+      baseBet: state.baseBet,
+      playerHands: state.playerHands.map(hand => ({
+        cards: hand.cards,
+        value: this.getHandValue(hand.cards).total,
+        soft: this.getHandValue(hand.cards).soft,
+        bet: hand.bet,
+        doubled: hand.doubled,
+        finished: hand.finished,
+        outcome: hand.outcome,
+        payout: hand.payout
+      })),
+      activeHand: finished ? null : state.activeHand,
+      dealerCards,
+      dealerValue: this.getHandValue(dealerCards).total,
+      dealerHiddenCards: state.dealerCards.length - dealerCards.length,
+      insuranceBet: state.insuranceBet,
+      insurancePayout: state.insurancePayout,
+      availableActions: this.getAvailableActions(state),
+      totalBet: state.totalBet,
+      totalPayout: state.totalPayout
+    };
+  }
+
+  private static createHand(bet: number, fromSplit: boolean): BlackjackHand {
+    return { cards: [], bet, doubled: false, fromSplit, finished: false, outcome: null, payout: 0 };
+  }
+
+  private static draw(state: BlackjackState, shoe: BlackjackCard[]): BlackjackCard {
+    if (state.shoePosition >= shoe.length) {
+      throw new BlackjackError('Shoe exhausted');
+    }
+    return shoe[state.shoePosition++];
+  }
+
+  /**
+   * Dealer peek: a dealer blackjack ends the round before the player acts,
+   * and so does a player blackjack
+   */
+  private static afterPeek(state: BlackjackState): BlackjackState {
+    const dealerBlackjack = this.getHandValue(state.dealerCards).total === 21;
+    const playerBlackjack = this.isBlackjack(state.playerHands[0]);
+
+    if (dealerBlackjack || playerBlackjack) {
+      state.playerHands[0].finished = true;
+      return this.settle(state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Move to the next unfinished hand, or let the dealer play once every hand is done
+   */
+  private static advance(state: BlackjackState, shoe: BlackjackCard[]): BlackjackState {
+    while (state.activeHand < state.playerHands.length && state.playerHands[state.activeHand].finished) {
+      state.activeHand++;
+    }
+
+    if (state.activeHand < state.playerHands.length) {
+      return state;
+    }
+
+    state.activeHand = state.playerHands.length - 1;
+
+    // The dealer only draws when at least one hand can still beat them
+    const liveHand = state.playerHands.some(hand =>
+      hand.outcome !== 'surrender' && this.getHandValue(hand.cards).total <= 21
+    );
+
+    if (liveHand) {
+      while (this.dealerShouldHit(state.dealerCards)) {
+        state.dealerCards.push(this.draw(state, shoe));
+      }
+    }
+
+    return this.settle(state);
+  }
+
+  private static dealerShouldHit(cards: BlackjackCard[]): boolean {
+    const { total, soft } = this.getHandValue(cards);
+    return total < 17 || (DEALER_HITS_SOFT_17 && total === 17 && soft);
+  }
+
+  private static settle(state: BlackjackState): BlackjackState {
+    const dealerTotal = this.getHandValue(state.dealerCards).total;
+    const dealerBlackjack = state.dealerCards.length === 2 && dealerTotal === 21;
+
+    for (const hand of state.playerHands) {
+      const playerTotal = this.getHandValue(hand.cards).total;
+
+      if (hand.outcome === 'surrender') {
+        hand.payout = roundMoney(hand.bet / 2);
+      } else if (playerTotal > 21) {
+        hand.outcome = 'bust';
+        hand.payout = 0;
+      } else if (this.isBlackjack(hand)) {
+        hand.outcome = dealerBlackjack ? 'push' : 'blackjack';
+        hand.payout = roundMoney(hand.bet * (dealerBlackjack ? 1 : BLACKJACK_MULTIPLIER));
+      } else if (dealerBlackjack || (dealerTotal <= 21 && dealerTotal > playerTotal)) {
+        hand.outcome = 'lose';
+        hand.payout = 0;
+      } else if (dealerTotal > 21 || playerTotal > dealerTotal) {
+        hand.outcome = 'win';
+        hand.payout = roundMoney(hand.bet * 2);
+      } else {
+        hand.outcome = 'push';
+        hand.payout = hand.bet;
+      }
+    }
+
+    state.insurancePayout = dealerBlackjack ? roundMoney(state.insuranceBet * INSURANCE_MULTIPLIER) : 0;
+    state.totalPayout = roundMoney(
+      state.playerHands.reduce((sum, hand) => sum + hand.payout, 0) + state.insurancePayout
+    );
+    state.phase = 'finished';
+
+    return state;
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Blackjack Service
+ * Runs interactive blackjack rounds: deals from the player's seed pair, takes each stake
+ * as it is placed and writes the payout and bet record once the round is over
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery, withTransaction } from '../config/database';
+import { ProvablyFairEngine } from './gameEngine';
+import { SeedService } from './seedService';
+import { WalletService, WalletError } from './walletService';
+import { BlackjackEngine, BlackjackState, BlackjackAction, BlackjackError } from './blackjackEngine';
+
+export interface BlackjackRound {
+  id: number;
+  status: 'active' | 'finished';
+  betId: number | null;
+  table: any;
+  provablyFair: {
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+  };
+  createdAt: Date;
+}
+
+export class BlackjackService {
+
+  /**
+   * Get the user's round in progress, if any
+   */
+  static async getActiveRound(userId: number): Promise<BlackjackRound | null> {
+    const rounds = await executeQuery(
+      `SELECT * FROM blackjack_rounds WHERE user_id = ? AND status = 'active'`,
+      [userId]
+    );
+
+    return rounds.length > 0 ? this.toRound(rounds[0]) : null;
+  }
+
+  /**
+   * Refuse while a round is in progress; runs in a transaction holding the player's seed pair,
+   * which a deal holds too until its round is stored
+   */
+  static async assertNoActiveRound(connection: PoolConnection, userId: number): Promise<void> {
+    const [rounds]: any = await connection.execute(
+      `SELECT id FROM blackjack_rounds WHERE user_id = ? AND status = 'active' FOR UPDATE`,
+      [userId]
+    );
+
+    if (rounds.length > 0) {
+      throw new BlackjackError('Finish your blackjack round before rotating seeds');
+    }
+  }
+
+  /**
+   * Deal a new round, taking the opening stake from the player's balance
+   */
+  static async startRound(userId: number, betAmount: number): Promise<BlackjackRound> {
+    if (await this.getActiveRound(userId)) {
+      throw new BlackjackError('Finish your current round first');
+    }
+
+    const game = await this.getGame();
+    if (betAmount < parseFloat(game.min_bet) || betAmount > parseFloat(game.max_bet)) {
+      throw new BlackjackError(`Bet amount must be between ${game.min_bet} and ${game.max_bet}`);
+    }
+
+    const balance = await this.getBalance(userId);
+    if (balance < betAmount) {
+      throw new BlackjackError('Insufficient balance');
+    }
+
+    await SeedService.getActiveSeed(userId);
+
+    let roundId: number;
+    try {
+      roundId = await withTransaction(async (connection) => {
+        // The seed pair stays locked until the round is stored, so it cannot be revealed mid-deal
+        const { seedId, serverSeed, clientSeed, nonce } = await SeedService.reserveRoll(connection, userId);
+        const shoe = BlackjackEngine.createShoe(serverSeed, clientSeed, nonce);
+        const state = BlackjackEngine.deal(shoe, betAmount);
+
+        const [inserted]: any = await connection.execute(
+          `INSERT INTO blackjack_rounds
+           (user_id, game_id, seed_id, server_seed, client_seed, nonce, base_bet, total_bet, state)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [userId, game.id, seedId, serverSeed, clientSeed, nonce, betAmount, betAmount, JSON.stringify(state)]
+        );
+
+        await WalletService.apply(connection, userId, [
+          { type: 'bet', amount: -betAmount, description: `Blackjack deal - Amount: $${betAmount}` }
+        ]);
+
+        // A blackjack on either side ends the round on the deal
+        if (state.phase === 'finished') {
+          await this.settle(connection, {
+            id: inserted.insertId,
+            user_id: userId,
+            seed_id: seedId,
+            server_seed: serverSeed,
+            client_seed: clientSeed,
+            nonce
+          }, game, state);
+        }
+
+        return inserted.insertId;
+      });
+    } catch (error: any) {
+      if (error instanceof WalletError) {
+        throw new BlackjackError(error.message, error.status);
+      }
+      // The unique active-round key catches a second deal racing this one
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new BlackjackError('Finish your current round first');
+      }
+      throw error;
+    }
+
+    return this.toRound(await this.findRound(userId, roundId));
+  }
+
+  /**
+   * Apply a player decision to a round in progress
+   */
+  static async applyAction(userId: number, roundId: number, action: BlackjackAction): Promise<BlackjackRound> {
+    const round = await this.findRound(userId, roundId);
+    if (!round) {
+      throw new BlackjackError('Round not found', 404);
+    }
+    if (round.status !== 'active') {
+      throw new BlackjackError('Round is already finished');
+    }
+
+    const state = this.parseState(round.state);
+    const shoe = BlackjackEngine.createShoe(round.server_seed, round.client_seed, round.nonce);
+    const next = BlackjackEngine.applyAction(state, shoe, action);
+
+    const cost = BlackjackEngine.getActionCost(state, action);
+    const balance = await this.getBalance(userId);
+    if (balance < cost) {
+      throw new BlackjackError('Insufficient balance');
+    }
+
+    const game = next.phase === 'finished' ? await this.getGame() : null;
+
+    try {
+      await withTransaction(async (connection) => {
+        // Claim this version of the round so a duplicate request cannot apply the same decision twice
+        const [claim]: any = await connection.execute(
+          `UPDATE blackjack_rounds SET version = version + 1
+           WHERE id = ? AND version = ? AND status = 'active'`,
+          [round.id, round.version]
+        );
+        if (claim.affectedRows !== 1) {
+          throw new BlackjackError('Round was updated by another request');
+        }
+
+        await connection.execute(
+          'UPDATE blackjack_rounds SET state = ?, total_bet = ? WHERE id = ?',
+          [JSON.stringify(next), next.totalBet, round.id]
+        );
+
+        if (cost > 0) {
+          await WalletService.apply(connection, userId, [
+            { type: 'bet', amount: -cost, description: `Blackjack ${action} - Amount: $${cost}` }
+          ]);
+        }
+
+        if (next.phase === 'finished') {
+          await this.settle(connection, round, game, next);
+        }
+      });
+    } catch (error) {
+      if (error instanceof WalletError) {
+        throw new BlackjackError(error.message, error.status);
+      }
+      throw error;
+    }
+
+    return this.toRound(await this.findRound(userId, roundId));
+  }
+
+  static async getBalance(userId: number): Promise<number> {
+    const users = await executeQuery(
+      'SELECT balance FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+
+    if (users.length === 0) {
+      throw new BlackjackError('User not found', 404);
+    }
+
+    return parseFloat(users[0].balance);
+  }
+
+  private static async getGame(): Promise<any> {
+    const games = await executeQuery(
+      `SELECT id, name, min_bet, max_bet FROM games WHERE type = 'blackjack' AND is_active = TRUE ORDER BY id LIMIT 1`
+    );
+
+    if (games.length === 0) {
+      throw new BlackjackError('Blackjack is not available');
+    }
+
+    return games[0];
+  }
+
+  private static async findRound(userId: number, roundId: number): Promise<any | null> {
+    const rounds = await executeQuery(
+      'SELECT * FROM blackjack_rounds WHERE id = ? AND user_id = ?',
+      [roundId, userId]
+    );
+
+    return rounds.length > 0 ? rounds[0] : null;
+  }
+
+  /**
+   * Pay out a finished round and record it as a single bet covering every stake
+   */
+  private static async settle(connection: PoolConnection, round: any, game: any, state: BlackjackState): Promise<void> {
+    const gameResult = BlackjackEngine.toGameResult(
+      state,
+      ProvablyFairEngine.generateHash(round.server_seed, round.client_seed, round.nonce)
+    );
+
+    const [bet]: any = await connection.execute(
+      `INSERT INTO bets (user_id, game_id, seed_id, bet_amount, win_amount, multiplier, game_data,
+       server_seed, client_seed, nonce, result_hash, is_win) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        round.user_id, game.id, round.seed_id, state.totalBet, gameResult.winAmount, gameResult.multiplier,
+        JSON.stringify({ baseBet: state.baseBet, actions: state.actions, result: gameResult.result }),
+        round.server_seed, round.client_seed, round.nonce, gameResult.hash, gameResult.isWin
+      ]
+    );
+
+    await connection.execute(
+      `UPDATE blackjack_rounds
+       SET status = 'finished', total_payout = ?, bet_id = ?, finished_at = NOW()
+       WHERE id = ?`,
+      [gameResult.winAmount, bet.insertId, round.id]
+    );
+
+    if (gameResult.isWin) {
+      await WalletService.apply(connection, round.user_id, [{
+        type: 'win',
+        amount: gameResult.winAmount,
+        description: `Win on ${game.name} - Multiplier: ${gameResult.multiplier}x, Amount: $${gameResult.winAmount}`
+      }]);
+      await connection.execute(
+        'UPDATE users SET total_won = total_won + ? WHERE id = ?',
+        [gameResult.winAmount, round.user_id]
+      );
+    } else {
+      await connection.execute(
+        'UPDATE users SET total_lost = total_lost + ? WHERE id = ?',
+        [state.totalBet, round.user_id]
+      );
+    }
+  }
+
+  private static parseState(state: any): BlackjackState {
+    return typeof state === 'string' ? JSON.parse(state) : state;
+  }
+
+  private static toRound(round: any): BlackjackRound {
+    return {
+      id: round.id,
+      status: round.status,
+      betId: round.bet_id,
+      table: BlackjackEngine.getPublicState(this.parseState(round.state)),
+      provablyFair: {
+        serverSeedHash: ProvablyFairEngine.hashServerSeed(round.server_seed),
+        clientSeed: round.client_seed,
+        nonce: round.nonce
+      },
+      createdAt: round.created_at
+    };
+  }
+}
@@ -1,5 +1,6 @@
-import { executeQuery, executeTransaction } from '../config/database';
+import { executeQuery } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { WalletService } from './walletService';
 
 export interface BonusStats {
   bonusTokens: number;
@@ -121,37 +122,9 @@ export class BonusService {
     betId?: number
   ): Promise<boolean> {
     try {
-      // Get current bonus balance
-      const bonusStats = await this.getBonusStats(userId);
-      if (!bonusStats) {
-        throw new Error('User bonus stats not found');
-      }
-
-      const balanceBefore = bonusStats.bonusTokens;
-      const balanceAfter = balanceBefore + bonusAmount;
-
-      // Update user bonus stats and record transaction atomically
-      const queries = [
-        {
-          query: `UPDATE user_bonus_stats 
-                   SET bonus_tokens = bonus_tokens + ?,
-                       total_bonus_earned = total_bonus_earned + ?,
-                       last_bonus_earned = CURRENT_TIMESTAMP,
-                       updated_at = CURRENT_TIMESTAMP
-                   WHERE user_id = ?`,
-          params: [bonusAmount, bonusAmount, userId]
-        },
-        {
-          query: `INSERT INTO bonus_transactions 
-                   (user_id, game_id, bet_id, transaction_type, bonus_amount, 
-                    balance_before, balance_after, trigger_data, description)
-                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          params: [userId, gameId, betId, transactionType, bonusAmount, 
-                   balanceBefore, balanceAfter, JSON.stringify(triggerData), description]
-        }
-      ];
-
-      await executeTransaction(queries);
+      await WalletService.adjustBonusTokens(userId, bonusAmount, {
+        gameId, betId, transactionType, triggerData, description
+      });
       return true;
     } catch (error) {
       console.error('Error awarding bonus tokens:', error);
@@ -171,40 +144,9 @@ export class BonusService {
     description: string
   ): Promise<boolean> {
     try {
-      // Get current bonus balance
-      const bonusStats = await this.getBonusStats(userId);
-      if (!bonusStats) {
-        throw new Error('User bonus stats not found');
-      }
-
-      if (bonusStats.bonusTokens < bonusAmount) {
-        throw new Error('Insufficient bonus tokens');
-      }
-
-      const balanceBefore = bonusStats.bonusTokens;
-      const balanceAfter = balanceBefore - bonusAmount;
-
-      // Update user bonus stats and record transaction atomically
-      const queries = [
-        {
-          query: `UPDATE user_bonus_stats 
-                   SET bonus_tokens = bonus_tokens - ?,
-                       total_bonus_spent = total_bonus_spent + ?,
-                       updated_at = CURRENT_TIMESTAMP
-                   WHERE user_id = ?`,
-          params: [bonusAmount, bonusAmount, userId]
-        },
-        {
-          query: `INSERT INTO bonus_transactions 
-                   (user_id, game_id, transaction_type, bonus_amount, 
-                    balance_before, balance_after, trigger_data, description)
-                   VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          params: [userId, gameId, transactionType, -bonusAmount, 
-                   balanceBefore, balanceAfter, JSON.stringify(triggerData), description]
-        }
-      ];
-
-      await executeTransaction(queries);
+      await WalletService.adjustBonusTokens(userId, -bonusAmount, {
+        gameId, transactionType, triggerData, description
+      });
       return true;
     } catch (error) {
       console.error('Error spending bonus tokens:', error);
@@ -380,14 +322,21 @@ export class BonusService {
    */
   static async initializeBonusStats(userId: number): Promise<void> {
     try {
-      // Create bonus stats entry
-      await executeQuery(
-        `INSERT INTO user_bonus_stats (user_id, bonus_tokens, total_bonus_earned) 
-         VALUES (?, 100.00, 100.00)
-         ON DUPLICATE KEY UPDATE user_id = user_id`,
+      // Create bonus stats entry; starting tokens go through the wallet so they reach the ledger
+      const created = await executeQuery(
+        'INSERT IGNORE INTO user_bonus_stats (user_id, bonus_tokens, total_bonus_earned) VALUES (?, 0, 0)',
         [userId]
       );
 
+      if (created.affectedRows > 0) {
+        await WalletService.adjustBonusTokens(userId, 100, {
+          gameId: null,
+          transactionType: 'earned_milestone',
+          triggerData: { reason: 'starting_tokens' },
+          description: 'Starting bonus tokens'
+        });
+      }
+
       // Create game-specific stats for all games
       await executeQuery(
         `INSERT INTO game_specific_stats (user_id, game_id)
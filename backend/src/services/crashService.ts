@@ -0,0 +1,357 @@
+/**
+ * Crash Service
+ * Hash chain bookkeeping and persistence for the shared crash round loop
+ */
+
+import crypto from 'crypto';
+import { executeQuery, executeTransaction, withTransaction } from '../config/database';
+import { ProvablyFairEngine } from './gameEngine';
+import { WalletService, WalletError } from './walletService';
+
+export interface CrashRoundSeed {
+  id: number;
+  chainId: number;
+  roundIndex: number;
+  seed: string;
+  seedHash: string;
+  salt: string;
+  crashPoint: number;
+}
+
+export interface CrashSettlement {
+  crashBetId: number;
+  userId: number;
+  betAmount: number;
+  cashedOutAt: number | null;
+}
+
+export interface CrashSettlementResult {
+  settled: boolean; // False when the round had been cancelled and its stakes refunded instead
+  balances: Map<number, number>; // userId -> balance
+}
+
+export class CrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrashError';
+  }
+}
+
+const CHAIN_LENGTH = 10000;
+
+export class CrashService {
+
+  static sha256(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Seed for the round at `index` in play order: the root hashed (length - 1 - index) times
+   */
+  static getChainSeed(rootSeed: string, length: number, index: number): string {
+    let seed = rootSeed;
+    for (let i = 0; i < length - 1 - index; i++) {
+      seed = this.sha256(seed);
+    }
+    return seed;
+  }
+
+  /**
+   * Open the next round of the active chain, starting a new chain when the current one runs out
+   */
+  static async createRound(): Promise<CrashRoundSeed> {
+    const chain = await this.getActiveChain();
+    const roundIndex = chain.rounds_played;
+    const seed = this.getChainSeed(chain.root_seed, chain.length, roundIndex);
+    const seedHash = this.sha256(seed);
+
+    const results = await executeTransaction([
+      {
+        query: 'UPDATE crash_chains SET rounds_played = rounds_played + 1, is_active = (rounds_played < length) WHERE id = ?',
+        params: [chain.id]
+      },
+      {
+        query: 'INSERT INTO crash_rounds (chain_id, round_index, seed_hash) VALUES (?, ?, ?)',
+        params: [chain.id, roundIndex, seedHash]
+      }
+    ]);
+
+    return {
+      id: results[1].insertId,
+      chainId: chain.id,
+      roundIndex,
+      seed,
+      seedHash,
+      salt: chain.salt,
+      crashPoint: ProvablyFairEngine.getCrashPoint(seed, chain.salt, roundIndex)
+    };
+  }
+
+  static async markRunning(roundId: number): Promise<void> {
+    await executeQuery(
+      `UPDATE crash_rounds SET status = 'running', started_at = NOW(3) WHERE id = ?`,
+      [roundId]
+    );
+  }
+
+  /**
+   * Take a stake for the round in its betting window
+   */
+  static async placeBet(roundId: number, userId: number, betAmount: number, autoCashOut: number | null): Promise<{ crashBetId: number; balance: number }> {
+    const game = await this.getGame();
+    if (betAmount < parseFloat(game.min_bet) || betAmount > parseFloat(game.max_bet)) {
+      throw new CrashError(`Bet amount must be between ${game.min_bet} and ${game.max_bet}`);
+    }
+
+    try {
+      const { balance, results } = await WalletService.transact(
+        userId,
+        [{ type: 'bet', amount: -betAmount, description: `Bet placed on ${game.name} round #${roundId} - Amount: $${betAmount}` }],
+        [{
+          query: 'INSERT INTO crash_bets (round_id, user_id, bet_amount, auto_cash_out) VALUES (?, ?, ?, ?)',
+          params: [roundId, userId, betAmount, autoCashOut]
+        }]
+      );
+
+      return { crashBetId: results[0].insertId, balance };
+    } catch (error: any) {
+      if (error instanceof WalletError) {
+        throw new CrashError(error.message);
+      }
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new CrashError('You already have a bet in this round');
+      }
+      throw error;
+    }
+  }
+
+  static async recordCashout(crashBetId: number, multiplier: number): Promise<void> {
+    await executeQuery(
+      `UPDATE crash_bets SET cashed_out_at = ? WHERE id = ? AND status = 'active' AND cashed_out_at IS NULL`,
+      [multiplier, crashBetId]
+    );
+  }
+
+  /**
+   * Reveal the seed and pay out every bet of the round in one transaction.
+   * Safe to retry: a round that is already settled or cancelled is left alone.
+   * Returns whether the round stands settled, and the balance of each player who had a bet.
+   */
+  static async settleRound(round: CrashRoundSeed, bets: CrashSettlement[]): Promise<CrashSettlementResult> {
+    const game = await this.getGame();
+    const hash = ProvablyFairEngine.generateHash(round.seed, round.salt, round.roundIndex);
+
+    const settled = await withTransaction(async (connection) => {
+      const [crashed]: any = await connection.execute(
+        `UPDATE crash_rounds SET status = 'crashed', seed = ?, crash_point = ?, crashed_at = NOW(3)
+         WHERE id = ? AND status IN ('betting', 'running')`,
+        [round.seed, round.crashPoint, round.id]
+      );
+      if (crashed.affectedRows === 0) {
+        // Settled by an earlier attempt whose reply was lost, or cancelled and refunded elsewhere
+        const [rows]: any = await connection.execute('SELECT status FROM crash_rounds WHERE id = ?', [round.id]);
+        return rows.length > 0 && rows[0].status === 'crashed';
+      }
+
+      // Lock users in id order so two settlements can never wait on each other
+      for (const bet of [...bets].sort((a, b) => a.userId - b.userId)) {
+        const gameResult = ProvablyFairEngine.playCrash(
+          round.seed, round.salt, round.roundIndex, bet.betAmount, bet.cashedOutAt
+        );
+        const winAmount = Math.round(gameResult.winAmount * 100) / 100;
+
+        const [betRow]: any = await connection.execute(
+          `INSERT INTO bets (user_id, game_id, bet_amount, win_amount, multiplier, game_data,
+           server_seed, client_seed, nonce, result_hash, is_win) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            bet.userId, game.id, bet.betAmount, winAmount, gameResult.multiplier,
+            JSON.stringify({ roundId: round.id, cashOutAt: bet.cashedOutAt, result: gameResult.result }),
+            round.seed, round.salt, round.roundIndex, hash, gameResult.isWin
+          ]
+        );
+        await connection.execute(
+          `UPDATE crash_bets SET status = ?, cashed_out_at = ?, win_amount = ?, bet_id = ? WHERE id = ?`,
+          [gameResult.isWin ? 'cashed_out' : 'lost', bet.cashedOutAt, winAmount, betRow.insertId, bet.crashBetId]
+        );
+
+        if (gameResult.isWin) {
+          await WalletService.apply(connection, bet.userId, [{
+            type: 'win',
+            amount: winAmount,
+            description: `Win on ${game.name} round #${round.id} - Multiplier: ${gameResult.multiplier}x, Amount: $${winAmount}`
+          }]);
+          await connection.execute('UPDATE users SET total_won = total_won + ? WHERE id = ?', [winAmount, bet.userId]);
+        } else {
+          await connection.execute('UPDATE users SET total_lost = total_lost + ? WHERE id = ?', [bet.betAmount, bet.userId]);
+        }
+      }
+
+      return true;
+    });
+
+    return { settled, balances: await this.getBalances(bets.map(bet => bet.userId)) };
+  }
+
+  /**
+   * Refund the bets of a round that could not be settled and call it off.
+   * Returns the new balance of each player who was refunded.
+   */
+  static async cancelRound(roundId: number): Promise<Map<number, number>> {
+    const bets = await this.refundRounds('cr.id = ?', [roundId]);
+    return this.getBalances(bets.map((bet: any) => bet.user_id));
+  }
+
+  /**
+   * Refund bets of rounds that never crashed, e.g. after a restart mid-round
+   */
+  static async cancelUnfinishedRounds(): Promise<number> {
+    const bets = await this.refundRounds('TRUE', []);
+    return bets.length;
+  }
+
+  /**
+   * Recent crashed rounds, newest first
+   */
+  static async getRecentRounds(limit: number = 20): Promise<any[]> {
+    return executeQuery(
+      `SELECT id, round_index, seed_hash, seed, crash_point, crashed_at
+       FROM crash_rounds
+       WHERE status = 'crashed'
+       ORDER BY id DESC
+       LIMIT ?`,
+      [limit]
+    );
+  }
+
+  /**
+   * A single round with the chain data needed to verify it; the seed stays hidden until the crash
+   */
+  static async getRound(roundId: number): Promise<any | null> {
+    const rounds = await executeQuery(
+      `SELECT cr.*, cc.terminal_hash, cc.salt
+       FROM crash_rounds cr
+       JOIN crash_chains cc ON cr.chain_id = cc.id
+       WHERE cr.id = ?`,
+      [roundId]
+    );
+    if (rounds.length === 0) {
+      return null;
+    }
+
+    const round = rounds[0];
+    const bets = await executeQuery(
+      `SELECT cb.user_id, u.username, cb.bet_amount, cb.auto_cash_out, cb.cashed_out_at, cb.win_amount, cb.status
+       FROM crash_bets cb
+       JOIN users u ON cb.user_id = u.id
+       WHERE cb.round_id = ?
+       ORDER BY cb.bet_amount DESC`,
+      [roundId]
+    );
+
+    return {
+      id: round.id,
+      roundIndex: round.round_index,
+      status: round.status,
+      seedHash: round.seed_hash,
+      seed: round.status === 'crashed' ? round.seed : null,
+      crashPoint: round.status === 'crashed' ? parseFloat(round.crash_point) : null,
+      salt: round.salt,
+      chainTerminalHash: round.terminal_hash,
+      startedAt: round.started_at,
+      crashedAt: round.crashed_at,
+      bets: bets.map((bet: any) => ({
+        userId: bet.user_id,
+        username: bet.username,
+        betAmount: parseFloat(bet.bet_amount),
+        autoCashOut: bet.auto_cash_out !== null ? parseFloat(bet.auto_cash_out) : null,
+        cashedOutAt: bet.cashed_out_at !== null ? parseFloat(bet.cashed_out_at) : null,
+        winAmount: parseFloat(bet.win_amount),
+        status: bet.status
+      }))
+    };
+  }
+
+  /**
+   * Refund the active bets of the unfinished rounds matching `condition` and cancel those rounds
+   */
+  private static async refundRounds(condition: string, params: any[]): Promise<any[]> {
+    const bets = await executeQuery(
+      `SELECT cb.id, cb.user_id, cb.bet_amount, cb.round_id
+       FROM crash_bets cb
+       JOIN crash_rounds cr ON cb.round_id = cr.id
+       WHERE cr.status IN ('betting', 'running') AND cb.status = 'active' AND ${condition}`,
+      params
+    );
+
+    await withTransaction(async (connection) => {
+      for (const bet of [...bets].sort((a: any, b: any) => a.user_id - b.user_id)) {
+        // The round may have been settled since the bets were read
+        const [refunded]: any = await connection.execute(
+          `UPDATE crash_bets SET status = 'refunded' WHERE id = ? AND status = 'active'`,
+          [bet.id]
+        );
+        if (refunded.affectedRows === 0) continue;
+
+        await WalletService.apply(connection, bet.user_id, [{
+          type: 'refund',
+          amount: parseFloat(bet.bet_amount),
+          description: `Crash round #${bet.round_id} cancelled - stake refunded`
+        }]);
+      }
+
+      await connection.execute(
+        `UPDATE crash_rounds cr SET cr.status = 'cancelled' WHERE cr.status IN ('betting', 'running') AND ${condition}`,
+        params
+      );
+    });
+
+    return bets;
+  }
+
+  private static async getActiveChain(): Promise<any> {
+    const chains = await executeQuery(
+      'SELECT * FROM crash_chains WHERE is_active = TRUE AND rounds_played < length ORDER BY id LIMIT 1'
+    );
+    if (chains.length > 0) {
+      return chains[0];
+    }
+
+    const rootSeed = ProvablyFairEngine.generateServerSeed();
+    const terminalHash = this.sha256(this.getChainSeed(rootSeed, CHAIN_LENGTH, 0));
+    const result = await executeQuery(
+      'INSERT INTO crash_chains (root_seed, terminal_hash, salt, length) VALUES (?, ?, ?, ?)',
+      [rootSeed, terminalHash, ProvablyFairEngine.generateClientSeed(), CHAIN_LENGTH]
+    );
+
+    const created = await executeQuery('SELECT * FROM crash_chains WHERE id = ?', [result.insertId]);
+    return created[0];
+  }
+
+  private static async getGame(): Promise<any> {
+    const games = await executeQuery(
+      `SELECT id, name, min_bet, max_bet FROM games WHERE type = 'crash' AND is_active = TRUE ORDER BY id LIMIT 1`
+    );
+
+    if (games.length === 0) {
+      throw new CrashError('Crash is not available');
+    }
+
+    return games[0];
+  }
+
+  private static async getBalances(userIds: number[]): Promise<Map<number, number>> {
+    const balances = new Map<number, number>();
+    if (userIds.length === 0) {
+      return balances;
+    }
+
+    const users = await executeQuery(
+      `SELECT id, balance FROM users WHERE id IN (${userIds.map(() => '?').join(', ')})`,
+      userIds
+    );
+    for (const user of users) {
+      balances.set(user.id, parseFloat(user.balance));
+    }
+    return balances;
+  }
+}
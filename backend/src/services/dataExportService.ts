@@ -0,0 +1,386 @@
+/**
+ * Data Export Service
+ * Builds a downloadable archive of everything held about a player: profile, bets, wallet and
+ * bonus transactions, purchases, poker hands and actions, play sessions, limits, exclusions
+ * and signed-in devices. Requests are queued in data_export_requests and built one at a time
+ * by a background job; the zip holds data.json plus one CSV per section and expires after a week.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import archiver from 'archiver';
+import { executeQuery } from '../config/database';
+import { MailService } from './mailService';
+import { TokenService } from './tokenService';
+import { LeaderLease } from './leaderLease';
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface DataExport {
+  id: number;
+  status: ExportStatus;
+  fileSize: number | null;
+  error: string | null;
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+export class ExportError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+const POLL_MS = 15000;
+const EXPIRY_DAYS = 7;
+const REQUEST_COOLDOWN_HOURS = 24;
+
+// Every `?` is bound to the user id
+const SECTIONS: Array<{ name: string; query: string }> = [
+  {
+    name: 'profile',
+    query: `SELECT id, username, email, email_verified_at, role, balance, total_won, total_lost,
+              total_credits_purchased, last_credit_purchase, reality_check_minutes, created_at, last_login
+            FROM users WHERE id = ?`
+  },
+  {
+    // Server seeds stay hidden until the seed pair is rotated, as on the verify page
+    name: 'bets',
+    query: `SELECT b.id, g.name AS game, b.bet_amount, b.win_amount, b.multiplier, b.is_win, b.game_data,
+              IF(us.is_active, NULL, b.server_seed) AS server_seed, b.client_seed, b.nonce, b.result_hash, b.created_at
+            FROM bets b
+            JOIN games g ON g.id = b.game_id
+            LEFT JOIN user_seeds us ON us.id = b.seed_id
+            WHERE b.user_id = ? ORDER BY b.id`
+  },
+  {
+    name: 'transactions',
+    query: `SELECT id, type, amount, balance_before, balance_after, bet_id, description, created_at
+            FROM transactions WHERE user_id = ? ORDER BY id`
+  },
+  {
+    name: 'bonus_transactions',
+    query: `SELECT id, transaction_type, bonus_amount, balance_before, balance_after, game_id, bet_id,
+              trigger_data, description, created_at
+            FROM bonus_transactions WHERE user_id = ? ORDER BY id`
+  },
+  {
+    name: 'credit_purchases',
+    query: `SELECT id, package_id, package_name, credits_purchased, amount_paid, payment_method, payment_id,
+              status, created_at
+            FROM credit_purchases WHERE user_id = ? ORDER BY id`
+  },
+  {
+    name: 'crash_bets',
+    query: `SELECT id, round_id, bet_amount, auto_cash_out, cashed_out_at, win_amount, status, bet_id, created_at
+            FROM crash_bets WHERE user_id = ? ORDER BY id`
+  },
+  {
+    // Hands the player took part in; other players appear only as they did at showdown
+    name: 'poker_hands',
+    query: `SELECT h.id, h.table_id, h.hand_number, h.small_blind, h.big_blind, h.total_pot, h.rake_amount,
+              h.community_cards, h.winner_user_id = ? AS won, h.winning_hand, h.showdown_hands,
+              h.started_at, h.finished_at
+            FROM poker_hands h
+            WHERE h.id IN (SELECT hand_id FROM poker_actions WHERE user_id = ?)
+            ORDER BY h.id`
+  },
+  {
+    name: 'poker_actions',
+    query: `SELECT id, hand_id, seat_position, betting_round, action_sequence, action_type, amount,
+              pot_size_before, chips_before, chips_after, is_all_in, created_at
+            FROM poker_actions WHERE user_id = ? ORDER BY hand_id, id`
+  },
+  {
+    name: 'poker_tournaments',
+    query: `SELECT tp.tournament_id, t.name, t.buy_in, t.entry_fee, t.status, tp.position_finished, tp.prize_won,
+              tp.registered_at, tp.eliminated_at
+            FROM poker_tournament_players tp
+            JOIN poker_tournaments t ON t.id = tp.tournament_id
+            WHERE tp.user_id = ? ORDER BY tp.id`
+  },
+  {
+    name: 'play_sessions',
+    query: `SELECT id, started_at, last_activity_at, ended_at, total_bet, total_won
+            FROM game_sessions WHERE user_id = ? ORDER BY id`
+  },
+  {
+    name: 'gambling_limits',
+    query: `SELECT limit_type, period, amount, pending_amount, pending_effective_at, updated_at
+            FROM responsible_gambling_limits WHERE user_id = ?`
+  },
+  {
+    name: 'exclusions',
+    query: `SELECT exclusion_type, starts_at, ends_at, created_at
+            FROM user_exclusions WHERE user_id = ? ORDER BY id`
+  }
+];
+
+const exportDir = () => process.env.DATA_EXPORT_DIR || path.resolve('exports');
+
+const csvValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: any[]): string => {
+  if (rows.length === 0) return '';
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [columns.join(',')];
+  rows.forEach(row => lines.push(columns.map(column => csvValue(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+};
+
+export class DataExportService {
+  private static running = false;
+
+  /**
+   * Start the export job; it runs on the leader. Jobs cut short by the previous leader are picked up again.
+   */
+  static initialize(): void {
+    LeaderLease.onElected(() => {
+      executeQuery("UPDATE data_export_requests SET status = 'pending' WHERE status = 'processing'")
+        .then(() => this.runJobs())
+        .catch(error => console.error('Data export resume error:', error));
+    });
+
+    setInterval(() => {
+      this.runJobs().catch(error => console.error('Data export job error:', error));
+    }, POLL_MS);
+  }
+
+  /**
+   * Queue an export. Only one can be in the queue at a time, and one a day.
+   */
+  static async requestExport(userId: number): Promise<DataExport> {
+    const recent = await executeQuery(
+      `SELECT status, requested_at FROM data_export_requests
+       WHERE user_id = ? AND (status IN ('pending', 'processing')
+         OR requested_at > DATE_SUB(NOW(), INTERVAL ${REQUEST_COOLDOWN_HOURS} HOUR))
+       ORDER BY id DESC LIMIT 1`,
+      [userId]
+    );
+    if (recent.length > 0) {
+      if (['pending', 'processing'].includes(recent[0].status)) {
+        throw new ExportError('Your previous export is still being prepared', 409);
+      }
+      if (recent[0].status !== 'failed') {
+        throw new ExportError(`You can request one export every ${REQUEST_COOLDOWN_HOURS} hours`, 429);
+      }
+    }
+
+    const result = await executeQuery('INSERT INTO data_export_requests (user_id) VALUES (?)', [userId]);
+
+    setImmediate(() => {
+      this.runJobs().catch(error => console.error('Data export job error:', error));
+    });
+
+    const rows = await executeQuery('SELECT * FROM data_export_requests WHERE id = ?', [result.insertId]);
+    return this.toDataExport(rows[0]);
+  }
+
+  static async listExports(userId: number): Promise<DataExport[]> {
+    const rows = await executeQuery(
+      'SELECT * FROM data_export_requests WHERE user_id = ? ORDER BY id DESC LIMIT 10',
+      [userId]
+    );
+    return rows.map((row: any) => this.toDataExport(row));
+  }
+
+  /**
+   * Path and download name of a finished archive that belongs to the user
+   */
+  static async getArchive(userId: number, exportId: number): Promise<{ filePath: string; downloadName: string }> {
+    const rows = await executeQuery(
+      'SELECT * FROM data_export_requests WHERE id = ? AND user_id = ?',
+      [exportId, userId]
+    );
+    if (rows.length === 0) {
+      throw new ExportError('Export not found', 404);
+    }
+
+    const job = rows[0];
+    if (job.status === 'expired' || (job.expires_at && new Date(job.expires_at) <= new Date())) {
+      throw new ExportError('This export has expired; request a new one', 410);
+    }
+    if (job.status !== 'completed') {
+      throw new ExportError('This export is not ready yet', 409);
+    }
+
+    const createdOn = new Date(job.completed_at).toISOString().slice(0, 10);
+    return {
+      filePath: path.join(exportDir(), job.file_name),
+      downloadName: `gamblefun-data-${createdOn}.zip`
+    };
+  }
+
+  /**
+   * Delete every archive and request of a user, e.g. when the account is closed
+   */
+  static async discardExports(userId: number): Promise<void> {
+    const rows = await executeQuery(
+      'SELECT file_name FROM data_export_requests WHERE user_id = ? AND file_name IS NOT NULL',
+      [userId]
+    );
+    await executeQuery('DELETE FROM data_export_requests WHERE user_id = ?', [userId]);
+
+    for (const row of rows) {
+      await this.removeFile(row.file_name);
+    }
+  }
+
+  /**
+   * Expire old archives, then build queued exports oldest first
+   */
+  private static async runJobs(): Promise<void> {
+    if (this.running || !LeaderLease.isLeader()) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const expired = await executeQuery(
+        `SELECT id, file_name FROM data_export_requests
+         WHERE status = 'completed' AND expires_at <= NOW()`
+      );
+      for (const row of expired) {
+        await executeQuery(
+          "UPDATE data_export_requests SET status = 'expired', file_name = NULL WHERE id = ?",
+          [row.id]
+        );
+        await this.removeFile(row.file_name);
+      }
+
+      // A demoted leader stops after the job in hand
+      while (LeaderLease.isLeader()) {
+        const pending = await executeQuery(
+          "SELECT id, user_id FROM data_export_requests WHERE status = 'pending' ORDER BY id LIMIT 1"
+        );
+        if (pending.length === 0) {
+          break;
+        }
+
+        // Claim it, so a second instance does not build the same export
+        const claimed = await executeQuery(
+          "UPDATE data_export_requests SET status = 'processing' WHERE id = ? AND status = 'pending'",
+          [pending[0].id]
+        );
+        if (claimed.affectedRows > 0) {
+          await this.processJob(pending[0].id, pending[0].user_id);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private static async processJob(exportId: number, userId: number): Promise<void> {
+    let fileName: string | null = null;
+
+    try {
+      fileName = `export-${userId}-${exportId}-${crypto.randomBytes(8).toString('hex')}.zip`;
+      const fileSize = await this.buildArchive(userId, path.join(exportDir(), fileName));
+
+      const finished = await executeQuery(
+        `UPDATE data_export_requests
+         SET status = 'completed', file_name = ?, file_size = ?, completed_at = NOW(),
+             expires_at = DATE_ADD(NOW(), INTERVAL ${EXPIRY_DAYS} DAY)
+         WHERE id = ? AND status = 'processing'`,
+        [fileName, fileSize, exportId]
+      );
+
+      // The request was discarded while we worked, e.g. by the account closing
+      if (finished.affectedRows === 0) {
+        await this.removeFile(fileName);
+        return;
+      }
+
+      await this.notify(userId).catch(error => console.error('Data export notice error:', error));
+    } catch (error) {
+      console.error('Data export build error:', error);
+      if (fileName) {
+        await this.removeFile(fileName);
+      }
+      await executeQuery(
+        "UPDATE data_export_requests SET status = 'failed', error = ? WHERE id = ?",
+        ['The export could not be generated; please request it again', exportId]
+      );
+    }
+  }
+
+  /**
+   * Write the zip and return its size in bytes
+   */
+  private static async buildArchive(userId: number, filePath: string): Promise<number> {
+    const data: Record<string, any[]> = {};
+    for (const section of SECTIONS) {
+      const params = Array((section.query.match(/\?/g) || []).length).fill(userId);
+      data[section.name] = await executeQuery(section.query, params);
+    }
+    data.signed_in_devices = await TokenService.listSessions(userId);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const partPath = `${filePath}.part`;
+
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(partPath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
+
+      output.on('close', () => resolve());
+      output.on('error', reject);
+      archive.on('error', reject);
+      archive.pipe(output);
+
+      archive.append(JSON.stringify({ exportedAt: new Date().toISOString(), userId, ...data }, null, 2), {
+        name: 'data.json'
+      });
+      for (const [name, rows] of Object.entries(data)) {
+        archive.append(toCsv(rows), { name: `csv/${name}.csv` });
+      }
+
+      archive.finalize().catch(reject);
+    });
+
+    await fs.promises.rename(partPath, filePath);
+    return (await fs.promises.stat(filePath)).size;
+  }
+
+  private static async notify(userId: number): Promise<void> {
+    const users = await executeQuery('SELECT username, email FROM users WHERE id = ? AND is_active = TRUE', [userId]);
+    if (users.length === 0) {
+      return;
+    }
+
+    await MailService.send({
+      to: users[0].email,
+      subject: 'Your data export is ready',
+      text: `Hi ${users[0].username},\n\n` +
+        `The copy of your Gamble Fun Casino data you asked for is ready. Download it from the ` +
+        `Privacy tab of your profile:\n\n${process.env.FRONTEND_URL || 'http://localhost:3000'}/profile\n\n` +
+        `The download is available for ${EXPIRY_DAYS} days.`
+    });
+  }
+
+  private static async removeFile(fileName: string): Promise<void> {
+    await fs.promises.rm(path.join(exportDir(), fileName), { force: true });
+    await fs.promises.rm(path.join(exportDir(), `${fileName}.part`), { force: true });
+  }
+
+  private static toDataExport(row: any): DataExport {
+    return {
+      id: row.id,
+      status: row.status,
+      fileSize: row.file_size === null ? null : Number(row.file_size),
+      error: row.error,
+      requestedAt: new Date(row.requested_at).toISOString(),
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+      expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null
+    };
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { executeQuery } from '../config/database';
+import { LeaderLease } from './leaderLease';
 
 export class DatabaseCleanupService {
   
@@ -13,15 +14,16 @@ export class DatabaseCleanupService {
   static initialize() {
     console.log('🧹 Database Cleanup Service initialized');
     
-    // Run cleanup every 60 seconds
+    // Run cleanup every 60 seconds, on the leader only
     setInterval(async () => {
+      if (!LeaderLease.isLeader()) return;
       await this.performCleanup();
     }, 60000);
 
-    // Run initial cleanup
-    setTimeout(() => {
+    // Run initial cleanup once elected
+    LeaderLease.onElected(() => setTimeout(() => {
       this.performCleanup();
-    }, 5000);
+    }, 5000));
   }
 
   /**
@@ -43,6 +45,9 @@ export class DatabaseCleanupService {
       // 4. Fix orphaned hands
       await this.fixOrphanedHands();
 
+      // 5. Expire old idempotency keys
+      await this.purgeIdempotencyKeys();
+
       console.log('✅ Database cleanup completed successfully');
     } catch (error) {
       console.error('❌ Database cleanup failed:', error);
@@ -96,7 +101,7 @@ export class DatabaseCleanupService {
   }
 
   /**
-   * Remove inactive human players (but keep AI players)
+   * Remove inactive human players (but keep AI players and tournament players)
    * Give human players longer grace period for reconnection
    */
   private static async removeInactivePlayers() {
@@ -108,6 +113,7 @@ export class DatabaseCleanupService {
       AND is_active = 1 
       AND is_sitting_out = 0
       AND (last_seen IS NULL OR last_seen < DATE_SUB(NOW(), INTERVAL 2 MINUTE))
+      AND table_id NOT IN (SELECT id FROM poker_tables WHERE tournament_id IS NOT NULL)
     `);
 
     // Only remove players after 10 minutes of complete inactivity
@@ -117,6 +123,7 @@ export class DatabaseCleanupService {
       WHERE user_id > 0 
       AND is_active = 1 
       AND (last_seen IS NULL OR last_seen < DATE_SUB(NOW(), INTERVAL 10 MINUTE))
+      AND table_id NOT IN (SELECT id FROM poker_tables WHERE tournament_id IS NOT NULL)
     `);
 
     if (result.affectedRows > 0) {
@@ -124,6 +131,19 @@ export class DatabaseCleanupService {
     }
   }
 
+  /**
+   * Drop idempotency keys older than a day; clients only retry within minutes
+   */
+  private static async purgeIdempotencyKeys() {
+    const result = await executeQuery(
+      'DELETE FROM idempotency_keys WHERE created_at < NOW() - INTERVAL 1 DAY'
+    );
+
+    if (result.affectedRows > 0) {
+      console.log(`🔑 Purged ${result.affectedRows} expired idempotency keys`);
+    }
+  }
+
   /**
    * Fix orphaned hands and ensure proper game state
    */
@@ -176,6 +196,9 @@ export class DatabaseCleanupService {
         WHERE game_state != 'finished'
       `);
 
+      // Drop saved engine states so tables start from a fresh hand
+      await executeQuery('DELETE FROM poker_table_states');
+
       // Reset all seats
       await executeQuery(`
         UPDATE poker_seats 
@@ -8,6 +8,83 @@ export interface GameResult {
   winAmount: number;
 }
 
+/**
+ * Deterministic byte stream for a single round.
+ * Each round of HMAC-SHA256(serverSeed, `clientSeed:nonce:round`) yields 32 bytes;
+ * the cursor moves through them and starts a new round when they run out.
+ */
+export class FairRandomStream {
+  private round = 0;
+  private cursor = 0;
+  private buffer: Buffer;
+
+  constructor(
+    private readonly serverSeed: string,
+    private readonly clientSeed: string,
+    private readonly nonce: number
+  ) {
+    this.buffer = this.digest();
+  }
+
+  nextByte(): number {
+    if (this.cursor >= this.buffer.length) {
+      this.round++;
+      this.cursor = 0;
+      this.buffer = this.digest();
+    }
+    return this.buffer[this.cursor++];
+  }
+
+  nextUint32(): number {
+    // >>> 0 keeps the result unsigned once the top bit is set
+    return ((this.nextByte() << 24) | (this.nextByte() << 16) | (this.nextByte() << 8) | this.nextByte()) >>> 0;
+  }
+
+  /**
+   * Uniform float in [0, 1) with 53 bits of precision
+   */
+  nextFloat(): number {
+    const high = this.nextUint32() >>> 5; // 27 bits
+    const low = this.nextUint32() >>> 6; // 26 bits
+    return (high * 67108864 + low) / 9007199254740992;
+  }
+
+  /**
+   * Uniform integer in [0, max) - draws that would favour low values are rejected
+   */
+  nextInt(max: number): number {
+    if (!Number.isInteger(max) || max <= 0 || max > 0x100000000) {
+      throw new Error(`Invalid range: ${max}`);
+    }
+
+    const limit = 0x100000000 - (0x100000000 % max);
+    let value = this.nextUint32();
+    while (value >= limit) {
+      value = this.nextUint32();
+    }
+    return value % max;
+  }
+
+  /**
+   * Fisher-Yates shuffle, returns a new array
+   */
+  shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private digest(): Buffer {
+    return crypto
+      .createHmac('sha256', this.serverSeed)
+      .update(`${this.clientSeed}:${this.nonce}:${this.round}`)
+      .digest();
+  }
+}
+
 export class ProvablyFairEngine {
   static generateServerSeed(): string {
     return crypto.randomBytes(32).toString('hex');
@@ -17,16 +94,51 @@ export class ProvablyFairEngine {
     return crypto.randomBytes(16).toString('hex');
   }
 
+  static hashServerSeed(serverSeed: string): string {
+    // Published commitment - players compare this against the seed revealed on rotation
+    return crypto.createHash('sha256').update(serverSeed).digest('hex');
+  }
+
   static generateHash(serverSeed: string, clientSeed: string, nonce: number): string {
     const combined = `${serverSeed}:${clientSeed}:${nonce}`;
     return crypto.createHash('sha256').update(combined).digest('hex');
   }
 
-  static hashToFloat(hash: string): number {
-    // Convert first 8 characters of hash to float between 0 and 1
-    const hex = hash.substring(0, 8);
-    const num = parseInt(hex, 16);
-    return num / 0xffffffff;
+  static createRandomStream(serverSeed: string, clientSeed: string, nonce: number): FairRandomStream {
+    return new FairRandomStream(serverSeed, clientSeed, nonce);
+  }
+
+  static playGame(
+    gameType: string,
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    betAmount: number,
+    gameData: any = {},
+    houseEdge: number = 0.03
+  ): GameResult | null {
+    const data = gameData || {};
+
+    switch (gameType) {
+      case 'slots':
+        return this.playSlots(serverSeed, clientSeed, nonce, betAmount, houseEdge);
+      case 'dice': {
+        const { target = 50, isOver = true } = data;
+        return this.playDice(serverSeed, clientSeed, nonce, betAmount, target, isOver);
+      }
+      case 'crash': {
+        const { cashOutAt = 1.5 } = data;
+        return this.playCrash(serverSeed, clientSeed, nonce, betAmount, cashOutAt);
+      }
+      case 'blackjack':
+        return this.playBlackjack(serverSeed, clientSeed, nonce, betAmount);
+      case 'roulette': {
+        const { bets = [] } = data;
+        return this.playRoulette(serverSeed, clientSeed, nonce, betAmount, bets);
+      }
+      default:
+        return null;
+    }
   }
 
   static playSlots(
@@ -37,6 +149,7 @@ export class ProvablyFairEngine {
     houseEdge: number = 0.03
   ): GameResult {
     const hash = this.generateHash(serverSeed, clientSeed, nonce);
+    const stream = this.createRandomStream(serverSeed, clientSeed, nonce);
     
     // Fortune Teller themed symbols with achievable big wins
     const symbols = ['🔮', '🪬', '🃏', '🧿', '🦉', '⭐', '🌙', '👑', '💎', '💰', '🌟', '🎭', '🎲', 'WILD'];
@@ -72,21 +185,12 @@ export class ProvablyFairEngine {
       weightedSymbols.push(...symbols.slice(0, -1)); // All except WILD
     }
 
-    // Generate 5x3 grid using hash-based randomness
+    // Generate 5x3 grid, one independent draw per cell
     const reels: string[][] = [];
     for (let col = 0; col < 5; col++) {
       const reel: string[] = [];
       for (let row = 0; row < 3; row++) {
-        // Use a simpler, more reliable hash indexing approach
-        const position = col * 3 + row;
-        const hashStart = (position * 4) % (hash.length - 8); // Ensure we stay within bounds
-        const hashSlice = hash.substring(hashStart, hashStart + 8);
-        const random = this.hashToFloat(hashSlice);
-        const symbolIndex = Math.floor(random * weightedSymbols.length);
-        
-        // Ensure we always get a valid symbol
-        const selectedSymbol = weightedSymbols[symbolIndex] || weightedSymbols[0];
-        reel.push(selectedSymbol);
+        reel.push(weightedSymbols[stream.nextInt(weightedSymbols.length)]);
       }
       reels.push(reel);
     }
@@ -219,8 +323,8 @@ export class ProvablyFairEngine {
     isOver: boolean
   ): GameResult {
     const hash = this.generateHash(serverSeed, clientSeed, nonce);
-    const random = this.hashToFloat(hash);
-    const roll = Math.floor(random * 100) + 1; // 1-100
+    const stream = this.createRandomStream(serverSeed, clientSeed, nonce);
+    const roll = stream.nextInt(100) + 1; // 1-100
 
     let isWin: boolean;
     if (isOver) {
@@ -248,10 +352,27 @@ export class ProvablyFairEngine {
     clientSeed: string,
     nonce: number,
     betAmount: number,
-    cashOutAt: number
+    cashOutAt: number | null
   ): GameResult {
     const hash = this.generateHash(serverSeed, clientSeed, nonce);
-    const random = this.hashToFloat(hash);
+    const crashPoint = this.getCrashPoint(serverSeed, clientSeed, nonce);
+
+    // A null cash-out is a player who was still in when the round crashed
+    const isWin = cashOutAt !== null && cashOutAt <= crashPoint;
+    const multiplier = isWin ? cashOutAt : 0;
+    const winAmount = isWin ? betAmount * multiplier : 0;
+
+    return {
+      result: { crashPoint, cashOutAt },
+      hash,
+      isWin,
+      multiplier,
+      winAmount
+    };
+  }
+
+  static getCrashPoint(serverSeed: string, clientSeed: string, nonce: number): number {
+    const random = this.createRandomStream(serverSeed, clientSeed, nonce).nextFloat();
 
     // Generate crash point using exponential distribution
     // Classic crash game formula: 99 / (100 * random) with house edge
@@ -267,19 +388,7 @@ export class ProvablyFairEngine {
     }
     
     // Round to 2 decimal places
-    crashPoint = Math.floor(crashPoint * 100) / 100;
-
-    const isWin = cashOutAt <= crashPoint;
-    const multiplier = isWin ? cashOutAt : 0;
-    const winAmount = isWin ? betAmount * multiplier : 0;
-
-    return {
-      result: { crashPoint, cashOutAt },
-      hash,
-      isWin,
-      multiplier,
-      winAmount
-    };
+    return Math.floor(crashPoint * 100) / 100;
   }
 
   static playBlackjack(
@@ -291,18 +400,14 @@ export class ProvablyFairEngine {
     const hash = this.generateHash(serverSeed, clientSeed, nonce);
     
     // Generate shuffled deck
-    const deck = [];
+    const orderedDeck = [];
     for (let suit = 0; suit < 4; suit++) {
       for (let rank = 1; rank <= 13; rank++) {
-        deck.push(rank);
+        orderedDeck.push(rank);
       }
     }
 
-    // Shuffle using hash-based randomness
-    for (let i = 0; i < 52; i++) {
-      const randomIndex = Math.floor(this.hashToFloat(hash.substring(i * 2, i * 2 + 8)) * (52 - i));
-      [deck[i], deck[i + randomIndex]] = [deck[i + randomIndex], deck[i]];
-    }
+    const deck = this.createRandomStream(serverSeed, clientSeed, nonce).shuffle(orderedDeck);
 
     // Deal cards
     const playerCards = [deck[0], deck[2]];
@@ -382,10 +487,10 @@ export class ProvablyFairEngine {
     bets: { type: string, value: any, amount: number }[]
   ): GameResult {
     const hash = this.generateHash(serverSeed, clientSeed, nonce);
-    const random = this.hashToFloat(hash);
+    const stream = this.createRandomStream(serverSeed, clientSeed, nonce);
     
     // European roulette: 0-36 (37 numbers)
-    const winningNumber = Math.floor(random * 37);
+    const winningNumber = stream.nextInt(37);
     
     // Determine color and properties
     const redNumbers = [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36];
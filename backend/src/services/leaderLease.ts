@@ -0,0 +1,185 @@
+/**
+ * Leader Lease
+ * Elects the one backend instance that runs the background loops (crash rounds, auto-bet, the poker
+ * action clock, AI players, tournaments, reality checks, cleanup and data exports). The leader holds a
+ * Redis lease it keeps renewing; when it dies the lease runs out and another instance takes over.
+ * Work kept in the leader's memory is reached from any instance through leader calls, relayed over
+ * the Socket.IO Redis adapter.
+ */
+
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import { getRedisClient } from '../config/redis';
+
+type LeaderTask = () => unknown;
+type LeaderHandler = (...args: any[]) => Promise<any>;
+type ErrorType = new (message: string) => Error;
+
+interface LeaderReply {
+  result?: any;
+  error?: { name: string; message: string };
+}
+
+const LEASE_KEY = 'leader:lease';
+const LEASE_MS = 15000; // How long a dead leader keeps the loops stopped
+const RENEW_MS = 5000;
+
+// Only the holder's token may extend the lease, so an expired leader cannot extend its successor's
+const RENEW_LEASE_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+
+const callEvent = (name: string) => `leader:${name}`;
+
+export class LeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeaderError';
+  }
+}
+
+export class LeaderLease {
+  private static io: Server;
+  private static token = crypto.randomBytes(16).toString('hex');
+  private static leaseEndsAt = 0; // Local bound on the lease, never later than Redis expires it
+  private static leading = false; // Elected tasks have run, demoted tasks have not
+  private static campaigning = false;
+  private static electedTasks: LeaderTask[] = [];
+  private static demotedTasks: LeaderTask[] = [];
+  private static handlers: Map<string, { handler: LeaderHandler; errors: ErrorType[] }> = new Map();
+
+  static initialize(socketIO: Server): void {
+    this.io = socketIO;
+  }
+
+  /**
+   * Campaign for the lease; call once every loop has registered its tasks
+   */
+  static start(): void {
+    this.campaign();
+    setInterval(() => this.campaign(), RENEW_MS);
+  }
+
+  static isLeader(): boolean {
+    return Date.now() < this.leaseEndsAt;
+  }
+
+  /**
+   * Run a task each time this instance becomes the leader
+   */
+  static onElected(task: LeaderTask): void {
+    this.electedTasks.push(task);
+  }
+
+  /**
+   * Run a task each time this instance loses the lease
+   */
+  static onDemoted(task: LeaderTask): void {
+    this.demotedTasks.push(task);
+  }
+
+  /**
+   * Answer a leader call. Errors of the listed types reach the caller with their message; the
+   * arguments and result must survive JSON.
+   */
+  static handle(name: string, handler: LeaderHandler, errors: ErrorType[] = []): void {
+    this.handlers.set(name, { handler, errors });
+
+    this.io.on(callEvent(name), async (...args: any[]) => {
+      const reply = args.pop();
+      if (!this.isLeader()) {
+        reply(null);
+        return;
+      }
+
+      try {
+        reply({ result: await handler(...args) });
+      } catch (error: any) {
+        if (errors.some(type => error instanceof type)) {
+          reply({ error: { name: error.name, message: error.message } });
+          return;
+        }
+        console.error(`Leader call ${name} error:`, error);
+        reply({ error: { name: 'Error', message: 'Request failed' } });
+      }
+    });
+  }
+
+  /**
+   * Run a leader call here when leading, else on the leader
+   */
+  static async call<T = any>(name: string, ...args: any[]): Promise<T> {
+    const entry = this.handlers.get(name);
+    if (!entry) {
+      throw new Error(`Unknown leader call ${name}`);
+    }
+    if (this.isLeader()) {
+      return entry.handler(...args);
+    }
+
+    const reply = await this.ask(name, args);
+    if (!reply) {
+      throw new LeaderError('The server is busy, please try again');
+    }
+    if (reply.error) {
+      const type = entry.errors.find(errorType => errorType.name === reply.error?.name);
+      throw type ? new type(reply.error.message) : new Error(reply.error.message);
+    }
+    return reply.result;
+  }
+
+  /**
+   * The leader's reply; null when no instance is leading or the leader did not answer in time
+   */
+  private static ask(name: string, args: any[]): Promise<LeaderReply | null> {
+    return new Promise(resolve => {
+      // Followers answer null; a timeout still passes on the replies that arrived
+      this.io.serverSideEmit(callEvent(name), ...args, (_error: Error | null, replies: Array<LeaderReply | null>) => {
+        resolve((replies || []).find(reply => reply !== null) || null);
+      });
+    });
+  }
+
+  private static async campaign(): Promise<void> {
+    if (this.campaigning) return;
+    this.campaigning = true;
+
+    // A lease that ran out since the last renewal is lost even if it is won straight back
+    this.changeRole();
+
+    try {
+      const client = getRedisClient();
+      const askedAt = Date.now();
+      const held = this.isLeader()
+        ? await client.eval(RENEW_LEASE_SCRIPT, { keys: [LEASE_KEY], arguments: [this.token, String(LEASE_MS)] }) === 1
+        : await client.set(LEASE_KEY, this.token, { NX: true, PX: LEASE_MS }) === 'OK';
+
+      // Counted from before the request, so the lease ends here no later than in Redis
+      this.leaseEndsAt = held ? askedAt + LEASE_MS : 0;
+    } catch (error) {
+      // Keep the current bound; a lease that cannot be renewed simply runs out
+      console.error('Leader lease error:', error);
+    } finally {
+      this.campaigning = false;
+    }
+
+    this.changeRole();
+  }
+
+  private static changeRole(): void {
+    if (this.isLeader() === this.leading) return;
+
+    this.leading = this.isLeader();
+    console.log(this.leading ? '👑 Elected leader; running background loops' : '⏸️ Lost the leader lease; background loops paused');
+    for (const task of this.leading ? this.electedTasks : this.demotedTasks) {
+      Promise.resolve()
+        .then(task)
+        .catch(error => console.error('Leader task error:', error));
+    }
+  }
+}
+
+export default LeaderLease;
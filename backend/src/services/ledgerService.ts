@@ -0,0 +1,228 @@
+/**
+ * Ledger Service
+ * Double-entry bookkeeping behind the wallet. Each money movement is posted as a journal
+ * whose entries sum to zero across user wallets, the house, the bonus pool, poker table
+ * and tournament escrow and external accounts. Reconciliation rebuilds balances from the entries.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+
+export type LedgerAccountType = 'user_wallet' | 'user_bonus' | 'house' | 'bonus_pool' | 'poker_escrow' | 'tournament_escrow' | 'external';
+
+export interface LedgerAccount {
+  code: string;
+  type: LedgerAccountType;
+  currency: 'cash' | 'bonus_tokens';
+  ownerId: number | null;
+}
+
+export interface LedgerJournal {
+  type: string;
+  description: string;
+  reference: string | null;
+  entries: Array<{ account: LedgerAccount; amount: number }>;
+}
+
+export interface LedgerDiscrepancy {
+  userId: number;
+  username: string;
+  account: 'wallet' | 'bonus_tokens';
+  recorded: number;
+  ledger: number;
+  difference: number;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class LedgerService {
+
+  static userWallet(userId: number): LedgerAccount {
+    return { code: `user:${userId}`, type: 'user_wallet', currency: 'cash', ownerId: userId };
+  }
+
+  static userBonus(userId: number): LedgerAccount {
+    return { code: `user_bonus:${userId}`, type: 'user_bonus', currency: 'bonus_tokens', ownerId: userId };
+  }
+
+  static pokerTable(tableId: number): LedgerAccount {
+    return { code: `poker_table:${tableId}`, type: 'poker_escrow', currency: 'cash', ownerId: tableId };
+  }
+
+  static tournament(tournamentId: number): LedgerAccount {
+    return { code: `tournament:${tournamentId}`, type: 'tournament_escrow', currency: 'cash', ownerId: tournamentId };
+  }
+
+  static readonly HOUSE: LedgerAccount = { code: 'house', type: 'house', currency: 'cash', ownerId: null };
+  static readonly BONUS_POOL: LedgerAccount = { code: 'bonus_pool', type: 'bonus_pool', currency: 'cash', ownerId: null };
+  static readonly BONUS_TOKEN_POOL: LedgerAccount = { code: 'bonus_pool:tokens', type: 'bonus_pool', currency: 'bonus_tokens', ownerId: null };
+  static readonly PAYMENTS: LedgerAccount = { code: 'payments', type: 'external', currency: 'cash', ownerId: null };
+
+  /**
+   * Write a balanced journal on a connection that is already in a transaction
+   */
+  static async post(connection: PoolConnection, journal: LedgerJournal): Promise<number> {
+    const total = round2(journal.entries.reduce((sum, entry) => sum + round2(entry.amount), 0));
+    if (total !== 0) {
+      throw new LedgerError(`Journal ${journal.type} does not balance (off by ${total})`);
+    }
+    if (new Set(journal.entries.map(entry => entry.account.currency)).size > 1) {
+      throw new LedgerError(`Journal ${journal.type} mixes currencies`);
+    }
+
+    const [result]: any = await connection.execute(
+      'INSERT INTO ledger_journals (type, description, reference) VALUES (?, ?, ?)',
+      [journal.type, journal.description, journal.reference]
+    );
+
+    for (const entry of journal.entries) {
+      const accountId = await this.getAccountId(connection, entry.account);
+      await connection.execute(
+        'INSERT INTO ledger_entries (journal_id, account_id, amount) VALUES (?, ?, ?)',
+        [result.insertId, accountId, round2(entry.amount)]
+      );
+    }
+
+    return result.insertId;
+  }
+
+  /**
+   * Users whose stored balance or bonus tokens differ from the sum of their ledger entries,
+   * plus any journal that does not net to zero
+   */
+  static async reconcile(): Promise<any> {
+    const wallets = await executeQuery(
+      `SELECT u.id, u.username, u.balance AS recorded, COALESCE(SUM(e.amount), 0) AS ledger
+       FROM users u
+       LEFT JOIN ledger_accounts a ON a.code = CONCAT('user:', u.id)
+       LEFT JOIN ledger_entries e ON e.account_id = a.id
+       GROUP BY u.id, u.username, u.balance`
+    );
+
+    const bonusTokens = await executeQuery(
+      `SELECT u.id, u.username, s.bonus_tokens AS recorded, COALESCE(SUM(e.amount), 0) AS ledger
+       FROM user_bonus_stats s
+       JOIN users u ON u.id = s.user_id
+       LEFT JOIN ledger_accounts a ON a.code = CONCAT('user_bonus:', s.user_id)
+       LEFT JOIN ledger_entries e ON e.account_id = a.id
+       GROUP BY u.id, u.username, s.bonus_tokens`
+    );
+
+    const discrepancies: LedgerDiscrepancy[] = [
+      ...this.findDiscrepancies(wallets, 'wallet'),
+      ...this.findDiscrepancies(bonusTokens, 'bonus_tokens')
+    ];
+
+    const unbalancedJournals = await executeQuery(
+      `SELECT j.id, j.type, j.reference, j.created_at, SUM(e.amount) AS total
+       FROM ledger_journals j
+       JOIN ledger_entries e ON e.journal_id = j.id
+       GROUP BY j.id, j.type, j.reference, j.created_at
+       HAVING SUM(e.amount) <> 0
+       ORDER BY j.id`
+    );
+
+    const accounts = await executeQuery(
+      `SELECT a.code, a.account_type, a.currency, COALESCE(SUM(e.amount), 0) AS balance
+       FROM ledger_accounts a
+       LEFT JOIN ledger_entries e ON e.account_id = a.id
+       WHERE a.account_type NOT IN ('user_wallet', 'user_bonus')
+       GROUP BY a.id, a.code, a.account_type, a.currency
+       ORDER BY a.account_type, a.code`
+    );
+
+    // Escrow should match the chips of human players still seated at the table
+    const pokerEscrow = await executeQuery(
+      `SELECT a.owner_id AS table_id,
+              COALESCE((SELECT SUM(e.amount) FROM ledger_entries e WHERE e.account_id = a.id), 0) AS escrow,
+              COALESCE((SELECT SUM(ps.chips) FROM poker_seats ps
+                        WHERE ps.table_id = a.owner_id AND ps.is_active = TRUE AND ps.user_id > 0), 0) AS seated_chips
+       FROM ledger_accounts a
+       WHERE a.account_type = 'poker_escrow'
+       ORDER BY a.owner_id`
+    );
+
+    // Tournament escrow holds the buy-ins until the prizes are paid, then nothing
+    const tournamentEscrow = await executeQuery(
+      `SELECT t.id AS tournament_id, t.status,
+              COALESCE((SELECT SUM(e.amount) FROM ledger_entries e WHERE e.account_id = a.id), 0) AS escrow,
+              IF(t.status IN ('registering', 'running'),
+                 t.buy_in * (SELECT COUNT(*) FROM poker_tournament_players tp WHERE tp.tournament_id = t.id), 0) AS expected
+       FROM ledger_accounts a
+       JOIN poker_tournaments t ON t.id = a.owner_id
+       WHERE a.account_type = 'tournament_escrow'
+       ORDER BY t.id`
+    );
+
+    return {
+      checkedUsers: wallets.length,
+      discrepancies,
+      unbalancedJournals: unbalancedJournals.map((journal: any) => ({
+        id: journal.id,
+        type: journal.type,
+        reference: journal.reference,
+        total: parseFloat(journal.total),
+        createdAt: journal.created_at
+      })),
+      accounts: accounts.map((account: any) => ({
+        code: account.code,
+        type: account.account_type,
+        currency: account.currency,
+        balance: parseFloat(account.balance)
+      })),
+      pokerEscrow: pokerEscrow.map((table: any) => ({
+        tableId: table.table_id,
+        escrow: parseFloat(table.escrow),
+        seatedChips: parseFloat(table.seated_chips),
+        difference: round2(parseFloat(table.seated_chips) - parseFloat(table.escrow))
+      })),
+      tournamentEscrow: tournamentEscrow.map((tournament: any) => ({
+        tournamentId: tournament.tournament_id,
+        status: tournament.status,
+        escrow: parseFloat(tournament.escrow),
+        expected: parseFloat(tournament.expected),
+        difference: round2(parseFloat(tournament.expected) - parseFloat(tournament.escrow))
+      }))
+    };
+  }
+
+  private static findDiscrepancies(rows: any[], account: LedgerDiscrepancy['account']): LedgerDiscrepancy[] {
+    return rows
+      .map(row => ({
+        userId: row.id,
+        username: row.username,
+        account,
+        recorded: parseFloat(row.recorded),
+        ledger: parseFloat(row.ledger),
+        difference: round2(parseFloat(row.recorded) - parseFloat(row.ledger))
+      }))
+      .filter(row => row.difference !== 0);
+  }
+
+  private static async getAccountId(connection: PoolConnection, account: LedgerAccount): Promise<number> {
+    const [existing]: any = await connection.execute(
+      'SELECT id FROM ledger_accounts WHERE code = ?',
+      [account.code]
+    );
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    await connection.execute(
+      'INSERT IGNORE INTO ledger_accounts (code, account_type, currency, owner_id) VALUES (?, ?, ?, ?)',
+      [account.code, account.type, account.currency, account.ownerId]
+    );
+    const [created]: any = await connection.execute(
+      'SELECT id FROM ledger_accounts WHERE code = ?',
+      [account.code]
+    );
+    return created[0].id;
+  }
+}
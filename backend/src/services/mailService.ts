@@ -0,0 +1,126 @@
+/**
+ * Mail Service
+ * Outgoing email behind a small transport interface. Production sends through SMTP; local
+ * development and tests use a stand-in that prints each message to the console and can
+ * also save it to an outbox folder.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Development stand-in: logs every message, writes it to `outboxDir` as a .eml file when
+ * given, and keeps the most recent ones in memory for tests
+ */
+export class DevMailTransport implements MailTransport {
+  readonly sent: Array<MailMessage & { from: string }> = [];
+
+  constructor(private readonly outboxDir: string | null = null, private readonly keep = 50) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > this.keep) {
+      this.sent.shift();
+    }
+
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+
+    if (this.outboxDir) {
+      const eml = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text
+      ].join('\r\n');
+
+      await fs.mkdir(this.outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+      await fs.writeFile(path.join(this.outboxDir, fileName), eml);
+    }
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export class MailService {
+
+  /**
+   * Transport from the environment: SMTP when SMTP_HOST is set, otherwise the development
+   * stand-in. Production refuses to send without SMTP.
+   */
+  static getTransport(): MailTransport {
+    if (transport) {
+      return transport;
+    }
+
+    if (process.env.SMTP_HOST) {
+      transport = new SmtpMailTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD
+      });
+    } else {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('SMTP_HOST must be set in production');
+      }
+      console.warn('⚠️ SMTP_HOST is not set; emails are printed to the console instead of sent');
+      transport = new DevMailTransport(process.env.MAIL_OUTBOX_DIR || null);
+    }
+    return transport;
+  }
+
+  /**
+   * Replace the transport, e.g. with a DevMailTransport in tests
+   */
+  static setTransport(next: MailTransport | null): void {
+    transport = next;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send({
+      ...message,
+      from: process.env.MAIL_FROM || 'Gamble Fun Casino <no-reply@gamblefun.local>'
+    });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Poker Action Clock
+ * The player to act gets the table's action time, then whatever is left of their time bank, and is
+ * checked or folded when both run out. Banks are spent by slow actions and refill a little with every
+ * hand dealt in. Players who time out too often in a row, or whose connection drops, are sat out:
+ * they keep their seat and are acted for at once while away, dealt in (and blinded) or skipped per
+ * the table's sit_out_blinds rule. A cash seat left sitting out too long is cashed out.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+import { PokerEngineError, SeatState, TableEvent } from './pokerTableEngine';
+import { LeaderLease } from './leaderLease';
+import PokerGameManager from '../socket/pokerHandler';
+
+export interface ActionClock {
+  userId: number;
+  seatPosition: number;
+  actionTime: number; // Seconds, before the time bank is used
+  timeBank: number; // Seconds
+  startedAt: number; // Epoch ms
+}
+
+const CLOCK_TICK_MS = 1000;
+
+export class PokerActionClock {
+  private static pokerManager: PokerGameManager | null = null;
+  private static ticking = false;
+
+  /**
+   * Start the clock; players are acted for through the poker manager
+   */
+  static initialize(pokerManager: PokerGameManager): void {
+    this.pokerManager = pokerManager;
+
+    setInterval(() => {
+      if (this.ticking || !LeaderLease.isLeader()) return;
+      this.ticking = true;
+      this.tick()
+        .catch(error => console.error('Poker action clock error:', error))
+        .finally(() => { this.ticking = false; });
+    }, CLOCK_TICK_MS);
+  }
+
+  /**
+   * Charge the time banks and count the timeouts of a dispatch's actions, and refill the banks of
+   * players dealt a new hand. Runs in the dispatch's transaction, before the game's last action
+   * time moves on.
+   */
+  static async recordEvents(connection: PoolConnection, tableId: number, gameId: number, events: TableEvent[]): Promise<void> {
+    for (const event of events) {
+      if (event.type === 'player_seated') {
+        await connection.execute(`
+          UPDATE poker_seats ps
+          JOIN poker_tables pt ON pt.id = ps.table_id
+          SET ps.time_bank_seconds = LEAST(
+            COALESCE(ps.time_bank_seconds, pt.time_bank_seconds) + pt.time_bank_refill_seconds,
+            pt.time_bank_seconds
+          )
+          WHERE ps.table_id = ? AND ps.user_id = ? AND ps.is_active = true
+        `, [tableId, event.userId]);
+      }
+
+      if (event.type !== 'player_acted') continue;
+
+      if (!event.timedOut) {
+        // Whatever the action took beyond the action time came out of the bank
+        await connection.execute(`
+          UPDATE poker_seats ps
+          JOIN poker_tables pt ON pt.id = ps.table_id
+          JOIN poker_games pg ON pg.id = ?
+          SET ps.time_bank_seconds = GREATEST(
+                COALESCE(ps.time_bank_seconds, pt.time_bank_seconds)
+                - GREATEST(TIMESTAMPDIFF(SECOND, pg.last_action_at, NOW()) - pt.action_time_seconds, 0),
+                0
+              ),
+              ps.consecutive_timeouts = 0
+          WHERE ps.table_id = ? AND ps.user_id = ? AND ps.is_active = true
+        `, [gameId, tableId, event.userId]);
+        continue;
+      }
+
+      // Players already sitting out are acted for straight away and have spent nothing
+      await connection.execute(`
+        UPDATE poker_seats
+        SET time_bank_seconds = 0, consecutive_timeouts = consecutive_timeouts + 1
+        WHERE table_id = ? AND user_id = ? AND is_active = true AND is_sitting_out = false
+      `, [tableId, event.userId]);
+
+      await connection.execute(`
+        UPDATE poker_seats ps
+        JOIN poker_tables pt ON pt.id = ps.table_id
+        SET ps.is_sitting_out = true, ps.sat_out_at = NOW()
+        WHERE ps.table_id = ? AND ps.user_id = ? AND ps.is_active = true AND ps.is_sitting_out = false
+          AND ps.consecutive_timeouts >= pt.sit_out_after_timeouts
+      `, [tableId, event.userId]);
+    }
+  }
+
+  /**
+   * Clock of the player to act, starting now
+   */
+  static async clockFor(tableId: number, seat: SeatState): Promise<ActionClock | null> {
+    const rows = await executeQuery(`
+      SELECT pt.action_time_seconds, COALESCE(ps.time_bank_seconds, pt.time_bank_seconds) AS time_bank, ps.is_sitting_out
+      FROM poker_seats ps
+      JOIN poker_tables pt ON pt.id = ps.table_id
+      WHERE ps.table_id = ? AND ps.user_id = ? AND ps.is_active = true
+    `, [tableId, seat.userId]);
+    if (rows.length === 0 || rows[0].is_sitting_out) return null;
+
+    return {
+      userId: seat.userId,
+      seatPosition: seat.seatPosition,
+      actionTime: rows[0].action_time_seconds,
+      timeBank: rows[0].time_bank,
+      startedAt: Date.now()
+    };
+  }
+
+  private static async tick(): Promise<void> {
+    await this.actForOverdue();
+    await this.removeLongAbsent();
+  }
+
+  /**
+   * Check or fold for players whose time has run out, and at once for players sitting out
+   */
+  private static async actForOverdue(): Promise<void> {
+    const overdue = await executeQuery(`
+      SELECT pg.table_id, ps.user_id
+      FROM poker_games pg
+      JOIN poker_tables pt ON pt.id = pg.table_id
+      JOIN poker_seats ps ON ps.table_id = pg.table_id AND ps.game_id = pg.id
+        AND ps.seat_position = pg.current_player_position
+      WHERE pg.game_state IN ('pre_flop', 'flop', 'turn', 'river')
+        AND (
+          ps.is_sitting_out = true
+          OR NOW() >= pg.last_action_at + INTERVAL (
+            pt.action_time_seconds + COALESCE(ps.time_bank_seconds, pt.time_bank_seconds)
+          ) SECOND
+        )
+    `);
+
+    for (const turn of overdue) {
+      try {
+        await this.pokerManager!.timeoutPlayer(turn.table_id, turn.user_id);
+        console.log(`⏰ Player ${turn.user_id} timed out at table ${turn.table_id}`);
+      } catch (error) {
+        // The player acted in the meantime
+        if (!(error instanceof PokerEngineError)) {
+          console.error(`Error timing out player ${turn.user_id} at table ${turn.table_id}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Cash out players sitting out at cash tables for longer than the table allows
+   */
+  private static async removeLongAbsent(): Promise<void> {
+    const absent = await executeQuery(`
+      SELECT ps.table_id, ps.user_id
+      FROM poker_seats ps
+      JOIN poker_tables pt ON pt.id = ps.table_id
+      WHERE ps.is_active = true AND ps.is_sitting_out = true AND ps.user_id > 0
+        AND pt.tournament_id IS NULL
+        AND ps.sat_out_at < NOW() - INTERVAL pt.sit_out_remove_minutes MINUTE
+    `);
+
+    for (const seat of absent) {
+      try {
+        await this.pokerManager!.removeSittingOut(seat.table_id, seat.user_id);
+      } catch (error) {
+        console.error(`Error removing player ${seat.user_id} from table ${seat.table_id}:`, error);
+      }
+    }
+  }
+}
+
+export default PokerActionClock;
@@ -97,16 +97,7 @@ export function createDeck(): Card[] {
  * Shuffle deck using Fisher-Yates algorithm with provably fair seed
  */
 export function shuffleDeck(deck: Card[], serverSeed: string, clientSeed: string, nonce: number): Card[] {
-  const shuffledDeck = [...deck];
-  
-  for (let i = shuffledDeck.length - 1; i > 0; i--) {
-    const hash = ProvablyFairEngine.generateHash(serverSeed, clientSeed, nonce + i);
-    const randomFloat = ProvablyFairEngine.hashToFloat(hash);
-    const j = Math.floor(randomFloat * (i + 1));
-    [shuffledDeck[i], shuffledDeck[j]] = [shuffledDeck[j], shuffledDeck[i]];
-  }
-  
-  return shuffledDeck;
+  return ProvablyFairEngine.createRandomStream(serverSeed, clientSeed, nonce).shuffle(deck);
 }
 
 /**
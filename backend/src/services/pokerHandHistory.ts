@@ -0,0 +1,751 @@
+/**
+ * Poker Hand History Service
+ * Renders hands from their event log: as JSON or PokerStars-format text for tracking software, and
+ * as step-by-step frames for the hand replayer. A history is written for one player (the hero):
+ * their own hole cards are dealt to them, other players' cards appear only if they were shown down.
+ * A shared replay has no hero, so only shown-down cards appear.
+ */
+
+import crypto from 'crypto';
+import { executeQuery } from '../config/database';
+import { TokenService } from './tokenService';
+import { Card } from './pokerEngine';
+import { BettingRound, PokerEngineError, TableEvent } from './pokerTableEngine';
+
+export type HandHistoryAction = 'small_blind' | 'big_blind' | 'fold' | 'check' | 'call' | 'bet' | 'raise';
+
+export interface HandHistory {
+  handId: number;
+  handNumber: number;
+  startedAt: string;
+  table: { id: number; name: string; maxPlayers: number };
+  tournament: { id: number; name: string; buyIn: number; entryFee: number; level: number | null } | null;
+  currency: 'USD' | 'chips'; // Tournament hands are played for tournament chips
+  smallBlind: number;
+  bigBlind: number;
+  buttonSeat: number; // Seats are numbered from 1
+  players: Array<{ seat: number; name: string; isHero: boolean; chips: number; holeCards: string[] | null }>;
+  actions: Array<{
+    street: BettingRound;
+    seat: number;
+    name: string;
+    action: HandHistoryAction;
+    amount: number; // Chips put in by this action
+    raiseTo: number | null; // Bet or raise total for the street
+    isAllIn: boolean;
+    timedOut: boolean;
+  }>;
+  board: { flop: string[]; turn: string[]; river: string[] };
+  showdown: Array<{ seat: number; name: string; cards: string[]; hand: string }>;
+  uncalledBet: { seat: number; name: string; amount: number } | null;
+  pots: Array<{ amount: number; winners: Array<{ seat: number; name: string; amount: number }> }>; // Main pot first
+  totalPot: number;
+  rake: number;
+  voided: boolean;
+}
+
+export interface HandReplayFrame {
+  description: string;
+  street: BettingRound | 'showdown';
+  board: string[];
+  pot: number; // Everything put in so far, this street's bets included
+  actingSeat: number | null;
+  seats: Array<{
+    seat: number;
+    name: string;
+    chips: number;
+    bet: number; // Put in on this street
+    folded: boolean;
+    allIn: boolean;
+    holeCards: string[] | null;
+    won: number;
+  }>;
+}
+
+export interface RecentHand {
+  handId: number;
+  handNumber: number;
+  tableName: string;
+  totalPot: number;
+  won: boolean;
+  startedAt: string;
+}
+
+export interface HandHistoryQuery {
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+// Chip amounts are decimal; keep them at whole cents
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const STREET_NAMES: Record<BettingRound, string> = {
+  pre_flop: 'Preflop',
+  flop: 'Flop',
+  turn: 'Turn',
+  river: 'River'
+};
+
+export class PokerHandHistoryService {
+  /**
+   * One finished hand, as the given player saw it
+   */
+  static async getHand(userId: number, handId: number): Promise<HandHistory> {
+    const hands = await this.loadHands([handId]);
+    const hand = hands[0];
+
+    // Hands the player was not dealt into are not theirs to see
+    if (!hand || !hand.events.some(event => event.type === 'player_seated' && event.userId === userId)) {
+      throw new PokerEngineError('Hand not found', 404);
+    }
+    if (!isFinished(hand.events)) {
+      throw new PokerEngineError('This hand is still in progress', 409);
+    }
+
+    const names = await playerNames(hand.events);
+    return buildHistory(userId, hand.row, hand.events, names);
+  }
+
+  /**
+   * A finished hand with nobody's hole cards but those shown down, for a shared replay link
+   */
+  static async getSharedHand(handId: number, token: string): Promise<HandHistory> {
+    const hands = this.isShareToken(handId, token) ? await this.loadHands([handId]) : [];
+    const hand = hands[0];
+    if (!hand || !isFinished(hand.events)) {
+      throw new PokerEngineError('Hand not found', 404);
+    }
+
+    const names = await playerNames(hand.events);
+    return buildHistory(0, hand.row, hand.events, names);
+  }
+
+  /**
+   * Token that lets anyone holding a link replay the hand
+   */
+  static shareToken(handId: number): string {
+    return crypto
+      .createHmac('sha256', TokenService.jwtSecret())
+      .update(`poker-hand-replay:${handId}`)
+      .digest('base64url');
+  }
+
+  static isShareToken(handId: number, token: string): boolean {
+    const expected = Buffer.from(this.shareToken(handId));
+    const given = Buffer.from(String(token || ''));
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /**
+   * A player's latest hands, newest first, for picking one to replay
+   */
+  static async recentHands(userId: number, limit: number): Promise<RecentHand[]> {
+    const rows = await executeQuery(
+      `SELECT h.id, h.hand_number, pt.name AS table_name, h.total_pot, h.winner_user_id = ? AS won, h.started_at
+       FROM poker_hands h
+       JOIN poker_tables pt ON pt.id = h.table_id
+       WHERE h.id IN (SELECT hand_id FROM poker_actions WHERE user_id = ?)
+         AND EXISTS (SELECT 1 FROM poker_hand_events e WHERE e.hand_id = h.id AND e.event_type = 'hand_complete')
+       ORDER BY h.id DESC
+       LIMIT ${limit}`,
+      [userId, userId]
+    );
+
+    return rows.map((row: any) => ({
+      handId: row.id,
+      handNumber: row.hand_number,
+      tableName: row.table_name,
+      totalPot: parseFloat(row.total_pot),
+      won: Boolean(row.won),
+      startedAt: row.started_at
+    }));
+  }
+
+  /**
+   * The hand as the replayer steps through it: one frame per blind, action, street dealt,
+   * hand shown and pot awarded
+   */
+  static toReplay(history: HandHistory): HandReplayFrame[] {
+    const amount = amountFormat(history);
+    const seats: HandReplayFrame['seats'] = history.players.map(player => ({
+      seat: player.seat,
+      name: player.name,
+      chips: player.chips,
+      bet: 0,
+      folded: false,
+      allIn: false,
+      holeCards: player.isHero ? player.holeCards : null,
+      won: 0
+    }));
+    const seatOf = (seat: number) => seats.find(s => s.seat === seat)!;
+
+    const frames: HandReplayFrame[] = [];
+    let street: HandReplayFrame['street'] = 'pre_flop';
+    let streetBet = 0;
+    let board: string[] = [];
+    let collected = 0; // Bets of earlier streets
+
+    const snapshot = (description: string, actingSeat: number | null = null) => frames.push({
+      description,
+      street,
+      board: [...board],
+      pot: money(collected + seats.reduce((sum, seat) => sum + seat.bet, 0)),
+      actingSeat,
+      seats: seats.map(seat => ({ ...seat, holeCards: seat.holeCards && [...seat.holeCards] }))
+    });
+    const collectBets = () => {
+      collected = money(collected + seats.reduce((sum, seat) => sum + seat.bet, 0));
+      seats.forEach(seat => { seat.bet = 0; });
+    };
+    const deal = (round: BettingRound) => {
+      collectBets();
+      street = round;
+      streetBet = 0;
+      const cards = history.board[round as 'flop' | 'turn' | 'river'];
+      board = [...board, ...cards];
+      snapshot(`${STREET_NAMES[round]}: [${cards.join(' ')}]`);
+    };
+
+    snapshot(`Hand #${history.handNumber} at ${history.table.name}; seat ${history.buttonSeat} has the button`);
+
+    for (const action of history.actions) {
+      while (action.street !== street) deal(nextStreet(street as BettingRound));
+
+      const seat = seatOf(action.seat);
+      seat.chips = money(seat.chips - action.amount);
+      seat.bet = money(seat.bet + action.amount);
+      seat.folded = seat.folded || action.action === 'fold';
+      seat.allIn = seat.allIn || action.isAllIn;
+
+      snapshot(`${action.name}${action.timedOut ? ' (timed out)' : ''}: ${describeAction(action, streetBet, amount)}`, action.seat);
+      streetBet = streetBetAfter(action, streetBet);
+    }
+
+    // The excess is returned once the betting is over, before any run-out
+    if (history.uncalledBet) {
+      const seat = seatOf(history.uncalledBet.seat);
+      const fromBet = Math.min(seat.bet, history.uncalledBet.amount);
+      seat.chips = money(seat.chips + history.uncalledBet.amount);
+      seat.bet = money(seat.bet - fromBet);
+      collected = money(collected - (history.uncalledBet.amount - fromBet));
+      snapshot(`Uncalled bet (${amount(history.uncalledBet.amount)}) returned to ${history.uncalledBet.name}`, seat.seat);
+    }
+
+    const finalStreet = lastStreet(history);
+    while (street !== finalStreet) deal(nextStreet(street as BettingRound));
+
+    collectBets();
+
+    if (history.voided) {
+      history.players.forEach(player => { seatOf(player.seat).chips = player.chips; });
+      collected = 0;
+      snapshot('Hand cancelled; all bets were returned');
+      return frames;
+    }
+
+    if (history.showdown.length > 0) {
+      street = 'showdown';
+      for (const shown of history.showdown) {
+        seatOf(shown.seat).holeCards = shown.cards;
+        snapshot(`${shown.name} shows [${shown.cards.join(' ')}] (${shown.hand})`, shown.seat);
+      }
+    }
+
+    for (const pot of history.pots) {
+      for (const winner of pot.winners) {
+        const seat = seatOf(winner.seat);
+        seat.chips = money(seat.chips + winner.amount);
+        seat.won = money(seat.won + winner.amount);
+        collected = money(collected - winner.amount);
+      }
+    }
+    const winners = seats.filter(seat => seat.won > 0).map(seat => `${seat.name} wins ${amount(seat.won)}`);
+    if (history.rake > 0) {
+      // Whatever is left over after the rake shows a payout that does not add up
+      collected = money(collected - history.rake);
+      winners.push(`rake ${amount(history.rake)}`);
+    }
+    snapshot(winners.join(', ') || 'Hand complete');
+
+    return frames;
+  }
+
+  /**
+   * A player's most recent finished hands, oldest first. Voided hands and hands from before the event log
+   * are left out.
+   */
+  static async listForUser(userId: number, query: HandHistoryQuery): Promise<HandHistory[]> {
+    const conditions = ['h.id IN (SELECT hand_id FROM poker_actions WHERE user_id = ?)'];
+    const params: any[] = [userId];
+    if (query.from) {
+      conditions.push('h.started_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('h.started_at < ?');
+      params.push(query.to);
+    }
+
+    const rows = await executeQuery(
+      `SELECT h.id FROM poker_hands h WHERE ${conditions.join(' AND ')} ORDER BY h.id DESC LIMIT ${query.limit}`,
+      params
+    );
+    if (rows.length === 0) return [];
+
+    const hands = (await this.loadHands(rows.map((row: any) => row.id)))
+      .filter(hand => isFinished(hand.events) && !hand.events.some(event => event.type === 'hand_voided'));
+    const names = await playerNames(hands.flatMap(hand => hand.events));
+
+    return hands.map(hand => buildHistory(userId, hand.row, hand.events, names));
+  }
+
+  /**
+   * PokerStars-format text; hands are separated by blank lines as in a PokerStars history file
+   */
+  static toText(histories: HandHistory[]): string {
+    return histories.map(renderHand).join('\n\n\n');
+  }
+
+  private static async loadHands(handIds: number[]): Promise<Array<{ row: any; events: TableEvent[] }>> {
+    const placeholders = handIds.map(() => '?').join(',');
+    const [rows, eventRows] = await Promise.all([
+      executeQuery(
+        `SELECT h.id, h.table_id, h.hand_number, h.rake_amount, h.started_at,
+                pt.name AS table_name, pt.max_players, pt.tournament_id,
+                t.name AS tournament_name, t.buy_in, t.entry_fee, t.blind_structure
+         FROM poker_hands h
+         JOIN poker_tables pt ON pt.id = h.table_id
+         LEFT JOIN poker_tournaments t ON t.id = pt.tournament_id
+         WHERE h.id IN (${placeholders})
+         ORDER BY h.id`,
+        handIds
+      ),
+      executeQuery(
+        `SELECT hand_id, payload FROM poker_hand_events WHERE hand_id IN (${placeholders}) ORDER BY hand_id, sequence`,
+        handIds
+      )
+    ]);
+
+    const events = new Map<number, TableEvent[]>();
+    for (const row of eventRows) {
+      const list = events.get(row.hand_id) || [];
+      list.push(typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload);
+      events.set(row.hand_id, list);
+    }
+
+    return rows
+      .filter((row: any) => events.has(row.id))
+      .map((row: any) => ({ row, events: events.get(row.id)! }));
+  }
+}
+
+function isFinished(events: TableEvent[]): boolean {
+  return events.some(event => event.type === 'hand_complete' || event.type === 'hand_voided');
+}
+
+/**
+ * Usernames for human players, names for AI players
+ */
+async function playerNames(events: TableEvent[]): Promise<Map<number, string>> {
+  const userIds = new Set<number>();
+  for (const event of events) {
+    if (event.type === 'player_seated') userIds.add(event.userId);
+  }
+
+  const names = new Map<number, string>();
+  const humanIds = [...userIds].filter(id => id > 0);
+  const aiIds = [...userIds].filter(id => id < 0).map(id => -id);
+
+  if (humanIds.length > 0) {
+    const users = await executeQuery(
+      `SELECT id, username FROM users WHERE id IN (${humanIds.map(() => '?').join(',')})`,
+      humanIds
+    );
+    users.forEach((user: any) => names.set(user.id, user.username));
+  }
+
+  if (aiIds.length > 0) {
+    const aiPlayers = await executeQuery(
+      `SELECT id, name FROM poker_ai_players WHERE id IN (${aiIds.map(() => '?').join(',')})`,
+      aiIds
+    );
+    aiPlayers.forEach((ai: any) => names.set(-ai.id, ai.name));
+  }
+
+  return names;
+}
+
+function buildHistory(heroId: number, row: any, events: TableEvent[], names: Map<number, string>): HandHistory {
+  const history: HandHistory = {
+    handId: row.id,
+    handNumber: row.hand_number,
+    startedAt: new Date(row.started_at).toISOString(),
+    table: { id: row.table_id, name: row.table_name, maxPlayers: row.max_players },
+    tournament: null,
+    currency: row.tournament_id ? 'chips' : 'USD',
+    smallBlind: 0,
+    bigBlind: 0,
+    buttonSeat: 0,
+    players: [],
+    actions: [],
+    board: { flop: [], turn: [], river: [] },
+    showdown: [],
+    uncalledBet: null,
+    pots: [],
+    totalPot: 0,
+    rake: parseFloat(row.rake_amount) || 0,
+    voided: false
+  };
+
+  const seats = new Map<number, number>();
+  const nameOf = (userId: number) => names.get(userId) || `Player ${seats.get(userId) ?? userId}`;
+  const player = (userId: number) => ({ seat: seats.get(userId) ?? 0, name: nameOf(userId) });
+  const contributions = new Map<number, number>();
+  const contribute = (userId: number, amount: number) =>
+    contributions.set(userId, money((contributions.get(userId) || 0) + amount));
+
+  let street: BettingRound = 'pre_flop';
+  let streetBet = 0;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'hand_started':
+        history.smallBlind = event.smallBlind;
+        history.bigBlind = event.bigBlind;
+        history.buttonSeat = event.dealerPosition + 1;
+        break;
+
+      case 'player_seated':
+        seats.set(event.userId, event.seatPosition + 1);
+        history.players.push({
+          seat: event.seatPosition + 1,
+          name: nameOf(event.userId),
+          isHero: event.userId === heroId,
+          chips: event.chips,
+          holeCards: null
+        });
+        break;
+
+      case 'cards_dealt': {
+        const dealt = event.holeCards.find(hole => hole.userId === heroId);
+        const hero = history.players.find(p => p.isHero);
+        if (dealt && hero) hero.holeCards = dealt.cards.map(formatCard);
+        break;
+      }
+
+      case 'blind_posted':
+        history.actions.push({
+          street: 'pre_flop',
+          ...player(event.userId),
+          action: event.blind === 'small' ? 'small_blind' : 'big_blind',
+          amount: event.amount,
+          raiseTo: null,
+          isAllIn: event.chipsAfter === 0,
+          timedOut: false
+        });
+        contribute(event.userId, event.amount);
+        streetBet = Math.max(streetBet, event.amount);
+        break;
+
+      case 'player_acted': {
+        // An all-in is recorded as the bet, raise or call it amounted to
+        let action: HandHistoryAction = event.action === 'all_in'
+          ? (event.currentBet > streetBet ? (streetBet === 0 ? 'bet' : 'raise') : 'call')
+          : event.action;
+        if (action === 'raise' && streetBet === 0) action = 'bet';
+
+        history.actions.push({
+          street: event.round,
+          ...player(event.userId),
+          action,
+          amount: event.amount,
+          raiseTo: action === 'bet' || action === 'raise' ? event.currentBet : null,
+          isAllIn: event.isAllIn,
+          timedOut: event.timedOut
+        });
+        contribute(event.userId, event.amount);
+        streetBet = Math.max(streetBet, event.currentBet);
+        break;
+      }
+
+      case 'round_advanced':
+        street = event.round;
+        streetBet = 0;
+        if (street === 'flop') history.board.flop = event.communityCards.slice(0, 3).map(formatCard);
+        if (street === 'turn') history.board.turn = event.communityCards.slice(3, 4).map(formatCard);
+        if (street === 'river') history.board.river = event.communityCards.slice(4, 5).map(formatCard);
+        break;
+
+      case 'showdown':
+        for (const result of event.results) {
+          const cards = result.holeCards.map(formatCard);
+          history.showdown.push({ ...player(result.userId), cards, hand: result.hand.name });
+
+          const shown = history.players.find(p => p.seat === seats.get(result.userId));
+          if (shown) shown.holeCards = cards;
+        }
+        break;
+
+      case 'hand_complete': {
+        history.pots = event.pots.map(pot => ({
+          amount: pot.amount,
+          winners: pot.winners.map(winner => ({ ...player(winner.userId), amount: winner.amount }))
+        }));
+        // Pots are what the winners shared, after rake
+        history.totalPot = money(event.pot - (event.rake || 0));
+
+        // What the biggest contributor put in beyond anyone else was never called
+        const [top, second] = [...contributions].sort((a, b) => b[1] - a[1]);
+        const uncalled = top ? money(top[1] - (second ? second[1] : 0)) : 0;
+        const lastPot = history.pots[history.pots.length - 1];
+        const refunded = top && lastPot?.winners.find(winner => winner.seat === seats.get(top[0]));
+        if (uncalled > 0 && refunded) {
+          history.uncalledBet = { ...player(top[0]), amount: uncalled };
+          lastPot.amount = money(lastPot.amount - uncalled);
+          refunded.amount = money(refunded.amount - uncalled);
+          lastPot.winners = lastPot.winners.filter(winner => winner.amount > 0);
+          history.pots = history.pots.filter(pot => pot.amount > 0);
+          history.totalPot = money(history.totalPot - uncalled);
+        }
+        break;
+      }
+
+      case 'hand_voided':
+        history.voided = true;
+        break;
+    }
+  }
+
+  if (row.tournament_id) {
+    const levels = parseBlindStructure(row.blind_structure);
+    const level = levels.findIndex(l => Number(l.smallBlind) === history.smallBlind && Number(l.bigBlind) === history.bigBlind);
+    history.tournament = {
+      id: row.tournament_id,
+      name: row.tournament_name,
+      buyIn: parseFloat(row.buy_in),
+      entryFee: parseFloat(row.entry_fee),
+      level: level >= 0 ? level + 1 : null
+    };
+  }
+
+  return history;
+}
+
+function renderHand(history: HandHistory): string {
+  const amount = amountFormat(history);
+  const lines: string[] = [];
+
+  const date = history.startedAt.replace('T', ' ').replace(/\.\d+Z$/, '').replace(/-/g, '/');
+  const game = `Hold'em No Limit (${amount(history.smallBlind)}/${amount(history.bigBlind)}${history.currency === 'USD' ? ' USD' : ''})`;
+  if (history.tournament) {
+    const { id, buyIn, entryFee, level } = history.tournament;
+    lines.push(
+      `PokerStars Hand #${history.handId}: Tournament #${id}, $${buyIn.toFixed(2)}+$${entryFee.toFixed(2)} USD ` +
+      `Hold'em No Limit - Level ${level ? toRoman(level) : '?'} (${history.smallBlind}/${history.bigBlind}) - ${date} UTC`
+    );
+  } else {
+    lines.push(`PokerStars Hand #${history.handId}:  ${game} - ${date} UTC`);
+  }
+  lines.push(`Table '${history.table.name}' ${history.table.maxPlayers}-max Seat #${history.buttonSeat} is the button`);
+
+  for (const player of history.players) {
+    lines.push(`Seat ${player.seat}: ${player.name} (${amount(player.chips)} in chips)`);
+  }
+
+  let street: BettingRound = 'pre_flop';
+  let streetBet = 0;
+  const boardBefore = (round: BettingRound) => {
+    if (round === 'flop') return [];
+    if (round === 'turn') return history.board.flop;
+    return [...history.board.flop, ...history.board.turn];
+  };
+  const startStreet = (round: BettingRound) => {
+    street = round;
+    streetBet = 0;
+    const before = boardBefore(round);
+    const cards = history.board[round as 'flop' | 'turn' | 'river'];
+    lines.push(`*** ${round.toUpperCase()} *** ${before.length ? `[${before.join(' ')}] ` : ''}[${cards.join(' ')}]`);
+  };
+
+  let holeCardsShown = false;
+  for (const action of history.actions) {
+    if (action.action !== 'small_blind' && action.action !== 'big_blind' && !holeCardsShown) {
+      lines.push(...holeCardsLines(history));
+      holeCardsShown = true;
+    }
+    while (action.street !== street) {
+      startStreet(nextStreet(street));
+    }
+
+    if (action.timedOut) lines.push(`${action.name} has timed out`);
+    lines.push(`${action.name}: ${describeAction(action, streetBet, amount)}`);
+    streetBet = streetBetAfter(action, streetBet);
+  }
+  if (!holeCardsShown) lines.push(...holeCardsLines(history));
+
+  if (history.uncalledBet) {
+    lines.push(`Uncalled bet (${amount(history.uncalledBet.amount)}) returned to ${history.uncalledBet.name}`);
+  }
+
+  // Streets dealt out after everyone was all-in
+  const finalStreet = lastStreet(history);
+  while (street !== finalStreet) {
+    startStreet(nextStreet(street));
+  }
+
+  if (history.voided) {
+    lines.push('Hand cancelled; all bets were returned');
+  }
+
+  if (history.showdown.length > 0) {
+    lines.push('*** SHOW DOWN ***');
+    for (const shown of history.showdown) {
+      lines.push(`${shown.name}: shows [${shown.cards.join(' ')}] (${shown.hand})`);
+    }
+  }
+
+  history.pots.forEach((pot, index) => {
+    const from = history.pots.length === 1 ? 'pot' : index === 0 ? 'main pot' : `side pot-${index}`;
+    for (const winner of pot.winners) {
+      lines.push(`${winner.name} collected ${amount(winner.amount)} from ${from}`);
+    }
+  });
+
+  lines.push('*** SUMMARY ***');
+  if (history.pots.length > 1) {
+    const [main, ...sides] = history.pots;
+    const sidePots = sides.map((pot, index) => `Side pot-${index + 1} ${amount(pot.amount)}.`).join(' ');
+    lines.push(`Total pot ${amount(money(history.totalPot + history.rake))} Main pot ${amount(main.amount)}. ${sidePots} | Rake ${amount(history.rake)}`);
+  } else {
+    lines.push(`Total pot ${amount(money(history.totalPot + history.rake))} | Rake ${amount(history.rake)}`);
+  }
+  const board = [...history.board.flop, ...history.board.turn, ...history.board.river];
+  if (board.length > 0) {
+    lines.push(`Board [${board.join(' ')}]`);
+  }
+
+  for (const player of history.players) {
+    lines.push(`Seat ${player.seat}: ${player.name}${seatRole(history, player.seat)} ${seatOutcome(history, player.seat, amount)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function amountFormat(history: HandHistory): (value: number) => string {
+  return value => history.currency === 'USD' ? `$${value.toFixed(2)}` : `${value}`;
+}
+
+/**
+ * An action as hand histories word it, e.g. 'raises $4.00 to $6.00 and is all-in'
+ */
+function describeAction(action: HandHistory['actions'][number], streetBet: number, amount: (value: number) => string): string {
+  const allIn = action.isAllIn ? ' and is all-in' : '';
+  switch (action.action) {
+    case 'small_blind':
+      return `posts small blind ${amount(action.amount)}${allIn}`;
+    case 'big_blind':
+      return `posts big blind ${amount(action.amount)}${allIn}`;
+    case 'fold':
+      return 'folds';
+    case 'check':
+      return 'checks';
+    case 'call':
+      return `calls ${amount(action.amount)}${allIn}`;
+    case 'bet':
+      return `bets ${amount(action.amount)}${allIn}`;
+    case 'raise':
+      return `raises ${amount(money((action.raiseTo ?? 0) - streetBet))} to ${amount(action.raiseTo ?? 0)}${allIn}`;
+  }
+}
+
+function streetBetAfter(action: HandHistory['actions'][number], streetBet: number): number {
+  if (action.action === 'small_blind' || action.action === 'big_blind') return Math.max(streetBet, action.amount);
+  if (action.action === 'bet' || action.action === 'raise') return action.raiseTo ?? streetBet;
+  return streetBet;
+}
+
+function lastStreet(history: HandHistory): BettingRound {
+  if (history.board.river.length) return 'river';
+  if (history.board.turn.length) return 'turn';
+  if (history.board.flop.length) return 'flop';
+  return 'pre_flop';
+}
+
+function holeCardsLines(history: HandHistory): string[] {
+  const hero = history.players.find(player => player.isHero);
+  return ['*** HOLE CARDS ***', ...(hero?.holeCards ? [`Dealt to ${hero.name} [${hero.holeCards.join(' ')}]`] : [])];
+}
+
+function seatRole(history: HandHistory, seat: number): string {
+  if (seat === history.buttonSeat) return ' (button)';
+  const blind = history.actions.find(action => action.seat === seat && (action.action === 'small_blind' || action.action === 'big_blind'));
+  if (!blind) return '';
+  return blind.action === 'small_blind' ? ' (small blind)' : ' (big blind)';
+}
+
+function seatOutcome(history: HandHistory, seat: number, amount: (value: number) => string): string {
+  const won = money(history.pots.reduce(
+    (sum, pot) => sum + pot.winners.filter(winner => winner.seat === seat).reduce((s, winner) => s + winner.amount, 0),
+    0
+  ));
+
+  const fold = history.actions.find(action => action.seat === seat && action.action === 'fold');
+  if (fold) {
+    const bet = history.actions.some(action => action.seat === seat && action.street === 'pre_flop' && action.action !== 'fold');
+    return fold.street === 'pre_flop'
+      ? `folded before Flop${bet ? '' : ' (didn\'t bet)'}`
+      : `folded on the ${STREET_NAMES[fold.street]}`;
+  }
+
+  const shown = history.showdown.find(result => result.seat === seat);
+  if (shown) {
+    return won > 0
+      ? `showed [${shown.cards.join(' ')}] and won (${amount(won)}) with ${shown.hand}`
+      : `showed [${shown.cards.join(' ')}] and lost with ${shown.hand}`;
+  }
+
+  return won > 0 ? `collected (${amount(won)})` : 'did not show';
+}
+
+function nextStreet(street: BettingRound): BettingRound {
+  if (street === 'pre_flop') return 'flop';
+  if (street === 'flop') return 'turn';
+  return 'river';
+}
+
+const RANKS: Record<number, string> = { 10: 'T', 11: 'J', 12: 'Q', 13: 'K', 14: 'A' };
+
+/**
+ * Two-character card as hand history tools expect it, e.g. 'Ah', 'Td', '7c'
+ */
+function formatCard(card: Card): string {
+  return `${RANKS[card.rank] || card.rank}${card.suit[0]}`;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let roman = '';
+  for (const [number, numeral] of numerals) {
+    while (value >= number) {
+      roman += numeral;
+      value -= number;
+    }
+  }
+  return roman;
+}
+
+function parseBlindStructure(value: unknown): Array<{ smallBlind: number; bigBlind: number }> {
+  if (!value) return [];
+  if (typeof value !== 'string') return value as Array<{ smallBlind: number; bigBlind: number }>;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+}
+
+export default PokerHandHistoryService;
@@ -0,0 +1,291 @@
+/**
+ * Poker Hand Replay Service
+ * Rebuilds a hand from its event log one event at a time and compares the result with what the
+ * table handler persisted alongside it: the game and hand rows, the action log, the seats and the
+ * engine snapshot. Any difference is state that drifted away from the engine.
+ */
+
+import { executeQuery } from '../config/database';
+import {
+  applyEvent,
+  createTableState,
+  currentRound,
+  PokerEngineError,
+  TableEvent,
+  TableState
+} from './pokerTableEngine';
+
+export interface ReplayStep {
+  sequence: number;
+  recordedAt: string;
+  event: TableEvent;
+  state: TableState; // Table state right after the event
+}
+
+export interface ReplayDifference {
+  source: 'poker_hand_events' | 'poker_games' | 'poker_hands' | 'poker_actions' | 'poker_seats' | 'poker_table_states';
+  path: string;
+  replayed: unknown;
+  persisted: unknown;
+}
+
+export interface HandReplay {
+  handId: number;
+  tableId: number;
+  gameId: number;
+  handNumber: number;
+  steps: ReplayStep[];
+  finalState: TableState;
+  differences: ReplayDifference[];
+  consistent: boolean;
+}
+
+export class PokerHandReplayService {
+  /**
+   * Replay a hand step by step and diff the final state against the persisted rows
+   */
+  static async replayHand(handId: number): Promise<HandReplay> {
+    const hands = await executeQuery('SELECT * FROM poker_hands WHERE id = ?', [handId]);
+    if (hands.length === 0) {
+      throw new PokerEngineError('Hand not found', 404);
+    }
+    const hand = hands[0];
+
+    const rows = await executeQuery(
+      'SELECT sequence, payload, created_at FROM poker_hand_events WHERE hand_id = ? ORDER BY sequence',
+      [handId]
+    );
+    if (rows.length === 0) {
+      throw new PokerEngineError('This hand has no event log', 404);
+    }
+
+    const differences: ReplayDifference[] = [];
+    const steps: ReplayStep[] = [];
+    let state = createTableState(hand.table_id, 0, 0);
+
+    rows.forEach((row: any, index: number) => {
+      if (row.sequence !== index + 1) {
+        differences.push({ source: 'poker_hand_events', path: `events.${index}.sequence`, replayed: index + 1, persisted: row.sequence });
+      }
+
+      const event: TableEvent = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload;
+      state = applyEvent(state, event);
+      steps.push({ sequence: row.sequence, recordedAt: row.created_at, event, state });
+    });
+
+    const events = steps.map(step => step.event);
+    await this.compareGame(hand.game_id, state, differences);
+    this.compareHand(hand, state, events, differences);
+    await this.compareActions(handId, events, differences);
+    await this.compareSeats(hand.table_id, hand.game_id, state, differences);
+    await this.compareSnapshot(hand.table_id, handId, state, differences);
+
+    return {
+      handId,
+      tableId: hand.table_id,
+      gameId: hand.game_id,
+      handNumber: hand.hand_number,
+      steps,
+      finalState: state,
+      differences,
+      consistent: differences.length === 0
+    };
+  }
+
+  private static async compareGame(gameId: number, state: TableState, out: ReplayDifference[]) {
+    const games = await executeQuery('SELECT * FROM poker_games WHERE id = ?', [gameId]);
+    if (games.length === 0) {
+      out.push({ source: 'poker_games', path: 'id', replayed: gameId, persisted: null });
+      return;
+    }
+
+    compareRow('poker_games', '', {
+      game_state: state.phase === 'complete' ? 'finished' : state.phase,
+      betting_round: currentRound(state),
+      hand_number: state.handNumber,
+      dealer_position: state.dealerPosition,
+      small_blind_position: state.smallBlindPosition,
+      big_blind_position: state.bigBlindPosition,
+      current_player_position: state.currentPlayerPosition >= 0 ? state.currentPlayerPosition : null,
+      pot_amount: state.pot,
+      community_cards: state.communityCards,
+      current_bet: state.currentBet,
+      min_raise: state.minRaise
+    }, games[0], out);
+  }
+
+  private static compareHand(hand: any, state: TableState, events: TableEvent[], out: ReplayDifference[]) {
+    const expected: Record<string, unknown> = {
+      hand_number: state.handNumber,
+      dealer_position: state.dealerPosition,
+      small_blind: state.smallBlind,
+      big_blind: state.bigBlind
+    };
+
+    const complete = events.find(
+      (e): e is Extract<TableEvent, { type: 'hand_complete' }> => e.type === 'hand_complete'
+    );
+    if (complete) {
+      const topWinner = [...complete.winners].sort((a, b) => b.amount - a.amount)[0];
+      Object.assign(expected, {
+        total_pot: complete.pot,
+        rake_amount: complete.rake || 0,
+        community_cards: complete.communityCards,
+        side_pots: complete.pots,
+        winner_user_id: topWinner.userId > 0 ? topWinner.userId : null
+      });
+    }
+
+    if (events.some(e => e.type === 'hand_voided')) {
+      expected.total_pot = 0;
+    }
+
+    compareRow('poker_hands', '', expected, hand, out);
+  }
+
+  /**
+   * Blinds and actions of human players are mirrored into poker_actions, keyed by their sequence
+   */
+  private static async compareActions(handId: number, events: TableEvent[], out: ReplayDifference[]) {
+    const rows = await executeQuery('SELECT * FROM poker_actions WHERE hand_id = ? ORDER BY action_sequence', [handId]);
+    const bySequence = new Map<number, any>(rows.map((row: any) => [row.action_sequence, row]));
+
+    for (const event of events) {
+      if ((event.type !== 'blind_posted' && event.type !== 'player_acted') || event.userId < 0) continue;
+
+      const path = `sequence ${event.sequence}`;
+      const row = bySequence.get(event.sequence);
+      bySequence.delete(event.sequence);
+      if (!row) {
+        out.push({ source: 'poker_actions', path, replayed: event.type, persisted: null });
+        continue;
+      }
+
+      compareRow('poker_actions', path, {
+        user_id: event.userId,
+        seat_position: event.seatPosition,
+        action_type: event.type === 'blind_posted' ? 'blind' : event.action,
+        amount: event.amount,
+        betting_round: event.type === 'blind_posted' ? 'pre_flop' : event.round,
+        pot_size_before: event.potBefore,
+        chips_before: event.chipsBefore,
+        chips_after: event.chipsAfter,
+        is_all_in: event.chipsAfter === 0
+      }, row, out);
+    }
+
+    for (const [sequence, row] of bySequence) {
+      out.push({ source: 'poker_actions', path: `sequence ${sequence}`, replayed: null, persisted: row.action_type });
+    }
+  }
+
+  /**
+   * Seats still tied to this hand's game; players who have left since no longer are
+   */
+  private static async compareSeats(tableId: number, gameId: number, state: TableState, out: ReplayDifference[]) {
+    const rows = await executeQuery('SELECT * FROM poker_seats WHERE table_id = ? AND game_id = ?', [tableId, gameId]);
+
+    for (const row of rows) {
+      const seat = state.seats.find(s => s.userId === row.user_id);
+      if (!seat) {
+        out.push({ source: 'poker_seats', path: `user ${row.user_id}`, replayed: null, persisted: row.seat_position });
+        continue;
+      }
+
+      compareRow('poker_seats', `user ${row.user_id}`, {
+        seat_position: seat.seatPosition,
+        chips: seat.chips,
+        hole_cards: seat.holeCards,
+        current_bet: seat.currentBet,
+        total_bet_this_hand: seat.totalBetThisHand,
+        last_action: seat.lastAction,
+        is_all_in: seat.isAllIn
+      }, row, out);
+    }
+  }
+
+  /**
+   * The engine snapshot only exists for a table's current (or last) hand
+   */
+  private static async compareSnapshot(tableId: number, handId: number, state: TableState, out: ReplayDifference[]) {
+    const saved = await executeQuery(
+      'SELECT state FROM poker_table_states WHERE table_id = ? AND hand_id = ?',
+      [tableId, handId]
+    );
+    if (saved.length > 0) {
+      compareValues('poker_table_states', 'state', state, saved[0].state, out);
+    }
+  }
+}
+
+/**
+ * Compare the columns the engine determines; rows carry others it knows nothing about
+ */
+function compareRow(
+  source: ReplayDifference['source'],
+  path: string,
+  expected: Record<string, unknown>,
+  row: any,
+  out: ReplayDifference[]
+) {
+  for (const [column, value] of Object.entries(expected)) {
+    compareValues(source, path ? `${path}.${column}` : column, value, row[column], out);
+  }
+}
+
+/**
+ * Walk the replayed value and record where the persisted one differs. Columns come back as
+ * DECIMAL strings, TINYINT booleans and JSON text, so those compare by value.
+ */
+function compareValues(
+  source: ReplayDifference['source'],
+  path: string,
+  replayed: unknown,
+  persisted: unknown,
+  out: ReplayDifference[]
+) {
+  if (replayed !== null && typeof replayed === 'object') {
+    let actual = persisted;
+    if (typeof actual === 'string') {
+      try {
+        actual = JSON.parse(actual);
+      } catch {
+        // Not JSON; reported as a plain difference below
+      }
+    }
+
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual) !== Array.isArray(replayed)) {
+      out.push({ source, path, replayed, persisted });
+      return;
+    }
+
+    const keys = new Set([...Object.keys(replayed), ...Object.keys(actual as object)]);
+    for (const key of keys) {
+      compareValues(
+        source,
+        path ? `${path}.${key}` : key,
+        (replayed as any)[key],
+        (actual as any)[key],
+        out
+      );
+    }
+    return;
+  }
+
+  let same: boolean;
+  if (typeof replayed === 'number') {
+    same = persisted !== null && persisted !== undefined && Math.abs(Number(persisted) - replayed) < 0.005;
+  } else if (typeof replayed === 'boolean') {
+    same = Boolean(Number(persisted)) === replayed;
+  } else if (replayed === null || replayed === undefined) {
+    same = persisted === null || persisted === undefined;
+  } else {
+    same = replayed === persisted;
+  }
+
+  if (!same) {
+    out.push({ source, path, replayed: replayed ?? null, persisted: persisted ?? null });
+  }
+}
+
+export default PokerHandReplayService;
@@ -0,0 +1,197 @@
+/**
+ * Poker Rake Service
+ * Turns a cash table's rake settings into the rule the table engine takes rake by, books each raked
+ * hand (the rake moves from the table's escrow to the house, and is split between the players who paid
+ * it in proportion to what they put into the raked pots) and reports rake per table and day and per
+ * player, the basis for rakeback.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+import { LedgerService } from './ledgerService';
+import { RakeRule, TableState } from './pokerTableEngine';
+
+export interface RakeCap {
+  minPlayers: number;
+  cap: number;
+}
+
+export interface RakeReportFilter {
+  from?: Date;
+  to?: Date;
+  tableId?: number;
+}
+
+export interface TableRakeDay {
+  tableId: number;
+  tableName: string;
+  day: string; // YYYY-MM-DD
+  hands: number;
+  rakedHands: number;
+  rake: number;
+}
+
+export interface PlayerRake {
+  userId: number;
+  username: string;
+  hands: number; // Raked hands played
+  contributed: number;
+  rake: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class PokerRakeService {
+  /**
+   * Rule for a hand dealt to `players` players at a table, or null where the table takes no rake
+   */
+  static ruleFor(table: any, players: number): RakeRule | null {
+    const percentage = parseFloat(table.rake_percentage) || 0;
+    if (table.tournament_id !== null || percentage <= 0) return null;
+
+    // The cap of the largest player count reached, else the table's flat cap
+    const caps: RakeCap[] = parseCaps(table.rake_caps);
+    const tier = caps
+      .filter(cap => cap.minPlayers <= players)
+      .sort((a, b) => b.minPlayers - a.minPlayers)[0];
+
+    return {
+      percentage,
+      cap: tier ? tier.cap : parseFloat(table.max_rake) || 0,
+      noFlopNoDrop: Boolean(table.no_flop_no_drop)
+    };
+  }
+
+  /**
+   * Book the rake of a completed hand; runs in the transaction that completes it
+   */
+  static async recordHand(connection: PoolConnection, tableId: number, handId: number, state: TableState, rake: number): Promise<void> {
+    if (rake <= 0) return;
+
+    await LedgerService.post(connection, {
+      type: 'poker_rake',
+      description: `Poker rake from hand #${state.handNumber} at table #${tableId}`,
+      reference: `poker_hand:${handId}`,
+      entries: [
+        { account: LedgerService.pokerTable(tableId), amount: -rake },
+        { account: LedgerService.HOUSE, amount: rake }
+      ]
+    });
+
+    for (const share of splitRake(state, rake)) {
+      // AI players pay rake too, but have nothing to be given back
+      if (share.userId <= 0) continue;
+
+      await connection.execute(
+        `INSERT INTO poker_hand_rake (hand_id, table_id, user_id, contributed, rake)
+         VALUES (?, ?, ?, ?, ?)`,
+        [handId, tableId, share.userId, share.contributed, share.rake]
+      );
+    }
+  }
+
+  /**
+   * Rake and hands per table and day
+   */
+  static async tableReport(filter: RakeReportFilter = {}): Promise<TableRakeDay[]> {
+    const { conditions, params } = dateConditions('h.finished_at', filter);
+    if (filter.tableId !== undefined) {
+      conditions.push('h.table_id = ?');
+      params.push(filter.tableId);
+    }
+
+    const rows = await executeQuery(`
+      SELECT h.table_id, pt.name AS table_name, DATE_FORMAT(h.finished_at, '%Y-%m-%d') AS day,
+             COUNT(*) AS hands, SUM(h.rake_amount > 0) AS raked_hands, SUM(h.rake_amount) AS rake
+      FROM poker_hands h
+      JOIN poker_tables pt ON pt.id = h.table_id
+      WHERE pt.tournament_id IS NULL AND h.finished_at IS NOT NULL
+        ${conditions.map(condition => `AND ${condition}`).join(' ')}
+      GROUP BY h.table_id, pt.name, day
+      ORDER BY day DESC, h.table_id
+    `, params);
+
+    return rows.map((row: any) => ({
+      tableId: row.table_id,
+      tableName: row.table_name,
+      day: row.day,
+      hands: Number(row.hands),
+      rakedHands: Number(row.raked_hands) || 0,
+      rake: round2(parseFloat(row.rake) || 0)
+    }));
+  }
+
+  /**
+   * Rake paid per player, most first
+   */
+  static async playerReport(filter: RakeReportFilter = {}): Promise<PlayerRake[]> {
+    const { conditions, params } = dateConditions('r.raked_at', filter);
+    if (filter.tableId !== undefined) {
+      conditions.push('r.table_id = ?');
+      params.push(filter.tableId);
+    }
+
+    const rows = await executeQuery(`
+      SELECT r.user_id, u.username, COUNT(*) AS hands, SUM(r.contributed) AS contributed, SUM(r.rake) AS rake
+      FROM poker_hand_rake r
+      JOIN users u ON u.id = r.user_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY r.user_id, u.username
+      ORDER BY rake DESC, r.user_id
+    `, params);
+
+    return rows.map((row: any) => ({
+      userId: row.user_id,
+      username: row.username,
+      hands: Number(row.hands),
+      contributed: round2(parseFloat(row.contributed) || 0),
+      rake: round2(parseFloat(row.rake) || 0)
+    }));
+  }
+}
+
+/**
+ * Each player's share of a hand's rake, by what they put in short of an uncalled bet. Leftover
+ * cents go to the biggest contributors.
+ */
+export function splitRake(state: TableState, rake: number): Array<{ userId: number; contributed: number; rake: number }> {
+  const bets = state.seats.map(seat => seat.totalBetThisHand).sort((a, b) => b - a);
+  const called = bets[1] || 0;
+  const contributions = state.seats
+    .map(seat => ({ userId: seat.userId, contributed: round2(Math.min(seat.totalBetThisHand, called)) }))
+    .filter(share => share.contributed > 0)
+    .sort((a, b) => b.contributed - a.contributed);
+
+  const total = contributions.reduce((sum, share) => sum + share.contributed, 0);
+  const cents = Math.round(rake * 100);
+  const shares = contributions.map(share => ({ ...share, cents: Math.floor(cents * share.contributed / total) }));
+  let leftover = cents - shares.reduce((sum, share) => sum + share.cents, 0);
+  for (const share of shares) {
+    if (leftover-- <= 0) break;
+    share.cents += 1;
+  }
+
+  return shares.map(share => ({ userId: share.userId, contributed: share.contributed, rake: share.cents / 100 }));
+}
+
+function dateConditions(column: string, filter: RakeReportFilter): { conditions: string[]; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (filter.from) {
+    conditions.push(`${column} >= ?`);
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push(`${column} < ?`);
+    params.push(filter.to);
+  }
+  return { conditions, params };
+}
+
+function parseCaps(caps: any): RakeCap[] {
+  if (!caps) return [];
+  const parsed = typeof caps === 'string' ? JSON.parse(caps) : caps;
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export default PokerRakeService;
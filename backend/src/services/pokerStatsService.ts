@@ -0,0 +1,333 @@
+/**
+ * Poker Stats Service
+ * Summarises each completed hand per human player from the hand's event log (the event log has the
+ * AI players' bets too, which an all-in needs to tell a raise from a call) and moves their running
+ * totals in poker_player_stats on by that hand. Filtered stats are summed from the per-hand rows.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+import { HAND_RANKINGS } from './pokerEngine';
+import { TableEvent } from './pokerTableEngine';
+
+export interface PokerStats {
+  handsPlayed: number;
+  handsWon: number;
+  vpip: number; // Fractions, 0-1
+  pfr: number;
+  aggressionFactor: number; // Bets and raises per call
+  wentToShowdown: number;
+  showdownWinRate: number;
+  bbPer100: number;
+  netResult: number; // Cash tables only
+  handRanks: Record<string, number>; // Hands shown down, by rank
+}
+
+export interface PokerStatsFilter {
+  bigBlind?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface HudStats {
+  userId: number;
+  hands: number;
+  vpip: number;
+  pfr: number;
+  aggressionFactor: number;
+}
+
+interface HandPlayerSummary {
+  userId: number;
+  vpip: boolean;
+  pfr: boolean;
+  aggressiveActions: number;
+  passiveActions: number;
+  wentToShowdown: boolean;
+  wonAtShowdown: boolean;
+  amountWon: number;
+  netResult: number;
+  showdownRank: number | null;
+}
+
+// Counter column per shown-down hand rank; high cards are not counted
+const RANK_COLUMNS: Record<number, string> = {
+  [HAND_RANKINGS.ROYAL_FLUSH]: 'royal_flushes',
+  [HAND_RANKINGS.STRAIGHT_FLUSH]: 'straight_flushes',
+  [HAND_RANKINGS.FOUR_OF_A_KIND]: 'four_of_a_kinds',
+  [HAND_RANKINGS.FULL_HOUSE]: 'full_houses',
+  [HAND_RANKINGS.FLUSH]: 'flushes',
+  [HAND_RANKINGS.STRAIGHT]: 'straights',
+  [HAND_RANKINGS.THREE_OF_A_KIND]: 'three_of_a_kinds',
+  [HAND_RANKINGS.TWO_PAIR]: 'two_pairs',
+  [HAND_RANKINGS.PAIR]: 'pairs'
+};
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+export class PokerStatsService {
+  /**
+   * Record a completed hand's stats; runs in the transaction that completes the hand, after its
+   * events are written. Safe to call again for the same hand.
+   */
+  static async recordHand(connection: PoolConnection, handId: number): Promise<void> {
+    const [hands]: any = await connection.execute(
+      `SELECT h.table_id, h.small_blind, h.big_blind, h.started_at, pt.tournament_id
+       FROM poker_hands h
+       JOIN poker_tables pt ON pt.id = h.table_id
+       WHERE h.id = ?`,
+      [handId]
+    );
+    if (hands.length === 0) return;
+    const hand = hands[0];
+
+    const [rows]: any = await connection.execute(
+      'SELECT payload FROM poker_hand_events WHERE hand_id = ? ORDER BY sequence',
+      [handId]
+    );
+    const events: TableEvent[] = rows.map((row: any) => typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload);
+    const players = summarizeHand(events);
+
+    const bigBlind = parseFloat(hand.big_blind);
+    const isTournament = hand.tournament_id !== null;
+
+    for (const player of players) {
+      const bigBlindsWon = bigBlind > 0 ? player.netResult / bigBlind : 0;
+
+      const [inserted]: any = await connection.execute(`
+        INSERT IGNORE INTO poker_hand_player_stats (
+          hand_id, user_id, table_id, small_blind, big_blind, is_tournament, vpip, pfr,
+          aggressive_actions, passive_actions, went_to_showdown, won_at_showdown,
+          amount_won, net_result, big_blinds_won, showdown_hand_rank, played_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        handId, player.userId, hand.table_id, hand.small_blind, hand.big_blind, isTournament,
+        player.vpip, player.pfr, player.aggressiveActions, player.passiveActions,
+        player.wentToShowdown, player.wonAtShowdown, player.amountWon, player.netResult,
+        bigBlindsWon, player.showdownRank, hand.started_at
+      ]);
+      if (inserted.affectedRows === 0) continue;
+
+      // Tournament chips are not money, so only cash hands move the money totals
+      const cash = isTournament ? 0 : 1;
+      const rankColumn = player.showdownRank ? RANK_COLUMNS[player.showdownRank] : undefined;
+
+      await connection.execute('INSERT IGNORE INTO poker_player_stats (user_id) VALUES (?)', [player.userId]);
+      // MySQL applies single-table SET assignments left to right, so the ratios see the new counters
+      await connection.execute(`
+        UPDATE poker_player_stats
+        SET hands_played = hands_played + 1,
+            hands_won = hands_won + ?,
+            total_winnings = total_winnings + ?,
+            total_losses = total_losses + ?,
+            biggest_pot_won = GREATEST(biggest_pot_won, ?),
+            vpip_hands = vpip_hands + ?,
+            pfr_hands = pfr_hands + ?,
+            aggressive_actions = aggressive_actions + ?,
+            passive_actions = passive_actions + ?,
+            showdowns = showdowns + ?,
+            showdowns_won = showdowns_won + ?,
+            big_blinds_won = big_blinds_won + ?,
+            voluntarily_put_in_pot = vpip_hands / hands_played,
+            preflop_raise = pfr_hands / hands_played,
+            aggression_factor = aggressive_actions / GREATEST(passive_actions, 1),
+            showdown_win_rate = IF(showdowns > 0, showdowns_won / showdowns, 0),
+            bb_per_100_hands = big_blinds_won / hands_played * 100
+            ${rankColumn ? `, ${rankColumn} = ${rankColumn} + 1` : ''}
+        WHERE user_id = ?
+      `, [
+        player.netResult > 0 ? 1 : 0,
+        cash * Math.max(player.netResult, 0),
+        cash * Math.max(-player.netResult, 0),
+        player.netResult > 0 ? cash * player.amountWon : 0,
+        player.vpip ? 1 : 0,
+        player.pfr ? 1 : 0,
+        player.aggressiveActions,
+        player.passiveActions,
+        player.wentToShowdown ? 1 : 0,
+        player.wonAtShowdown ? 1 : 0,
+        bigBlindsWon,
+        player.userId
+      ]);
+    }
+  }
+
+  /**
+   * A player's stats, over every hand or only those at one big blind and/or in a date range
+   */
+  static async getStats(userId: number, filter: PokerStatsFilter = {}): Promise<PokerStats> {
+    if (filter.bigBlind === undefined && !filter.from && !filter.to) {
+      const rows = await executeQuery('SELECT * FROM poker_player_stats WHERE user_id = ?', [userId]);
+      return rows.length > 0 ? fromTotals(rows[0]) : fromTotals({});
+    }
+
+    const conditions = ['user_id = ?'];
+    const params: any[] = [userId];
+    if (filter.bigBlind !== undefined) {
+      conditions.push('big_blind = ?');
+      params.push(filter.bigBlind);
+    }
+    if (filter.from) {
+      conditions.push('played_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('played_at < ?');
+      params.push(filter.to);
+    }
+
+    const rankSums = Object.entries(RANK_COLUMNS)
+      .map(([rank, column]) => `SUM(showdown_hand_rank = ${Number(rank)}) AS ${column}`)
+      .join(', ');
+    const rows = await executeQuery(`
+      SELECT COUNT(*) AS hands_played,
+             SUM(net_result > 0) AS hands_won,
+             SUM(vpip) AS vpip_hands,
+             SUM(pfr) AS pfr_hands,
+             SUM(aggressive_actions) AS aggressive_actions,
+             SUM(passive_actions) AS passive_actions,
+             SUM(went_to_showdown) AS showdowns,
+             SUM(won_at_showdown) AS showdowns_won,
+             SUM(big_blinds_won) AS big_blinds_won,
+             SUM(IF(is_tournament, 0, net_result)) AS net_result,
+             ${rankSums}
+      FROM poker_hand_player_stats
+      WHERE ${conditions.join(' AND ')}
+    `, params);
+
+    return fromTotals(rows[0]);
+  }
+
+  /**
+   * HUD numbers for the human players seated at a table
+   */
+  static async getHud(tableId: number): Promise<HudStats[]> {
+    const rows = await executeQuery(`
+      SELECT pps.user_id, pps.hands_played, pps.vpip_hands, pps.pfr_hands,
+             pps.aggressive_actions, pps.passive_actions
+      FROM poker_seats ps
+      JOIN poker_player_stats pps ON pps.user_id = ps.user_id
+      WHERE ps.table_id = ? AND ps.is_active = TRUE AND pps.hands_played > 0
+    `, [tableId]);
+
+    return rows.map((row: any) => {
+      const stats = fromTotals(row);
+      return {
+        userId: row.user_id,
+        hands: stats.handsPlayed,
+        vpip: stats.vpip,
+        pfr: stats.pfr,
+        aggressionFactor: stats.aggressionFactor
+      };
+    });
+  }
+}
+
+/**
+ * Each human player's part in a completed hand. Voided hands count for nothing.
+ */
+function summarizeHand(events: TableEvent[]): HandPlayerSummary[] {
+  if (!events.some(event => event.type === 'hand_complete')) return [];
+
+  const players = new Map<number, HandPlayerSummary>();
+  const putIn = new Map<number, number>();
+  let streetBet = 0;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'player_seated':
+        putIn.set(event.userId, 0);
+        if (event.userId > 0) {
+          players.set(event.userId, {
+            userId: event.userId,
+            vpip: false,
+            pfr: false,
+            aggressiveActions: 0,
+            passiveActions: 0,
+            wentToShowdown: false,
+            wonAtShowdown: false,
+            amountWon: 0,
+            netResult: 0,
+            showdownRank: null
+          });
+        }
+        break;
+
+      case 'blind_posted':
+        putIn.set(event.userId, money((putIn.get(event.userId) || 0) + event.amount));
+        streetBet = Math.max(streetBet, event.amount);
+        break;
+
+      case 'player_acted': {
+        putIn.set(event.userId, money((putIn.get(event.userId) || 0) + event.amount));
+        const aggressive = event.action === 'bet' || event.action === 'raise' ||
+          (event.action === 'all_in' && event.currentBet > streetBet);
+        const passive = event.action === 'call' || (event.action === 'all_in' && !aggressive);
+        streetBet = Math.max(streetBet, event.currentBet);
+
+        const player = players.get(event.userId);
+        if (!player) break;
+        if (aggressive) player.aggressiveActions++;
+        if (passive) player.passiveActions++;
+        if (event.round === 'pre_flop') {
+          player.vpip = player.vpip || aggressive || passive;
+          player.pfr = player.pfr || aggressive;
+        }
+        break;
+      }
+
+      case 'round_advanced':
+        streetBet = 0;
+        break;
+
+      case 'showdown':
+        for (const result of event.results) {
+          const player = players.get(result.userId);
+          if (!player) continue;
+          player.wentToShowdown = true;
+          player.showdownRank = result.hand.rank;
+        }
+        break;
+
+      case 'hand_complete':
+        for (const winner of event.winners) {
+          const player = players.get(winner.userId);
+          if (player) player.amountWon = money(player.amountWon + winner.amount);
+        }
+        break;
+    }
+  }
+
+  for (const player of players.values()) {
+    player.netResult = money(player.amountWon - (putIn.get(player.userId) || 0));
+    player.wonAtShowdown = player.wentToShowdown && player.netResult > 0;
+  }
+
+  return [...players.values()];
+}
+
+function fromTotals(row: any): PokerStats {
+  const hands = Number(row.hands_played) || 0;
+  const passive = Number(row.passive_actions) || 0;
+  const showdowns = Number(row.showdowns) || 0;
+  const ratio = (value: number, of: number) => of > 0 ? Math.round(value / of * 10000) / 10000 : 0;
+
+  return {
+    handsPlayed: hands,
+    handsWon: Number(row.hands_won) || 0,
+    vpip: ratio(Number(row.vpip_hands) || 0, hands),
+    pfr: ratio(Number(row.pfr_hands) || 0, hands),
+    aggressionFactor: ratio(Number(row.aggressive_actions) || 0, Math.max(passive, 1)),
+    wentToShowdown: ratio(showdowns, hands),
+    showdownWinRate: ratio(Number(row.showdowns_won) || 0, showdowns),
+    bbPer100: Math.round(ratio(parseFloat(row.big_blinds_won) || 0, hands) * 100 * 100) / 100,
+    netResult: row.net_result !== undefined
+      ? money(parseFloat(row.net_result) || 0)
+      : money((parseFloat(row.total_winnings) || 0) - (parseFloat(row.total_losses) || 0)),
+    handRanks: Object.fromEntries(
+      Object.values(RANK_COLUMNS).map(column => [column, Number(row[column]) || 0])
+    )
+  };
+}
+
+export default PokerStatsService;
@@ -0,0 +1,874 @@
+/**
+ * Poker Table Engine
+ * Pure, deterministic Texas Hold'em hand progression shared by human and AI players.
+ * applyAction(state, action) returns the next state and the events it produced; it does no I/O,
+ * so the socket handler and the AI manager only feed it actions, then persist and broadcast the result.
+ * Every change to the state is made by applying one of those events, so a hand's event log replayed
+ * through applyEvent rebuilds exactly the state the table had.
+ */
+
+import { Card, HandResult, evaluateHand, compareHands } from './pokerEngine';
+
+export class PokerEngineError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PokerEngineError';
+  }
+}
+
+export type BettingRound = 'pre_flop' | 'flop' | 'turn' | 'river';
+export type TablePhase = 'waiting' | BettingRound | 'complete';
+export type PlayerActionType = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'all_in';
+
+export interface SeatState {
+  userId: number; // Negative for AI players
+  seatPosition: number;
+  chips: number;
+  holeCards: Card[];
+  currentBet: number; // Put in during the current betting round
+  totalBetThisHand: number;
+  lastAction: PlayerActionType | null;
+  hasActed: boolean; // Acted since the last full bet or raise; a short all-in leaves it set
+  isFolded: boolean;
+  isAllIn: boolean;
+}
+
+export interface TableState {
+  tableId: number;
+  smallBlind: number;
+  bigBlind: number;
+  handNumber: number;
+  phase: TablePhase;
+  seats: SeatState[]; // Players dealt into the current (or last) hand, by seat position
+  deck: Card[]; // Undealt cards, top first
+  communityCards: Card[];
+  pot: number;
+  currentBet: number; // Highest bet in the current betting round
+  minRaise: number; // Smallest legal raise increment
+  dealerPosition: number; // Seat positions; -1 before the first hand
+  smallBlindPosition: number;
+  bigBlindPosition: number;
+  currentPlayerPosition: number; // -1 when nobody is to act
+  actionSequence: number; // Blinds and actions taken this hand
+  eventSequence: number; // Events recorded this hand; numbers the hand's event log
+  rake: RakeRule | null; // For the current (or last) hand
+}
+
+export interface RakeRule {
+  percentage: number; // Fraction of each contested pot, e.g. 0.05
+  cap: number; // Most taken from one hand, already picked for the number of players dealt in
+  noFlopNoDrop: boolean; // Nothing is taken from hands that end before the flop
+}
+
+export interface SeatedPlayer {
+  userId: number;
+  seatPosition: number;
+  chips: number;
+}
+
+export type TableAction =
+  | { type: 'start_hand'; players: SeatedPlayer[]; deck: Card[]; smallBlind: number; bigBlind: number; rake?: RakeRule | null }
+  | { type: 'player_action'; userId: number; action: PlayerActionType; amount?: number }
+  | { type: 'timeout'; userId: number } // Checks if free, folds otherwise
+  | { type: 'void_hand' }; // Calls the hand off and gives everyone back what they put in
+
+export interface PotResult {
+  amount: number;
+  eligiblePlayers: number[];
+  winners: Array<{ userId: number; amount: number }>;
+}
+
+export type TableEvent =
+  | {
+      type: 'hand_started';
+      handNumber: number;
+      smallBlind: number;
+      bigBlind: number;
+      dealerPosition: number;
+      smallBlindPosition: number;
+      bigBlindPosition: number;
+      rake?: RakeRule | null; // Absent from hands logged before rake was taken
+    }
+  | { type: 'player_seated'; userId: number; seatPosition: number; chips: number }
+  | {
+      type: 'cards_dealt';
+      holeCards: Array<{ userId: number; seatPosition: number; cards: Card[] }>;
+      deck: Card[]; // Left undealt, top first
+    }
+  | {
+      type: 'blind_posted';
+      userId: number;
+      seatPosition: number;
+      blind: 'small' | 'big';
+      amount: number;
+      chipsBefore: number;
+      chipsAfter: number;
+      potBefore: number;
+      sequence: number;
+    }
+  | { type: 'player_to_act'; userId: number; seatPosition: number }
+  | {
+      type: 'player_acted';
+      userId: number;
+      seatPosition: number;
+      action: PlayerActionType;
+      amount: number; // Chips put in by this action
+      round: BettingRound;
+      chipsBefore: number;
+      chipsAfter: number;
+      potBefore: number;
+      pot: number;
+      currentBet: number;
+      minRaise: number;
+      isAllIn: boolean;
+      timedOut: boolean;
+      sequence: number;
+    }
+  | { type: 'round_advanced'; round: BettingRound; communityCards: Card[] }
+  | {
+      type: 'showdown';
+      results: Array<{ userId: number; seatPosition: number; holeCards: Card[]; hand: HandResult }>;
+    }
+  | {
+      type: 'hand_complete';
+      reason: 'fold' | 'showdown';
+      round: BettingRound;
+      pot: number; // Everything put in, before rake
+      rake?: number; // Taken off the pots, which are what was left for the winners
+      pots: PotResult[];
+      winners: Array<{ userId: number; amount: number }>;
+      communityCards: Card[];
+    }
+  | {
+      type: 'hand_voided';
+      round: BettingRound;
+      refunds: Array<{ userId: number; seatPosition: number; amount: number }>;
+    };
+
+export interface LegalActions {
+  toCall: number;
+  canCheck: boolean;
+  minRaiseTo: number; // Smallest legal bet/raise total, unless going all-in for less
+  maxRaiseTo: number;
+  canRaise: boolean; // False when only a short all-in came since the player acted: call or fold
+}
+
+const ROUNDS: BettingRound[] = ['pre_flop', 'flop', 'turn', 'river'];
+const CARDS_PER_ROUND: Record<BettingRound, number> = { pre_flop: 0, flop: 3, turn: 1, river: 1 };
+
+// Chip amounts are decimal; keep them at whole cents so replays give identical numbers
+const money = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Empty table, before its first hand
+ */
+export function createTableState(
+  tableId: number,
+  smallBlind: number,
+  bigBlind: number,
+  handNumber: number = 0,
+  dealerPosition: number = -1
+): TableState {
+  return {
+    tableId,
+    smallBlind,
+    bigBlind,
+    handNumber,
+    phase: 'waiting',
+    seats: [],
+    deck: [],
+    communityCards: [],
+    pot: 0,
+    currentBet: 0,
+    minRaise: bigBlind,
+    dealerPosition,
+    smallBlindPosition: -1,
+    bigBlindPosition: -1,
+    currentPlayerPosition: -1,
+    actionSequence: 0,
+    eventSequence: 0,
+    rake: null
+  };
+}
+
+export function isHandInProgress(state: TableState): boolean {
+  return (ROUNDS as string[]).includes(state.phase);
+}
+
+/**
+ * Whether a hand in progress still adds up: the pot holds exactly what was put in and someone is to act
+ */
+export function isStateConsistent(state: TableState): boolean {
+  const contributed = money(state.seats.reduce((sum, seat) => sum + seat.totalBetThisHand, 0));
+  return state.pot === contributed &&
+    state.seats.every(seat => seat.chips >= 0) &&
+    seatToAct(state) !== undefined;
+}
+
+/**
+ * Betting round of the hand, also once it is complete
+ */
+export function currentRound(state: TableState): BettingRound {
+  if (isHandInProgress(state)) return state.phase as BettingRound;
+  return ROUNDS[Math.max(0, state.communityCards.length - 2)];
+}
+
+/**
+ * Seat whose turn it is, if any
+ */
+export function seatToAct(state: TableState): SeatState | undefined {
+  if (!isHandInProgress(state)) return undefined;
+  return state.seats.find(s => s.seatPosition === state.currentPlayerPosition);
+}
+
+/**
+ * What the player to act may do; null when it is not their turn
+ */
+export function getLegalActions(state: TableState, userId: number): LegalActions | null {
+  const seat = seatToAct(state);
+  if (!seat || seat.userId !== userId) return null;
+
+  const toCall = money(Math.max(0, state.currentBet - seat.currentBet));
+  const maxRaiseTo = money(seat.chips + seat.currentBet);
+  return {
+    toCall,
+    canCheck: toCall === 0,
+    minRaiseTo: Math.min(money(state.currentBet + state.minRaise), maxRaiseTo),
+    maxRaiseTo,
+    canRaise: !seat.hasActed && seat.chips > toCall
+  };
+}
+
+/**
+ * Apply one action to a table. The input state is left untouched; invalid actions throw PokerEngineError.
+ */
+export function applyAction(state: TableState, action: TableAction): { state: TableState; events: TableEvent[] } {
+  const next = cloneState(state);
+  const events: TableEvent[] = [];
+
+  switch (action.type) {
+    case 'start_hand':
+      startHand(next, action, events);
+      break;
+
+    case 'player_action':
+      act(next, action.userId, action.action, action.amount || 0, false, events);
+      break;
+
+    case 'timeout': {
+      const legal = getLegalActions(next, action.userId);
+      if (!legal) {
+        throw new PokerEngineError('Not your turn');
+      }
+      act(next, action.userId, legal.canCheck ? 'check' : 'fold', 0, true, events);
+      break;
+    }
+
+    case 'void_hand':
+      if (!isHandInProgress(next)) {
+        throw new PokerEngineError('No hand in progress', 409);
+      }
+      record(next, events, {
+        type: 'hand_voided',
+        round: next.phase as BettingRound,
+        refunds: next.seats
+          .filter(seat => seat.totalBetThisHand > 0)
+          .map(seat => ({ userId: seat.userId, seatPosition: seat.seatPosition, amount: seat.totalBetThisHand }))
+      });
+      break;
+
+    default:
+      throw new PokerEngineError('Invalid action');
+  }
+
+  return { state: next, events };
+}
+
+/**
+ * Apply one recorded event. The input state is left untouched.
+ */
+export function applyEvent(state: TableState, event: TableEvent): TableState {
+  const next = cloneState(state);
+  evolve(next, event);
+  return next;
+}
+
+/**
+ * Table state after a hand's event log, in order
+ */
+export function rebuildState(tableId: number, events: TableEvent[]): TableState {
+  return events.reduce(applyEvent, createTableState(tableId, 0, 0));
+}
+
+function cloneState(state: TableState): TableState {
+  return {
+    ...state,
+    seats: state.seats.map(seat => ({ ...seat, holeCards: [...seat.holeCards] })),
+    deck: [...state.deck],
+    communityCards: [...state.communityCards]
+  };
+}
+
+/**
+ * Seat position following `position` clockwise among the given positions
+ */
+function nextPosition(positions: number[], position: number): number {
+  return positions.find(p => p > position) ?? positions[0];
+}
+
+/**
+ * Seats in dealing order, starting at the given position
+ */
+function seatsFrom(state: TableState, position: number): SeatState[] {
+  const index = state.seats.findIndex(s => s.seatPosition >= position);
+  const start = index === -1 ? 0 : index;
+  return [...state.seats.slice(start), ...state.seats.slice(0, start)];
+}
+
+function startHand(
+  state: TableState,
+  action: Extract<TableAction, { type: 'start_hand' }>,
+  events: TableEvent[]
+) {
+  if (isHandInProgress(state)) {
+    throw new PokerEngineError('A hand is already in progress', 409);
+  }
+
+  const players = action.players
+    .filter(p => p.chips > 0)
+    .sort((a, b) => a.seatPosition - b.seatPosition);
+  if (players.length < 2) {
+    throw new PokerEngineError('Need at least 2 players to start a hand');
+  }
+  if (action.deck.length < players.length * 2 + 5) {
+    throw new PokerEngineError('Not enough cards in the deck');
+  }
+
+  // Button moves to the next occupied seat; heads-up the button posts the small blind
+  const positions = players.map(p => p.seatPosition);
+  const dealerPosition = nextPosition(positions, state.dealerPosition);
+  const smallBlindPosition = positions.length === 2 ? dealerPosition : nextPosition(positions, dealerPosition);
+
+  record(state, events, {
+    type: 'hand_started',
+    handNumber: state.handNumber + 1,
+    smallBlind: action.smallBlind,
+    bigBlind: action.bigBlind,
+    dealerPosition,
+    smallBlindPosition,
+    bigBlindPosition: nextPosition(positions, smallBlindPosition),
+    rake: action.rake || null
+  });
+
+  for (const player of players) {
+    record(state, events, {
+      type: 'player_seated',
+      userId: player.userId,
+      seatPosition: player.seatPosition,
+      chips: money(player.chips)
+    });
+  }
+
+  // Two cards each, one at a time, starting left of the button
+  const deck = [...action.deck];
+  const dealingOrder = seatsFrom(state, nextPosition(positions, dealerPosition));
+  const holeCards = new Map<SeatState, Card[]>(dealingOrder.map(seat => [seat, []]));
+  for (let round = 0; round < 2; round++) {
+    for (const seat of dealingOrder) {
+      holeCards.get(seat)!.push(deck.shift()!);
+    }
+  }
+
+  record(state, events, {
+    type: 'cards_dealt',
+    holeCards: state.seats.map(seat => ({
+      userId: seat.userId,
+      seatPosition: seat.seatPosition,
+      cards: holeCards.get(seat)!
+    })),
+    deck
+  });
+
+  postBlind(state, state.smallBlindPosition, state.smallBlind, 'small', events);
+  postBlind(state, state.bigBlindPosition, state.bigBlind, 'big', events);
+
+  progress(state, state.bigBlindPosition, events);
+}
+
+function postBlind(
+  state: TableState,
+  position: number,
+  blind: number,
+  kind: 'small' | 'big',
+  events: TableEvent[]
+) {
+  const seat = state.seats.find(s => s.seatPosition === position)!;
+  const amount = Math.min(blind, seat.chips);
+
+  record(state, events, {
+    type: 'blind_posted',
+    userId: seat.userId,
+    seatPosition: seat.seatPosition,
+    blind: kind,
+    amount,
+    chipsBefore: seat.chips,
+    chipsAfter: money(seat.chips - amount),
+    potBefore: state.pot,
+    sequence: state.actionSequence + 1
+  });
+}
+
+function act(
+  state: TableState,
+  userId: number,
+  action: PlayerActionType,
+  amount: number,
+  timedOut: boolean,
+  events: TableEvent[]
+) {
+  if (!isHandInProgress(state)) {
+    throw new PokerEngineError('No hand in progress', 409);
+  }
+
+  const seat = state.seats.find(s => s.userId === userId);
+  if (!seat || seat.isFolded) {
+    throw new PokerEngineError('Player not in this hand');
+  }
+  if (seat.seatPosition !== state.currentPlayerPosition) {
+    throw new PokerEngineError('Not your turn');
+  }
+
+  const toCall = money(state.currentBet - seat.currentBet);
+  let put = 0;
+
+  switch (action) {
+    case 'fold':
+      break;
+
+    case 'check':
+      if (toCall > 0) {
+        throw new PokerEngineError('Cannot check when there is a bet to call');
+      }
+      break;
+
+    case 'call':
+      if (toCall <= 0) {
+        throw new PokerEngineError('No bet to call');
+      }
+      put = Math.min(toCall, seat.chips); // Calling for less puts the player all-in
+      break;
+
+    case 'bet':
+      if (state.currentBet > 0) {
+        throw new PokerEngineError('Cannot bet when there is already a bet');
+      }
+      put = raiseBy(state, seat, amount);
+      break;
+
+    case 'raise':
+      if (state.currentBet === 0) {
+        throw new PokerEngineError('Cannot raise when there is no bet');
+      }
+      put = raiseBy(state, seat, amount);
+      break;
+
+    case 'all_in':
+      if (seat.chips <= 0) {
+        throw new PokerEngineError('No chips to go all-in');
+      }
+      put = seat.chips;
+      if (put > toCall) {
+        assertBettingOpen(seat);
+      }
+      break;
+
+    default:
+      throw new PokerEngineError('Invalid action');
+  }
+
+  // A full raise sets the new minimum; a short all-in still has to be answered by everyone
+  const betTo = money(seat.currentBet + put);
+  const chipsAfter = money(seat.chips - put);
+
+  record(state, events, {
+    type: 'player_acted',
+    userId: seat.userId,
+    seatPosition: seat.seatPosition,
+    action,
+    amount: put,
+    round: state.phase as BettingRound,
+    chipsBefore: seat.chips,
+    chipsAfter,
+    potBefore: state.pot,
+    pot: money(state.pot + put),
+    currentBet: Math.max(state.currentBet, betTo),
+    minRaise: Math.max(state.minRaise, money(betTo - state.currentBet)),
+    isAllIn: put > 0 ? chipsAfter === 0 : seat.isAllIn,
+    timedOut,
+    sequence: state.actionSequence + 1
+  });
+
+  progress(state, seat.seatPosition, events);
+}
+
+/**
+ * Chips a bet or raise to `target` costs the seat; the total must reach the minimum raise unless it is all-in
+ */
+function raiseBy(state: TableState, seat: SeatState, target: number): number {
+  assertBettingOpen(seat);
+
+  const maxRaiseTo = money(seat.chips + seat.currentBet);
+  const minRaiseTo = money(state.currentBet + state.minRaise);
+
+  if (!(target > state.currentBet)) {
+    throw new PokerEngineError(`Amount must be more than ${state.currentBet}`);
+  }
+  if (target > maxRaiseTo) {
+    throw new PokerEngineError('Insufficient chips');
+  }
+  if (target < minRaiseTo && target < maxRaiseTo) {
+    throw new PokerEngineError(`${state.currentBet === 0 ? 'Bet' : 'Raise'} must be at least ${minRaiseTo}`);
+  }
+
+  return money(target - seat.currentBet);
+}
+
+/**
+ * A seat that has acted may only call or fold when what it faces is a short all-in, not a full raise
+ */
+function assertBettingOpen(seat: SeatState) {
+  if (seat.hasActed) {
+    throw new PokerEngineError('A short all-in does not reopen the betting; call or fold');
+  }
+}
+
+/**
+ * Next seat after `position` that still has to act this round, if any
+ */
+function nextToAct(state: TableState, position: number): SeatState | undefined {
+  const canAct = state.seats.filter(s => !s.isFolded && !s.isAllIn);
+
+  // A lone player with chips left has nobody to bet against once they have matched
+  if (canAct.length === 0 || (canAct.length === 1 && canAct[0].currentBet >= state.currentBet)) {
+    return undefined;
+  }
+
+  return seatsFrom(state, position + 1).find(s =>
+    !s.isFolded && !s.isAllIn && (!s.hasActed || s.currentBet < state.currentBet)
+  );
+}
+
+/**
+ * Move the hand on after `position` acted: next player, next street, or the end of the hand
+ */
+function progress(state: TableState, position: number, events: TableEvent[]) {
+  const contenders = state.seats.filter(s => !s.isFolded);
+  if (contenders.length === 1) {
+    awardUncontested(state, contenders[0], events);
+    return;
+  }
+
+  let next = nextToAct(state, position);
+
+  // Betting round closed; deal streets until someone has a decision to make or the board is out
+  while (!next) {
+    const round = ROUNDS[ROUNDS.indexOf(state.phase as BettingRound) + 1];
+    if (!round) {
+      showdown(state, events);
+      return;
+    }
+
+    record(state, events, {
+      type: 'round_advanced',
+      round,
+      communityCards: [...state.communityCards, ...state.deck.slice(0, CARDS_PER_ROUND[round])]
+    });
+    next = nextToAct(state, state.dealerPosition);
+  }
+
+  record(state, events, { type: 'player_to_act', userId: next.userId, seatPosition: next.seatPosition });
+}
+
+function awardUncontested(state: TableState, winner: SeatState, events: TableEvent[]) {
+  // What the winner put in beyond anyone else was never called, so is not raked
+  const called = Math.max(0, ...state.seats.filter(s => s !== winner).map(s => s.totalBetThisHand));
+  const uncalled = money(Math.max(winner.totalBetThisHand - called, 0));
+  const rake = rakeFor(state, money(state.pot - uncalled));
+  const amount = money(state.pot - rake);
+
+  record(state, events, {
+    type: 'hand_complete',
+    reason: 'fold',
+    round: currentRound(state),
+    pot: state.pot,
+    rake,
+    pots: [{ amount, eligiblePlayers: [winner.userId], winners: [{ userId: winner.userId, amount }] }],
+    winners: [{ userId: winner.userId, amount }],
+    communityCards: [...state.communityCards]
+  });
+}
+
+/**
+ * The house's cut of the contested part of a finished hand: a percentage rounded down to the cent,
+ * up to the cap, and nothing before the flop where the table has no-flop-no-drop
+ */
+function rakeFor(state: TableState, contested: number): number {
+  if (!state.rake || contested <= 0) return 0;
+  if (state.rake.noFlopNoDrop && state.communityCards.length === 0) return 0;
+
+  const rake = Math.floor(contested * state.rake.percentage * 100) / 100;
+  return money(Math.min(rake, state.rake.cap));
+}
+
+/**
+ * Main pot and side pots: each level is what every player put in up to a contender's total
+ */
+function buildPots(state: TableState): Array<{ amount: number; eligible: SeatState[] }> {
+  const contenders = state.seats.filter(s => !s.isFolded);
+  const levels = Array.from(new Set(contenders.map(s => s.totalBetThisHand))).sort((a, b) => a - b);
+  const pots: Array<{ amount: number; eligible: SeatState[] }> = [];
+
+  let previous = 0;
+  for (const level of levels) {
+    const amount = state.seats.reduce(
+      (sum, s) => sum + Math.max(0, Math.min(s.totalBetThisHand, level) - Math.min(s.totalBetThisHand, previous)),
+      0
+    );
+    if (amount > 0) {
+      pots.push({ amount: money(amount), eligible: contenders.filter(s => s.totalBetThisHand >= level) });
+    }
+    previous = level;
+  }
+
+  return pots;
+}
+
+function showdown(state: TableState, events: TableEvent[]) {
+  const contenders = state.seats.filter(s => !s.isFolded);
+  const hands = new Map<number, HandResult>(
+    contenders.map(s => [s.userId, evaluateHand([...s.holeCards, ...state.communityCards])])
+  );
+
+  record(state, events, {
+    type: 'showdown',
+    results: contenders.map(s => ({
+      userId: s.userId,
+      seatPosition: s.seatPosition,
+      holeCards: [...s.holeCards],
+      hand: hands.get(s.userId)!
+    }))
+  });
+
+  // Rake comes out of the pots more than one player contested, main pot first
+  const built = buildPots(state);
+  const rake = rakeFor(state, money(built.filter(pot => pot.eligible.length > 1).reduce((sum, pot) => sum + pot.amount, 0)));
+  let unraked = rake;
+  for (const pot of built) {
+    if (pot.eligible.length < 2 || unraked <= 0) continue;
+    const taken = Math.min(pot.amount, unraked);
+    pot.amount = money(pot.amount - taken);
+    unraked = money(unraked - taken);
+  }
+
+  // Odd cents of a split pot go to the winners closest to the left of the button
+  const payoutOrder = seatsFrom(state, state.dealerPosition + 1);
+  const totals = new Map<number, number>();
+  const pots: PotResult[] = built.map(pot => {
+    const best = pot.eligible.reduce((top, s) =>
+      compareHands(hands.get(s.userId)!, hands.get(top.userId)!) > 0 ? s : top
+    );
+    const winners = payoutOrder.filter(s =>
+      pot.eligible.includes(s) && compareHands(hands.get(s.userId)!, hands.get(best.userId)!) === 0
+    );
+
+    const cents = Math.round(pot.amount * 100);
+    const share = Math.floor(cents / winners.length);
+    let oddCents = cents - share * winners.length;
+
+    return {
+      amount: pot.amount,
+      eligiblePlayers: pot.eligible.map(s => s.userId),
+      winners: winners.map(s => {
+        const amount = (share + (oddCents-- > 0 ? 1 : 0)) / 100;
+        totals.set(s.userId, money((totals.get(s.userId) || 0) + amount));
+        return { userId: s.userId, amount };
+      })
+    };
+  });
+
+  record(state, events, {
+    type: 'hand_complete',
+    reason: 'showdown',
+    round: currentRound(state),
+    pot: state.pot,
+    rake,
+    pots,
+    winners: Array.from(totals, ([userId, amount]) => ({ userId, amount })),
+    communityCards: [...state.communityCards]
+  });
+}
+
+function record(state: TableState, events: TableEvent[], event: TableEvent) {
+  events.push(event);
+  evolve(state, event);
+}
+
+/**
+ * The only place the state changes: apply one event, live or replayed from the log
+ */
+function evolve(state: TableState, event: TableEvent) {
+  switch (event.type) {
+    case 'hand_started':
+      Object.assign(state, {
+        smallBlind: event.smallBlind,
+        bigBlind: event.bigBlind,
+        handNumber: event.handNumber,
+        phase: 'pre_flop',
+        seats: [],
+        deck: [],
+        communityCards: [],
+        pot: 0,
+        currentBet: 0,
+        minRaise: event.bigBlind,
+        dealerPosition: event.dealerPosition,
+        smallBlindPosition: event.smallBlindPosition,
+        bigBlindPosition: event.bigBlindPosition,
+        currentPlayerPosition: -1,
+        actionSequence: 0,
+        eventSequence: 0,
+        rake: event.rake || null
+      });
+      break;
+
+    case 'player_seated':
+      state.seats.push({
+        userId: event.userId,
+        seatPosition: event.seatPosition,
+        chips: event.chips,
+        holeCards: [],
+        currentBet: 0,
+        totalBetThisHand: 0,
+        lastAction: null,
+        hasActed: false,
+        isFolded: false,
+        isAllIn: false
+      });
+      state.seats.sort((a, b) => a.seatPosition - b.seatPosition);
+      break;
+
+    case 'cards_dealt':
+      for (const dealt of event.holeCards) {
+        seatAt(state, dealt.seatPosition).holeCards = [...dealt.cards];
+      }
+      state.deck = [...event.deck];
+      break;
+
+    case 'blind_posted': {
+      const seat = seatAt(state, event.seatPosition);
+      seat.chips = event.chipsAfter;
+      seat.currentBet = money(seat.currentBet + event.amount);
+      seat.totalBetThisHand = money(seat.totalBetThisHand + event.amount);
+      seat.isAllIn = event.chipsAfter === 0;
+      state.pot = money(state.pot + event.amount);
+      state.actionSequence = event.sequence;
+
+      // Everyone owes the full big blind, even when it was posted short
+      if (event.blind === 'big') {
+        state.currentBet = state.bigBlind;
+      }
+      break;
+    }
+
+    case 'player_to_act':
+      state.currentPlayerPosition = event.seatPosition;
+      break;
+
+    case 'player_acted': {
+      const seat = seatAt(state, event.seatPosition);
+      // Only a full raise reopens the betting to those who have acted; a short all-in just has to be called
+      if (money(event.currentBet - state.currentBet) >= state.minRaise) {
+        for (const other of state.seats) {
+          if (other !== seat) other.hasActed = false;
+        }
+      }
+
+      seat.chips = event.chipsAfter;
+      seat.currentBet = money(seat.currentBet + event.amount);
+      seat.totalBetThisHand = money(seat.totalBetThisHand + event.amount);
+      seat.isAllIn = event.isAllIn;
+      seat.isFolded = seat.isFolded || event.action === 'fold';
+      seat.hasActed = true;
+      seat.lastAction = event.action;
+      state.pot = event.pot;
+      state.currentBet = event.currentBet;
+      state.minRaise = event.minRaise;
+      state.currentPlayerPosition = -1;
+      state.actionSequence = event.sequence;
+      break;
+    }
+
+    case 'round_advanced':
+      state.deck = state.deck.slice(event.communityCards.length - state.communityCards.length);
+      state.communityCards = [...event.communityCards];
+      state.phase = event.round;
+      closeBettingRound(state);
+      break;
+
+    case 'showdown':
+      closeBettingRound(state);
+      break;
+
+    case 'hand_complete':
+      for (const winner of event.winners) {
+        const seat = state.seats.find(s => s.userId === winner.userId)!;
+        seat.chips = money(seat.chips + winner.amount);
+      }
+      state.phase = 'complete';
+      state.currentPlayerPosition = -1;
+      state.currentBet = 0;
+      break;
+
+    case 'hand_voided':
+      for (const refund of event.refunds) {
+        const seat = seatAt(state, refund.seatPosition);
+        seat.chips = money(seat.chips + refund.amount);
+        seat.totalBetThisHand = 0;
+        seat.currentBet = 0;
+        seat.isAllIn = false;
+      }
+      state.pot = 0;
+      state.phase = 'complete';
+      state.currentPlayerPosition = -1;
+      state.currentBet = 0;
+      break;
+  }
+
+  state.eventSequence += 1;
+}
+
+function seatAt(state: TableState, seatPosition: number): SeatState {
+  return state.seats.find(s => s.seatPosition === seatPosition)!;
+}
+
+function closeBettingRound(state: TableState) {
+  for (const seat of state.seats) {
+    seat.currentBet = 0;
+    seat.hasActed = false;
+    if (!seat.isFolded) seat.lastAction = null;
+  }
+  state.currentBet = 0;
+  state.minRaise = state.bigBlind;
+  state.currentPlayerPosition = -1;
+}
+
+export default {
+  createTableState,
+  applyAction,
+  applyEvent,
+  rebuildState,
+  getLegalActions,
+  seatToAct,
+  isHandInProgress,
+  isStateConsistent,
+  currentRound
+};
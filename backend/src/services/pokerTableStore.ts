@@ -0,0 +1,85 @@
+/**
+ * Poker Table Store
+ * Live poker table state in Redis, shared by every backend instance. Each transition is written
+ * here once it is committed to MySQL, and a per-table lock lets only one instance at a time apply
+ * actions to a table.
+ */
+
+import crypto from 'crypto';
+import { deleteCache, getCache, getRedisClient, setCache } from '../config/redis';
+import { PokerEngineError, TableState } from './pokerTableEngine';
+
+export interface PokerTable {
+  state: TableState;
+  gameId: number | null; // poker_games row of the current (or last) hand
+  handId: number | null; // poker_hands row of the current (or last) hand
+}
+
+const TABLE_TTL_SECONDS = 24 * 60 * 60; // Idle tables fall back to the MySQL snapshot
+const LOCK_TTL_MS = 30000; // Longer than any single transition, short enough to survive a crashed holder
+const LOCK_WAIT_MS = 10000;
+const LOCK_RETRY_MS = 50;
+
+// Only the holder's token may release a lock, so an expired holder cannot free its successor's
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+  end
+  return 0
+`;
+
+const tableKey = (tableId: number) => `poker:table:${tableId}`;
+const lockKey = (tableId: number) => `poker:lock:${tableId}`;
+
+export class PokerTableStore {
+  static async get(tableId: number): Promise<PokerTable | null> {
+    return getCache(tableKey(tableId));
+  }
+
+  /**
+   * Store a committed transition. A copy that cannot be written is dropped, so nobody reads it stale.
+   */
+  static async save(tableId: number, table: PokerTable): Promise<void> {
+    try {
+      await setCache(tableKey(tableId), table, TABLE_TTL_SECONDS);
+    } catch (error) {
+      console.error(`Failed to store poker table ${tableId} in Redis:`, error);
+      await deleteCache(tableKey(tableId)).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Forget every stored table
+   */
+  static async clear(): Promise<void> {
+    const client = getRedisClient();
+    for await (const key of client.scanIterator({ MATCH: 'poker:table:*', COUNT: 100 })) {
+      await client.del(key);
+    }
+  }
+
+  /**
+   * Run a task while holding the table's lock, waiting for another instance to release it if needed
+   */
+  static async withLock<T>(tableId: number, task: () => Promise<T>): Promise<T> {
+    const client = getRedisClient();
+    const token = crypto.randomBytes(16).toString('hex');
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (!(await client.set(lockKey(tableId), token, { NX: true, PX: LOCK_TTL_MS }))) {
+      if (Date.now() > deadline) {
+        throw new PokerEngineError('The table is busy, please try again', 503);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+      return await task();
+    } finally {
+      await client.eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey(tableId)], arguments: [token] })
+        .catch(error => console.error(`Failed to release poker table ${tableId} lock:`, error));
+    }
+  }
+}
+
+export default PokerTableStore;
@@ -0,0 +1,182 @@
+/**
+ * Reality Check Service
+ * Tracks play sessions in game_sessions: the run of stakes a player makes, across games,
+ * without a 30-minute break (a seat at a poker table keeps the session open). At the
+ * player's chosen interval a reality check with their time played and net result is pushed
+ * to their `user_${userId}` room, and stakes are refused until they acknowledge it.
+ */
+
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+import { LeaderLease } from './leaderLease';
+
+export interface PlaySession {
+  id: number;
+  startedAt: string;
+  minutesPlayed: number;
+  totalBet: number;
+  totalWon: number;
+  net: number; // Won minus staked
+  realityCheckPending: boolean;
+}
+
+const IDLE_MINUTES = 30;
+const TICK_MS = 30000;
+
+const STAKE_TYPES = ['bet', 'buy_in'];
+const RETURN_TYPES = ['win', 'cash_out', 'refund'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class RealityCheckService {
+  private static io: Server | null = null;
+
+  /**
+   * Start pushing due reality checks and closing idle play sessions
+   */
+  static initialize(socketIO: Server): void {
+    this.io = socketIO;
+
+    setInterval(() => {
+      if (!LeaderLease.isLeader()) return;
+      this.tick().catch(error => console.error('Reality check error:', error));
+    }, TICK_MS);
+  }
+
+  /**
+   * Count a wallet entry towards the player's play session. A stake after a break opens a
+   * new session; winnings settling late go to the most recent one.
+   */
+  static async recordEntry(connection: PoolConnection, userId: number, entry: { type: string; amount: number }): Promise<void> {
+    const isStake = STAKE_TYPES.includes(entry.type) && entry.amount < 0;
+    const isReturn = RETURN_TYPES.includes(entry.type) && entry.amount > 0;
+    if (!isStake && !isReturn) {
+      return;
+    }
+
+    const [sessions]: any = await connection.execute(
+      isStake
+        ? `SELECT id FROM game_sessions
+           WHERE user_id = ? AND is_active = TRUE AND last_activity_at >= DATE_SUB(NOW(), INTERVAL ${IDLE_MINUTES} MINUTE)
+           ORDER BY id DESC LIMIT 1`
+        : 'SELECT id FROM game_sessions WHERE user_id = ? ORDER BY id DESC LIMIT 1',
+      [userId]
+    );
+
+    let sessionId: number;
+    if (sessions.length > 0) {
+      sessionId = sessions[0].id;
+    } else if (isStake) {
+      await connection.execute(
+        `UPDATE game_sessions SET is_active = FALSE, ended_at = last_activity_at, reality_check_pending_since = NULL
+         WHERE user_id = ? AND is_active = TRUE`,
+        [userId]
+      );
+      const [inserted]: any = await connection.execute(
+        'INSERT INTO game_sessions (user_id, session_token) VALUES (?, ?)',
+        [userId, crypto.randomUUID()]
+      );
+      sessionId = inserted.insertId;
+    } else {
+      return;
+    }
+
+    await connection.execute(
+      `UPDATE game_sessions
+       SET total_bet = total_bet + ?, total_won = total_won + ?, last_activity_at = NOW()
+       WHERE id = ?`,
+      [isStake ? -entry.amount : 0, isReturn ? entry.amount : 0, sessionId]
+    );
+  }
+
+  /**
+   * Whether the player has a reality check waiting for acknowledgement
+   */
+  static async isPending(connection: PoolConnection | null, userId: number): Promise<boolean> {
+    const query = `SELECT id FROM game_sessions
+                   WHERE user_id = ? AND is_active = TRUE AND reality_check_pending_since IS NOT NULL`;
+    const rows = connection
+      ? (await connection.execute(query, [userId]))[0] as any[]
+      : await executeQuery(query, [userId]);
+    return rows.length > 0;
+  }
+
+  static async getCurrentSession(userId: number): Promise<PlaySession | null> {
+    const rows = await executeQuery(
+      'SELECT * FROM game_sessions WHERE user_id = ? AND is_active = TRUE ORDER BY id DESC LIMIT 1',
+      [userId]
+    );
+    return rows.length > 0 ? this.toPlaySession(rows[0]) : null;
+  }
+
+  /**
+   * Clear a pending reality check; the next one falls due one interval from now
+   */
+  static async acknowledge(userId: number): Promise<boolean> {
+    const result = await executeQuery(
+      `UPDATE game_sessions SET reality_check_pending_since = NULL, last_reality_check_at = NOW()
+       WHERE user_id = ? AND is_active = TRUE AND reality_check_pending_since IS NOT NULL`,
+      [userId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  static async getIntervalMinutes(userId: number): Promise<number | null> {
+    const rows = await executeQuery('SELECT reality_check_minutes FROM users WHERE id = ?', [userId]);
+    return rows.length > 0 ? rows[0].reality_check_minutes : null;
+  }
+
+  /**
+   * Reality check interval in minutes; null turns reality checks off
+   */
+  static async setIntervalMinutes(userId: number, minutes: number | null): Promise<void> {
+    await executeQuery('UPDATE users SET reality_check_minutes = ? WHERE id = ?', [minutes, userId]);
+  }
+
+  private static async tick(): Promise<void> {
+    // A long enough break ends the session, and with it any unanswered check
+    await executeQuery(
+      `UPDATE game_sessions gs
+       SET gs.is_active = FALSE, gs.ended_at = gs.last_activity_at, gs.reality_check_pending_since = NULL
+       WHERE gs.is_active = TRUE
+         AND gs.last_activity_at < DATE_SUB(NOW(), INTERVAL ${IDLE_MINUTES} MINUTE)
+         AND NOT EXISTS (SELECT 1 FROM poker_seats ps WHERE ps.user_id = gs.user_id AND ps.is_active = TRUE)`
+    );
+
+    const due = await executeQuery(
+      `SELECT gs.* FROM game_sessions gs
+       JOIN users u ON u.id = gs.user_id
+       WHERE gs.is_active = TRUE
+         AND gs.reality_check_pending_since IS NULL
+         AND u.reality_check_minutes IS NOT NULL
+         AND COALESCE(gs.last_reality_check_at, gs.started_at) <= DATE_SUB(NOW(), INTERVAL u.reality_check_minutes MINUTE)`
+    );
+
+    for (const row of due) {
+      const claimed = await executeQuery(
+        `UPDATE game_sessions SET reality_check_pending_since = NOW()
+         WHERE id = ? AND reality_check_pending_since IS NULL`,
+        [row.id]
+      );
+      if (claimed.affectedRows > 0) {
+        this.io?.to(`user_${row.user_id}`).emit('reality:check', this.toPlaySession({ ...row, reality_check_pending_since: new Date() }));
+      }
+    }
+  }
+
+  private static toPlaySession(row: any): PlaySession {
+    const totalBet = parseFloat(row.total_bet);
+    const totalWon = parseFloat(row.total_won);
+    return {
+      id: row.id,
+      startedAt: new Date(row.started_at).toISOString(),
+      minutesPlayed: Math.floor((Date.now() - new Date(row.started_at).getTime()) / 60000),
+      totalBet,
+      totalWon,
+      net: round2(totalWon - totalBet),
+      realityCheckPending: !!row.reality_check_pending_since
+    };
+  }
+}
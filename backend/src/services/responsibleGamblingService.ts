@@ -0,0 +1,343 @@
+/**
+ * Responsible Gambling Service
+ * Player-set caps on deposits, wagers and net losses over rolling day/week/month windows, and
+ * on how long a signed-in session lasts. Tightening a limit applies at once; loosening or
+ * removing one waits out a cooling-off period first, so a limit cannot be lifted on tilt.
+ * Players can also step away altogether with a short cool-off or a self-exclusion, which
+ * blocks login and all play until it ends (or for good) and cannot be cut short.
+ * The wallet calls checkEntry under the user's row lock, so every deposit and stake is
+ * covered whichever route or game it comes from.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery } from '../config/database';
+import { SessionInfo, TokenService } from './tokenService';
+import { RealityCheckService } from './realityCheckService';
+
+export type LimitType = 'deposit' | 'wager' | 'loss' | 'session';
+export type LimitPeriod = 'day' | 'week' | 'month' | 'session';
+
+export interface GamblingLimit {
+  type: LimitType;
+  period: LimitPeriod;
+  amount: number | null; // Balance units, or minutes for session limits
+  used: number | null; // So far in the current window or session
+  remaining: number | null;
+  pending: { amount: number | null; effectiveAt: string } | null; // Loosening waiting out the cooling-off
+}
+
+export interface LimitChange {
+  limit: GamblingLimit;
+  appliedImmediately: boolean;
+  endedSessions: string[]; // Sessions already past a lowered session limit
+}
+
+export type ExclusionType = 'cool_off' | 'self_exclusion';
+
+export interface Exclusion {
+  type: ExclusionType;
+  startsAt: string;
+  endsAt: string | null; // null for a permanent self-exclusion
+}
+
+export class LimitError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'LimitError';
+  }
+}
+
+export const LIMIT_TYPES: LimitType[] = ['deposit', 'wager', 'loss', 'session'];
+export const LIMIT_PERIODS: LimitPeriod[] = ['day', 'week', 'month', 'session'];
+
+// Breaks a player can choose, as SQL intervals; null never ends
+export const EXCLUSION_DURATIONS: Record<ExclusionType, Record<string, string | null>> = {
+  cool_off: {
+    '24h': 'INTERVAL 24 HOUR',
+    '7d': 'INTERVAL 7 DAY',
+    '30d': 'INTERVAL 30 DAY'
+  },
+  self_exclusion: {
+    '6m': 'INTERVAL 6 MONTH',
+    '1y': 'INTERVAL 1 YEAR',
+    '5y': 'INTERVAL 5 YEAR',
+    permanent: null
+  }
+};
+
+const COOLING_OFF_HOURS = 24;
+
+const WINDOWS: Record<string, string> = {
+  day: 'INTERVAL 1 DAY',
+  week: 'INTERVAL 7 DAY',
+  month: 'INTERVAL 30 DAY'
+};
+
+const PERIOD_NAMES: Record<string, string> = { day: 'daily', week: 'weekly', month: 'monthly' };
+
+interface Usage {
+  deposit: number;
+  wager: number;
+  loss: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Entries that count against each limit; buy-ins are stakes until cashed out
+const STAKE_TYPES = ['bet', 'buy_in'];
+const RESULT_TYPES = ['bet', 'win', 'refund', 'buy_in', 'cash_out'];
+
+export class ResponsibleGamblingService {
+
+  /**
+   * The user's limits with usage and headroom. Pass the current session to get the time left in it.
+   */
+  static async getLimits(userId: number, currentSession: SessionInfo | null = null): Promise<GamblingLimit[]> {
+    const rows = await this.loadLimits(null, userId);
+    const usage: Record<string, Usage> = {};
+
+    const limits: GamblingLimit[] = [];
+    for (const row of rows) {
+      const amount = row.amount === null ? null : parseFloat(row.amount);
+      const pending = row.pending_effective_at
+        ? {
+          amount: row.pending_amount === null ? null : parseFloat(row.pending_amount),
+          effectiveAt: new Date(row.pending_effective_at).toISOString()
+        }
+        : null;
+      if (amount === null && !pending) {
+        continue;
+      }
+
+      let used: number | null = null;
+      if (row.limit_type === 'session') {
+        if (currentSession) {
+          used = Math.floor((Date.now() - new Date(currentSession.createdAt).getTime()) / 60000);
+        }
+      } else {
+        usage[row.period] = usage[row.period] || await this.usage(null, userId, row.period);
+        used = usage[row.period][row.limit_type as keyof Usage];
+      }
+
+      limits.push({
+        type: row.limit_type,
+        period: row.period,
+        amount,
+        used,
+        remaining: amount === null || used === null ? null : Math.max(0, round2(amount - used)),
+        pending
+      });
+    }
+
+    return limits;
+  }
+
+  /**
+   * Set, lower, raise or remove (amount null) a limit. Lowering applies now; raising or
+   * removing is scheduled for after the cooling-off period.
+   */
+  static async setLimit(userId: number, type: LimitType, period: LimitPeriod, amount: number | null): Promise<LimitChange> {
+    if ((type === 'session') !== (period === 'session')) {
+      throw new LimitError(type === 'session'
+        ? 'Session limits use the session period'
+        : 'Deposit, wager and loss limits are daily, weekly or monthly');
+    }
+
+    const existing = (await this.loadLimits(null, userId))
+      .find(row => row.limit_type === type && row.period === period);
+    const current = existing && existing.amount !== null ? parseFloat(existing.amount) : null;
+
+    // Setting the current value again also cancels a pending change
+    const tightens = amount !== null && (current === null || amount <= current);
+    if (amount === null && current === null) {
+      await executeQuery(
+        'DELETE FROM responsible_gambling_limits WHERE user_id = ? AND limit_type = ? AND period = ?',
+        [userId, type, period]
+      );
+    } else if (tightens) {
+      await executeQuery(
+        `INSERT INTO responsible_gambling_limits (user_id, limit_type, period, amount)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE amount = VALUES(amount), pending_amount = NULL, pending_effective_at = NULL`,
+        [userId, type, period, amount]
+      );
+    } else {
+      await executeQuery(
+        `INSERT INTO responsible_gambling_limits (user_id, limit_type, period, amount, pending_amount, pending_effective_at)
+         VALUES (?, ?, ?, NULL, ?, DATE_ADD(NOW(), INTERVAL ${COOLING_OFF_HOURS} HOUR))
+         ON DUPLICATE KEY UPDATE pending_amount = VALUES(pending_amount),
+           pending_effective_at = VALUES(pending_effective_at)`,
+        [userId, type, period, amount]
+      );
+    }
+
+    const endedSessions = tightens && type === 'session' && amount !== null
+      ? await TokenService.limitSessionDuration(userId, amount)
+      : [];
+
+    const limit = (await this.getLimits(userId)).find(l => l.type === type && l.period === period) || {
+      type, period, amount: null, used: null, remaining: null, pending: null
+    };
+    return { limit, appliedImmediately: tightens || current === null, endedSessions };
+  }
+
+  /**
+   * The session limit in minutes to give a new session, if the user has one
+   */
+  static async sessionLimitMinutes(userId: number): Promise<number | null> {
+    const row = (await this.loadLimits(null, userId)).find(r => r.limit_type === 'session');
+    return row && row.amount !== null ? parseFloat(row.amount) : null;
+  }
+
+  /**
+   * The cool-off or self-exclusion in force, the longest if several overlap
+   */
+  static async getActiveExclusion(userId: number, connection: PoolConnection | null = null): Promise<Exclusion | null> {
+    const rows = await this.query(connection,
+      `SELECT exclusion_type, starts_at, ends_at FROM user_exclusions
+       WHERE user_id = ? AND starts_at <= NOW() AND (ends_at IS NULL OR ends_at > NOW())
+       ORDER BY ends_at IS NULL DESC, ends_at DESC LIMIT 1`,
+      [userId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      type: rows[0].exclusion_type,
+      startsAt: new Date(rows[0].starts_at).toISOString(),
+      endsAt: rows[0].ends_at ? new Date(rows[0].ends_at).toISOString() : null
+    };
+  }
+
+  /**
+   * Start a cool-off or self-exclusion now and sign the user out everywhere. It cannot be
+   * shortened; one already running is only replaced by whichever lasts longer.
+   */
+  static async startExclusion(userId: number, type: ExclusionType, duration: string): Promise<Exclusion> {
+    if (!(duration in EXCLUSION_DURATIONS[type])) {
+      throw new LimitError(`Choose one of ${Object.keys(EXCLUSION_DURATIONS[type]).join(', ')}`);
+    }
+
+    const interval = EXCLUSION_DURATIONS[type][duration];
+    await executeQuery(
+      `INSERT INTO user_exclusions (user_id, exclusion_type, starts_at, ends_at)
+       VALUES (?, ?, NOW(), ${interval ? `DATE_ADD(NOW(), ${interval})` : 'NULL'})`,
+      [userId, type]
+    );
+
+    await TokenService.revokeAllSessions(userId);
+
+    return (await this.getActiveExclusion(userId))!;
+  }
+
+  /**
+   * What to tell an excluded player who tries to sign in or play
+   */
+  static exclusionMessage(exclusion: Exclusion): string {
+    if (!exclusion.endsAt) {
+      return 'This account is permanently self-excluded';
+    }
+
+    const until = exclusion.endsAt.slice(0, 16).replace('T', ' ');
+    return exclusion.type === 'cool_off'
+      ? `This account is taking a break until ${until} UTC`
+      : `This account is self-excluded until ${until} UTC`;
+  }
+
+  /**
+   * Why a wallet entry would break one of the user's limits, or null if it is allowed.
+   * Deposits count against deposit limits; stakes (negative bets and buy-ins) against wager
+   * and loss limits, where the whole stake is assumed lost. Nothing goes through during an
+   * exclusion, and no stake while a reality check waits to be acknowledged.
+   */
+  static async checkEntry(
+    connection: PoolConnection | null,
+    userId: number,
+    entry: { type: string; amount: number }
+  ): Promise<string | null> {
+    const isDeposit = entry.type === 'deposit' && entry.amount > 0;
+    const isStake = STAKE_TYPES.includes(entry.type) && entry.amount < 0;
+    if (!isDeposit && !isStake) {
+      return null;
+    }
+
+    const exclusion = await this.getActiveExclusion(userId, connection);
+    if (exclusion) {
+      return this.exclusionMessage(exclusion);
+    }
+
+    if (isStake && await RealityCheckService.isPending(connection, userId)) {
+      return 'Please acknowledge your reality check before placing another bet';
+    }
+
+    const value = Math.abs(entry.amount);
+    const rows = (await this.loadLimits(connection, userId))
+      .filter(row => row.amount !== null && (isDeposit ? row.limit_type === 'deposit' : ['wager', 'loss'].includes(row.limit_type)));
+
+    const usage: Record<string, Usage> = {};
+    for (const row of rows) {
+      usage[row.period] = usage[row.period] || await this.usage(connection, userId, row.period);
+      const used = usage[row.period][row.limit_type as keyof Usage];
+      const limit = parseFloat(row.amount);
+
+      if (round2(used + value) > limit) {
+        const left = Math.max(0, round2(limit - used));
+        return `This would exceed your ${PERIOD_NAMES[row.period]} ${row.limit_type} limit of $${limit.toFixed(2)} ` +
+          `($${left.toFixed(2)} left)`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Limits with any pending change whose cooling-off has passed applied first
+   */
+  private static async loadLimits(connection: PoolConnection | null, userId: number): Promise<any[]> {
+    await this.query(connection,
+      `UPDATE responsible_gambling_limits
+       SET amount = pending_amount, pending_amount = NULL, pending_effective_at = NULL
+       WHERE user_id = ? AND pending_effective_at IS NOT NULL AND pending_effective_at <= NOW()`,
+      [userId]
+    );
+
+    return this.query(connection,
+      `SELECT limit_type, period, amount, pending_amount, pending_effective_at
+       FROM responsible_gambling_limits WHERE user_id = ?
+       ORDER BY FIELD(limit_type, 'deposit', 'wager', 'loss', 'session'), FIELD(period, 'day', 'week', 'month', 'session')`,
+      [userId]
+    );
+  }
+
+  /**
+   * Deposits, stakes and net loss over a rolling window
+   */
+  private static async usage(connection: PoolConnection | null, userId: number, period: LimitPeriod): Promise<Usage> {
+    const stakeTypes = STAKE_TYPES.map(type => `'${type}'`).join(', ');
+    const resultTypes = RESULT_TYPES.map(type => `'${type}'`).join(', ');
+
+    const rows = await this.query(connection,
+      `SELECT
+         COALESCE(SUM(CASE WHEN type = 'deposit' THEN amount ELSE 0 END), 0) AS deposited,
+         COALESCE(SUM(CASE WHEN type IN (${stakeTypes}) THEN -amount ELSE 0 END), 0) AS wagered,
+         COALESCE(SUM(CASE WHEN type IN (${resultTypes}) THEN -amount ELSE 0 END), 0) AS lost
+       FROM transactions
+       WHERE user_id = ? AND created_at >= DATE_SUB(NOW(), ${WINDOWS[period]})`,
+      [userId]
+    );
+
+    return {
+      deposit: round2(parseFloat(rows[0].deposited)),
+      wager: round2(parseFloat(rows[0].wagered)),
+      loss: Math.max(0, round2(parseFloat(rows[0].lost)))
+    };
+  }
+
+  private static async query(connection: PoolConnection | null, query: string, params: any[]): Promise<any> {
+    if (connection) {
+      const [rows] = await connection.execute(query, params);
+      return rows;
+    }
+    return executeQuery(query, params);
+  }
+}
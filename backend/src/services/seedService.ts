@@ -0,0 +1,208 @@
+/**
+ * Provably Fair Seed Service
+ * Manages the commit-reveal lifecycle of each user's server/client seed pair
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery, withTransaction } from '../config/database';
+import { ProvablyFairEngine } from './gameEngine';
+
+export interface ActiveSeed {
+  id: number;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: Date;
+}
+
+export interface RevealedSeed extends ActiveSeed {
+  serverSeed: string;
+  revealedAt: Date;
+}
+
+export interface SeedRoll {
+  seedId: number;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export class SeedService {
+
+  /**
+   * Get the user's active seed pair, creating one if they have none yet
+   */
+  static async getActiveSeed(userId: number): Promise<ActiveSeed> {
+    const seed = await this.findActiveSeed(userId);
+    if (seed) {
+      return this.toActiveSeed(seed);
+    }
+
+    await this.createSeed(userId, ProvablyFairEngine.generateClientSeed());
+    return this.toActiveSeed(await this.findActiveSeed(userId));
+  }
+
+  /**
+   * Replace the client seed of the active pair.
+   * The nonce keeps counting so a (server, client, nonce) triple can never repeat,
+   * even if the player switches back to a client seed they used before.
+   */
+  static async setClientSeed(userId: number, clientSeed: string): Promise<ActiveSeed> {
+    await this.getActiveSeed(userId);
+
+    await executeQuery(
+      'UPDATE user_seeds SET client_seed = ? WHERE user_id = ? AND is_active = TRUE',
+      [clientSeed, userId]
+    );
+
+    return this.getActiveSeed(userId);
+  }
+
+  /**
+   * Reveal the active server seed and commit to a fresh one.
+   * The client seed carries over unless a new one is supplied. The pair is locked throughout, so
+   * concurrent rotations and rolls queue up behind each other; `check` runs under that lock and
+   * can refuse the rotation by throwing.
+   */
+  static async rotateSeed(
+    userId: number,
+    clientSeed?: string,
+    check?: (connection: PoolConnection) => Promise<void>
+  ): Promise<{ previous: RevealedSeed; active: ActiveSeed }> {
+    await this.getActiveSeed(userId);
+
+    const serverSeed = ProvablyFairEngine.generateServerSeed();
+    const previousId = await withTransaction(async (connection) => {
+      const current = await this.lockActiveSeed(connection, userId);
+      if (check) {
+        await check(connection);
+      }
+
+      await connection.execute(
+        'UPDATE user_seeds SET is_active = FALSE, revealed_at = NOW() WHERE id = ?',
+        [current.id]
+      );
+      await connection.execute(
+        `INSERT INTO user_seeds (user_id, server_seed, server_seed_hash, client_seed)
+         VALUES (?, ?, ?, ?)`,
+        [userId, serverSeed, ProvablyFairEngine.hashServerSeed(serverSeed), clientSeed || current.client_seed]
+      );
+
+      return current.id;
+    });
+
+    const revealed = await executeQuery(
+      'SELECT * FROM user_seeds WHERE id = ?',
+      [previousId]
+    );
+
+    return {
+      previous: {
+        ...this.toActiveSeed(revealed[0]),
+        serverSeed: revealed[0].server_seed,
+        revealedAt: revealed[0].revealed_at
+      },
+      active: await this.getActiveSeed(userId)
+    };
+  }
+
+  /**
+   * Reserve the next nonce on the user's active seed pair for a single bet.
+   * The pair is locked while the nonce is taken, so a concurrent client seed change or
+   * rotation lands either wholly before or wholly after this roll.
+   */
+  static async nextRoll(userId: number): Promise<SeedRoll> {
+    await this.getActiveSeed(userId);
+
+    return withTransaction(connection => this.reserveRoll(connection, userId));
+  }
+
+  /**
+   * Reserve the next nonce inside the caller's transaction, which keeps the pair locked until it
+   * ends. The user must already have an active pair.
+   */
+  static async reserveRoll(connection: PoolConnection, userId: number): Promise<SeedRoll> {
+    const seed = await this.lockActiveSeed(connection, userId);
+
+    await connection.execute(
+      'UPDATE user_seeds SET nonce = nonce + 1 WHERE id = ?',
+      [seed.id]
+    );
+
+    return {
+      seedId: seed.id,
+      serverSeed: seed.server_seed,
+      serverSeedHash: seed.server_seed_hash,
+      clientSeed: seed.client_seed,
+      nonce: seed.nonce
+    };
+  }
+
+  /**
+   * Get previously revealed seed pairs for a user
+   */
+  static async getRevealedSeeds(userId: number, limit: number = 10): Promise<RevealedSeed[]> {
+    const seeds = await executeQuery(
+      `SELECT * FROM user_seeds
+       WHERE user_id = ? AND is_active = FALSE
+       ORDER BY revealed_at DESC
+       LIMIT ?`,
+      [userId, limit]
+    );
+
+    return seeds.map((seed: any) => ({
+      ...this.toActiveSeed(seed),
+      serverSeed: seed.server_seed,
+      revealedAt: seed.revealed_at
+    }));
+  }
+
+  private static async findActiveSeed(userId: number): Promise<any | null> {
+    const seeds = await executeQuery(
+      'SELECT * FROM user_seeds WHERE user_id = ? AND is_active = TRUE',
+      [userId]
+    );
+
+    return seeds.length > 0 ? seeds[0] : null;
+  }
+
+  /**
+   * Lock the active pair through its unique key. A rotation that committed while this waited has
+   * replaced the pair; the locking read sees the latest rows, so looking again finds the new one.
+   */
+  private static async lockActiveSeed(connection: PoolConnection, userId: number): Promise<any> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const [seeds]: any = await connection.execute(
+        'SELECT * FROM user_seeds WHERE active_user_id = ? FOR UPDATE',
+        [userId]
+      );
+      if (seeds.length > 0) {
+        return seeds[0];
+      }
+    }
+
+    throw new Error('No active seed pair to lock');
+  }
+
+  private static async createSeed(userId: number, clientSeed: string): Promise<void> {
+    const serverSeed = ProvablyFairEngine.generateServerSeed();
+
+    // IGNORE: a concurrent request may have created the active pair first
+    await executeQuery(
+      `INSERT IGNORE INTO user_seeds (user_id, server_seed, server_seed_hash, client_seed)
+       VALUES (?, ?, ?, ?)`,
+      [userId, serverSeed, ProvablyFairEngine.hashServerSeed(serverSeed), clientSeed]
+    );
+  }
+
+  private static toActiveSeed(seed: any): ActiveSeed {
+    return {
+      id: seed.id,
+      serverSeedHash: seed.server_seed_hash,
+      clientSeed: seed.client_seed,
+      nonce: seed.nonce,
+      createdAt: seed.created_at
+    };
+  }
+}
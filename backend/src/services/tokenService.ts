@@ -0,0 +1,375 @@
+/**
+ * Token Service
+ * Short-lived JWT access tokens backed by server-side sessions in Redis. Each login opens a
+ * session holding the hash of a rotating refresh token; the session id travels in the
+ * access token as `sid`, so deleting the session revokes both tokens at once.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { WatchError } from 'redis';
+import { executeQuery } from '../config/database';
+import { getRedisClient } from '../config/redis';
+import { UserRole } from '../middleware/auth';
+
+export interface AccessTokenPayload {
+  id: number;
+  username: string;
+  email: string;
+  role: UserRole;
+  sid: string;
+  mfa: boolean; // Session was opened with a second factor
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+export interface SessionMeta {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  endsAt: string | null; // Set by a session time limit
+}
+
+interface StoredSession {
+  userId: number;
+  mfa: boolean;
+  refreshHash: string;
+  previousHash: string | null; // Refresh token replaced by the last rotation
+  rotatedAt: number | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  endsAt: number | null; // Epoch ms; a session time limit ends the session here
+}
+
+export class TokenError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+const ACCESS_TOKEN_TTL = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'); // 15 minutes
+const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60;
+
+// A second refresh with the token just rotated away (e.g. two tabs racing) is rejected
+// without revoking the session; any later reuse is treated as theft.
+const ROTATION_GRACE_MS = 10000;
+
+const sessionKey = (sessionId: string) => `auth:session:${sessionId}`;
+const userSessionsKey = (userId: number) => `auth:user_sessions:${userId}`;
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// Idle lifetime, cut short by the session's time limit; Redis drops the session at the deadline
+const sessionTtl = (session: StoredSession): number => session.endsAt === null
+  ? REFRESH_TOKEN_TTL
+  : Math.max(1, Math.min(REFRESH_TOKEN_TTL, Math.ceil((session.endsAt - Date.now()) / 1000)));
+
+let warnedAboutSecret = false;
+
+export class TokenService {
+
+  /**
+   * Signing key for access tokens. Production refuses to run without JWT_SECRET.
+   */
+  static jwtSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (secret) {
+      return secret;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET must be set in production');
+    }
+    if (!warnedAboutSecret) {
+      console.warn('⚠️ JWT_SECRET is not set; using an insecure development key');
+      warnedAboutSecret = true;
+    }
+    return 'dev-insecure-jwt-secret';
+  }
+
+  /**
+   * Open a session for a user who just authenticated. `limitMinutes` is the user's session
+   * time limit, if any.
+   */
+  static async createSession(
+    user: Omit<AccessTokenPayload, 'sid' | 'mfa'>,
+    meta: SessionMeta,
+    mfa = false,
+    limitMinutes: number | null = null
+  ): Promise<TokenPair> {
+    const sessionId = crypto.randomUUID();
+    const secret = crypto.randomBytes(32).toString('hex');
+    const now = new Date().toISOString();
+
+    const session: StoredSession = {
+      userId: user.id,
+      mfa,
+      refreshHash: hashSecret(secret),
+      previousHash: null,
+      rotatedAt: null,
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      createdAt: now,
+      lastUsedAt: now,
+      endsAt: limitMinutes === null ? null : Date.now() + limitMinutes * 60 * 1000
+    };
+
+    const redis = getRedisClient();
+    await redis.multi()
+      .set(sessionKey(sessionId), JSON.stringify(session), { EX: sessionTtl(session) })
+      .sAdd(userSessionsKey(user.id), sessionId)
+      .exec();
+
+    return {
+      token: this.signAccessToken({ ...user, sid: sessionId, mfa }),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn: ACCESS_TOKEN_TTL
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. The old refresh token stops working, and the
+   * user is reloaded so role changes and deactivation take effect.
+   */
+  static async refresh(refreshToken: string, meta: SessionMeta): Promise<TokenPair & { user: any }> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    const presentedHash = hashSecret(secret);
+    const nextSecret = crypto.randomBytes(32).toString('hex');
+    const redis = getRedisClient();
+
+    const session = await redis.executeIsolated(async (isolated) => {
+      await isolated.watch(sessionKey(sessionId));
+      const raw = await isolated.get(sessionKey(sessionId));
+      if (!raw) {
+        await isolated.unwatch();
+        throw new TokenError('Session expired or signed out');
+      }
+
+      const stored: StoredSession = JSON.parse(raw);
+      if (stored.refreshHash !== presentedHash) {
+        await isolated.unwatch();
+        const withinGrace = stored.previousHash === presentedHash &&
+          stored.rotatedAt !== null && Date.now() - stored.rotatedAt < ROTATION_GRACE_MS;
+        if (!withinGrace) {
+          await this.revokeSession(stored.userId, sessionId);
+          throw new TokenError('Refresh token reuse detected; session revoked');
+        }
+        throw new TokenError('Refresh token was already used');
+      }
+
+      const updated: StoredSession = {
+        endsAt: null, // Sessions stored before time limits existed
+        ...stored,
+        refreshHash: hashSecret(nextSecret),
+        previousHash: presentedHash,
+        rotatedAt: Date.now(),
+        userAgent: meta.userAgent ?? stored.userAgent,
+        ipAddress: meta.ipAddress ?? stored.ipAddress,
+        lastUsedAt: new Date().toISOString()
+      };
+
+      try {
+        await isolated.multi()
+          .set(sessionKey(sessionId), JSON.stringify(updated), { EX: sessionTtl(updated) })
+          .exec();
+      } catch (error) {
+        if (error instanceof WatchError) {
+          throw new TokenError('Refresh token was already used');
+        }
+        throw error;
+      }
+
+      return updated;
+    });
+
+    const users = await executeQuery(
+      'SELECT id, username, email, role, balance FROM users WHERE id = ? AND is_active = TRUE',
+      [session.userId]
+    );
+    if (users.length === 0) {
+      await this.revokeSession(session.userId, sessionId);
+      throw new TokenError('Account is no longer active');
+    }
+
+    const user = users[0];
+    return {
+      token: this.signAccessToken({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        sid: sessionId,
+        mfa: !!session.mfa
+      }),
+      refreshToken: `${sessionId}.${nextSecret}`,
+      expiresIn: ACCESS_TOKEN_TTL,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        balance: parseFloat(user.balance)
+      }
+    };
+  }
+
+  /**
+   * Verify an access token's signature and expiry, then check its session still exists
+   */
+  static async verifyAccessToken(token: string): Promise<AccessTokenPayload> {
+    let payload: AccessTokenPayload;
+    try {
+      payload = jwt.verify(token, this.jwtSecret()) as AccessTokenPayload;
+    } catch (error) {
+      throw new TokenError('Invalid or expired token');
+    }
+
+    if (!payload.sid || !(await this.isSessionActive(payload.sid))) {
+      throw new TokenError('Session expired or signed out');
+    }
+    return payload;
+  }
+
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    return (await getRedisClient().exists(sessionKey(sessionId))) === 1;
+  }
+
+  /**
+   * Session id behind a refresh token, if the token is still the current one for it
+   */
+  static async sessionForRefreshToken(refreshToken: string): Promise<{ sessionId: string; userId: number } | null> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    const raw = await getRedisClient().get(sessionKey(sessionId));
+    if (!raw) {
+      return null;
+    }
+
+    const stored: StoredSession = JSON.parse(raw);
+    return stored.refreshHash === hashSecret(secret) ? { sessionId, userId: stored.userId } : null;
+  }
+
+  /**
+   * A user's live sessions, most recently used first
+   */
+  static async listSessions(userId: number): Promise<SessionInfo[]> {
+    const redis = getRedisClient();
+    const sessionIds = await redis.sMembers(userSessionsKey(userId));
+    const sessions: SessionInfo[] = [];
+
+    for (const sessionId of sessionIds) {
+      const raw = await redis.get(sessionKey(sessionId));
+      if (!raw) {
+        // Expired on its own; drop it from the index
+        await redis.sRem(userSessionsKey(userId), sessionId);
+        continue;
+      }
+
+      const stored: StoredSession = JSON.parse(raw);
+      sessions.push({
+        id: sessionId,
+        userAgent: stored.userAgent,
+        ipAddress: stored.ipAddress,
+        createdAt: stored.createdAt,
+        lastUsedAt: stored.lastUsedAt,
+        endsAt: stored.endsAt ? new Date(stored.endsAt).toISOString() : null
+      });
+    }
+
+    return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Apply a lowered session time limit to a user's open sessions. Sessions already past the
+   * new limit end; returns their ids.
+   */
+  static async limitSessionDuration(userId: number, limitMinutes: number): Promise<string[]> {
+    const redis = getRedisClient();
+    const sessionIds = await redis.sMembers(userSessionsKey(userId));
+    const ended: string[] = [];
+
+    for (const sessionId of sessionIds) {
+      const raw = await redis.get(sessionKey(sessionId));
+      if (!raw) {
+        continue;
+      }
+
+      const stored: StoredSession = JSON.parse(raw);
+      const deadline = new Date(stored.createdAt).getTime() + limitMinutes * 60 * 1000;
+      if (stored.endsAt && stored.endsAt <= deadline) {
+        continue;
+      }
+
+      if (deadline <= Date.now()) {
+        await this.revokeSession(userId, sessionId);
+        ended.push(sessionId);
+        continue;
+      }
+
+      const updated: StoredSession = { ...stored, endsAt: deadline };
+      await redis.set(sessionKey(sessionId), JSON.stringify(updated), { EX: sessionTtl(updated) });
+    }
+
+    return ended;
+  }
+
+  /**
+   * End one of a user's sessions. Returns false if it did not belong to them.
+   */
+  static async revokeSession(userId: number, sessionId: string): Promise<boolean> {
+    const redis = getRedisClient();
+    const removed = await redis.sRem(userSessionsKey(userId), sessionId);
+    await redis.del(sessionKey(sessionId));
+    return removed > 0;
+  }
+
+  /**
+   * End every session of a user ("sign out all devices")
+   */
+  static async revokeAllSessions(userId: number): Promise<number> {
+    const redis = getRedisClient();
+    const sessionIds = await redis.sMembers(userSessionsKey(userId));
+    if (sessionIds.length > 0) {
+      await redis.del(sessionIds.map(sessionKey));
+    }
+    await redis.del(userSessionsKey(userId));
+    return sessionIds.length;
+  }
+
+  /**
+   * End every session of a user except one; returns the ids that were ended
+   */
+  static async revokeOtherSessions(userId: number, keepSessionId: string): Promise<string[]> {
+    const redis = getRedisClient();
+    const sessionIds = (await redis.sMembers(userSessionsKey(userId))).filter(id => id !== keepSessionId);
+    if (sessionIds.length > 0) {
+      await redis.del(sessionIds.map(sessionKey));
+      await redis.sRem(userSessionsKey(userId), sessionIds);
+    }
+    return sessionIds;
+  }
+
+  private static signAccessToken(payload: AccessTokenPayload): string {
+    return jwt.sign(payload, this.jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+  }
+
+  private static parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret) {
+      throw new TokenError('Malformed refresh token');
+    }
+    return { sessionId, secret };
+  }
+}
@@ -0,0 +1,928 @@
+/**
+ * Tournament Service
+ * Sit & Gos and scheduled multi-table tournaments on poker_tournaments. Registering pays the
+ * buy-in into the tournament's escrow and the entry fee to the house. A Sit & Go starts when its
+ * last seat is taken, a scheduled tournament at starts_at; either way the field is dealt across as
+ * many tables as it needs, with starting chips that are tournament chips only. A clock starts
+ * scheduled tournaments and raises the blinds per blind_structure. Every completed hand records
+ * who busted and in which place and rebalances the tables, and the last player standing triggers
+ * the payout per prize_structure.
+ */
+
+import crypto from 'crypto';
+import { PoolConnection } from 'mysql2/promise';
+import { Server } from 'socket.io';
+import { executeQuery, withTransaction } from '../config/database';
+import { LedgerService } from './ledgerService';
+import { WalletEntry, WalletService } from './walletService';
+import { TableState } from './pokerTableEngine';
+import { LeaderLease } from './leaderLease';
+import PokerGameManager from '../socket/pokerHandler';
+
+export type TournamentType = 'sit_n_go' | 'scheduled';
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  minutes: number;
+}
+
+export interface TournamentSummary {
+  id: number;
+  name: string;
+  type: TournamentType;
+  status: 'registering' | 'running' | 'finished' | 'cancelled';
+  buyIn: number;
+  entryFee: number;
+  startingChips: number;
+  maxPlayers: number; // Largest field
+  tableSize: number;
+  registered: number;
+  playersLeft: number;
+  isRegistered: boolean;
+  prizePool: number;
+  prizeStructure: number[]; // Percent of the prize pool by place, 1st first
+  blindStructure: BlindLevel[];
+  blindLevel: number; // Index into blindStructure
+  levelStartedAt: string | null;
+  lateRegistrationLevels: number;
+  lateRegistrationOpen: boolean;
+  tableId: number | null; // Your table while you are still in
+  startsAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface TournamentPlayer {
+  userId: number;
+  username: string;
+  chips: number;
+  tableId: number | null;
+  seatPosition: number | null;
+  positionFinished: number | null;
+  prizeWon: number;
+  eliminatedAt: string | null;
+}
+
+export interface TournamentLobby extends TournamentSummary {
+  averageStack: number;
+  currentLevel: (BlindLevel & { level: number }) | null;
+  nextLevel: (BlindLevel & { level: number }) | null;
+  payouts: Array<{ place: number; amount: number }>;
+  tables: Array<{ tableId: number; name: string; players: number }>;
+  players: TournamentPlayer[];
+}
+
+export interface ScheduledTournamentInput {
+  name: string;
+  buyIn: number;
+  entryFee: number;
+  startingChips: number;
+  maxPlayers: number;
+  minPlayers: number;
+  tableSize: number;
+  startsAt: Date;
+  lateRegistrationLevels: number;
+  blindStructure: BlindLevel[];
+  prizeStructure: number[];
+}
+
+export interface TournamentPrize {
+  userId: number;
+  position: number;
+  amount: number;
+}
+
+interface TournamentSeat {
+  userId: number;
+  tableId: number;
+  seatPosition: number;
+}
+
+interface TableMove extends TournamentSeat {
+  fromTableId: number;
+}
+
+interface TableOccupancy {
+  tableId: number;
+  seats: Array<{ userId: number; seatPosition: number; chips: number }>;
+}
+
+export class TournamentError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'TournamentError';
+  }
+}
+
+const CLOCK_TICK_MS = 5000;
+
+export class TournamentService {
+  private static io: Server | null = null;
+  private static pokerManager: PokerGameManager | null = null;
+
+  /**
+   * Start the tournament clock; tournament tables are dealt through the poker manager
+   */
+  static initialize(socketIO: Server, pokerManager: PokerGameManager): void {
+    this.io = socketIO;
+    this.pokerManager = pokerManager;
+
+    setInterval(() => {
+      if (!LeaderLease.isLeader()) return;
+      this.tick().catch(error => console.error('Tournament clock error:', error));
+    }, CLOCK_TICK_MS);
+  }
+
+  /**
+   * Tournaments open for registration or in progress, soonest first
+   */
+  static async list(userId: number): Promise<TournamentSummary[]> {
+    const rows = await executeQuery(
+      `${SUMMARY_QUERY}
+       WHERE t.status IN ('registering', 'running')
+       GROUP BY t.id
+       ORDER BY t.status = 'running', t.tournament_type = 'scheduled', t.starts_at, t.buy_in, t.id`,
+      [userId, userId]
+    );
+
+    return rows.map(toSummary);
+  }
+
+  /**
+   * Lobby of one tournament: field, average stack, blinds, payouts, tables and players
+   */
+  static async get(userId: number, tournamentId: number): Promise<TournamentLobby> {
+    const rows = await executeQuery(
+      `${SUMMARY_QUERY}
+       WHERE t.id = ?
+       GROUP BY t.id`,
+      [userId, userId, tournamentId]
+    );
+    if (rows.length === 0) {
+      throw new TournamentError('Tournament not found', 404);
+    }
+    const summary = toSummary(rows[0]);
+
+    const [tables, players] = await Promise.all([
+      executeQuery(
+        `SELECT pt.id, pt.name, COUNT(ps.id) AS players
+         FROM poker_tables pt
+         LEFT JOIN poker_seats ps ON ps.table_id = pt.id AND ps.is_active = TRUE
+         WHERE pt.tournament_id = ? AND pt.is_active = TRUE
+         GROUP BY pt.id, pt.name
+         ORDER BY pt.id`,
+        [tournamentId]
+      ),
+      executeQuery(
+        `SELECT tp.user_id, u.username, tp.chips, tp.table_id, tp.seat_position, tp.position_finished,
+                tp.prize_won, tp.eliminated_at
+         FROM poker_tournament_players tp
+         JOIN users u ON u.id = tp.user_id
+         WHERE tp.tournament_id = ?
+         ORDER BY tp.position_finished IS NOT NULL, tp.position_finished, tp.chips DESC, tp.registered_at`,
+        [tournamentId]
+      )
+    ]);
+
+    const level = (index: number) => summary.blindStructure[index]
+      ? { level: index, ...summary.blindStructure[index] }
+      : null;
+
+    return {
+      ...summary,
+      // Chips never leave a tournament, so the average follows from the field
+      averageStack: summary.playersLeft > 0
+        ? Math.round(summary.startingChips * summary.registered / summary.playersLeft)
+        : summary.startingChips,
+      currentLevel: level(summary.blindLevel),
+      nextLevel: level(summary.blindLevel + 1),
+      payouts: splitPrizePool(summary.prizePool, summary.prizeStructure, summary.registered)
+        .map((amount, index) => ({ place: index + 1, amount })),
+      tables: tables.map((table: any) => ({
+        tableId: table.id,
+        name: table.name,
+        players: Number(table.players)
+      })),
+      players: players.map((player: any) => ({
+        userId: player.user_id,
+        username: player.username,
+        chips: parseFloat(player.chips),
+        tableId: player.table_id,
+        seatPosition: player.seat_position,
+        positionFinished: player.position_finished,
+        prizeWon: parseFloat(player.prize_won),
+        eliminatedAt: player.eliminated_at
+      }))
+    };
+  }
+
+  /**
+   * Put a multi-table tournament on the schedule
+   */
+  static async schedule(input: ScheduledTournamentInput): Promise<number> {
+    const result = await executeQuery(
+      `INSERT INTO poker_tournaments (
+         name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players, table_size,
+         blind_structure, late_registration_levels, prize_structure, status, starts_at
+       ) VALUES (?, 'scheduled', ?, ?, ?, ?, ?, ?, ?, ?, ?, 'registering', ?)`,
+      [
+        input.name, input.buyIn, input.entryFee, input.startingChips, input.maxPlayers, input.minPlayers,
+        input.tableSize, JSON.stringify(input.blindStructure), input.lateRegistrationLevels,
+        JSON.stringify(input.prizeStructure), input.startsAt
+      ]
+    );
+
+    return result.insertId;
+  }
+
+  /**
+   * Pay the buy-in and entry fee and take a place. The registration that fills a Sit & Go starts
+   * it in the same transaction; a late registration is seated straight away.
+   */
+  static async register(userId: number, tournamentId: number): Promise<{ balance: number; tableId: number | null }> {
+    const result = await withTransaction(async (connection) => {
+      const tournament = await this.lockTournament(connection, tournamentId);
+      const late = isLateRegistrationOpen(tournament);
+      if (tournament.status !== 'registering' && !late) {
+        throw new TournamentError('Registration for this tournament is closed', 409);
+      }
+
+      const [registered]: any = await connection.execute(
+        'SELECT user_id FROM poker_tournament_players WHERE tournament_id = ?',
+        [tournamentId]
+      );
+      if (registered.some((row: any) => row.user_id === userId)) {
+        throw new TournamentError('You are already registered for this tournament', 409);
+      }
+      if (registered.length >= tournament.max_players) {
+        throw new TournamentError('This tournament is full', 409);
+      }
+
+      const wallet = await WalletService.apply(connection, userId, buyInEntries(tournament));
+
+      await connection.execute(
+        'INSERT INTO poker_tournament_players (tournament_id, user_id, chips) VALUES (?, ?, ?)',
+        [tournamentId, userId, tournament.starting_chips]
+      );
+      await connection.execute(
+        'UPDATE poker_tournaments SET prize_pool = prize_pool + ? WHERE id = ?',
+        [tournament.buy_in, tournamentId]
+      );
+      await connection.execute('INSERT IGNORE INTO poker_player_stats (user_id) VALUES (?)', [userId]);
+
+      let seats: TournamentSeat[] = [];
+      if (late) {
+        seats = [await this.seatLateEntry(connection, tournament, userId)];
+      } else if (tournament.tournament_type === 'sit_n_go' && registered.length + 1 === tournament.max_players) {
+        seats = await this.start(connection, tournament, [...registered.map((row: any) => row.user_id), userId]);
+      }
+
+      return { balance: wallet.balance, seats };
+    });
+
+    this.seatsTaken(tournamentId, result.seats);
+
+    return {
+      balance: result.balance,
+      tableId: result.seats.find(seat => seat.userId === userId)?.tableId ?? null
+    };
+  }
+
+  /**
+   * Give up a place before the tournament starts, getting the buy-in and entry fee back
+   */
+  static async unregister(userId: number, tournamentId: number): Promise<{ balance: number }> {
+    return withTransaction(async (connection) => {
+      const tournament = await this.lockTournament(connection, tournamentId);
+      if (tournament.status !== 'registering') {
+        throw new TournamentError('The tournament has already started', 409);
+      }
+
+      const [removed]: any = await connection.execute(
+        'DELETE FROM poker_tournament_players WHERE tournament_id = ? AND user_id = ?',
+        [tournamentId, userId]
+      );
+      if (removed.affectedRows === 0) {
+        throw new TournamentError('You are not registered for this tournament', 404);
+      }
+
+      await connection.execute(
+        'UPDATE poker_tournaments SET prize_pool = prize_pool - ? WHERE id = ?',
+        [tournament.buy_in, tournamentId]
+      );
+      const wallet = await WalletService.apply(connection, userId, refundEntries(tournament));
+
+      return { balance: wallet.balance };
+    });
+  }
+
+  /**
+   * After a hand at a tournament table: place everyone at it who busted, rebalance the tables and
+   * pay out once one player is left. Players busting in the same hand finish in order of the
+   * stacks they started it with. The caller holds the table's lock; safe to call again for the
+   * same hand.
+   */
+  static async recordResults(tableId: number, state: TableState): Promise<void> {
+    const tables = await executeQuery('SELECT tournament_id FROM poker_tables WHERE id = ?', [tableId]);
+    const tournamentId: number | null = tables[0]?.tournament_id ?? null;
+    if (!tournamentId) return;
+
+    const outcome = await withTransaction(async (connection) => {
+      const tournament = await this.lockTournament(connection, tournamentId);
+      if (tournament.status !== 'running') return null;
+
+      const [remaining]: any = await connection.execute(
+        `SELECT tp.user_id, tp.table_id, ps.chips
+         FROM poker_tournament_players tp
+         LEFT JOIN poker_seats ps ON ps.table_id = tp.table_id AND ps.user_id = tp.user_id AND ps.is_active = TRUE
+         WHERE tp.tournament_id = ? AND tp.position_finished IS NULL`,
+        [tournamentId]
+      );
+
+      // Other tables may be mid-hand; only players at this one can have busted
+      const handStack = (userId: number) =>
+        state.seats.find(seat => seat.userId === userId)?.totalBetThisHand ?? 0;
+      const atTable = remaining.filter((player: any) => player.table_id === tableId);
+      const busted = atTable
+        .filter((player: any) => !(parseFloat(player.chips) > 0))
+        .sort((a: any, b: any) => handStack(a.user_id) - handStack(b.user_id));
+
+      const eliminated: Array<{ userId: number; position: number }> = [];
+      let position = remaining.length;
+      for (const player of busted) {
+        await connection.execute(
+          `UPDATE poker_tournament_players SET chips = 0, position_finished = ?, eliminated_at = NOW()
+           WHERE tournament_id = ? AND user_id = ?`,
+          [position, tournamentId, player.user_id]
+        );
+        await connection.execute(
+          'UPDATE poker_seats SET is_active = false, left_at = NOW() WHERE table_id = ? AND user_id = ? AND is_active = true',
+          [tableId, player.user_id]
+        );
+        eliminated.push({ userId: player.user_id, position: position-- });
+      }
+
+      for (const player of atTable) {
+        if (busted.includes(player)) continue;
+        await connection.execute(
+          'UPDATE poker_tournament_players SET chips = ? WHERE tournament_id = ? AND user_id = ?',
+          [player.chips, tournamentId, player.user_id]
+        );
+      }
+
+      const survivors = remaining.filter((player: any) => !busted.includes(player));
+      if (survivors.length !== 1) {
+        const balancing = await this.balanceTables(connection, tournament, tableId, state);
+        return { eliminated, ...balancing, prizes: null };
+      }
+
+      const winnerId = survivors[0].user_id;
+      await connection.execute(
+        'UPDATE poker_tournament_players SET position_finished = 1 WHERE tournament_id = ? AND user_id = ?',
+        [tournamentId, winnerId]
+      );
+
+      const prizes = await this.payOut(connection, tournament);
+
+      await connection.execute(
+        "UPDATE poker_tournaments SET status = 'finished', finished_at = NOW() WHERE id = ?",
+        [tournamentId]
+      );
+      await connection.execute(
+        `UPDATE poker_seats ps
+         JOIN poker_tables pt ON pt.id = ps.table_id
+         SET ps.is_active = false, ps.left_at = NOW()
+         WHERE pt.tournament_id = ? AND ps.is_active = true`,
+        [tournamentId]
+      );
+      await connection.execute('UPDATE poker_tables SET is_active = false WHERE tournament_id = ?', [tournamentId]);
+      await connection.execute(
+        `UPDATE poker_player_stats
+         SET tournaments_played = tournaments_played + 1, tournaments_won = tournaments_won + (user_id = ?)
+         WHERE user_id IN (SELECT user_id FROM poker_tournament_players WHERE tournament_id = ?)`,
+        [winnerId, tournamentId]
+      );
+
+      return { eliminated, moves: [], finalTableId: null, prizes };
+    });
+
+    if (!outcome || !this.io) return;
+
+    const room = `poker_table_${tableId}`;
+    for (const player of outcome.eliminated) {
+      this.io.to(room).emit('tournament:player_eliminated', { tournamentId, ...player });
+    }
+
+    for (const move of outcome.moves) {
+      this.io.in(`user_${move.userId}`).socketsLeave(`poker_table_${move.fromTableId}`);
+      this.io.in(`user_${move.userId}`).socketsJoin(`poker_table_${move.tableId}`);
+      this.io.to(`user_${move.userId}`).emit('tournament:table_changed', {
+        tournamentId,
+        tableId: move.tableId,
+        seatPosition: move.seatPosition
+      });
+    }
+    // Not awaited: the receiving table may be waiting on this one's lock
+    for (const targetTableId of new Set(outcome.moves.map(move => move.tableId))) {
+      this.pokerManager?.checkAndStartHand(targetTableId);
+    }
+
+    if (outcome.finalTableId) {
+      this.io.to(`poker_table_${outcome.finalTableId}`).emit('tournament:final_table', {
+        tournamentId,
+        tableId: outcome.finalTableId
+      });
+    }
+
+    if (outcome.prizes) {
+      this.io.to(room).emit('tournament:finished', { tournamentId, prizes: outcome.prizes });
+      for (const prize of outcome.prizes) {
+        this.io.to(`user_${prize.userId}`).emit('balance:update', { balance: prize.balance });
+      }
+    }
+  }
+
+  /**
+   * Deal the field across as few tables as it fits on, as evenly as possible, with seats drawn at
+   * random. A Sit & Go that starts opens the next one of its kind.
+   */
+  private static async start(connection: PoolConnection, tournament: any, playerIds: number[]): Promise<TournamentSeat[]> {
+    const tableCount = Math.ceil(playerIds.length / tournament.table_size);
+    const tableIds: number[] = [];
+    for (let i = 0; i < tableCount; i++) {
+      tableIds.push(await this.createTable(connection, tournament));
+    }
+
+    const drawn = [...playerIds];
+    for (let i = drawn.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [drawn[i], drawn[j]] = [drawn[j], drawn[i]];
+    }
+
+    const seats = drawn.map((userId, index) => ({
+      userId,
+      tableId: tableIds[index % tableCount],
+      seatPosition: Math.floor(index / tableCount)
+    }));
+    for (const seat of seats) {
+      await this.seat(connection, tournament, seat, tournament.starting_chips);
+    }
+
+    await connection.execute(
+      `UPDATE poker_tournaments
+       SET status = 'running', started_at = NOW(), blind_level = 0, level_started_at = NOW()
+       WHERE id = ?`,
+      [tournament.id]
+    );
+
+    if (tournament.tournament_type === 'sit_n_go') {
+      await connection.execute(
+        `INSERT INTO poker_tournaments (
+           name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players, table_size,
+           blind_structure, prize_structure, status, starts_at
+         )
+         SELECT name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players, table_size,
+                blind_structure, prize_structure, 'registering', NOW()
+         FROM poker_tournaments WHERE id = ?`,
+        [tournament.id]
+      );
+    }
+
+    return seats;
+  }
+
+  /**
+   * A late entry takes a seat at the shortest table with room, or opens a new table that the
+   * balancing fills as other tables finish their hands
+   */
+  private static async seatLateEntry(connection: PoolConnection, tournament: any, userId: number): Promise<TournamentSeat> {
+    const tables = await this.tableOccupancy(connection, tournament.id);
+    const open = tables
+      .filter(table => table.seats.length < tournament.table_size)
+      .sort((a, b) => a.seats.length - b.seats.length)[0];
+
+    const seat = {
+      userId,
+      tableId: open ? open.tableId : await this.createTable(connection, tournament),
+      seatPosition: freeSeat(open ? open.seats : [], tournament.table_size)
+    };
+    await this.seat(connection, tournament, seat, tournament.starting_chips);
+
+    return seat;
+  }
+
+  /**
+   * Keep the tables within one player of each other, moving players away from the table that has
+   * just finished a hand (the only one certain not to be mid-hand). Once the field fits on one
+   * table fewer, that table is broken up instead; when one table is left, it is the final table.
+   */
+  private static async balanceTables(
+    connection: PoolConnection,
+    tournament: any,
+    tableId: number,
+    state: TableState
+  ): Promise<{ moves: TableMove[]; finalTableId: number | null }> {
+    const tables = await this.tableOccupancy(connection, tournament.id);
+    const here = tables.find(table => table.tableId === tableId);
+    if (!here || tables.length < 2) {
+      return { moves: [], finalTableId: null };
+    }
+
+    const others = tables.filter(table => table !== here);
+    const playersLeft = tables.reduce((sum, table) => sum + table.seats.length, 0);
+    const breakUp = playersLeft <= others.length * tournament.table_size;
+
+    // The player due the big blind next moves first, so nobody posts it twice or skips it
+    const size = tournament.table_size;
+    const queue = [...here.seats].sort((a, b) =>
+      (a.seatPosition - state.bigBlindPosition - 1 + size) % size - (b.seatPosition - state.bigBlindPosition - 1 + size) % size
+    );
+
+    const moves: TableMove[] = [];
+    for (const player of queue) {
+      const fewest = Math.min(...others.map(table => table.seats.length));
+      if (!breakUp && here.seats.length <= fewest + 1) break;
+
+      const target = others.find(table => table.seats.length === fewest)!;
+      const move = {
+        userId: player.userId,
+        fromTableId: tableId,
+        tableId: target.tableId,
+        seatPosition: freeSeat(target.seats, size)
+      };
+
+      await connection.execute(
+        'UPDATE poker_seats SET is_active = false, left_at = NOW() WHERE table_id = ? AND user_id = ? AND is_active = true',
+        [tableId, player.userId]
+      );
+      await this.seat(connection, tournament, move, player.chips);
+
+      here.seats = here.seats.filter(seat => seat !== player);
+      target.seats.push({ ...player, seatPosition: move.seatPosition });
+      moves.push(move);
+    }
+
+    if (!breakUp) {
+      return { moves, finalTableId: null };
+    }
+
+    await connection.execute('UPDATE poker_tables SET is_active = false WHERE id = ?', [tableId]);
+    return { moves, finalTableId: others.length === 1 ? others[0].tableId : null };
+  }
+
+  private static async createTable(connection: PoolConnection, tournament: any): Promise<number> {
+    const levels = blindLevels(tournament.blind_structure);
+    const level = levels[Math.min(tournament.blind_level, levels.length - 1)];
+    if (!level) {
+      throw new TournamentError('This tournament has no blind structure', 500);
+    }
+
+    const [existing]: any = await connection.execute(
+      'SELECT COUNT(*) AS tables FROM poker_tables WHERE tournament_id = ?',
+      [tournament.id]
+    );
+    const name = tournament.tournament_type === 'sit_n_go'
+      ? `${tournament.name} #${tournament.id}`
+      : `${tournament.name} #${tournament.id} - Table ${Number(existing[0].tables) + 1}`;
+
+    const [table]: any = await connection.execute(
+      `INSERT INTO poker_tables (
+         name, table_type, max_players, min_players, small_blind, big_blind,
+         min_buy_in, max_buy_in, rake_percentage, max_rake, sit_out_blinds, tournament_id
+       ) VALUES (?, ?, ?, 2, ?, ?, 0, 0, 0, 0, 'post', ?)`,
+      [
+        name, tournament.tournament_type === 'sit_n_go' ? 'sit_n_go' : 'tournament', tournament.table_size,
+        level.smallBlind, level.bigBlind, tournament.id
+      ]
+    );
+
+    return table.insertId;
+  }
+
+  private static async seat(connection: PoolConnection, tournament: any, seat: TournamentSeat, chips: number): Promise<void> {
+    await connection.execute(
+      'INSERT INTO poker_seats (table_id, user_id, seat_position, chips) VALUES (?, ?, ?, ?)',
+      [seat.tableId, seat.userId, seat.seatPosition, chips]
+    );
+    await connection.execute(
+      'UPDATE poker_tournament_players SET table_id = ?, seat_position = ? WHERE tournament_id = ? AND user_id = ?',
+      [seat.tableId, seat.seatPosition, tournament.id, seat.userId]
+    );
+  }
+
+  /**
+   * Active tables of a tournament with the players seated at them
+   */
+  private static async tableOccupancy(connection: PoolConnection, tournamentId: number): Promise<TableOccupancy[]> {
+    const [rows]: any = await connection.execute(
+      `SELECT pt.id AS table_id, ps.user_id, ps.seat_position, ps.chips
+       FROM poker_tables pt
+       LEFT JOIN poker_seats ps ON ps.table_id = pt.id AND ps.is_active = TRUE
+       WHERE pt.tournament_id = ? AND pt.is_active = TRUE
+       ORDER BY pt.id, ps.seat_position`,
+      [tournamentId]
+    );
+
+    const tables = new Map<number, TableOccupancy>();
+    for (const row of rows) {
+      const table = tables.get(row.table_id) || { tableId: row.table_id, seats: [] };
+      if (row.user_id !== null) {
+        table.seats.push({ userId: row.user_id, seatPosition: row.seat_position, chips: parseFloat(row.chips) });
+      }
+      tables.set(row.table_id, table);
+    }
+
+    return [...tables.values()];
+  }
+
+  /**
+   * Pay the prize pool out of escrow by finishing place. Rounding leftovers go to the winner,
+   * so escrow always ends at zero.
+   */
+  private static async payOut(
+    connection: PoolConnection,
+    tournament: any
+  ): Promise<Array<TournamentPrize & { balance: number }>> {
+    const [entrants]: any = await connection.execute(
+      'SELECT COUNT(*) AS entrants FROM poker_tournament_players WHERE tournament_id = ?',
+      [tournament.id]
+    );
+    const amounts = splitPrizePool(
+      parseFloat(tournament.prize_pool),
+      parseJSON(tournament.prize_structure, []),
+      Number(entrants[0].entrants)
+    );
+
+    const [finishers]: any = await connection.execute(
+      `SELECT user_id, position_finished FROM poker_tournament_players
+       WHERE tournament_id = ? AND position_finished <= ?
+       ORDER BY position_finished`,
+      [tournament.id, amounts.length]
+    );
+
+    const prizes: Array<TournamentPrize & { balance: number }> = [];
+    for (const player of finishers) {
+      const amount = amounts[player.position_finished - 1];
+      if (!(amount > 0)) continue;
+
+      const wallet = await WalletService.apply(connection, player.user_id, [{
+        type: 'win',
+        amount,
+        description: `Tournament prize for place ${player.position_finished} in tournament #${tournament.id}`,
+        counterparty: LedgerService.tournament(tournament.id)
+      }]);
+      await connection.execute(
+        'UPDATE poker_tournament_players SET prize_won = ? WHERE tournament_id = ? AND user_id = ?',
+        [amount, tournament.id, player.user_id]
+      );
+
+      prizes.push({ userId: player.user_id, position: player.position_finished, amount, balance: wallet.balance });
+    }
+
+    return prizes;
+  }
+
+  private static async tick(): Promise<void> {
+    await this.startScheduled();
+    await this.advanceBlinds();
+  }
+
+  /**
+   * Start scheduled tournaments whose time has come, or cancel and refund them when too few
+   * players registered
+   */
+  private static async startScheduled(): Promise<void> {
+    const due = await executeQuery(
+      "SELECT id FROM poker_tournaments WHERE tournament_type = 'scheduled' AND status = 'registering' AND starts_at <= NOW()"
+    );
+
+    for (const { id } of due) {
+      const result = await withTransaction(async (connection) => {
+        const tournament = await this.lockTournament(connection, id);
+        if (tournament.status !== 'registering') return null;
+
+        const [players]: any = await connection.execute(
+          'SELECT user_id FROM poker_tournament_players WHERE tournament_id = ?',
+          [id]
+        );
+        const playerIds: number[] = players.map((player: any) => player.user_id);
+
+        if (playerIds.length < Math.max(tournament.min_players, 2)) {
+          for (const userId of playerIds) {
+            await WalletService.apply(connection, userId, refundEntries(tournament));
+          }
+          await connection.execute(
+            "UPDATE poker_tournaments SET status = 'cancelled', finished_at = NOW() WHERE id = ?",
+            [id]
+          );
+          return { cancelled: playerIds, seats: [] };
+        }
+
+        return { cancelled: [], seats: await this.start(connection, tournament, playerIds) };
+      });
+
+      if (!result) continue;
+
+      for (const userId of result.cancelled) {
+        this.io?.to(`user_${userId}`).emit('tournament:cancelled', {
+          tournamentId: id,
+          message: 'Not enough players registered; your buy-in and entry fee have been refunded'
+        });
+      }
+      this.seatsTaken(id, result.seats);
+    }
+  }
+
+  /**
+   * Move running tournaments to their next blind level once the current one has run its time.
+   * The new blinds apply from each table's next hand.
+   */
+  private static async advanceBlinds(): Promise<void> {
+    const running = await executeQuery(
+      `SELECT id, blind_level, blind_structure, TIMESTAMPDIFF(SECOND, level_started_at, NOW()) AS elapsed
+       FROM poker_tournaments
+       WHERE status = 'running'`
+    );
+
+    for (const tournament of running) {
+      const levels = blindLevels(tournament.blind_structure);
+      const current = levels[tournament.blind_level];
+      const next = levels[tournament.blind_level + 1];
+      if (!current || !next || tournament.elapsed < current.minutes * 60) continue;
+
+      // Conditional on the level, so only one instance moves it on
+      const tableIds = await withTransaction(async (connection) => {
+        const [updated]: any = await connection.execute(
+          'UPDATE poker_tournaments SET blind_level = ?, level_started_at = NOW() WHERE id = ? AND blind_level = ?',
+          [tournament.blind_level + 1, tournament.id, tournament.blind_level]
+        );
+        if (updated.affectedRows === 0) return [];
+
+        await connection.execute(
+          'UPDATE poker_tables SET small_blind = ?, big_blind = ? WHERE tournament_id = ? AND is_active = TRUE',
+          [next.smallBlind, next.bigBlind, tournament.id]
+        );
+        const [tables]: any = await connection.execute(
+          'SELECT id FROM poker_tables WHERE tournament_id = ? AND is_active = TRUE',
+          [tournament.id]
+        );
+        return tables.map((table: any) => table.id as number);
+      });
+
+      for (const tableId of tableIds) {
+        this.io?.to(`poker_table_${tableId}`).emit('tournament:blinds_up', {
+          tournamentId: tournament.id,
+          level: tournament.blind_level + 1,
+          smallBlind: next.smallBlind,
+          bigBlind: next.bigBlind,
+          minutes: next.minutes
+        });
+      }
+    }
+  }
+
+  /**
+   * Tell newly seated players where to go and deal at their tables
+   */
+  private static seatsTaken(tournamentId: number, seats: TournamentSeat[]): void {
+    for (const seat of seats) {
+      this.io?.to(`user_${seat.userId}`).emit('tournament:started', { tournamentId, tableId: seat.tableId });
+    }
+    for (const tableId of new Set(seats.map(seat => seat.tableId))) {
+      this.pokerManager?.checkAndStartHand(tableId);
+    }
+  }
+
+  private static async lockTournament(connection: PoolConnection, tournamentId: number): Promise<any> {
+    const [rows]: any = await connection.execute(
+      'SELECT * FROM poker_tournaments WHERE id = ? FOR UPDATE',
+      [tournamentId]
+    );
+    if (rows.length === 0) {
+      throw new TournamentError('Tournament not found', 404);
+    }
+    return rows[0];
+  }
+}
+
+const SUMMARY_QUERY = `
+  SELECT t.*,
+         COUNT(tp.id) AS registered,
+         COALESCE(SUM(tp.id IS NOT NULL AND tp.position_finished IS NULL), 0) AS players_left,
+         COALESCE(MAX(tp.user_id = ?), 0) AS is_registered,
+         MAX(IF(tp.user_id = ? AND tp.position_finished IS NULL, tp.table_id, NULL)) AS table_id
+  FROM poker_tournaments t
+  LEFT JOIN poker_tournament_players tp ON tp.tournament_id = t.id`;
+
+function toSummary(row: any): TournamentSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.tournament_type,
+    status: row.status,
+    buyIn: parseFloat(row.buy_in),
+    entryFee: parseFloat(row.entry_fee),
+    startingChips: row.starting_chips,
+    maxPlayers: row.max_players,
+    tableSize: row.table_size,
+    registered: Number(row.registered),
+    playersLeft: Number(row.players_left),
+    isRegistered: Boolean(Number(row.is_registered)),
+    prizePool: parseFloat(row.prize_pool),
+    prizeStructure: parseJSON(row.prize_structure, []),
+    blindStructure: blindLevels(row.blind_structure),
+    blindLevel: row.blind_level,
+    levelStartedAt: row.level_started_at,
+    lateRegistrationLevels: row.late_registration_levels,
+    lateRegistrationOpen: isLateRegistrationOpen(row),
+    tableId: row.table_id ?? null,
+    startsAt: row.starts_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at
+  };
+}
+
+function isLateRegistrationOpen(tournament: any): boolean {
+  return tournament.tournament_type === 'scheduled' &&
+    tournament.status === 'running' &&
+    tournament.blind_level < tournament.late_registration_levels;
+}
+
+function buyInEntries(tournament: any): WalletEntry[] {
+  return [
+    {
+      type: 'buy_in' as const,
+      amount: -parseFloat(tournament.buy_in),
+      description: `Tournament buy-in for tournament #${tournament.id}`,
+      counterparty: LedgerService.tournament(tournament.id)
+    },
+    {
+      type: 'buy_in' as const,
+      amount: -parseFloat(tournament.entry_fee),
+      description: `Tournament entry fee for tournament #${tournament.id}`,
+      counterparty: LedgerService.HOUSE
+    }
+  ].filter(entry => entry.amount < 0);
+}
+
+function refundEntries(tournament: any): WalletEntry[] {
+  return [
+    {
+      type: 'refund' as const,
+      amount: parseFloat(tournament.buy_in),
+      description: `Tournament buy-in refund for tournament #${tournament.id}`,
+      counterparty: LedgerService.tournament(tournament.id)
+    },
+    {
+      type: 'refund' as const,
+      amount: parseFloat(tournament.entry_fee),
+      description: `Tournament entry fee refund for tournament #${tournament.id}`,
+      counterparty: LedgerService.HOUSE
+    }
+  ].filter(entry => entry.amount > 0);
+}
+
+/**
+ * Prize per place, paid places capped by the field. Rounding leftovers go to 1st, so the amounts
+ * always add up to the pool.
+ */
+function splitPrizePool(pool: number, percentages: number[], entrants: number): number[] {
+  const poolCents = Math.round(pool * 100);
+  const cents = percentages
+    .slice(0, Math.max(entrants, 1))
+    .map(percent => Math.floor(poolCents * (Number(percent) || 0) / 100));
+
+  cents[0] = (cents[0] || 0) + poolCents - cents.reduce((sum, amount) => sum + amount, 0);
+  return cents.map(amount => amount / 100);
+}
+
+function freeSeat(seats: Array<{ seatPosition: number }>, tableSize: number): number {
+  const taken = new Set(seats.map(seat => seat.seatPosition));
+  let position = 0;
+  while (taken.has(position) && position < tableSize) position++;
+  return position;
+}
+
+function blindLevels(structure: unknown): BlindLevel[] {
+  return parseJSON<any[]>(structure, []).map((level: any) => ({
+    smallBlind: Number(level.smallBlind),
+    bigBlind: Number(level.bigBlind),
+    minutes: Number(level.minutes)
+  }));
+}
+
+/**
+ * JSON columns come back parsed or as text depending on the driver settings
+ */
+function parseJSON<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+export default TournamentService;
@@ -0,0 +1,329 @@
+/**
+ * Two-Factor Service
+ * TOTP (RFC 6238: SHA-1, 6 digits, 30-second steps) enrollment and verification, one-time
+ * recovery codes, and the short-lived challenge that links the two steps of a 2FA login.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery, withTransaction } from '../config/database';
+import { getRedisClient } from '../config/redis';
+import { TokenService } from './tokenService';
+
+export interface TwoFactorSetup {
+  secret: string;     // Base32, for manual entry
+  otpauthUri: string; // Encode as a QR code for authenticator apps
+}
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+const ISSUER = 'Gamble Fun Casino';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock skew
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 15 * 60;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  let bits = '';
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+const failuresKey = (userId: number) => `auth:2fa_failures:${userId}`;
+
+let warnedAboutKey = false;
+
+export class TwoFactorService {
+
+  /**
+   * HOTP value (RFC 4226) for one time step
+   */
+  static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return binary.toString().padStart(DIGITS, '0');
+  }
+
+  /**
+   * The time step a code matches within the allowed drift, or null
+   */
+  static matchStep(secret: string, code: string, now: number = Date.now()): number | null {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+    for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+      const expected = this.generateCode(secret, current + drift);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return current + drift;
+      }
+    }
+    return null;
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const rows = await executeQuery(
+      'SELECT is_enabled FROM user_two_factor WHERE user_id = ?',
+      [userId]
+    );
+    return rows.length > 0 && !!rows[0].is_enabled;
+  }
+
+  static async getStatus(userId: number): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+    const enabled = await this.isEnabled(userId);
+    const codes = await executeQuery(
+      'SELECT COUNT(*) AS remaining FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [userId]
+    );
+    return { enabled, recoveryCodesRemaining: enabled ? Number(codes[0].remaining) : 0 };
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret. 2FA stays off until confirmed.
+   */
+  static async beginEnrollment(userId: number, username: string): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(userId)) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await executeQuery(
+      `INSERT INTO user_two_factor (user_id, secret_encrypted, is_enabled)
+       VALUES (?, ?, FALSE)
+       ON DUPLICATE KEY UPDATE secret_encrypted = VALUES(secret_encrypted), last_used_step = NULL`,
+      [userId, this.encrypt(secret)]
+    );
+
+    const label = encodeURIComponent(`${ISSUER}:${username}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(DIGITS),
+      period: String(STEP_SECONDS)
+    });
+
+    return { secret, otpauthUri: `otpauth://totp/${label}?${params.toString()}` };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the authenticator; returns the recovery codes,
+   * which are shown this once
+   */
+  static async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const rows = await executeQuery(
+      'SELECT secret_encrypted, is_enabled FROM user_two_factor WHERE user_id = ?',
+      [userId]
+    );
+    if (rows.length === 0) {
+      throw new TwoFactorError('Start two-factor setup first', 404);
+    }
+    if (rows[0].is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    const step = this.matchStep(this.decrypt(rows[0].secret_encrypted), code);
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code');
+    }
+
+    return withTransaction(async (connection) => {
+      await connection.execute(
+        `UPDATE user_two_factor SET is_enabled = TRUE, enabled_at = NOW(), last_used_step = ?
+         WHERE user_id = ?`,
+        [step, userId]
+      );
+      return this.replaceRecoveryCodes(connection, userId);
+    });
+  }
+
+  /**
+   * Check a TOTP or recovery code for an account with 2FA on. Codes are single use and
+   * repeated failures lock the account's second step for a while.
+   */
+  static async verify(userId: number, code: string): Promise<void> {
+    const redis = getRedisClient();
+    const failures = Number(await redis.get(failuresKey(userId))) || 0;
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      throw new TwoFactorError('Too many invalid codes; try again later', 429);
+    }
+
+    if (await this.consume(userId, (code || '').trim())) {
+      await redis.del(failuresKey(userId));
+      return;
+    }
+
+    await redis.multi()
+      .incr(failuresKey(userId))
+      .expire(failuresKey(userId), LOCKOUT_SECONDS)
+      .exec();
+    throw new TwoFactorError('Invalid verification code');
+  }
+
+  /**
+   * Turn 2FA off after checking a current code
+   */
+  static async disable(userId: number, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new TwoFactorError('Two-factor authentication is not enabled');
+    }
+
+    await this.verify(userId, code);
+    await withTransaction(async (connection) => {
+      await connection.execute('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+      await connection.execute('DELETE FROM user_two_factor WHERE user_id = ?', [userId]);
+    });
+  }
+
+  /**
+   * Issue a new set of recovery codes after checking a current code; the old set stops working
+   */
+  static async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new TwoFactorError('Two-factor authentication is not enabled');
+    }
+
+    await this.verify(userId, code);
+    return withTransaction(connection => this.replaceRecoveryCodes(connection, userId));
+  }
+
+  /**
+   * Token that proves the password step passed; exchanged with a code for a session
+   */
+  static createChallenge(userId: number): string {
+    return jwt.sign({ id: userId, purpose: 'login_2fa' }, TokenService.jwtSecret(), { expiresIn: CHALLENGE_TTL });
+  }
+
+  static verifyChallenge(challengeToken: string): number {
+    try {
+      const payload = jwt.verify(challengeToken, TokenService.jwtSecret()) as any;
+      if (payload.purpose !== 'login_2fa') {
+        throw new Error('Wrong token purpose');
+      }
+      return payload.id;
+    } catch (error) {
+      throw new TwoFactorError('Login challenge expired; sign in again', 401);
+    }
+  }
+
+  private static async consume(userId: number, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code)) {
+      const rows = await executeQuery(
+        'SELECT secret_encrypted FROM user_two_factor WHERE user_id = ? AND is_enabled = TRUE',
+        [userId]
+      );
+      if (rows.length === 0) {
+        return false;
+      }
+
+      const step = this.matchStep(this.decrypt(rows[0].secret_encrypted), code);
+      if (step === null) {
+        return false;
+      }
+
+      // Only a step later than the last one used counts, so an observed code cannot be replayed
+      const claimed = await executeQuery(
+        `UPDATE user_two_factor SET last_used_step = ?
+         WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`,
+        [step, userId, step]
+      );
+      return claimed.affectedRows > 0;
+    }
+
+    const used = await executeQuery(
+      `UPDATE user_recovery_codes SET used_at = NOW()
+       WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+       LIMIT 1`,
+      [userId, hashRecoveryCode(code)]
+    );
+    return used.affectedRows > 0;
+  }
+
+  private static async replaceRecoveryCodes(connection: PoolConnection, userId: number): Promise<string[]> {
+    await connection.execute('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+
+    const codes: string[] = [];
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+      const raw = crypto.randomBytes(5).toString('hex');
+      const code = `${raw.slice(0, 5)}-${raw.slice(5)}`;
+      codes.push(code);
+      await connection.execute(
+        'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (?, ?)',
+        [userId, hashRecoveryCode(code)]
+      );
+    }
+    return codes;
+  }
+
+  private static encryptionKey(): Buffer {
+    let key = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+    if (!key) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('TWO_FACTOR_ENCRYPTION_KEY must be set in production');
+      }
+      if (!warnedAboutKey) {
+        console.warn('⚠️ TWO_FACTOR_ENCRYPTION_KEY is not set; using an insecure development key');
+        warnedAboutKey = true;
+      }
+      key = 'dev-insecure-two-factor-key';
+    }
+    return crypto.createHash('sha256').update(key).digest();
+  }
+
+  private static encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+  }
+
+  private static decrypt(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'hex'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
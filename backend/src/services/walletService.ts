@@ -0,0 +1,220 @@
+/**
+ * Wallet Service
+ * The only place user balances and bonus tokens change. Each operation locks the
+ * owner's row (SELECT ... FOR UPDATE), checks funds against the locked value, applies a
+ * relative update and logs one transactions row per entry, all in one transaction.
+ * Every entry is also posted to the double-entry ledger against its counterparty, and
+ * deposits and stakes are checked against the player's responsible gambling limits.
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { executeQuery, withTransaction } from '../config/database';
+import { LedgerService, LedgerAccount } from './ledgerService';
+import { ResponsibleGamblingService } from './responsibleGamblingService';
+import { RealityCheckService } from './realityCheckService';
+
+export type WalletTransactionType = 'deposit' | 'withdrawal' | 'bet' | 'win' | 'bonus' | 'refund' | 'buy_in' | 'cash_out';
+
+export interface WalletEntry {
+  type: WalletTransactionType;
+  amount: number; // Positive credits the balance, negative debits it
+  description: string;
+  counterparty?: LedgerAccount; // Other side of the ledger journal; defaults by type
+}
+
+export interface WalletBalance {
+  balanceBefore: number;
+  balance: number;
+}
+
+export interface BonusTokenLog {
+  gameId: number | null;
+  betId?: number | null;
+  transactionType: string;
+  triggerData: any;
+  description: string;
+}
+
+export class WalletError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+type Query = { query: string; params: any[] };
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class WalletService {
+
+  /**
+   * Current balance without a lock; for display and early checks only
+   */
+  static async getBalance(userId: number): Promise<number> {
+    const users = await executeQuery(
+      'SELECT balance FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+
+    if (users.length === 0) {
+      throw new WalletError('User not found', 404);
+    }
+
+    return parseFloat(users[0].balance);
+  }
+
+  /**
+   * Apply entries to a user's balance on a connection that is already in a transaction.
+   * Use this when the balance change must commit together with other writes.
+   */
+  static async apply(connection: PoolConnection, userId: number, entries: WalletEntry[]): Promise<WalletBalance> {
+    const [users]: any = await connection.execute(
+      'SELECT balance FROM users WHERE id = ? AND is_active = TRUE FOR UPDATE',
+      [userId]
+    );
+
+    if (users.length === 0) {
+      throw new WalletError('User not found', 404);
+    }
+
+    const balanceBefore = parseFloat(users[0].balance);
+    let balance = balanceBefore;
+
+    for (const entry of entries) {
+      const amount = round2(entry.amount);
+      const after = round2(balance + amount);
+
+      if (after < 0) {
+        throw new WalletError('Insufficient balance');
+      }
+
+      // Deposit, wager and loss limits, checked under the same lock as the balance
+      const breach = await ResponsibleGamblingService.checkEntry(connection, userId, { type: entry.type, amount });
+      if (breach) {
+        throw new WalletError(breach, 403);
+      }
+
+      const [logged]: any = await connection.execute(
+        `INSERT INTO transactions (user_id, type, amount, balance_before, balance_after, description)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [userId, entry.type, amount, balance, after, entry.description]
+      );
+      balance = after;
+
+      await RealityCheckService.recordEntry(connection, userId, { type: entry.type, amount });
+
+      const counterparty = entry.counterparty || this.defaultCounterparty(entry.type);
+      await LedgerService.post(connection, {
+        type: entry.type,
+        description: entry.description,
+        reference: `transaction:${logged.insertId}`,
+        entries: [
+          { account: LedgerService.userWallet(userId), amount },
+          { account: counterparty, amount: -amount }
+        ]
+      });
+    }
+
+    // Relative, so the update stays correct even for a writer that skipped the lock
+    await connection.execute(
+      'UPDATE users SET balance = balance + ? WHERE id = ?',
+      [round2(balance - balanceBefore), userId]
+    );
+
+    return { balanceBefore, balance };
+  }
+
+  /**
+   * Apply entries and run the accompanying writes (bet rows, seats, purchases) atomically.
+   * Results of the extra queries are returned in order.
+   */
+  static async transact(userId: number, entries: WalletEntry[], queries: Query[] = []): Promise<WalletBalance & { results: any[] }> {
+    return withTransaction(async (connection) => {
+      const wallet = await this.apply(connection, userId, entries);
+
+      const results = [];
+      for (const { query, params } of queries) {
+        const [result] = await connection.execute(query, params);
+        results.push(result);
+      }
+
+      return { ...wallet, results };
+    });
+  }
+
+  /**
+   * Credit (positive) or spend (negative) bonus tokens and log the change to bonus_transactions
+   */
+  static async adjustBonusTokens(userId: number, amount: number, log: BonusTokenLog): Promise<WalletBalance> {
+    return withTransaction(async (connection) => {
+      const [stats]: any = await connection.execute(
+        'SELECT bonus_tokens FROM user_bonus_stats WHERE user_id = ? FOR UPDATE',
+        [userId]
+      );
+
+      if (stats.length === 0) {
+        throw new WalletError('User bonus stats not found', 404);
+      }
+
+      const balanceBefore = parseFloat(stats[0].bonus_tokens);
+      const balance = round2(balanceBefore + amount);
+      if (balance < 0) {
+        throw new WalletError('Insufficient bonus tokens');
+      }
+
+      await connection.execute(
+        amount >= 0
+          ? `UPDATE user_bonus_stats
+             SET bonus_tokens = bonus_tokens + ?,
+                 total_bonus_earned = total_bonus_earned + ?,
+                 last_bonus_earned = CURRENT_TIMESTAMP,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE user_id = ?`
+          : `UPDATE user_bonus_stats
+             SET bonus_tokens = bonus_tokens + ?,
+                 total_bonus_spent = total_bonus_spent + ?,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE user_id = ?`,
+        [amount, Math.abs(amount), userId]
+      );
+
+      const [logged]: any = await connection.execute(
+        `INSERT INTO bonus_transactions
+         (user_id, game_id, bet_id, transaction_type, bonus_amount,
+          balance_before, balance_after, trigger_data, description)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [userId, log.gameId, log.betId ?? null, log.transactionType, amount,
+         balanceBefore, balance, JSON.stringify(log.triggerData), log.description]
+      );
+
+      await LedgerService.post(connection, {
+        type: 'bonus_tokens',
+        description: log.description,
+        reference: `bonus_transaction:${logged.insertId}`,
+        entries: [
+          { account: LedgerService.userBonus(userId), amount },
+          { account: LedgerService.BONUS_TOKEN_POOL, amount: -amount }
+        ]
+      });
+
+      return { balanceBefore, balance };
+    });
+  }
+
+  private static defaultCounterparty(type: WalletTransactionType): LedgerAccount {
+    switch (type) {
+      case 'bet':
+      case 'win':
+      case 'refund':
+        return LedgerService.HOUSE;
+      case 'deposit':
+      case 'withdrawal':
+        return LedgerService.PAYMENTS;
+      case 'bonus':
+        return LedgerService.BONUS_POOL;
+      default:
+        throw new WalletError(`A ${type} entry needs an explicit ledger counterparty`, 500);
+    }
+  }
+}
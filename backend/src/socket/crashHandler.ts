@@ -0,0 +1,419 @@
+/**
+ * Crash WebSocket Handler
+ * Shared crash round loop: betting window, live multiplier ticks and the bust,
+ * broadcast to everyone in the `game_crash` room. The loop runs on the leader instance; bets,
+ * cash outs and the round snapshot are leader calls, so any instance can serve them.
+ * Emits 'betting' (roundId), 'settled' (round summary) and 'cancelled' (roundId, stakes refunded)
+ * for server-side consumers such as auto-bet.
+ */
+
+import { EventEmitter } from 'events';
+import { Server, Socket } from 'socket.io';
+import { CrashService, CrashError, CrashRoundSeed, CrashSettlementResult } from '../services/crashService';
+import { LeaderLease } from '../services/leaderLease';
+
+interface CrashPlayer {
+  crashBetId: number;
+  userId: number;
+  username: string;
+  betAmount: number;
+  autoCashOut: number | null;
+  cashedOutAt: number | null;
+}
+
+interface CrashRound extends CrashRoundSeed {
+  phase: 'betting' | 'running' | 'crashed';
+  bettingEndsAt: number;
+  startedAt: number | null;
+  multiplier: number;
+  players: Map<number, CrashPlayer>; // userId -> player
+}
+
+const ROOM = 'game_crash';
+const BETTING_MS = 7000;
+const TICK_MS = 100;
+const COOLDOWN_MS = 3000;
+const SETTLE_ATTEMPTS = 3;
+const GROWTH_RATE = 0.00006; // e^(rate * ms): 2x after ~11.5s, 10x after ~38s
+
+class CrashGameManager extends EventEmitter {
+  private io: Server;
+  private round: CrashRound | null = null;
+  private pendingBets: Set<number> = new Set(); // userIds with a bet being written
+  private tickTimer: NodeJS.Timeout | null = null;
+  private phaseTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(io: Server) {
+    super();
+    this.io = io;
+
+    LeaderLease.handle('crash:bet', (userId: number, username: string, amount: number, autoCashOut: number | null) =>
+      this.placeBet(userId, username, amount, autoCashOut), [CrashError]);
+    LeaderLease.handle('crash:cashout', (userId: number) => this.cashOutPlayer(userId), [CrashError]);
+    LeaderLease.handle('crash:state', async () => this.getPublicState());
+  }
+
+  /**
+   * Refund anything left over from a previous leader and open the first round
+   */
+  async start(): Promise<void> {
+    this.running = true;
+
+    try {
+      const refunded = await CrashService.cancelUnfinishedRounds();
+      if (refunded > 0) {
+        console.log(`💸 Refunded ${refunded} crash bets from unfinished rounds`);
+      }
+    } catch (error) {
+      console.error('Crash recovery error:', error);
+    }
+
+    this.openBetting();
+  }
+
+  /**
+   * Drop the round in progress once another instance may be leading; its recovery refunds the stakes
+   */
+  stop(): void {
+    this.running = false;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    if (this.phaseTimer) {
+      clearTimeout(this.phaseTimer);
+      this.phaseTimer = null;
+    }
+
+    if (this.round && this.round.phase !== 'crashed') {
+      this.io.to(ROOM).emit('crash:cancelled', { roundId: this.round.id });
+    }
+    this.round = null;
+  }
+
+  static multiplierAt(elapsedMs: number): number {
+    return Math.floor(Math.pow(Math.E, GROWTH_RATE * elapsedMs) * 100) / 100;
+  }
+
+  /**
+   * Snapshot of the round in progress for players who join mid-round, from the leader
+   */
+  async fetchPublicState(): Promise<any> {
+    return LeaderLease.call('crash:state');
+  }
+
+  private getPublicState(): any {
+    const round = this.round;
+    if (!round) {
+      return null;
+    }
+
+    return {
+      roundId: round.id,
+      phase: round.phase,
+      seedHash: round.seedHash,
+      bettingMsLeft: Math.max(0, round.bettingEndsAt - Date.now()),
+      startedAt: round.startedAt,
+      multiplier: round.multiplier,
+      crashPoint: round.phase === 'crashed' ? round.crashPoint : null,
+      players: Array.from(round.players.values()).map(player => this.toPublicPlayer(player))
+    };
+  }
+
+  /**
+   * Place a bet during the betting window
+   */
+  async handleBet(socket: Socket, data: any): Promise<void> {
+    const autoCashOut = data?.autoCashOut ? Math.floor(Number(data.autoCashOut) * 100) / 100 : null;
+
+    try {
+      await LeaderLease.call('crash:bet', socket.data.user?.id, socket.data.user?.username, Number(data?.betAmount), autoCashOut);
+    } catch (error) {
+      if (error instanceof CrashError) {
+        socket.emit('crash:error', { message: error.message });
+      } else {
+        console.error('Crash bet error:', error);
+        socket.emit('crash:error', { message: 'Failed to place bet' });
+      }
+    }
+  }
+
+  /**
+   * Take a bet into the current round; throws CrashError when it cannot be accepted. Only the
+   * leader has a round.
+   */
+  async placeBet(userId: number, username: string, amount: number, autoCashOut: number | null): Promise<void> {
+    const betAmount = Math.round(amount * 100) / 100;
+    const round = this.round;
+
+    if (!round || round.phase !== 'betting' || Date.now() >= round.bettingEndsAt) {
+      throw new CrashError('Betting is closed for this round');
+    }
+    if (!betAmount || betAmount <= 0) {
+      throw new CrashError('Invalid bet amount');
+    }
+    if (autoCashOut !== null && (isNaN(autoCashOut) || autoCashOut < 1.01)) {
+      throw new CrashError('Auto cash out must be at least 1.01x');
+    }
+    if (round.players.has(userId) || this.pendingBets.has(userId)) {
+      throw new CrashError('You already have a bet in this round');
+    }
+
+    this.pendingBets.add(userId);
+    try {
+      const { crashBetId, balance } = await CrashService.placeBet(round.id, userId, betAmount, autoCashOut);
+
+      const player: CrashPlayer = {
+        crashBetId,
+        userId,
+        username,
+        betAmount,
+        autoCashOut,
+        cashedOutAt: null
+      };
+      round.players.set(userId, player);
+
+      this.io.to(`user_${userId}`).emit('balance:update', { balance });
+      this.io.to(ROOM).emit('crash:bet_placed', { roundId: round.id, player: this.toPublicPlayer(player) });
+    } finally {
+      this.pendingBets.delete(userId);
+    }
+  }
+
+  /**
+   * Cash out at the server's current multiplier
+   */
+  async handleCashout(socket: Socket): Promise<void> {
+    try {
+      await LeaderLease.call('crash:cashout', socket.data.user?.id);
+    } catch (error) {
+      if (error instanceof CrashError) {
+        socket.emit('crash:error', { message: error.message });
+      } else {
+        console.error('Crash cashout error:', error);
+        socket.emit('crash:error', { message: 'Failed to cash out' });
+      }
+    }
+  }
+
+  private async cashOutPlayer(userId: number): Promise<void> {
+    const round = this.round;
+    const player = round?.players.get(userId);
+
+    if (!round || round.phase !== 'running' || !player) {
+      throw new CrashError('No active bet to cash out');
+    }
+    if (player.cashedOutAt !== null) {
+      throw new CrashError('Already cashed out');
+    }
+
+    // Time decides the multiplier, not the last tick the client happened to see
+    const multiplier = CrashGameManager.multiplierAt(Date.now() - (round.startedAt as number));
+    if (multiplier >= round.crashPoint) {
+      throw new CrashError('Too late - the round crashed');
+    }
+
+    await this.cashOut(round, player, multiplier);
+  }
+
+  private async cashOut(round: CrashRound, player: CrashPlayer, multiplier: number): Promise<void> {
+    // Set in memory first so settlement sees it even if the write below is still in flight
+    player.cashedOutAt = multiplier;
+    this.io.to(ROOM).emit('crash:cashed_out', { roundId: round.id, player: this.toPublicPlayer(player) });
+
+    try {
+      await CrashService.recordCashout(player.crashBetId, multiplier);
+    } catch (error) {
+      console.error('Crash cashout persist error:', error);
+    }
+  }
+
+  private async openBetting(): Promise<void> {
+    this.phaseTimer = null;
+    if (!this.running || !LeaderLease.isLeader()) {
+      return;
+    }
+
+    try {
+      const seed = await CrashService.createRound();
+      this.round = {
+        ...seed,
+        phase: 'betting',
+        bettingEndsAt: Date.now() + BETTING_MS,
+        startedAt: null,
+        multiplier: 1,
+        players: new Map()
+      };
+
+      // seedHash commits to the crash point; it equals the seed revealed by the previous round
+      this.io.to(ROOM).emit('crash:betting', {
+        roundId: seed.id,
+        seedHash: seed.seedHash,
+        bettingMsLeft: BETTING_MS
+      });
+      this.emit('betting', seed.id);
+
+      this.phaseTimer = setTimeout(() => this.startFlight(), BETTING_MS);
+    } catch (error) {
+      console.error('Crash round open error:', error);
+      this.phaseTimer = setTimeout(() => this.openBetting(), COOLDOWN_MS);
+    }
+  }
+
+  private async startFlight(): Promise<void> {
+    this.phaseTimer = null;
+    const round = this.round as CrashRound;
+
+    // Bets accepted inside the window must be on the books before the multiplier moves
+    if (this.pendingBets.size > 0) {
+      this.phaseTimer = setTimeout(() => this.startFlight(), TICK_MS);
+      return;
+    }
+
+    try {
+      await CrashService.markRunning(round.id);
+    } catch (error) {
+      console.error('Crash round start error:', error);
+    }
+    if (this.round !== round) {
+      return; // Stopped while marking it running
+    }
+
+    round.phase = 'running';
+    round.startedAt = Date.now();
+    this.io.to(ROOM).emit('crash:started', { roundId: round.id, startedAt: round.startedAt });
+
+    this.tickTimer = setInterval(() => this.tick(round), TICK_MS);
+  }
+
+  private tick(round: CrashRound): void {
+    const multiplier = CrashGameManager.multiplierAt(Date.now() - (round.startedAt as number));
+
+    if (multiplier >= round.crashPoint) {
+      this.crash(round);
+      return;
+    }
+
+    round.multiplier = multiplier;
+
+    // Auto cash outs fill at exactly their target
+    for (const player of round.players.values()) {
+      if (player.cashedOutAt === null && player.autoCashOut !== null && player.autoCashOut <= multiplier) {
+        this.cashOut(round, player, player.autoCashOut);
+      }
+    }
+
+    this.io.to(ROOM).emit('crash:tick', { roundId: round.id, multiplier });
+  }
+
+  private async crash(round: CrashRound): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    round.phase = 'crashed';
+    round.multiplier = round.crashPoint;
+
+    // Auto cash outs below the crash point that fell between two ticks still count
+    for (const player of round.players.values()) {
+      if (player.cashedOutAt === null && player.autoCashOut !== null && player.autoCashOut < round.crashPoint) {
+        player.cashedOutAt = player.autoCashOut;
+      }
+    }
+
+    const result = await this.settle(round);
+
+    if (result?.settled) {
+      this.io.to(ROOM).emit('crash:crashed', {
+        roundId: round.id,
+        roundIndex: round.roundIndex,
+        crashPoint: round.crashPoint,
+        seed: round.seed,
+        seedHash: round.seedHash,
+        players: Array.from(round.players.values()).map(player => this.toPublicPlayer(player))
+      });
+
+      for (const [userId, balance] of result.balances) {
+        this.io.to(`user_${userId}`).emit('balance:update', { balance });
+      }
+
+      this.emit('settled', {
+        roundId: round.id,
+        crashPoint: round.crashPoint,
+        players: Array.from(round.players.values()).map(player => this.toPublicPlayer(player))
+      });
+    } else if (result) {
+      // Cancelled elsewhere (a new leader's recovery) and the stakes are already back: no payouts
+      this.announceCancelled(round, result.balances);
+    } else {
+      await this.cancel(round);
+    }
+
+    // Not if the loop was stopped (and maybe restarted) while settling
+    if (this.running && this.round === round) {
+      this.phaseTimer = setTimeout(() => this.openBetting(), COOLDOWN_MS);
+    }
+  }
+
+  /**
+   * Settle the round, retrying a few times; null when it still could not be settled
+   */
+  private async settle(round: CrashRound): Promise<CrashSettlementResult | null> {
+    const bets = Array.from(round.players.values()).map(player => ({
+      crashBetId: player.crashBetId,
+      userId: player.userId,
+      betAmount: player.betAmount,
+      cashedOutAt: player.cashedOutAt
+    }));
+
+    for (let attempt = 1; attempt <= SETTLE_ATTEMPTS; attempt++) {
+      try {
+        return await CrashService.settleRound(round, bets);
+      } catch (error) {
+        console.error(`Crash settlement error (attempt ${attempt} of ${SETTLE_ATTEMPTS}):`, error);
+        if (attempt < SETTLE_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, TICK_MS * attempt));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Call off a round that could not be settled and give every stake back
+   */
+  private async cancel(round: CrashRound): Promise<void> {
+    try {
+      const balances = await CrashService.cancelRound(round.id);
+      console.log(`💸 Refunded ${balances.size} crash bets from unsettled round #${round.id}`);
+      this.announceCancelled(round, balances);
+    } catch (error) {
+      // Bets stay 'active' and are refunded by the recovery pass on the next start
+      console.error('Crash round cancel error:', error);
+    }
+  }
+
+  private announceCancelled(round: CrashRound, balances: Map<number, number>): void {
+    this.io.to(ROOM).emit('crash:cancelled', { roundId: round.id });
+    for (const [userId, balance] of balances) {
+      this.io.to(`user_${userId}`).emit('balance:update', { balance });
+    }
+
+    this.emit('cancelled', round.id);
+  }
+
+  private toPublicPlayer(player: CrashPlayer): any {
+    return {
+      userId: player.userId,
+      username: player.username,
+      betAmount: player.betAmount,
+      cashedOutAt: player.cashedOutAt,
+      winAmount: player.cashedOutAt !== null ? Math.round(player.betAmount * player.cashedOutAt * 100) / 100 : 0
+    };
+  }
+}
+
+export default CrashGameManager;
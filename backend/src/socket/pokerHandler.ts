@@ -1,57 +1,46 @@
 /**
  * Poker WebSocket Handler
- * Real-time multiplayer poker game events and synchronization
+ * Real-time multiplayer poker game events and synchronization.
+ * Hand progression lives in the table engine (services/pokerTableEngine); this manager feeds it
+ * actions from sockets, REST and the AI manager one at a time per table, persists the new state
+ * and turns the engine's events into socket events.
  */
 
 import { Server, Socket } from 'socket.io';
-import { executeQuery, executeTransaction } from '../config/database';
-import { 
-  createDeck, 
-  shuffleDeck, 
-  evaluateHand, 
-  compareHands,
-  calculateSidePots,
-  getNextActivePlayer,
-  isBettingRoundComplete,
-  getNextBettingRound,
-  dealCommunityCards,
-  calculateMinRaise,
-  validatePlayerAction,
-  Card,
-  Player,
-  PokerGame,
-  HandResult
-} from '../services/pokerEngine';
+import { executeQuery, withTransaction } from '../config/database';
+import { createDeck, shuffleDeck } from '../services/pokerEngine';
 import { ProvablyFairEngine } from '../services/gameEngine';
-
-interface PokerPlayer extends Player {
-  socketId: string | null; // null for AI players
-  username: string;
-  avatar?: string;
-}
-
-interface PokerTable {
-  id: number;
-  gameId?: number;
-  players: Map<number, PokerPlayer>; // userId -> player
-  spectators: Set<string>; // socket IDs
-  gameState: any;
-  deck: Card[];
-  communityCards: Card[];
-  pot: number;
-  currentBet: number;
-  minRaise: number;
-  dealerPosition: number;
-  smallBlindPosition: number;
-  bigBlindPosition: number;
-  currentPlayerPosition: number;
-  bettingRound: string;
-  handNumber: number;
-}
+import { WalletService } from '../services/walletService';
+import { LedgerService } from '../services/ledgerService';
+import {
+  applyAction,
+  createTableState,
+  currentRound,
+  isHandInProgress,
+  isStateConsistent,
+  PokerEngineError,
+  PlayerActionType,
+  seatToAct,
+  TableAction,
+  TableEvent,
+  TableState
+} from '../services/pokerTableEngine';
+import { PokerTable, PokerTableStore } from '../services/pokerTableStore';
+import TournamentService from '../services/tournamentService';
+import PokerStatsService from '../services/pokerStatsService';
+import PokerActionClock from '../services/pokerActionClock';
+import PokerRakeService from '../services/pokerRakeService';
+
+const NEXT_HAND_DELAY_MS = 5000;
+const DISCONNECT_GRACE_MS = 30000;
+
+// Whether a player still has chips in the hand being played
+const isInHand = (state: TableState, userId: number): boolean =>
+  isHandInProgress(state) && state.seats.some(seat => seat.userId === userId && !seat.isFolded);
 
 class PokerGameManager {
   private io: Server;
-  private tables: Map<number, PokerTable> = new Map();
+  private queues: Map<number, Promise<unknown>> = new Map();
 
   constructor(io: Server) {
     this.io = io;
@@ -60,11 +49,11 @@ class PokerGameManager {
   /**
    * Handle poker player joining a table with reconnection support
    */
-  static async handleJoinTable(socket: Socket, data: any) {
+  async handleJoinTable(socket: Socket, data: any) {
     try {
       const { tableId, buyIn } = data;
-      const userId = (socket as any).user?.id;
-      
+      const userId = socket.data.user?.id;
+
       if (!userId) {
         socket.emit('poker_error', { message: 'Authentication required' });
         return;
@@ -83,19 +72,25 @@ class PokerGameManager {
         return;
       }
 
-      // Check if player already has a seat (reconnection case)
+      // Check if player already has a seat (reconnection case). A tournament seat left behind was
+      // a bust-out or a move to another table, never a disconnect.
       const existingSeat = await executeQuery(
-        'SELECT * FROM poker_seats WHERE user_id = ? AND table_id = ? AND (is_active = 1 OR (is_active = 0 AND left_at > DATE_SUB(NOW(), INTERVAL 10 MINUTE)))',
-        [userId, tableId]
+        `SELECT * FROM poker_seats
+         WHERE user_id = ? AND table_id = ?
+           AND (is_active = 1 OR (is_active = 0 AND left_at > DATE_SUB(NOW(), INTERVAL 10 MINUTE) AND ? IS NULL))
+         ORDER BY is_active DESC, left_at DESC`,
+        [userId, tableId, table[0].tournament_id]
       );
 
       if (existingSeat.length > 0) {
         console.log(`🔄 User ${userId} reconnecting to existing seat at table ${tableId}`);
-        
+
         // Reactivate the seat
         await executeQuery(
-          'UPDATE poker_seats SET is_active = 1, is_sitting_out = 0, last_seen = NOW(), left_at = NULL WHERE user_id = ? AND table_id = ?',
-          [userId, tableId]
+          `UPDATE poker_seats
+           SET is_active = 1, is_sitting_out = 0, sat_out_at = NULL, consecutive_timeouts = 0, last_seen = NOW(), left_at = NULL
+           WHERE id = ?`,
+          [existingSeat[0].id]
         );
 
         // Join socket room
@@ -104,12 +99,15 @@ class PokerGameManager {
 
         // Send current game state
         await this.sendTableState(tableId);
-        
+
+        // Deal as soon as a second player is there
+        this.checkAndStartHand(tableId);
+
         socket.emit('poker_rejoined', {
           message: 'Welcome back! You have been reconnected to your seat.',
           seat: existingSeat[0]
         });
-        
+
         return;
       }
     } catch (error) {
@@ -119,26 +117,17 @@ class PokerGameManager {
   }
 
   /**
-   * Leave a poker table
+   * Leave a poker table's room; the seat itself is cashed out through the REST route
    */
-  async leaveTable(socket: Socket, data: { tableId: number; userId: number }) {
+  async leaveTable(socket: Socket, data: { tableId: number }) {
     try {
-      const { tableId, userId } = data;
-      
-      const pokerTable = this.tables.get(tableId);
-      if (!pokerTable) return;
+      const { tableId } = data;
 
-      // Remove player
-      pokerTable.players.delete(userId);
       socket.leave(`poker_table_${tableId}`);
+      (socket as any).pokerTableId = undefined;
 
       // Notify other players
-      socket.to(`poker_table_${tableId}`).emit('poker:player_left', { userId });
-
-      // Clean up empty tables
-      if (pokerTable.players.size === 0 && pokerTable.spectators.size === 0) {
-        this.tables.delete(tableId);
-      }
+      socket.to(`poker_table_${tableId}`).emit('poker:player_left', { userId: socket.data.user.id });
 
     } catch (error) {
       console.error('Error leaving poker table:', error);
@@ -146,641 +135,720 @@ class PokerGameManager {
   }
 
   /**
-   * Start a new hand
+   * Start a new hand, reporting failures to the table
    */
   async startNewHand(tableId: number) {
     try {
-      console.log(`Starting new hand for table ${tableId}`);
-      let pokerTable = this.tables.get(tableId);
-      if (!pokerTable) {
-        console.log(`No poker table found in memory for table ${tableId}, creating one`);
-        // Initialize table if not exists
-        const newTable: PokerTable = {
-          id: tableId,
-          players: new Map(),
-          spectators: new Set(),
-          gameState: null,
-          deck: [],
-          communityCards: [],
-          pot: 0,
-          currentBet: 0,
-          minRaise: 0,
-          dealerPosition: 0,
-          smallBlindPosition: 1,
-          bigBlindPosition: 2,
-          currentPlayerPosition: 0,
-          bettingRound: 'pre_flop',
-          handNumber: 1
-        };
-        this.tables.set(tableId, newTable);
-        pokerTable = newTable;
+      await this.startHand(tableId);
+    } catch (error) {
+      if (error instanceof PokerEngineError) {
+        this.io.to(`poker_table_${tableId}`).emit('poker:error', { message: error.message });
+        return;
       }
 
-      // Get all active players from database (including AI players)
-      const dbPlayers = await executeQuery(`
-        SELECT 
-          ps.*,
-          CASE 
-            WHEN ps.user_id > 0 THEN u.username
-            ELSE pai.name
-          END as username,
-          CASE 
-            WHEN ps.user_id < 0 THEN true
-            ELSE false
-          END as isAI
+      console.error('Error starting new hand:', error);
+      this.io.to(`poker_table_${tableId}`).emit('poker:error', {
+        message: 'Failed to start new hand'
+      });
+    }
+  }
+
+  /**
+   * Deal a new hand to everyone seated with chips (can be called from routes)
+   */
+  async startHand(tableId: number): Promise<PokerTable> {
+    console.log(`Starting new hand for table ${tableId}`);
+
+    const tableResult = await executeQuery(
+      `SELECT small_blind, big_blind, tournament_id, rake_percentage, max_rake, rake_caps, no_flop_no_drop
+       FROM poker_tables WHERE id = ? AND is_active = true`,
+      [tableId]
+    );
+
+    if (tableResult.length === 0) {
+      throw new PokerEngineError('Table not found', 404);
+    }
+    const table = tableResult[0];
+
+    const serverSeed = ProvablyFairEngine.generateServerSeed();
+    const clientSeed = `poker_hand_${tableId}_${Date.now()}`;
+
+    // Seats are read under the table's lock; tournament tables move players between hands
+    const result = await this.exclusive(tableId, async () => {
+      // Humans and AI players are dealt in alike; players sitting out only where they post blinds
+      const seats = await executeQuery(`
+        SELECT ps.user_id, ps.seat_position, ps.chips
         FROM poker_seats ps
-        LEFT JOIN users u ON ps.user_id = u.id AND ps.user_id > 0
-        LEFT JOIN poker_ai_players pai ON -ps.user_id = pai.id AND ps.user_id < 0
+        JOIN poker_tables pt ON pt.id = ps.table_id
         WHERE ps.table_id = ? AND ps.is_active = true AND ps.chips > 0
+          AND (ps.is_sitting_out = false OR pt.sit_out_blinds = 'post')
         ORDER BY ps.seat_position ASC
       `, [tableId]);
 
-      if (dbPlayers.length < 2) {
-        this.io.to(`poker_table_${tableId}`).emit('poker:error', {
-          message: 'Not enough players to start hand'
-        });
+      return this.commit(tableId, await this.loadTable(tableId), state => ({
+        type: 'start_hand',
+        players: seats.map((seat: any) => ({
+          userId: seat.user_id,
+          seatPosition: seat.seat_position,
+          chips: parseFloat(seat.chips)
+        })),
+        deck: shuffleDeck(createDeck(), serverSeed, clientSeed, state.handNumber + 1),
+        smallBlind: parseFloat(table.small_blind),
+        bigBlind: parseFloat(table.big_blind),
+        rake: PokerRakeService.ruleFor(table, seats.length)
+      }));
+    });
+
+    console.log(`✅ Hand #${result.state.handNumber} started at table ${tableId}`);
+    return result;
+  }
+
+  /**
+   * Handle player action
+   */
+  async handlePlayerAction(socket: Socket, data: {
+    tableId: number;
+    action: PlayerActionType;
+    amount?: number;
+  }) {
+    try {
+      // The acting player is whoever owns the socket, whatever the payload says
+      await this.submitAction(Number(data.tableId), socket.data.user.id, data.action, Number(data.amount) || 0);
+    } catch (error) {
+      if (error instanceof PokerEngineError) {
+        socket.emit('poker:error', { message: error.message });
         return;
       }
 
-      // Create player objects for all players (human + AI)
-      const activePlayers = dbPlayers.map((dbPlayer: any) => {
-        // Check if this is a connected human player
-        const connectedPlayer = pokerTable.players.get(dbPlayer.user_id);
-        
-        if (connectedPlayer) {
-          // Use connected player data
-          return connectedPlayer;
-        } else {
-          // Create AI player object
-          return {
-            userId: dbPlayer.user_id,
-            seatPosition: dbPlayer.seat_position,
-            chips: parseFloat(dbPlayer.chips),
-            holeCards: this.safeParseJSON(dbPlayer.hole_cards, []),
-            currentBet: parseFloat(dbPlayer.current_bet || 0),
-            totalBetThisHand: parseFloat(dbPlayer.total_bet_this_hand || 0),
-            lastAction: dbPlayer.last_action,
-            isActive: dbPlayer.is_active,
-            isAllIn: dbPlayer.is_all_in,
-            isFolded: dbPlayer.last_action === 'fold',
-            socketId: null, // AI players don't have sockets
-            username: dbPlayer.username,
-            avatar: undefined,
-            isAI: dbPlayer.isAI
-          } as PokerPlayer;
-        }
-      });
+      console.error('Error handling player action:', error);
+      socket.emit('poker:error', { message: 'Failed to process action' });
+    }
+  }
 
-      // Get table info for blinds
-      const tableResult = await executeQuery(
-        'SELECT * FROM poker_tables WHERE id = ?',
-        [tableId]
-      );
+  /**
+   * Act for a player, human or AI. Throws PokerEngineError when the action is not allowed.
+   */
+  async submitAction(tableId: number, userId: number, action: PlayerActionType, amount: number = 0): Promise<PokerTable> {
+    return this.dispatch(tableId, { type: 'player_action', userId, action, amount });
+  }
 
-      if (tableResult.length === 0) return;
-      const table = tableResult[0];
+  /**
+   * Check or fold for a player who ran out of time
+   */
+  async timeoutPlayer(tableId: number, userId: number): Promise<PokerTable> {
+    return this.dispatch(tableId, { type: 'timeout', userId });
+  }
+
+  /**
+   * Sit a player out: the seat is kept and the action clock acts for them at once until they return
+   */
+  async sitOut(tableId: number, userId: number): Promise<boolean> {
+    const result = await executeQuery(
+      'UPDATE poker_seats SET is_sitting_out = true, sat_out_at = NOW() WHERE table_id = ? AND user_id = ? AND is_active = true AND is_sitting_out = false',
+      [tableId, userId]
+    );
+    if (result.affectedRows === 0) return false;
+
+    this.io.to(`poker_table_${tableId}`).emit('poker:player_sat_out', { userId });
+    await this.sendTableState(tableId);
+    return true;
+  }
+
+  /**
+   * Deal a player who was sitting out back in from the next hand, with a clean timeout count
+   */
+  async sitIn(tableId: number, userId: number): Promise<boolean> {
+    const result = await executeQuery(
+      `UPDATE poker_seats SET is_sitting_out = false, sat_out_at = NULL, consecutive_timeouts = 0
+       WHERE table_id = ? AND user_id = ? AND is_active = true AND is_sitting_out = true`,
+      [tableId, userId]
+    );
+    if (result.affectedRows === 0) return false;
+
+    this.io.to(`poker_table_${tableId}`).emit('poker:player_sat_in', { userId });
+    await this.sendTableState(tableId);
+    this.checkAndStartHand(tableId);
+    return true;
+  }
 
-      // Create and shuffle new deck
-      const deck = createDeck();
-      const serverSeed = ProvablyFairEngine.generateServerSeed();
-      const clientSeed = `poker_hand_${tableId}_${Date.now()}`;
-      const nonce = pokerTable.handNumber;
-      const shuffledDeck = shuffleDeck(deck, serverSeed, clientSeed, nonce);
-
-      // Reset game state
-      pokerTable.deck = shuffledDeck;
-      pokerTable.communityCards = [];
-      pokerTable.pot = 0;
-      pokerTable.currentBet = parseFloat(table.big_blind);
-      pokerTable.minRaise = parseFloat(table.big_blind);
-      pokerTable.bettingRound = 'pre_flop';
-      
-      // Rotate dealer position
-      pokerTable.dealerPosition = (pokerTable.dealerPosition + 1) % activePlayers.length;
-      pokerTable.smallBlindPosition = (pokerTable.dealerPosition + 1) % activePlayers.length;
-      pokerTable.bigBlindPosition = (pokerTable.dealerPosition + 2) % activePlayers.length;
-      pokerTable.currentPlayerPosition = (pokerTable.bigBlindPosition + 1) % activePlayers.length;
-
-      // Reset hole cards for all players
-      for (const player of activePlayers) {
-        player.holeCards = [];
+  /**
+   * Cash a player out of their seat, unless they still have chips in the hand being played.
+   * Returns the chips paid out, or null when they have no seat at the table.
+   */
+  async cashOut(tableId: number, userId: number): Promise<number | null> {
+    const left = await this.exclusive(tableId, async () => {
+      const { state } = await this.loadTable(tableId);
+      if (isInHand(state, userId)) {
+        throw new PokerEngineError('Cannot leave table during active game');
       }
 
-      // Deal hole cards (2 cards per player)
-      let cardIndex = 0;
-      for (let round = 0; round < 2; round++) {
-        for (const player of activePlayers) {
-          player.holeCards.push(shuffledDeck[cardIndex++]);
-        }
+      return this.cashOutSeat(tableId, userId, false, `Poker cash-out from table #${tableId}`);
+    });
+    if (left === null) return null;
+
+    this.io.to(`poker_table_${tableId}`).emit('poker:player_left', { userId });
+    await this.sendTableState(tableId);
+    return left;
+  }
+
+  /**
+   * Cash out a player who has been sitting out too long, once they have no chips in a hand
+   */
+  async removeSittingOut(tableId: number, userId: number): Promise<boolean> {
+    const removed = await this.exclusive(tableId, async () => {
+      const { state } = await this.loadTable(tableId);
+      if (isInHand(state, userId)) {
+        return null;
       }
 
-      // Post blinds
-      const smallBlindPlayer = activePlayers[pokerTable.smallBlindPosition];
-      const bigBlindPlayer = activePlayers[pokerTable.bigBlindPosition];
+      return this.cashOutSeat(tableId, userId, true, `Poker cash-out from table #${tableId} after sitting out`);
+    });
+    if (removed === null) return false;
 
-      const smallBlindAmount = Math.min(parseFloat(table.small_blind), smallBlindPlayer.chips);
-      const bigBlindAmount = Math.min(parseFloat(table.big_blind), bigBlindPlayer.chips);
+    console.log(`🪑 Removed player ${userId} from table ${tableId} after sitting out, cashed out $${removed}`);
+    this.io.to(`poker_table_${tableId}`).emit('poker:player_left', { userId, removed: true });
+    this.io.to(`user_${userId}`).emit('poker:removed_from_table', {
+      tableId,
+      chipsReturned: removed,
+      message: 'You were sitting out for too long and have been cashed out'
+    });
+    await this.sendTableState(tableId);
+    return true;
+  }
 
-      smallBlindPlayer.chips -= smallBlindAmount;
-      smallBlindPlayer.currentBet = smallBlindAmount;
-      smallBlindPlayer.totalBetThisHand = smallBlindAmount;
+  /**
+   * Sit out or back in from a socket; the player is whoever owns the socket
+   */
+  async handleSitOut(socket: Socket, data: { tableId: number; sitOut: boolean }) {
+    try {
+      const tableId = Number(data.tableId);
+      const userId = socket.data.user.id;
+      const changed = data.sitOut ? await this.sitOut(tableId, userId) : await this.sitIn(tableId, userId);
+      if (!changed) {
+        socket.emit('poker:error', { message: data.sitOut ? 'You are not seated or already sitting out' : 'You are not sitting out' });
+      }
+    } catch (error) {
+      console.error('Error changing sit-out state:', error);
+      socket.emit('poker:error', { message: 'Failed to change sit-out state' });
+    }
+  }
 
-      bigBlindPlayer.chips -= bigBlindAmount;
-      bigBlindPlayer.currentBet = bigBlindAmount;
-      bigBlindPlayer.totalBetThisHand = bigBlindAmount;
+  /**
+   * Current engine state of a table, including hole cards and the deck; never send it to clients as is
+   */
+  async getTableState(tableId: number): Promise<TableState> {
+    return (await this.loadTable(tableId)).state;
+  }
 
-      pokerTable.pot = smallBlindAmount + bigBlindAmount;
+  /**
+   * Forget the stored tables after an emergency reset has cleared the saved states
+   */
+  async resetTables() {
+    await PokerTableStore.clear();
+  }
 
-    // Create new game if doesn't exist
-    if (!pokerTable.gameId) {
-      const gameResult = await executeQuery(`
-        INSERT INTO poker_games (
-          table_id, game_state, dealer_position, small_blind_position, 
-          big_blind_position, current_player_position, pot_amount, 
-          hand_number, current_bet, min_raise, betting_round
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        tableId, 'dealing', pokerTable.dealerPosition, pokerTable.smallBlindPosition,
-        pokerTable.bigBlindPosition, pokerTable.currentPlayerPosition, pokerTable.pot,
-        pokerTable.handNumber, pokerTable.currentBet, pokerTable.minRaise, pokerTable.bettingRound
-      ]);
+  /**
+   * After a restart, carry on with interrupted hands, or void the ones whose state no longer adds
+   * up and give everyone back what they put in
+   */
+  async recoverTables() {
+    const games = await executeQuery(
+      "SELECT id, table_id FROM poker_games WHERE game_state != 'finished' ORDER BY id"
+    );
 
-      pokerTable.gameId = gameResult.insertId;
+    for (const game of games) {
+      try {
+        await this.exclusive(game.table_id, () => this.recoverTable(game.table_id, game.id));
+      } catch (error) {
+        console.error(`Error recovering poker table ${game.table_id}:`, error);
+      }
     }
 
-    // Create new hand record
-    const handResult = await executeQuery(`
-      INSERT INTO poker_hands (
-        game_id, table_id, hand_number, dealer_position, 
-        small_blind, big_blind, total_pot, started_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, NOW())
-    `, [
-      pokerTable.gameId,
-      tableId,
-      pokerTable.handNumber,
-      pokerTable.dealerPosition,
-      table.small_blind,
-      table.big_blind,
-      pokerTable.pot
-    ]);      const handId = handResult.insertId;
-
-      // Record blind actions (only for human players, skip AI players)
-      const blindActions = [];
-      
-      if (smallBlindPlayer.userId > 0) {
-        blindActions.push({
-          query: `INSERT INTO poker_actions (
-            hand_id, user_id, seat_position, action_type, amount, 
-            betting_round, action_sequence, pot_size_before, 
-            chips_before, chips_after
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          params: [
-            handId, smallBlindPlayer.userId, smallBlindPlayer.seatPosition,
-            'blind', smallBlindAmount, 'pre_flop', 1, 0,
-            smallBlindPlayer.chips + smallBlindAmount, smallBlindPlayer.chips
-          ]
-        });
-      }
-      
-      if (bigBlindPlayer.userId > 0) {
-        blindActions.push({
-          query: `INSERT INTO poker_actions (
-            hand_id, user_id, seat_position, action_type, amount, 
-            betting_round, action_sequence, pot_size_before, 
-            chips_before, chips_after
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          params: [
-            handId, bigBlindPlayer.userId, bigBlindPlayer.seatPosition,
-            'blind', bigBlindAmount, 'pre_flop', blindActions.length === 0 ? 1 : 2, 
-            blindActions.length === 0 ? 0 : smallBlindAmount,
-            bigBlindPlayer.chips + bigBlindAmount, bigBlindPlayer.chips
-          ]
+    // Tournament hands that completed before their results were recorded
+    const tournamentTables = await executeQuery(
+      'SELECT id FROM poker_tables WHERE tournament_id IS NOT NULL AND is_active = true'
+    );
+    for (const table of tournamentTables) {
+      try {
+        await this.exclusive(table.id, async () => {
+          const { state } = await this.loadTable(table.id);
+          if (!isHandInProgress(state)) {
+            await TournamentService.recordResults(table.id, state);
+          }
         });
+      } catch (error) {
+        console.error(`Error recording tournament results at table ${table.id}:`, error);
       }
-      
-      if (blindActions.length > 0) {
-        await executeTransaction(blindActions);
-      }
+    }
 
-      // Reset all players for new hand and save hole cards
-      const handResetUpdates = [];
-      for (const player of activePlayers) {
-        const updates = {
-          query: `UPDATE poker_seats SET 
-            hole_cards = ?, 
-            last_action = NULL, 
-            current_bet = 0, 
-            total_bet_this_hand = 0 
-            WHERE table_id = ? AND user_id = ?`,
-          params: [
-            player.holeCards ? JSON.stringify(player.holeCards) : null, 
-            tableId, 
-            player.userId
-          ]
-        };
-        handResetUpdates.push(updates);
-      }
-      
-      if (handResetUpdates.length > 0) {
-        await executeTransaction(handResetUpdates);
-        console.log(`🃏 Dealt hole cards and reset ${handResetUpdates.length} players for new hand`);
-      }
+    // Tables that were between hands deal again
+    const tables = await executeQuery('SELECT DISTINCT table_id FROM poker_seats WHERE is_active = true');
+    for (const table of tables) {
+      await this.checkAndStartHand(table.table_id);
+    }
+  }
+
+  private async recoverTable(tableId: number, gameId: number) {
+    // MySQL is committed first, so its snapshot is never behind the Redis copy
+    const table = await this.loadTable(tableId, true);
+
+    if (table.gameId !== gameId) {
+      await this.voidUntrackedGame(tableId, gameId);
+    } else if (!isHandInProgress(table.state)) {
+      await PokerTableStore.save(tableId, table);
+    } else if (isStateConsistent(table.state)) {
+      await PokerTableStore.save(tableId, table);
+      console.log(`♻️ Resuming hand #${table.state.handNumber} at table ${tableId}`);
+    } else {
+      console.warn(`Voiding hand #${table.state.handNumber} at table ${tableId}: its state does not add up`);
+      await this.commit(tableId, table, { type: 'void_hand' });
+    }
+  }
 
-      // Update game state from 'dealing' to 'pre_flop'
-      await executeQuery(`
-        UPDATE poker_games 
-        SET game_state = 'pre_flop' 
+  /**
+   * A game the engine has no state for: refund what the seats put in from their mirrored bets
+   */
+  private async voidUntrackedGame(tableId: number, gameId: number) {
+    console.warn(`Voiding game ${gameId} at table ${tableId}: no engine state to resume it from`);
+
+    await withTransaction(async (connection) => {
+      await connection.execute(`
+        UPDATE poker_seats
+        SET chips = chips + total_bet_this_hand, current_bet = 0, total_bet_this_hand = 0,
+            hole_cards = NULL, last_action = NULL, is_all_in = false
+        WHERE table_id = ? AND game_id = ?
+      `, [tableId, gameId]);
+
+      await connection.execute(`
+        UPDATE poker_games
+        SET game_state = 'finished', current_player_position = NULL, finished_at = NOW()
         WHERE id = ?
-      `, [pokerTable.gameId]);
+      `, [gameId]);
 
-      // Send hand started event
-      this.sendHandStarted(tableId, handId);
-      this.sendTableState(tableId);
+      await connection.execute(
+        'UPDATE poker_hands SET total_pot = 0, finished_at = NOW() WHERE game_id = ? AND finished_at IS NULL',
+        [gameId]
+      );
+    });
 
-      pokerTable.handNumber++;
-      
-      console.log(`✅ Hand started at table ${tableId}, transitioned to pre_flop state`);
+    this.io.to(`poker_table_${tableId}`).emit('poker:hand_voided', {
+      message: 'The hand was interrupted and has been called off; all bets were returned'
+    });
+  }
 
-    } catch (error) {
-      console.error('Error starting new hand:', error);
-      this.io.to(`poker_table_${tableId}`).emit('poker:error', {
-        message: 'Failed to start new hand'
-      });
-    }
+  /**
+   * Apply an action to a table: run the engine, persist the result, then broadcast its events
+   */
+  private dispatch(
+    tableId: number,
+    action: TableAction | ((state: TableState) => TableAction)
+  ): Promise<PokerTable> {
+    return this.exclusive(tableId, async () => this.commit(tableId, await this.loadTable(tableId), action));
   }
 
   /**
-   * Handle player action
+   * Run the engine on a loaded table; callers hold the table's lock
    */
-  async handlePlayerAction(socket: Socket, data: {
-    tableId: number;
-    userId: number;
-    action: string;
-    amount?: number;
-  }) {
-    try {
-      const { tableId, userId, action, amount = 0 } = data;
-      
-      let pokerTable = this.tables.get(tableId);
-      if (!pokerTable) {
-        console.log(`No poker table found in memory for table ${tableId}, initializing for action`);
-        
-        // Load current game state from database
-        const gameResult = await executeQuery(`
-          SELECT * FROM poker_games 
-          WHERE table_id = ? AND game_state != 'finished' 
-          ORDER BY created_at DESC LIMIT 1
-        `, [tableId]);
-        
-        const currentGame = gameResult.length > 0 ? gameResult[0] : null;
-        console.log('🔍 DEBUG - Loading game state from DB:', currentGame ? 
-          `currentPlayerPosition: ${currentGame.current_player_position}` : 'No active game');
-        
-        // Initialize table with real game state (not defaults)
-        const newTable: PokerTable = {
-          id: tableId,
-          players: new Map(),
-          spectators: new Set(),
-          gameState: currentGame,
-          deck: [],
-          communityCards: currentGame?.community_cards ? JSON.parse(currentGame.community_cards) : [],
-          pot: currentGame ? parseFloat(currentGame.pot_amount) : 0,
-          currentBet: currentGame ? parseFloat(currentGame.current_bet) : 0,
-          minRaise: currentGame ? parseFloat(currentGame.min_raise) : 0,
-          dealerPosition: currentGame ? currentGame.dealer_position : 0,
-          smallBlindPosition: currentGame ? currentGame.small_blind_position : 1,
-          bigBlindPosition: currentGame ? currentGame.big_blind_position : 2,
-          currentPlayerPosition: currentGame ? currentGame.current_player_position : 0,
-          bettingRound: currentGame ? currentGame.betting_round : 'pre_flop',
-          handNumber: currentGame ? currentGame.hand_number : 1
-        };
-        this.tables.set(tableId, newTable);
-        pokerTable = newTable;
-        
-        // Load current players from database
-        const dbPlayers = await executeQuery(`
-          SELECT ps.*, u.username, pai.name as ai_name
-          FROM poker_seats ps
-          LEFT JOIN users u ON ps.user_id = u.id AND ps.user_id > 0
-          LEFT JOIN poker_ai_players pai ON -ps.user_id = pai.id AND ps.user_id < 0
-          WHERE ps.table_id = ? AND ps.is_active = true
-        `, [tableId]);
-        
-        console.log('🔍 DEBUG - DB players found:', dbPlayers.length);
-        console.log('🔍 DEBUG - DB player user_ids:', dbPlayers.map(p => ({ user_id: p.user_id, username: p.username || p.ai_name })));
-        
-        // Add players to memory table
-        for (const dbPlayer of dbPlayers) {
-          const player: PokerPlayer = {
-            id: dbPlayer.user_id,
-            userId: dbPlayer.user_id,  // Add userId property for turn validation
-            socketId: dbPlayer.user_id > 0 ? socket.id : null,
-            username: dbPlayer.username || dbPlayer.ai_name,
-            chips: parseFloat(dbPlayer.chips),
-            seatPosition: dbPlayer.seat_position,
-            cards: dbPlayer.hole_cards ? (typeof dbPlayer.hole_cards === 'string' ? JSON.parse(dbPlayer.hole_cards) : dbPlayer.hole_cards) : [],
-            currentBet: parseFloat(dbPlayer.current_bet || 0),
-            totalBet: parseFloat(dbPlayer.total_bet_this_hand || 0),
-            isActive: !!dbPlayer.is_active,
-            hasActed: false,
-            lastAction: dbPlayer.last_action,
-            isAllIn: !!dbPlayer.is_all_in,
-            isFolded: dbPlayer.last_action === 'fold'
-          };
-          pokerTable.players.set(dbPlayer.user_id, player);
-        }
-      }
+  private async commit(
+    tableId: number,
+    table: PokerTable,
+    action: TableAction | ((state: TableState) => TableAction)
+  ): Promise<PokerTable> {
+    const { state, events } = applyAction(
+      table.state,
+      typeof action === 'function' ? action(table.state) : action
+    );
+
+    // Redis only moves on once MySQL has
+    const ids = await this.persist(tableId, table, state, events);
+    const next: PokerTable = { ...ids, state };
+    await PokerTableStore.save(tableId, next);
+
+    await this.broadcast(tableId, next, events);
+    return next;
+  }
 
-      // DEBUG: Log what players are in memory
-      console.log('🔍 DEBUG - Players in memory:', Array.from(pokerTable.players.keys()));
-      console.log('🔍 DEBUG - Looking for userId:', userId);
-      console.log('🔍 DEBUG - userId type:', typeof userId);
-      console.log('🔍 DEBUG - Player exists in memory:', pokerTable.players.has(userId));
+  /**
+   * Close a player's seat and pay its chips out of the table's escrow; callers hold the table's lock.
+   * The seat is read and closed in one transaction, so it can only ever be paid out once.
+   */
+  private cashOutSeat(tableId: number, userId: number, sittingOutOnly: boolean, description: string): Promise<number | null> {
+    return withTransaction(async (connection) => {
+      const [seats]: any = await connection.execute(
+        `SELECT id, chips FROM poker_seats
+         WHERE table_id = ? AND user_id = ? AND is_active = true ${sittingOutOnly ? 'AND is_sitting_out = true' : ''}
+         FOR UPDATE`,
+        [tableId, userId]
+      );
+      if (seats.length === 0) return null;
 
-      const player = pokerTable.players.get(userId);
-      if (!player) {
-        console.log('❌ DEBUG - Player not found in memory');
-        socket.emit('poker:error', { message: 'Player not at table' });
-        return;
-      }
-      console.log('✅ DEBUG - Player found:', player.username);
-
-      // Validate it's player's turn
-      console.log('🔍 DEBUG - Turn validation:');
-      console.log('  - Memory currentPlayerPosition:', pokerTable.currentPlayerPosition);
-      console.log('  - User seatPosition:', player.seatPosition);
-      console.log('  - User userId:', userId);
-      
-      const currentPlayer = Array.from(pokerTable.players.values())
-        .find(p => p.seatPosition === pokerTable.currentPlayerPosition);
-      
-      console.log('  - Found current player:', currentPlayer ? `${currentPlayer.username} (userId: ${currentPlayer.userId})` : 'null');
-
-      if (!currentPlayer || currentPlayer.userId !== userId) {
-        console.log('❌ DEBUG - Turn validation failed');
-        socket.emit('poker:error', { message: 'Not your turn' });
-        return;
-      }
-      console.log('✅ DEBUG - Turn validation passed');
-
-      // Validate action
-      const validation = validatePlayerAction(
-        player, 
-        action, 
-        amount, 
-        pokerTable.currentBet,
-        pokerTable.minRaise
+      await connection.execute(
+        'UPDATE poker_seats SET is_active = false, left_at = NOW() WHERE id = ?',
+        [seats[0].id]
       );
 
-      if (!validation.valid) {
-        socket.emit('poker:error', { message: validation.error });
-        return;
+      const chips = parseFloat(seats[0].chips);
+      if (chips > 0) {
+        await WalletService.apply(connection, userId, [{
+          type: 'cash_out',
+          amount: chips,
+          description: `${description} - Amount: $${seats[0].chips}`,
+          counterparty: LedgerService.pokerTable(tableId)
+        }]);
       }
+      return chips;
+    });
+  }
 
-      // Process action
-      await this.processPlayerAction(tableId, player, action, amount);
-
-      // Check if betting round is complete
-      const allPlayers = Array.from(pokerTable.players.values());
-      if (isBettingRoundComplete(allPlayers, pokerTable.currentBet)) {
-        await this.advanceBettingRound(tableId);
-      } else {
-        // Move to next player
-        const nextPosition = getNextActivePlayer(allPlayers, pokerTable.currentPlayerPosition);
-        if (nextPosition !== -1) {
-          pokerTable.currentPlayerPosition = nextPosition;
-          this.sendTableState(tableId);
-        }
+  /**
+   * Run tasks for one table one after another, here and across instances, so no action is applied
+   * to a stale state
+   */
+  private exclusive<T>(tableId: number, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(tableId) || Promise.resolve())
+      .then(() => PokerTableStore.withLock(tableId, task));
+    const settled = run.catch(() => undefined);
+    this.queues.set(tableId, settled);
+
+    settled.then(() => {
+      if (this.queues.get(tableId) === settled) {
+        this.queues.delete(tableId);
       }
+    });
 
-    } catch (error) {
-      console.error('Error handling player action:', error);
-      socket.emit('poker:error', { message: 'Failed to process action' });
-    }
+    return run;
   }
 
   /**
-   * Process individual player action
+   * Table from Redis, else as last saved in MySQL, else a fresh one carrying on the table's hand numbering
    */
-  private async processPlayerAction(tableId: number, player: PokerPlayer, action: string, amount: number) {
-    const pokerTable = this.tables.get(tableId)!;
-    
-    switch (action) {
-      case 'fold':
-        player.isFolded = true;
-        player.lastAction = 'fold';
-        break;
-        
-      case 'check':
-        player.lastAction = 'check';
-        break;
-        
-      case 'call':
-        const callAmount = pokerTable.currentBet - player.currentBet;
-        const actualCall = Math.min(callAmount, player.chips);
-        player.chips -= actualCall;
-        player.currentBet += actualCall;
-        player.totalBetThisHand += actualCall;
-        pokerTable.pot += actualCall;
-        player.lastAction = 'call';
-        if (player.chips === 0) {
-          player.isAllIn = true;
-        }
-        break;
-        
-      case 'bet':
-      case 'raise':
-        const betAmount = Math.min(amount, player.chips + player.currentBet);
-        const additionalBet = betAmount - player.currentBet;
-        player.chips -= additionalBet;
-        pokerTable.pot += additionalBet;
-        
-        // Update raise tracking
-        if (action === 'raise') {
-          pokerTable.minRaise = betAmount - pokerTable.currentBet;
-        }
-        
-        pokerTable.currentBet = betAmount;
-        player.currentBet = betAmount;
-        player.totalBetThisHand += additionalBet;
-        player.lastAction = action;
-        
-        if (player.chips === 0) {
-          player.isAllIn = true;
-        }
-        break;
-        
-      case 'all_in':
-        const allInAmount = player.chips + player.currentBet;
-        const additionalAllIn = player.chips;
-        player.chips = 0;
-        pokerTable.pot += additionalAllIn;
-        player.totalBetThisHand += additionalAllIn;
-        
-        if (allInAmount > pokerTable.currentBet) {
-          pokerTable.currentBet = allInAmount;
-        }
-        
-        player.currentBet = allInAmount;
-        player.isAllIn = true;
-        player.lastAction = 'all_in';
-        break;
+  private async loadTable(tableId: number, fromDatabase: boolean = false): Promise<PokerTable> {
+    if (!fromDatabase) {
+      const stored = await PokerTableStore.get(tableId).catch(error => {
+        console.error(`Failed to read poker table ${tableId} from Redis:`, error);
+        return null;
+      });
+      if (stored) return stored;
     }
 
-    // Broadcast action to all players
-    this.io.to(`poker_table_${tableId}`).emit('poker:player_action', {
-      userId: player.userId,
-      action,
-      amount,
-      newChips: player.chips,
-      newPot: pokerTable.pot,
-      currentBet: pokerTable.currentBet
-    });
-  }
+    const tableResult = await executeQuery(
+      'SELECT small_blind, big_blind FROM poker_tables WHERE id = ?',
+      [tableId]
+    );
 
-  /**
-   * Advance to next betting round or showdown
-   */
-  private async advanceBettingRound(tableId: number) {
-    const pokerTable = this.tables.get(tableId)!;
-    const nextRound = getNextBettingRound(pokerTable.bettingRound);
-    
-    if (!nextRound) {
-      // Go to showdown
-      await this.handleShowdown(tableId);
-      return;
+    if (tableResult.length === 0) {
+      throw new PokerEngineError('Table not found', 404);
     }
-    
-    // Reset betting for new round
-    pokerTable.bettingRound = nextRound;
-    pokerTable.currentBet = 0;
-    pokerTable.minRaise = parseFloat((await executeQuery(
-      'SELECT big_blind FROM poker_tables WHERE id = ?', 
+
+    const saved = await executeQuery(
+      'SELECT game_id, hand_id, state FROM poker_table_states WHERE table_id = ?',
       [tableId]
-    ))[0].big_blind);
-    
-    // Reset player bets
-    Array.from(pokerTable.players.values()).forEach(player => {
-      player.currentBet = 0;
-      player.lastAction = null;
-    });
-    
-    // Deal community cards
-    pokerTable.communityCards = dealCommunityCards(pokerTable.deck, nextRound);
-    
-    // Find first active player after dealer
-    const activePlayers = Array.from(pokerTable.players.values())
-      .filter(p => p.isActive && !p.isFolded && !p.isAllIn);
-    
-    if (activePlayers.length > 0) {
-      pokerTable.currentPlayerPosition = activePlayers[0].seatPosition;
+    );
+
+    let table: PokerTable;
+    if (saved.length > 0) {
+      table = {
+        // Fields added to the engine state since it was saved start from their defaults
+        state: {
+          ...createTableState(tableId, parseFloat(tableResult[0].small_blind), parseFloat(tableResult[0].big_blind)),
+          ...this.safeParseJSON(saved[0].state)
+        },
+        gameId: saved[0].game_id,
+        handId: saved[0].hand_id
+      };
+    } else {
+      const lastGame = await executeQuery(
+        'SELECT hand_number, dealer_position FROM poker_games WHERE table_id = ? ORDER BY id DESC LIMIT 1',
+        [tableId]
+      );
+
+      table = {
+        state: createTableState(
+          tableId,
+          parseFloat(tableResult[0].small_blind),
+          parseFloat(tableResult[0].big_blind),
+          lastGame.length > 0 ? lastGame[0].hand_number : 0,
+          lastGame.length > 0 ? lastGame[0].dealer_position : -1
+        ),
+        gameId: null,
+        handId: null
+      };
     }
-    
-    // Broadcast new round
-    this.io.to(`poker_table_${tableId}`).emit('poker:new_round', {
-      round: nextRound,
-      communityCards: pokerTable.communityCards
-    });
-    
-    this.sendTableState(tableId);
+
+    return table;
   }
 
   /**
-   * Handle showdown and determine winners
+   * Write the new state: engine snapshot, game and hand rows, seats, the action log and the hand's
+   * event log, in one transaction
    */
-  private async handleShowdown(tableId: number) {
-    const pokerTable = this.tables.get(tableId)!;
-    const activePlayers = Array.from(pokerTable.players.values())
-      .filter(p => p.isActive && !p.isFolded);
-
-    if (activePlayers.length === 1) {
-      // Only one player left, they win
-      const winner = activePlayers[0];
-      winner.chips += pokerTable.pot;
-      
-      this.io.to(`poker_table_${tableId}`).emit('poker:hand_complete', {
-        winner: { userId: winner.userId, username: winner.username },
-        winAmount: pokerTable.pot,
-        winReason: 'All others folded'
-      });
-      
-    } else {
-      // Evaluate hands for showdown
-      const handResults: Array<{ player: PokerPlayer; hand: HandResult }> = [];
-      
-      for (const player of activePlayers) {
-        const allCards = [...player.holeCards, ...pokerTable.communityCards];
-        const handResult = evaluateHand(allCards);
-        handResults.push({ player, hand: handResult });
+  private async persist(
+    tableId: number,
+    table: PokerTable,
+    state: TableState,
+    events: TableEvent[]
+  ): Promise<{ gameId: number | null; handId: number | null }> {
+    return withTransaction(async (connection) => {
+      let { gameId, handId } = table;
+
+      if (events.some(event => event.type === 'hand_started')) {
+        // Every hand has its own game row, finished when the hand completes
+        const [game]: any = await connection.execute(`
+          INSERT INTO poker_games (
+            table_id, game_state, dealer_position, small_blind_position,
+            big_blind_position, hand_number, betting_round
+          ) VALUES (?, 'pre_flop', ?, ?, ?, ?, 'pre_flop')
+        `, [
+          tableId, state.dealerPosition, state.smallBlindPosition,
+          state.bigBlindPosition, state.handNumber
+        ]);
+        gameId = game.insertId;
+
+        const [hand]: any = await connection.execute(`
+          INSERT INTO poker_hands (
+            game_id, table_id, hand_number, dealer_position,
+            small_blind, big_blind, total_pot, started_at, finished_at
+          ) VALUES (?, ?, ?, ?, ?, ?, 0, NOW(), NULL)
+        `, [
+          gameId, tableId, state.handNumber, state.dealerPosition,
+          state.smallBlind, state.bigBlind
+        ]);
+        handId = hand.insertId;
+
+        // Seats not dealt in carry nothing over from the last hand
+        await connection.execute(`
+          UPDATE poker_seats
+          SET hole_cards = NULL, last_action = NULL, current_bet = 0, total_bet_this_hand = 0, is_all_in = false
+          WHERE table_id = ? AND is_active = true
+        `, [tableId]);
       }
-      
-      // Sort by hand strength (best first)
-      handResults.sort((a, b) => compareHands(a.hand, b.hand));
-      
-      // Calculate side pots and distribute winnings
-      const sidePots = calculateSidePots(activePlayers);
-      this.distributeSidePots(sidePots, handResults);
-      
-      // Broadcast showdown results
-      this.io.to(`poker_table_${tableId}`).emit('poker:showdown', {
-        results: handResults.map(r => ({
-          userId: r.player.userId,
-          username: r.player.username,
-          hand: r.hand,
-          holeCards: r.player.holeCards
-        }))
-      });
-    }
 
-    // Reset for next hand
-    this.resetTableForNextHand(tableId);
+      // A player who drops mid-hand keeps their seat row tied to the game, so winnings still land
+      for (const seat of state.seats) {
+        await connection.execute(`
+          UPDATE poker_seats
+          SET game_id = ?, chips = ?, hole_cards = ?, current_bet = ?,
+              total_bet_this_hand = ?, last_action = ?, is_all_in = ?
+          WHERE table_id = ? AND user_id = ? AND (is_active = true OR game_id = ?)
+        `, [
+          gameId, seat.chips, JSON.stringify(seat.holeCards), seat.currentBet,
+          seat.totalBetThisHand, seat.lastAction, seat.isAllIn,
+          tableId, seat.userId, gameId
+        ]);
+      }
+
+      // Time banks are charged from the game's last action time, so before it moves on
+      if (gameId) {
+        await PokerActionClock.recordEvents(connection, tableId, gameId, events);
+      }
+
+      const complete = state.phase === 'complete';
+      await connection.execute(`
+        UPDATE poker_games
+        SET game_state = ?, betting_round = ?, current_player_position = ?, pot_amount = ?,
+            community_cards = ?, current_bet = ?, min_raise = ?, last_action_at = NOW(),
+            finished_at = ${complete ? 'NOW()' : 'NULL'}
+        WHERE id = ?
+      `, [
+        complete ? 'finished' : state.phase,
+        currentRound(state),
+        state.currentPlayerPosition >= 0 ? state.currentPlayerPosition : null,
+        state.pot,
+        JSON.stringify(state.communityCards),
+        state.currentBet,
+        state.minRaise,
+        gameId
+      ]);
+
+      // Events of one dispatch always belong to a single hand and end at its latest sequence
+      const firstSequence = state.eventSequence - events.length + 1;
+      for (const [index, event] of events.entries()) {
+        await connection.execute(`
+          INSERT INTO poker_hand_events (hand_id, table_id, sequence, event_type, payload)
+          VALUES (?, ?, ?, ?, ?)
+        `, [handId, tableId, firstSequence + index, event.type, JSON.stringify(event)]);
+      }
+
+      for (const event of events) {
+        // poker_actions references users, so AI actions are only kept in the engine state
+        if ((event.type === 'blind_posted' || event.type === 'player_acted') && event.userId > 0) {
+          await connection.execute(`
+            INSERT INTO poker_actions (
+              hand_id, user_id, seat_position, action_type, amount,
+              betting_round, action_sequence, pot_size_before,
+              chips_before, chips_after, is_all_in
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            handId, event.userId, event.seatPosition,
+            event.type === 'blind_posted' ? 'blind' : event.action,
+            event.amount,
+            event.type === 'blind_posted' ? 'pre_flop' : event.round,
+            event.sequence, event.potBefore,
+            event.chipsBefore, event.chipsAfter, event.chipsAfter === 0
+          ]);
+        }
+
+        if (event.type === 'hand_voided') {
+          await connection.execute(
+            'UPDATE poker_hands SET total_pot = 0, finished_at = NOW() WHERE id = ?',
+            [handId]
+          );
+        }
+
+        if (event.type === 'hand_complete') {
+          const showdown = events.find(
+            (e): e is Extract<TableEvent, { type: 'showdown' }> => e.type === 'showdown'
+          );
+          const topWinner = [...event.winners].sort((a, b) => b.amount - a.amount)[0];
+          const winningHand = showdown?.results.find(r => r.userId === topWinner.userId)?.hand;
+
+          await connection.execute(`
+            UPDATE poker_hands
+            SET total_pot = ?, rake_amount = ?, community_cards = ?, winner_user_id = ?, winning_hand = ?,
+                side_pots = ?, showdown_hands = ?, finished_at = NOW()
+            WHERE id = ?
+          `, [
+            event.pot,
+            event.rake || 0,
+            JSON.stringify(event.communityCards),
+            topWinner.userId > 0 ? topWinner.userId : null,
+            winningHand ? JSON.stringify(winningHand) : null,
+            JSON.stringify(event.pots),
+            showdown ? JSON.stringify(showdown.results) : null,
+            handId
+          ]);
+
+          await PokerRakeService.recordHand(connection, tableId, handId, state, event.rake || 0);
+          await PokerStatsService.recordHand(connection, handId);
+        }
+      }
+
+      await connection.execute(`
+        INSERT INTO poker_table_states (table_id, game_id, hand_id, state)
+        VALUES (?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE game_id = VALUES(game_id), hand_id = VALUES(hand_id), state = VALUES(state)
+      `, [tableId, gameId, handId, JSON.stringify(state)]);
+
+      return { gameId, handId };
+    });
   }
 
   /**
-   * Distribute side pots to winners
+   * Turn engine events into socket events, then send everyone the new table state
    */
-  private distributeSidePots(sidePots: any[], handResults: any[]) {
-    for (const pot of sidePots) {
-      const eligibleResults = handResults.filter(r => 
-        pot.eligiblePlayers.includes(r.player.userId)
-      );
-      
-      if (eligibleResults.length > 0) {
-        const winners = eligibleResults.filter(r => 
-          compareHands(r.hand, eligibleResults[0].hand) === 0
-        );
-        
-        const winAmount = pot.amount / winners.length;
-        for (const winner of winners) {
-          winner.player.chips += winAmount;
+  private async broadcast(tableId: number, table: PokerTable, events: TableEvent[]) {
+    const room = `poker_table_${tableId}`;
+    const names = events.some(event => event.type === 'showdown' || event.type === 'hand_complete')
+      ? await this.playerNames(table.state.seats.map(seat => seat.userId))
+      : new Map<number, string>();
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'hand_started':
+          this.sendHandStarted(tableId, table.handId!, event.handNumber);
+          break;
+
+        case 'player_acted':
+          this.io.to(room).emit('poker:player_action', {
+            userId: event.userId,
+            action: event.action,
+            amount: event.amount,
+            newChips: event.chipsAfter,
+            newPot: event.pot,
+            currentBet: event.currentBet,
+            timedOut: event.timedOut
+          });
+          break;
+
+        case 'round_advanced':
+          this.io.to(room).emit('poker:new_round', {
+            round: event.round,
+            communityCards: event.communityCards
+          });
+          break;
+
+        case 'showdown':
+          this.io.to(room).emit('poker:showdown', {
+            results: event.results.map(result => ({
+              userId: result.userId,
+              username: names.get(result.userId),
+              hand: result.hand,
+              holeCards: result.holeCards
+            }))
+          });
+          break;
+
+        case 'hand_complete': {
+          const winners = event.winners.map(winner => ({
+            userId: winner.userId,
+            username: names.get(winner.userId),
+            amount: winner.amount
+          }));
+
+          this.io.to(room).emit('poker:hand_complete', {
+            winners,
+            winner: { userId: winners[0].userId, username: winners[0].username },
+            winAmount: winners[0].amount,
+            winReason: event.reason === 'fold' ? 'All others folded' : 'Showdown',
+            pot: event.pot,
+            pots: event.pots,
+            tableId,
+            handId: table.handId
+          });
+
+          // Tournament tables place busted players before the next hand is dealt
+          await TournamentService.recordResults(tableId, table.state)
+            .catch(error => console.error(`Error recording tournament results at table ${tableId}:`, error));
+
+          setTimeout(() => this.checkAndStartHand(tableId), NEXT_HAND_DELAY_MS);
+          break;
         }
+
+        case 'hand_voided':
+          this.io.to(room).emit('poker:hand_voided', {
+            refunds: event.refunds,
+            message: 'The hand was interrupted and has been called off; all bets were returned'
+          });
+
+          setTimeout(() => this.checkAndStartHand(tableId), NEXT_HAND_DELAY_MS);
+          break;
       }
     }
+
+    await this.sendTableState(tableId);
+
+    const seat = seatToAct(table.state);
+    const clock = seat && await PokerActionClock.clockFor(tableId, seat);
+    if (clock) {
+      this.io.to(room).emit('poker:action_clock', clock);
+    }
   }
 
   /**
-   * Reset table state for next hand
+   * Usernames for human players, names for AI players
    */
-  private resetTableForNextHand(tableId: number) {
-    const pokerTable = this.tables.get(tableId)!;
-    
-    // Reset player states
-    Array.from(pokerTable.players.values()).forEach(player => {
-      player.holeCards = [];
-      player.currentBet = 0;
-      player.totalBetThisHand = 0;
-      player.lastAction = null;
-      player.isFolded = false;
-      player.isAllIn = false;
-    });
-    
-    // Reset table state
-    pokerTable.communityCards = [];
-    pokerTable.pot = 0;
-    pokerTable.currentBet = 0;
-    pokerTable.bettingRound = 'pre_flop';
-    
-    this.sendTableState(tableId);
+  private async playerNames(userIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    const humanIds = userIds.filter(id => id > 0);
+    const aiIds = userIds.filter(id => id < 0).map(id => -id);
+
+    if (humanIds.length > 0) {
+      const users = await executeQuery(
+        `SELECT id, username FROM users WHERE id IN (${humanIds.map(() => '?').join(',')})`,
+        humanIds
+      );
+      users.forEach((user: any) => names.set(user.id, user.username));
+    }
+
+    if (aiIds.length > 0) {
+      const aiPlayers = await executeQuery(
+        `SELECT id, name FROM poker_ai_players WHERE id IN (${aiIds.map(() => '?').join(',')})`,
+        aiIds
+      );
+      aiPlayers.forEach((ai: any) => names.set(-ai.id, ai.name));
+    }
+
+    return names;
   }
 
   /**
@@ -788,14 +856,14 @@ class PokerGameManager {
    */
   static async handleHeartbeat(socket: Socket, data: any) {
     try {
-      const userId = (socket as any).user?.id;
+      const userId = socket.data.user?.id;
       if (userId) {
         // Update last_seen timestamp for this player
         await executeQuery(
           'UPDATE poker_seats SET last_seen = NOW() WHERE user_id = ? AND is_active = 1',
           [userId]
         );
-        
+
         // Send heartbeat response
         socket.emit('heartbeat_response', { timestamp: Date.now() });
       }
@@ -805,7 +873,7 @@ class PokerGameManager {
   }
 
   /**
-   * Send complete table state to all players
+   * Send complete table state to everyone at the table; each player sees only their own hole cards
    */
   private async sendTableState(tableId: number) {
     try {
@@ -820,21 +888,21 @@ class PokerGameManager {
 
       // Get all players currently at the table (including AI)
       const players = await executeQuery(`
-        SELECT 
+        SELECT
           ps.*,
-          CASE 
+          CASE
             WHEN ps.user_id > 0 THEN u.username
             ELSE pai.name
           END as username,
-          CASE 
+          CASE
             WHEN ps.user_id < 0 THEN pai.playing_style
             ELSE NULL
           END as playing_style,
-          CASE 
+          CASE
             WHEN ps.user_id < 0 THEN pai.skill_level
             ELSE NULL
           END as skill_level,
-          CASE 
+          CASE
             WHEN ps.user_id < 0 THEN true
             ELSE false
           END as isAI
@@ -866,34 +934,40 @@ class PokerGameManager {
           isAllIn: !!p.is_all_in,
           isFolded: p.last_action === 'fold',
           isAI: !!p.isAI,
+          isSittingOut: !!p.is_sitting_out,
+          timeBank: p.time_bank_seconds ?? table.time_bank_seconds,
           playingStyle: p.playing_style,
           skillLevel: p.skill_level
         })),
-        communityCards: (() => {
-          try {
-            return currentGame?.community_cards ? 
-              (typeof currentGame.community_cards === 'string' ? 
-                JSON.parse(currentGame.community_cards) : currentGame.community_cards) : [];
-          } catch (e) {
-            console.warn('Failed to parse community_cards:', currentGame?.community_cards);
-            return [];
-          }
-        })(),
+        communityCards: this.safeParseJSON(currentGame?.community_cards, []),
         pot: currentGame ? parseFloat(currentGame.pot_amount || 0) : 0,
         currentBet: currentGame ? parseFloat(currentGame.current_bet || 0) : 0,
         minRaise: currentGame ? parseFloat(currentGame.min_raise || table.big_blind) : parseFloat(table.big_blind),
-        currentPlayerPosition: currentGame ? currentGame.current_player_position : 0,
+        currentPlayerPosition: currentGame?.current_player_position ?? -1,
         dealerPosition: currentGame ? currentGame.dealer_position : 0,
         bettingRound: currentGame ? currentGame.betting_round : 'pre_flop',
         handNumber: currentGame ? currentGame.hand_number : 1
       };
 
+      const holeCards = new Map<number, any[]>(
+        players.map((p: any) => [p.user_id, this.safeParseJSON(p.hole_cards, [])])
+      );
+
       console.log(`Sending table state for table ${tableId}:`, {
         playersCount: tableState.players.length,
         pot: tableState.pot
       });
 
-      this.io.to(`poker_table_${tableId}`).emit('poker:table_state', tableState);
+      const sockets = await this.io.in(`poker_table_${tableId}`).fetchSockets();
+      for (const socket of sockets) {
+        const viewerId = socket.data.user?.id;
+        socket.emit('poker:table_state', {
+          ...tableState,
+          players: tableState.players.map((p: any) =>
+            p.userId === viewerId ? { ...p, holeCards: holeCards.get(p.userId) } : p
+          )
+        });
+      }
     } catch (error) {
       console.error('Error sending table state:', error);
     }
@@ -902,9 +976,10 @@ class PokerGameManager {
   /**
    * Send hand started event
    */
-  private sendHandStarted(tableId: number, handId: number) {
+  private sendHandStarted(tableId: number, handId: number, handNumber: number) {
     this.io.to(`poker_table_${tableId}`).emit('poker:hand_started', {
       handId,
+      handNumber,
       message: 'New hand started!'
     });
   }
@@ -914,43 +989,38 @@ class PokerGameManager {
    */
   async checkAndStartHand(tableId: number) {
     try {
-      // Get current game state to see if a hand is already in progress
-      const gameResult = await executeQuery(
-        'SELECT * FROM poker_games WHERE table_id = ? AND game_state IN ("active", "waiting") ORDER BY created_at DESC LIMIT 1',
-        [tableId]
-      );
-
-      if (gameResult.length > 0) {
-        console.log(`Table ${tableId} already has a game in progress`);
-        return; // Game already in progress
+      const table = await this.loadTable(tableId);
+      if (isHandInProgress(table.state)) {
+        console.log(`Table ${tableId} already has a hand in progress`);
+        return;
       }
 
-      // Check if we have enough players
+      // Check if we have enough players; a cash table whose players are all away waits for one to come back
       const dbPlayers = await executeQuery(`
-        SELECT COUNT(*) as player_count
+        SELECT COUNT(*) as player_count, COALESCE(SUM(ps.is_sitting_out = false), 0) as present_count,
+               MAX(pt.tournament_id) as tournament_id
         FROM poker_seats ps
+        JOIN poker_tables pt ON pt.id = ps.table_id
         WHERE ps.table_id = ? AND ps.is_active = true AND ps.chips > 0
+          AND (ps.is_sitting_out = false OR pt.sit_out_blinds = 'post')
       `, [tableId]);
 
-      const playerCount = dbPlayers[0].player_count;
-      console.log(`Table ${tableId} has ${playerCount} active players`);
+      const { player_count: playerCount, present_count: presentCount, tournament_id: tournamentId } = dbPlayers[0];
+      console.log(`Table ${tableId} has ${playerCount} players dealt in, ${presentCount} of them present`);
 
-      if (playerCount >= 2) {
-        console.log(`Starting new hand for table ${tableId}`);
-        await this.startNewHand(tableId);
+      if (playerCount >= 2 && (Number(presentCount) > 0 || tournamentId !== null)) {
+        await this.startHand(tableId);
       }
     } catch (error) {
+      // Someone else starting the hand first is fine
+      if (error instanceof PokerEngineError) {
+        console.log(`Table ${tableId} hand not started: ${error.message}`);
+        return;
+      }
       console.error('Error checking and starting hand:', error);
     }
   }
 
-  /**
-   * Public method to start a hand (can be called from routes)
-   */
-  async startHand(tableId: number) {
-    return this.startNewHand(tableId);
-  }
-
   /**
    * Handle socket disconnection
    */
@@ -961,36 +1031,33 @@ class PokerGameManager {
 
       console.log(`Handling disconnect for user ${userId} (${socket.data?.user?.username})`);
 
-      // Find and remove player from any tables
-      Array.from(this.tables.entries()).forEach(([tableId, table]) => {
-        Array.from(table.players.entries()).forEach(([playerId, player]) => {
-          if (player.socketId === socket.id) {
-            // Mark as sitting out but don't remove immediately
-            player.isActive = false;
-            this.io.to(`poker_table_${tableId}`).emit('poker:player_disconnected', {
-              userId: playerId,
-              username: player.username
-            });
-          }
+      const tableId = (socket as any).pokerTableId;
+      if (tableId) {
+        this.io.to(`poker_table_${tableId}`).emit('poker:player_disconnected', {
+          userId,
+          username: socket.data.user.username
         });
-        
-        // Remove from spectators
-        table.spectators.delete(socket.id);
-      });
+      }
 
-      // Update database to mark player as inactive with a short delay
-      // This gives them time to reconnect without losing their seat
+      // Sit the player out after a grace period, unless they have reconnected on any instance by then.
+      // Their seats are kept; cash seats are cashed out if they stay away past the table's limit.
       setTimeout(async () => {
         try {
-          await executeQuery(
-            'UPDATE poker_seats SET is_active = 0, left_at = NOW() WHERE user_id = ? AND is_active = 1',
+          const sockets = await this.io.in(`user_${userId}`).fetchSockets();
+          if (sockets.length > 0) return;
+
+          const seats = await executeQuery(
+            'SELECT table_id FROM poker_seats WHERE user_id = ? AND is_active = 1 AND is_sitting_out = 0',
             [userId]
           );
-          console.log(`✅ Cleaned up poker seats for disconnected user ${userId}`);
+          for (const seat of seats) {
+            await this.sitOut(seat.table_id, userId);
+          }
+          console.log(`✅ Sat out disconnected user ${userId} at ${seats.length} table(s)`);
         } catch (error) {
-          console.error('❌ Error cleaning up poker seats on disconnect:', error);
+          console.error('❌ Error sitting out disconnected user:', error);
         }
-      }, 30000); // 30 second grace period for reconnection
+      }, DISCONNECT_GRACE_MS);
 
     } catch (error) {
       console.error('Error handling disconnect:', error);
@@ -1002,7 +1069,7 @@ class PokerGameManager {
    */
   private safeParseJSON(data: any, defaultValue: any = null): any {
     if (!data) return defaultValue;
-    
+
     if (typeof data === 'string') {
       try {
         return JSON.parse(data);
@@ -1011,10 +1078,10 @@ class PokerGameManager {
         return defaultValue;
       }
     }
-    
+
     // Already parsed object
     return data;
   }
 }
 
-export default PokerGameManager;
\ No newline at end of file
+export default PokerGameManager;
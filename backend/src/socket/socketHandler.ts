@@ -1,19 +1,50 @@
-import { Server } from 'socket.io';
-import jwt from 'jsonwebtoken';
+import { Server, Socket } from 'socket.io';
 import PokerGameManager from './pokerHandler';
+import CrashGameManager from './crashHandler';
 import AIPlayerManager from '../services/aiPlayerManager';
+import PokerActionClock from '../services/pokerActionClock';
+import TournamentService from '../services/tournamentService';
+import AutoBetService from '../services/autoBetService';
+import { RealityCheckService } from '../services/realityCheckService';
+import { LeaderLease } from '../services/leaderLease';
+import { TokenService } from '../services/tokenService';
+import { AuditService } from '../services/auditService';
+import { roleError, UserRole } from '../middleware/auth';
 
 let pokerManager: PokerGameManager;
+let crashManager: CrashGameManager;
 
+// The loops below run on the leader instance only (see LeaderLease); every instance serves sockets
 export const initializeSocket = (io: Server) => {
   // Initialize poker game manager
   pokerManager = new PokerGameManager(io);
+
+  // Resume or void hands the previous leader left behind
+  LeaderLease.onElected(() => pokerManager.recoverTables()
+    .catch(error => console.error('Poker table recovery failed:', error)));
+
+  // The shared crash round loop; other instances reach it through leader calls
+  crashManager = new CrashGameManager(io);
+  LeaderLease.onElected(() => crashManager.start());
+  LeaderLease.onDemoted(() => crashManager.stop());
+
+  // Resume server-side auto-bet sessions; crash sessions follow the round loop
+  AutoBetService.initialize(io, crashManager);
+
+  // Push reality checks to players whose interval has come round
+  RealityCheckService.initialize(io);
   
-  // Initialize AI Player Manager
-  AIPlayerManager.initialize(io);
+  // AI players act through the poker manager, like humans
+  AIPlayerManager.initialize(io, pokerManager);
+
+  // Checks or folds for players whose time has run out, and removes players away for too long
+  PokerActionClock.initialize(pokerManager);
+
+  // Sit & Go blind clock; tournament tables deal through the poker manager
+  TournamentService.initialize(io, pokerManager);
 
   // Authentication middleware for socket connections
-  io.use((socket, next) => {
+  io.use(async (socket, next) => {
     const token = socket.handshake.auth.token;
     
     if (!token) {
@@ -21,8 +52,7 @@ export const initializeSocket = (io: Server) => {
     }
     
     try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
-      socket.data.user = decoded;
+      socket.data.user = await TokenService.verifyAccessToken(token);
       next();
     } catch (err) {
       next(new Error('Authentication error'));
@@ -35,6 +65,22 @@ export const initializeSocket = (io: Server) => {
     // Join user to their personal room for balance updates
     socket.join(`user_${socket.data.user.id}`);
 
+    // Session room, so signing a session out can drop its sockets
+    socket.join(`session_${socket.data.user.sid}`);
+
+    // A session can end while its socket stays open (time limit, expiry); check before each event
+    socket.use(async (_event, next) => {
+      try {
+        if (await TokenService.isSessionActive(socket.data.user.sid)) {
+          next();
+          return;
+        }
+        socket.disconnect(true);
+      } catch (error) {
+        next(error as Error);
+      }
+    });
+
     // Handle game room joining
     socket.on('game:join', (gameType) => {
       socket.join(`game_${gameType}`);
@@ -58,11 +104,20 @@ export const initializeSocket = (io: Server) => {
       });
     });
 
+    // Crash round events
+    socket.on('crash:bet', (data) => crashManager.handleBet(socket, data));
+    socket.on('crash:cashout', () => crashManager.handleCashout(socket));
+
         // Poker-specific events
-    socket.on('poker:join_table', (data) => PokerGameManager.handleJoinTable(socket, data));
+    socket.on('poker:join_table', (data) => pokerManager.handleJoinTable(socket, data));
     socket.on('poker:leave_table', (data) => pokerManager.leaveTable(socket, data));
     socket.on('poker:action', (data) => pokerManager.handlePlayerAction(socket, data));
-    socket.on('poker:start_hand', (data) => pokerManager.startNewHand(data.tableId));
+    socket.on('poker:sit_out', (data) => pokerManager.handleSitOut(socket, { ...data, sitOut: true }));
+    socket.on('poker:sit_in', (data) => pokerManager.handleSitOut(socket, { ...data, sitOut: false }));
+    socket.on('poker:start_hand', (data) => {
+      if (!authorize(socket, 'admin', 'poker.start_hand', 'poker:start_hand', data, 'poker:error')) return;
+      pokerManager.startNewHand(data.tableId);
+    });
     
     // Heartbeat to keep connection alive and update player activity
     socket.on('heartbeat', (data) => PokerGameManager.handleHeartbeat(socket, data));
@@ -79,4 +134,29 @@ export const initializeSocket = (io: Server) => {
   };
 };
 
-export const getPokerManager = () => pokerManager;
\ No newline at end of file
+/**
+ * Role check for privileged socket events: allowed attempts are audited, others get an error event
+ */
+const authorize = (socket: Socket, required: UserRole, action: string, event: string, data: any, errorEvent: string): boolean => {
+  const user = socket.data.user;
+  const error = roleError(user, required);
+  if (error) {
+    socket.emit(errorEvent, { message: error });
+    return false;
+  }
+
+  AuditService.record({
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    action,
+    method: 'SOCKET',
+    path: event,
+    params: data,
+    ipAddress: socket.handshake.address
+  });
+  return true;
+};
+
+export const getPokerManager = () => pokerManager;
+export const getCrashManager = () => crashManager;
\ No newline at end of file
@@ -0,0 +1,30 @@
+-- Provably Fair Seed Lifecycle
+-- Each user plays against one active server seed at a time. Only the SHA-256 hash of the
+-- server seed is published while it is active; the seed itself is revealed on rotation.
+
+CREATE TABLE IF NOT EXISTS user_seeds (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    server_seed VARCHAR(64) NOT NULL,
+    server_seed_hash VARCHAR(64) NOT NULL,
+    client_seed VARCHAR(64) NOT NULL,
+    nonce INT NOT NULL DEFAULT 0, -- Next nonce to be used, incremented on every bet
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    revealed_at TIMESTAMP NULL,
+
+    -- Only one active seed pair per user (NULL for rotated pairs)
+    active_user_id INT GENERATED ALWAYS AS (IF(is_active, user_id, NULL)) STORED,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    UNIQUE KEY unique_active_seed (active_user_id),
+    INDEX idx_user_seeds (user_id, created_at),
+    INDEX idx_server_seed_hash (server_seed_hash)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Link every bet to the seed pair it was played with
+ALTER TABLE bets
+ADD COLUMN seed_id INT NULL AFTER session_id,
+ADD CONSTRAINT fk_bets_seed FOREIGN KEY (seed_id) REFERENCES user_seeds(id) ON DELETE SET NULL,
+ADD INDEX idx_seed_id (seed_id);
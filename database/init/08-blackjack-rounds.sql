@@ -0,0 +1,36 @@
+-- Interactive Blackjack Rounds
+-- A round is dealt from a shoe fixed by the player's seed pair and nonce. Stakes are taken
+-- as they are placed (deal, double, split, insurance); the payout and the bet record are
+-- written only when the round finishes.
+
+CREATE TABLE IF NOT EXISTS blackjack_rounds (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    game_id INT NOT NULL,
+    seed_id INT NULL,
+    server_seed VARCHAR(64) NOT NULL,
+    client_seed VARCHAR(64) NOT NULL,
+    nonce INT NOT NULL,
+    base_bet DECIMAL(18,2) NOT NULL,
+    total_bet DECIMAL(18,2) NOT NULL,
+    total_payout DECIMAL(18,2) DEFAULT 0.00,
+    state JSON NOT NULL, -- Full round state including the hole card; never sent to the client as-is
+    status ENUM('active', 'finished') DEFAULT 'active',
+    version INT NOT NULL DEFAULT 0, -- Bumped on every action so concurrent requests cannot both apply
+    bet_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP NULL,
+
+    -- Only one round in progress per user
+    active_user_id INT GENERATED ALWAYS AS (IF(status = 'active', user_id, NULL)) STORED,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
+    FOREIGN KEY (seed_id) REFERENCES user_seeds(id) ON DELETE SET NULL,
+    FOREIGN KEY (bet_id) REFERENCES bets(id) ON DELETE SET NULL,
+
+    UNIQUE KEY unique_active_round (active_user_id),
+    INDEX idx_blackjack_user (user_id, created_at),
+    INDEX idx_blackjack_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
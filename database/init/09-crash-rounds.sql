@@ -0,0 +1,57 @@
+-- Multiplayer Crash Rounds
+-- Crash points come from a hash chain: a random root seed is hashed repeatedly and the
+-- chain is played backwards, so each round's seed hashes to the previous round's seed.
+-- The hash of the first seed is published when the chain is created, which commits to
+-- every crash point in the chain before any round is played.
+
+CREATE TABLE IF NOT EXISTS crash_chains (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    root_seed VARCHAR(64) NOT NULL, -- Last link of the chain; never published
+    terminal_hash VARCHAR(64) NOT NULL, -- SHA-256 of the first round's seed; published up front
+    salt VARCHAR(64) NOT NULL, -- Public salt mixed into every crash point of the chain
+    length INT NOT NULL,
+    rounds_played INT NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_crash_chain_active (is_active)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS crash_rounds (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    chain_id INT NOT NULL,
+    round_index INT NOT NULL, -- Position in play order; also the nonce for the crash point
+    seed_hash VARCHAR(64) NOT NULL, -- Commitment broadcast when betting opens
+    seed VARCHAR(64) NULL, -- Revealed once the round has crashed
+    crash_point DECIMAL(10,2) NULL,
+    status ENUM('betting', 'running', 'crashed', 'cancelled') DEFAULT 'betting',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP(3) NULL,
+    crashed_at TIMESTAMP(3) NULL,
+
+    FOREIGN KEY (chain_id) REFERENCES crash_chains(id) ON DELETE CASCADE,
+
+    UNIQUE KEY unique_chain_round (chain_id, round_index),
+    INDEX idx_crash_round_status (status),
+    INDEX idx_crash_round_created (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS crash_bets (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    round_id INT NOT NULL,
+    user_id INT NOT NULL,
+    bet_amount DECIMAL(18,2) NOT NULL,
+    auto_cash_out DECIMAL(10,2) NULL,
+    cashed_out_at DECIMAL(10,2) NULL,
+    win_amount DECIMAL(18,2) DEFAULT 0.00,
+    status ENUM('active', 'cashed_out', 'lost', 'refunded') DEFAULT 'active',
+    bet_id INT NULL, -- Row in bets written when the round settles
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (round_id) REFERENCES crash_rounds(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (bet_id) REFERENCES bets(id) ON DELETE SET NULL,
+
+    UNIQUE KEY unique_round_user (round_id, user_id),
+    INDEX idx_crash_bets_user (user_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
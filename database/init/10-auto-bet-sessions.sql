@@ -0,0 +1,28 @@
+-- Auto-Bet Sessions
+-- A server-side strategy run for dice or crash. The session keeps betting while the
+-- process is up (and resumes after a restart) until the player stops it or a limit is hit.
+
+CREATE TABLE IF NOT EXISTS auto_bet_sessions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    game_type ENUM('dice', 'crash') NOT NULL,
+    config JSON NOT NULL, -- Base bet, game options, on win/on loss rules and stop limits
+    status ENUM('running', 'stopped', 'completed') DEFAULT 'running',
+    stop_reason VARCHAR(255) NULL,
+    rounds_played INT NOT NULL DEFAULT 0,
+    total_wagered DECIMAL(18,2) NOT NULL DEFAULT 0.00,
+    total_won DECIMAL(18,2) NOT NULL DEFAULT 0.00,
+    current_bet DECIMAL(18,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    stopped_at TIMESTAMP NULL,
+
+    -- Only one running session per user
+    running_user_id INT GENERATED ALWAYS AS (IF(status = 'running', user_id, NULL)) STORED,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    UNIQUE KEY unique_running_session (running_user_id),
+    INDEX idx_auto_bet_user (user_id, created_at),
+    INDEX idx_auto_bet_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,107 @@
+-- Double-Entry Ledger
+-- Every money movement is a journal whose entries sum to zero. Accounts hold either cash or
+-- bonus tokens, and a journal never mixes the two. users.balance and
+-- user_bonus_stats.bonus_tokens are caches of the user_wallet / user_bonus account totals;
+-- the admin reconciliation report checks that they agree.
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    code VARCHAR(64) NOT NULL UNIQUE, -- e.g. 'user:42', 'house', 'poker_table:3'
+    account_type ENUM('user_wallet', 'user_bonus', 'house', 'bonus_pool', 'poker_escrow', 'external') NOT NULL,
+    currency ENUM('cash', 'bonus_tokens') NOT NULL DEFAULT 'cash',
+    owner_id INT NULL, -- User id for user accounts, table id for poker escrow
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_ledger_account_owner (account_type, owner_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS ledger_journals (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    type VARCHAR(32) NOT NULL, -- Mirrors transactions.type, or bonus_tokens / opening_balance
+    description TEXT,
+    reference VARCHAR(64) NULL, -- Source row, e.g. 'transaction:17' or 'bonus_transaction:4'
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_ledger_journal_type (type),
+    INDEX idx_ledger_journal_reference (reference),
+    INDEX idx_ledger_journal_created (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    journal_id INT NOT NULL,
+    account_id INT NOT NULL,
+    amount DECIMAL(18,2) NOT NULL, -- Positive increases the account, negative decreases it
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (journal_id) REFERENCES ledger_journals(id) ON DELETE CASCADE,
+    FOREIGN KEY (account_id) REFERENCES ledger_accounts(id),
+
+    INDEX idx_ledger_entry_account (account_id),
+    INDEX idx_ledger_entry_journal (journal_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- System accounts
+INSERT IGNORE INTO ledger_accounts (code, account_type, currency) VALUES
+    ('house', 'house', 'cash'),
+    ('bonus_pool', 'bonus_pool', 'cash'),
+    ('bonus_pool:tokens', 'bonus_pool', 'bonus_tokens'),
+    ('payments', 'external', 'cash'),
+    ('opening_balances', 'external', 'cash'),
+    ('opening_balances:tokens', 'external', 'bonus_tokens');
+
+-- Open the books with what already exists: one journal per account, balanced against opening_balances
+INSERT IGNORE INTO ledger_accounts (code, account_type, currency, owner_id)
+SELECT CONCAT('user:', id), 'user_wallet', 'cash', id FROM users;
+
+INSERT IGNORE INTO ledger_accounts (code, account_type, currency, owner_id)
+SELECT CONCAT('user_bonus:', user_id), 'user_bonus', 'bonus_tokens', user_id FROM user_bonus_stats;
+
+INSERT IGNORE INTO ledger_accounts (code, account_type, currency, owner_id)
+SELECT CONCAT('poker_table:', id), 'poker_escrow', 'cash', id FROM poker_tables;
+
+INSERT INTO ledger_journals (type, description, reference)
+SELECT 'opening_balance', 'Opening balance', CONCAT('opening:user:', id) FROM users WHERE balance <> 0;
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, a.id, u.balance
+FROM users u
+JOIN ledger_journals j ON j.reference = CONCAT('opening:user:', u.id)
+JOIN ledger_accounts a ON a.code = CONCAT('user:', u.id);
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, (SELECT id FROM ledger_accounts WHERE code = 'opening_balances'), -u.balance
+FROM users u
+JOIN ledger_journals j ON j.reference = CONCAT('opening:user:', u.id);
+
+INSERT INTO ledger_journals (type, description, reference)
+SELECT 'opening_balance', 'Opening bonus tokens', CONCAT('opening:user_bonus:', user_id)
+FROM user_bonus_stats WHERE bonus_tokens <> 0;
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, a.id, s.bonus_tokens
+FROM user_bonus_stats s
+JOIN ledger_journals j ON j.reference = CONCAT('opening:user_bonus:', s.user_id)
+JOIN ledger_accounts a ON a.code = CONCAT('user_bonus:', s.user_id);
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, (SELECT id FROM ledger_accounts WHERE code = 'opening_balances:tokens'), -s.bonus_tokens
+FROM user_bonus_stats s
+JOIN ledger_journals j ON j.reference = CONCAT('opening:user_bonus:', s.user_id);
+
+-- Chips of human players already seated are held in their table's escrow
+INSERT INTO ledger_journals (type, description, reference)
+SELECT 'opening_balance', 'Opening poker escrow', CONCAT('opening:poker_table:', table_id)
+FROM poker_seats WHERE is_active = TRUE AND user_id > 0
+GROUP BY table_id HAVING SUM(chips) <> 0;
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, a.id, seats.chips
+FROM (SELECT table_id, SUM(chips) AS chips FROM poker_seats WHERE is_active = TRUE AND user_id > 0 GROUP BY table_id) seats
+JOIN ledger_journals j ON j.reference = CONCAT('opening:poker_table:', seats.table_id)
+JOIN ledger_accounts a ON a.code = CONCAT('poker_table:', seats.table_id);
+
+INSERT INTO ledger_entries (journal_id, account_id, amount)
+SELECT j.id, (SELECT id FROM ledger_accounts WHERE code = 'opening_balances'), -seats.chips
+FROM (SELECT table_id, SUM(chips) AS chips FROM poker_seats WHERE is_active = TRUE AND user_id > 0 GROUP BY table_id) seats
+JOIN ledger_journals j ON j.reference = CONCAT('opening:poker_table:', seats.table_id);
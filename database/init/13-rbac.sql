@@ -0,0 +1,28 @@
+-- Role-Based Access Control
+-- Every user has a role; privileged routes and socket events check it through requireRole.
+-- Roles are ordered: player < support < admin < superadmin. Every privileged action is
+-- written to admin_audit_log.
+--
+-- Promote the first operator by hand:
+--   UPDATE users SET role = 'superadmin' WHERE username = '<name>';
+
+ALTER TABLE users
+    ADD COLUMN role ENUM('player', 'support', 'admin', 'superadmin') NOT NULL DEFAULT 'player' AFTER password_hash;
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    username VARCHAR(64) NOT NULL, -- Copied so the trail survives user changes
+    role VARCHAR(20) NOT NULL, -- Role the action was performed with
+    action VARCHAR(64) NOT NULL, -- e.g. 'admin.house_edge.update', 'poker.emergency_reset'
+    method VARCHAR(10) NULL, -- HTTP method, or 'SOCKET' for socket events
+    path VARCHAR(255) NULL, -- Request path or socket event name
+    params JSON NULL, -- Route params, query and body
+    status_code INT NULL, -- Response status; NULL for socket events
+    ip_address VARCHAR(45) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_audit_user (user_id),
+    INDEX idx_audit_action (action),
+    INDEX idx_audit_created (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
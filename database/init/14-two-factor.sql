@@ -0,0 +1,27 @@
+-- Two-Factor Authentication
+-- Optional TOTP (RFC 6238) second factor, mandatory for admin roles. The shared secret is
+-- stored AES-256-GCM encrypted; recovery codes are stored as SHA-256 hashes and can each
+-- be used once.
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id INT PRIMARY KEY,
+    secret_encrypted VARCHAR(255) NOT NULL, -- iv:tag:ciphertext, hex
+    is_enabled BOOLEAN DEFAULT FALSE, -- Set once the first code confirms enrollment
+    last_used_step BIGINT NULL, -- Last accepted 30-second step; a code is never accepted twice
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    enabled_at TIMESTAMP NULL,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    INDEX idx_recovery_user (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,8 @@
+-- Email Verification and Password Reset
+-- Verification and reset links carry signed, expiring tokens, so no token table is needed.
+-- A reset token is bound to the password hash it was issued against and stops working as
+-- soon as the password changes.
+
+ALTER TABLE users
+    ADD COLUMN email_verified_at TIMESTAMP NULL AFTER email,
+    ADD COLUMN password_changed_at TIMESTAMP NULL AFTER password_hash;
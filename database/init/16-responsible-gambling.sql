@@ -0,0 +1,22 @@
+-- Responsible Gambling Limits
+-- Players cap what they deposit, wager and lose over rolling day/week/month windows, and how
+-- long a signed-in session may last. Tightening a limit applies at once; loosening or
+-- removing one is parked in pending_* and only takes effect after a cooling-off period.
+
+CREATE TABLE IF NOT EXISTS responsible_gambling_limits (
+    user_id INT NOT NULL,
+    limit_type ENUM('deposit', 'wager', 'loss', 'session') NOT NULL,
+    period ENUM('day', 'week', 'month', 'session') NOT NULL, -- 'session' only for session limits
+    amount DECIMAL(15,2) NULL, -- Balance units, or minutes for session limits; NULL = no limit
+    pending_amount DECIMAL(15,2) NULL, -- Value waiting out the cooling-off; NULL with a date = removal
+    pending_effective_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (user_id, limit_type, period),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Limit checks sum a user's recent transactions on every deposit and stake
+ALTER TABLE transactions
+    ADD INDEX idx_transactions_user_created (user_id, created_at);
@@ -0,0 +1,32 @@
+-- Self-Exclusion, Cool-Off and Reality Checks
+-- A cool-off is a short break (24 hours to 30 days); self-exclusion runs 6 months to 5 years or
+-- for good. Either one signs the player out everywhere, refuses sign-in and blocks every
+-- deposit and stake until it ends. Neither can be cut short.
+--
+-- game_sessions now tracks play sessions: the run of stakes a player makes without a 30-minute
+-- break, across all games. When a reality check falls due it is pushed to the player, and no
+-- further stake is accepted until they acknowledge it.
+
+CREATE TABLE IF NOT EXISTS user_exclusions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    exclusion_type ENUM('cool_off', 'self_exclusion') NOT NULL,
+    starts_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    ends_at TIMESTAMP NULL, -- NULL = permanent
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    INDEX idx_exclusions_user (user_id, ends_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE users
+    ADD COLUMN reality_check_minutes INT NULL; -- NULL = reality checks off
+
+-- A play session spans games, so game_id is no longer required
+ALTER TABLE game_sessions
+    MODIFY COLUMN game_id INT NULL,
+    ADD COLUMN last_activity_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP AFTER started_at,
+    ADD COLUMN last_reality_check_at TIMESTAMP NULL, -- Last acknowledgement
+    ADD COLUMN reality_check_pending_since TIMESTAMP NULL, -- Pushed and not yet acknowledged
+    ADD INDEX idx_game_sessions_active (user_id, is_active);
@@ -0,0 +1,26 @@
+-- Data Export and Account Closure
+-- Players can ask for an archive of everything held about them. Requests are queued here and
+-- built by a background job; finished archives can be downloaded until they expire.
+--
+-- Closing an account anonymizes the user row and removes personal data, but keeps bets,
+-- transactions, purchases, poker history and the ledger, which are needed for audit.
+
+CREATE TABLE IF NOT EXISTS data_export_requests (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    user_id INT NOT NULL,
+    status ENUM('pending', 'processing', 'completed', 'failed', 'expired') NOT NULL DEFAULT 'pending',
+    file_name VARCHAR(255) NULL, -- Archive in the export directory once completed
+    file_size BIGINT NULL,
+    error VARCHAR(255) NULL,
+    requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP NULL,
+    expires_at TIMESTAMP NULL,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    INDEX idx_export_user (user_id, requested_at),
+    INDEX idx_export_status (status, requested_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE users
+    ADD COLUMN closed_at TIMESTAMP NULL AFTER is_active;
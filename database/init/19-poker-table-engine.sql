@@ -0,0 +1,20 @@
+-- Poker Table Engine State
+-- Hand progression runs in one table engine for humans and AI alike. Its full state (undealt
+-- deck, hole cards, who still has to act) is saved here after every action, so a restarted server
+-- resumes hands where they stopped. poker_games and poker_seats keep mirroring it for reads.
+-- It holds undealt cards, so it is never sent to clients.
+
+CREATE TABLE IF NOT EXISTS poker_table_states (
+    table_id INT PRIMARY KEY,
+    game_id INT NULL, -- poker_games row of the current (or last) hand
+    hand_id INT NULL, -- poker_hands row of the current (or last) hand
+    state JSON NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (table_id) REFERENCES poker_tables(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Games left in progress by the old handlers cannot be resumed by the engine
+UPDATE poker_games
+SET game_state = 'finished', finished_at = NOW()
+WHERE game_state != 'finished';
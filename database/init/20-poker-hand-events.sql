@@ -0,0 +1,21 @@
+-- Poker Hand Event Log
+-- Every event the table engine records during a hand (seats, cards dealt, blinds, actions, streets,
+-- pot awards) is appended here in order, in the same transaction as the state it produced.
+-- Replaying a hand's events rebuilds the table state, which admins compare with the persisted rows.
+-- Payloads include every player's hole cards and the undealt deck, so they are never sent to players.
+
+CREATE TABLE IF NOT EXISTS poker_hand_events (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    hand_id INT NOT NULL,
+    table_id INT NOT NULL,
+    sequence INT NOT NULL, -- Position in the hand's log, from 1
+    event_type VARCHAR(30) NOT NULL,
+    payload JSON NOT NULL,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+
+    FOREIGN KEY (hand_id) REFERENCES poker_hands(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES poker_tables(id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_hand_event_sequence (hand_id, sequence),
+    INDEX idx_hand_events_table (table_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
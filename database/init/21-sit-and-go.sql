@@ -0,0 +1,64 @@
+-- Sit & Go Tournaments
+-- Players register for a poker_tournaments row, paying the buy-in into the tournament's escrow
+-- account and the entry fee to the house. When the last seat fills, the tournament gets its own
+-- sit_n_go table and everyone is seated with starting_chips, which are tournament chips and never
+-- turn back into cash. Blinds rise per blind_structure; when one player is left, the prize pool
+-- is paid out of escrow per prize_structure.
+--
+-- blind_structure: [{"smallBlind": 10, "bigBlind": 20, "minutes": 5}, ...]; the last level lasts
+-- until the end. prize_structure: percentages of the prize pool by finishing place, 1st first.
+
+ALTER TABLE poker_tournaments
+    ADD COLUMN blind_level INT NOT NULL DEFAULT 0 AFTER blind_structure, -- Index into blind_structure
+    ADD COLUMN level_started_at TIMESTAMP NULL AFTER blind_level;
+
+ALTER TABLE poker_tables
+    ADD COLUMN tournament_id INT NULL, -- Set for tables that belong to a tournament
+    ADD CONSTRAINT fk_poker_tables_tournament FOREIGN KEY (tournament_id) REFERENCES poker_tournaments(id) ON DELETE SET NULL;
+
+-- Buy-ins are held per tournament until the prizes are paid
+ALTER TABLE ledger_accounts
+    MODIFY COLUMN account_type ENUM('user_wallet', 'user_bonus', 'house', 'bonus_pool', 'poker_escrow', 'tournament_escrow', 'external') NOT NULL;
+
+-- One open Sit & Go of each kind; a new one opens whenever one starts
+INSERT INTO poker_tournaments (
+    name, tournament_type, buy_in, entry_fee, starting_chips, max_players, min_players,
+    blind_structure, prize_structure, status, starts_at
+)
+SELECT * FROM (
+    SELECT 'Turbo 6-Max Sit & Go' AS name, 'sit_n_go' AS tournament_type, 5.00 AS buy_in, 0.50 AS entry_fee,
+        1500 AS starting_chips, 6 AS max_players, 6 AS min_players,
+        JSON_ARRAY(
+            JSON_OBJECT('smallBlind', 10, 'bigBlind', 20, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 15, 'bigBlind', 30, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 25, 'bigBlind', 50, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 50, 'bigBlind', 100, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 75, 'bigBlind', 150, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 100, 'bigBlind', 200, 'minutes', 3),
+            JSON_OBJECT('smallBlind', 200, 'bigBlind', 400, 'minutes', 3)
+        ) AS blind_structure,
+        JSON_ARRAY(65, 35) AS prize_structure, 'registering' AS status, NOW() AS starts_at
+    UNION ALL
+    SELECT 'Heads-Up Sit & Go', 'sit_n_go', 10.00, 0.50, 1500, 2, 2,
+        JSON_ARRAY(
+            JSON_OBJECT('smallBlind', 10, 'bigBlind', 20, 'minutes', 5),
+            JSON_OBJECT('smallBlind', 20, 'bigBlind', 40, 'minutes', 5),
+            JSON_OBJECT('smallBlind', 40, 'bigBlind', 80, 'minutes', 5),
+            JSON_OBJECT('smallBlind', 75, 'bigBlind', 150, 'minutes', 5),
+            JSON_OBJECT('smallBlind', 150, 'bigBlind', 300, 'minutes', 5)
+        ),
+        JSON_ARRAY(100), 'registering', NOW()
+    UNION ALL
+    SELECT '8-Max Sit & Go', 'sit_n_go', 20.00, 2.00, 3000, 8, 8,
+        JSON_ARRAY(
+            JSON_OBJECT('smallBlind', 10, 'bigBlind', 20, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 25, 'bigBlind', 50, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 50, 'bigBlind', 100, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 100, 'bigBlind', 200, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 150, 'bigBlind', 300, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 250, 'bigBlind', 500, 'minutes', 8),
+            JSON_OBJECT('smallBlind', 400, 'bigBlind', 800, 'minutes', 8)
+        ),
+        JSON_ARRAY(50, 30, 20), 'registering', NOW()
+) seeds
+WHERE NOT EXISTS (SELECT 1 FROM poker_tournaments WHERE tournament_type = 'sit_n_go');
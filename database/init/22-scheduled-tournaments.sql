@@ -0,0 +1,20 @@
+-- Scheduled Multi-Table Tournaments
+-- A scheduled tournament starts at starts_at if at least min_players have registered (otherwise it
+-- is cancelled and everyone refunded), on as many tables of table_size as the field needs.
+-- Registration stays open through the first late_registration_levels blind levels; late entrants
+-- take a free seat, or a new table when every table is full. As players bust, tables are balanced
+-- to within one player of each other and broken up once the field fits on fewer, down to the
+-- final table.
+
+ALTER TABLE poker_tournaments
+    ADD COLUMN table_size INT NOT NULL DEFAULT 8 AFTER max_players, -- Seats per table; max_players caps the field
+    ADD COLUMN late_registration_levels INT NOT NULL DEFAULT 0 AFTER level_started_at;
+
+UPDATE poker_tournaments SET table_size = max_players WHERE tournament_type = 'sit_n_go';
+
+-- Players moved between tables leave their old seat behind, so a seat position can have any number
+-- of past occupants but only one active one
+ALTER TABLE poker_seats
+    ADD COLUMN active_seat_position INT AS (IF(is_active, seat_position, NULL)) STORED,
+    DROP INDEX unique_seat,
+    ADD UNIQUE KEY unique_active_seat (table_id, active_seat_position);
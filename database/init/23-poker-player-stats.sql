@@ -0,0 +1,43 @@
+-- Poker Player Statistics
+-- When a hand completes, each human player's part in it is summarised into poker_hand_player_stats in
+-- the same transaction, and their running totals in poker_player_stats move on by that one hand.
+-- Ratios (VPIP, PFR, AF, showdown win rate, bb/100) are kept as fractions next to the counters they
+-- come from; filtered stats (one stake, a date range) are summed from the per-hand rows instead.
+
+CREATE TABLE IF NOT EXISTS poker_hand_player_stats (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    hand_id INT NOT NULL,
+    user_id INT NOT NULL,
+    table_id INT NOT NULL,
+    small_blind DECIMAL(10,2) NOT NULL,
+    big_blind DECIMAL(10,2) NOT NULL,
+    is_tournament BOOLEAN NOT NULL DEFAULT FALSE, -- Tournament chips, not money
+    vpip BOOLEAN NOT NULL DEFAULT FALSE, -- Called, bet or raised preflop
+    pfr BOOLEAN NOT NULL DEFAULT FALSE, -- Bet or raised preflop
+    aggressive_actions INT NOT NULL DEFAULT 0, -- Bets and raises
+    passive_actions INT NOT NULL DEFAULT 0, -- Calls
+    went_to_showdown BOOLEAN NOT NULL DEFAULT FALSE,
+    won_at_showdown BOOLEAN NOT NULL DEFAULT FALSE,
+    amount_won DECIMAL(18,2) NOT NULL DEFAULT 0.00, -- Collected from the pot
+    net_result DECIMAL(18,2) NOT NULL DEFAULT 0.00, -- Collected less put in
+    big_blinds_won DECIMAL(14,4) NOT NULL DEFAULT 0.0000,
+    showdown_hand_rank INT NULL, -- HAND_RANKINGS of the hand shown down, 1 = royal flush
+    played_at TIMESTAMP NOT NULL,
+
+    FOREIGN KEY (hand_id) REFERENCES poker_hands(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES poker_tables(id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_hand_player_stats (hand_id, user_id),
+    INDEX idx_hand_player_stats_played (user_id, played_at),
+    INDEX idx_hand_player_stats_stake (user_id, big_blind, played_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE poker_player_stats
+    ADD COLUMN vpip_hands INT NOT NULL DEFAULT 0 AFTER cash_games_played,
+    ADD COLUMN pfr_hands INT NOT NULL DEFAULT 0 AFTER vpip_hands,
+    ADD COLUMN aggressive_actions INT NOT NULL DEFAULT 0 AFTER pfr_hands,
+    ADD COLUMN passive_actions INT NOT NULL DEFAULT 0 AFTER aggressive_actions,
+    ADD COLUMN showdowns INT NOT NULL DEFAULT 0 AFTER passive_actions,
+    ADD COLUMN showdowns_won INT NOT NULL DEFAULT 0 AFTER showdowns,
+    ADD COLUMN big_blinds_won DECIMAL(14,4) NOT NULL DEFAULT 0.0000 AFTER showdowns_won;
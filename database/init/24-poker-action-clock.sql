@@ -0,0 +1,22 @@
+-- Poker Action Clock, Time Bank and Sitting Out
+-- The player to act has action_time_seconds, then whatever is left in their time bank, before they
+-- are checked or folded. Banks start full, are spent by slow actions and refill a little every hand.
+-- After sit_out_after_timeouts timeouts in a row, or a dropped connection, a player is sat out: the
+-- seat is kept, and while they are away they are either dealt in and blinded ('post', always the case
+-- at tournament tables) or skipped ('skip'). A cash seat sat out for sit_out_remove_minutes is cashed out.
+
+ALTER TABLE poker_tables
+    ADD COLUMN action_time_seconds INT NOT NULL DEFAULT 30 AFTER max_rake,
+    ADD COLUMN time_bank_seconds INT NOT NULL DEFAULT 60 AFTER action_time_seconds, -- Full bank
+    ADD COLUMN time_bank_refill_seconds INT NOT NULL DEFAULT 5 AFTER time_bank_seconds, -- Per hand dealt in
+    ADD COLUMN sit_out_after_timeouts INT NOT NULL DEFAULT 2 AFTER time_bank_refill_seconds,
+    ADD COLUMN sit_out_blinds ENUM('post', 'skip') NOT NULL DEFAULT 'skip' AFTER sit_out_after_timeouts,
+    ADD COLUMN sit_out_remove_minutes INT NOT NULL DEFAULT 15 AFTER sit_out_blinds;
+
+UPDATE poker_tables SET sit_out_blinds = 'post' WHERE tournament_id IS NOT NULL;
+
+ALTER TABLE poker_seats
+    ADD COLUMN time_bank_seconds INT NULL AFTER is_sitting_out, -- NULL until first used: a full bank
+    ADD COLUMN consecutive_timeouts INT NOT NULL DEFAULT 0 AFTER time_bank_seconds,
+    ADD COLUMN sat_out_at TIMESTAMP NULL AFTER consecutive_timeouts,
+    ADD INDEX idx_sitting_out (is_sitting_out, sat_out_at);
@@ -0,0 +1,34 @@
+-- Poker Rake
+-- Cash tables with a rake take rake_percentage of every pot more than one player contested, rounded down to the
+-- cent, up to a cap per hand. The cap depends on how many players were dealt in: the entry of rake_caps
+-- with the largest minPlayers not above that count, e.g. [{"minPlayers": 2, "cap": 1}, {"minPlayers": 5, "cap": 3}],
+-- else max_rake. With no_flop_no_drop, hands that end before the flop are not raked. Tournament tables
+-- never rake. The rake of a hand is in poker_hands.rake_amount and moves from the table's escrow to the
+-- house; poker_hand_rake splits it between the players who paid it, in proportion to what they put in.
+
+ALTER TABLE poker_tables
+    ALTER COLUMN rake_percentage SET DEFAULT 0,
+    ALTER COLUMN max_rake SET DEFAULT 0,
+    ADD COLUMN rake_caps JSON NULL AFTER max_rake,
+    ADD COLUMN no_flop_no_drop BOOLEAN NOT NULL DEFAULT TRUE AFTER rake_caps;
+
+-- The old 5% / $5 defaults were never taken; no table rakes until an admin sets its rake
+UPDATE poker_tables SET rake_percentage = 0, max_rake = 0;
+
+CREATE TABLE IF NOT EXISTS poker_hand_rake (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    hand_id INT NOT NULL,
+    table_id INT NOT NULL,
+    user_id INT NOT NULL,
+    contributed DECIMAL(18,2) NOT NULL, -- Put into the raked pots
+    rake DECIMAL(10,2) NOT NULL, -- Share of the hand's rake
+    raked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (hand_id) REFERENCES poker_hands(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES poker_tables(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_hand_rake_player (hand_id, user_id),
+    INDEX idx_hand_rake_player (user_id, raked_at),
+    INDEX idx_hand_rake_table (table_id, raked_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -9,6 +9,9 @@ import Navbar from './components/Navbar';
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Dashboard from './pages/Dashboard';
 import ProfileSettings from './pages/ProfileSettings';
 import SlotsGame from './pages/games/SlotsGame';
@@ -18,8 +21,11 @@ import BlackjackGame from './pages/games/BlackjackGame';
 import RouletteGame from './pages/games/RouletteGame';
 import PokerGame from './pages/games/PokerGame';
 import PokerTable from './pages/games/PokerTable';
+import PokerHandReplayer from './pages/games/PokerHandReplayer';
 import Leaderboard from './pages/Leaderboard';
+import VerifyBet from './pages/VerifyBet';
 import ConnectionStatus from './components/ConnectionStatus';
+import RealityCheckModal from './components/RealityCheckModal';
 
 const queryClient = new QueryClient();
 
@@ -37,11 +43,15 @@ function App() {
             <div className="min-h-screen bg-gradient-to-br from-casino-primary to-casino-secondary">
               <Navbar />
               <ConnectionStatus />
+              <RealityCheckModal />
               <main className="container mx-auto px-4 py-8">
                 <Routes>
                   <Route path="/" element={<Home />} />
                   <Route path="/login" element={<Login />} />
                   <Route path="/register" element={<Register />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
                   <Route path="/dashboard" element={
                     <ProtectedRoute>
                       <Dashboard />
@@ -87,7 +97,10 @@ function App() {
                       <PokerTable />
                     </ProtectedRoute>
                   } />
+                  {/* Open without login so replays can be shared by link */}
+                  <Route path="/games/poker/hands/:handId/replay" element={<PokerHandReplayer />} />
                   <Route path="/leaderboard" element={<Leaderboard />} />
+                  <Route path="/verify" element={<VerifyBet />} />
                 </Routes>
               </main>
               <Toaster 
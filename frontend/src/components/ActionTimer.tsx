@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+
+export interface ActionClock {
+  userId: number;
+  seatPosition: number;
+  actionTime: number; // Seconds, before the time bank is used
+  timeBank: number; // Seconds
+  startedAt: number;
+}
+
+interface ActionTimerProps {
+  clock: ActionClock;
+  receivedAt: number; // Counted from when the clock arrived, not the server's own time
+}
+
+const TICK_MS = 250;
+
+const ActionTimer: React.FC<ActionTimerProps> = ({ clock, receivedAt }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsed = (now - receivedAt) / 1000;
+  const actionLeft = Math.max(clock.actionTime - elapsed, 0);
+  const bankLeft = Math.max(clock.timeBank - Math.max(elapsed - clock.actionTime, 0), 0);
+  const inBank = actionLeft === 0;
+  const fraction = inBank
+    ? (clock.timeBank > 0 ? bankLeft / clock.timeBank : 0)
+    : actionLeft / clock.actionTime;
+
+  return (
+    <div className="mt-1">
+      <div className="h-1.5 bg-gray-300 rounded overflow-hidden">
+        <div
+          className={`h-full transition-all duration-200 ${
+            inBank ? 'bg-red-500' : fraction < 0.3 ? 'bg-orange-400' : 'bg-green-500'
+          }`}
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+      <div className={`text-xs ${inBank ? 'text-red-600 font-bold' : 'text-gray-600'}`}>
+        {inBank ? `Time bank ${Math.ceil(bankLeft)}s` : `${Math.ceil(actionLeft)}s`}
+      </div>
+    </div>
+  );
+};
+
+export default ActionTimer;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../contexts/SocketContext';
+import {
+  autoBetService,
+  AutoBetAdjustment,
+  AutoBetConfig,
+  AutoBetGameType,
+  AutoBetProgress,
+  AutoBetSession
+} from '../services/autoBetService';
+
+interface AutoBetPanelProps {
+  gameType: AutoBetGameType;
+  baseBet: number;
+  gameOptions: Pick<AutoBetConfig, 'target' | 'isOver' | 'cashOutAt'>;
+  onProgress?: (progress: AutoBetProgress) => void;
+  onRunningChange?: (running: boolean) => void;
+}
+
+const parseLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value !== '' && parsed > 0 ? parsed : null;
+};
+
+const AutoBetPanel: React.FC<AutoBetPanelProps> = ({ gameType, baseBet, gameOptions, onProgress, onRunningChange }) => {
+  const { updateBalance } = useAuth();
+  const { socket } = useSocket();
+
+  const [session, setSession] = useState<AutoBetSession | null>(null);
+  const [onWin, setOnWin] = useState<AutoBetAdjustment>({ action: 'reset', percent: 0 });
+  const [onLoss, setOnLoss] = useState<AutoBetAdjustment>({ action: 'reset', percent: 0 });
+  const [stopOnProfit, setStopOnProfit] = useState('');
+  const [stopOnLoss, setStopOnLoss] = useState('');
+  const [maxRounds, setMaxRounds] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isRunning = session?.status === 'running';
+  // A session for the other game still blocks starting one here
+  const isOtherGame = isRunning && session?.config.gameType !== gameType;
+
+  useEffect(() => {
+    autoBetService.getCurrentSession().then(response => {
+      if (response.success && response.data) {
+        setSession(response.data.session);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    onRunningChange?.(isRunning && !isOtherGame);
+  }, [isRunning, isOtherGame, onRunningChange]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (progress: AutoBetProgress) => {
+      setSession(progress);
+      if (progress.config.gameType === gameType) {
+        onProgress?.(progress);
+      }
+    };
+
+    const handleStopped = (stopped: AutoBetSession) => {
+      setSession(stopped);
+      setMessage(stopped.stopReason);
+    };
+
+    const handleBalanceUpdate = (data: { balance: number }) => {
+      updateBalance(data.balance);
+    };
+
+    socket.on('autobet:progress', handleProgress);
+    socket.on('autobet:stopped', handleStopped);
+    socket.on('balance:update', handleBalanceUpdate);
+
+    return () => {
+      socket.off('autobet:progress', handleProgress);
+      socket.off('autobet:stopped', handleStopped);
+      socket.off('balance:update', handleBalanceUpdate);
+    };
+  }, [socket, gameType, onProgress, updateBalance]);
+
+  const start = async () => {
+    setBusy(true);
+    setMessage(null);
+
+    const response = await autoBetService.startSession({
+      gameType,
+      baseBet,
+      ...gameOptions,
+      onWin,
+      onLoss,
+      stopOnProfit: parseLimit(stopOnProfit),
+      stopOnLoss: parseLimit(stopOnLoss),
+      maxRounds: parseLimit(maxRounds)
+    });
+
+    if (response.success && response.data) {
+      setSession(response.data.session);
+    } else {
+      setMessage(response.message || 'Failed to start auto-bet');
+    }
+    setBusy(false);
+  };
+
+  const stop = async () => {
+    setBusy(true);
+
+    const response = await autoBetService.stopSession();
+    if (response.success && response.data) {
+      setSession(response.data.session);
+    } else {
+      setMessage(response.message || 'Failed to stop auto-bet');
+    }
+    setBusy(false);
+  };
+
+  const renderAdjustment = (label: string, value: AutoBetAdjustment, onChange: (value: AutoBetAdjustment) => void) => (
+    <div>
+      <div className="text-white text-sm opacity-75 mb-1">{label}</div>
+      <div className="flex items-center space-x-2">
+        <select
+          value={value.action}
+          onChange={(e) => onChange({ ...value, action: e.target.value as AutoBetAdjustment['action'] })}
+          disabled={isRunning}
+          className="bg-gray-800 text-white rounded-lg px-2 py-2"
+        >
+          <option value="reset">Reset to base</option>
+          <option value="increase">Increase by</option>
+        </select>
+        {value.action === 'increase' && (
+          <input
+            type="number"
+            min="0"
+            max="1000"
+            value={value.percent}
+            onChange={(e) => onChange({ ...value, percent: Math.max(0, Number(e.target.value) || 0) })}
+            disabled={isRunning}
+            className="bg-gray-800 text-white text-center rounded-lg px-2 py-2 w-20"
+          />
+        )}
+        {value.action === 'increase' && <span className="text-white">%</span>}
+      </div>
+    </div>
+  );
+
+  const renderLimit = (label: string, value: string, onChange: (value: string) => void, step: string) => (
+    <div>
+      <div className="text-white text-sm opacity-75 mb-1">{label}</div>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        placeholder="None"
+        onChange={(e) => onChange(e.target.value)}
+        disabled={isRunning}
+        className="bg-gray-800 text-white text-center rounded-lg px-2 py-2 w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-black bg-opacity-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white text-xl font-bold">🤖 Auto Bet</h3>
+        {isRunning && (
+          <span className="text-xs font-bold text-green-400 animate-pulse">
+            RUNNING{isOtherGame ? ` ON ${session?.config.gameType.toUpperCase()}` : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {renderAdjustment('On win', onWin, setOnWin)}
+        {renderAdjustment('On loss', onLoss, setOnLoss)}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {renderLimit('Stop on profit ($)', stopOnProfit, setStopOnProfit, '0.01')}
+        {renderLimit('Stop on loss ($)', stopOnLoss, setStopOnLoss, '0.01')}
+        {renderLimit('Max rounds', maxRounds, setMaxRounds, '1')}
+      </div>
+
+      {session && (
+        <div className="grid grid-cols-4 gap-2 text-center text-white mb-4">
+          <div className="bg-gray-800 rounded-lg p-2">
+            <div className="text-xs opacity-75">Rounds</div>
+            <div className="font-bold">{session.roundsPlayed}</div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-2">
+            <div className="text-xs opacity-75">Wagered</div>
+            <div className="font-bold">${session.totalWagered.toFixed(2)}</div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-2">
+            <div className="text-xs opacity-75">Profit</div>
+            <div className={`font-bold ${session.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {session.profit >= 0 ? '+' : ''}${session.profit.toFixed(2)}
+            </div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-2">
+            <div className="text-xs opacity-75">Next Bet</div>
+            <div className="font-bold text-yellow-400">${session.currentBet.toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className="text-center text-sm text-yellow-300 mb-4">{message}</div>
+      )}
+
+      {isRunning ? (
+        <button
+          onClick={stop}
+          disabled={busy}
+          className="w-full py-3 rounded-lg font-bold text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-600"
+        >
+          STOP AUTO BET
+        </button>
+      ) : (
+        <button
+          onClick={start}
+          disabled={busy}
+          className="w-full py-3 rounded-lg font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600"
+        >
+          START AUTO BET (${baseBet.toFixed(2)} base)
+        </button>
+      )}
+
+      <p className="text-xs text-white opacity-50 text-center mt-3">
+        Runs on the server and keeps going if you close this tab.
+      </p>
+    </div>
+  );
+};
+
+export default AutoBetPanel;
@@ -135,7 +135,8 @@ const BuyCreditsModal: React.FC<BuyCreditsProps> = ({ isOpen, onClose, onSuccess
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Idempotency-Key': crypto.randomUUID()
         },
         body: JSON.stringify({
           packageId: selectedPackage.id,
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { privacyService } from '../services/privacyService';
+
+const CloseAccountPanel: React.FC = () => {
+  const { logout } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const result = await privacyService.closeAccount(password, confirm);
+      if (!result.success) {
+        toast.error(result.message || 'Failed to close account');
+        return;
+      }
+
+      toast.success(result.message || 'Your account has been closed');
+      logout();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-casino-primary border border-red-500/30 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-white mb-2">Close Account</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Closing your account signs you out everywhere and removes your username, email address and
+        security settings. Your remaining balance is forfeited. Records of your bets, transactions,
+        purchases and poker hands are kept without your personal details, as we need them for audit.
+        This can't be undone, so download your data first if you want a copy.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="casino-input w-full"
+          placeholder="Your password"
+          required
+        />
+        <input
+          type="text"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          className="casino-input w-full"
+          placeholder="Type CLOSE to confirm"
+          required
+        />
+        <button
+          type="submit"
+          disabled={submitting || !password || confirm !== 'CLOSE'}
+          className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium"
+        >
+          Close my account
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CloseAccountPanel;
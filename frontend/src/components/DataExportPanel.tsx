@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { privacyService, DataExport } from '../services/privacyService';
+
+const STATUS_LABELS: Record<DataExport['status'], string> = {
+  pending: 'Queued',
+  processing: 'Preparing',
+  completed: 'Ready',
+  failed: 'Failed',
+  expired: 'Expired'
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const DataExportPanel: React.FC = () => {
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [requesting, setRequesting] = useState(false);
+
+  const loadExports = async () => {
+    const result = await privacyService.listExports();
+    if (result.success && result.data) {
+      setExports(result.data);
+    }
+  };
+
+  useEffect(() => {
+    loadExports();
+  }, []);
+
+  // Check back while an export is being prepared
+  const inProgress = exports.some(item => item.status === 'pending' || item.status === 'processing');
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(loadExports, 10000);
+    return () => clearInterval(timer);
+  }, [inProgress]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    try {
+      const result = await privacyService.requestExport();
+      if (!result.success) {
+        toast.error(result.message || 'Failed to request data export');
+        return;
+      }
+
+      toast.success(result.message || 'Export requested');
+      await loadExports();
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const handleDownload = async (exportId: number) => {
+    const result = await privacyService.downloadExport(exportId);
+    if (!result.success) {
+      toast.error(result.message || 'Failed to download data export');
+      loadExports();
+    }
+  };
+
+  return (
+    <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-white mb-2">Download Your Data</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Get a copy of everything we hold about you: your profile, bets, transactions, bonus history,
+        purchases and poker hands, as JSON and CSV files in a zip archive. We'll email you when it's ready;
+        the download is available for 7 days.
+      </p>
+
+      <button
+        onClick={handleRequest}
+        disabled={requesting || inProgress}
+        className="casino-button-primary px-4 py-2 text-sm mb-4"
+      >
+        {inProgress ? 'Preparing your data...' : 'Request data export'}
+      </button>
+
+      {exports.length > 0 && (
+        <div className="space-y-2">
+          {exports.map(item => (
+            <div key={item.id} className="flex items-center justify-between p-3 bg-casino-secondary rounded-lg text-sm">
+              <div>
+                <div className="text-white">Requested {new Date(item.requestedAt).toLocaleString()}</div>
+                <div className="text-gray-400">
+                  {STATUS_LABELS[item.status]}
+                  {item.status === 'completed' && item.fileSize !== null && ` · ${formatSize(item.fileSize)}`}
+                  {item.status === 'completed' && item.expiresAt && ` · until ${new Date(item.expiresAt).toLocaleDateString()}`}
+                  {item.status === 'failed' && item.error && ` · ${item.error}`}
+                </div>
+              </div>
+              {item.status === 'completed' && (
+                <button
+                  onClick={() => handleDownload(item.id)}
+                  className="text-casino-gold hover:text-yellow-300 font-medium"
+                >
+                  Download
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataExportPanel;
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  responsibleGamblingService,
+  GamblingLimit,
+  LimitPeriod,
+  LimitType
+} from '../services/responsibleGamblingService';
+
+const LIMIT_ROWS: Array<{ type: LimitType; period: LimitPeriod; label: string }> = [
+  { type: 'deposit', period: 'day', label: 'Daily deposit' },
+  { type: 'deposit', period: 'week', label: 'Weekly deposit' },
+  { type: 'deposit', period: 'month', label: 'Monthly deposit' },
+  { type: 'wager', period: 'day', label: 'Daily wager' },
+  { type: 'wager', period: 'week', label: 'Weekly wager' },
+  { type: 'wager', period: 'month', label: 'Monthly wager' },
+  { type: 'loss', period: 'day', label: 'Daily loss' },
+  { type: 'loss', period: 'week', label: 'Weekly loss' },
+  { type: 'loss', period: 'month', label: 'Monthly loss' },
+  { type: 'session', period: 'session', label: 'Session length' }
+];
+
+const rowKey = (type: LimitType, period: LimitPeriod) => `${type}:${period}`;
+
+const formatValue = (type: LimitType, value: number | null) => {
+  if (value === null) return 'No limit';
+  return type === 'session' ? `${value} min` : `$${value.toFixed(2)}`;
+};
+
+const GamblingLimitsPanel: React.FC = () => {
+  const [limits, setLimits] = useState<Record<string, GamblingLimit>>({});
+  const [sessionEndsAt, setSessionEndsAt] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const loadLimits = async () => {
+    const result = await responsibleGamblingService.getLimits();
+    if (result.success && result.data) {
+      const byKey: Record<string, GamblingLimit> = {};
+      result.data.limits.forEach(limit => {
+        byKey[rowKey(limit.type, limit.period)] = limit;
+      });
+      setLimits(byKey);
+      setSessionEndsAt(result.data.sessionEndsAt);
+    }
+  };
+
+  useEffect(() => {
+    loadLimits();
+  }, []);
+
+  const saveLimit = async (type: LimitType, period: LimitPeriod, amount: number | null) => {
+    const key = rowKey(type, period);
+    setSaving(key);
+    try {
+      const result = await responsibleGamblingService.setLimit(type, period, amount);
+      if (!result.success) {
+        toast.error(result.message || 'Failed to update limit');
+        return;
+      }
+
+      toast.success(result.message || 'Limit updated');
+      setDrafts(current => ({ ...current, [key]: '' }));
+      await loadLimits();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSave = (type: LimitType, period: LimitPeriod) => {
+    const value = Number(drafts[rowKey(type, period)]);
+    if (!value || value <= 0) {
+      toast.error('Enter a positive amount');
+      return;
+    }
+    saveLimit(type, period, value);
+  };
+
+  return (
+    <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-white mb-2">Play Limits</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Deposit, wager and loss limits count over the last 24 hours, 7 days or 30 days. Lowering a limit
+        applies straight away; raising or removing one takes effect after a 24-hour cooling-off period.
+        The session limit signs you out once you've been signed in that long.
+      </p>
+
+      {sessionEndsAt && (
+        <div className="text-yellow-300 text-sm mb-4">
+          This session ends at {new Date(sessionEndsAt).toLocaleTimeString()}.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {LIMIT_ROWS.map(({ type, period, label }) => {
+          const key = rowKey(type, period);
+          const limit = limits[key];
+          const usedPercent = limit?.amount && limit.used !== null
+            ? Math.min(100, (limit.used / limit.amount) * 100)
+            : 0;
+
+          return (
+            <div key={key} className="p-4 bg-casino-secondary rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-[12rem]">
+                  <div className="text-white font-medium">{label}</div>
+                  <div className="text-sm text-gray-400">
+                    {formatValue(type, limit?.amount ?? null)}
+                    {limit?.amount != null && limit.remaining !== null && (
+                      <span className="ml-2 text-casino-gold">
+                        {formatValue(type, limit.remaining)} left
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step={type === 'session' ? 5 : 1}
+                    value={drafts[key] || ''}
+                    onChange={(e) => setDrafts(current => ({ ...current, [key]: e.target.value }))}
+                    className="casino-input w-28"
+                    placeholder={type === 'session' ? 'Minutes' : 'Amount'}
+                  />
+                  <button
+                    onClick={() => handleSave(type, period)}
+                    disabled={saving === key}
+                    className="casino-button-primary px-4 py-2 text-sm"
+                  >
+                    Set
+                  </button>
+                  {limit?.amount != null && !limit.pending && (
+                    <button
+                      onClick={() => saveLimit(type, period, null)}
+                      disabled={saving === key}
+                      className="text-sm text-gray-400 hover:text-white"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {limit?.amount != null && limit.used !== null && (
+                <div className="mt-3 h-2 bg-casino-primary rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${usedPercent >= 90 ? 'bg-red-500' : 'bg-casino-green'}`}
+                    style={{ width: `${usedPercent}%` }}
+                  />
+                </div>
+              )}
+
+              {limit?.pending && (
+                <div className="mt-2 text-xs text-yellow-300">
+                  {limit.pending.amount === null
+                    ? 'Removal'
+                    : `Change to ${formatValue(type, limit.pending.amount)}`} takes effect{' '}
+                  {new Date(limit.pending.effectiveAt).toLocaleString()}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GamblingLimitsPanel;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../contexts/SocketContext';
+import { responsibleGamblingService, PlaySession } from '../services/responsibleGamblingService';
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const RealityCheckModal: React.FC = () => {
+  const { isAuthenticated, logout } = useAuth();
+  const { socket } = useSocket();
+  const [session, setSession] = useState<PlaySession | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // A check that fell due while this tab was closed still needs answering
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setSession(null);
+      return;
+    }
+
+    responsibleGamblingService.getRealityCheck().then(result => {
+      if (result.success && result.data?.session?.realityCheckPending) {
+        setSession(result.data.session);
+      }
+    });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleRealityCheck = (check: PlaySession) => {
+      setSession(check);
+    };
+
+    socket.on('reality:check', handleRealityCheck);
+
+    return () => {
+      socket.off('reality:check', handleRealityCheck);
+    };
+  }, [socket]);
+
+  if (!session) {
+    return null;
+  }
+
+  const handleContinue = async () => {
+    setBusy(true);
+    try {
+      const result = await responsibleGamblingService.acknowledgeRealityCheck();
+      if (!result.success) {
+        toast.error(result.message || 'Failed to acknowledge reality check');
+        return;
+      }
+      setSession(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStop = () => {
+    setSession(null);
+    logout();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-casino-primary border border-casino-accent/50 rounded-xl max-w-md w-full p-6">
+        <h2 className="text-2xl font-bold text-white mb-2">⏰ Reality Check</h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Here's how this session is going. Take a moment before you carry on.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="p-4 bg-casino-secondary rounded-lg">
+            <div className="text-sm text-gray-400">Time played</div>
+            <div className="text-xl font-bold text-white">{formatDuration(session.minutesPlayed)}</div>
+          </div>
+          <div className="p-4 bg-casino-secondary rounded-lg">
+            <div className="text-sm text-gray-400">Net result</div>
+            <div className={`text-xl font-bold ${session.net >= 0 ? 'text-casino-green' : 'text-red-400'}`}>
+              {session.net >= 0 ? '+' : '-'}${Math.abs(session.net).toFixed(2)}
+            </div>
+          </div>
+          <div className="p-4 bg-casino-secondary rounded-lg">
+            <div className="text-sm text-gray-400">Total staked</div>
+            <div className="text-lg text-white">${session.totalBet.toFixed(2)}</div>
+          </div>
+          <div className="p-4 bg-casino-secondary rounded-lg">
+            <div className="text-sm text-gray-400">Total won</div>
+            <div className="text-lg text-white">${session.totalWon.toFixed(2)}</div>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleStop}
+            className="flex-1 px-4 py-2 rounded-lg border border-casino-accent/50 text-gray-300 hover:text-white"
+          >
+            Stop playing
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={busy}
+            className="flex-1 casino-button-primary px-4 py-2"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RealityCheckModal;
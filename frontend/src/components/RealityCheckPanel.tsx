@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { responsibleGamblingService } from '../services/responsibleGamblingService';
+
+const INTERVALS = [15, 30, 60, 90, 120];
+
+const RealityCheckPanel: React.FC = () => {
+  const [intervalMinutes, setIntervalMinutes] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    responsibleGamblingService.getRealityCheck().then(result => {
+      if (result.success && result.data) {
+        setIntervalMinutes(result.data.intervalMinutes);
+      }
+    });
+  }, []);
+
+  const handleChange = async (value: string) => {
+    const minutes = value ? Number(value) : null;
+    setSaving(true);
+    try {
+      const result = await responsibleGamblingService.setRealityCheckInterval(minutes);
+      if (!result.success) {
+        toast.error(result.message || 'Failed to update reality checks');
+        return;
+      }
+
+      setIntervalMinutes(minutes);
+      toast.success(result.message || 'Reality checks updated');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-white mb-2">Reality Checks</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Get a reminder of how long you've been playing and how you stand. You'll need to acknowledge it
+        before your next bet. A break of 30 minutes starts a new session.
+      </p>
+
+      <select
+        value={intervalMinutes ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        className="casino-input w-48"
+      >
+        <option value="">Off</option>
+        {INTERVALS.map(minutes => (
+          <option key={minutes} value={minutes}>Every {minutes} minutes</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default RealityCheckPanel;
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { pokerHistoryService, RecentHand } from '../services/pokerHistoryService';
+
+const RecentHandsPanel: React.FC = () => {
+  const [hands, setHands] = useState<RecentHand[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      const response = await pokerHistoryService.getRecentHands();
+      if (response.success && response.data) {
+        setHands(response.data);
+      }
+    };
+
+    load();
+  }, []);
+
+  if (hands.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-2xl font-bold text-white mb-4">🎬 Your Recent Hands</h2>
+
+      <div className="bg-green-800 rounded-xl border border-green-600 divide-y divide-green-700">
+        {hands.map(hand => (
+          <div key={hand.handId} className="flex justify-between items-center px-4 py-3 text-green-100">
+            <div>
+              <span className="font-semibold text-white">{hand.tableName}</span> · Hand #{hand.handNumber}
+              <span className="text-sm text-green-300 ml-2">{new Date(hand.startedAt).toLocaleString()}</span>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className={hand.won ? 'text-yellow-300 font-bold' : ''}>
+                Pot {hand.totalPot.toFixed(2)}{hand.won && ' · won'}
+              </span>
+              <Link
+                to={`/games/poker/hands/${hand.handId}/replay`}
+                className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded transition-colors"
+              >
+                Replay
+              </Link>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentHandsPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { responsibleGamblingService, ExclusionType } from '../services/responsibleGamblingService';
+
+const OPTIONS: Array<{ type: ExclusionType; duration: string; label: string }> = [
+  { type: 'cool_off', duration: '24h', label: 'Break for 24 hours' },
+  { type: 'cool_off', duration: '7d', label: 'Break for 7 days' },
+  { type: 'cool_off', duration: '30d', label: 'Break for 30 days' },
+  { type: 'self_exclusion', duration: '6m', label: 'Self-exclude for 6 months' },
+  { type: 'self_exclusion', duration: '1y', label: 'Self-exclude for 1 year' },
+  { type: 'self_exclusion', duration: '5y', label: 'Self-exclude for 5 years' },
+  { type: 'self_exclusion', duration: 'permanent', label: 'Self-exclude permanently' }
+];
+
+const SelfExclusionPanel: React.FC = () => {
+  const { logout } = useAuth();
+  const [choice, setChoice] = useState(0);
+  const [password, setPassword] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const selected = OPTIONS[choice];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const result = await responsibleGamblingService.startExclusion(selected.type, selected.duration, password);
+      if (!result.success) {
+        toast.error(result.message || 'Failed to start exclusion');
+        return;
+      }
+
+      toast.success(result.message || 'Exclusion started');
+      // Every session has been signed out on the server
+      logout();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-white mb-2">Take a Break</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        A break or self-exclusion signs you out everywhere and stops you signing in, playing or buying
+        credits until it ends. It can't be cancelled or shortened once started.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <select
+          value={choice}
+          onChange={(e) => {
+            setChoice(Number(e.target.value));
+            setConfirming(false);
+          }}
+          className="casino-input w-full"
+        >
+          {OPTIONS.map((option, index) => (
+            <option key={`${option.type}:${option.duration}`} value={index}>{option.label}</option>
+          ))}
+        </select>
+
+        {confirming ? (
+          <>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="casino-input w-full"
+              placeholder="Confirm with your password"
+              required
+            />
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setConfirming(false)}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || !password}
+                className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium"
+              >
+                {selected.label}
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium"
+          >
+            Continue
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default SelfExclusionPanel;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../contexts/SocketContext';
+import { tournamentService, Tournament, TournamentLobby as Lobby } from '../services/tournamentService';
+
+interface TournamentLobbyProps {
+  onTakeSeat: (tableId: number) => void;
+}
+
+const REFRESH_MS = 10000;
+
+const TournamentLobby: React.FC<TournamentLobbyProps> = ({ onTakeSeat }) => {
+  const { updateBalance } = useAuth();
+  const { socket } = useSocket();
+
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [lobby, setLobby] = useState<Lobby | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTournaments = useCallback(async () => {
+    const response = await tournamentService.getTournaments();
+    if (response.success && response.data) {
+      setTournaments(response.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTournaments();
+    const interval = setInterval(loadTournaments, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadTournaments]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // The tournament started or we were seated late; go straight to the table
+    const handleStarted = (data: { tournamentId: number; tableId: number }) => {
+      loadTournaments();
+      onTakeSeat(data.tableId);
+    };
+
+    const handleCancelled = (data: { tournamentId: number; message: string }) => {
+      setMessage(data.message);
+      loadTournaments();
+    };
+
+    socket.on('tournament:started', handleStarted);
+    socket.on('tournament:cancelled', handleCancelled);
+    return () => {
+      socket.off('tournament:started', handleStarted);
+      socket.off('tournament:cancelled', handleCancelled);
+    };
+  }, [socket, loadTournaments, onTakeSeat]);
+
+  const handleRegistration = async (tournament: Tournament) => {
+    setBusyId(tournament.id);
+    setMessage(null);
+
+    const response = tournament.isRegistered
+      ? await tournamentService.unregister(tournament.id)
+      : await tournamentService.register(tournament.id);
+
+    setBusyId(null);
+    setMessage(response.message || null);
+    if (response.success && response.data) {
+      updateBalance(response.data.balance);
+    }
+    loadTournaments();
+  };
+
+  const toggleLobby = async (tournament: Tournament) => {
+    if (lobby?.id === tournament.id) {
+      setLobby(null);
+      return;
+    }
+
+    const response = await tournamentService.getTournament(tournament.id);
+    if (response.success && response.data) {
+      setLobby(response.data);
+    } else {
+      setMessage(response.message || 'Failed to load the tournament lobby');
+    }
+  };
+
+  if (tournaments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-2xl font-bold text-white mb-2">🏆 Tournaments</h2>
+      <p className="text-green-200 mb-4">
+        Sit & Gos start as soon as every seat is taken, scheduled tournaments at their start time.
+        Tournament chips only; prizes are paid to your balance.
+      </p>
+
+      {message && (
+        <div className="bg-green-700 text-white rounded p-3 mb-4">{message}</div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {tournaments.map(tournament => {
+          const firstLevel = tournament.blindStructure[0];
+          const scheduled = tournament.type === 'scheduled';
+          // A Sit & Go always pays out a full field
+          const prizePool = scheduled ? tournament.prizePool : tournament.buyIn * tournament.maxPlayers;
+          const canRegister = tournament.status === 'registering' || tournament.lateRegistrationOpen;
+
+          return (
+            <div key={tournament.id} className="bg-green-800 rounded-xl p-6 border border-yellow-600">
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-xl font-bold text-white">{tournament.name}</h3>
+                <span className="bg-yellow-600 text-white px-2 py-1 rounded text-sm">
+                  {tournament.status === 'running' && scheduled
+                    ? `${tournament.playersLeft} left`
+                    : `${tournament.registered}/${tournament.maxPlayers}`}
+                </span>
+              </div>
+
+              <div className="space-y-2 text-green-100 mb-4">
+                {scheduled && tournament.startsAt && (
+                  <p><span className="font-semibold">Starts:</span> {new Date(tournament.startsAt).toLocaleString()}</p>
+                )}
+                <p><span className="font-semibold">Buy-in:</span> ${tournament.buyIn.toFixed(2)} + ${tournament.entryFee.toFixed(2)}</p>
+                <p><span className="font-semibold">Prize pool:</span> ${prizePool.toFixed(2)} ({tournament.prizeStructure.join('/')}%)</p>
+                <p><span className="font-semibold">Chips:</span> {tournament.startingChips}</p>
+                {firstLevel && (
+                  <p>
+                    <span className="font-semibold">Blinds:</span> from {firstLevel.smallBlind}/{firstLevel.bigBlind},
+                    up every {firstLevel.minutes} min
+                  </p>
+                )}
+                {scheduled && tournament.lateRegistrationLevels > 0 && (
+                  <p>
+                    <span className="font-semibold">Late registration:</span> {tournament.lateRegistrationLevels} levels
+                    {tournament.lateRegistrationOpen && ' (open now)'}
+                  </p>
+                )}
+              </div>
+
+              {tournament.status === 'running' && tournament.isRegistered ? (
+                <button
+                  onClick={() => tournament.tableId && onTakeSeat(tournament.tableId)}
+                  disabled={!tournament.tableId}
+                  className="w-full bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600
+                           text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                  {tournament.tableId ? 'Take Your Seat' : 'Eliminated'}
+                </button>
+              ) : canRegister ? (
+                <button
+                  onClick={() => handleRegistration(tournament)}
+                  disabled={busyId === tournament.id}
+                  className={`w-full ${tournament.isRegistered ? 'bg-red-600 hover:bg-red-700' : 'bg-yellow-600 hover:bg-yellow-700'}
+                           disabled:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors`}
+                >
+                  {tournament.isRegistered ? 'Unregister' : tournament.status === 'running' ? 'Register Late' : 'Register'}
+                </button>
+              ) : (
+                <button
+                  disabled
+                  className="w-full bg-gray-600 text-white font-bold py-2 px-4 rounded"
+                >
+                  Running
+                </button>
+              )}
+
+              {scheduled && (
+                <button
+                  onClick={() => toggleLobby(tournament)}
+                  className="w-full mt-2 text-yellow-300 hover:text-yellow-200 text-sm"
+                >
+                  {lobby?.id === tournament.id ? 'Hide Lobby' : 'Show Lobby'}
+                </button>
+              )}
+
+              {lobby?.id === tournament.id && (
+                <div className="mt-4 space-y-2 text-green-100 text-sm border-t border-green-600 pt-4">
+                  <p><span className="font-semibold">Entrants:</span> {lobby.registered} ({lobby.playersLeft} left)</p>
+                  <p><span className="font-semibold">Average stack:</span> {lobby.averageStack}</p>
+                  {lobby.currentLevel && (
+                    <p>
+                      <span className="font-semibold">Level {lobby.currentLevel.level + 1}:</span>{' '}
+                      {lobby.currentLevel.smallBlind}/{lobby.currentLevel.bigBlind}
+                      {lobby.nextLevel && `, next ${lobby.nextLevel.smallBlind}/${lobby.nextLevel.bigBlind}`}
+                    </p>
+                  )}
+                  <div>
+                    <span className="font-semibold">Payouts:</span>
+                    <ul className="ml-4">
+                      {lobby.payouts.map(payout => (
+                        <li key={payout.place}>{payout.place}. ${payout.amount.toFixed(2)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  {lobby.tables.length > 0 && (
+                    <div>
+                      <span className="font-semibold">Tables:</span>
+                      <ul className="ml-4">
+                        {lobby.tables.map(table => (
+                          <li key={table.tableId}>{table.name}: {table.players} players</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TournamentLobby;
@@ -1,12 +1,16 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import { gameService } from '../services/gameService';
+import { sessionService } from '../services/sessionService';
+
+export type UserRole = 'player' | 'support' | 'admin' | 'superadmin';
 
 interface User {
   id: number;
   username: string;
   email: string;
+  role?: UserRole; // Missing for sessions stored before roles existed
   balance: number;
 }
 
@@ -15,9 +19,11 @@ interface AuthContextType {
   token: string | null;
   isAuthenticated: boolean;
   isBalanceLoading: boolean;
-  login: (credentials: LoginCredentials) => Promise<boolean>;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<boolean>;
   register: (userData: RegisterData) => Promise<boolean>;
   logout: () => void;
+  logoutAllDevices: () => Promise<void>;
   updateBalance: (newBalance: number) => void;
   refreshBalance: () => Promise<void>;
 }
@@ -27,6 +33,12 @@ interface LoginCredentials {
   password: string;
 }
 
+// A password-only login can stop at a 2FA challenge, finished with verifyTwoFactor
+interface LoginResult {
+  success: boolean;
+  challengeToken?: string;
+}
+
 interface RegisterData {
   username: string;
   email: string;
@@ -55,6 +67,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
+  // Drop the signed-in state locally; the server session is handled by the caller
+  const clearSession = () => {
+    setToken(null);
+    setUser(null);
+    setIsAuthenticated(false);
+
+    sessionService.clearTokens();
+    localStorage.removeItem('casino_user');
+
+    delete axios.defaults.headers.common['Authorization'];
+  };
+
   useEffect(() => {
     const storedToken = localStorage.getItem('casino_token');
     const storedUser = localStorage.getItem('casino_user');
@@ -69,6 +93,84 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, []);
 
+  // Keep state in step with every token refresh, whichever code path triggered it
+  useEffect(() => {
+    return sessionService.onRefresh((newToken, refreshedUser) => {
+      setToken(newToken);
+      axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+
+      if (refreshedUser) {
+        setUser(refreshedUser);
+        localStorage.setItem('casino_user', JSON.stringify(refreshedUser));
+      }
+    });
+  }, []);
+
+  // On a 401, refresh the access token once and replay the request
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(
+      response => response,
+      async (error) => {
+        const config = error.config;
+        const isAuthCall = config?.url?.includes('/auth/');
+
+        if (error.response?.status !== 401 || !config || config._retried || isAuthCall) {
+          return Promise.reject(error);
+        }
+
+        config._retried = true;
+        const newToken = await sessionService.refreshAccessToken();
+        if (!newToken) {
+          clearSession();
+          toast.error('Session expired. Please log in again.');
+          return Promise.reject(error);
+        }
+
+        config.headers = { ...config.headers, Authorization: `Bearer ${newToken}` };
+        return axios(config);
+      }
+    );
+
+    return () => axios.interceptors.response.eject(interceptor);
+  }, []);
+
+  // Refresh a minute before the access token expires, so fetch-based services never see a stale one
+  useEffect(() => {
+    if (!token) return;
+
+    const expiresAt = sessionService.getExpiresAt();
+    if (!expiresAt) return;
+
+    const timer = setTimeout(async () => {
+      if (!(await sessionService.refreshAccessToken())) {
+        clearSession();
+        toast.error('Session expired. Please log in again.');
+      }
+    }, Math.max(expiresAt - Date.now() - 60000, 0));
+
+    return () => clearTimeout(timer);
+  }, [token]);
+
+  // Follow sign-ins, refreshes and sign-outs made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'casino_token') return;
+
+      if (event.newValue) {
+        setToken(event.newValue);
+        axios.defaults.headers.common['Authorization'] = `Bearer ${event.newValue}`;
+      } else {
+        setToken(null);
+        setUser(null);
+        setIsAuthenticated(false);
+        delete axios.defaults.headers.common['Authorization'];
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   // Automatic balance refresh every 30 seconds when authenticated
   useEffect(() => {
     if (!isAuthenticated || !token) return;
@@ -109,7 +211,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [isAuthenticated]);
 
-  const login = async (credentials: LoginCredentials): Promise<boolean> => {
+  // Signed in: keep the tokens and user, and warn staff who still need 2FA
+  const startSession = (data: any) => {
+    setToken(data.token);
+    setUser(data.user);
+    setIsAuthenticated(true);
+
+    sessionService.storeTokens(data);
+    localStorage.setItem('casino_user', JSON.stringify(data.user));
+
+    axios.defaults.headers.common['Authorization'] = `Bearer ${data.token}`;
+
+    if (data.twoFactorSetupRequired) {
+      toast('Set up two-factor authentication in Profile → Security to use admin access', { icon: '🔒' });
+    }
+  };
+
+  const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
     console.log('🔐 Login attempt started:', { 
       username: credentials.username, 
       apiUrl: API_BASE_URL, 
@@ -120,21 +238,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const response = await axios.post(`${API_BASE_URL}/auth/login`, credentials);
       console.log('✅ Login API response:', response.data);
       
-      if (response.data.success) {
-        const { token: newToken, user: userData } = response.data.data;
-        
-        console.log('👤 Setting user data:', userData);
-        setToken(newToken);
-        setUser(userData);
-        setIsAuthenticated(true);
-        
-        localStorage.setItem('casino_token', newToken);
-        localStorage.setItem('casino_user', JSON.stringify(userData));
-        
-        axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+      if (response.data.success && response.data.data.twoFactorRequired) {
+        return { success: false, challengeToken: response.data.data.challengeToken };
+      } else if (response.data.success) {
+        console.log('👤 Setting user data:', response.data.data.user);
+        startSession(response.data.data);
         
         toast.success('Login successful! Welcome back!');
-        return true;
+        return { success: true };
       } else {
         console.warn('⚠️ Login API returned success=false:', response.data);
         toast.error(response.data.message || 'Login failed');
@@ -154,6 +265,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                      'Login failed - please check your connection';
       toast.error(message);
     }
+    return { success: false };
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<boolean> => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/auth/login/2fa`, { challengeToken, code });
+
+      if (response.data.success) {
+        startSession(response.data.data);
+        toast.success('Login successful! Welcome back!');
+        return true;
+      }
+      toast.error(response.data.message || 'Login failed');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Login failed');
+    }
     return false;
   };
 
@@ -162,16 +289,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const response = await axios.post(`${API_BASE_URL}/auth/register`, userData);
       
       if (response.data.success) {
-        const { token: newToken, user: newUser } = response.data.data;
-        
-        setToken(newToken);
-        setUser(newUser);
-        setIsAuthenticated(true);
-        
-        localStorage.setItem('casino_token', newToken);
-        localStorage.setItem('casino_user', JSON.stringify(newUser));
-        
-        axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+        startSession(response.data.data);
         
         toast.success('Registration successful!');
         return true;
@@ -184,26 +302,33 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const logout = () => {
-    setToken(null);
-    setUser(null);
-    setIsAuthenticated(false);
-    
-    localStorage.removeItem('casino_token');
-    localStorage.removeItem('casino_user');
-    
-    delete axios.defaults.headers.common['Authorization'];
+    sessionService.logout();
+    clearSession();
     
     toast.success('Logged out successfully');
   };
 
-  const updateBalance = (newBalance: number) => {
-    if (user) {
-      const updatedUser = { ...user, balance: newBalance };
-      setUser(updatedUser);
-      localStorage.setItem('casino_user', JSON.stringify(updatedUser));
+  const logoutAllDevices = async () => {
+    const result = await sessionService.logoutAll();
+    if (!result.success) {
+      toast.error(result.message || 'Failed to sign out all devices');
+      return;
     }
+
+    clearSession();
+    toast.success('Signed out of all devices');
   };
 
+  // Stable across renders, so socket listeners can depend on it without re-subscribing
+  const updateBalance = useCallback((newBalance: number) => {
+    setUser(current => {
+      if (!current) return current;
+      const updatedUser = { ...current, balance: newBalance };
+      localStorage.setItem('casino_user', JSON.stringify(updatedUser));
+      return updatedUser;
+    });
+  }, []);
+
   const refreshBalance = async () => {
     if (!token || !isAuthenticated) return;
     
@@ -219,12 +344,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         updateBalance(newBalance);
       }
     } catch (error: any) {
+      // A 401 that survives a token refresh has already signed the user out
       console.error('Failed to refresh balance:', error);
-      if (error.response?.status === 401) {
-        // Token expired, logout user
-        logout();
-        toast.error('Session expired. Please log in again.');
-      }
     } finally {
       setIsBalanceLoading(false);
     }
@@ -236,8 +357,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated,
     isBalanceLoading,
     login,
+    verifyTwoFactor,
     register,
     logout,
+    logoutAllDevices,
     updateBalance,
     refreshBalance
   };
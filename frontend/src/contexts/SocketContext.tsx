@@ -28,14 +28,13 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
-  const { token } = useAuth();
+  const { isAuthenticated } = useAuth();
 
   useEffect(() => {
-    if (token) {
+    if (isAuthenticated) {
       const newSocket = io(process.env.REACT_APP_WS_URL || 'http://localhost:5000', {
-        auth: {
-          token,
-        },
+        // Read on every (re)connect so a refreshed access token is used without reconnecting early
+        auth: (cb) => cb({ token: localStorage.getItem('casino_token') }),
         reconnection: true,
         reconnectionAttempts: 10,
         reconnectionDelay: 1000,
@@ -120,7 +119,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         setIsConnected(false);
       }
     }
-  }, [token]);
+  }, [isAuthenticated]);
 
   const joinPokerTable = (tableId: number) => {
     if (socket) {
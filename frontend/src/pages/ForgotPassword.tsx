@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { accountService } from '../services/accountService';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await accountService.forgotPassword(email);
+      if (result.success) {
+        setSent(true);
+      } else {
+        setError(result.message || 'Failed to request password reset');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="casino-card max-w-md w-full mx-4 p-8">
+        <div className="text-center mb-8">
+          <h1 className="casino-font text-3xl font-bold text-casino-gold mb-2">
+            🔑 Forgot Password
+          </h1>
+          <p className="text-gray-300">We'll email you a link to choose a new one</p>
+        </div>
+
+        {sent ? (
+          <div className="bg-casino-green/20 border border-casino-green/30 text-gray-200 px-4 py-3 rounded-lg">
+            If an account uses <strong>{email}</strong>, a reset link is on its way. The link is valid for
+            one hour.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="casino-input w-full"
+                placeholder="Enter your account email"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-600/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <button type="submit" className="casino-button w-full" disabled={isLoading}>
+              {isLoading ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/login" className="text-casino-accent hover:text-casino-gold transition-colors">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
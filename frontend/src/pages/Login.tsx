@@ -7,8 +7,10 @@ const Login: React.FC = () => {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -17,9 +19,18 @@ const Login: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const success = await login({ username, password });
-      if (success) {
+      if (challengeToken) {
+        if (await verifyTwoFactor(challengeToken, code)) {
+          navigate('/dashboard');
+        }
+        return;
+      }
+
+      const result = await login({ username, password });
+      if (result.success) {
         navigate('/dashboard');
+      } else if (result.challengeToken) {
+        setChallengeToken(result.challengeToken);
       }
     } catch (err) {
       setError('Login failed. Please try again.');
@@ -39,37 +50,67 @@ const Login: React.FC = () => {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
-              Username
-            </label>
-            <input
-              type="text"
-              id="username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="casino-input w-full"
-              placeholder="Enter your username"
-              required
-              disabled={isLoading}
-            />
-          </div>
+          {challengeToken ? (
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-2">
+                Authentication Code
+              </label>
+              <input
+                type="text"
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="casino-input w-full text-center tracking-widest"
+                placeholder="123456 or a recovery code"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                disabled={isLoading}
+              />
+              <p className="text-xs text-gray-400 mt-2">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
+                  Username
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="casino-input w-full"
+                  placeholder="Enter your username"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-              Password
-            </label>
-            <input
-              type="password"
-              id="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="casino-input w-full"
-              placeholder="Enter your password"
-              required
-              disabled={isLoading}
-            />
-          </div>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="casino-input w-full"
+                  placeholder="Enter your password"
+                  required
+                  disabled={isLoading}
+                />
+                <div className="text-right mt-2">
+                  <Link to="/forgot-password" className="text-sm text-casino-accent hover:text-casino-gold transition-colors">
+                    Forgot your password?
+                  </Link>
+                </div>
+              </div>
+            </>
+          )}
 
           {error && (
             <div className="bg-red-600/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg">
@@ -88,7 +129,7 @@ const Login: React.FC = () => {
                 Signing in...
               </div>
             ) : (
-              'Sign In'
+              challengeToken ? 'Verify' : 'Sign In'
             )}
           </button>
         </form>
@@ -2,13 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { bonusService, BonusStats } from '../services/bonusService';
+import { fairService, BetHistoryEntry, SeedPair } from '../services/fairService';
+import { sessionService, ActiveSession } from '../services/sessionService';
+import { twoFactorService, TwoFactorSetup, TwoFactorStatus } from '../services/twoFactorService';
+import { accountService } from '../services/accountService';
 import BonusDisplay from '../components/BonusDisplay';
 import BuyCreditsModal from '../components/BuyCreditsModal';
+import GamblingLimitsPanel from '../components/GamblingLimitsPanel';
+import RealityCheckPanel from '../components/RealityCheckPanel';
+import SelfExclusionPanel from '../components/SelfExclusionPanel';
+import DataExportPanel from '../components/DataExportPanel';
+import CloseAccountPanel from '../components/CloseAccountPanel';
 
 interface UserProfileData {
   id: number;
   username: string;
   email: string;
+  emailVerified?: boolean;
   balance: number;
   totalWon: number;
   totalLost: number;
@@ -24,7 +34,7 @@ interface UserPreferences {
 }
 
 const ProfileSettings: React.FC = () => {
-  const { user, updateBalance } = useAuth();
+  const { user, updateBalance, logoutAllDevices } = useAuth();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('overview');
   const [profileData, setProfileData] = useState<UserProfileData | null>(null);
@@ -44,11 +54,29 @@ const ProfileSettings: React.FC = () => {
   });
   const [showBuyCreditsModal, setShowBuyCreditsModal] = useState(false);
   const [creditPurchaseHistory, setCreditPurchaseHistory] = useState([]);
+  const [betHistory, setBetHistory] = useState<BetHistoryEntry[]>([]);
+  const [activeSeed, setActiveSeed] = useState<SeedPair | null>(null);
+  const [clientSeedInput, setClientSeedInput] = useState('');
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
 
   useEffect(() => {
     loadProfileData();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'history') {
+      loadBetHistory();
+    }
+    if (activeTab === 'security') {
+      loadSessions();
+      loadTwoFactorStatus();
+    }
+  }, [activeTab]);
+
   const loadProfileData = async () => {
     try {
       setLoading(true);
@@ -73,6 +101,7 @@ const ProfileSettings: React.FC = () => {
                 id: result.data.id || user.id || 0,
                 username: result.data.username || user.username || '',
                 email: result.data.email || user.email || '',
+                emailVerified: !!result.data.emailVerified,
                 balance: result.data.balance || user.balance || 0,
                 totalWon: result.data.totalWon || 0,
                 totalLost: result.data.totalLost || 0,
@@ -159,6 +188,118 @@ const ProfileSettings: React.FC = () => {
     }
   };
 
+  const loadBetHistory = async () => {
+    const [historyResult, seedResult] = await Promise.all([
+      fairService.getBetHistory(20),
+      fairService.getSeed()
+    ]);
+
+    if (historyResult.success && historyResult.data) {
+      setBetHistory(historyResult.data);
+    }
+    if (seedResult.success && seedResult.data) {
+      setActiveSeed(seedResult.data);
+      setClientSeedInput(seedResult.data.clientSeed);
+    }
+  };
+
+  const loadSessions = async () => {
+    const result = await sessionService.listSessions();
+    if (result.success && result.data) {
+      setSessions(result.data);
+    }
+  };
+
+  const loadTwoFactorStatus = async () => {
+    const result = await twoFactorService.getStatus();
+    if (result.success && result.data) {
+      setTwoFactorStatus(result.data);
+    }
+  };
+
+  const handleTwoFactorSetup = async () => {
+    const result = await twoFactorService.setup();
+    if (result.success && result.data) {
+      setTwoFactorSetup(result.data);
+      setRecoveryCodes([]);
+    } else {
+      alert(result.message || 'Failed to start two-factor setup');
+    }
+  };
+
+  // One code field drives confirm, disable and new recovery codes, depending on the state
+  const handleTwoFactorSubmit = async (e: React.FormEvent, action: 'confirm' | 'disable' | 'recovery') => {
+    e.preventDefault();
+    const code = twoFactorCode.trim();
+
+    const result = action === 'confirm'
+      ? await twoFactorService.confirm(code)
+      : action === 'disable'
+        ? await twoFactorService.disable(code)
+        : await twoFactorService.regenerateRecoveryCodes(code);
+
+    if (!result.success) {
+      alert(result.message || 'Invalid verification code');
+      return;
+    }
+
+    setTwoFactorCode('');
+    setTwoFactorSetup(null);
+    setRecoveryCodes((result.data as { recoveryCodes?: string[] } | undefined)?.recoveryCodes || []);
+    await loadTwoFactorStatus();
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    const result = await sessionService.revokeSession(sessionId);
+    if (result.success) {
+      setSessions(sessions.filter(session => session.id !== sessionId));
+    } else {
+      alert(result.message || 'Failed to sign out session');
+    }
+  };
+
+  const handleLogoutAllDevices = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    await logoutAllDevices();
+    navigate('/');
+  };
+
+  const handleClientSeedChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await fairService.setClientSeed(clientSeedInput.trim());
+    if (result.success && result.data) {
+      setActiveSeed(result.data);
+    } else {
+      alert(result.message || 'Failed to update client seed');
+    }
+  };
+
+  const handleRotateSeed = async () => {
+    const result = await fairService.rotateSeed();
+    if (result.success && result.data) {
+      setActiveSeed(result.data.active);
+      // Bets on the old pair can now be verified
+      await loadBetHistory();
+    } else {
+      alert(result.message || 'Failed to rotate seed');
+    }
+  };
+
+  const getVerifyLink = (bet: BetHistoryEntry) => {
+    const { result, ...inputs } = bet.gameData || {};
+    const params = new URLSearchParams({
+      betId: String(bet.id),
+      game: bet.gameType,
+      serverSeed: bet.provablyFair.serverSeed || '',
+      serverSeedHash: bet.provablyFair.serverSeedHash,
+      clientSeed: bet.provablyFair.clientSeed,
+      nonce: String(bet.provablyFair.nonce),
+      betAmount: String(bet.betAmount),
+      data: JSON.stringify(inputs)
+    });
+    return `/verify?${params.toString()}`;
+  };
+
   const handlePreferenceChange = (key: keyof UserPreferences, value: any) => {
     const updatedPrefs = { ...preferences, [key]: value };
     setPreferences(updatedPrefs);
@@ -178,15 +319,20 @@ const ProfileSettings: React.FC = () => {
       return;
     }
 
-    try {
-      // This would call backend API to change password
-      console.log('Password change requested');
-      alert('Password change feature coming soon!');
-      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
-    } catch (error) {
-      console.error('Error changing password:', error);
-      alert('Failed to change password');
+    const result = await accountService.changePassword(passwordForm.currentPassword, passwordForm.newPassword);
+    if (!result.success) {
+      alert(result.message || 'Failed to change password');
+      return;
     }
+
+    setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    alert('Password changed. Your other devices have been signed out.');
+    loadSessions();
+  };
+
+  const handleResendVerification = async () => {
+    const result = await accountService.resendVerification();
+    alert(result.message || (result.success ? 'Verification email sent' : 'Failed to send verification email'));
   };
 
   const handleCreditPurchaseSuccess = async (creditsAdded: number) => {
@@ -249,6 +395,8 @@ const ProfileSettings: React.FC = () => {
                   { id: 'credits', label: 'Buy Credits', icon: '💰' },
                   { id: 'settings', label: 'Settings', icon: '⚙️' },
                   { id: 'security', label: 'Security', icon: '🔒' },
+                  { id: 'responsible', label: 'Responsible Gaming', icon: '🛡️' },
+                  { id: 'privacy', label: 'Privacy', icon: '📁' },
                   { id: 'history', label: 'History', icon: '📊' }
                 ].map(tab => (
                   <button
@@ -292,6 +440,16 @@ const ProfileSettings: React.FC = () => {
                         <div>
                           <span className="text-gray-400">Email:</span>
                           <span className="text-white ml-2 font-medium">{profileData?.email || 'Not provided'}</span>
+                          {profileData?.email && (profileData.emailVerified ? (
+                            <span className="text-green-400 text-sm ml-2">✓ Verified</span>
+                          ) : (
+                            <button
+                              onClick={handleResendVerification}
+                              className="text-casino-accent hover:text-casino-gold text-sm ml-2"
+                            >
+                              Unverified - resend link
+                            </button>
+                          ))}
                         </div>
                         <div>
                           <span className="text-gray-400">Member Since:</span>
@@ -559,6 +717,175 @@ const ProfileSettings: React.FC = () => {
                       </button>
                     </form>
                   </div>
+
+                  <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6 mt-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-bold text-white">Two-Factor Authentication</h3>
+                      {twoFactorStatus && (
+                        <span className={`text-sm font-bold ${twoFactorStatus.enabled ? 'text-green-400' : 'text-gray-400'}`}>
+                          {twoFactorStatus.enabled ? 'ENABLED' : 'OFF'}
+                        </span>
+                      )}
+                    </div>
+
+                    {twoFactorStatus?.required && !twoFactorStatus.enabled && (
+                      <div className="text-yellow-300 text-sm mb-4">
+                        Your role requires two-factor authentication. Admin access is locked until you enable it
+                        and sign in again.
+                      </div>
+                    )}
+
+                    {recoveryCodes.length > 0 && (
+                      <div className="bg-casino-secondary rounded-lg p-4 mb-4">
+                        <div className="text-white font-semibold mb-2">Recovery codes</div>
+                        <p className="text-sm text-gray-400 mb-3">
+                          Store these somewhere safe. Each one signs you in once if you lose your authenticator.
+                          They will not be shown again.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 font-mono text-casino-gold">
+                          {recoveryCodes.map(code => <div key={code}>{code}</div>)}
+                        </div>
+                      </div>
+                    )}
+
+                    {twoFactorStatus && !twoFactorStatus.enabled && !twoFactorSetup && (
+                      <div>
+                        <p className="text-gray-300 mb-4">
+                          Protect your balance with a code from an authenticator app on every sign-in.
+                        </p>
+                        <button onClick={handleTwoFactorSetup} className="casino-button-primary px-6 py-3">
+                          Enable Two-Factor Authentication
+                        </button>
+                      </div>
+                    )}
+
+                    {twoFactorSetup && (
+                      <form onSubmit={(e) => handleTwoFactorSubmit(e, 'confirm')} className="space-y-4">
+                        <p className="text-gray-300">
+                          Add this key to your authenticator app, or open the setup link on your phone, then enter
+                          the 6-digit code it shows.
+                        </p>
+                        <div className="bg-casino-secondary rounded-lg p-4 font-mono text-casino-gold break-all">
+                          {twoFactorSetup.secret}
+                        </div>
+                        <a href={twoFactorSetup.otpauthUri} className="text-casino-accent text-sm hover:text-casino-gold">
+                          Open in authenticator app
+                        </a>
+                        <input
+                          type="text"
+                          value={twoFactorCode}
+                          onChange={(e) => setTwoFactorCode(e.target.value)}
+                          className="casino-input w-full"
+                          placeholder="123456"
+                          autoComplete="one-time-code"
+                          required
+                        />
+                        <button type="submit" className="casino-button-primary px-6 py-3">
+                          Confirm and Enable
+                        </button>
+                      </form>
+                    )}
+
+                    {twoFactorStatus?.enabled && (
+                      <form className="space-y-4">
+                        <p className="text-gray-300">
+                          {twoFactorStatus.recoveryCodesRemaining} recovery codes left. Enter a current code to
+                          {twoFactorStatus.required ? ' get new recovery codes.' : ' get new recovery codes or turn 2FA off.'}
+                        </p>
+                        <input
+                          type="text"
+                          value={twoFactorCode}
+                          onChange={(e) => setTwoFactorCode(e.target.value)}
+                          className="casino-input w-full"
+                          placeholder="123456"
+                          autoComplete="one-time-code"
+                          required
+                        />
+                        <div className="flex space-x-3">
+                          <button
+                            type="submit"
+                            onClick={(e) => handleTwoFactorSubmit(e, 'recovery')}
+                            className="casino-button-primary px-6 py-3"
+                          >
+                            New Recovery Codes
+                          </button>
+                          {!twoFactorStatus.required && (
+                            <button
+                              type="submit"
+                              onClick={(e) => handleTwoFactorSubmit(e, 'disable')}
+                              className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg"
+                            >
+                              Disable 2FA
+                            </button>
+                          )}
+                        </div>
+                      </form>
+                    )}
+                  </div>
+
+                  <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6 mt-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-bold text-white">Active Sessions</h3>
+                      <button
+                        onClick={handleLogoutAllDevices}
+                        className="bg-red-600 hover:bg-red-700 text-white text-sm px-4 py-2 rounded-lg"
+                      >
+                        Sign Out All Devices
+                      </button>
+                    </div>
+
+                    {sessions.length > 0 ? (
+                      <div className="space-y-3">
+                        {sessions.map(session => (
+                          <div key={session.id} className="flex items-center justify-between p-4 bg-casino-secondary rounded-lg">
+                            <div className="min-w-0">
+                              <div className="text-white font-semibold truncate">
+                                {session.userAgent || 'Unknown device'}
+                                {session.current && <span className="ml-2 text-xs text-green-400">(this device)</span>}
+                              </div>
+                              <div className="text-sm text-gray-400">
+                                {session.ipAddress || 'Unknown IP'} • Signed in {formatDate(session.createdAt)} •
+                                Last active {new Date(session.lastUsedAt).toLocaleString()}
+                              </div>
+                            </div>
+                            {!session.current && (
+                              <button
+                                onClick={() => handleRevokeSession(session.id)}
+                                className="ml-4 text-sm text-red-400 hover:text-red-300"
+                              >
+                                Sign out
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-gray-400">No active sessions found.</div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Responsible Gaming Tab */}
+              {activeTab === 'responsible' && (
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-6">Responsible Gaming</h2>
+                  <div className="space-y-6">
+                    <GamblingLimitsPanel />
+                    <RealityCheckPanel />
+                    <SelfExclusionPanel />
+                  </div>
+                </div>
+              )}
+
+              {/* Privacy Tab */}
+              {activeTab === 'privacy' && (
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-6">Privacy</h2>
+                  <div className="space-y-6">
+                    <DataExportPanel />
+                    <CloseAccountPanel />
+                  </div>
                 </div>
               )}
 
@@ -635,12 +962,85 @@ const ProfileSettings: React.FC = () => {
               {/* History Tab */}
               {activeTab === 'history' && (
                 <div>
-                  <h2 className="text-2xl font-bold text-white mb-6">Transaction History</h2>
+                  <h2 className="text-2xl font-bold text-white mb-6">Bet History</h2>
                   
+                  {/* Provably Fair Seeds */}
+                  <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6 mb-6">
+                    <h3 className="text-lg font-bold text-white mb-4">Provably Fair Seeds</h3>
+                    {activeSeed ? (
+                      <div className="space-y-4">
+                        <div>
+                          <span className="text-gray-400">Server Seed Hash:</span>
+                          <div className="text-white font-mono text-sm break-all">{activeSeed.serverSeedHash}</div>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Next Nonce:</span>
+                          <span className="text-white ml-2 font-medium">{activeSeed.nonce}</span>
+                        </div>
+                        <form onSubmit={handleClientSeedChange} className="flex gap-2">
+                          <input
+                            type="text"
+                            value={clientSeedInput}
+                            onChange={(e) => setClientSeedInput(e.target.value)}
+                            className="casino-input flex-1 font-mono text-sm"
+                            maxLength={64}
+                            required
+                          />
+                          <button type="submit" className="casino-button-secondary px-4 py-2">
+                            Set Client Seed
+                          </button>
+                        </form>
+                        <button
+                          onClick={handleRotateSeed}
+                          className="casino-button-primary px-6 py-3"
+                        >
+                          🔄 Rotate &amp; Reveal Server Seed
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="text-gray-400">Loading seeds...</div>
+                    )}
+                  </div>
+
                   <div className="bg-casino-primary border border-casino-accent/20 rounded-lg p-6">
-                    <div className="text-gray-400 text-center py-8">
-                      Transaction history coming soon...
-                    </div>
+                    {betHistory.length > 0 ? (
+                      <div className="space-y-3">
+                        {betHistory.map(bet => (
+                          <div key={bet.id} className="flex items-center justify-between p-4 bg-casino-secondary rounded-lg">
+                            <div>
+                              <div className="text-white font-medium">{bet.gameName}</div>
+                              <div className="text-gray-400 text-sm">
+                                {new Date(bet.createdAt).toLocaleString()} • Nonce {bet.provablyFair.nonce}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-4">
+                              <div className="text-right">
+                                <div className={`font-bold ${bet.isWin ? 'text-casino-green' : 'text-casino-accent'}`}>
+                                  {bet.isWin ? `+$${bet.winAmount.toFixed(2)}` : `-$${bet.betAmount.toFixed(2)}`}
+                                </div>
+                                <div className="text-gray-400 text-sm">Bet ${bet.betAmount.toFixed(2)}</div>
+                              </div>
+                              {bet.provablyFair.serverSeed ? (
+                                <button
+                                  onClick={() => navigate(getVerifyLink(bet))}
+                                  className="casino-button-secondary px-4 py-2"
+                                >
+                                  Verify
+                                </button>
+                              ) : (
+                                <span className="text-gray-500 text-xs w-24 text-center" title="Rotate your seed to reveal it">
+                                  Seed not yet revealed
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-gray-400 text-center py-8">
+                        No bets yet
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
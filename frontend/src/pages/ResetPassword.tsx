@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { accountService } from '../services/accountService';
+
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await accountService.resetPassword(token, password);
+      if (result.success) {
+        toast.success(result.message || 'Password reset');
+        navigate('/login');
+      } else {
+        setError(result.message || 'Failed to reset password');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="casino-card max-w-md w-full mx-4 p-8">
+        <div className="text-center mb-8">
+          <h1 className="casino-font text-3xl font-bold text-casino-gold mb-2">
+            🔑 Choose a New Password
+          </h1>
+          <p className="text-gray-300">You'll be signed out everywhere once it's changed</p>
+        </div>
+
+        {!token ? (
+          <div className="bg-red-600/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg">
+            This reset link is incomplete. Open the link from the email again, or ask for a new one.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                New Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="casino-input w-full"
+                autoComplete="new-password"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+                Confirm New Password
+              </label>
+              <input
+                type="password"
+                id="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="casino-input w-full"
+                autoComplete="new-password"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-600/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <button type="submit" className="casino-button w-full" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Reset Password'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/forgot-password" className="text-casino-accent hover:text-casino-gold transition-colors">
+            Request a new link
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
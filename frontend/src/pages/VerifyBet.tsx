@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { fairService, VerifyResult } from '../services/fairService';
+
+const GAME_TYPES = ['slots', 'dice', 'crash', 'blackjack', 'roulette'];
+
+const VerifyBet: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [form, setForm] = useState({
+    gameType: searchParams.get('game') || 'dice',
+    serverSeed: searchParams.get('serverSeed') || '',
+    serverSeedHash: searchParams.get('serverSeedHash') || '',
+    clientSeed: searchParams.get('clientSeed') || '',
+    nonce: searchParams.get('nonce') || '0',
+    betAmount: searchParams.get('betAmount') || '1',
+    gameData: searchParams.get('data') || '{}'
+  });
+  const betId = searchParams.get('betId') ? parseInt(searchParams.get('betId') as string) : undefined;
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [localHash, setLocalHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const autoVerified = useRef(false);
+
+  const handleVerify = useCallback(async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setError(null);
+    setResult(null);
+
+    let gameData;
+    try {
+      gameData = JSON.parse(form.gameData || '{}');
+    } catch {
+      setError('Game parameters must be valid JSON');
+      return;
+    }
+
+    setVerifying(true);
+    try {
+      // Hash the seed locally so the commitment check does not rely on the server
+      setLocalHash(await fairService.sha256(form.serverSeed));
+
+      const response = await fairService.verifyBet({
+        serverSeed: form.serverSeed.trim(),
+        clientSeed: form.clientSeed.trim(),
+        nonce: parseInt(form.nonce),
+        gameType: form.gameType,
+        gameData,
+        betAmount: parseFloat(form.betAmount),
+        betId
+      });
+
+      if (response.success && response.data) {
+        setResult(response.data);
+      } else {
+        setError(response.message || 'Verification failed');
+      }
+    } finally {
+      setVerifying(false);
+    }
+  }, [form, betId]);
+
+  useEffect(() => {
+    // Links from bet history carry everything needed; verify straight away, once
+    if (autoVerified.current) return;
+    autoVerified.current = true;
+    if (form.serverSeed && form.clientSeed) {
+      handleVerify();
+    }
+  }, [form.serverSeed, form.clientSeed, handleVerify]);
+
+  const renderCheck = (label: string, passed: boolean | null) => {
+    if (passed === null) return null;
+    return (
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300">{label}</span>
+        <span className={`font-bold ${passed ? 'text-casino-green' : 'text-casino-accent'}`}>
+          {passed ? '✅ Match' : '❌ Mismatch'}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-casino-primary to-casino-secondary p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => navigate(-1)}
+            className="bg-casino-accent hover:bg-casino-accent/80 px-6 py-3 rounded-lg text-white transition-all duration-300"
+          >
+            ← Back
+          </button>
+          <h1 className="text-4xl font-bold text-white">🔍 Verify Bet</h1>
+          <div className="w-32"></div> {/* Spacer for centering */}
+        </div>
+
+        <div className="bg-casino-secondary border border-casino-accent/30 rounded-xl p-6 mb-6">
+          <p className="text-gray-400 mb-6">
+            Every round draws its randomness from HMAC-SHA256(serverSeed, clientSeed:nonce:round). Once a
+            server seed has been rotated and revealed, anyone can re-run the round here and compare it with
+            the stored result.
+          </p>
+
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-gray-300 mb-2">Game</label>
+                <select
+                  value={form.gameType}
+                  onChange={(e) => setForm({ ...form, gameType: e.target.value })}
+                  className="casino-input w-full"
+                >
+                  {GAME_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-2">Nonce</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.nonce}
+                  onChange={(e) => setForm({ ...form, nonce: e.target.value })}
+                  className="casino-input w-full"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2">Server Seed (revealed)</label>
+              <input
+                type="text"
+                value={form.serverSeed}
+                onChange={(e) => setForm({ ...form, serverSeed: e.target.value })}
+                className="casino-input w-full font-mono text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2">Server Seed Hash (published before play)</label>
+              <input
+                type="text"
+                value={form.serverSeedHash}
+                onChange={(e) => setForm({ ...form, serverSeedHash: e.target.value })}
+                className="casino-input w-full font-mono text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-gray-300 mb-2">Client Seed</label>
+                <input
+                  type="text"
+                  value={form.clientSeed}
+                  onChange={(e) => setForm({ ...form, clientSeed: e.target.value })}
+                  className="casino-input w-full font-mono text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-2">Bet Amount</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0.01}
+                  value={form.betAmount}
+                  onChange={(e) => setForm({ ...form, betAmount: e.target.value })}
+                  className="casino-input w-full"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2">Game Parameters (JSON)</label>
+              <textarea
+                value={form.gameData}
+                onChange={(e) => setForm({ ...form, gameData: e.target.value })}
+                className="casino-input w-full font-mono text-sm h-24"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={verifying}
+              className="casino-button-primary px-6 py-3 disabled:opacity-50"
+            >
+              {verifying ? 'Verifying...' : 'Verify'}
+            </button>
+          </form>
+        </div>
+
+        {error && (
+          <div className="bg-casino-secondary border border-casino-accent rounded-xl p-6 mb-6 text-casino-accent">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="bg-casino-secondary border border-casino-accent/30 rounded-xl p-6">
+            <h2 className="text-2xl font-bold text-white mb-4">Result</h2>
+            <div className="space-y-3 mb-6">
+              {form.serverSeedHash && renderCheck(
+                'Server seed hash (computed in your browser)',
+                localHash === form.serverSeedHash.trim().toLowerCase()
+              )}
+              {renderCheck('Result hash vs stored bet', result.hashMatches)}
+              {renderCheck('Outcome vs stored bet', result.resultMatches)}
+              <div className="flex items-center justify-between">
+                <span className="text-gray-300">Outcome</span>
+                <span className={`font-bold ${result.isWin ? 'text-casino-green' : 'text-gray-400'}`}>
+                  {result.isWin ? `Win ${result.multiplier.toFixed(2)}x ($${result.winAmount.toFixed(2)})` : 'Loss'}
+                </span>
+              </div>
+              <div className="text-gray-400 text-sm font-mono break-all">
+                Result hash: {result.resultHash}
+              </div>
+            </div>
+            <pre className="bg-casino-primary rounded-lg p-4 text-gray-300 text-xs overflow-x-auto">
+              {JSON.stringify(result.result, null, 2)}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyBet;
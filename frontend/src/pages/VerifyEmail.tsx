@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { accountService } from '../services/accountService';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Strict mode runs effects twice in development; one request is enough
+    if (requested.current) return;
+    requested.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is incomplete.');
+      return;
+    }
+
+    accountService.verifyEmail(token).then(result => {
+      setStatus(result.success ? 'verified' : 'failed');
+      setMessage(result.message || '');
+    });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="casino-card max-w-md w-full mx-4 p-8 text-center">
+        <h1 className="casino-font text-3xl font-bold text-casino-gold mb-4">
+          ✉️ Email Verification
+        </h1>
+
+        {status === 'verifying' && (
+          <div className="flex items-center justify-center text-gray-300">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+            Verifying your email...
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <p className="text-green-400">Your email address is verified. Thanks!</p>
+        )}
+
+        {status === 'failed' && (
+          <div>
+            <p className="text-red-300 mb-2">{message || 'This verification link did not work.'}</p>
+            <p className="text-sm text-gray-400">
+              You can send a new link from the Profile page.
+            </p>
+          </div>
+        )}
+
+        <div className="mt-6">
+          <Link to="/profile" className="text-casino-accent hover:text-casino-gold transition-colors">
+            Go to your profile
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,18 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { gameService } from '../../services/gameService';
-
-interface Card {
-  rank: number;
-  suit: string;
-  suitSymbol: string;
-}
+import {
+  blackjackService,
+  BlackjackAction,
+  BlackjackCard,
+  BlackjackHand,
+  BlackjackOutcome,
+  BlackjackRound,
+  BlackjackTable
+} from '../../services/blackjackService';
 
 interface GameHistory {
-  playerCards: Card[];
-  dealerCards: Card[];
-  playerValue: number;
+  playerHands: BlackjackHand[];
+  dealerCards: BlackjackCard[];
   dealerValue: number;
   betAmount: number;
   winAmount: number;
@@ -21,33 +22,51 @@ interface GameHistory {
   timestamp: Date;
 }
 
-const SUITS = ['♠', '♥', '♦', '♣'];
-const SUIT_NAMES = ['Spades', 'Hearts', 'Diamonds', 'Clubs'];
+const SUIT_SYMBOLS: { [key: string]: string } = {
+  spades: '♠',
+  hearts: '♥',
+  diamonds: '♦',
+  clubs: '♣'
+};
 const SUIT_COLORS: { [key: string]: string } = {
-  '♠': 'text-black',
-  '♥': 'text-red-500',
-  '♦': 'text-red-500',
-  '♣': 'text-black'
+  spades: 'text-black',
+  hearts: 'text-red-500',
+  diamonds: 'text-red-500',
+  clubs: 'text-black'
 };
 
+const OUTCOME_LABELS: { [key in BlackjackOutcome]: string } = {
+  blackjack: 'BLACKJACK! 🎉',
+  win: 'You Win! 🎉',
+  push: 'PUSH 🤝',
+  lose: 'Dealer Wins 😢',
+  bust: 'BUST! 💥',
+  surrender: 'Surrendered 🏳️'
+};
+
+const ACTION_BUTTONS: { action: BlackjackAction; label: string; colors: string }[] = [
+  { action: 'hit', label: 'HIT 🃏', colors: 'from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 border-blue-500' },
+  { action: 'stand', label: 'STAND ✋', colors: 'from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 border-red-500' },
+  { action: 'double', label: 'DOUBLE DOWN 💰', colors: 'from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 border-purple-500' },
+  { action: 'split', label: 'SPLIT ✂️', colors: 'from-yellow-600 to-yellow-700 hover:from-yellow-700 hover:to-yellow-800 border-yellow-500' },
+  { action: 'surrender', label: 'SURRENDER 🏳️', colors: 'from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 border-gray-500' },
+  { action: 'insurance', label: 'TAKE INSURANCE 🛡️', colors: 'from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 border-green-500' },
+  { action: 'decline_insurance', label: 'NO INSURANCE', colors: 'from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 border-red-500' }
+];
+
 const BlackjackGame: React.FC = () => {
   const { user, updateBalance } = useAuth();
   const navigate = useNavigate();
   
   const [betAmount, setBetAmount] = useState(10.00);
-  const [playerCards, setPlayerCards] = useState<Card[]>([]);
-  const [dealerCards, setDealerCards] = useState<Card[]>([]);
-  const [playerValue, setPlayerValue] = useState(0);
-  const [dealerValue, setDealerValue] = useState(0);
-  const [gameState, setGameState] = useState<'betting' | 'dealing' | 'playing' | 'dealer-turn' | 'finished'>('betting');
-  const [lastWin, setLastWin] = useState<number>(0);
+  const [round, setRound] = useState<BlackjackRound | null>(null);
   const [gameHistory, setGameHistory] = useState<GameHistory[]>([]);
-  const [gameResult, setGameResult] = useState<string>('');
-  const [deck, setDeck] = useState<Card[]>([]);
-  const [dealerHoleCard, setDealerHoleCard] = useState<Card | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [canDoubleDown, setCanDoubleDown] = useState(false);
-  const [hasDoubledDown, setHasDoubledDown] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Everything on the table comes from the server; the client only decides what to show
+  const table: BlackjackTable | null = round ? round.table : null;
+  const gameState: 'betting' | 'playing' | 'finished' = !table ? 'betting' : table.phase === 'finished' ? 'finished' : 'playing';
 
   // Mystical Counter - Progressive XP/Level System
   const [progressStats, setProgressStats] = useState({
@@ -67,6 +86,20 @@ const BlackjackGame: React.FC = () => {
   const minBet = 1.00;
   const maxBet = 500.00;
 
+  // Pick up a round left in progress (page reload, lost connection)
+  useEffect(() => {
+    const loadCurrentRound = async () => {
+      const response = await blackjackService.getCurrentRound();
+      if (response.success && response.data?.round) {
+        setRound(response.data.round);
+        setBetAmount(response.data.round.table.baseBet);
+      }
+    };
+
+    loadCurrentRound();
+  }, []);
+
+
   // Level and XP System for Blackjack
   const calculateXP = (betAmount: number, winAmount: number, isBlackjack: boolean, isDoubleDown: boolean, isWin: boolean) => {
     let xp = Math.floor(betAmount * 3); // Base XP from bet amount
@@ -133,31 +166,6 @@ const BlackjackGame: React.FC = () => {
     });
   };
 
-  // Initialize a new deck of cards
-  const createDeck = (): Card[] => {
-    const newDeck: Card[] = [];
-    for (let suit = 0; suit < 4; suit++) {
-      for (let rank = 1; rank <= 13; rank++) {
-        newDeck.push({
-          rank,
-          suit: SUIT_NAMES[suit],
-          suitSymbol: SUITS[suit]
-        });
-      }
-    }
-    return shuffleDeck(newDeck);
-  };
-
-  // Shuffle deck using Fisher-Yates algorithm
-  const shuffleDeck = (deck: Card[]): Card[] => {
-    const shuffled = [...deck];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
   const getCardName = (rank: number) => {
     if (rank === 1) return 'A';
     if (rank === 11) return 'J';
@@ -166,31 +174,7 @@ const BlackjackGame: React.FC = () => {
     return rank.toString();
   };
 
-  const calculateHandValue = (cards: Card[]): number => {
-    let value = 0;
-    let aces = 0;
-    
-    for (const card of cards) {
-      if (card.rank === 1) {
-        aces++;
-        value += 11;
-      } else if (card.rank > 10) {
-        value += 10;
-      } else {
-        value += card.rank;
-      }
-    }
-    
-    // Convert aces from 11 to 1 if needed
-    while (value > 21 && aces > 0) {
-      value -= 10;
-      aces--;
-    }
-    
-    return value;
-  };
-
-  const renderCard = (card: Card | null, index: number, isHidden = false) => {
+  const renderCard = (card: BlackjackCard | null, index: number, isHidden = false) => {
     if (isHidden || !card) {
       return (
         <div key={`hidden-${index}`} className="w-20 h-28 bg-gradient-to-b from-blue-900 to-blue-800 border-2 border-blue-600 rounded-lg flex items-center justify-center mr-2 mb-2 shadow-lg transform hover:scale-105 transition-transform">
@@ -199,7 +183,7 @@ const BlackjackGame: React.FC = () => {
       );
     }
 
-    const suitColor = SUIT_COLORS[card.suitSymbol];
+    const suitColor = SUIT_COLORS[card.suit];
     
     return (
       <div key={`card-${card.rank}-${card.suit}-${index}`} className="w-20 h-28 bg-white border-2 border-gray-300 rounded-lg flex flex-col items-center justify-center mr-2 mb-2 shadow-lg hover:shadow-xl transition-all transform hover:scale-105">
@@ -207,249 +191,79 @@ const BlackjackGame: React.FC = () => {
           {getCardName(card.rank)}
         </div>
         <div className={`text-2xl ${suitColor}`}>
-          {card.suitSymbol}
+          {SUIT_SYMBOLS[card.suit]}
         </div>
       </div>
     );
   };
 
-  // Deal initial cards
-  const dealInitialCards = () => {
-    const newDeck = createDeck();
-    const playerHand = [newDeck[0], newDeck[2]];
-    const dealerHand = [newDeck[1], newDeck[3]];
-    const holeCard = newDeck[3];
-    
-    setDeck(newDeck.slice(4));
-    setPlayerCards(playerHand);
-    setDealerCards([dealerHand[0]]); // Only show dealer's first card
-    setDealerHoleCard(holeCard);
-    setPlayerValue(calculateHandValue(playerHand));
-    setDealerValue(calculateHandValue([dealerHand[0]]));
-    setCanDoubleDown(playerHand.length === 2);
-    setHasDoubledDown(false);
-    
-    // Check for natural blackjack
-    const playerBJ = calculateHandValue(playerHand) === 21;
-    const dealerBJ = calculateHandValue(dealerHand) === 21;
-    
-    if (playerBJ || dealerBJ) {
-      // Reveal dealer's hole card and finish game
-      setDealerCards(dealerHand);
-      setDealerValue(calculateHandValue(dealerHand));
-      setGameState('finished');
-      
-      if (playerBJ && dealerBJ) {
-        setGameResult('PUSH - Both Blackjack! 🤝');
-        finishGame(playerHand, dealerHand, 'push');
-      } else if (playerBJ) {
-        setGameResult('BLACKJACK! 🎉');
-        finishGame(playerHand, dealerHand, 'blackjack');
-      } else {
-        setGameResult('Dealer Blackjack - You Lose! 😢');
-        finishGame(playerHand, dealerHand, 'dealer-blackjack');
-      }
-    } else {
-      setGameState('playing');
-    }
+  const getResultText = (finished: BlackjackTable): string => {
+    const outcomes = finished.playerHands.map(hand => OUTCOME_LABELS[hand.outcome || 'lose']);
+    const text = outcomes.length === 1
+      ? outcomes[0]
+      : outcomes.map((outcome, index) => `Hand ${index + 1}: ${outcome}`).join(' · ');
+
+    return finished.insurancePayout > 0 ? `${text} · Insurance pays!` : text;
   };
 
-  const startGame = () => {
-    if (!user || user.balance < betAmount) return;
-    
-    setGameState('dealing');
-    setLastWin(0);
-    setGameResult('');
-    setIsAnimating(true);
-    
-    // Simulate dealing animation
-    setTimeout(() => {
-      dealInitialCards();
-      setIsAnimating(false);
-    }, 1000);
+  const recordFinishedRound = (finished: BlackjackTable) => {
+    const isBlackjack = finished.playerHands.some(hand => hand.outcome === 'blackjack');
+    const hasDoubled = finished.playerHands.some(hand => hand.doubled);
+
+    updateProgressTracking(finished.totalBet, finished.totalPayout, isBlackjack ? 'blackjack' : '', hasDoubled);
+
+    setGameHistory((prev: GameHistory[]) => [{
+      playerHands: finished.playerHands,
+      dealerCards: finished.dealerCards,
+      dealerValue: finished.dealerValue,
+      betAmount: finished.totalBet,
+      winAmount: finished.totalPayout,
+      multiplier: finished.totalBet > 0 ? Number((finished.totalPayout / finished.totalBet).toFixed(2)) : 0,
+      result: getResultText(finished),
+      timestamp: new Date()
+    }, ...prev.slice(0, 9)]);
   };
 
-  const hit = () => {
-    if (gameState !== 'playing' || deck.length === 0) return;
-    
-    const newCard = deck[0];
-    const newPlayerCards = [...playerCards, newCard];
-    const newPlayerValue = calculateHandValue(newPlayerCards);
-    
-    setDeck(deck.slice(1));
-    setPlayerCards(newPlayerCards);
-    setPlayerValue(newPlayerValue);
-    setCanDoubleDown(false);
-    
-    if (newPlayerValue > 21) {
-      // Player busts
-      setDealerCards([...dealerCards, dealerHoleCard!]);
-      setDealerValue(calculateHandValue([...dealerCards, dealerHoleCard!]));
-      setGameState('finished');
-      setGameResult('BUST! You Lose! 💥');
-      finishGame(newPlayerCards, [...dealerCards, dealerHoleCard!], 'bust');
+  const handleRoundResponse = (response: { success: boolean; data?: { round: BlackjackRound; balance: number }; message?: string }) => {
+    if (!response.success || !response.data) {
+      setError(response.message || 'Something went wrong');
+      return;
     }
-  };
 
-  const stand = () => {
-    if (gameState !== 'playing') return;
-    
-    setGameState('dealer-turn');
-    setCanDoubleDown(false);
-    
-    // Reveal dealer's hole card
-    const fullDealerHand = [...dealerCards, dealerHoleCard!];
-    setDealerCards(fullDealerHand);
-    
-    // Dealer must hit on soft 17
-    dealerPlay(fullDealerHand);
-  };
+    setError(null);
+    setRound(response.data.round);
+    updateBalance(response.data.balance);
 
-  const doubleDown = () => {
-    if (gameState !== 'playing' || !canDoubleDown || !user || user.balance < betAmount) return;
-    
-    setBetAmount(prev => prev * 2);
-    setHasDoubledDown(true);
-    setCanDoubleDown(false);
-    
-    // Deal one more card and stand
-    const newCard = deck[0];
-    const newPlayerCards = [...playerCards, newCard];
-    const newPlayerValue = calculateHandValue(newPlayerCards);
-    
-    setDeck(deck.slice(1));
-    setPlayerCards(newPlayerCards);
-    setPlayerValue(newPlayerValue);
-    
-    if (newPlayerValue > 21) {
-      // Player busts
-      setDealerCards([...dealerCards, dealerHoleCard!]);
-      setDealerValue(calculateHandValue([...dealerCards, dealerHoleCard!]));
-      setGameState('finished');
-      setGameResult('BUST! You Lose! 💥');
-      finishGame(newPlayerCards, [...dealerCards, dealerHoleCard!], 'bust');
-    } else {
-      setGameState('dealer-turn');
-      const fullDealerHand = [...dealerCards, dealerHoleCard!];
-      setDealerCards(fullDealerHand);
-      dealerPlay(fullDealerHand);
+    if (response.data.round.table.phase === 'finished') {
+      recordFinishedRound(response.data.round.table);
     }
   };
 
-  const dealerPlay = (initialDealerHand: Card[]) => {
-    let currentDealerHand = [...initialDealerHand];
-    let currentDeck = [...deck.slice(1)]; // Account for player's last card if any
-    let dealerVal = calculateHandValue(currentDealerHand);
-    
-    // Dealer hits on soft 17
-    while (dealerVal < 17) {
-      if (currentDeck.length === 0) break;
-      
-      const newCard = currentDeck[0];
-      currentDealerHand.push(newCard);
-      currentDeck = currentDeck.slice(1);
-      dealerVal = calculateHandValue(currentDealerHand);
-    }
+  const startGame = async () => {
+    if (!user || user.balance < betAmount || isAnimating) return;
     
-    setDealerCards(currentDealerHand);
-    setDealerValue(dealerVal);
-    setDeck(currentDeck);
-    setGameState('finished');
-    
-    // Determine winner
-    const playerVal = calculateHandValue(playerCards);
-    
-    if (dealerVal > 21) {
-      setGameResult('Dealer Busts - You Win! 🎉');
-      finishGame(playerCards, currentDealerHand, 'dealer-bust');
-    } else if (playerVal > dealerVal) {
-      setGameResult('You Win! 🎉');
-      finishGame(playerCards, currentDealerHand, 'win');
-    } else if (playerVal === dealerVal) {
-      setGameResult('PUSH - Tie Game! 🤝');
-      finishGame(playerCards, currentDealerHand, 'push');
-    } else {
-      setGameResult('Dealer Wins - You Lose! 😢');
-      finishGame(playerCards, currentDealerHand, 'lose');
+    setIsAnimating(true);
+    try {
+      handleRoundResponse(await blackjackService.startRound(betAmount));
+    } finally {
+      setIsAnimating(false);
     }
   };
 
-  const finishGame = async (finalPlayerCards: Card[], finalDealerCards: Card[], result: string) => {
-    const finalPlayerValue = calculateHandValue(finalPlayerCards);
-    const finalDealerValue = calculateHandValue(finalDealerCards);
-    
-    // Determine multiplier and win amount
-    let multiplier = 0;
-    let winAmount = 0;
-    
-    switch (result) {
-      case 'blackjack':
-        multiplier = 2.5;
-        winAmount = betAmount * multiplier;
-        break;
-      case 'win':
-      case 'dealer-bust':
-        multiplier = 2;
-        winAmount = betAmount * multiplier;
-        break;
-      case 'push':
-        multiplier = 1;
-        winAmount = betAmount; // Return bet
-        break;
-      case 'bust':
-      case 'lose':
-      case 'dealer-blackjack':
-        multiplier = 0;
-        winAmount = 0;
-        break;
-    }
-    
-    setLastWin(winAmount);
-    
-    // Update progress tracking
-    updateProgressTracking(betAmount, winAmount, result, hasDoubledDown);
-    
-    // Send result to backend for balance update
+  const sendAction = async (action: BlackjackAction) => {
+    if (!round || isAnimating) return;
+
+    setIsAnimating(true);
     try {
-      const backendResult = await gameService.placeBet(2, betAmount);
-      if (backendResult.success && backendResult.data) {
-        updateBalance(backendResult.data.newBalance);
-      }
-    } catch (error) {
-      console.error('Failed to update backend:', error);
-      // Update balance locally if backend fails
-      const newBalance = user?.balance ? user.balance - betAmount + winAmount : winAmount;
-      updateBalance(newBalance);
+      handleRoundResponse(await blackjackService.act(round.id, action));
+    } finally {
+      setIsAnimating(false);
     }
-    
-    // Add to history
-    setGameHistory((prev: GameHistory[]) => [{
-      playerCards: finalPlayerCards,
-      dealerCards: finalDealerCards,
-      playerValue: finalPlayerValue,
-      dealerValue: finalDealerValue,
-      betAmount: hasDoubledDown ? betAmount : betAmount,
-      winAmount,
-      multiplier,
-      result: gameResult || 'Game completed',
-      timestamp: new Date()
-    }, ...prev.slice(0, 9)]);
   };
 
   const newGame = () => {
-    setGameState('betting');
-    setPlayerCards([]);
-    setDealerCards([]);
-    setPlayerValue(0);
-    setDealerValue(0);
-    setLastWin(0);
-    setGameResult('');
-    setDealerHoleCard(null);
-    setCanDoubleDown(false);
-    setHasDoubledDown(false);
-    if (hasDoubledDown) {
-      setBetAmount(betAmount / 2); // Reset doubled bet
-    }
+    setRound(null);
+    setError(null);
   };
 
   const adjustBet = (amount: number) => {
@@ -514,16 +328,16 @@ const BlackjackGame: React.FC = () => {
             <div className="mb-8">
               <h3 className="text-white text-2xl font-bold mb-4 flex items-center justify-center">
                 <span className="mr-2">🎩</span>
-                Dealer {gameState === 'finished' ? `(${dealerValue})` : dealerCards.length > 0 ? `(${calculateHandValue(dealerCards)})` : ''}
+                Dealer {table ? `(${table.dealerValue})` : ''}
                 <span className="ml-2">🎩</span>
               </h3>
               <div className="flex justify-center flex-wrap min-h-32 bg-green-800 bg-opacity-50 rounded-xl p-4 border border-green-700">
-                {gameState === 'betting' ? (
+                {!table ? (
                   <div className="text-green-300 text-lg flex items-center">Waiting for your bet...</div>
                 ) : (
                   <>
-                    {dealerCards.map((card, index) => renderCard(card, index, false))}
-                    {gameState !== 'finished' && dealerHoleCard && renderCard(null, 99, true)}
+                    {table.dealerCards.map((card, index) => renderCard(card, index, false))}
+                    {Array.from({ length: table.dealerHiddenCards }).map((_, index) => renderCard(null, 99 + index, true))}
                   </>
                 )}
               </div>
@@ -533,34 +347,64 @@ const BlackjackGame: React.FC = () => {
             <div className="mb-8">
               <h3 className="text-white text-2xl font-bold mb-4 flex items-center justify-center">
                 <span className="mr-2">👤</span>
-                Your Hand {gameState !== 'betting' ? `(${playerValue})` : ''}
+                {table && table.playerHands.length > 1 ? 'Your Hands' : `Your Hand ${table ? `(${table.playerHands[0].value})` : ''}`}
                 <span className="ml-2">👤</span>
               </h3>
-              <div className="flex justify-center flex-wrap min-h-32 bg-blue-800 bg-opacity-50 rounded-xl p-4 border border-blue-700">
-                {gameState === 'betting' ? (
+              {!table ? (
+                <div className="flex justify-center flex-wrap min-h-32 bg-blue-800 bg-opacity-50 rounded-xl p-4 border border-blue-700">
                   <div className="text-blue-300 text-lg flex items-center">Place your bet to start!</div>
-                ) : playerCards.length > 0 ? (
-                  playerCards.map((card, index) => renderCard(card, index, false))
-                ) : (
-                  <div className="text-blue-300 text-lg flex items-center">Cards coming...</div>
-                )}
-              </div>
+                </div>
+              ) : (
+                <div className={`grid gap-4 ${table.playerHands.length > 1 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+                  {table.playerHands.map((hand, handIndex) => (
+                    <div
+                      key={handIndex}
+                      className={`bg-blue-800 bg-opacity-50 rounded-xl p-4 border-2 ${
+                        table.activeHand === handIndex && gameState === 'playing' ? 'border-yellow-400' : 'border-blue-700'
+                      }`}
+                    >
+                      <div className="flex justify-center flex-wrap min-h-32">
+                        {hand.cards.map((card, index) => renderCard(card, index, false))}
+                      </div>
+                      <div className="flex justify-between text-sm text-blue-200 mt-2">
+                        <span>{hand.soft && hand.value < 21 ? `Soft ${hand.value}` : hand.value}</span>
+                        <span>Bet ${hand.bet.toFixed(2)}{hand.doubled ? ' (doubled)' : ''}</span>
+                        {hand.outcome && <span className="font-bold text-yellow-300">{OUTCOME_LABELS[hand.outcome]}</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {table && table.insuranceBet > 0 && (
+                <div className="text-green-200 mt-3">🛡️ Insurance: ${table.insuranceBet.toFixed(2)}</div>
+              )}
             </div>
 
+            {error && (
+              <div className="mb-6 p-3 rounded-lg bg-red-900 bg-opacity-60 border border-red-500 text-red-200">
+                {error}
+              </div>
+            )}
+
             {/* Game Result */}
-            {gameResult && (
+            {table && gameState === 'finished' && (
               <div className="mb-6 p-4 rounded-lg bg-gradient-to-r from-yellow-600 to-orange-600 border-2 border-yellow-400">
-                <div className={`text-3xl font-bold mb-2 ${lastWin >= betAmount ? 'text-white' : 'text-white'}`}>
-                  {gameResult}
+                <div className="text-3xl font-bold mb-2 text-white">
+                  {getResultText(table)}
                 </div>
-                {lastWin > 0 && (
+                {table.totalPayout > 0 && (
                   <div className="text-2xl font-bold text-green-200">
-                    +${lastWin.toFixed(2)}
+                    +${table.totalPayout.toFixed(2)}
                   </div>
                 )}
-                {lastWin === 0 && gameState === 'finished' && (
+                {table.totalPayout === 0 && (
                   <div className="text-2xl font-bold text-red-200">
-                    -${betAmount.toFixed(2)}
+                    -${table.totalBet.toFixed(2)}
+                  </div>
+                )}
+                {round && (
+                  <div className="text-xs text-yellow-100 mt-2 font-mono break-all">
+                    Server seed hash: {round.provablyFair.serverSeedHash} · Nonce: {round.provablyFair.nonce}
                   </div>
                 )}
               </div>
@@ -632,28 +476,18 @@ const BlackjackGame: React.FC = () => {
             )}
 
             {/* Playing Controls */}
-            {gameState === 'playing' && (
-              <div className="flex justify-center space-x-4 mb-6">
-                <button
-                  onClick={hit}
-                  className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 border border-blue-500"
-                >
-                  HIT 🃏
-                </button>
-                <button
-                  onClick={stand}
-                  className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 border border-red-500"
-                >
-                  STAND ✋
-                </button>
-                {canDoubleDown && user && user.balance >= betAmount && (
+            {table && gameState === 'playing' && (
+              <div className="flex flex-wrap justify-center gap-4 mb-6">
+                {ACTION_BUTTONS.filter(button => table.availableActions.includes(button.action)).map(button => (
                   <button
-                    onClick={doubleDown}
-                    className="bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 border border-purple-500"
+                    key={button.action}
+                    onClick={() => sendAction(button.action)}
+                    disabled={isAnimating}
+                    className={`bg-gradient-to-r ${button.colors} disabled:opacity-50 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 border`}
                   >
-                    DOUBLE DOWN 💰
+                    {button.label}
                   </button>
-                )}
+                ))}
               </div>
             )}
 
@@ -700,6 +534,18 @@ const BlackjackGame: React.FC = () => {
                 <span className="text-2xl mr-3">🤝</span>
                 <span>Push (tie) returns your bet</span>
               </div>
+              <div className="flex items-center p-2 bg-green-800 bg-opacity-50 rounded-lg">
+                <span className="text-2xl mr-3">🎩</span>
+                <span>Dealer hits soft 17 and peeks for blackjack</span>
+              </div>
+              <div className="flex items-center p-2 bg-green-800 bg-opacity-50 rounded-lg">
+                <span className="text-2xl mr-3">✂️</span>
+                <span>Split pairs up to 4 hands; split aces get one card each</span>
+              </div>
+              <div className="flex items-center p-2 bg-green-800 bg-opacity-50 rounded-lg">
+                <span className="text-2xl mr-3">🛡️</span>
+                <span>Insurance against a dealer ace pays 2:1; surrender returns half</span>
+              </div>
             </div>
           </div>
 
@@ -756,9 +602,9 @@ const BlackjackGame: React.FC = () => {
                   <div key={index} className="bg-green-800 bg-opacity-50 rounded-lg p-4 border border-green-700">
                     <div className="flex justify-between items-center mb-2">
                       <div className="text-sm text-white">
-                        <div>You: {game.playerValue} | Dealer: {game.dealerValue}</div>
+                        <div>You: {game.playerHands.map(hand => hand.value).join(' / ')} | Dealer: {game.dealerValue}</div>
                         <div className="text-xs text-green-300 mt-1">
-                          {game.playerCards.length} cards vs {game.dealerCards.length} cards
+                          {game.playerHands.length > 1 ? `${game.playerHands.length} hands` : `${game.playerHands[0].cards.length} cards`} vs {game.dealerCards.length} cards
                         </div>
                       </div>
                       <div className="text-right">
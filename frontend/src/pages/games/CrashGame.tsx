@@ -1,22 +1,35 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { gameService } from '../../services/gameService';
+import { useSocket } from '../../contexts/SocketContext';
 import { bonusService } from '../../services/bonusService';
+import { crashService, CrashPlayer, CrashRoundState, CrashRoundSummary } from '../../services/crashService';
 import BonusDisplay from '../../components/BonusDisplay';
+import AutoBetPanel from '../../components/AutoBetPanel';
+
+interface CrashResult {
+  crashPoint: number;
+  cashOutAt: number | null;
+  betAmount: number;
+  winAmount: number;
+}
 
 const CrashGame: React.FC = () => {
   const { user, updateBalance } = useAuth();
+  const { socket, isConnected } = useSocket();
   const navigate = useNavigate();
   
   const [betAmount, setBetAmount] = useState(1.00);
   const [cashOutAt, setCashOutAt] = useState(2.00);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentMultiplier, setCurrentMultiplier] = useState(1.00);
-  const [gameResult, setGameResult] = useState<any>(null);
-  const [lastWin, setLastWin] = useState<number>(0);
+  const [autoCashOutEnabled, setAutoCashOutEnabled] = useState(true);
+  const [round, setRound] = useState<CrashRoundState | null>(null);
+  const [bettingDeadline, setBettingDeadline] = useState<number>(0);
+  const [countdown, setCountdown] = useState<number>(0);
+  const [recentRounds, setRecentRounds] = useState<CrashRoundSummary[]>([]);
+  const [gameResult, setGameResult] = useState<CrashResult | null>(null);
   const [gameHistory, setGameHistory] = useState<any[]>([]);
-  const [canBet, setCanBet] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAutoBetting, setIsAutoBetting] = useState(false);
   
   // Mystical Counter - Progressive XP/Level System
   const [progressStats, setProgressStats] = useState({
@@ -33,12 +46,20 @@ const CrashGame: React.FC = () => {
     bigWins: 0
   });
   
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<number>(0);
+  // Socket handlers are registered once; read the current user through a ref
+  const userIdRef = useRef<number | undefined>(user?.id);
+  userIdRef.current = user?.id;
 
   const minBet = 0.10;
   const maxBet = 200.00;
 
+  // The round lives on the server; these are just views of it
+  const myPlayer = round?.players.find(player => player.userId === user?.id);
+  // While auto-bet runs the server places the bets; cashing out by hand still works
+  const canBet = isConnected && round?.phase === 'betting' && !myPlayer && countdown > 0 && !isAutoBetting;
+  const isPlaying = round?.phase === 'running' && !!myPlayer && myPlayer.cashedOutAt === null;
+  const currentMultiplier = round ? (round.phase === 'crashed' && round.crashPoint ? round.crashPoint : round.multiplier) : 1.00;
+
   // Level and XP System for Crash Game
   const calculateXP = (betAmount: number, winAmount: number, multiplier: number, isWin: boolean) => {
     let xp = Math.floor(betAmount * 4); // Base XP from bet amount (higher for crash risk)
@@ -105,121 +126,181 @@ const CrashGame: React.FC = () => {
     });
   };
 
-  // Generate random crash points for demo (this will come from backend in real game)
-  const generateCrashPoint = () => {
-    return Math.max(1, Math.random() * 10 + 1);
-  };
 
-  const startGame = async () => {
-    if (isPlaying || !user || user.balance < betAmount) return;
+  const recordResult = (crashPoint: number, player: CrashPlayer) => {
+    const result: CrashResult = {
+      crashPoint,
+      cashOutAt: player.cashedOutAt,
+      betAmount: player.betAmount,
+      winAmount: player.winAmount
+    };
+    setGameResult(result);
+
+    // Process bonus rewards for crash game
+    if (player.winAmount > 0 && player.cashedOutAt !== null) {
+      const isPerfectCashOut = Math.abs(player.cashedOutAt - crashPoint) < 0.1; // Close to crash point
+      bonusService.processGameResult(
+        5, // Crash game ID
+        'crash',
+        player.betAmount,
+        player.winAmount,
+        player.cashedOutAt,
+        isPerfectCashOut
+      ).then(bonusResult => {
+        if (bonusResult.bonusAwarded > 0) {
+          console.log(`🎁 Crash bonus awarded: ${bonusResult.bonusAwarded} tokens - ${bonusResult.reason}`);
+        }
+      }).catch(err => console.error('Error processing crash bonus:', err));
+    }
 
-    setIsPlaying(true);
-    setCanBet(false);
-    setGameResult(null);
-    setLastWin(0);
-    setCurrentMultiplier(1.00);
-    startTimeRef.current = Date.now();
+    // Update progress tracking
+    updateProgressTracking(player.betAmount, player.winAmount, player.cashedOutAt || crashPoint);
 
-    try {
-      // Place bet with backend
-      const result = await gameService.placeBet(5, betAmount, { cashOutAt }); // Game ID 5 for crash
-      
-      // Debug logging
-      if (result.success && result.data) {
-        console.log('Crash game started:', {
-          crashPoint: result.data.result.crashPoint,
-          cashOutAt: cashOutAt,
-          willWin: cashOutAt <= result.data.result.crashPoint
-        });
+    // Add to history
+    setGameHistory(prev => [{
+      ...result,
+      multiplier: player.cashedOutAt || 0,
+      timestamp: new Date()
+    }, ...prev.slice(0, 9)]);
+  };
+
+  // Load the round in progress and the recent crash points
+  useEffect(() => {
+    const loadInitialState = async () => {
+      const [current, recent] = await Promise.all([
+        crashService.getCurrentRound(),
+        crashService.getRecentRounds(20)
+      ]);
+
+      if (current.success && current.data) {
+        setRound(current.data);
+        setBettingDeadline(Date.now() + current.data.bettingMsLeft);
+      }
+      if (recent.success && recent.data) {
+        setRecentRounds(recent.data);
       }
+    };
 
-      // Animate multiplier growth - much faster for realistic crash game feel
-      intervalRef.current = setInterval(() => {
-        const elapsed = Date.now() - startTimeRef.current;
-        // Faster growth: reach 2x in ~2 seconds, 5x in ~8 seconds
-        const newMultiplier = 1 + (elapsed / 2000) * 1.0; // Grows by 1.0x every 2 seconds
-        setCurrentMultiplier(Number(newMultiplier.toFixed(2)));
-
-        // Check if game should crash
-        if (result.success && result.data) {
-          const crashPoint = result.data.result.crashPoint;
-          if (newMultiplier >= crashPoint) {
-            clearInterval(intervalRef.current!);
-            endGame(result);
-            return;
-          }
-        }
+    loadInitialState();
+  }, []);
 
-        // Safety timeout: force crash after 60 seconds (at 30x multiplier)
-        if (elapsed > 60000) {
-          clearInterval(intervalRef.current!);
-          endGame(result);
-        }
-      }, 50);
+  // Live round events
+  useEffect(() => {
+    if (!socket) return;
 
-    } catch (error) {
-      console.error('Game start failed:', error);
-      setIsPlaying(false);
-      setCanBet(true);
-    }
-  };
+    socket.emit('game:join', 'crash');
 
-  const endGame = (result: any) => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+    const updatePlayer = (data: { roundId: number; player: CrashPlayer }) => {
+      setRound(prev => prev && prev.roundId === data.roundId ? {
+        ...prev,
+        players: [...prev.players.filter(player => player.userId !== data.player.userId), data.player]
+      } : prev);
+    };
+
+    const handleBetting = (data: any) => {
+      setRound({
+        roundId: data.roundId,
+        phase: 'betting',
+        seedHash: data.seedHash,
+        bettingMsLeft: data.bettingMsLeft,
+        startedAt: null,
+        multiplier: 1,
+        crashPoint: null,
+        players: []
+      });
+      setBettingDeadline(Date.now() + data.bettingMsLeft);
+      setGameResult(null);
+      setError(null);
+    };
 
-    setIsPlaying(false);
-    setCanBet(true);
+    const handleStarted = (data: any) => {
+      setRound(prev => prev && prev.roundId === data.roundId ? { ...prev, phase: 'running', startedAt: data.startedAt } : prev);
+    };
 
-    if (result.success && result.data) {
-      const gameResult = result.data?.result || { crashPoint: 1, cashOutAt: 0 };
-      const { crashPoint, cashOutAt } = gameResult;
-      
-      // Debug logging
-      console.log('Game ended:', {
-        crashPoint,
-        cashOutAt,
-        winAmount: result.data?.winAmount || 0,
-        currentMultiplier
-      });
-      
-      setCurrentMultiplier(crashPoint);
-      setGameResult(gameResult);
-      setLastWin(result.data?.winAmount || 0);
-      updateBalance(result.data?.newBalance || 0);
-
-      // Process bonus rewards for crash game
-      const winAmount = result.data?.winAmount || 0;
-      if (winAmount > 0) {
-        const isPerfectCashOut = Math.abs(cashOutAt - crashPoint) < 0.1; // Close to crash point
-        bonusService.processGameResult(
-          5, // Crash game ID
-          'crash',
-          betAmount,
-          winAmount,
-          cashOutAt,
-          isPerfectCashOut
-        ).then(bonusResult => {
-          if (bonusResult.bonusAwarded > 0) {
-            console.log(`🎁 Crash bonus awarded: ${bonusResult.bonusAwarded} tokens - ${bonusResult.reason}`);
-          }
-        }).catch(err => console.error('Error processing crash bonus:', err));
-      }
+    const handleTick = (data: any) => {
+      setRound(prev => prev && prev.roundId === data.roundId ? { ...prev, phase: 'running', multiplier: data.multiplier } : prev);
+    };
 
-      // Update progress tracking
-      updateProgressTracking(betAmount, result.data?.winAmount || 0, crashPoint);
-
-      // Add to history
-      setGameHistory(prev => [{
-        crashPoint,
-        cashOutAt,
-        betAmount,
-        winAmount: result.data?.winAmount || 0,
-        multiplier: result.data?.multiplier || 0,
-        timestamp: new Date()
-      }, ...prev.slice(0, 9)]);
+    const handleCrashed = (data: any) => {
+      setRound(prev => prev && prev.roundId === data.roundId ? {
+        ...prev,
+        phase: 'crashed',
+        multiplier: data.crashPoint,
+        crashPoint: data.crashPoint,
+        players: data.players
+      } : prev);
+      setRecentRounds(prev => [{
+        id: data.roundId,
+        roundIndex: data.roundIndex,
+        seedHash: data.seedHash,
+        seed: data.seed,
+        crashPoint: data.crashPoint,
+        crashedAt: new Date().toISOString()
+      }, ...prev.slice(0, 19)]);
+
+      const mine = data.players.find((player: CrashPlayer) => player.userId === userIdRef.current);
+      if (mine) {
+        recordResult(data.crashPoint, mine);
+      }
+    };
+
+    const handleCancelled = () => {
+      setError('This round could not be settled and was cancelled - all bets were refunded');
+    };
+
+    const handleBalanceUpdate = (data: { balance: number }) => updateBalance(data.balance);
+    const handleError = (data: { message: string }) => setError(data.message);
+
+    socket.on('crash:betting', handleBetting);
+    socket.on('crash:started', handleStarted);
+    socket.on('crash:tick', handleTick);
+    socket.on('crash:bet_placed', updatePlayer);
+    socket.on('crash:cashed_out', updatePlayer);
+    socket.on('crash:crashed', handleCrashed);
+    socket.on('crash:cancelled', handleCancelled);
+    socket.on('crash:error', handleError);
+    socket.on('balance:update', handleBalanceUpdate);
+
+    return () => {
+      socket.emit('game:leave', 'crash');
+      socket.off('crash:betting', handleBetting);
+      socket.off('crash:started', handleStarted);
+      socket.off('crash:tick', handleTick);
+      socket.off('crash:bet_placed', updatePlayer);
+      socket.off('crash:cashed_out', updatePlayer);
+      socket.off('crash:crashed', handleCrashed);
+      socket.off('crash:cancelled', handleCancelled);
+      socket.off('crash:error', handleError);
+      socket.off('balance:update', handleBalanceUpdate);
+    };
+  }, [socket]);
+
+  // Betting window countdown
+  useEffect(() => {
+    if (round?.phase !== 'betting') {
+      setCountdown(0);
+      return;
     }
+
+    const update = () => setCountdown(Math.max(0, bettingDeadline - Date.now()));
+    update();
+    const timer = setInterval(update, 100);
+    return () => clearInterval(timer);
+  }, [round?.phase, bettingDeadline]);
+
+  const placeBet = () => {
+    if (!socket || !canBet || !user || user.balance < betAmount) return;
+
+    setError(null);
+    socket.emit('crash:bet', {
+      betAmount,
+      autoCashOut: autoCashOutEnabled ? cashOutAt : null
+    });
+  };
+
+  const cashOut = () => {
+    if (!socket || !isPlaying) return;
+    socket.emit('crash:cashout');
   };
 
   const adjustBet = (amount: number) => {
@@ -235,9 +316,9 @@ const CrashGame: React.FC = () => {
   const getResultMessage = () => {
     if (!gameResult) return '';
     
-    const { crashPoint, cashOutAt } = gameResult;
-    if (cashOutAt <= crashPoint) {
-      return `🎉 Cashed out at ${cashOutAt}x! +$${lastWin.toFixed(2)}`;
+    const { crashPoint, cashOutAt, winAmount, betAmount } = gameResult;
+    if (cashOutAt !== null) {
+      return `🎉 Cashed out at ${cashOutAt.toFixed(2)}x! +$${winAmount.toFixed(2)}`;
     } else {
       return `💥 Crashed at ${crashPoint.toFixed(2)}x! -$${betAmount.toFixed(2)}`;
     }
@@ -287,14 +368,14 @@ const CrashGame: React.FC = () => {
               
               {/* Status */}
               <div className="text-white text-xl mt-4 relative z-10">
-                {isPlaying ? (
+                {!round ? (
+                  <div>Connecting to the next round...</div>
+                ) : round.phase === 'betting' ? (
+                  <div>⏳ Next flight in {(countdown / 1000).toFixed(1)}s - place your bets</div>
+                ) : round.phase === 'running' ? (
                   <div className="animate-bounce">🚀 Flying...</div>
-                ) : gameResult ? (
-                  <div className={gameResult.cashOutAt <= gameResult.crashPoint ? 'text-green-400' : 'text-red-400'}>
-                    {gameResult.cashOutAt <= gameResult.crashPoint ? '✅ Success!' : '💥 Crashed!'}
-                  </div>
                 ) : (
-                  <div>Ready to fly</div>
+                  <div className="text-red-400">💥 Crashed!</div>
                 )}
               </div>
             </div>
@@ -302,12 +383,16 @@ const CrashGame: React.FC = () => {
             {/* Result Display */}
             {gameResult && (
               <div className="mb-6">
-                <div className={`text-2xl font-bold ${lastWin > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                <div className={`text-2xl font-bold ${gameResult.winAmount > 0 ? 'text-green-400' : 'text-red-400'}`}>
                   {getResultMessage()}
                 </div>
               </div>
             )}
 
+            {error && (
+              <div className="mb-6 text-red-400">{error}</div>
+            )}
+
             {/* Game Controls */}
             <div className="bg-black bg-opacity-50 rounded-lg p-6 mb-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -363,7 +448,17 @@ const CrashGame: React.FC = () => {
 
                 {/* Cash Out Controls */}
                 <div>
-                  <h3 className="text-white text-lg font-bold mb-4">🎯 Auto Cash Out</h3>
+                  <h3 className="text-white text-lg font-bold mb-4">
+                    <label className="inline-flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={autoCashOutEnabled}
+                        onChange={(e) => setAutoCashOutEnabled(e.target.checked)}
+                        disabled={!canBet}
+                      />
+                      <span>🎯 Auto Cash Out</span>
+                    </label>
+                  </h3>
                   <div className="text-white mb-4">
                     <span className="text-2xl font-bold text-blue-400">{cashOutAt.toFixed(2)}x</span>
                   </div>
@@ -412,25 +507,90 @@ const CrashGame: React.FC = () => {
 
               {/* Potential Win Display */}
               <div className="text-center mb-4">
-                <div className="text-white opacity-75">Potential Win:</div>
+                <div className="text-white opacity-75">{isPlaying ? 'Cash Out Now:' : 'Potential Win:'}</div>
                 <div className="text-2xl font-bold text-green-400">
-                  ${(betAmount * cashOutAt).toFixed(2)}
+                  ${(isPlaying && myPlayer ? myPlayer.betAmount * currentMultiplier : betAmount * cashOutAt).toFixed(2)}
                 </div>
               </div>
 
               {/* Play Button */}
-              <button
-                onClick={startGame}
-                disabled={isPlaying || !user || user.balance < betAmount}
-                className={`w-full py-4 px-8 rounded-lg font-bold text-xl transition-all duration-200 ${
-                  isPlaying || !user || user.balance < betAmount
-                    ? 'bg-gray-600 cursor-not-allowed'
-                    : 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white transform hover:scale-105'
-                }`}
-              >
-                {isPlaying ? 'FLYING...' : 'START FLIGHT!'}
-              </button>
+              {isPlaying ? (
+                <button
+                  onClick={cashOut}
+                  className="w-full py-4 px-8 rounded-lg font-bold text-xl transition-all duration-200 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white transform hover:scale-105"
+                >
+                  CASH OUT @ {currentMultiplier.toFixed(2)}x
+                </button>
+              ) : (
+                <button
+                  onClick={placeBet}
+                  disabled={!canBet || !user || user.balance < betAmount}
+                  className={`w-full py-4 px-8 rounded-lg font-bold text-xl transition-all duration-200 ${
+                    !canBet || !user || user.balance < betAmount
+                      ? 'bg-gray-600 cursor-not-allowed'
+                      : 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white transform hover:scale-105'
+                  }`}
+                >
+                  {myPlayer && round?.phase === 'betting'
+                    ? 'BET PLACED - WAITING FOR TAKEOFF'
+                    : myPlayer && myPlayer.cashedOutAt !== null
+                      ? `CASHED OUT @ ${myPlayer.cashedOutAt.toFixed(2)}x`
+                      : canBet ? 'PLACE BET' : isAutoBetting ? 'AUTO BETTING...' : 'WAITING FOR NEXT ROUND'}
+                </button>
+              )}
+            </div>
+
+            {/* Auto Bet */}
+            <div className="mb-6">
+              <AutoBetPanel
+                gameType="crash"
+                baseBet={betAmount}
+                gameOptions={{ cashOutAt }}
+                onRunningChange={setIsAutoBetting}
+              />
             </div>
+
+            {/* Players This Round */}
+            {round && round.players.length > 0 && (
+              <div className="bg-black bg-opacity-50 rounded-lg p-4 mb-6 text-left">
+                <h3 className="text-white text-lg font-bold mb-3">👥 Players This Round</h3>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {round.players.map(player => (
+                    <div key={player.userId} className="flex justify-between text-sm">
+                      <span className={player.userId === user?.id ? 'text-yellow-400 font-bold' : 'text-white'}>
+                        {player.username}
+                      </span>
+                      <span className="text-white opacity-75">${player.betAmount.toFixed(2)}</span>
+                      <span className={player.cashedOutAt !== null ? 'text-green-400' : round.phase === 'crashed' ? 'text-red-400' : 'text-gray-400'}>
+                        {player.cashedOutAt !== null
+                          ? `${player.cashedOutAt.toFixed(2)}x (+$${player.winAmount.toFixed(2)})`
+                          : round.phase === 'crashed' ? 'Busted' : '-'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Recent Crash Points */}
+            {recentRounds.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2 mb-2">
+                {recentRounds.map(recent => (
+                  <span
+                    key={recent.id}
+                    title={`Round #${recent.id} seed: ${recent.seed}`}
+                    className={`px-2 py-1 rounded text-xs font-bold ${recent.crashPoint >= 2 ? 'bg-green-700 text-green-100' : 'bg-red-800 text-red-100'}`}
+                  >
+                    {recent.crashPoint.toFixed(2)}x
+                  </span>
+                ))}
+              </div>
+            )}
+            {round && (
+              <div className="text-xs text-gray-400 font-mono break-all">
+                Round #{round.roundId} commitment: {round.seedHash}
+              </div>
+            )}
           </div>
         </div>
 
@@ -490,7 +650,7 @@ const CrashGame: React.FC = () => {
                       Crashed: {game.crashPoint.toFixed(2)}x
                     </div>
                     <div className="text-sm text-blue-400">
-                      Target: {game.cashOutAt.toFixed(2)}x
+                      Cashed: {game.cashOutAt !== null ? `${game.cashOutAt.toFixed(2)}x` : '-'}
                     </div>
                     <div className={`text-sm ${game.winAmount > 0 ? 'text-green-400' : 'text-red-400'}`}>
                       {game.winAmount > 0 ? '✅ Win' : '💥 Crash'}
@@ -1,8 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { gameService } from '../../services/gameService';
 import { audioService } from '../../services/audioService';
+import { AutoBetProgress } from '../../services/autoBetService';
+import AutoBetPanel from '../../components/AutoBetPanel';
 
 interface GameHistory {
   roll: number;
@@ -26,6 +28,7 @@ const DiceGame: React.FC = () => {
   const [lastWin, setLastWin] = useState<number>(0);
     const [gameHistory, setGameHistory] = useState<GameHistory[]>([]);
   const [diceResult, setDiceResult] = useState<number>(1);
+  const [isAutoBetting, setIsAutoBetting] = useState(false);
 
   // Mystical Counter - Progressive XP/Level System
   const [progressStats, setProgressStats] = useState({
@@ -120,7 +123,7 @@ const DiceGame: React.FC = () => {
   const multiplier = winChance > 0 ? (99 / winChance) : 0;
 
   const rollDice = async () => {
-    if (isRolling || !user || user.balance < betAmount || winChance <= 1) {
+    if (isRolling || isAutoBetting || !user || user.balance < betAmount || winChance <= 1) {
       audioService.playError();
       return;
     }
@@ -183,6 +186,24 @@ const DiceGame: React.FC = () => {
     }
   };
 
+  // Rolls made by the server-side auto-bet session show up like manual ones
+  const handleAutoBetProgress = useCallback((progress: AutoBetProgress) => {
+    const { betAmount, winAmount, result } = progress.lastRound;
+    const rollMultiplier = winAmount > 0 ? winAmount / betAmount : 0;
+
+    setLastRoll(result.roll);
+    setLastWin(winAmount);
+    setGameHistory(prev => [{
+      roll: result.roll,
+      target: result.target,
+      isOver: result.isOver,
+      betAmount,
+      winAmount,
+      multiplier: rollMultiplier,
+      timestamp: new Date()
+    }, ...prev.slice(0, 9)]);
+  }, []);
+
   const adjustBet = (amount: number) => {
     const newBet = Math.max(minBet, Math.min(maxBet, betAmount + amount));
     setBetAmount(Number(newBet.toFixed(2)));
@@ -390,17 +411,26 @@ const DiceGame: React.FC = () => {
                 {/* Roll Button */}
                 <button
                   onClick={rollDice}
-                  disabled={isRolling || !user || user.balance < betAmount || winChance <= 1}
+                  disabled={isRolling || isAutoBetting || !user || user.balance < betAmount || winChance <= 1}
                   className={`w-full py-4 px-8 rounded-lg font-bold text-xl transition-all duration-200 ${
-                    isRolling || !user || user.balance < betAmount || winChance <= 1
+                    isRolling || isAutoBetting || !user || user.balance < betAmount || winChance <= 1
                       ? 'bg-gray-600 cursor-not-allowed'
                       : 'bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white transform hover:scale-105'
                   }`}
                 >
-                  {isRolling ? 'ROLLING...' : 'ROLL DICE!'}
+                  {isRolling ? 'ROLLING...' : isAutoBetting ? 'AUTO BETTING...' : 'ROLL DICE!'}
                 </button>
               </div>
             </div>
+
+            {/* Auto Bet */}
+            <AutoBetPanel
+              gameType="dice"
+              baseBet={betAmount}
+              gameOptions={{ target, isOver }}
+              onProgress={handleAutoBetProgress}
+              onRunningChange={setIsAutoBetting}
+            />
           </div>
         </div>
 
@@ -3,11 +3,15 @@
  * Main poker game interface with real-time multiplayer functionality
  */
 
-import React, { useState, useEffect, useContext } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useContext, useCallback } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSocket } from '../../contexts/SocketContext';
 import axios from 'axios';
+import TournamentLobby from '../../components/TournamentLobby';
+import RecentHandsPanel from '../../components/RecentHandsPanel';
+import ActionTimer, { ActionClock } from '../../components/ActionTimer';
+import { pokerStatsService, HudStats } from '../../services/pokerStatsService';
 
 interface Card {
   suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
@@ -28,6 +32,8 @@ interface PokerPlayer {
   isFolded: boolean;
   holeCards?: Card[];
   isAI?: boolean;
+  isSittingOut?: boolean;
+  timeBank?: number;
   playingStyle?: string;
   skillLevel?: string;
 }
@@ -77,6 +83,12 @@ const PokerGame: React.FC = () => {
   const [isPlayerTurn, setIsPlayerTurn] = useState<boolean>(false);
   const [playerCards, setPlayerCards] = useState<Card[]>([]);
   const [showCards, setShowCards] = useState<boolean>(false);
+  const [isTournamentTable, setIsTournamentTable] = useState<boolean>(false);
+  const [tournamentNotice, setTournamentNotice] = useState<string | null>(null);
+  const [lastHandId, setLastHandId] = useState<number | null>(null);
+  const [hud, setHud] = useState<Record<number, HudStats>>({});
+  const [showHud, setShowHud] = useState<boolean>(true);
+  const [actionClock, setActionClock] = useState<{ clock: ActionClock; receivedAt: number } | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -110,8 +122,16 @@ const PokerGame: React.FC = () => {
     socket.on('poker:new_round', handleNewRound);
     socket.on('poker:showdown', handleShowdown);
     socket.on('poker:hand_complete', handleHandComplete);
+    socket.on('poker:hand_voided', handleHandVoided);
     socket.on('poker:error', handlePokerError);
+    socket.on('poker:action_clock', handleActionClock);
+    socket.on('poker:removed_from_table', handleRemovedFromTable);
     socket.on('ai_action', handleAIAction);
+    socket.on('tournament:blinds_up', handleBlindsUp);
+    socket.on('tournament:player_eliminated', handlePlayerEliminated);
+    socket.on('tournament:table_changed', handleTableChanged);
+    socket.on('tournament:final_table', handleFinalTable);
+    socket.on('tournament:finished', handleTournamentFinished);
   };
 
   const cleanupSocketListeners = () => {
@@ -126,8 +146,16 @@ const PokerGame: React.FC = () => {
     socket.off('poker:new_round');
     socket.off('poker:showdown');
     socket.off('poker:hand_complete');
+    socket.off('poker:hand_voided');
     socket.off('poker:error');
+    socket.off('poker:action_clock');
+    socket.off('poker:removed_from_table');
     socket.off('ai_action');
+    socket.off('tournament:blinds_up');
+    socket.off('tournament:player_eliminated');
+    socket.off('tournament:table_changed');
+    socket.off('tournament:final_table');
+    socket.off('tournament:finished');
   };
 
   const fetchTables = async () => {
@@ -147,6 +175,13 @@ const PokerGame: React.FC = () => {
     }
   };
 
+  const fetchHud = async (tableId: number) => {
+    const response = await pokerStatsService.getHud(tableId);
+    if (response.success && response.data) {
+      setHud(Object.fromEntries(response.data.map(stats => [stats.userId, stats])));
+    }
+  };
+
   const fetchTableState = async (tableId: number) => {
     try {
       console.log('Fetching table state for table:', tableId);
@@ -171,6 +206,7 @@ const PokerGame: React.FC = () => {
             isAllIn: !!p.isAllIn,
             isFolded: !!p.isFolded,
             isAI: !!p.isAI,
+            isSittingOut: !!p.isSittingOut,
             playingStyle: p.playing_style,
             skillLevel: p.skill_level
           })),
@@ -186,6 +222,7 @@ const PokerGame: React.FC = () => {
         
         console.log('✅ Table state fetched via API:', tableState);
         setCurrentTable(tableState);
+        fetchHud(tableId);
         
         // Check if it's player's turn (same logic as WebSocket handler)
         const currentPlayer = tableState.players.find(p => p.userId === user?.id);
@@ -255,9 +292,34 @@ const PokerGame: React.FC = () => {
     }
   };
 
+  // Tournament players are already seated; this only opens their table
+  const handleTakeTournamentSeat = useCallback((tableId: number) => {
+    setJoinedTableId(tableId);
+    setIsTournamentTable(true);
+    setTournamentNotice(null);
+
+    if (socket) {
+      socket.emit('poker:join_table', { tableId });
+    }
+  }, [socket]);
+
   const handleLeaveTable = async () => {
     if (!joinedTableId) return;
 
+    // Tournament seats are not cashed out; leaving only closes the table
+    if (isTournamentTable) {
+      if (socket) {
+        socket.emit('poker:leave_table', { tableId: joinedTableId });
+      }
+
+      setJoinedTableId(null);
+      setCurrentTable(null);
+      setPlayerCards([]);
+      setShowCards(false);
+      setIsTournamentTable(false);
+      return;
+    }
+
     try {
       await axios.post(
         `${process.env.REACT_APP_API_URL}/poker/leave`,
@@ -282,6 +344,12 @@ const PokerGame: React.FC = () => {
     }
   };
 
+  // Away players keep their seat; the clock checks or folds for them until they are back
+  const handleSitOut = (sitOut: boolean) => {
+    if (!socket || !joinedTableId) return;
+    socket.emit(sitOut ? 'poker:sit_out' : 'poker:sit_in', { tableId: joinedTableId });
+  };
+
   const handlePlayerAction = (action: string, amount?: number) => {
     if (!socket || !joinedTableId || !user) return;
 
@@ -413,6 +481,65 @@ const PokerGame: React.FC = () => {
 
   const handleHandComplete = (data: any) => {
     console.log('Hand complete:', data);
+    if (data.handId) {
+      setLastHandId(data.handId);
+    }
+    if (data.tableId) {
+      fetchHud(data.tableId);
+    }
+    setActionClock(null);
+  };
+
+  const handleActionClock = (clock: ActionClock) => {
+    setActionClock({ clock, receivedAt: Date.now() });
+  };
+
+  // Sat out for too long at a cash table; the chips are back in the wallet
+  const handleRemovedFromTable = (data: any) => {
+    setJoinedTableId(null);
+    setCurrentTable(null);
+    setPlayerCards([]);
+    setShowCards(false);
+    setActionClock(null);
+    fetchTables();
+    alert(data.message);
+  };
+
+  const handleHandVoided = (data: any) => {
+    console.log('Hand voided:', data);
+    setPlayerCards([]);
+    setActionClock(null);
+    alert(data.message);
+  };
+
+  const handleBlindsUp = (data: any) => {
+    setTournamentNotice(`Blinds are up to ${data.smallBlind}/${data.bigBlind} from the next hand`);
+  };
+
+  const handlePlayerEliminated = (data: any) => {
+    if (data.userId === user?.id && data.position > 1) {
+      alert(`You are out of the tournament in place ${data.position}`);
+    }
+  };
+
+  // Table balancing moved us; the server has already seated us at the new table
+  const handleTableChanged = (data: any) => {
+    setPlayerCards([]);
+    setShowCards(false);
+    handleTakeTournamentSeat(data.tableId);
+    setTournamentNotice(`You have been moved to another table, seat ${data.seatPosition + 1}`);
+  };
+
+  const handleFinalTable = () => {
+    setTournamentNotice('This is the final table');
+  };
+
+  const handleTournamentFinished = (data: any) => {
+    const prize = data.prizes.find((p: any) => p.userId === user?.id);
+    setTournamentNotice('The tournament is over');
+    if (prize) {
+      alert(`You finished in place ${prize.position} and won $${prize.amount.toFixed(2)}`);
+    }
   };
 
   const handlePokerError = (data: any) => {
@@ -494,6 +621,10 @@ const PokerGame: React.FC = () => {
               </div>
             ))}
           </div>
+
+          <TournamentLobby onTakeSeat={handleTakeTournamentSeat} />
+
+          <RecentHandsPanel />
         </div>
 
         {/* Join Table Modal */}
@@ -537,6 +668,8 @@ const PokerGame: React.FC = () => {
     );
   }
 
+  const mySeat = currentTable?.players.find(p => p.userId === user?.id);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 p-4">
       <div className="max-w-6xl mx-auto">
@@ -545,14 +678,46 @@ const PokerGame: React.FC = () => {
           <h1 className="text-3xl font-bold text-white">
             🃏 Poker Table {joinedTableId}
           </h1>
-          <button
-            onClick={handleLeaveTable}
-            className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded"
-          >
-            Leave Table
-          </button>
+          <div className="flex space-x-2">
+            {mySeat && (
+              <button
+                onClick={() => handleSitOut(!mySeat.isSittingOut)}
+                className={`${
+                  mySeat.isSittingOut ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-700'
+                } text-white font-bold py-2 px-4 rounded`}
+              >
+                {mySeat.isSittingOut ? "I'm Back" : 'Sit Out'}
+              </button>
+            )}
+            <button
+              onClick={() => setShowHud(!showHud)}
+              className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+            >
+              HUD {showHud ? 'On' : 'Off'}
+            </button>
+            {lastHandId && (
+              <Link
+                to={`/games/poker/hands/${lastHandId}/replay`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded"
+              >
+                Replay Last Hand
+              </Link>
+            )}
+            <button
+              onClick={handleLeaveTable}
+              className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded"
+            >
+              {isTournamentTable ? 'Back to Lobby' : 'Leave Table'}
+            </button>
+          </div>
         </div>
 
+        {tournamentNotice && (
+          <div className="bg-yellow-600 text-white rounded p-3 mb-6">{tournamentNotice}</div>
+        )}
+
         {currentTable && (
           <>
             {/* Game Info */}
@@ -610,6 +775,7 @@ const PokerGame: React.FC = () => {
                   const isDealer = player.seatPosition === currentTable.dealerPosition;
                   const isCurrentPlayer = player.seatPosition === currentTable.currentPlayerPosition;
                   const isMe = player.userId === user?.id;
+                  const stats = showHud && !isMe && !player.isAI ? hud[player.userId] : undefined;
 
                   return (
                     <div
@@ -644,8 +810,24 @@ const PokerGame: React.FC = () => {
                             {player.skillLevel}
                           </div>
                         )}
+
+                        {/* HUD: VPIP / PFR / AF over hands played */}
+                        {stats && (
+                          <div
+                            className="text-xs bg-gray-800 text-green-300 rounded px-1 mt-1 font-mono"
+                            title={`VPIP ${Math.round(stats.vpip * 100)}% · PFR ${Math.round(stats.pfr * 100)}% · AF ${stats.aggressionFactor.toFixed(1)} over ${stats.hands} hands`}
+                          >
+                            {Math.round(stats.vpip * 100)}/{Math.round(stats.pfr * 100)}/{stats.aggressionFactor.toFixed(1)} ({stats.hands})
+                          </div>
+                        )}
                         
                         {/* Player Status */}
+                        {player.isSittingOut && (
+                          <div className="text-xs text-gray-500 font-bold">SITTING OUT</div>
+                        )}
+                        {actionClock && actionClock.clock.userId === player.userId && isCurrentPlayer && (
+                          <ActionTimer clock={actionClock.clock} receivedAt={actionClock.receivedAt} />
+                        )}
                         {player.isFolded && (
                           <div className="text-xs text-red-600 font-bold">FOLDED</div>
                         )}
@@ -743,8 +925,8 @@ const PokerGame: React.FC = () => {
               </div>
             )}
 
-            {/* Start Hand Button (for testing) */}
-            {joinedTableId && (
+            {/* Start Hand Button (admins only, for testing) */}
+            {joinedTableId && (user?.role === 'admin' || user?.role === 'superadmin') && (
               <div className="mt-6 text-center">
                 <button
                   onClick={startNewHand}
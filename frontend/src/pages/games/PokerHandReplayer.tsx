@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { pokerHistoryService, HandReplay, ReplaySeat } from '../../services/pokerHistoryService';
+
+const PLAY_INTERVAL_MS = 1200;
+
+const SUITS: Record<string, { symbol: string; red: boolean }> = {
+  h: { symbol: '♥', red: true },
+  d: { symbol: '♦', red: true },
+  c: { symbol: '♣', red: false },
+  s: { symbol: '♠', red: false }
+};
+
+// Seats around an oval table, seat 1 at the bottom
+const seatPosition = (index: number, count: number): { top: string; left: string } => {
+  const angle = Math.PI / 2 + (2 * Math.PI * index) / count;
+  return {
+    top: `${50 + 42 * Math.sin(angle)}%`,
+    left: `${50 + 44 * Math.cos(angle)}%`
+  };
+};
+
+const Card: React.FC<{ card: string | null }> = ({ card }) => {
+  if (!card) {
+    return <div className="w-10 h-14 rounded bg-blue-800 border-2 border-white shadow" />;
+  }
+
+  const rank = card[0] === 'T' ? '10' : card[0];
+  const suit = SUITS[card[1]];
+  return (
+    <div
+      className={`w-10 h-14 rounded bg-white shadow flex items-center justify-center font-bold
+                  transition-transform duration-300 ${suit?.red ? 'text-red-600' : 'text-gray-900'}`}
+    >
+      {rank}{suit?.symbol}
+    </div>
+  );
+};
+
+const PokerHandReplayer: React.FC = () => {
+  const { handId } = useParams<{ handId: string }>();
+  const [searchParams] = useSearchParams();
+  const shareToken = searchParams.get('token');
+
+  const [replay, setReplay] = useState<HandReplay | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const response = await pokerHistoryService.getReplay(parseInt(handId || '0'), shareToken);
+      if (response.success && response.data) {
+        setReplay(response.data);
+        setFrameIndex(0);
+      } else {
+        setError(response.message || 'Failed to load hand replay');
+      }
+    };
+
+    load();
+  }, [handId, shareToken]);
+
+  useEffect(() => {
+    if (!playing || !replay) return;
+
+    if (frameIndex >= replay.frames.length - 1) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setFrameIndex(index => index + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, replay]);
+
+  const handleShare = async () => {
+    if (!replay?.shareToken) return;
+
+    await navigator.clipboard.writeText(pokerHistoryService.shareLink(replay.hand.handId, replay.shareToken));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-green-900 text-white">
+        <div className="text-xl mb-4">{error}</div>
+        <Link to="/games/poker" className="text-yellow-300 hover:text-yellow-200">Back to Poker</Link>
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-green-900">
+        <div className="text-white text-xl">Loading hand...</div>
+      </div>
+    );
+  }
+
+  const { hand, frames } = replay;
+  const frame = frames[frameIndex];
+  const amount = (value: number) => hand.currency === 'USD' ? `$${value.toFixed(2)}` : `${value}`;
+  const tableSeats = Math.max(hand.table.maxPlayers, ...frame.seats.map(seat => seat.seat));
+
+  const renderSeat = (seat: ReplaySeat) => {
+    const position = seatPosition(seat.seat - 1, tableSeats);
+    const acting = frame.actingSeat === seat.seat;
+
+    return (
+      <div
+        key={seat.seat}
+        className="absolute transform -translate-x-1/2 -translate-y-1/2 transition-all duration-300"
+        style={position}
+      >
+        <div
+          className={`rounded-lg p-2 text-center min-w-[120px] border-2 transition-colors duration-300
+                      ${acting ? 'border-yellow-400 bg-gray-900' : 'border-gray-600 bg-gray-800'}
+                      ${seat.folded ? 'opacity-40' : ''}`}
+        >
+          <div className="flex justify-center space-x-1 mb-1">
+            {seat.holeCards
+              ? seat.holeCards.map(card => <Card key={card} card={card} />)
+              : !seat.folded && [0, 1].map(i => <Card key={i} card={null} />)}
+          </div>
+          <div className="text-white text-sm font-semibold">
+            {seat.name}{seat.seat === hand.buttonSeat && ' Ⓓ'}
+          </div>
+          <div className="text-green-300 text-sm">{amount(seat.chips)}{seat.allIn && ' (all-in)'}</div>
+          {seat.won > 0 && (
+            <div className="text-yellow-300 text-sm font-bold">wins {amount(seat.won)}</div>
+          )}
+        </div>
+        {seat.bet > 0 && (
+          <div className="mt-1 text-center text-yellow-200 text-sm transition-opacity duration-300">
+            {amount(seat.bet)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-800 to-green-900 p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="bg-black bg-opacity-50 rounded-lg p-4 mb-4 text-white flex justify-between items-center">
+          <div>
+            <div className="font-bold">{hand.table.name} - Hand #{hand.handNumber}</div>
+            <div className="text-sm text-gray-300">
+              Blinds {amount(hand.smallBlind)}/{amount(hand.bigBlind)} · {new Date(hand.startedAt).toLocaleString()}
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            {replay.shareToken && (
+              <button
+                onClick={handleShare}
+                className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded transition-colors"
+              >
+                {copied ? 'Link Copied' : 'Share'}
+              </button>
+            )}
+            <Link to="/games/poker" className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded transition-colors">
+              Back to Poker
+            </Link>
+          </div>
+        </div>
+
+        <div className="relative bg-green-700 rounded-full border-8 border-yellow-900 mx-auto" style={{ height: 460 }}>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <div className="flex space-x-2 mb-3 min-h-[56px]">
+              {frame.board.map(card => <Card key={card} card={card} />)}
+            </div>
+            <div key={frame.pot} className="text-yellow-300 text-xl font-bold transition-all duration-300">
+              Pot: {amount(frame.pot)}
+            </div>
+            <div className="text-green-100 text-sm capitalize mt-1">{frame.street.replace('_', ' ')}</div>
+          </div>
+
+          {frame.seats.map(renderSeat)}
+        </div>
+
+        <div className="bg-black bg-opacity-50 rounded-lg p-4 mt-6 text-white">
+          <div className="text-center text-lg mb-4 min-h-[28px]">{frame.description}</div>
+
+          <div className="flex justify-center items-center space-x-3 mb-4">
+            <button
+              onClick={() => { setPlaying(false); setFrameIndex(0); }}
+              disabled={frameIndex === 0}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-3 py-2 rounded"
+            >
+              ⏮
+            </button>
+            <button
+              onClick={() => { setPlaying(false); setFrameIndex(index => Math.max(index - 1, 0)); }}
+              disabled={frameIndex === 0}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-3 py-2 rounded"
+            >
+              ◀ Back
+            </button>
+            <button
+              onClick={() => {
+                if (frameIndex >= frames.length - 1) setFrameIndex(0);
+                setPlaying(!playing);
+              }}
+              className="bg-yellow-600 hover:bg-yellow-700 px-4 py-2 rounded font-bold"
+            >
+              {playing ? '⏸ Pause' : '▶ Play'}
+            </button>
+            <button
+              onClick={() => { setPlaying(false); setFrameIndex(index => Math.min(index + 1, frames.length - 1)); }}
+              disabled={frameIndex >= frames.length - 1}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-3 py-2 rounded"
+            >
+              Next ▶
+            </button>
+            <button
+              onClick={() => { setPlaying(false); setFrameIndex(frames.length - 1); }}
+              disabled={frameIndex >= frames.length - 1}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-3 py-2 rounded"
+            >
+              ⏭
+            </button>
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={frameIndex}
+            onChange={e => { setPlaying(false); setFrameIndex(parseInt(e.target.value)); }}
+            className="w-full"
+          />
+          <div className="text-center text-sm text-gray-400 mt-1">
+            Step {frameIndex + 1} of {frames.length}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PokerHandReplayer;
@@ -0,0 +1,59 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+type ApiResponse<T = void> = { success: boolean; data?: T; message?: string };
+
+class AccountServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  private async post<T>(path: string, body: any, failure: string, authenticated = false): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth${path}`, {
+        method: 'POST',
+        headers: authenticated ? this.getAuthHeader() : { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      return { success: false, message: failure };
+    }
+  }
+
+  /**
+   * Confirm an email address with the token from the verification link
+   */
+  verifyEmail(token: string): Promise<ApiResponse> {
+    return this.post('/verify-email', { token }, 'Failed to verify email');
+  }
+
+  resendVerification(): Promise<ApiResponse> {
+    return this.post('/verify-email/resend', {}, 'Failed to send verification email', true);
+  }
+
+  /**
+   * Ask for a reset link; succeeds whether or not the address has an account
+   */
+  forgotPassword(email: string): Promise<ApiResponse> {
+    return this.post('/forgot-password', { email }, 'Failed to request password reset');
+  }
+
+  resetPassword(token: string, password: string): Promise<ApiResponse> {
+    return this.post('/reset-password', { token, password }, 'Failed to reset password');
+  }
+
+  /**
+   * Change the password; the server signs out every other device
+   */
+  changePassword(currentPassword: string, newPassword: string): Promise<ApiResponse<{ signedOutSessions: number }>> {
+    return this.post('/change-password', { currentPassword, newPassword }, 'Failed to change password', true);
+  }
+}
+
+export const accountService = new AccountServiceClass();
@@ -0,0 +1,108 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export type AutoBetGameType = 'dice' | 'crash';
+
+export interface AutoBetAdjustment {
+  action: 'reset' | 'increase';
+  percent: number;
+}
+
+export interface AutoBetConfig {
+  gameType: AutoBetGameType;
+  baseBet: number;
+  target?: number;
+  isOver?: boolean;
+  cashOutAt?: number;
+  onWin: AutoBetAdjustment;
+  onLoss: AutoBetAdjustment;
+  stopOnProfit?: number | null;
+  stopOnLoss?: number | null;
+  maxRounds?: number | null;
+}
+
+export interface AutoBetSession {
+  id: number;
+  status: 'running' | 'stopped' | 'completed';
+  stopReason: string | null;
+  config: AutoBetConfig;
+  roundsPlayed: number;
+  totalWagered: number;
+  totalWon: number;
+  profit: number;
+  currentBet: number;
+}
+
+// Payload of the `autobet:progress` socket event
+export interface AutoBetProgress extends AutoBetSession {
+  lastRound: {
+    betAmount: number;
+    winAmount: number;
+    isWin: boolean;
+    result: any;
+  };
+}
+
+type SessionResponse = { success: boolean; data?: { session: AutoBetSession | null }; message?: string };
+
+class AutoBetServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get the running session, or the last one that ended
+   */
+  async getCurrentSession(): Promise<SessionResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/autobet/current`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting auto-bet session:', error);
+      return { success: false, message: 'Failed to get auto-bet session' };
+    }
+  }
+
+  /**
+   * Start a server-side auto-bet session; progress arrives over the socket
+   */
+  async startSession(config: AutoBetConfig): Promise<SessionResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/autobet/start`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify(config)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error starting auto-bet:', error);
+      return { success: false, message: 'Failed to start auto-bet' };
+    }
+  }
+
+  /**
+   * Stop the running session
+   */
+  async stopSession(): Promise<SessionResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/autobet/stop`, {
+        method: 'POST',
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error stopping auto-bet:', error);
+      return { success: false, message: 'Failed to stop auto-bet' };
+    }
+  }
+}
+
+export const autoBetService = new AutoBetServiceClass();
@@ -0,0 +1,115 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export type BlackjackAction = 'hit' | 'stand' | 'double' | 'split' | 'insurance' | 'decline_insurance' | 'surrender';
+
+export type BlackjackOutcome = 'blackjack' | 'win' | 'push' | 'lose' | 'bust' | 'surrender';
+
+export interface BlackjackCard {
+  rank: number; // 1 = Ace, 11-13 = J/Q/K
+  suit: 'spades' | 'hearts' | 'diamonds' | 'clubs';
+}
+
+export interface BlackjackHand {
+  cards: BlackjackCard[];
+  value: number;
+  soft: boolean;
+  bet: number;
+  doubled: boolean;
+  finished: boolean;
+  outcome: BlackjackOutcome | null;
+  payout: number;
+}
+
+export interface BlackjackTable {
+  phase: 'insurance' | 'player' | 'finished';
+  baseBet: number;
+  playerHands: BlackjackHand[];
+  activeHand: number | null;
+  dealerCards: BlackjackCard[];
+  dealerValue: number;
+  dealerHiddenCards: number;
+  insuranceBet: number;
+  insurancePayout: number;
+  availableActions: BlackjackAction[];
+  totalBet: number;
+  totalPayout: number;
+}
+
+export interface BlackjackRound {
+  id: number;
+  status: 'active' | 'finished';
+  betId: number | null;
+  table: BlackjackTable;
+  provablyFair: {
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+  };
+  createdAt: string;
+}
+
+type RoundResponse = { success: boolean; data?: { round: BlackjackRound; balance: number }; message?: string };
+
+class BlackjackServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get the round in progress, if any
+   */
+  async getCurrentRound(): Promise<{ success: boolean; data?: { round: BlackjackRound | null }; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/blackjack/current`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting blackjack round:', error);
+      return { success: false, message: 'Failed to get blackjack round' };
+    }
+  }
+
+  /**
+   * Deal a new round
+   */
+  async startRound(betAmount: number): Promise<RoundResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/blackjack/start`, {
+        method: 'POST',
+        headers: { ...this.getAuthHeader(), 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({ betAmount })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error starting blackjack round:', error);
+      return { success: false, message: 'Failed to start blackjack round' };
+    }
+  }
+
+  /**
+   * Send a player decision for the round
+   */
+  async act(roundId: number, action: BlackjackAction): Promise<RoundResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/blackjack/${roundId}/action`, {
+        method: 'POST',
+        headers: { ...this.getAuthHeader(), 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({ action })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error applying blackjack action:', error);
+      return { success: false, message: 'Failed to apply blackjack action' };
+    }
+  }
+}
+
+export const blackjackService = new BlackjackServiceClass();
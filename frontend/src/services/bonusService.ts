@@ -135,7 +135,7 @@ class BonusServiceClass {
     try {
       const response = await fetch(`${API_BASE_URL}/bonus/spend`, {
         method: 'POST',
-        headers: this.getAuthHeader(),
+        headers: { ...this.getAuthHeader(), 'Idempotency-Key': crypto.randomUUID() },
         body: JSON.stringify({
           gameId,
           transactionType,
@@ -0,0 +1,59 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export interface CrashPlayer {
+  userId: number;
+  username: string;
+  betAmount: number;
+  cashedOutAt: number | null;
+  winAmount: number;
+}
+
+export interface CrashRoundState {
+  roundId: number;
+  phase: 'betting' | 'running' | 'crashed';
+  seedHash: string;
+  bettingMsLeft: number; // Relative, so the countdown does not depend on the client clock
+  startedAt: number | null;
+  multiplier: number;
+  crashPoint: number | null;
+  players: CrashPlayer[];
+}
+
+export interface CrashRoundSummary {
+  id: number;
+  roundIndex: number;
+  seedHash: string;
+  seed: string;
+  crashPoint: number;
+  crashedAt: string;
+}
+
+class CrashServiceClass {
+  /**
+   * Get the round in progress; live updates arrive over the socket
+   */
+  async getCurrentRound(): Promise<{ success: boolean; data?: CrashRoundState | null; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/crash/current`);
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting crash round:', error);
+      return { success: false, message: 'Failed to get crash round' };
+    }
+  }
+
+  /**
+   * Get recent crash points with their revealed seeds
+   */
+  async getRecentRounds(limit: number = 20): Promise<{ success: boolean; data?: CrashRoundSummary[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/crash/rounds?limit=${limit}`);
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting crash rounds:', error);
+      return { success: false, message: 'Failed to get crash rounds' };
+    }
+  }
+}
+
+export const crashService = new CrashServiceClass();
@@ -0,0 +1,170 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export interface SeedPair {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: string;
+}
+
+export interface RevealedSeedPair {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  revealedAt: string;
+}
+
+export interface BetHistoryEntry {
+  id: number;
+  gameId: number;
+  gameName: string;
+  gameType: string;
+  betAmount: number;
+  winAmount: number;
+  multiplier: number;
+  isWin: boolean;
+  gameData: any;
+  createdAt: string;
+  provablyFair: {
+    serverSeed: string | null;
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+    resultHash: string;
+  };
+}
+
+export interface VerifyRequest {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: number;
+  gameType: string;
+  gameData?: any;
+  betAmount?: number;
+  betId?: number;
+}
+
+export interface VerifyResult {
+  gameType: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  result: any;
+  resultHash: string;
+  isWin: boolean;
+  multiplier: number;
+  winAmount: number;
+  storedResultHash: string | null;
+  hashMatches: boolean | null;
+  resultMatches: boolean | null;
+}
+
+class FairServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get the active seed pair (server seed hash only)
+   */
+  async getSeed(): Promise<{ success: boolean; data?: SeedPair; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/fair/seed`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting seed:', error);
+      return { success: false, message: 'Failed to get seed' };
+    }
+  }
+
+  /**
+   * Set a custom client seed
+   */
+  async setClientSeed(clientSeed: string): Promise<{ success: boolean; data?: SeedPair; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/fair/seed/client`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({ clientSeed })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error setting client seed:', error);
+      return { success: false, message: 'Failed to set client seed' };
+    }
+  }
+
+  /**
+   * Reveal the current server seed and start a new pair
+   */
+  async rotateSeed(): Promise<{ success: boolean; data?: { previous: RevealedSeedPair; active: SeedPair }; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/fair/seed/rotate`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({})
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error rotating seed:', error);
+      return { success: false, message: 'Failed to rotate seed' };
+    }
+  }
+
+  /**
+   * Get bet history with provably fair data
+   */
+  async getBetHistory(limit: number = 20, offset: number = 0): Promise<{ success: boolean; data?: BetHistoryEntry[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/bet/history?limit=${limit}&offset=${offset}`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting bet history:', error);
+      return { success: false, message: 'Failed to get bet history' };
+    }
+  }
+
+  /**
+   * Re-run a round on the server from its seeds
+   */
+  async verifyBet(request: VerifyRequest): Promise<{ success: boolean; data?: VerifyResult; message?: string }> {
+    try {
+      // Comparing with a stored bet needs the owner's session
+      const response = await fetch(`${API_BASE_URL}/fair/verify`, {
+        method: 'POST',
+        headers: request.betId ? this.getAuthHeader() : { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error verifying bet:', error);
+      return { success: false, message: 'Failed to verify bet' };
+    }
+  }
+
+  /**
+   * Hash a server seed in the browser so the commitment can be checked without the backend
+   */
+  async sha256(value: string): Promise<string> {
+    const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
+
+export const fairService = new FairServiceClass();
@@ -1,4 +1,6 @@
 // Game service for API communications
+import { sessionService } from './sessionService';
+
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
 export interface Game {
@@ -69,27 +71,37 @@ class GameService {
 
   async placeBet(gameId: number, betAmount: number, gameData: any = {}): Promise<BetResult> {
     try {
-      const headers = this.getAuthHeaders();
-      console.log('Placing bet with headers:', headers);
       console.log('Token from localStorage:', localStorage.getItem('casino_token') ? 'EXISTS' : 'MISSING');
       
-      const response = await fetch(`${API_BASE_URL}/bet/place`, {
+      // One key per bet: if the connection drops we resend and the server will not charge twice
+      const idempotencyKey = crypto.randomUUID();
+      const send = () => fetch(`${API_BASE_URL}/bet/place`, {
         method: 'POST',
-        headers,
+        headers: { ...this.getAuthHeaders(), 'Idempotency-Key': idempotencyKey },
         body: JSON.stringify({
           gameId,
           betAmount,
           gameData,
         }),
       });
+
+      let response: Response;
+      try {
+        response = await send();
+      } catch (networkError) {
+        console.warn('Bet request failed, retrying with the same idempotency key:', networkError);
+        response = await send();
+      }
       
       console.log('Bet response status:', response.status);
       
+      // Expired access token: refresh once and resend with the same key
+      if (response.status === 401 && await sessionService.refreshAccessToken()) {
+        response = await send();
+      }
+
       if (response.status === 401) {
-        console.error('Unauthorized - token may be invalid or expired');
-        // Clear invalid token
-        localStorage.removeItem('casino_token');
-        localStorage.removeItem('casino_user');
+        console.error('Unauthorized - session could not be refreshed');
         return {
           success: false,
           message: 'Session expired. Please log in again.',
@@ -0,0 +1,101 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export type BettingRound = 'pre_flop' | 'flop' | 'turn' | 'river';
+
+export interface RecentHand {
+  handId: number;
+  handNumber: number;
+  tableName: string;
+  totalPot: number;
+  won: boolean;
+  startedAt: string;
+}
+
+export interface ReplaySeat {
+  seat: number; // Numbered from 1
+  name: string;
+  chips: number;
+  bet: number; // Put in on this street
+  folded: boolean;
+  allIn: boolean;
+  holeCards: string[] | null; // Two-character cards, e.g. 'Ah', 'Td'
+  won: number;
+}
+
+export interface ReplayFrame {
+  description: string;
+  street: BettingRound | 'showdown';
+  board: string[];
+  pot: number;
+  actingSeat: number | null;
+  seats: ReplaySeat[];
+}
+
+export interface HandReplay {
+  hand: {
+    handId: number;
+    handNumber: number;
+    startedAt: string;
+    table: { id: number; name: string; maxPlayers: number };
+    currency: 'USD' | 'chips';
+    smallBlind: number;
+    bigBlind: number;
+    buttonSeat: number;
+  };
+  frames: ReplayFrame[];
+  shareToken?: string; // Only for hands you played
+}
+
+class PokerHistoryServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get your latest finished hands
+   */
+  async getRecentHands(limit: number = 20): Promise<{ success: boolean; data?: RecentHand[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/poker/hands?limit=${limit}`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting recent hands:', error);
+      return { success: false, message: 'Failed to get recent hands' };
+    }
+  }
+
+  /**
+   * Get the replay of a hand you played, or of a hand shared with you by link
+   */
+  async getReplay(handId: number, shareToken?: string | null): Promise<{ success: boolean; data?: HandReplay; message?: string }> {
+    try {
+      const url = shareToken
+        ? `${API_BASE_URL}/poker/hands/${handId}/replay/shared?token=${encodeURIComponent(shareToken)}`
+        : `${API_BASE_URL}/poker/hands/${handId}/replay`;
+      const response = await fetch(url, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting hand replay:', error);
+      return { success: false, message: 'Failed to load hand replay' };
+    }
+  }
+
+  /**
+   * Link that lets anyone replay the hand, without the hole cards that were not shown down
+   */
+  shareLink(handId: number, shareToken: string): string {
+    return `${window.location.origin}/games/poker/hands/${handId}/replay?token=${encodeURIComponent(shareToken)}`;
+  }
+}
+
+export const pokerHistoryService = new PokerHistoryServiceClass();
@@ -0,0 +1,77 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export interface PokerStats {
+  handsPlayed: number;
+  handsWon: number;
+  vpip: number; // Fractions, 0-1
+  pfr: number;
+  aggressionFactor: number;
+  wentToShowdown: number;
+  showdownWinRate: number;
+  bbPer100: number;
+  netResult: number; // Cash tables only
+  handRanks: Record<string, number>;
+}
+
+export interface PokerStatsFilter {
+  bigBlind?: number;
+  from?: string;
+  to?: string;
+}
+
+export interface HudStats {
+  userId: number;
+  hands: number;
+  vpip: number;
+  pfr: number;
+  aggressionFactor: number;
+}
+
+class PokerStatsServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get your poker stats, optionally for one big blind and/or a date range
+   */
+  async getStats(filter: PokerStatsFilter = {}): Promise<{ success: boolean; data?: PokerStats; message?: string }> {
+    try {
+      const params = new URLSearchParams();
+      if (filter.bigBlind !== undefined) params.set('bigBlind', String(filter.bigBlind));
+      if (filter.from) params.set('from', filter.from);
+      if (filter.to) params.set('to', filter.to);
+
+      const response = await fetch(`${API_BASE_URL}/poker/stats?${params.toString()}`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting poker stats:', error);
+      return { success: false, message: 'Failed to get poker stats' };
+    }
+  }
+
+  /**
+   * Get the HUD stats of the players seated at a table
+   */
+  async getHud(tableId: number): Promise<{ success: boolean; data?: HudStats[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/poker/table/${tableId}/hud`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting table HUD:', error);
+      return { success: false, message: 'Failed to get table HUD' };
+    }
+  }
+}
+
+export const pokerStatsService = new PokerStatsServiceClass();
@@ -0,0 +1,104 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface DataExport {
+  id: number;
+  status: ExportStatus;
+  fileSize: number | null; // Bytes, once completed
+  error: string | null;
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+type ApiResponse<T = void> = { success: boolean; data?: T; message?: string };
+
+class PrivacyServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  async listExports(): Promise<ApiResponse<DataExport[]>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/user/data-exports`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading data exports:', error);
+      return { success: false, message: 'Failed to load data exports' };
+    }
+  }
+
+  /**
+   * Queue an export; it is built in the background and announced by email
+   */
+  async requestExport(): Promise<ApiResponse<DataExport>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/user/data-exports`, {
+        method: 'POST',
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error requesting data export:', error);
+      return { success: false, message: 'Failed to request data export' };
+    }
+  }
+
+  /**
+   * Fetch a finished archive with the auth header and hand it to the browser as a download
+   */
+  async downloadExport(exportId: number): Promise<ApiResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/user/data-exports/${exportId}/download`, {
+        headers: this.getAuthHeader()
+      });
+
+      if (!response.ok) {
+        return await response.json();
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="?([^"]+)"?/)?.[1]
+        || `gamblefun-data-${exportId}.zip`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error downloading data export:', error);
+      return { success: false, message: 'Failed to download data export' };
+    }
+  }
+
+  /**
+   * Close the account for good. `confirm` must be the word CLOSE.
+   */
+  async closeAccount(password: string, confirm: string): Promise<ApiResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/user/close`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({ password, confirm })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error closing account:', error);
+      return { success: false, message: 'Failed to close account' };
+    }
+  }
+}
+
+export const privacyService = new PrivacyServiceClass();
@@ -0,0 +1,162 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export type LimitType = 'deposit' | 'wager' | 'loss' | 'session';
+export type LimitPeriod = 'day' | 'week' | 'month' | 'session';
+
+export interface GamblingLimit {
+  type: LimitType;
+  period: LimitPeriod;
+  amount: number | null; // Dollars, or minutes for the session limit
+  used: number | null;
+  remaining: number | null;
+  pending: { amount: number | null; effectiveAt: string } | null; // Increase or removal in its cooling-off
+}
+
+export interface LimitsOverview {
+  limits: GamblingLimit[];
+  sessionEndsAt: string | null; // When the session limit signs this session out
+}
+
+export type ExclusionType = 'cool_off' | 'self_exclusion';
+
+export interface Exclusion {
+  type: ExclusionType;
+  startsAt: string;
+  endsAt: string | null; // null for a permanent self-exclusion
+}
+
+export interface PlaySession {
+  id: number;
+  startedAt: string;
+  minutesPlayed: number;
+  totalBet: number;
+  totalWon: number;
+  net: number;
+  realityCheckPending: boolean;
+}
+
+export interface RealityCheckSettings {
+  intervalMinutes: number | null;
+  session: PlaySession | null;
+}
+
+type ApiResponse<T> = { success: boolean; data?: T; message?: string };
+
+class ResponsibleGamblingServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  async getLimits(): Promise<ApiResponse<LimitsOverview>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/limits`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading limits:', error);
+      return { success: false, message: 'Failed to load limits' };
+    }
+  }
+
+  /**
+   * Set a limit, or remove it with null. Lower limits apply at once; higher ones after a cooling-off.
+   */
+  async setLimit(type: LimitType, period: LimitPeriod, amount: number | null): Promise<ApiResponse<GamblingLimit>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/limits`, {
+        method: 'PUT',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({ type, period, amount })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error updating limit:', error);
+      return { success: false, message: 'Failed to update limit' };
+    }
+  }
+
+  async getExclusion(): Promise<ApiResponse<Exclusion | null>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/exclusion`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading exclusion:', error);
+      return { success: false, message: 'Failed to load exclusion' };
+    }
+  }
+
+  /**
+   * Start a cool-off or self-exclusion. It cannot be undone and signs out every session.
+   */
+  async startExclusion(type: ExclusionType, duration: string, password: string): Promise<ApiResponse<Exclusion>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/exclusion`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({ type, duration, password })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error starting exclusion:', error);
+      return { success: false, message: 'Failed to start exclusion' };
+    }
+  }
+
+  async getRealityCheck(): Promise<ApiResponse<RealityCheckSettings>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/reality-check`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading reality check settings:', error);
+      return { success: false, message: 'Failed to load reality check settings' };
+    }
+  }
+
+  /**
+   * Set the reality check interval in minutes, or turn reality checks off with null
+   */
+  async setRealityCheckInterval(intervalMinutes: number | null): Promise<ApiResponse<{ intervalMinutes: number | null }>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/reality-check`, {
+        method: 'PUT',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify({ intervalMinutes })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error updating reality check settings:', error);
+      return { success: false, message: 'Failed to update reality check settings' };
+    }
+  }
+
+  async acknowledgeRealityCheck(): Promise<ApiResponse<void>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/responsible-gambling/reality-check/acknowledge`, {
+        method: 'POST',
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error acknowledging reality check:', error);
+      return { success: false, message: 'Failed to acknowledge reality check' };
+    }
+  }
+}
+
+export const responsibleGamblingService = new ResponsibleGamblingServiceClass();
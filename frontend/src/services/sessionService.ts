@@ -0,0 +1,181 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const TOKEN_KEY = 'casino_token';
+const REFRESH_TOKEN_KEY = 'casino_refresh_token';
+const EXPIRES_AT_KEY = 'casino_token_expires_at';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Seconds until the access token expires
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+type RefreshListener = (token: string, user: any) => void;
+
+class SessionServiceClass {
+  private refreshInFlight: Promise<string | null> | null = null;
+  private listeners: Set<RefreshListener> = new Set();
+
+  private getAuthHeader(): HeadersInit {
+    const token = this.getAccessToken();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  getAccessToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY);
+  }
+
+  /**
+   * When the stored access token expires, in epoch milliseconds
+   */
+  getExpiresAt(): number | null {
+    const value = localStorage.getItem(EXPIRES_AT_KEY);
+    return value ? Number(value) : null;
+  }
+
+  storeTokens(tokens: SessionTokens) {
+    localStorage.setItem(TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    localStorage.setItem(EXPIRES_AT_KEY, String(Date.now() + tokens.expiresIn * 1000));
+  }
+
+  clearTokens() {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(EXPIRES_AT_KEY);
+  }
+
+  /**
+   * Called with the new access token and user after every successful refresh
+   */
+  onRefresh(listener: RefreshListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get a new access token with the stored refresh token. Concurrent callers share one
+   * request; resolves to null when the session can no longer be refreshed.
+   */
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.doRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  private async doRefresh(): Promise<string | null> {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      });
+      const result = await response.json();
+
+      if (result.success && result.data) {
+        this.storeTokens(result.data);
+        this.listeners.forEach(listener => listener(result.data.token, result.data.user));
+        return result.data.token;
+      }
+
+      // Another tab may have rotated the token first; use what it stored
+      const current = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (current && current !== refreshToken) {
+        return this.getAccessToken();
+      }
+      return null;
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Sign out this device. The local tokens are cleared even if the request fails.
+   */
+  async logout(): Promise<void> {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    this.clearTokens();
+    if (!refreshToken) {
+      return;
+    }
+
+    try {
+      await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      });
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  }
+
+  /**
+   * Sign out every device, including this one
+   */
+  async logoutAll(): Promise<{ success: boolean; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/logout-all`, {
+        method: 'POST',
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error signing out all devices:', error);
+      return { success: false, message: 'Failed to sign out all devices' };
+    }
+  }
+
+  async listSessions(): Promise<{ success: boolean; data?: ActiveSession[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/sessions`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      return { success: false, message: 'Failed to load sessions' };
+    }
+  }
+
+  async revokeSession(sessionId: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      return { success: false, message: 'Failed to sign out session' };
+    }
+  }
+}
+
+export const sessionService = new SessionServiceClass();
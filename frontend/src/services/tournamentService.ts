@@ -0,0 +1,133 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  minutes: number;
+}
+
+export interface Tournament {
+  id: number;
+  name: string;
+  type: 'sit_n_go' | 'scheduled';
+  status: 'registering' | 'running' | 'finished' | 'cancelled';
+  buyIn: number;
+  entryFee: number;
+  startingChips: number;
+  maxPlayers: number; // Largest field
+  tableSize: number;
+  registered: number;
+  playersLeft: number;
+  isRegistered: boolean;
+  prizePool: number; // Buy-ins paid in so far
+  prizeStructure: number[]; // Percent of the prize pool by place, 1st first
+  blindStructure: BlindLevel[];
+  blindLevel: number;
+  levelStartedAt: string | null;
+  lateRegistrationLevels: number;
+  lateRegistrationOpen: boolean;
+  tableId: number | null; // Your table while you are still in
+  startsAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface TournamentPlayer {
+  userId: number;
+  username: string;
+  chips: number;
+  tableId: number | null;
+  seatPosition: number | null;
+  positionFinished: number | null;
+  prizeWon: number;
+  eliminatedAt: string | null;
+}
+
+export interface TournamentLobby extends Tournament {
+  averageStack: number;
+  currentLevel: (BlindLevel & { level: number }) | null;
+  nextLevel: (BlindLevel & { level: number }) | null;
+  payouts: Array<{ place: number; amount: number }>;
+  tables: Array<{ tableId: number; name: string; players: number }>;
+  players: TournamentPlayer[];
+}
+
+type RegistrationResponse = { success: boolean; data?: { balance: number; tableId?: number | null }; message?: string };
+
+class TournamentServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  /**
+   * Get Sit & Gos and scheduled tournaments open for registration or in progress
+   */
+  async getTournaments(): Promise<{ success: boolean; data?: Tournament[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tournaments`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting tournaments:', error);
+      return { success: false, message: 'Failed to get tournaments' };
+    }
+  }
+
+  /**
+   * Get a tournament's lobby: average stack, blinds, payouts, tables and players
+   */
+  async getTournament(tournamentId: number): Promise<{ success: boolean; data?: TournamentLobby; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tournaments/${tournamentId}`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error getting tournament:', error);
+      return { success: false, message: 'Failed to get tournament' };
+    }
+  }
+
+  /**
+   * Register, paying the buy-in and entry fee; also during late registration
+   */
+  async register(tournamentId: number): Promise<RegistrationResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tournaments/${tournamentId}/register`, {
+        method: 'POST',
+        headers: { ...this.getAuthHeader(), 'Idempotency-Key': crypto.randomUUID() }
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error registering for tournament:', error);
+      return { success: false, message: 'Failed to register for tournament' };
+    }
+  }
+
+  /**
+   * Unregister before the start; the buy-in and entry fee are refunded
+   */
+  async unregister(tournamentId: number): Promise<RegistrationResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tournaments/${tournamentId}/unregister`, {
+        method: 'POST',
+        headers: { ...this.getAuthHeader(), 'Idempotency-Key': crypto.randomUUID() }
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error unregistering from tournament:', error);
+      return { success: false, message: 'Failed to unregister from tournament' };
+    }
+  }
+}
+
+export const tournamentService = new TournamentServiceClass();
@@ -0,0 +1,76 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // The account's role cannot turn 2FA off
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+type ApiResponse<T> = { success: boolean; data?: T; message?: string };
+
+class TwoFactorServiceClass {
+  private getAuthHeader(): HeadersInit {
+    const token = localStorage.getItem('casino_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : ''
+    };
+  }
+
+  private async post<T>(path: string, body: any, failure: string): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/2fa${path}`, {
+        method: 'POST',
+        headers: this.getAuthHeader(),
+        body: JSON.stringify(body)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      return { success: false, message: failure };
+    }
+  }
+
+  async getStatus(): Promise<ApiResponse<TwoFactorStatus>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/2fa`, {
+        headers: this.getAuthHeader()
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+      return { success: false, message: 'Failed to load two-factor status' };
+    }
+  }
+
+  /**
+   * Start enrollment; add the returned secret to an authenticator app
+   */
+  setup(): Promise<ApiResponse<TwoFactorSetup>> {
+    return this.post('/setup', {}, 'Failed to start two-factor setup');
+  }
+
+  /**
+   * Finish enrollment with the first code; the recovery codes are only returned here
+   */
+  confirm(code: string): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    return this.post('/confirm', { code }, 'Failed to enable two-factor authentication');
+  }
+
+  disable(code: string): Promise<ApiResponse<void>> {
+    return this.post('/disable', { code }, 'Failed to disable two-factor authentication');
+  }
+
+  regenerateRecoveryCodes(code: string): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    return this.post('/recovery-codes', { code }, 'Failed to regenerate recovery codes');
+  }
+}
+
+export const twoFactorService = new TwoFactorServiceClass();